@@ -0,0 +1,140 @@
+// scripts/arbs.test.ts — run with `npm run test:arbs`
+// Arb / middle scanner over a hand-built board: a 2-way moneyline arb (and
+// the 3-way soccer rule that needs a Draw price), a same-number spread that
+// doesn't arb, a totals middle, book filtering and payout-targeted stake
+// splits. Also the no-vig fair price / EV% / hold
+// helpers the odds table scores the same board with.
+
+import { americanToDecimal, findArbs, findMiddles, stakeSplit } from '../src/lib/arbs';
+import { fairAmerican, fairForMarket, marketHold, outcomeEv } from '../src/lib/fairPrice';
+import type { Game } from '../src/lib/api';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | undefined, expected: number, tol: number) {
+  ok(name, actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+const HOME = 'Boston Celtics';
+const AWAY = 'New York Knicks';
+const NOW = Date.parse('2026-01-10T18:00:00Z');
+
+const book = (title: string, ml: [number, number], spread: [number, number, number], total: [number, number, number]) => ({
+  key: title.toLowerCase(), title, last_update: '',
+  markets: [
+    { key: 'h2h', last_update: '', outcomes: [{ name: HOME, price: ml[0] }, { name: AWAY, price: ml[1] }] },
+    { key: 'spreads', last_update: '', outcomes: [
+      { name: HOME, price: spread[1], point: spread[0] }, { name: AWAY, price: spread[2], point: -spread[0] },
+    ] },
+    { key: 'totals', last_update: '', outcomes: [
+      { name: 'Over', price: total[1], point: total[0] }, { name: 'Under', price: total[2], point: total[0] },
+    ] },
+  ],
+});
+
+const game: Game = {
+  id: 'g1', sport_key: 'basketball_nba', sport_title: 'NBA',
+  commence_time: '2026-01-11T00:00:00Z', home_team: HOME, away_team: AWAY,
+  bookmakers: [
+    book('DraftKings', [-150, 130], [-3.5, -110, -110], [220.5, -110, -110]),
+    book('FanDuel', [-160, 170], [-3.5, -105, -115], [223.5, -110, -110]),
+    book('Kalshi', [-140, 120], [-2.5, -110, -110], [221.5, -108, -112]),
+  ],
+};
+const ALL = ['DraftKings', 'FanDuel', 'Kalshi'];
+
+console.log('decimal odds');
+close('-110 → 1.909', americanToDecimal(-110), 1.9091, 0.0001);
+close('+150 → 2.5', americanToDecimal(150), 2.5, 1e-9);
+
+console.log('arbs');
+const arbs = findArbs([game], ALL, NOW);
+const ml = arbs.find((a) => a.market === 'h2h');
+ok('moneyline arb found', ml !== undefined);
+ok('best home price is Kalshi -140', ml?.legs.find((l) => l.name === HOME)?.book === 'Kalshi');
+ok('best away price is FanDuel +170', ml?.legs.find((l) => l.name === AWAY)?.price === 170);
+close('implied sum', ml?.impliedSum, 140 / 240 + 100 / 270, 1e-9);
+ok('no spread arb at -3.5', !arbs.some((a) => a.market === 'spreads'));
+ok('started games skipped', findArbs([game], ALL, Date.parse('2026-01-11T01:00:00Z')).length === 0);
+ok('book filter drops the arb', !findArbs([game], ['DraftKings', 'Kalshi'], NOW).some((a) => a.market === 'h2h'));
+// Same two-way prices on a soccer board: no Draw quote, no arb (it loses on a draw)
+const noDraw: Game = { ...game, sport_key: 'soccer_usa_mls', sport_title: 'MLS' };
+ok('3-way sport without a Draw is not an arb', !findArbs([noDraw], ALL, NOW).some((a) => a.market === 'h2h'));
+const withDraw: Game = { ...noDraw, bookmakers: [...noDraw.bookmakers, { key: 'pinnacle', title: 'Pinnacle', last_update: '', markets: [
+  { key: 'h2h', last_update: '', outcomes: [{ name: HOME, price: -300 }, { name: AWAY, price: 400 }, { name: 'Draw', price: 5000 }] },
+] }] };
+const drawArb = findArbs([withDraw], [...ALL, 'Pinnacle'], NOW).find((a) => a.market === 'h2h');
+ok('3-way arb covers the Draw', drawArb?.legs.length === 3 && drawArb.legs.some((l) => l.name === 'Draw'));
+
+console.log('middles');
+const middles = findMiddles([game], ALL, NOW);
+const totalMid = middles.find((m) => m.market === 'totals');
+ok('widest totals middle first', totalMid?.legs[0].point === 220.5 && totalMid?.legs[1].point === 223.5);
+close('totals width', totalMid?.width, 3, 1e-9);
+const spreadMid = middles.find((m) => m.market === 'spreads');
+ok('spread middle: home -2.5 vs away +3.5', spreadMid?.legs[0].book === 'Kalshi' && spreadMid?.legs[1].point === 3.5);
+close('spread width', spreadMid?.width, 1, 1e-9);
+
+console.log('stake split');
+const split = stakeSplit([-140, 170], 100);
+close('stake on -140', split.stakes[0], 58.33, 0.005);
+close('stake on +170', split.stakes[1], 37.04, 0.005);
+close('total stake', split.totalStake, 95.37, 0.005);
+ok('profit positive on an arb', split.profit > 0);
+ok('payout near target', Math.abs(split.payout - 100) < 0.02);
+
+console.log('fair price');
+const usFair = fairForMarket(game, 'h2h');
+ok('no Pinnacle → US median', usFair?.source === 'us_median');
+// DK -150/+130 devigs to .5798, FD -160/+170 to .6243 — median of two is the mean
+close('US median home prob', usFair?.probs[HOME], (0.6 / (0.6 + 100 / 230) + (160 / 260) / (160 / 260 + 100 / 270)) / 2, 1e-9);
+close('sides sum to 1', (usFair?.probs[HOME] ?? 0) + (usFair?.probs[AWAY] ?? 0), 1, 1e-9);
+close('EV of FanDuel +170 vs US median', outcomeEv(usFair, { name: AWAY, price: 170 }) ?? undefined, (usFair?.probs[AWAY] ?? 0) * 2.7 - 1, 1e-9);
+
+const spreadFair = fairForMarket(game, 'spreads');
+ok('US spread consensus at the modal number', spreadFair?.points[HOME] === -3.5);
+ok('no EV for a price at another number', outcomeEv(spreadFair, { name: HOME, price: -110, point: -2.5 }) === null);
+ok('EV at the consensus number', outcomeEv(spreadFair, { name: HOME, price: -105, point: -3.5 }) !== null);
+const reversed = (b: Game['bookmakers'][number]) => ({
+  ...b, markets: b.markets.map((m) => ({ ...m, outcomes: [...m.outcomes].reverse() })),
+});
+const mixedOrder: Game = { ...game, bookmakers: [game.bookmakers[0], reversed(game.bookmakers[1]), game.bookmakers[2]] };
+const mixedSpread = fairForMarket(mixedOrder, 'spreads', 'us_median');
+ok('books listing the away side first still share the number', mixedSpread?.points[HOME] === -3.5);
+close('same consensus whatever the outcome order', mixedSpread?.probs[HOME], spreadFair?.probs[HOME] ?? NaN, 1e-9);
+const totalsOrder: Game = { ...game, bookmakers: [
+  game.bookmakers[0],
+  { ...reversed(game.bookmakers[1]), markets: reversed(game.bookmakers[1]).markets.map((m) => m.key !== 'totals' ? m
+    : { ...m, outcomes: m.outcomes.map((o) => ({ ...o, point: 220.5 })) }) },
+] };
+ok('totals keyed on the Over', fairForMarket(totalsOrder, 'totals', 'us_median')?.points.Over === 220.5);
+
+const withPinnacle: Game = { ...game, bookmakers: [...game.bookmakers, { ...book('Pinnacle', [-155, 145], [-3.5, -108, -102], [221.5, -105, -105]), key: 'pinnacle' }] };
+const pinFair = fairForMarket(withPinnacle, 'h2h');
+ok('auto prefers Pinnacle', pinFair?.source === 'pinnacle');
+close('Pinnacle devig', pinFair?.probs[HOME], (155 / 255) / (155 / 255 + 100 / 245), 1e-9);
+ok('explicit Kalshi reference', fairForMarket(withPinnacle, 'h2h', 'kalshi')?.source === 'kalshi');
+ok('explicit Pinnacle with no Pinnacle quote is null', fairForMarket(game, 'h2h', 'pinnacle') === null);
+const oneBook: Game = { ...game, bookmakers: [game.bookmakers[0]] };
+ok('one US book is not a consensus', fairForMarket(oneBook, 'h2h', 'us_median') === null);
+
+const soccer: Game = { ...game, bookmakers: [{ key: 'pinnacle', title: 'Pinnacle', last_update: '', markets: [
+  { key: 'h2h', last_update: '', outcomes: [{ name: HOME, price: 150 }, { name: AWAY, price: 180 }, { name: 'Draw', price: 230 }] },
+] }] };
+const threeWay = fairForMarket(soccer, 'h2h');
+close('3-way devig sums to 1', Object.values(threeWay?.probs ?? {}).reduce((a, b) => a + b, 0), 1, 1e-9);
+ok('draw priced', (threeWay?.probs.Draw ?? 0) > 0.2);
+
+ok('fair -150 at 60%', fairAmerican(0.6) === -150);
+ok('fair +150 at 40%', fairAmerican(0.4) === 150);
+close('DraftKings moneyline hold', marketHold(game.bookmakers[0].markets[0].outcomes) ?? undefined, 0.6 + 100 / 230 - 1, 1e-9);
+ok('hold needs two sides', marketHold([{ name: HOME, price: -110 }]) === null);
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
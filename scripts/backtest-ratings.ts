@@ -0,0 +1,86 @@
+// scripts/backtest-ratings.ts — run with `npm run backtest:ratings -- [options]`
+// Walk-forward backtest of the NCAAB market-feedback ratings against the
+// stored game adjustments (closing spread, opener, final score), with an
+// HCA × adjustment-fraction sweep. Reads Supabase credentials from .env.local.
+//
+// Options:
+//   --season 2026         season to replay (default 2026)
+//   --hca 2,2.5,3         HCA values to sweep
+//   --fraction 0.3,0.5    adjustment fractions to sweep
+//   --from 2025-12-01     score only games on or after this date
+//   --top 10              sweep rows to print (default all)
+
+import { loadBacktestGames, loadRatings } from '../src/lib/ratings/supabase';
+import {
+  CURRENT_BACKTEST_PARAMS, DEFAULT_SWEEP, runBacktest, sweepBacktest, type BacktestReport,
+} from '../src/lib/ratings/backtest';
+
+function arg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function list(name: string, fallback: number[]): number[] {
+  const value = arg(name);
+  if (!value) return fallback;
+  const nums = value.split(',').map(Number);
+  if (!nums.every(Number.isFinite)) throw new Error(`--${name} must be comma-separated numbers`);
+  return nums;
+}
+
+const fmt = (x: number | null, d = 2) => (x === null ? '—' : x.toFixed(d));
+const ats = (r: BacktestReport['ats']) => `${r.wins}-${r.losses}-${r.pushes} (${fmt(r.winPct, 1)}%)`;
+
+function printSummary(title: string, r: BacktestReport) {
+  console.log(`\n${title}: HCA ${r.params.hca}, fraction ${r.params.adjustmentFraction}`);
+  console.log(`  Games scored ${r.gamesScored}, skipped ${r.gamesSkipped}`);
+  console.log(`  MAE vs close ${fmt(r.maeClosing)}  bias ${fmt(r.biasClosing)}  MAE vs result ${fmt(r.maeActual)}`);
+  console.log(`  ATS vs opener ${ats(r.ats)}`);
+  for (const { minEdge, record } of r.atsByEdge) console.log(`    edge ≥ ${minEdge}: ${ats(record)}`);
+  console.log('  Calibration (projected favorite\'s margin)');
+  console.log('    bucket   games  proj   close  actual  MAE close  MAE actual');
+  for (const b of r.calibration) {
+    console.log(
+      `    ${b.label.padEnd(7)}  ${String(b.games).padStart(5)}  ${fmt(b.meanProjected, 1).padStart(5)}  ` +
+      `${fmt(b.meanClosing, 1).padStart(5)}  ${fmt(b.meanActual, 1).padStart(6)}  ` +
+      `${fmt(b.maeClosing).padStart(9)}  ${fmt(b.maeActual).padStart(10)}`
+    );
+  }
+}
+
+async function main() {
+  const season = Number(arg('season') ?? 2026);
+  const evaluateFrom = arg('from');
+  const top = arg('top') ? Number(arg('top')) : Infinity;
+  const grid = {
+    hca: list('hca', DEFAULT_SWEEP.hca),
+    adjustmentFraction: list('fraction', DEFAULT_SWEEP.adjustmentFraction),
+  };
+
+  const [games, ratings] = await Promise.all([loadBacktestGames(season), loadRatings(season)]);
+  if (games.length === 0 || ratings.size === 0) {
+    console.error(`No processed games or ratings for season ${season}`);
+    process.exit(1);
+  }
+  const initialRatings = new Map([...ratings].map(([team, r]) => [team, r.initialRating]));
+  console.log(`Season ${season}: ${games.length} games, ${initialRatings.size} teams${evaluateFrom ? `, scoring from ${evaluateFrom}` : ''}`);
+
+  const current = runBacktest(games, initialRatings, CURRENT_BACKTEST_PARAMS, { evaluateFrom });
+  printSummary('Current engine', current);
+
+  const results = sweepBacktest(games, initialRatings, grid, { evaluateFrom });
+  console.log('\nSweep (best MAE vs close first)');
+  console.log('   hca  fraction  MAE close    bias  MAE actual  ATS vs opener');
+  for (const r of results.slice(0, top)) {
+    console.log(
+      `  ${String(r.params.hca).padStart(4)}  ${String(r.params.adjustmentFraction).padStart(8)}  ` +
+      `${fmt(r.maeClosing).padStart(9)}  ${fmt(r.biasClosing).padStart(6)}  ${fmt(r.maeActual).padStart(10)}  ${ats(r.ats)}`
+    );
+  }
+  printSummary('Best', results[0]);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+// scripts/backtest.test.ts — run with `npm run test:backtest`
+// Ratings backtest: each projection uses only the games before it, the
+// adjustment fraction drives how far ratings chase the close, ATS grading
+// against the opener by edge, calibration buckets, and the parameter sweep.
+
+import { runBacktest, sweepBacktest, type BacktestGame } from '../src/lib/ratings/backtest';
+import { calculateAdjustment } from '../src/lib/ratings/engine';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+function game(overrides: Partial<BacktestGame>): BacktestGame {
+  return {
+    id: 'g1', date: '2026-01-10T00:00:00Z', homeTeam: 'Duke', awayTeam: 'Wake Forest', isNeutralSite: false,
+    closingSpread: -8, closingSource: 'us_average', openingSpread: null, homeScore: null, awayScore: null,
+    ...overrides,
+  };
+}
+
+console.log('Adjustment fraction');
+close('Default moves each team half the gap', calculateAdjustment(-12, -8), 2, 1e-9);
+close('Fraction scales the move', calculateAdjustment(-12, -8, 0.25), 1, 1e-9);
+
+// Duke 10, Wake 0, HCA 2: game 1 projects -12 and closes -8 → Duke 8, Wake 2 at
+// half, so game 2 projects -8 and matches its close
+const initial = new Map([['Duke', 10], ['Wake Forest', 0]]);
+const games = [
+  game({ id: 'g2', date: '2026-01-20T00:00:00Z', openingSpread: -7, homeScore: 75, awayScore: 70 }),
+  game({ id: 'g1', openingSpread: -10, homeScore: 70, awayScore: 59 }),
+];
+
+console.log('\nWalk-forward replay');
+let r = runBacktest(games, initial, { hca: 2, adjustmentFraction: 0.5 });
+ok('Both games scored', r.gamesScored === 2 && r.gamesSkipped === 0, JSON.stringify(r));
+close('MAE vs close uses pre-game ratings', r.maeClosing, 2, 1e-9);
+close('Bias: model too high on home', r.biasClosing, -2, 1e-9);
+close('MAE vs result', r.maeActual, 2, 1e-9);
+ok('Initial ratings untouched', initial.get('Duke') === 10 && initial.get('Wake Forest') === 0);
+r = runBacktest(games, initial, { hca: 2, adjustmentFraction: 0.25 });
+close('Smaller fraction lags the close', r.maeClosing, 3, 1e-9);
+r = runBacktest(games, initial, { hca: 2, adjustmentFraction: 0.5 }, { evaluateFrom: '2026-01-15' });
+ok('evaluateFrom scores only later games', r.gamesScored === 1 && r.maeClosing === 0, JSON.stringify(r));
+r = runBacktest([...games, game({ id: 'g3', awayTeam: 'Gonzaga' })], initial, { hca: 2, adjustmentFraction: 0.5 });
+ok('Unrated team is skipped', r.gamesSkipped === 1 && r.gamesScored === 2);
+
+console.log('\nATS vs opener');
+r = runBacktest(games, initial, { hca: 2, adjustmentFraction: 0.5 });
+// g1: model -12 vs opener -10 → Duke, won by 11 (covers). g2: -8 vs -7 → Duke, won by 5 (doesn't)
+ok('Every edge', r.ats.wins === 1 && r.ats.losses === 1 && r.ats.winPct === 50, JSON.stringify(r.ats));
+const edge2 = r.atsByEdge.find((e) => e.minEdge === 2)!.record;
+ok('Edge ≥ 2 keeps only game 1', edge2.wins === 1 && edge2.losses === 0, JSON.stringify(edge2));
+r = runBacktest([game({ openingSpread: -10, homeScore: 70, awayScore: 60 })], initial, { hca: 2, adjustmentFraction: 0.5 });
+ok('Landing on the opener is a push', r.ats.pushes === 1 && r.ats.winPct === null, JSON.stringify(r.ats));
+r = runBacktest([game({ openingSpread: -12, homeScore: 70, awayScore: 50 })], initial, { hca: 2, adjustmentFraction: 0.5 });
+ok('No edge, no bet', r.ats.wins + r.ats.losses + r.ats.pushes === 0);
+r = runBacktest([game({ openingSpread: -14, homeScore: 70, awayScore: 60 })], initial, { hca: 2, adjustmentFraction: 0.5 });
+ok('Model under the opener takes the dog', r.ats.wins === 1, JSON.stringify(r.ats));
+
+console.log('\nCalibration');
+r = runBacktest(games, initial, { hca: 2, adjustmentFraction: 0.5 });
+const mid = r.calibration.find((b) => b.label === '6–10')!;
+ok('Bucket by projected spread', mid.games === 1 && r.calibration.find((b) => b.label === '10–15')!.games === 1);
+ok('Margins from the favorite side', mid.meanProjected === 8 && mid.meanClosing === 8 && mid.meanActual === 5, JSON.stringify(mid));
+const away = runBacktest([game({ homeTeam: 'Wake Forest', awayTeam: 'Duke', closingSpread: 7, homeScore: 60, awayScore: 70 })],
+  initial, { hca: 2, adjustmentFraction: 0.5 }).calibration.find((b) => b.games === 1)!;
+ok('Road favorite oriented positive', away.meanProjected === 8 && away.meanClosing === 7 && away.meanActual === 10, JSON.stringify(away));
+
+console.log('\nSweep');
+const sweep = sweepBacktest(games, initial, { hca: [2, 4], adjustmentFraction: [0.25, 0.5] });
+ok('Every pair run', sweep.length === 4);
+ok('Best MAE first', sweep[0].params.hca === 2 && sweep[0].params.adjustmentFraction === 0.5, JSON.stringify(sweep[0].params));
+ok('Sorted ascending', sweep.every((s, i) => i === 0 || (s.maeClosing ?? 0) >= (sweep[i - 1].maeClosing ?? 0)));
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
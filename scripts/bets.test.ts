@@ -0,0 +1,340 @@
+// scripts/bets.test.ts — run with `npm run test:bets`
+// Closing Line Value: bet-text parsing, closing quote selection from a
+// closing board, and points/cents scoring. Settlement: scoreboard matching
+// and won/lost/push grading from final scores. Parlay/teaser legs: combined
+// pricing, teaser line moves and leg-by-leg grading with push reduction.
+// Bankroll: Kelly sizing, unit modes, and the curve/drawdown report.
+// Import/export: CSV parsing, column mapping, book and contract-fill options,
+// duplicate detection, and the CSV / JSON backup round trip with profit and CLV.
+
+import {
+  parseBetSelection, closingQuoteForBet, oddsToCents, betClv, summarizeClv,
+} from '../src/lib/clv';
+import { findFinalScore, gradeBet, reviewReasonForType } from '../src/lib/settlement';
+import {
+  combinedPrice, decimalToAmerican, gradeFromLegs, gradeLeg, legsSummary, parlayPrice, teaseLeg,
+} from '../src/lib/betLegs';
+import {
+  DEFAULT_BANKROLL_SETTINGS, bankrollReport, kellyFraction, suggestStake, unitDollars, type BankrollEntry,
+} from '../src/lib/bankroll';
+import {
+  guessMapping, importRows, parseBackup, parseCsv, parseDate, parseOdds, parseStatus,
+} from '../src/lib/betImport';
+import { betProfit, betsToBackup, betsToCsv } from '../src/lib/betExport';
+import type { Bet, BetLeg } from '../src/lib/betService';
+import type { ESPNGameScore } from '../src/lib/api';
+import type { OddsAPIGame } from '../src/lib/ratings/types';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+const HOME = 'Duke Blue Devils';
+const AWAY = 'North Carolina Tar Heels';
+
+function bet(overrides: Partial<Bet>): Bet {
+  return {
+    id: 'b1', date: '2026-02-01', eventDate: '2026-02-07', sport: 'Basketball', league: 'NCAAB',
+    description: `${AWAY} @ ${HOME}`, awayTeam: AWAY, homeTeam: HOME,
+    betType: 'spread', bet: `${HOME} -6.5`, odds: -110, stake: 1, status: 'pending',
+    book: 'DraftKings', team: HOME,
+    ...overrides,
+  };
+}
+
+const market = (key: string, outcomes: { name: string; price: number; point?: number }[]) => ({
+  key, last_update: '2026-02-07T23:00:00Z', outcomes,
+});
+const book = (key: string, spread: number, spreadPrice: number, total: number, ml: [number, number]) => ({
+  key, title: key, last_update: '2026-02-07T23:00:00Z',
+  markets: [
+    market('spreads', [{ name: HOME, price: spreadPrice, point: spread }, { name: AWAY, price: -110, point: -spread }]),
+    market('totals', [{ name: 'Over', price: -110, point: total }, { name: 'Under', price: -110, point: total }]),
+    market('h2h', [{ name: HOME, price: ml[0] }, { name: AWAY, price: ml[1] }]),
+  ],
+});
+
+const board: OddsAPIGame = {
+  id: 'evt1', sport_key: 'basketball_ncaab', sport_title: 'NCAAB',
+  commence_time: '2026-02-08T00:00:00Z', home_team: HOME, away_team: AWAY,
+  bookmakers: [
+    book('draftkings', -7.5, -115, 147.5, [-320, 260]),
+    book('fanduel', -7.5, -110, 148.5, [-300, 245]),
+    book('betmgm', -7.5, -110, 147.5, [-310, 250]),
+    book('betrivers', -7.5, -110, 148.5, [-300, 240]),
+  ],
+};
+
+console.log('parseBetSelection');
+const sp = parseBetSelection(bet({}));
+ok('spread side from team', sp?.side === HOME && sp?.market === 'spreads');
+close('spread point', sp?.point, -6.5, 1e-9);
+const tot = parseBetSelection(bet({ betType: 'total', bet: 'Over 145.5', team: undefined }));
+ok('total side', tot?.side === 'Over' && tot?.market === 'totals');
+close('total point', tot?.point, 145.5, 1e-9);
+ok('u shorthand', parseBetSelection(bet({ betType: 'total', bet: 'u 140', team: undefined }))?.side === 'Under');
+const ml = parseBetSelection(bet({ betType: 'moneyline', bet: `${AWAY} ML`, team: undefined }));
+ok('moneyline side', ml?.side === AWAY && ml?.point === null);
+ok('pk parses as 0', parseBetSelection(bet({ bet: `${HOME} PK` }))?.point === 0);
+ok('props not parsed', parseBetSelection(bet({ betType: 'prop', bet: 'Over 22.5 points' })) === null);
+ok('parlays not parsed', parseBetSelection(bet({ betType: 'parlay', bet: '3-leg parlay' })) === null);
+
+console.log('closingQuoteForBet');
+const q1 = closingQuoteForBet(sp!, board, 'draftkings');
+close('home spread = US average', q1?.line, -7.5, 1e-9);
+ok('no book price at a different number', q1?.odds === null);
+const q2 = closingQuoteForBet({ market: 'spreads', side: HOME, point: -7.5 }, board, 'draftkings');
+ok('book price on same number', q2?.odds === -115 && q2?.source === 'draftkings');
+const q3 = closingQuoteForBet({ market: 'spreads', side: AWAY, point: 6.5 }, board, 'fanduel');
+close('away side negated', q3?.line, 7.5, 1e-9);
+const q4 = closingQuoteForBet(sp!, board, 'draftkings', { spread: -8, total: 150 });
+ok('stored close wins', q4?.line === -8 && q4?.source === 'closing_lines');
+const q5 = closingQuoteForBet(tot!, board, 'draftkings');
+close('total = US average', q5?.line, 148, 1e-9);
+const q6 = closingQuoteForBet(ml!, board, 'kalshi');
+ok('moneyline falls back to US average price', q6 !== null && q6.odds! > 240 && q6.odds! < 260 && q6.source === 'us_average');
+// Bet text rarely spells the team the Odds API's way
+const q7 = closingQuoteForBet({ market: 'spreads', side: 'North Carolina', point: 6.5 }, board, 'fanduel');
+close('non-exact away name still negated', q7?.line, 7.5, 1e-9);
+ok('non-exact name prices its own side', closingQuoteForBet({ market: 'h2h', side: 'Duke', point: null }, board, 'draftkings')?.odds === -320);
+ok('unknown team has no close', closingQuoteForBet({ market: 'spreads', side: 'Kentucky', point: 6.5 }, board, 'fanduel') === null);
+// Same board with both teams renamed — a name that fits both gets no close
+const renamed = (home: string, away: string): OddsAPIGame => ({
+  ...board, home_team: home, away_team: away,
+  bookmakers: board.bookmakers.map((bk) => ({
+    ...bk,
+    markets: bk.markets.map((m) => ({
+      ...m, outcomes: m.outcomes.map((o) => ({ ...o, name: o.name === HOME ? home : o.name === AWAY ? away : o.name })),
+    })),
+  })),
+});
+const laDerby = { ...renamed('Los Angeles Lakers', 'Los Angeles Clippers'), sport_key: 'basketball_nba' };
+ok('exact name still prices', closingQuoteForBet({ market: 'h2h', side: 'Los Angeles Clippers', point: null }, laDerby, 'draftkings')?.odds === 260);
+ok('alias prices its own side', closingQuoteForBet({ market: 'h2h', side: 'LA Clippers', point: null }, laDerby, 'draftkings')?.odds === 260);
+ok('name matching both teams has no close', closingQuoteForBet({ market: 'h2h', side: 'Los Angeles', point: null }, laDerby, 'draftkings') === null);
+
+console.log('scoring');
+ok('cents: -110 → -10', oddsToCents(-110) === -10);
+ok('cents: +110 → +10', oddsToCents(110) === 10);
+const c1 = betClv(bet({ closingLine: -7.5 }));
+close('favourite that closed higher gains a point', c1?.points, 1, 1e-9);
+ok('no cents without a closing price', c1?.cents === null);
+const c2 = betClv(bet({ betType: 'total', bet: 'Over 145.5', team: undefined, closingLine: 148 }));
+close('over that closed higher gains', c2?.points, 2.5, 1e-9);
+const c3 = betClv(bet({ betType: 'total', bet: 'Under 145.5', team: undefined, closingLine: 148 }));
+close('under that closed higher loses', c3?.points, -2.5, 1e-9);
+const c4 = betClv(bet({ betType: 'moneyline', bet: `${AWAY} ML`, team: undefined, odds: 280, closingOdds: 250 }));
+close('moneyline cents', c4?.cents, 30, 1e-9);
+ok('moneyline prob edge positive', (c4?.probEdge ?? 0) > 0);
+ok('no close → null', betClv(bet({})) === null);
+
+console.log('summarizeClv');
+const summary = summarizeClv([
+  bet({ id: 'a', closingLine: -7.5 }),
+  bet({ id: 'b', closingLine: -5.5, book: 'FanDuel' }),
+  bet({ id: 'c', betType: 'total', bet: 'Over 145.5', team: undefined, closingLine: 148 }),
+  bet({ id: 'd' }),
+]);
+ok('counts only bets with a close', summary.count === 3);
+close('avg points', summary.avgPoints, (1 - 1 + 2.5) / 3, 1e-9);
+close('beat close %', summary.beatClosePct, (2 / 3) * 100, 1e-9);
+ok('split by book', summary.byBook.DraftKings.count === 2 && summary.byBook.FanDuel.count === 1);
+ok('split by bet type', summary.byBetType.total.count === 1);
+
+console.log('settlement');
+const espn = (homeTeam: string, awayTeam: string, homeScore: number, awayScore: number, state: 'pre' | 'in' | 'post' = 'post'): ESPNGameScore => ({
+  homeTeam, awayTeam, homeScore: String(homeScore), awayScore: String(awayScore),
+  homeLogo: '', awayLogo: '', period: 2, displayClock: '0:00', state, statusDetail: 'Final',
+});
+const slate = [espn('Duke Blue Devils', 'North Carolina Tar Heels', 78, 70), espn('Kansas Jayhawks', 'Baylor Bears', 60, 61, 'in')];
+const final = findFinalScore(bet({}), slate);
+ok('matches both teams', final?.homeScore === 78 && final?.awayScore === 70);
+const flipped = findFinalScore(bet({}), [espn('North Carolina Tar Heels', 'Duke Blue Devils', 70, 78)]);
+ok('neutral-site flip re-oriented', flipped?.homeScore === 78 && flipped?.awayScore === 70);
+ok('ESPN short name finds the final', findFinalScore(
+  bet({ league: 'NCAAB', homeTeam: 'Connecticut Huskies', awayTeam: 'Mississippi Rebels' }),
+  [espn('UConn Huskies', 'Ole Miss Rebels', 80, 72)],
+)?.homeScore === 80);
+ok('no match → null', findFinalScore(bet({ homeTeam: 'Gonzaga Bulldogs', awayTeam: 'Saint Mary\'s Gaels' }), slate) === null);
+
+ok('favourite covers -6.5 by 8', gradeBet(bet({}), final!)?.status === 'won');
+ok('favourite -8 pushes', gradeBet(bet({ bet: `${HOME} -8` }), final!)?.status === 'push');
+ok('favourite -9.5 loses', gradeBet(bet({ bet: `${HOME} -9.5` }), final!)?.status === 'lost');
+ok('dog +9.5 covers', gradeBet(bet({ bet: `${AWAY} +9.5`, team: AWAY }), final!)?.status === 'won');
+ok('over 145.5 wins at 148', gradeBet(bet({ betType: 'total', bet: 'Over 145.5', team: undefined }), final!)?.status === 'won');
+ok('under 148 pushes', gradeBet(bet({ betType: 'total', bet: 'Under 148', team: undefined }), final!)?.status === 'push');
+ok('dog ML loses', gradeBet(bet({ betType: 'moneyline', bet: `${AWAY} ML`, team: undefined }), final!)?.status === 'lost');
+const draw = { homeScore: 1, awayScore: 1, score: espn('LA Galaxy', 'Seattle Sounders FC', 1, 1) };
+ok('MLS draw loses a team ML', gradeBet(bet({ league: 'MLS', homeTeam: 'LA Galaxy', awayTeam: 'Seattle Sounders FC', betType: 'moneyline', bet: 'LA Galaxy ML', team: undefined }), draw)?.status === 'lost');
+ok('NFL tie pushes a ML', gradeBet(bet({ league: 'NFL', homeTeam: 'Dallas Cowboys', awayTeam: 'New York Giants', betType: 'moneyline', bet: 'Dallas Cowboys ML', team: undefined }), draw)?.status === 'push');
+ok('result records the final', gradeBet(bet({}), final!)?.result === `Final: ${AWAY} 70, ${HOME} 78`);
+ok('unknown side → null', gradeBet(bet({ bet: 'Gonzaga -3', team: 'Gonzaga Bulldogs' }), final!) === null);
+ok('props go to review', reviewReasonForType({ betType: 'prop' }) !== null);
+ok('futures go to review', reviewReasonForType({ betType: 'future' }) !== null);
+ok('spreads auto-grade', reviewReasonForType({ betType: 'spread' }) === null);
+ok('parlays without legs go to review', reviewReasonForType({ betType: 'parlay' }) !== null);
+
+console.log('parlay / teaser legs');
+const leg = (overrides: Partial<BetLeg>): BetLeg => ({
+  sport: 'Basketball', league: 'NCAAB', eventDate: '2026-02-07', awayTeam: AWAY, homeTeam: HOME,
+  market: 'spread', selection: HOME, line: -6.5, odds: -110, status: 'pending',
+  ...overrides,
+});
+ok('decimal → American', decimalToAmerican(2.5) === 150 && decimalToAmerican(1.5) === -200);
+ok('two -110 legs price +264', parlayPrice([leg({}), leg({})]) === 264);
+ok('unpriced leg → no parlay price', parlayPrice([leg({}), leg({ odds: undefined })]) === null);
+ok('2-team 6pt teaser -110', combinedPrice({ betType: 'teaser', legs: [leg({}), leg({})], teaserPoints: 6 }) === -110);
+ok('teased favourite', teaseLeg(leg({}), 6).line === -0.5);
+ok('teased over drops', teaseLeg(leg({ market: 'total', selection: 'Over', line: 145.5 }), 6).line === 139.5);
+ok('teased under rises', teaseLeg(leg({ market: 'total', selection: 'Under', line: 145.5 }), 6).line === 151.5);
+ok('summary shows teased lines', legsSummary([leg({}), leg({ selection: AWAY, line: 6.5 })], 6) === `${HOME} -0.5, ${AWAY} +12.5`);
+
+// Duke won by 8 on the slate above
+ok('leg -9.5 loses', gradeLeg(leg({ line: -9.5 }), final!)?.status === 'lost');
+ok('leg -9.5 teased 6 wins', gradeLeg(leg({ line: -9.5 }), final!, 6)?.status === 'won');
+ok('leg -8 pushes', gradeLeg(leg({ line: -8 }), final!)?.status === 'push');
+ok('over leg grades on the total', gradeLeg(leg({ market: 'total', selection: 'Over', line: 150 }), final!)?.status === 'lost');
+
+const ticket = (betType: 'parlay' | 'teaser', statuses: Bet['status'][], extra: Partial<Bet> = {}) =>
+  bet({ betType, odds: 596, legs: statuses.map((status) => leg({ status })), ...extra });
+ok('a lost leg loses at once', gradeFromLegs(ticket('parlay', ['lost', 'pending', 'pending']))?.status === 'lost');
+ok('pending legs wait', gradeFromLegs(ticket('parlay', ['won', 'pending', 'won'])) === null);
+const allWon = gradeFromLegs(ticket('parlay', ['won', 'won', 'won']));
+ok('all won pays the ticket price', allWon?.status === 'won' && allWon.odds === 596);
+const reduced = gradeFromLegs(ticket('parlay', ['won', 'push', 'won']));
+ok('push reduces a 3-leg parlay to +264', reduced?.status === 'won' && reduced.odds === 264);
+ok('all pushed → push', gradeFromLegs(ticket('parlay', ['push', 'push']))?.status === 'push');
+ok('2-team teaser with a push → push', gradeFromLegs(ticket('teaser', ['won', 'push'], { teaserPoints: 6 }))?.status === 'push');
+ok('3-team teaser drops to 2-team price', gradeFromLegs(ticket('teaser', ['won', 'push', 'won'], { odds: 180, teaserPoints: 6 }))?.odds === -110);
+ok('legged parlays auto-grade', reviewReasonForType({ betType: 'parlay', legs: [leg({})] }) === null);
+
+console.log('\nBankroll');
+close('kelly 55% at +100 is 10%', kellyFraction(0.55, 100), 0.1, 1e-9);
+ok('no edge → no stake', kellyFraction(0.5, -110) === 0);
+const quarter = suggestStake(0.55, 100, 10000, DEFAULT_BANKROLL_SETTINGS);
+close('quarter Kelly on $10k is $250', quarter.dollars, 250, 1e-6);
+ok('… which is 2.5u, uncapped', quarter.units === 2.5 && !quarter.capped);
+const capped = suggestStake(0.55, 100, 10000, { ...DEFAULT_BANKROLL_SETTINGS, maxBetPct: 2 });
+ok('max bet caps the stake', capped.capped && capped.dollars === 200 && capped.units === 2);
+ok('percent unit follows the roll', unitDollars({ ...DEFAULT_BANKROLL_SETTINGS, unitMode: 'percent', unitValue: 1 }, 5000) === 50);
+
+const settled = (eventDate: string, status: Bet['status'], stake: number, odds = 100) => bet({ eventDate, status, stake, odds });
+const units = bankrollReport([
+  settled('2026-02-01', 'won', 1), settled('2026-02-02', 'lost', 3), settled('2026-02-02', 'pending', 5),
+]);
+ok('no ledger → units curve', units.currency === 'units' && units.current === -2 && units.maxDrawdownPct === null);
+ok('one point per day', units.curve.length === 2 && units.curve[1].balance === -2);
+close('units drawdown from the peak', units.maxDrawdown, 3, 1e-9);
+
+const entry = (date: string, kind: BankrollEntry['kind'], amount: number): BankrollEntry => ({ id: date, date, kind, amount });
+const dollars = bankrollReport(
+  [settled('2026-02-01', 'won', 1), settled('2026-02-02', 'lost', 3)],
+  [entry('2026-01-01', 'deposit', 1000), entry('2026-02-03', 'withdrawal', 200)],
+);
+ok('ledger → dollars curve', dollars.currency === 'dollars' && dollars.current === 600, `got ${dollars.current}`);
+close('withdrawal is not drawdown', dollars.maxDrawdown, 300, 1e-9);
+ok('deposits and withdrawals summed', dollars.deposits === 1000 && dollars.withdrawals === 200);
+const pct = bankrollReport(
+  [settled('2026-02-01', 'won', 1), settled('2026-02-02', 'won', 1)],
+  [entry('2026-01-01', 'deposit', 1000)],
+  { ...DEFAULT_BANKROLL_SETTINGS, unitMode: 'percent', unitValue: 10 },
+);
+close('percent units compound', pct.current, 1210, 1e-9);
+const pushedParlay = bankrollReport([{ ...settled('2026-02-01', 'won', 1, 596), payoutOdds: 264 }]);
+close('pushed parlay pays its reduced price', pushedParlay.current, 2.64, 1e-9);
+
+console.log('\nImport');
+const csv = parseCsv('\uFEFFDate,Event,"Selection",Odds,Stake,Status\r\n'
+  + '10/4/2026,"Michigan Wolverines @ Ohio State Buckeyes",Ohio State Buckeyes -7,-110,$50.00,Won\r\n'
+  + '\r\n'
+  + '2026-10-05,"NFL: Bills at Jets","Over 41.5",1.91,"1,000",open\n');
+ok('BOM, quotes, CRLF, blank lines', csv.length === 3 && csv[0][0] === 'Date' && csv[1][1] === 'Michigan Wolverines @ Ohio State Buckeyes');
+ok('Quoted comma kept in the field', csv[2][4] === '1,000');
+ok('Doubled quotes unescape', parseCsv('a\n"say ""hi"""')[1][0] === 'say "hi"');
+ok('American, decimal and EVEN odds', parseOdds('+150') === 150 && parseOdds('-110') === -110 && parseOdds('2.50') === 150 && parseOdds('EVEN') === 100);
+ok('Odds too small to be American → null', parseOdds('+5') === null);
+ok('Dates: US, ISO, month name', parseDate('10/4/26 7:30 PM') === '2026-10-04' && parseDate('2026-10-04T19:00Z') === '2026-10-04' && parseDate('Sat, Oct 4, 2026') === '2026-10-04');
+ok('Book result words', parseStatus('Won') === 'won' && parseStatus('LOSS') === 'lost' && parseStatus('Void') === 'push' && parseStatus('open') === 'pending' && parseStatus('??') === null);
+
+const mapping = guessMapping(csv[0]);
+ok('Headers guessed', mapping.date === 'Date' && mapping.bet === 'Selection' && mapping.stake === 'Stake' && mapping.status === 'Status');
+const rows = importRows(csv, mapping, [], { unitDollars: 50 });
+const [osu, jets] = rows.map((r) => r.bet!);
+ok('Spread row read', osu.betType === 'spread' && osu.team === 'Ohio State Buckeyes' && osu.odds === -110 && osu.status === 'won');
+ok('Matchup split into teams', osu.awayTeam === 'Michigan Wolverines' && osu.homeTeam === 'Ohio State Buckeyes');
+ok('Dollars → units', osu.stake === 1 && jets.stake === 20);
+ok('Total from decimal odds, league from the event text', jets.betType === 'total' && jets.odds === -110 && jets.league === 'NFL' && jets.sport === 'Football');
+ok('Line numbers count the header', rows[0].line === 2 && rows[1].line === 3);
+const broken = importRows(parseCsv('Date,Selection,Odds,Stake\n2026-10-04,Texas ML,,10'), { date: 'Date', bet: 'Selection', odds: 'Odds', stake: 'Stake' }, [], { unitDollars: 10 });
+ok('Missing odds reported, not guessed', broken[0].bet === null && broken[0].errors.includes('no odds'));
+
+console.log('Duplicates, book and contract fills');
+const tracked = bet({ date: '2026-10-04', bet: 'Ohio State Buckeyes -7', odds: -110, stake: 1, book: undefined });
+const again = importRows([...csv, csv[2]], mapping, [tracked], { unitDollars: 50 });
+ok('Already tracked', again[0].duplicate === 'existing');
+ok('New row passes', again[1].duplicate === null);
+ok('Repeat within the file', again[2].duplicate === 'file');
+const dk = parseCsv('Receipt ID,Placed Date,Event,Selection,Bet Type,Odds,Wager Amount,To Pay,Result\n'
+  + 'DK1,2026-10-04,Texas @ Oklahoma,Texas Longhorns,Moneyline,+120,25,55,Won\n'
+  + 'DK1,2026-10-04,Texas @ Oklahoma,Texas Longhorns,Moneyline,+120,25,55,Won\n'
+  + 'DK2,2026-10-04,Texas @ Oklahoma,Oklahoma Sooners +3,Spread,-110,22,42,\n');
+const dkRows = importRows(dk, guessMapping(dk[0]), [], { book: 'DraftKings', unitDollars: 25 });
+ok('Book and ticket carried', dkRows[0].bet?.book === 'DraftKings' && dkRows[0].bet?.notes === 'Ticket DK1');
+ok('Moneyline written the tracker way', dkRows[0].bet?.bet === 'Texas Longhorns ML' && dkRows[0].bet?.team === 'Texas Longhorns');
+ok('Same ticket twice → file duplicate', dkRows[1].duplicate === 'file');
+ok('Empty result → graded from the payout', dkRows[2].bet?.status === 'won');
+const mixed = parseCsv('Date,Selection,Odds,Stake,Book\n2026-10-04,Texas ML,+120,25,FanDuel\n2026-10-04,Texas ML,+120,25,\n');
+const [fromFile, fallback] = importRows(mixed, guessMapping(mixed[0]), [], { book: 'DraftKings', unitDollars: 25 }).map((r) => r.bet!);
+ok('Book column wins; chosen book fills the blanks', fromFile.book === 'FanDuel' && fallback.book === 'DraftKings');
+const tickets = importRows(dk, guessMapping(dk[0]), [bet({ notes: 'Ticket DK2' })], { book: 'DraftKings', unitDollars: 25 });
+ok('Ticket match beats a changed fingerprint', tickets[2].duplicate === 'existing');
+const kalshi = parseCsv('Ticker,Side,Contracts,Average Price,Fees,Created,Status\nKXNFLGAME-26OCT04BUFNYJ-BUF,yes,100,62,1.00,2026-10-04,open\n');
+ok('Fill columns left unmapped unless asked for', guessMapping(kalshi[0]).contracts === undefined);
+const kRow = importRows(kalshi, guessMapping(kalshi[0], true), [], { book: 'Kalshi', contractFills: true, unitDollars: 63 }).map((r) => r.bet!)[0];
+ok('Chosen book written on every row', kRow.book === 'Kalshi');
+close('Kalshi cost = contracts × price + fees, in units', kRow.stake, 1, 1e-9);
+close('…priced as $100 back on $63', kRow.odds, decimalToAmerican(100 / 63), 0);
+ok('…and labelled by side and ticker', kRow.bet === 'YES KXNFLGAME-26OCT04BUFNYJ-BUF' && kRow.status === 'pending');
+
+console.log('Export');
+close('Win profit at the price', betProfit({ status: 'won', stake: 2, odds: -110 }), 1.82, 0.005);
+ok('Loss, push, pending', betProfit({ status: 'lost', stake: 2, odds: 150 }) === -2
+  && betProfit({ status: 'push', stake: 2, odds: 150 }) === 0 && betProfit({ status: 'pending', stake: 2, odds: 150 }) === null);
+close('Pushed parlay profits at the payout price, ticket odds untouched', betProfit({ status: 'won', stake: 1, odds: 596, payoutOdds: 264 }), 2.64, 0.005);
+const graded = bet({ id: 'x1', status: 'won', closingLine: -8, closingOdds: -115, notes: 'steam, "early"' });
+const out = parseCsv(betsToCsv([graded], 50));
+const col = (name: string) => out[1][out[0].indexOf(name)];
+ok('CSV header + one row', out.length === 2);
+ok('Profit in units and dollars', col('profit_units') === '0.91' && col('profit_dollars') === '45.50');
+ok('CLV columns', col('clv_points') === '1.5' && col('clv_cents') === '5');
+ok('Notes round-trip through quoting', col('notes') === 'steam, "early"');
+const backup = betsToBackup([graded], undefined, new Date('2026-10-05T00:00:00Z'));
+ok('Backup stamped and versioned', backup.version === 1 && backup.exportedAt === '2026-10-05T00:00:00.000Z' && backup.bets[0].profit === 0.91);
+const restored = parseBackup(JSON.stringify(backup));
+const restoredBet = restored[0]?.bet;
+ok('Backup restores without id or computed columns',
+  restored.length === 1 && !!restoredBet && !('id' in restoredBet) && !('profit' in restoredBet) && !('clv' in restoredBet) && restoredBet.closingLine === -8);
+ok('Restoring over the same bet flags it', parseBackup(JSON.stringify(backup), [graded])[0].duplicate === 'existing');
+const tampered = parseBackup(JSON.stringify({ bets: [
+  { ...graded, odds: '-110' },
+  { ...graded, stake: -1, status: 'cashed' },
+  { ...graded, legs: [{ market: 'spread' }] },
+  'not a bet',
+  { ...graded, notes: 'kept' },
+] }));
+ok('Backup: string odds reported', !tampered[0].bet && tampered[0].errors.includes('bad odds'), tampered[0].errors.join(', '));
+ok('Backup: bad stake and status reported', !tampered[1].bet && tampered[1].errors.includes('bad stake') && tampered[1].errors.includes('bad status'));
+ok('Backup: malformed legs reported', !tampered[2].bet && tampered[2].errors.includes('bad legs'));
+ok('Backup: non-object entry reported', !tampered[3].bet && tampered[3].errors.includes('not a bet'));
+ok('Backup: good entry read, numbered by position', tampered[4].bet?.notes === 'kept' && tampered[4].line === 5);
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
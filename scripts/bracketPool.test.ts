@@ -0,0 +1,95 @@
+// scripts/bracketPool.test.ts — run with `npm run test:bracketPool`
+// Bracket pool optimizer: scoring systems, carrying a forced pick through
+// the bracket, and the equity search — contrarian in big pools, chalk
+// head to head, diversified across multiple entries.
+
+import {
+  chalkPicks,
+  forcePick,
+  optimizePool,
+  pickPoints,
+  poolScorings,
+  type PoolGame,
+  type PoolWinProb,
+} from '../src/lib/bracketPool';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+// 8 teams, seeds 1-8: 1v8, 4v5, 2v7, 3v6, then semis and a final
+const SEEDS = ['S1', 'S2', 'S3', 'S4', 'S5', 'S6', 'S7', 'S8'];
+const games: PoolGame[] = [
+  { id: 'R1-G1', round: 1, sources: [null, null], teams: ['S1', 'S8'] },
+  { id: 'R1-G2', round: 1, sources: [null, null], teams: ['S4', 'S5'] },
+  { id: 'R1-G3', round: 1, sources: [null, null], teams: ['S2', 'S7'] },
+  { id: 'R1-G4', round: 1, sources: [null, null], teams: ['S3', 'S6'] },
+  { id: 'R2-G1', round: 2, sources: ['R1-G1', 'R1-G2'], teams: [null, null] },
+  { id: 'R2-G2', round: 2, sources: ['R1-G3', 'R1-G4'], teams: [null, null] },
+  { id: 'R3-G1', round: 3, sources: ['R2-G1', 'R2-G2'], teams: [null, null] },
+];
+const seeds = new Map(SEEDS.map((t, i) => [t, i + 1]));
+
+// Logistic on rating difference; S1 and S2 nearly level at the top
+const rating: Record<string, number> = { S1: 20, S2: 19, S3: 10, S4: 8, S5: 7, S6: 5, S7: 2, S8: 0 };
+const winProb: PoolWinProb = (top, bottom) => 1 / (1 + Math.exp(-0.17 * (rating[top] - rating[bottom])));
+
+console.log('Scoring');
+const [standard, upset, multiplier] = poolScorings(6);
+ok('Standard doubles by round', standard.roundPoints.join(',') === '0,1,2,4,8,16,32');
+ok('Play-ins score nothing', pickPoints(standard, 0, 16, 16) === 0);
+ok('Title game worth 32', pickPoints(standard, 6, 1, 2) === 32);
+ok('Upset bonus per seed line', pickPoints(upset, 1, 12, 5) === 8, `${pickPoints(upset, 1, 12, 5)}`);
+ok('No bonus when the better seed wins', pickPoints(upset, 2, 1, 8) === 2);
+ok('Seed multiplier', pickPoints(multiplier, 2, 11, 3) === 22);
+
+console.log('Picks');
+const chalk = chalkPicks(games, winProb);
+ok('Chalk bracket takes every favourite', chalk['R1-G2'] === 'S4' && chalk['R3-G1'] === 'S1', JSON.stringify(chalk));
+const forced = forcePick(games, chalk, 'R2-G1', 'S5')!;
+ok('Forced pick wins its earlier games', forced['R1-G2'] === 'S5' && forced['R2-G1'] === 'S5');
+ok('…and the later ones the displaced team was carried into', forced['R3-G1'] === 'S5');
+ok('Other side of the bracket untouched', forced['R2-G2'] === 'S2' && forced['R1-G1'] === 'S1');
+const notCarried = forcePick(games, chalk, 'R1-G3', 'S7')!;
+ok('A displaced team not picked further leaves later picks alone', notCarried['R2-G2'] === 'S7' && notCarried['R3-G1'] === 'S1');
+ok('A team that can\'t reach the game → null', forcePick(games, chalk, 'R2-G1', 'S2') === null);
+
+console.log('Optimizer');
+const options = { poolSize: 100, entries: 1, scoring: standard, chalk: 3, sims: 600, opponents: 150, seed: 7 };
+const big = optimizePool(games, winProb, seeds, options);
+const pub = (t: string) => big.publicChampion.get(t) ?? 0;
+ok('The public piles onto the favourite', pub('S1') > pub('S2'), `${pub('S1')} vs ${pub('S2')}`);
+ok('Big pool: the optimized bracket leaves chalk', JSON.stringify(big.entries[0].picks) !== JSON.stringify(chalk));
+ok('Optimized beats chalk on equity', big.entries[0].equity > big.chalk.equity,
+  `${big.entries[0].equity.toFixed(4)} vs ${big.chalk.equity.toFixed(4)}`);
+ok('…while giving up expected score', big.entries[0].expectedScore <= big.chalk.expectedScore + 1e-9);
+close('Single entry: pool equity is the entry\'s', big.equity, big.entries[0].equity, 1e-9);
+const again = optimizePool(games, winProb, seeds, options);
+ok('Same seed, same answer', JSON.stringify(again.entries[0].picks) === JSON.stringify(big.entries[0].picks));
+
+const small = optimizePool(games, winProb, seeds, { ...options, poolSize: 2 });
+ok('Head to head: chalk is already best', JSON.stringify(small.entries[0].picks) === JSON.stringify(chalk));
+const solo = optimizePool(games, winProb, seeds, { ...options, poolSize: 1 });
+close('Alone in the pool: certain to win', solo.equity, 1, 1e-12);
+
+const multi = optimizePool(games, winProb, seeds, { ...options, entries: 3 });
+ok('One bracket per entry', multi.entries.length === 3);
+ok('Entries are diversified', new Set(multi.entries.map((e) => JSON.stringify(e.picks))).size === 3);
+ok('Portfolio beats its best single entry', multi.equity > Math.max(...multi.entries.map((e) => e.equity)),
+  `${multi.equity.toFixed(4)}`);
+
+const played = games.map((g) => (g.id === 'R1-G1' ? { ...g, result: 'S8' } : g));
+const live = optimizePool(played, winProb, seeds, { ...options, entries: 2 });
+ok('Final results are picked in every entry', live.entries.every((e) => e.picks['R1-G1'] === 'S8'));
+ok('…and the loser goes no further', live.entries.every((e) => !Object.values(e.picks).slice(1).includes('S1')));
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
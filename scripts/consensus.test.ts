@@ -0,0 +1,104 @@
+// scripts/consensus.test.ts — run with `npm run test:consensus`
+// Consensus projection: per-system error against the close (one history per
+// system, native or logged), inverse-MSE weights shrunk toward the league
+// prior, the blend and its band over whichever systems priced the game, and
+// the edge against the market.
+
+import {
+  blendProjections,
+  combineHistory,
+  consensusEdge,
+  CONSENSUS_SYSTEMS,
+  learnWeights,
+  powerSetSystem,
+  priorFor,
+  systemErrors,
+  type ProjectionRecord,
+} from '../src/lib/consensus';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+console.log('Historical error');
+const records: ProjectionRecord[] = [
+  { system: 'kenpom', projected: -5, closing: -4 },
+  { system: 'kenpom', projected: -2, closing: -3 },
+  { system: 'torvik', projected: -7, closing: -4 },
+  { system: 'torvik', projected: 0, closing: -3 },
+  { system: 'torvik', projected: -4, closing: Number.NaN },
+];
+const errors = systemErrors(records);
+close('RMSE per system', errors.get('kenpom')?.rmse, 1, 1e-9);
+close('…bias averages signed misses', errors.get('kenpom')?.bias, 0, 1e-9);
+close('Worse system, bigger RMSE', errors.get('torvik')?.rmse, 3, 1e-9);
+ok('Ungraded rows are skipped', errors.get('torvik')?.games === 2);
+// The log re-records games the ratings history already holds
+const native: ProjectionRecord[] = [{ system: 'market', projected: -3, closing: -4 }, { system: 'market', projected: 2, closing: 1 }];
+const logged: ProjectionRecord[] = [
+  { system: 'market', projected: -3, closing: -4 },
+  { system: 'fei', projected: -6, closing: -5 },
+];
+const combined = combineHistory(native, logged);
+ok('Native history wins for its system', combined.filter((r) => r.system === 'market').length === 2);
+ok('Log fills systems with no native history', combined.some((r) => r.system === 'fei'));
+ok('No game counted twice', systemErrors(combined).get('market')?.games === 2);
+
+console.log('Weights');
+const systems = CONSENSUS_SYSTEMS.basketball_ncaab;
+const flat = learnWeights(systems, new Map(), priorFor('basketball_ncaab'));
+ok('No history → equal weights', flat.every((w) => Math.abs(w.weight - 1 / 3) < 0.01), JSON.stringify(flat));
+ok('…at the prior error', flat.every((w) => w.rmse === priorFor('basketball_ncaab').rmse));
+const graded = (system: string, rmse: number, games: number) => ({ system, rmse, games, bias: 0 });
+const learned = learnWeights(systems, new Map([
+  ['market', graded('market', 2, 300)],
+  ['kenpom', graded('kenpom', 2.5, 300)],
+  ['torvik', graded('torvik', 2.5, 5)],
+]), { rmse: 3, games: 30 });
+const w = (id: string) => learned.find((x) => x.system === id)!;
+ok('Lower error earns more weight', w('market').weight > w('kenpom').weight);
+ok('A thin record stays near the prior', w('torvik').rmse > 2.9 && w('torvik').weight < w('kenpom').weight);
+close('Weights sum to one', learned.reduce((s, x) => s + x.weight, 0), 1, 0.015);
+const withPowers = learnWeights([...CONSENSUS_SYSTEMS.americanfootball_ncaaf, powerSetSystem('brad_powers', 'Brad Powers')], new Map(), priorFor('americanfootball_ncaaf'));
+ok('Power sets join as their own system', withPowers.some((x) => x.system === 'powers:brad_powers' && x.label === 'Brad Powers'));
+
+console.log('Blend');
+const even = learnWeights(systems, new Map(), { rmse: 2, games: 30 });
+const agree = blendProjections([
+  { system: 'market', homeSpread: -4 }, { system: 'kenpom', homeSpread: -4 }, { system: 'torvik', homeSpread: -4 },
+], even);
+close('Systems that agree blend to their line', agree?.homeSpread, -4, 1e-9);
+close('…band is just their error', agree?.band, 2, 1e-9);
+const split = blendProjections([
+  { system: 'market', homeSpread: -2 }, { system: 'kenpom', homeSpread: -6 },
+], even);
+close('Equal weights average', split?.homeSpread, -4, 1e-9);
+close('Disagreement widens the band', split?.band, Math.sqrt(4 + 4), 0.05);
+ok('Weights renormalise over the systems present', split?.systems.every((s) => s.weight === 0.5) ?? false);
+const weighted = blendProjections([
+  { system: 'market', homeSpread: -2 }, { system: 'kenpom', homeSpread: -6 },
+], learnWeights(systems, new Map([['market', graded('market', 1, 10_000)], ['kenpom', graded('kenpom', 2, 10_000)]]), { rmse: 3, games: 30 }));
+close('Inverse-MSE pulls toward the sharper system', weighted?.homeSpread, -2.8, 0.05);
+ok('Unknown systems ignored', blendProjections([{ system: 'fei', homeSpread: -10 }], even) === null);
+ok('Nothing priced → null', blendProjections([], even) === null);
+ok('Low/high bracket the line', agree?.low === -6 && agree?.high === -2);
+
+console.log('Edge');
+const edge = consensusEdge(agree!, -1.5);
+ok('Market short of the model → home value', edge.side === 'home');
+close('…by the gap', edge.edge, 2.5, 1e-9);
+ok('…outside a 2-point band', edge.outsideBand);
+ok('Market past the model → away value', consensusEdge(agree!, -5).side === 'away');
+ok('Inside the band is flagged as such', !consensusEdge(agree!, -5).outsideBand);
+ok('Same number → no side', consensusEdge(agree!, -4).side === null);
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
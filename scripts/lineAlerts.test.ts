@@ -0,0 +1,172 @@
+// scripts/lineAlerts.test.ts — run with `npm run test:lineAlerts`
+// Line-alert rules over hand-built snapshot history: a consensus move inside
+// and outside its window, steam across books (and a slow drift that isn't),
+// Kalshi off the US number, the market moving through our projection, and
+// the dedup keys that keep a re-run quiet. Also when the cron may skip paying
+// for a board.
+
+import {
+  boardRefreshSkip,
+  detectLineAlerts,
+  formatAlertLine,
+  kalshiLinesFromBoard,
+  unsentAlerts,
+  type LineAlertRule,
+} from '../src/lib/lineAlerts';
+import type { OddsSnapshotRow } from '../src/lib/oddsSnapshots';
+import type { Game } from '../src/lib/api';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+const HOME = 'Duke Blue Devils';
+const AWAY = 'North Carolina Tar Heels';
+const SPORT = 'basketball_ncaab';
+const NOW = '2026-02-07T20:00:00.000Z';
+const at = (minutesAgo: number) => new Date(Date.parse(NOW) - minutesAgo * 60_000).toISOString();
+
+const snap = (game: string, bookmaker: string, minutesAgo: number, point: number, market: 'spreads' | 'totals' = 'spreads'): OddsSnapshotRow => ({
+  game_id: game,
+  sport_key: SPORT,
+  commence_time: '2026-02-08T00:00:00Z',
+  home_team: HOME,
+  away_team: AWAY,
+  bookmaker,
+  market,
+  point,
+  home_price: market === 'spreads' ? -110 : null,
+  away_price: market === 'spreads' ? -110 : null,
+  draw_price: null,
+  over_price: market === 'totals' ? -110 : null,
+  under_price: market === 'totals' ? -110 : null,
+  book_updated_at: at(minutesAgo),
+});
+
+const rule = (patch: Partial<LineAlertRule>): LineAlertRule => ({
+  kind: 'move', sportKey: SPORT, market: 'spreads', threshold: 1.5, windowMinutes: 60, minBooks: 1, enabled: true, ...patch,
+});
+
+console.log('Formatting');
+ok('Spread signs', formatAlertLine('spreads', -3.5) === '-3.5' && formatAlertLine('spreads', 2) === '+2');
+ok('Pick em', formatAlertLine('spreads', 0) === 'PK');
+ok('Totals unsigned', formatAlertLine('totals', 145.5) === '145.5');
+
+console.log('Consensus move');
+// Game A: three books at -3 two hours ago, all at -5 now (moved 30 min ago)
+const gameA = ['draftkings', 'fanduel', 'betmgm'].flatMap((b) => [snap('A', b, 120, -3), snap('A', b, 30, -5)]);
+const moves = detectLineAlerts(gameA, [rule({})], { now: NOW });
+ok('1.5+ point move inside the window alerts', moves.length === 1, JSON.stringify(moves));
+close('…from the old consensus', moves[0]?.from, -3, 1e-9);
+close('…to the new one', moves[0]?.to, -5, 1e-9);
+ok('…keyed by game, market and number', moves[0]?.key === 'move:A:spreads:-5');
+const short = detectLineAlerts(gameA, [rule({ windowMinutes: 20 })], { now: NOW });
+ok('Move older than the window → nothing', short.length === 0);
+const big = detectLineAlerts(gameA, [rule({ threshold: 2.5 })], { now: NOW });
+ok('Move under the threshold → nothing', big.length === 0);
+const oneBook = [...gameA.filter((r) => r.bookmaker !== 'betmgm' || r.point === -3), snap('A', 'betmgm', 10, -3)];
+ok('Median consensus ignores a lone hold-out', detectLineAlerts(oneBook, [rule({})], { now: NOW }).length === 1);
+const disabled = detectLineAlerts(gameA, [rule({ enabled: false })], { now: NOW });
+ok('Disabled rules never fire', disabled.length === 0);
+const otherSport = detectLineAlerts(gameA, [rule({ sportKey: 'basketball_nba' })], { now: NOW });
+ok('Rules only see their own league', otherSport.length === 0);
+
+console.log('Steam');
+const steamRule = rule({ kind: 'steam', threshold: 0.5, windowMinutes: 10, minBooks: 3 });
+// Game B: four books at -2, three jump to -3 within 6 minutes
+const gameB = [
+  ...['draftkings', 'fanduel', 'betmgm', 'pinnacle'].map((b) => snap('B', b, 90, -2)),
+  snap('B', 'pinnacle', 20, -3),
+  snap('B', 'draftkings', 17, -3),
+  snap('B', 'fanduel', 14, -3),
+];
+const steam = detectLineAlerts(gameB, [steamRule], { now: NOW });
+ok('Three books inside ten minutes is steam', steam.length === 1, JSON.stringify(steam));
+ok('…led by the first book to move', steam[0]?.books[0] === 'pinnacle' && steam[0]?.books.length === 3);
+ok('…keyed by the leader\'s move', steam[0]?.key === `steam:B:spreads:down:${at(20)}`);
+const later = detectLineAlerts([...gameB, snap('B', 'betmgm', 12, -3)], [steamRule], { now: NOW });
+ok('A fourth book joining keeps the same key', later[0]?.key === steam[0]?.key);
+const drift = [
+  ...['draftkings', 'fanduel', 'betmgm'].map((b) => snap('C', b, 120, -2)),
+  snap('C', 'draftkings', 60, -3),
+  snap('C', 'fanduel', 40, -3),
+  snap('C', 'betmgm', 20, -3),
+];
+ok('The same move spread over 40 minutes is not steam', detectLineAlerts(drift, [steamRule], { now: NOW }).length === 0);
+ok('Opposite moves don\'t add up',
+  detectLineAlerts([...gameB.slice(0, 5), snap('B', 'draftkings', 17, -1), snap('B', 'fanduel', 14, -1)], [steamRule], { now: NOW }).length === 0);
+ok('Stale steam (past the lookback) is not posted',
+  detectLineAlerts(gameB, [steamRule], { now: NOW, lookbackMinutes: 10 }).length === 0);
+
+console.log('Kalshi divergence');
+const kalshiRule = rule({ kind: 'kalshi', threshold: 1.5, windowMinutes: 0 });
+const flat = ['draftkings', 'fanduel', 'betmgm'].map((b) => snap('D', b, 60, -4));
+const kalshiAlerts = detectLineAlerts(flat, [kalshiRule], { now: NOW, kalshi: new Map([['D', { spreads: -6 }]]) });
+ok('Kalshi 2 points off the consensus alerts', kalshiAlerts.length === 1);
+ok('…with both numbers', kalshiAlerts[0]?.from === -4 && kalshiAlerts[0]?.to === -6);
+ok('Kalshi within the threshold → nothing',
+  detectLineAlerts(flat, [kalshiRule], { now: NOW, kalshi: new Map([['D', { spreads: -5 }]]) }).length === 0);
+ok('No Kalshi line → nothing', detectLineAlerts(flat, [kalshiRule], { now: NOW }).length === 0);
+
+const board: Game[] = [{
+  id: 'D', sport_key: SPORT, sport_title: 'NCAAB', commence_time: '', home_team: HOME, away_team: AWAY,
+  bookmakers: [{
+    key: 'kalshi', title: 'Kalshi', last_update: '', markets: [
+      { key: 'spreads', last_update: '', outcomes: [{ name: AWAY, price: -110, point: 6 }, { name: HOME, price: -110, point: -6 }] },
+      { key: 'totals', last_update: '', outcomes: [{ name: 'Over', price: -110, point: 151.5 }, { name: 'Under', price: -110, point: 151.5 }] },
+    ],
+  }],
+}];
+const lines = kalshiLinesFromBoard(board).get('D');
+ok('Kalshi lines read off a merged board (home spread, total)', lines?.spreads === -6 && lines?.totals === 151.5, JSON.stringify(lines));
+
+console.log('Projection cross');
+const crossRule = rule({ kind: 'projection', threshold: 0.5, windowMinutes: 60 });
+const projections = new Map([['A', { spreads: -4 }]]);
+const cross = detectLineAlerts(gameA, [crossRule], { now: NOW, projections });
+ok('Market -3 → -5 through our -4 alerts', cross.length === 1);
+ok('…value now on the away side', cross[0]?.detail.includes(AWAY) ?? false, cross[0]?.detail);
+ok('…keyed by the side it crossed to', cross[0]?.key === 'projection:A:spreads:below');
+ok('Move that stays on one side → nothing',
+  detectLineAlerts(gameA, [crossRule], { now: NOW, projections: new Map([['A', { spreads: -6 }]]) }).length === 0);
+ok('Crossing by less than the threshold → nothing',
+  detectLineAlerts(gameA, [rule({ kind: 'projection', threshold: 1.5 })], { now: NOW, projections }).length === 0);
+const totals = ['draftkings', 'fanduel'].flatMap((b) => [snap('E', b, 90, 140, 'totals'), snap('E', b, 15, 143, 'totals')]);
+const overCross = detectLineAlerts(totals, [rule({ kind: 'projection', market: 'totals', threshold: 0.5 })], {
+  now: NOW, projections: new Map([['E', { totals: 141.5 }]]),
+});
+ok('Total rising through our number → Under', overCross[0]?.detail.endsWith('Under') ?? false, overCross[0]?.detail);
+
+console.log('Dedup');
+const all = detectLineAlerts([...gameA, ...gameB], [rule({}), steamRule, rule({ threshold: 1 })], { now: NOW });
+ok('Two rules catching one move post once', all.filter((a) => a.kind === 'move' && a.gameId === 'A').length === 1);
+ok('Oldest first', all.every((a, i) => i === 0 || all[i - 1].at <= a.at));
+const fresh = unsentAlerts(all, new Set([moves[0].key]));
+ok('Already-sent keys are dropped', fresh.length === all.length - 1 && !fresh.some((a) => a.key === moves[0].key));
+
+console.log('Board refresh');
+const refresh = {
+  now: NOW, horizonHours: 36, commenceTimes: [new Date(Date.parse(NOW) + 5 * 3_600_000).toISOString()],
+  lastCapturedAt: null, freshMinutes: 30, quotaRemaining: 15_000, quotaReserve: 2000,
+};
+ok('Game in the horizon, no snapshots → fetch', boardRefreshSkip(refresh) === null);
+ok('Only games past the horizon → skip',
+  boardRefreshSkip({ ...refresh, commenceTimes: [new Date(Date.parse(NOW) + 48 * 3_600_000).toISOString()] }) === 'no-games');
+ok('Started games don\'t count', boardRefreshSkip({ ...refresh, commenceTimes: [NOW] }) === 'no-games');
+ok('Snapshots from 10 minutes ago → reuse them',
+  boardRefreshSkip({ ...refresh, lastCapturedAt: new Date(Date.parse(NOW) - 10 * 60_000).toISOString() }) === 'fresh');
+ok('Snapshots older than the window → fetch',
+  boardRefreshSkip({ ...refresh, lastCapturedAt: new Date(Date.parse(NOW) - 45 * 60_000).toISOString() }) === null);
+ok('Quota under the reserve → skip', boardRefreshSkip({ ...refresh, quotaRemaining: 1500 }) === 'quota');
+ok('No quota reading yet → fetch', boardRefreshSkip({ ...refresh, quotaRemaining: null }) === null);
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
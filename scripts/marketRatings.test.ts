@@ -0,0 +1,100 @@
+// scripts/marketRatings.test.ts — run with `npm run test:marketRatings`
+// Sport-agnostic market ratings: closing margin from spreads (Pinnacle, then
+// the US-book average) and from a devigged moneyline for hockey, the
+// win-probability → margin conversion, one game's rating move, and a replay
+// from initial ratings with a new HCA.
+
+import {
+  applyMarketGame, extractClosingMargin, flatSeedRating, inverseNormCdf, replayAdjustments, seasonWindow, spreadFromWinProb,
+} from '../src/lib/ratings/market';
+import { SPORT_RATINGS, getSportRatingsConfig } from '../src/lib/ratings/sports';
+import type { OddsAPIGame, SportTeamRating } from '../src/lib/ratings/types';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+const nba = SPORT_RATINGS.basketball_nba;
+const nhl = SPORT_RATINGS.icehockey_nhl;
+
+function book(key: string, market: string, home: { price: number; point?: number }, away: { price: number; point?: number }) {
+  return {
+    key, title: key, last_update: '',
+    markets: [{ key: market, last_update: '', outcomes: [{ name: 'Home', ...home }, { name: 'Away', ...away }] }],
+  };
+}
+
+function oddsGame(bookmakers: OddsAPIGame['bookmakers']): OddsAPIGame {
+  return { id: 'o1', sport_key: 'x', sport_title: 'x', commence_time: '', home_team: 'Home', away_team: 'Away', bookmakers };
+}
+
+function team(name: string, rating: number): SportTeamRating {
+  return { teamName: name, seedName: name, rating, initialRating: rating, gamesProcessed: 0, lastUpdated: '' };
+}
+
+console.log('Win probability → margin');
+close('Inverse CDF of 0.5 is 0', inverseNormCdf(0.5), 0, 1e-9);
+close('Inverse CDF of 0.8413 is ~1', inverseNormCdf(0.8413), 1, 1e-3);
+close('Coin flip is a pick', spreadFromWinProb(0.5, 2.3), 0, 1e-9);
+close('Favorite gets a negative spread', spreadFromWinProb(0.8413, 2.3), -2.3, 0.01);
+
+console.log('\nClosing margin: spreads');
+const spreads = oddsGame([
+  book('pinnacle', 'spreads', { price: -110, point: -4.5 }, { price: -110, point: 4.5 }),
+  book('draftkings', 'spreads', { price: -110, point: -5 }, { price: -110, point: 5 }),
+  book('fanduel', 'spreads', { price: -110, point: -6 }, { price: -110, point: 6 }),
+]);
+ok('Pinnacle first', extractClosingMargin(spreads, nba).spread === -4.5);
+close('US average', extractClosingMargin(spreads, nba, 'us_average').spread, -5.5, 1e-9);
+const noPinnacle = oddsGame(spreads.bookmakers.slice(1));
+ok('Pinnacle falls back to US books', extractClosingMargin(noPinnacle, nba).bookmakers.length === 2);
+ok('No books, no spread', extractClosingMargin(oddsGame([]), nba).spread === null);
+
+console.log('\nClosing margin: moneyline (NHL)');
+// -150/+130: implied .600/.435 → devigged home .580
+const ml = oddsGame([book('pinnacle', 'h2h', { price: -150 }, { price: 130 })]);
+const nhlSpread = extractClosingMargin(ml, nhl).spread;
+close('Devigged favorite maps through the margin SD', nhlSpread, -0.5, 0.05);
+ok('Spread markets ignored for h2h sports', extractClosingMargin(spreads, nhl).spread === null);
+ok('Even money is a pick', extractClosingMargin(oddsGame([book('pinnacle', 'h2h', { price: -110 }, { price: -110 })]), nhl).spread === 0);
+
+console.log('\nOne game');
+// Home 5, Away 0, HCA 2 → projected -7; closes -5 → move 1 toward the close at half
+const home = team('Home', 5);
+const away = team('Away', 0);
+const adj = applyMarketGame(home, away, { id: 'g1', date: '2026-11-01', isNeutralSite: false }, -5,
+  { hca: 2, adjustmentFraction: 0.5, closingSource: 'pinnacle' });
+close('Projected from ratings and HCA', adj.projectedSpread, -7, 1e-9);
+close('Difference is close minus projection', adj.difference, 2, 1e-9);
+close('Home gives up the adjustment', home.rating, 4, 1e-9);
+close('Away gains it', away.rating, 1, 1e-9);
+ok('Games counted', home.gamesProcessed === 1 && away.gamesProcessed === 1);
+const neutral = applyMarketGame(team('A', 0), team('B', 0), { id: 'g2', date: '', isNeutralSite: true }, 0,
+  { hca: 2, adjustmentFraction: 0.5, closingSource: 'pinnacle' });
+ok('Neutral site drops HCA', neutral.projectedSpread === 0 && neutral.adjustment === 0);
+ok('Flat seed starts at 0', flatSeedRating('Boston Bruins').rating === 0 && flatSeedRating('Boston Bruins').seedName === 'Boston Bruins');
+
+console.log('\nReplay');
+const ratings = new Map([['Home', home], ['Away', away]]);
+const replayed = replayAdjustments(ratings, [adj, { ...adj, gameId: 'gX', homeTeam: 'Gone' }], { hca: 0, adjustmentFraction: 0.5 });
+ok('Unrated teams dropped', replayed.length === 1);
+close('Replayed with new HCA from initial', replayed[0].projectedSpread, -5, 1e-9);
+ok('Close matches: no move', home.rating === 5 && away.rating === 0, `${home.rating}/${away.rating}`);
+ok('Closing source kept', replayed[0].closingSource === 'pinnacle');
+
+console.log('\nConfig');
+ok('Lacrosse keeps its tables', SPORT_RATINGS.lacrosse_ncaa.storage.ratings === 'lacrosse_ratings' && !SPORT_RATINGS.lacrosse_ncaa.storage.sport);
+ok('Pro leagues share market tables', nba.storage.ratings === 'market_ratings' && nba.storage.sport === 'basketball_nba');
+ok('Unknown sport', getSportRatingsConfig('soccer_epl') === null);
+ok('Season window', seasonWindow(nba, 2027)?.start === '2026-10-20' && seasonWindow(nba, 1999) === null);
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
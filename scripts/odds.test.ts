@@ -0,0 +1,118 @@
+// scripts/odds.test.ts — run with `npm run test:odds`
+// Odds provider layer with no network: request canonicalisation and fixture
+// names, replay of the checked-in NCAAB fixtures (generic and exact files,
+// missing-fixture errors), the recording provider writing what replay then
+// reads, and quota header accounting. Finishes by pricing the replayed
+// board with the fair-price helpers, as the odds table would.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  fixtureProvider, recordingProvider, OddsProviderError, setQuotaHeaders,
+  type OddsProvider, type OddsQuota,
+} from '../src/lib/odds';
+import { oddsRequest, historicalRequest, requestHash } from '../src/lib/odds/request';
+import { recordQuota, latestQuota } from '../src/lib/odds/quota';
+import { fairForMarket } from '../src/lib/fairPrice';
+import type { Game } from '../src/lib/api';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+async function rejects(name: string, p: Promise<unknown>, status: number) {
+  try {
+    await p;
+    ok(name, false, 'resolved');
+  } catch (err) {
+    ok(name, err instanceof OddsProviderError && err.status === status, String(err));
+  }
+}
+
+const FIXTURES = path.join(process.cwd(), 'fixtures', 'odds');
+const NCAAB = 'basketball_ncaab';
+const BOARD = { markets: ['h2h', 'spreads', 'totals'] };
+
+async function main() {
+  console.log('Requests');
+  const req = oddsRequest(NCAAB, BOARD);
+  ok('board path', req.path === '/sports/basketball_ncaab/odds');
+  ok('regions default to us', req.params.regions === 'us' && req.params.oddsFormat === 'american');
+  ok('bookmakers replace the region', oddsRequest(NCAAB, { markets: ['h2h'], bookmakers: ['pinnacle'] }).params.regions === undefined);
+  ok('historical carries its date', historicalRequest(NCAAB, { ...BOARD, date: '2026-02-07T23:25:00Z' }).params.date === '2026-02-07T23:25:00Z');
+  ok('hash ignores param order', requestHash({ path: '/x', params: { a: '1', b: '2' } }) === requestHash({ path: '/x', params: { b: '2', a: '1' } }));
+  ok('hash tells markets apart', requestHash(req) !== requestHash(oddsRequest(NCAAB, { markets: ['h2h'] })));
+
+  console.log('\nReplay');
+  const fixtures = fixtureProvider(FIXTURES);
+  const board = await fixtures.getOdds<Game>(NCAAB, BOARD);
+  ok('generic board fixture replays', board.data.length === 2 && board.data[0].home_team === 'Duke Blue Devils');
+  ok('replay spends no quota', board.quota === null);
+  const events = await fixtures.getEvents(NCAAB);
+  ok('events fixture replays', events.data.map((e) => e.id).join() === board.data.map((g) => g.id).join());
+  await rejects('missing fixture is a 404', fixtures.getOdds('icehockey_nhl', BOARD), 404);
+  await rejects('missing event fixture is a 404', fixtures.getEventOdds(NCAAB, 'nope', { markets: ['team_totals'] }), 404);
+
+  console.log('\nRecording');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'odds-fixtures-'));
+  try {
+    const quota: OddsQuota = { remaining: 480, used: 20, last: 1, at: '2026-02-07T20:00:00Z' };
+    const calls: string[] = [];
+    const stub: OddsProvider = {
+      name: 'the-odds-api',
+      getOdds: async <T,>(sport: string) => { calls.push(sport); return { data: [{ id: 'live', sport_key: sport }] as T[], quota }; },
+      getEvents: async () => ({ data: [], quota }),
+      getEventOdds: async <T,>() => ({ data: {} as T, quota }),
+      getHistoricalOdds: async <T,>() => ({ data: { timestamp: '', previous_timestamp: '', next_timestamp: '', data: [] as T[] }, quota }),
+    };
+    const recorded = await recordingProvider(stub, dir).getOdds(NCAAB, BOARD);
+    ok('recording passes the live result through', recorded.data[0].id === 'live' && recorded.quota === quota && calls.length === 1);
+    const file = path.join(dir, `${req.path}.${requestHash(req)}.json`);
+    ok('recording writes the exact fixture', fs.existsSync(file));
+    const replayed = await fixtureProvider(dir).getOdds(NCAAB, BOARD);
+    ok('replay reads the recording back', replayed.data[0].id === 'live');
+    await rejects('other requests still miss', fixtureProvider(dir).getOdds(NCAAB, { markets: ['h2h'] }), 404);
+
+    // An exact recording wins over the generic file for its own request only
+    fs.mkdirSync(path.join(dir, 'sports', NCAAB), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'sports', NCAAB, 'odds.json'), JSON.stringify([{ id: 'generic' }]));
+    ok('exact beats generic', (await fixtureProvider(dir).getOdds(NCAAB, BOARD)).data[0].id === 'live');
+    ok('generic covers the rest', (await fixtureProvider(dir).getOdds(NCAAB, { markets: ['h2h'] })).data[0].id === 'generic');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log('\nQuota');
+  const read = recordQuota(new Headers({ 'x-requests-remaining': '4970', 'x-requests-used': '30', 'x-requests-last': '3' }), '/sports/x/odds');
+  ok('quota headers parsed', read?.remaining === 4970 && read.used === 30 && read.last === 3);
+  ok('latest reading kept', latestQuota()?.remaining === 4970);
+  ok('no headers → no reading', recordQuota(new Headers(), '/sports/x/events') === null && latestQuota()?.remaining === 4970);
+  const out = new Headers();
+  setQuotaHeaders(out, read);
+  ok('quota copied to the response', out.get('x-requests-remaining') === '4970' && out.get('x-requests-used') === '30');
+  const none = new Headers();
+  setQuotaHeaders(none, null);
+  ok('fixture replay sets no quota headers', none.get('x-requests-remaining') === null);
+
+  console.log('\nReplayed board');
+  const fair = fairForMarket(board.data[0], 'spreads', 'pinnacle');
+  close('Pinnacle no-vig on the fixture', fair?.probs['Duke Blue Devils'], 0.4977, 0.001);
+  ok('US median needs the modal number', fairForMarket(board.data[0], 'spreads', 'us_median')?.points['Duke Blue Devils'] === -6.5);
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+  if (failed > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
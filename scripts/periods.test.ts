@@ -0,0 +1,107 @@
+// scripts/periods.test.ts — run with `npm run test:periods`
+// First-half / first-quarter projections: reading KenPom games, fitting
+// period shares by spread and tempo bucket, shrinkage toward the prior, and
+// the walk-forward backtest against stored box scores.
+
+import {
+  DEFAULT_PERIOD_SHARES,
+  backtestPeriods,
+  fitPeriodSplits,
+  periodGame,
+  projectPeriod,
+  type PeriodGame,
+} from '../src/lib/ratings/periods';
+import type { KenpomGame } from '../src/lib/kenpom/types';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+console.log('KenPom games');
+const kp: KenpomGame = {
+  kenpom_game_id: '1', game_date: '2026-01-10', season: 2026, home_team: 'Duke', away_team: 'Clemson',
+  predicted_home_score: 78, predicted_away_score: 70,
+  home_q1: 20, home_q2: 18, home_q3: 19, home_q4: 15, home_total: 80,   // 8 in OT
+  away_q1: 15, away_q2: 17, away_q3: 20, away_q4: 20, away_total: 80,
+  has_predictions: true, has_box_score: true,
+};
+const g = periodGame(kp, 67)!;
+ok('Spread from the home side (negative = home favoured)', g.spread === -8 && g.total === 148);
+ok('First half from quarters 1-2', g.actual['1H'].spread === -6 && g.actual['1H'].total === 70);
+ok('First quarter', g.actual['1Q'].spread === -5 && g.actual['1Q'].total === 35);
+ok('Overtime doesn\'t touch the first half', g.actual['1H'].total === 70);
+ok('No prediction → null', periodGame({ ...kp, predicted_home_score: null }) === null);
+ok('No box score → null', periodGame({ ...kp, away_q2: null }) === null);
+
+// ---------- synthetic season ----------
+// 1H margin share 0.45 under 8 points, 0.55 from 8 up; 1H total share 0.46
+// in slow games, 0.49 in fast ones. 1Q is half of each.
+function season(days: number, perDay: number): PeriodGame[] {
+  const games: PeriodGame[] = [];
+  for (let d = 0; d < days; d++) {
+    for (let k = 0; k < perDay; k++) {
+      const i = d * perDay + k;
+      const spread = ((i * 7) % 41) - 20;          // -20 … 20
+      const tempo = i % 2 === 0 ? 64 : 71;
+      const total = 130 + ((i * 13) % 30);
+      const m = Math.abs(spread) < 8 ? 0.45 : 0.55;
+      const t = tempo < 66 ? 0.46 : 0.49;
+      const noise = ((i * 31) % 7) - 3;
+      games.push({
+        date: `2026-01-${String(d + 1).padStart(2, '0')}`,
+        spread, total, tempo,
+        actual: {
+          '1H': { spread: spread * m + noise, total: total * t + noise },
+          '1Q': { spread: spread * m / 2 + noise / 2, total: total * t / 2 + noise / 2 },
+        },
+      });
+    }
+  }
+  return games;
+}
+const games = season(20, 100);
+
+console.log('Fit');
+const splits = fitPeriodSplits(games);
+const h = splits['1H'];
+close('Close games: smaller margin share', h.spread.buckets[0].share, 0.45, 0.02);
+close('Big favourites: larger margin share', h.spread.buckets[3].share, 0.55, 0.02);
+close('Slow games: smaller total share', h.total.buckets[0].share, 0.46, 0.01);
+close('Fast games: larger total share', h.total.buckets[2].share, 0.49, 0.01);
+ok('Empty middle tempo bucket falls back to the period share', Math.abs(h.total.buckets[1].share - h.total.all.share) < 1e-12);
+close('First quarter fit too', splits['1Q'].spread.buckets[3].share, 0.275, 0.02);
+const empty = fitPeriodSplits([]);
+ok('No box scores → the prior', empty['1H'].spread.all.share === DEFAULT_PERIOD_SHARES['1H'].spread
+  && empty['1Q'].total.buckets[2].share === DEFAULT_PERIOD_SHARES['1Q'].total);
+const few = fitPeriodSplits(games.slice(0, 10));
+ok('A handful of games barely moves the prior',
+  Math.abs(few['1H'].total.all.share - DEFAULT_PERIOD_SHARES['1H'].total) < Math.abs(h.total.all.share - DEFAULT_PERIOD_SHARES['1H'].total));
+
+console.log('Projection');
+const p = projectPeriod(splits, '1H', -10, 150, 71);
+close('Spread scales by its bucket', p.spread, -10 * h.spread.buckets[2].share, 0.051);
+close('Total scales by its tempo bucket', p.total, 150 * h.total.buckets[2].share, 0.051);
+const noTempo = projectPeriod(splits, '1H', null, 150);
+ok('No spread → no period spread', noTempo.spread === null);
+close('No tempo → the period\'s overall share', noTempo.total, 150 * h.total.all.share, 0.051);
+
+console.log('Backtest');
+const rows = backtestPeriods(games, 300);
+const half = rows.find(r => r.period === '1H')!;
+ok('One row per period', rows.map(r => r.period).join(',') === '1H,1Q');
+ok('Training days aren\'t scored', half.games === 1700, `${half.games}`);
+ok('Fit beats the naive split', half.spreadMae! < half.naiveSpreadMae! && half.totalMae! < half.naiveTotalMae!,
+  `${half.spreadMae}/${half.naiveSpreadMae}, ${half.totalMae}/${half.naiveTotalMae}`);
+ok('Small bias once fit', Math.abs(half.totalBias!) < 0.5, `${half.totalBias}`);
+ok('Too little history → nothing scored', backtestPeriods(games.slice(0, 150), 300)[0].spreadMae === null);
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
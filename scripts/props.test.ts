@@ -5,13 +5,32 @@
 // → 51.9% fair over.
 
 import {
-  mean, median, stdDev, normCdf, lognormalParams, probOver,
+  mean, median, stdDev, normCdf, lognormalParams, probOver, probUnder, probPush,
   americanToProb, americanToDecimal, probToAmerican, devig, expectedValue,
-  priceLadder, syntheticLines,
+  priceLadder, syntheticLines, poissonPmf, negBinPmf, isCountDist, fairLine,
 } from '../src/lib/props/engine';
-import { computeReference, measurePlayer } from '../src/lib/props/reference';
-import { PROP_MARKETS, PlayerGameLog, marketByKey } from '../src/lib/props/markets';
+import { autoDistribution, computeReference, measurePlayer } from '../src/lib/props/reference';
+import {
+  ALL_POSITIONS, PROP_MARKETS, PlayerGameLog, marketByKey, marketByOddsApiKey,
+  leagueForSport, propMarketsFor, marketFitsPosition, referencePosition, quoteSide, statValue,
+} from '../src/lib/props/markets';
 import { parseCsv, parseWeeklyStats } from '../src/lib/props/nflverse';
+import {
+  parseNbaGameLogs, nbaTableRow, parseMinutes, parseGameDate, seasonForDate, dayOfSeason,
+} from '../src/lib/props/nbaLogs';
+import {
+  recencyMean, defenseFactors, impliedTeamTotal, gameSide, matchupProjection, envElasticity,
+} from '../src/lib/props/projection';
+import {
+  sgpGameKey, legSeries, marginSeries, pearson, pairCorrelation, cholesky, validCorrelation,
+  jointHitRate, simulateUniforms, priceSgp, sgpLadder, legProbability, SgpLeg,
+} from '../src/lib/props/sgp';
+import { parseSchedule } from '../src/lib/props/nflverse';
+import {
+  PredictionInput, PropPrediction, buildPrediction, gradingDate, gameOnOrAfter, outcomeFor,
+  hasStarted, isExpired, coversTeamGame, coversNflTeamGame,
+  scorePredictions, scoreBy, reliabilityBins, valueRoi, decidedPOver,
+} from '../src/lib/props/calibration';
 
 let passed = 0;
 let failed = 0;
@@ -123,9 +142,393 @@ const msFloor = measurePlayer(synth.filter((g) => g.player_id === '00-1'), def,
 ok('opportunity floor excludes all', msFloor === null);
 
 console.log('market defs');
-ok('7 markets', PROP_MARKETS.length === 7);
+ok('10 NFL markets', propMarketsFor('NFL').length === 10);
 ok('yardage markets default lognormal', ['rush_yds', 'rec_yds'].every((k) => marketByKey(k)?.defaultDist === 'lognormal'));
 ok('pass yds defaults normal', marketByKey('pass_yds')?.defaultDist === 'normal');
+ok('11 NBA markets', propMarketsFor('NBA').length === 11);
+ok('keys unique across leagues', new Set(PROP_MARKETS.map((m) => m.key)).size === PROP_MARKETS.length);
+ok('NBA markets run on minutes', propMarketsFor('NBA').every((m) => m.opportunityStat === 'minutes'));
+ok('PRA resolves from odds key', marketByOddsApiKey('player_points_rebounds_assists')?.stat === 'pts_reb_ast');
+ok('alt key resolves', marketByOddsApiKey('player_points_alternate')?.key === 'points');
+ok('NBA sport → NBA', leagueForSport('basketball_nba') === 'NBA');
+ok('preseason → NFL', leagueForSport('americanfootball_nfl_preseason') === 'NFL');
+ok('ALL-position market fits anyone', marketFitsPosition(marketByKey('points')!, ''));
+ok('NFL market still position-gated', !marketFitsPosition(marketByKey('pass_yds')!, 'RB'));
+ok('NBA prices against ALL', referencePosition(marketByKey('pra')!, 'PG') === ALL_POSITIONS);
+ok('NFL prices against position', referencePosition(marketByKey('rec_yds')!, 'TE') === 'TE');
+
+console.log('count distributions');
+close('Poisson P(0) λ=1.5', poissonPmf(1.5, 0)[0], Math.exp(-1.5), 1e-12);
+close('Poisson pmf sums to ~1', poissonPmf(1.5, 30).reduce((a, b) => a + b, 0), 1, 1e-9);
+close('anytime: P(1+) λ=0.5', probOver(0.5, 0, 0.5, 'poisson'), 1 - Math.exp(-0.5), 1e-9);
+close('pass TDs: P(over 1.5) λ=1.5', probOver(1.5, 1.2, 1.5, 'poisson'), 0.4422, 0.0001);
+// mean 1, SD √2 → r = 1, p = ½ (geometric): P(0) = ½, P(1) = ¼
+const nb = negBinPmf(1, Math.SQRT2, 2);
+close('negbin P(0)', nb[0], 0.5, 1e-9);
+close('negbin P(1)', nb[1], 0.25, 1e-9);
+close('negbin sums to ~1', negBinPmf(1.3, 1.6, 60).reduce((a, b) => a + b, 0), 1, 1e-9);
+ok('negbin fattens the zero vs Poisson', probOver(1, Math.SQRT2, 0.5, 'negbin') < probOver(1, 1, 0.5, 'poisson'));
+close('negbin without overdispersion = Poisson', probOver(1.5, 1, 1.5, 'negbin'), probOver(1.5, 1, 1.5, 'poisson'), 1e-12);
+close('whole-number line: push is not over', probOver(1.5, 0, 1, 'poisson'), probOver(1.5, 0, 1.5, 'poisson'), 1e-12);
+ok('count dists flagged', isCountDist('poisson') && isCountDist('negbin') && !isCountDist('lognormal'));
+ok('fair line = median count', fairLine(1.5, 0, 'poisson') === 1 && fairLine(0.4, 0, 'poisson') === 0);
+close('fair line normal = mean', fairLine(80, 20, 'normal'), 80, 1e-12);
+const countLadder = priceLadder(1.5, 1.2, 'poisson', syntheticLines(1.5, 1));
+ok('count ladder starts at 0.5', countLadder[0].line === 0.5 && countLadder[0].pOver > countLadder[1].pOver);
+// Over/under 1 at λ = 1.5: exactly one is a push, the under is only zero
+const pmf15 = poissonPmf(1.5, 1);
+close('whole-number line: push = P(X = line)', probPush(1.5, 0, 1, 'poisson'), pmf15[1], 1e-12);
+close('whole-number line: under = P(X < line)', probUnder(1.5, 0, 1, 'poisson'), pmf15[0], 1e-12);
+close('over + under + push = 1', probOver(1.5, 0, 1, 'poisson') + probUnder(1.5, 0, 1, 'poisson') + probPush(1.5, 0, 1, 'poisson'), 1, 1e-12);
+ok('half-point and continuous lines never push', probPush(1.5, 0, 1.5, 'poisson') === 0 && probPush(80, 20, 80, 'normal') === 0);
+close('negbin push', probPush(1, Math.SQRT2, 1, 'negbin'), 0.25, 1e-9);
+const pushRung = priceLadder(1.5, 0, 'poisson', [1], new Map([[1, { over: 100, under: 100 }]]))[0];
+close('ladder reports the push', pushRung.pPush, pmf15[1], 1e-12);
+close('ladder under excludes the push', pushRung.pUnder, pmf15[0], 1e-12);
+close('fair prices split the decided outcomes', americanToProb(pushRung.fairOver) + americanToProb(pushRung.fairUnder), 1, 1e-9);
+close('push refunds: EV at even money', pushRung.underEv!, pmf15[0] - pushRung.pOver, 1e-12);
+close('EV with a push: stake back, not lost', expectedValue(0.4, 100, 0.2), 0, 1e-12);
+
+console.log('count markets');
+const tdGame: PlayerGameLog = {
+  player_id: '00-3', player_name: 'Td Guy', position: 'RB', team: 'LV', opponent: 'DEN',
+  season: 2024, week: 1, season_type: 'REG',
+  completions: null, attempts: null, passing_yards: null, passing_tds: null, interceptions: null,
+  carries: 15, rushing_yards: 70, rushing_tds: 1, receptions: 2, targets: 3, receiving_yards: 12, receiving_tds: 1,
+};
+ok('scrimmage TDs derived', statValue(tdGame, 'scrimmage_tds') === 2);
+ok('touches derived', statValue(tdGame, 'touches') === 18);
+ok('plain column passes through', statValue(tdGame, 'rushing_yards') === 70);
+ok('derived stat null when parts missing', statValue({ ...tdGame, rushing_tds: null, receiving_tds: null }, 'scrimmage_tds') === null);
+const anytime = marketByKey('anytime_td')!;
+ok('anytime TD is yes/no Poisson', anytime.yesNo === true && anytime.defaultDist === 'poisson');
+ok('odds keys resolve', marketByOddsApiKey('player_pass_tds')?.key === 'pass_tds'
+  && marketByOddsApiKey('player_pass_interceptions')?.key === 'interceptions');
+ok('Yes → over 0.5', JSON.stringify(quoteSide(anytime, { name: 'Yes' })) === '{"side":"over","point":0.5}');
+ok('No → under 0.5', quoteSide(anytime, { name: 'No' })?.side === 'under');
+ok('Yes ignored on over/under markets', quoteSide(marketByKey('pass_tds')!, { name: 'Yes' }) === null);
+ok('over/under needs a point', quoteSide(marketByKey('pass_tds')!, { name: 'Over' }) === null
+  && quoteSide(marketByKey('pass_tds')!, { name: 'Over', point: 1.5 })?.point === 1.5);
+
+// QB seasons: steady 1-2 TDs (Poisson-ish) vs boom/bust 0/4 (overdispersed)
+const qbGames = (id: string, tds: (w: number) => number): PlayerGameLog[] =>
+  Array.from({ length: 10 }, (_, i) => ({
+    ...tdGame, player_id: id, position: 'QB', week: i + 1,
+    attempts: 32, completions: 21, passing_yards: 240, passing_tds: tds(i), interceptions: i % 3 ? 0 : 1,
+    carries: 3, rushing_tds: 0, receiving_tds: null, targets: null,
+  }));
+const steadyQb = qbGames('qb-1', (i) => (i % 2 ? 1 : 2));
+const swingyQb = qbGames('qb-2', (i) => (i % 2 ? 0 : 4));
+const passTds = marketByKey('pass_tds')!;
+const autoSteady = autoDistribution(measurePlayer(steadyQb, passTds), passTds);
+ok('steady TD rate → Poisson', autoSteady.dist === 'poisson' && autoSteady.basis === 'shape');
+ok('swingy TD rate → negbin', autoDistribution(measurePlayer(swingyQb, passTds), passTds).dist === 'negbin');
+ok('thin sample → market default', autoDistribution(measurePlayer(steadyQb.slice(0, 4), passTds), passTds).basis === 'default');
+ok('continuous rule unchanged', autoDistribution(ms, def).dist === 'normal');
+const qbRef = computeReference([...steadyQb, ...swingyQb], [2024]);
+ok('pass TD reference derived', qbRef.markets['pass_tds']?.['QB']?.overall.n === 2);
+ok('INT reference derived', qbRef.markets['interceptions']?.['QB']?.overall.multiplier !== null);
+
+console.log('NBA CSV loader');
+close('mm:ss minutes', parseMinutes('34:12') ?? NaN, 34.2, 1e-9);
+ok('decimal minutes', parseMinutes('28.5') === 28.5);
+ok('DNP minutes', parseMinutes('') === null && parseMinutes('Did Not Play') === null);
+ok('ISO date', parseGameDate('2024-10-22T00:00:00') === '2024-10-22');
+ok('stats.nba.com date', parseGameDate('OCT 22, 2024') === '2024-10-22');
+ok('US date', parseGameDate('1/5/2025') === '2025-01-05');
+ok('bad date', parseGameDate('Date') === null);
+ok('season from date', seasonForDate('2025-01-05') === 2024 && seasonForDate('2024-10-22') === 2024);
+ok('day of season', dayOfSeason('2024-09-02', 2024) === 1);
+
+// stats.nba.com LeagueGameLog shape: SEASON_ID prefix 2 = regular season, 4 = playoffs
+const nbaHeader = 'SEASON_ID,PLAYER_ID,PLAYER_NAME,TEAM_ABBREVIATION,GAME_ID,GAME_DATE,MATCHUP,WL,MIN,FG3M,REB,AST,STL,BLK,TOV,PTS';
+const nbaCsv = [
+  nbaHeader,
+  '22024,1628973,Jalen Brunson,NYK,0022400001,2024-10-22,NYK @ BOS,L,35,2,2,4,1,0,3,22',
+  '22024,1628973,Jalen Brunson,NYK,0022400002,2024-10-24,NYK vs. IND,W,36:30,3,4,8,0,0,2,26',
+  '22024,1628973,Jalen Brunson,NYK,0022400003,2024-10-26,NYK vs. DET,W,,,,,,,,',
+  '42024,1628973,Jalen Brunson,NYK,0042400101,2025-04-19,NYK vs. DET,W,38,1,3,7,1,0,4,34',
+  '22024,1628973,Jalen Brunson,NYK,0022400002,2024-10-24,NYK vs. IND,W,36:30,3,4,9,0,0,2,26',
+].join('\n');
+const nbaLogs = parseNbaGameLogs(nbaCsv);
+ok('skips DNP, dedupes player-date', nbaLogs.length === 3, String(nbaLogs.length));
+const opener = nbaLogs.find((g) => g.game_date === '2024-10-22')!;
+ok('opponent from matchup', opener.opponent === 'BOS');
+ok('season from SEASON_ID', opener.season === 2024 && opener.season_type === 'REG');
+ok('PRA derived', opener.pts_reb_ast === 28 && opener.pts_reb === 24 && opener.pts_ast === 26 && opener.reb_ast === 6);
+ok('duplicate keeps last row', nbaLogs.find((g) => g.game_date === '2024-10-24')?.assists === 9);
+ok('playoffs → POST', nbaLogs.find((g) => g.game_date === '2025-04-19')?.season_type === 'POST');
+ok('game order via week', nbaLogs.map((g) => g.week).every((w, i, a) => i === 0 || w > a[i - 1]));
+ok('table row drops NFL columns', !('carries' in nbaTableRow(opener)) && nbaTableRow(opener).points === 22);
+
+// Basketball-Reference game-log shape: no player id, MP/TRB/3P columns, repeated header rows
+const bbref = [
+  'Rk,Player,Date,Tm,,Opp,MP,3P,TRB,AST,STL,BLK,TOV,PTS',
+  '1,Nikola Jokić,Tue Oct 24 2023,DEN,,LAL,36:00,1,13,11,1,1,3,29',
+  'Rk,Player,Date,Tm,,Opp,MP,3P,TRB,AST,STL,BLK,TOV,PTS',
+  '2,Nikola Jokić,2023-10-27,DEN,@,MEM,33:30,0,12,9,2,0,2,22',
+].join('\n');
+const bbLogs = parseNbaGameLogs(bbref);
+ok('bbref: header repeats + bad dates skipped', bbLogs.length === 1, String(bbLogs.length));
+ok('bbref: name-slug id, Opp column', bbLogs[0]?.player_id === 'nikola-jokic' && bbLogs[0]?.opponent === 'MEM');
+ok('accents folded to the Odds API spelling', bbLogs[0]?.player_name === 'Nikola Jokic');
+let missingThrew = false;
+try { parseNbaGameLogs('PLAYER_NAME,GAME_DATE\nX,2024-10-22'); } catch { missingThrew = true; }
+ok('missing required column throws', missingThrew);
+
+console.log('NBA reference');
+// 10 REG games alternating 20/30 points at 34 mpg, plus a 12-mpg bench player below the floor
+const nbaSynth: PlayerGameLog[] = [];
+const nflNulls = {
+  completions: null, attempts: null, passing_yards: null, passing_tds: null, interceptions: null,
+  carries: null, rushing_yards: null, rushing_tds: null,
+  receptions: null, targets: null, receiving_yards: null, receiving_tds: null,
+};
+for (let d = 1; d <= 10; d++) {
+  for (const [id, min, pts] of [['s', 34, d % 2 ? 20 : 30], ['b', 12, 4]] as const) {
+    nbaSynth.push({
+      player_id: id, player_name: id, position: '', team: 'NYK', opponent: 'BOS',
+      season: 2024, week: 50 + 2 * d, season_type: 'REG', ...nflNulls,
+      minutes: min, points: pts, rebounds: 5, assists: 5, pts_reb_ast: pts + 10,
+    });
+  }
+}
+const nbaRef = computeReference(nbaSynth, [2024], 'NBA');
+ok('NBA reference only has NBA markets', !('rush_yds' in nbaRef.markets) && 'pra' in nbaRef.markets);
+ok('minutes floor → one qualifying season', nbaRef.markets['points']?.[ALL_POSITIONS]?.overall.n === 1);
+// mean 25, sd of alternating 20/30 = sqrt(250/9) ≈ 5.27 → CV ≈ 0.211
+close('points multiplier', nbaRef.markets['points']?.[ALL_POSITIONS]?.overall.multiplier ?? NaN, 0.211, 0.002);
+ok('NFL default unchanged', !('points' in computeReference(synth, [2024]).markets));
+const nbaMs = measurePlayer(nbaSynth.filter((g) => g.player_id === 's'), marketByKey('pra')!, {});
+close('PRA measured mean', nbaMs?.mean ?? NaN, 35, 1e-9);
+close('minutes as opportunities', nbaMs?.oppMean ?? NaN, 34, 1e-9);
+
+console.log('matchup projection');
+close('recency mean: flat series unchanged', recencyMean([5, 5, 5, 5]), 5, 1e-12);
+// weights ½, 1 over a half-life of 1 → (0.5·10 + 1·20) / 1.5
+close('recency mean favors the latest game', recencyMean([10, 20], 1), 16.667, 0.001);
+ok('recency mean of nothing is NaN', Number.isNaN(recencyMean([])));
+
+// Two WRs each week: DEN allows 100 + 50 per game, KC 60 + 30; LA (Rams code) 120 + 60
+const defLogs: PlayerGameLog[] = [];
+const wr = (id: string, opp: string, week: number, yds: number, pos = 'WR'): PlayerGameLog => ({
+  player_id: id, player_name: id, position: pos, team: 'X', opponent: opp,
+  season: 2024, week, season_type: 'REG',
+  completions: null, attempts: null, passing_yards: null, passing_tds: null, interceptions: null,
+  carries: null, rushing_yards: null, rushing_tds: null,
+  receptions: 5, targets: 8, receiving_yards: yds, receiving_tds: 0,
+});
+for (let w = 1; w <= 4; w++) {
+  defLogs.push(wr('a', 'DEN', w, 100), wr('b', 'DEN', w, 50));
+  defLogs.push(wr('c', 'KC', w, 60), wr('d', 'KC', w, 30));
+  defLogs.push(wr('e', 'LA', w, 120), wr('f', 'LA', w, 60));
+  defLogs.push(wr('g', 'KC', w, 999, 'TE')); // other position ignored
+}
+const recYds = marketByKey('rec_yds')!;
+const dTable = defenseFactors(defLogs, recYds, 'WR', 'NFL', 0);
+close('league allowed = mean defense-game', dTable.leagueAllowed, 140, 1e-9);
+close('unshrunk factor', dTable.teams['DEN']?.factor ?? NaN, 150 / 140, 1e-9);
+ok('log codes keyed by ESPN abbreviation', 'LAR' in dTable.teams && !('LA' in dTable.teams));
+ok('games counted per defense', dTable.teams['KC']?.games === 4);
+const shrunk = defenseFactors(defLogs, recYds, 'WR', 'NFL', 4);
+// (4·90 + 4·140) / 8 / 140
+close('shrinks toward league average', shrunk.teams['KC']?.factor ?? NaN, (4 * 90 + 4 * 140) / 8 / 140, 1e-9);
+
+close('implied home total', impliedTeamTotal(-7, 45, 'home'), 26, 1e-12);
+close('implied away total', impliedTeamTotal(-7, 45, 'away'), 19, 1e-12);
+
+const espnTeams = {
+  losangelesrams: { abbreviation: 'LAR' }, rams: { abbreviation: 'LAR' },
+  denverbroncos: { abbreviation: 'DEN' },
+  laclippers: { abbreviation: 'LAC' }, clippers: { abbreviation: 'LAC' },
+  goldenstatewarriors: { abbreviation: 'GS' },
+};
+const side = gameSide('LA', { home_team: 'Denver Broncos', away_team: 'Los Angeles Rams' }, espnTeams, 'NFL');
+ok('side via log-code alias', side?.side === 'away' && side.opponent === 'DEN', JSON.stringify(side));
+const nbaSide = gameSide('GSW', { home_team: 'Golden State Warriors', away_team: 'Los Angeles Clippers' }, espnTeams, 'NBA');
+ok('nickname fallback for odds names', nbaSide?.side === 'home' && nbaSide.opponent === 'LAC', JSON.stringify(nbaSide));
+ok('player not in game → null', gameSide('KC', { home_team: 'Denver Broncos', away_team: 'Los Angeles Rams' }, espnTeams, 'NFL') === null);
+
+// Target share jumped: 4 targets → 10 over the sample, yards per target steady at 10
+const roleGames: PlayerGameLog[] = [4, 4, 4, 10, 10, 10].map((t, i) => ({
+  ...wr('r', 'KC', i + 1, t * 10), targets: t,
+}));
+const roleMs = measurePlayer(roleGames, recYds, {})!;
+const flat = matchupProjection(roleMs, recYds, { league: 'NFL' });
+close('no context: base is the measured mean', flat.base, 70, 1e-9);
+ok('role picks up the target jump', flat.role > 0 && Math.abs(flat.form) < Math.abs(flat.role));
+close('steps sum to the projection', flat.base + flat.role + flat.form + flat.opponent + flat.environment, flat.projection, 1e-9);
+ok('no context: opponent and environment zero', flat.opponent === 0 && flat.environment === 0 && flat.envFactor === 1);
+const adj = matchupProjection(roleMs, recYds, {
+  league: 'NFL', defense: { factor: 1.1, allowed: 150, games: 4 }, teamTotal: 27,
+});
+const recent = recencyMean(roleMs.values);
+close('opponent step = recent × (factor − 1)', adj.opponent, recent * 0.1, 1e-9);
+// elasticity 0.5 on rec yards: 1 + 0.5 × (27 / 22.5 − 1) = 1.1
+close('environment factor from implied total', adj.envFactor, 1.1, 1e-9);
+close('environment step', adj.environment, recent * 1.1 * 0.1, 1e-9);
+close('adjusted steps sum', adj.base + adj.role + adj.form + adj.opponent + adj.environment, adj.projection, 1e-9);
+ok('pass attempts ignore the team total', envElasticity(marketByKey('pass_attempts')!) === 0);
+ok('TD markets scale one for one', envElasticity(marketByKey('anytime_td')!) === 1);
+
+console.log('same-game parlay');
+ok('game key is team-order free', sgpGameKey(2024, 3, 'KC', 'BUF') === sgpGameKey(2024, 3, 'BUF', 'KC'));
+close('pearson perfect', pearson([1, 2, 3, 4], [2, 4, 6, 8]), 1, 1e-12);
+close('pearson inverse', pearson([1, 2, 3, 4], [8, 6, 4, 2]), -1, 1e-12);
+ok('pearson flat series is NaN', Number.isNaN(pearson([1, 1, 1], [1, 2, 3])));
+
+const schedule = parseSchedule([
+  'game_id,season,game_type,week,gameday,away_team,away_score,home_team,home_score',
+  '2024_01_BAL_KC,2024,REG,1,2024-09-05,BAL,20,KC,27',
+  '2024_22_KC_PHI,2024,SB,22,2025-02-09,KC,22,PHI,40',
+  '2025_01_DAL_PHI,2025,REG,1,2025-09-04,DAL,NA,PHI,NA',
+].join('\n'));
+ok('schedule: two rows per finished game, unplayed skipped', schedule.length === 4, String(schedule.length));
+ok('schedule: margins from each side', schedule.find((g) => g.team === 'KC' && g.week === 1)?.margin === 7
+  && schedule.find((g) => g.team === 'BAL')?.margin === -7);
+ok('schedule: playoff game types → POST', schedule.find((g) => g.week === 22)?.season_type === 'POST');
+const kcMargins = marginSeries(schedule.filter((g) => g.team === 'KC'));
+ok('margin series keyed like player games', kcMargins[sgpGameKey(2024, 1, 'KC', 'BAL')] === 7);
+
+// QB and WR1 on the same team: receiving yards track passing yards over 10 games
+const teamGames = (id: string, pos: string, stats: (w: number) => Partial<PlayerGameLog>): PlayerGameLog[] =>
+  Array.from({ length: 10 }, (_, i) => ({
+    ...wr(id, i % 2 ? 'DEN' : 'LV', i + 1, 0, pos), team: 'KC', ...stats(i + 1),
+  }));
+const qbLogs = teamGames('qb', 'QB', (w) => ({ passing_yards: 200 + 10 * w, attempts: 35 }));
+const wrLogs = teamGames('wr1', 'WR', (w) => ({ receiving_yards: 50 + 4 * w + (w % 3), targets: 9 }));
+const qbSeries = legSeries(qbLogs, marketByKey('pass_yds')!);
+const wrSeries = legSeries(wrLogs, recYds);
+const pc = pairCorrelation(qbSeries, wrSeries);
+ok('pair correlation over shared games', pc.n === 10 && pc.raw > 0.95, JSON.stringify(pc));
+close('shrunk toward zero by sample', pc.rho, Math.min(0.95, (pc.raw * 10) / 18), 1e-9);
+const thin = pairCorrelation({ a: 1, b: 2, c: 3 }, { a: 1, b: 2, c: 3 });
+ok('too few shared games → independent', thin.rho === 0 && thin.n === 3);
+
+ok('cholesky of identity', JSON.stringify(cholesky([[1, 0], [0, 1]])) === JSON.stringify([[1, 0], [0, 1]]));
+ok('cholesky rejects invalid', cholesky([[1, 0.9, -0.9], [0.9, 1, 0.9], [-0.9, 0.9, 1]]) === null);
+const fixed = validCorrelation([[1, 0.9, -0.9], [0.9, 1, 0.9], [-0.9, 0.9, 1]]);
+ok('inconsistent pairs scaled until valid', fixed.scale < 1 && fixed.scale > 0, String(fixed.scale));
+
+// Independent legs: simulated joint ≈ product; perfectly tied legs: joint ≈ min
+const indep = simulateUniforms([[1, 0], [0, 1]], 40_000, 7);
+close('independent joint ≈ product', jointHitRate(indep, [{ side: 'over', pOver: 0.5 }, { side: 'over', pOver: 0.4 }]), 0.2, 0.01);
+const tied = simulateUniforms([[1, 0], [1, 0]], 40_000, 7);
+close('perfectly tied overs ≈ smaller leg', jointHitRate(tied, [{ side: 'over', pOver: 0.5 }, { side: 'over', pOver: 0.4 }]), 0.4, 0.01);
+close('tied over + under can\'t both hit past the overlap', jointHitRate(tied, [{ side: 'over', pOver: 0.5 }, { side: 'under', pOver: 0.4 }]), 0.1, 0.01);
+close('under leg hits only its own tail, not the push', jointHitRate(indep, [{ side: 'under', pOver: 0.4, pUnder: 0.3 }, { side: 'over', pOver: 0.5 }]), 0.15, 0.01);
+
+const leg = (id: string, series: Record<string, number>, mean: number, sd: number, line: number, side: 'over' | 'under' = 'over'): SgpLeg =>
+  ({ id, label: id, side, line, mean, sd, dist: 'normal', series });
+const sgpLegs = [leg('qb', qbSeries, 270, 60, 264.5), leg('wr', wrSeries, 75, 25, 69.5)];
+const sgp = priceSgp(sgpLegs, 20_000, 3)!;
+close('leg probabilities from the engine', sgp.legProbs[0], legProbability(sgpLegs[0]), 1e-12);
+ok('positive correlation lifts both-overs', sgp.joint > sgp.independent && sgp.lift > 1.1, `${sgp.joint} vs ${sgp.independent}`);
+const mixed = priceSgp([sgpLegs[0], { ...sgpLegs[1], side: 'under' }], 20_000, 3)!;
+ok('over + under of correlated legs is cheaper', mixed.joint < mixed.independent);
+ok('one leg is not a parlay', priceSgp([sgpLegs[0]]) === null);
+const tdUnder: SgpLeg = { ...leg('td', wrSeries, 1.5, 0, 1, 'under'), dist: 'poisson' };
+close('count under leg excludes the push', legProbability(tdUnder), probUnder(1.5, 0, 1, 'poisson'), 1e-12);
+ok('count under leg below 1 − over', legProbability(tdUnder) < 1 - legProbability({ ...tdUnder, side: 'over' }));
+ok('same seed, same price', priceSgp(sgpLegs, 20_000, 3)!.joint === sgp.joint);
+const sgpRungs = sgpLadder(sgp, sgpLegs, 0, [244.5, 264.5, 284.5]);
+close('ladder at the leg\'s own line matches', sgpRungs[1].joint, sgp.joint, 1e-12);
+ok('ladder joint falls as the anchor line rises', sgpRungs[0].joint > sgpRungs[1].joint && sgpRungs[1].joint > sgpRungs[2].joint);
+
+console.log('calibration');
+const predInput: PredictionInput = {
+  source: 'pricer', league: 'NFL', sport_key: 'americanfootball_nfl', event_id: 'evt1',
+  commence_time: '2025-09-08T00:20:00Z', player_id: '00-0036', player_name: 'Test Receiver',
+  position: 'WR', team: 'KC', market: 'receiving_yards', line: 69.5, projection: 75,
+  projection_mode: 'measured', sd: 25, sd_mode: 'measured', dist: 'normal', p_over: 0.58,
+  best_over_price: -110, best_over_book: 'draftkings', best_under_price: -110, best_under_book: 'fanduel',
+  kalshi_ticker: null, kalshi_strike: null,
+};
+const pred = buildPrediction(predInput, new Date('2025-09-07T15:00:00Z'));
+ok('priced_on is the Eastern day', pred.priced_on === '2025-09-07');
+ok('value side is the higher-EV side', pred.value_side === 'over');
+close('value EV at the best price', pred.value_ev!, expectedValue(0.58, -110), 1e-12);
+ok('dedupe key carries day, player, line and settings',
+  pred.dedupe_key === '2025-09-07|pricer|00-0036|receiving_yards|69.5|book|measured|measured', pred.dedupe_key);
+ok('late-night UTC pricing keeps the Eastern day', buildPrediction(predInput, new Date('2025-09-08T02:00:00Z')).priced_on === '2025-09-07');
+ok('no prices, no value pick', buildPrediction({ ...predInput, best_over_price: null, best_under_price: null }).value_side === null);
+ok('under pick when P(over) is low', buildPrediction({ ...predInput, p_over: 0.4 }).value_side === 'under');
+const tdPred = buildPrediction({
+  ...predInput, market: 'receiving_tds', line: 1, projection: 1.5, sd: 0, dist: 'poisson',
+  p_over: probOver(1.5, 0, 1, 'poisson'), best_over_price: 100, best_under_price: 100,
+});
+// P(0) 22%, P(1) 33% push, P(2+) 44%: the over is the value once the push stops counting for the under
+ok('whole-number count line: push is not an under win', tdPred.value_side === 'over', String(tdPred.value_side));
+close('whole-number count line: EV refunds the push', tdPred.value_ev!,
+  probOver(1.5, 0, 1, 'poisson') - probUnder(1.5, 0, 1, 'poisson'), 1e-12);
+
+ok('grading date from the event (Eastern)', gradingDate(pred) === '2025-09-07');
+ok('grading date falls back to priced day', gradingDate({ commence_time: null, priced_on: '2025-09-10' }) === '2025-09-10');
+const games = [{ gameday: '2025-09-14', w: 2 }, { gameday: '2025-09-07', w: 1 }, { gameday: '2025-09-21', w: 3 }];
+ok('next game on the day counts', gameOnOrAfter(games, '2025-09-07')?.w === 1);
+ok('next game after the day', gameOnOrAfter(games, '2025-09-08')?.w === 2);
+ok('no game yet', gameOnOrAfter(games, '2025-09-22') === null);
+ok('schedule rows carry the game day', schedule.every((g) => /^\d{4}-\d{2}-\d{2}$/.test(g.gameday)));
+ok('outcomes', outcomeFor(70, 69.5) === 'over' && outcomeFor(60, 69.5) === 'under' && outcomeFor(70, 70) === 'push');
+ok('not started before tip', !hasStarted(pred, new Date('2025-09-08T00:19:00Z')));
+ok('started at tip', hasStarted(pred, new Date('2025-09-08T00:20:00Z')));
+ok('no event time never counts as started', !hasStarted({ commence_time: null }, new Date('2030-01-01T00:00:00Z')));
+ok('open within the window', !isExpired(pred, new Date('2025-09-21T15:00:00Z'), 14));
+ok('expired past the window (Eastern game day)', isExpired(pred, new Date('2025-09-22T15:00:00Z'), 14));
+ok('no event: expires off the priced day', isExpired({ commence_time: null, priced_on: '2025-09-01' }, new Date('2025-09-16T15:00:00Z'), 14));
+const box = Array.from({ length: 9 }, (_, i) => ({ minutes: i < 5 ? 34 : 17 }));
+ok('full box score covers the team game', coversTeamGame(box));
+ok('rounded minutes still cover it', coversTeamGame([...box.slice(0, 8), { minutes: 14 }]));
+ok('per-player export doesn\'t', !coversTeamGame([{ minutes: 36 }, { minutes: 31 }]));
+ok('overtime box score covers it', coversTeamGame([...box, { minutes: 25 }]));
+const nflWeek = [
+  { attempts: 34, completions: 22, receptions: 0 },
+  { attempts: 0, completions: 0, receptions: 9 },
+  { attempts: 0, completions: 0, receptions: 8 },
+  { attempts: 0, completions: 0, receptions: 5 },
+];
+ok('NFL week: every completion has its receiver', coversNflTeamGame(nflWeek));
+ok('NFL week: a receiver missing from the sync', !coversNflTeamGame(nflWeek.slice(0, 3)));
+ok('NFL week: receivers without the passer', !coversNflTeamGame(nflWeek.slice(1)));
+
+const graded = (p_over: number, result: PropPrediction['result'], extra: Partial<PropPrediction> = {}): PropPrediction =>
+  ({ ...pred, p_over, result, ...extra });
+const scored = [graded(0.8, 'over'), graded(0.6, 'under'), graded(0.3, 'under'), graded(0.5, 'push'), graded(0.7, 'dnp'), graded(0.5, null)];
+const score = scorePredictions(scored);
+ok('pushes, DNPs and open rows are left out', score.n === 3);
+close('Brier', score.brier, (0.2 ** 2 + 0.6 ** 2 + 0.3 ** 2) / 3, 1e-12);
+close('log-loss', score.logLoss, -(Math.log(0.8) + Math.log(0.4) + Math.log(0.7)) / 3, 1e-12);
+close('hit rate', score.hitRate, 1 / 3, 1e-12);
+ok('empty scorecard is NaN', Number.isNaN(scorePredictions([]).brier));
+const byDist = scoreBy([...scored, graded(0.55, 'over', { dist: 'lognormal' })], (p) => p.dist);
+ok('scoreBy groups and sorts by sample', byDist.length === 2 && byDist[0].key === 'normal' && byDist[0].summary.n === 3);
+const rel = reliabilityBins(scored, 10);
+ok('ten bins', rel.length === 10 && rel[9].hi === 1);
+ok('each graded row lands in its bin', rel[8].n === 1 && rel[6].n === 1 && rel[3].n === 1 && rel[3].hitRate === 0);
+ok('P(over) of 1 falls in the top bin', reliabilityBins([graded(1, 'over')])[9].n === 1);
+// Whole-number TD line: 44% over, 33% push — scored as 0.44 / 0.67 once pushes are voided
+const tdOver = { ...tdPred, result: 'over' as const };
+const tdDecided = probOver(1.5, 0, 1, 'poisson') / (1 - probPush(1.5, 0, 1, 'poisson'));
+close('whole-number count line: P(over) conditioned on no push', decidedPOver(tdOver), tdDecided, 1e-12);
+ok('half-point line scores the raw P(over)', decidedPOver(pred) === pred.p_over);
+close('Brier on the conditioned probability', scorePredictions([tdOver]).brier, (1 - tdDecided) ** 2, 1e-12);
+close('reliability bin by the conditioned probability', reliabilityBins([tdOver])[Math.floor(tdDecided * 10)].meanP, tdDecided, 1e-12);
+
+// Value picks: over at −110 wins, over at +120 loses, under push, DNP and expired ignored, below-threshold ignored
+const picks = [
+  graded(0.6, 'over', { value_side: 'over', value_ev: 0.1 }),
+  graded(0.6, 'under', { value_side: 'over', value_ev: 0.1, best_over_price: 120, sd_mode: 'tier' }),
+  graded(0.4, 'push', { value_side: 'under', value_ev: 0.05 }),
+  graded(0.6, 'dnp', { value_side: 'over', value_ev: 0.1 }),
+  graded(0.6, 'expired', { value_side: 'over', value_ev: 0.1 }),
+  graded(0.52, 'over', { value_side: 'over', value_ev: 0.01 }),
+];
+const roiAll = valueRoi(picks);
+ok('ROI grouped by volatility setting', Object.keys(roiAll).sort().join() === 'measured,tier');
+ok('win, push counted; DNP void', roiAll.measured.picks === 3 && roiAll.measured.won === 2 && roiAll.measured.pushed === 1);
+close('profit at the logged price', roiAll.measured.profit, 2 * (americanToDecimal(-110) - 1), 1e-12);
+close('losing pick costs a unit', roiAll.tier.roi, -1, 1e-12);
+ok('min EV threshold', valueRoi(picks, 0.02).measured.picks === 2);
 
 console.log(`\n${passed} passed, ${failed} failed`);
 if (failed > 0) process.exit(1);
@@ -0,0 +1,94 @@
+// scripts/teamTrends.test.ts — run with `npm run test:teamTrends`
+// Team-page betting context: finals scored against their close (covers,
+// pushes, overs), the season splits with neutral sites and pick'ems kept out
+// of the sided buckets, and tracked bets tied back to the schedule game.
+
+import {
+  formatRecord,
+  scoreClose,
+  teamBets,
+  teamTrends,
+  type TrendGame,
+} from '../src/lib/teamTrends';
+import type { Bet } from '../src/lib/betService';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+console.log('Scoring a close');
+// Won by 10 as a 7-point favourite in a 51-point game with a 47.5 total
+const fav = scoreClose(10, 51, { spread: -7, total: 47.5 }, 'snapshots');
+ok('Favourite winning by more than the number covers', fav?.atsRes === 'W');
+close('…by 3', fav?.coverMargin, 3, 1e-9);
+ok('…and the game went over', fav?.ouRes === 'O');
+close('…by 3.5', fav?.totalMargin, 3.5, 1e-9);
+const dog = scoreClose(-3, 40, { spread: 3, total: 40 }, 'espn');
+ok('Dog losing by exactly the number pushes', dog?.atsRes === 'P' && dog?.coverMargin === 0);
+ok('Total landing on the number pushes', dog?.ouRes === 'P');
+ok('Source carried through', fav?.source === 'snapshots' && dog?.source === 'espn');
+const noTotal = scoreClose(-10, 30, { spread: 3.5, total: null }, 'espn');
+ok('Spread only: ATS loss, no O/U', noTotal?.atsRes === 'L' && noTotal?.ouRes === null && noTotal?.totalMargin === null);
+ok('No line at all → null', scoreClose(7, 40, { spread: null, total: null }, 'espn') === null);
+
+console.log('Splits');
+const game = (home: boolean, spread: number, margin: number, points: number, total: number, patch: Partial<TrendGame> = {}): TrendGame => ({
+  home, neutral: false, conference: true, closing: scoreClose(margin, points, { spread, total }, 'snapshots'), ...patch,
+});
+const season: TrendGame[] = [
+  game(true, -7, 10, 50, 45),                         // home fav: W, O
+  game(true, -3, 1, 40, 45),                          // home fav: L, U
+  game(false, 6, -2, 44, 44),                         // away dog: W, P
+  game(false, 3, -3, 60, 50, { conference: false }),  // away dog: P, O
+  game(true, 0, 4, 38, 41, { neutral: true }),        // neutral pick'em: W, U
+  { home: true, neutral: false, conference: true, closing: null },  // no line
+];
+const trends = teamTrends(season);
+ok('Overall ATS 3-1-1', formatRecord(trends.all.ats.w, trends.all.ats.l, trends.all.ats.p) === '3-1-1');
+ok('Overall O/U 2-2-1', formatRecord(trends.all.ou.o, trends.all.ou.u, trends.all.ou.p) === '2-2-1');
+close('Average cover', trends.all.avgCover, (3 - 2 + 4 + 0 + 4) / 5, 0.05);
+ok('Home excludes the neutral site', trends.home.ats.w + trends.home.ats.l + trends.home.ats.p === 2);
+ok('Away 1-0-1', trends.away.ats.w === 1 && trends.away.ats.p === 1);
+ok('Favourite 1-1', trends.favourite.ats.w === 1 && trends.favourite.ats.l === 1);
+ok('Underdog 1-0-1', trends.underdog.ats.w === 1 && trends.underdog.ats.p === 1);
+ok('Pick\'em is neither favourite nor dog',
+  trends.favourite.ats.w + trends.favourite.ats.l + trends.underdog.ats.w + trends.underdog.ats.l + trends.underdog.ats.p === 4);
+ok('Conference split', trends.conference.ats.w === 3 && trends.nonConference.ats.p === 1);
+ok('Games without a close are left out', teamTrends([season[5]]).all.avgCover === null);
+ok('Record without pushes', formatRecord(5, 2, 0) === '5-2');
+
+console.log('Tracked bets');
+const bet = (patch: Partial<Bet>): Bet => ({
+  id: 'b', date: '2026-10-01', eventDate: '2026-10-10', sport: 'Football', league: 'NCAAF', description: '',
+  awayTeam: 'Michigan Wolverines', homeTeam: 'Ohio State Buckeyes', betType: 'spread', bet: 'Ohio State -7',
+  odds: -110, stake: 2, status: 'won', team: 'Ohio State Buckeyes', ...patch,
+});
+const schedule = [
+  { id: 'g1', date: '2026-10-11T00:00:00Z', opponent: 'Michigan Wolverines' },
+  { id: 'g2', date: '2026-10-18T16:00:00Z', opponent: 'Penn State Nittany Lions' },
+];
+const bets = teamBets([
+  bet({ id: '1' }),
+  bet({ id: '2', eventDate: '2026-10-18', awayTeam: 'Penn State', homeTeam: 'Ohio State', team: 'Penn State', status: 'lost', bet: 'Penn State +3' }),
+  bet({ id: '3', eventDate: '2026-10-18', awayTeam: 'Texas', homeTeam: 'Oklahoma', team: 'Texas' }),
+  bet({ id: '4', eventDate: '2026-11-01', awayTeam: 'Ohio State', homeTeam: 'Purdue', status: 'pending' }),
+], 'Ohio State Buckeyes', schedule);
+ok('Only bets naming the team', bets.length === 3 && !bets.some((b) => b.id === '3'));
+ok('Newest first', bets.map((b) => b.id).join() === '4,2,1');
+ok('Evening kickoff matched across the UTC date line', bets.find((b) => b.id === '1')?.gameId === 'g1');
+ok('Bet against the team still belongs to the game', bets.find((b) => b.id === '2')?.gameId === 'g2');
+ok('No schedule game → unmatched', bets.find((b) => b.id === '4')?.gameId === null);
+close('Won at -110 for 2u', bets.find((b) => b.id === '1')?.profit, 1.82, 0.005);
+ok('Lost returns the stake', bets.find((b) => b.id === '2')?.profit === -2);
+ok('Pending has no profit', bets.find((b) => b.id === '4')?.profit === null);
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,117 @@
+// scripts/teams.test.ts — run with `npm run test:teams`
+// Team-name resolver: normalization, the pairwise rules (and the false
+// positives the old mascot / first-word matchers let through), registry
+// aliases from the override tables, and ambiguity — a name two teams could
+// claim resolves to neither.
+
+import {
+  buildRegistry, compareNames, lacrosseOverrideAliases, namesMatch, ncaabOverrideAliases,
+  normalizeName, resolveTeam, sameTeam,
+} from '../src/lib/teams';
+import { matchGameToScore, teamsMatch, type ESPNGameScore, type Game } from '../src/lib/api';
+import { matchOddsNameToTeam } from '../src/lib/powerRatings';
+import { findTeamByName } from '../src/lib/ratings/team-mapping';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function eq<T>(name: string, actual: T, expected: T) {
+  ok(name, actual === expected, `expected ${String(expected)}, got ${String(actual)}`);
+}
+
+console.log('Normalization');
+eq('State and St. agree', normalizeName('Michigan State'), normalizeName('Michigan St.'));
+eq('Saint and St. agree', normalizeName("Saint Mary's"), normalizeName("St. Mary's"));
+eq('A&M keeps its letters', normalizeName('Texas A&M'), 'texas am');
+eq('Parenthetical inline', normalizeName('Miami (OH)'), 'miami oh');
+eq('Accents stripped', normalizeName('San José State'), 'san jose st');
+eq('Initialisms spelled out', normalizeName('UCF Knights'), normalizeName('Central Florida Knights'));
+
+console.log('\nPairwise');
+eq('Exact', compareNames('Duke Blue Devils', 'duke blue devils').method, 'exact');
+eq('School + mascot', compareNames('Duke Blue Devils', 'Duke').method, 'school');
+eq('School + mascot with St.', compareNames('Ohio State Buckeyes', 'Ohio St.').method, 'school');
+eq('Unknown trailing word is a prefix', compareNames('Gonzaga Zagz', 'Gonzaga').method, 'prefix');
+eq('Abbreviated words', compareNames('Loyola (Chi) Ramblers', 'Loyola Chicago').method, 'words');
+eq('Kalshi initial', compareNames('Los Angeles C', 'Los Angeles Clippers').method, 'abbrev');
+eq('Nickname alone', compareNames('Lakers', 'Los Angeles Lakers').method, 'nickname');
+ok('Symmetric', compareNames('Duke', 'Duke Blue Devils').confidence === compareNames('Duke Blue Devils', 'Duke').confidence);
+ok('Shared mascot is not a match', !namesMatch('Yale Bulldogs', 'Georgia Bulldogs'));
+ok('Shared first word is not a match', !namesMatch('North Carolina Tar Heels', 'North Dakota Fighting Hawks'));
+ok('Shared city is not a match', !namesMatch('New York Giants', 'New York Jets'));
+ok('State school is a different school', !namesMatch('Tennessee State Tigers', 'Tennessee'));
+ok('Kansas City is not Kansas', !namesMatch('Kansas City Roos', 'Kansas'));
+ok('Miami (OH) is not Miami', !namesMatch('Miami (OH) RedHawks', 'Miami Hurricanes'));
+ok('Miami (OH) is Miami OH', namesMatch('Miami (OH) RedHawks', 'Miami OH'));
+ok('Kentucky is not Eastern Kentucky', !namesMatch('Kentucky', 'Eastern Kentucky Colonels'));
+ok('Mascot alone must be a known one', !namesMatch('Houston', 'Sam Houston'));
+ok('Texas St. is not Texas Southern', !namesMatch('Texas St.', 'Texas Southern Tigers'));
+eq('Two-letter Kalshi initials', compareNames('Chicago WS', 'Chicago White Sox').method, 'abbrev');
+ok('Kalshi initials pick the right club', !namesMatch('Chicago WS', 'Chicago Cubs'));
+
+console.log('\nResolve against a registry');
+const kenpom = ['Duke', 'North Carolina', 'North Carolina St.', 'Kansas', 'Kansas St.', 'Kansas City', 'Miami FL', 'Miami OH', 'Georgia', 'Yale'];
+const registry = buildRegistry('NCAAB', kenpom, ncaabOverrideAliases([
+  { sourceName: 'Miami Hurricanes', kenpomName: 'Miami FL', oddsApiName: 'Miami Hurricanes', torvikName: 'Miami FL' },
+  { sourceName: 'NC State Wolfpack', kenpomName: 'North Carolina St.', kalshiName: 'NC State' },
+]));
+let r = resolveTeam('Duke Blue Devils', registry);
+ok('Odds API name resolves to KenPom', r.team === 'Duke' && r.method === 'school' && !r.ambiguous, JSON.stringify(r));
+r = resolveTeam('Kansas State Wildcats', registry);
+eq('Longest school wins', r.team, 'Kansas St.');
+r = resolveTeam('Miami Hurricanes', registry, { source: 'odds_api' });
+ok('Override alias is certain', r.team === 'Miami FL' && r.method === 'alias' && r.confidence === 1);
+eq('Kalshi alias from its own column', resolveTeam('NC State', registry, { source: 'kalshi' }).team, 'North Carolina St.');
+eq('Tagged name finds its school', resolveTeam('Miami (OH) RedHawks', registry).team, 'Miami OH');
+r = resolveTeam('Bulldogs', registry);
+ok('Mascot alone resolves to nothing', r.team === null, JSON.stringify(r));
+eq('Unknown school resolves to nothing', resolveTeam('Gonzaga Bulldogs', registry).team, null);
+
+const board = ['Los Angeles Lakers', 'Los Angeles Clippers', 'Detroit Pistons'];
+r = resolveTeam('Los Angeles', board);
+ok('City two teams share is ambiguous', r.team === null && r.ambiguous && r.candidates.length === 2, JSON.stringify(r));
+eq('Kalshi initial disambiguates', resolveTeam('Los Angeles L', board).team, 'Los Angeles Lakers');
+eq('Kalshi city for a one-team city', resolveTeam('Detroit', board).team, 'Detroit Pistons');
+eq("Static alias: Kalshi A's", resolveTeam("A's", buildRegistry('MLB', ['Athletics', 'Texas Rangers']), { source: 'kalshi' }).team, 'Athletics');
+eq('Static alias: ESPN LA Clippers', resolveTeam('LA Clippers', buildRegistry('basketball_nba', ['Los Angeles Clippers', 'Los Angeles Lakers']), { source: 'espn' }).team, 'Los Angeles Clippers');
+
+eq("Futures sport key finds the league's aliases", resolveTeam("A's", buildRegistry('baseball_mlb_world_series_winner', ['Athletics', 'Houston Astros']), { source: 'kalshi' }).team, 'Athletics');
+
+const lax = buildRegistry('lacrosse', ['Syracuse', 'Johns Hopkins'], lacrosseOverrideAliases([
+  { sourceName: 'JHU Blue Jays', masseyName: 'Johns Hopkins', espnName: 'JHU Blue Jays' },
+]));
+eq('Lacrosse override alias', resolveTeam('JHU Blue Jays', lax, { source: 'espn' }).team, 'Johns Hopkins');
+
+console.log('\nOdds API ↔ ESPN');
+ok('LA Clippers', teamsMatch('Los Angeles Clippers', 'LA Clippers', 'basketball_nba'));
+ok('UConn', teamsMatch('Connecticut Huskies', 'UConn Huskies', 'basketball_ncaab'));
+ok('Ole Miss', teamsMatch('Mississippi Rebels', 'Ole Miss Rebels', 'basketball_ncaab'));
+ok('Grambling St', teamsMatch('Grambling St Tigers', 'Grambling Tigers', 'NCAAB'));
+ok('Grambling State', teamsMatch('Grambling State', 'Grambling St', 'NCAAB'));
+ok('Brighton', teamsMatch('Brighton and Hove Albion', 'Brighton & Hove Albion', 'soccer_epl'));
+ok('Aliases stay in their league', !sameTeam('Mississippi State Bulldogs', 'Ole Miss Rebels', 'basketball_ncaab'));
+ok('Aliased team is not its neighbour', !teamsMatch('Los Angeles Lakers', 'LA Clippers', 'basketball_nba'));
+const espnRow = (homeTeam: string, awayTeam: string): ESPNGameScore => ({
+  homeTeam, awayTeam, homeScore: '101', awayScore: '99', homeLogo: '', awayLogo: '',
+  period: 4, displayClock: '0:00', state: 'post', statusDetail: 'Final',
+});
+const oddsGame: Game = {
+  id: 'g', sport_key: 'basketball_nba', sport_title: 'NBA', commence_time: new Date(Date.now() - 3_600_000).toISOString(),
+  home_team: 'Los Angeles Clippers', away_team: 'Denver Nuggets', bookmakers: [],
+};
+ok('Score attaches to the Clippers game', matchGameToScore(oddsGame, [espnRow('LA Clippers', 'Denver Nuggets')]) !== null);
+
+console.log('\nWrappers');
+eq('powerRatings override', matchOddsNameToTeam('Miami Hurricanes', ['Miami (FL)', 'Miami (OH)']), 'Miami (FL)');
+eq('powerRatings longest school', matchOddsNameToTeam('Oregon State Beavers', ['Oregon', 'Oregon State']), 'Oregon State');
+eq('powerRatings no different school', matchOddsNameToTeam('Tennessee State Tigers', ['Tennessee']), null);
+const ratings = new Map([['Michigan St.', 20.1], ['Michigan', 18.4]]);
+eq('findTeamByName via resolver', findTeamByName('Michigan State Spartans', ratings)?.name, 'Michigan St.');
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,118 @@
+// scripts/totals.test.ts — run with `npm run test:totals`
+// Totals model: KenPom seeding, the pace × efficiency projection, moving
+// efficiencies toward the closing total, replay resets, and reading the
+// closing total off an Odds API snapshot.
+
+import {
+  applyTotalsGame,
+  extractClosingTotal,
+  hasTotals,
+  projectTotal,
+  resetTotals,
+  seedTotals,
+  totalsBaseline,
+} from '../src/lib/ratings/totals';
+import { initializeRatings } from '../src/lib/ratings/engine';
+import type { KenPomRating, OddsAPIGame, TeamRating } from '../src/lib/ratings/types';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+function team(name: string, offense: number, defense: number, tempo: number): TeamRating {
+  const rating: TeamRating = {
+    teamName: name, kenpomName: name, rating: 0, initialRating: 0, gamesProcessed: 0, lastUpdated: '',
+  };
+  seedTotals(rating, { AdjOE: offense, AdjDE: defense, AdjTempo: tempo });
+  return rating;
+}
+
+console.log('Seeding');
+const kenpom = [
+  { TeamName: 'Duke', AdjEM: 25, AdjOE: 120, AdjDE: 95, AdjTempo: 68 },
+] as KenPomRating[];
+const seeded = initializeRatings(kenpom).get('Duke')!;
+ok('initializeRatings seeds totals from KenPom', hasTotals(seeded));
+close('Offense from AdjOE', seeded.offense, 120, 1e-9);
+close('Defense seed kept for replays', seeded.initialDefense, 95, 1e-9);
+const legacy: TeamRating = { teamName: 'Old', kenpomName: 'Old', rating: 0, initialRating: 0, gamesProcessed: 0, lastUpdated: '' };
+ok('Rows without totals are recognised', !hasTotals(legacy));
+
+console.log('Baseline');
+const baseline = totalsBaseline([team('A', 110, 100, 70), team('B', 100, 90, 66), legacy])!;
+close('Average efficiency over offense and defense seeds', baseline.efficiency, 100, 1e-9);
+close('Average tempo', baseline.tempo, 68, 1e-9);
+ok('No totals ratings → no baseline', totalsBaseline([legacy]) === null);
+
+console.log('Projection');
+const flat = { efficiency: 100, tempo: 70 };
+const even = projectTotal(team('H', 100, 100, 70), team('A', 100, 100, 70), flat)!;
+close('Average teams: 70 possessions', even.possessions, 70, 1e-9);
+close('Average teams: 70 points each', even.homePoints, 70, 1e-9);
+close('Average teams: total 140', even.total, 140, 1e-9);
+
+// Fast, good offense vs slow, poor defense: 80 × 60 / 70 possessions
+const mixed = projectTotal(team('H', 115, 100, 80), team('A', 100, 105, 60), flat)!;
+close('Possessions multiply tempos over the average', mixed.possessions, 68.6, 0.05);
+close('Home points: offense × opposing defense', mixed.homePoints, 68.57 * 1.15 * 1.05, 0.1);
+close('Away points', mixed.awayPoints, 68.57, 0.1);
+ok('Missing totals → no projection', projectTotal(legacy, team('A', 100, 100, 70), flat) === null);
+
+console.log('Adjustment');
+const home = team('H', 100, 100, 70);
+const away = team('A', 100, 100, 70);
+const record = applyTotalsGame(home, away, 150, flat)!;
+close('Records the projection before the game', record.projectedTotal, 140, 1e-9);
+close('Records the close', record.closingTotal, 150, 1e-9);
+close('Each term moves 2 × 0.5 × 10 / 2.8', record.totalAdjustment, 3.57, 1e-9);
+close('Offenses move up', home.offense, 103.57, 1e-9);
+close('Defenses move up (allow more)', away.defense, 103.57, 1e-9);
+close('Tempo is left at its seed', home.tempo, 70, 1e-9);
+close('At half the gap (nearly) closes', projectTotal(home, away, flat)!.total, 150, 0.3);
+
+const homeQuarter = team('H', 100, 100, 70);
+const awayQuarter = team('A', 100, 100, 70);
+close('Fraction scales the move', applyTotalsGame(homeQuarter, awayQuarter, 150, flat, 0.25)!.totalAdjustment, 1.79, 0.01);
+const under = applyTotalsGame(team('H', 100, 100, 70), team('A', 100, 100, 70), 130, flat)!;
+ok('A lower close moves efficiencies down', under.totalAdjustment < 0);
+
+const untouched = team('A', 100, 100, 70);
+ok('Missing totals → no adjustment', applyTotalsGame(legacy, untouched, 150, flat) === null);
+close('…and the other team is untouched', untouched.offense, 100, 1e-9);
+
+resetTotals(home);
+close('resetTotals restores the seed', home.offense, 100, 1e-9);
+resetTotals(legacy);
+ok('resetTotals leaves legacy rows alone', legacy.offense === undefined);
+
+console.log('Closing total');
+const oddsGame: OddsAPIGame = {
+  id: 'x', sport_key: 'basketball_ncaab', sport_title: 'NCAAB', commence_time: '2026-01-10T00:00:00Z',
+  home_team: 'Duke Blue Devils', away_team: 'Wake Forest Demon Deacons',
+  bookmakers: [
+    { key: 'draftkings', title: 'DraftKings', last_update: '', markets: [
+      { key: 'totals', last_update: '', outcomes: [{ name: 'Over', price: -110, point: 145.5 }, { name: 'Under', price: -110, point: 145.5 }] },
+    ] },
+    { key: 'fanduel', title: 'FanDuel', last_update: '', markets: [
+      { key: 'totals', last_update: '', outcomes: [{ name: 'Over', price: -110, point: 146.5 }, { name: 'Under', price: -110, point: 146.5 }] },
+    ] },
+    { key: 'betmgm', title: 'BetMGM', last_update: '', markets: [
+      { key: 'spreads', last_update: '', outcomes: [{ name: 'Duke Blue Devils', price: -110, point: -8 }] },
+    ] },
+  ],
+};
+const closing = extractClosingTotal(oddsGame);
+close('Averages the Over line across books', closing.total, 146, 1e-9);
+ok('Lists the books used', closing.bookmakers.join(',') === 'DraftKings,FanDuel', closing.bookmakers.join(','));
+ok('No totals market → null', extractClosingTotal({ ...oddsGame, bookmakers: [oddsGame.bookmakers[2]] }).total === null);
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
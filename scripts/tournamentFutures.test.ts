@@ -0,0 +1,91 @@
+// scripts/tournamentFutures.test.ts — run with `npm run test:tournamentFutures`
+// Tournament futures value: which bracket round a market pays on, devigging
+// outright boards to the number of winners, the median across books, and
+// EV / Kelly at the best price.
+
+import {
+  bestQuote,
+  devigOutrights,
+  futuresValue,
+  marketRound,
+  tournamentMarkets,
+  type FuturesQuote,
+} from '../src/lib/tournamentFutures';
+import { americanToProb, expectedValue } from '../src/lib/props/engine';
+import { kellyFraction } from '../src/lib/bankroll';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+const games = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+console.log('Markets');
+ok('NCAA lists only markets with a price source', tournamentMarkets('NCAA').map(m => m.key).join(',') === 'champion');
+ok('Other brackets only have a champion', tournamentMarkets('ACC').map(m => m.key).join(',') === 'champion');
+
+// NCAA: First Four (4 games), then 32, 16, 8, 4, 2, 1
+const ncaa = [0, 1, 2, 3, 4, 5, 6].map((round, i) => ({ round, matchups: games([4, 32, 16, 8, 4, 2, 1][i]) }));
+ok('Final Four is the Elite Eight round, not the First Four', marketRound(ncaa, 4) === 4);
+ok('Champion is the title game', marketRound(ncaa, 1) === 6);
+const eight = [1, 2, 3].map((round, i) => ({ round, matchups: games([4, 2, 1][i]) }));
+ok('Conference bracket champion round', marketRound(eight, 1) === 3);
+ok('No round with that many games → null', marketRound(eight, 16) === null);
+
+console.log('Devig');
+// +100 / +100 / +300: implied 0.5 + 0.5 + 0.25 = 1.25
+const book: FuturesQuote[] = [
+  { team: 'A', book: 'DK', odds: 100 },
+  { team: 'B', book: 'DK', odds: 100 },
+  { team: 'C', book: 'DK', odds: 300 },
+];
+const dk = devigOutrights(book, 1).get('DK')!;
+close('Scales the board to one winner', dk.get('A'), 0.4, 1e-9);
+close('…proportionally', dk.get('C'), 0.2, 1e-9);
+
+// Four winners: implied 0.8 × 6 = 4.8
+const f4 = devigOutrights(games(6).map(i => ({ team: `T${i}`, book: 'FD', odds: -400 })), 4).get('FD')!;
+close('Scales to four winners', f4.get('T0'), 4 / 6, 1e-9);
+
+// A partial board (only two favourites) sums under one — left as quoted
+const partial = devigOutrights([{ team: 'A', book: 'MGM', odds: 300 }, { team: 'B', book: 'MGM', odds: 400 }], 1).get('MGM')!;
+close('Partial board left unscaled', partial.get('A'), americanToProb(300), 1e-9);
+
+console.log('Best price');
+const quotes: FuturesQuote[] = [
+  ...book,
+  { team: 'A', book: 'FD', odds: 120 },
+  { team: 'B', book: 'FD', odds: 110 },
+  { team: 'C', book: 'FD', odds: 250 },
+  { team: 'A', book: 'Kalshi', odds: 105, link: 'https://kalshi.com/x' },
+];
+ok('Highest price wins', bestQuote(quotes, 'A')?.book === 'FD');
+ok('Unquoted team → null', bestQuote(quotes, 'Z') === null);
+
+console.log('Value rows');
+const model = new Map([['A', 0.5], ['B', 0.3], ['C', 0.2], ['D', 0.0001]]);
+const rows = futuresValue(model, quotes, 1);
+const a = rows.find(r => r.team === 'A')!;
+ok('One row per model team', rows.length === 4);
+ok('Books counted per team', a.books === 3, `${a.books}`);
+const kalshiA = americanToProb(105);  // Kalshi's one-team board sums under one
+const fdTotal = americanToProb(120) + americanToProb(110) + americanToProb(250);
+close('Market is the median no-vig across books', a.marketProb, [0.4, americanToProb(120) / fdTotal, kalshiA].sort((x, y) => x - y)[1], 1e-9);
+close('EV at the best price', a.ev, expectedValue(0.5, 120), 1e-9);
+close('Kelly at the best price', a.kelly, kellyFraction(0.5, 120), 1e-9);
+ok('Best EV first', rows[0].team === 'A', rows.map(r => r.team).join(','));
+const c = rows.find(r => r.team === 'C')!;
+ok('Model under the price: negative EV, no Kelly', c.ev! < 0 && c.kelly === 0);
+const d = rows[rows.length - 1];
+ok('Unquoted teams sort last with no market', d.team === 'D' && d.marketProb === null && d.ev === null && d.best === null);
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,242 @@
+// scripts/tournamentModel.test.ts — run with `npm run test:tournamentModel`
+// Torvik tournament model: CSV parsing, rebuilding games from seeds and
+// tourney_wins, the no-intercept logistic fit, leave-one-year-out scoring
+// and the conversion to bracket ratings — on synthetic seasons and on the
+// real datasets in data/, with the men's results filled in from game scores.
+
+import fs from 'fs';
+import path from 'path';
+import {
+  applyTournamentResults,
+  fitTournamentModel,
+  leaveOneYearOut,
+  matchupProb,
+  modelRatings,
+  parseTournamentCsv,
+  teamScore,
+  tournamentGames,
+  type TorvikTournamentTeam,
+  type TournamentResult,
+} from '../src/lib/tournamentModel';
+import { WIN_PROB_LOGIT_PER_POINT } from '../src/lib/ratings/constants';
+import { buildRegistry, resolveTeam } from '../src/lib/teams';
+
+let passed = 0;
+let failed = 0;
+
+function ok(name: string, cond: boolean, detail?: string) {
+  if (cond) { passed++; console.log(`  ✓ ${name}`); }
+  else { failed++; console.error(`  ✗ ${name}${detail ? ` — ${detail}` : ''}`); }
+}
+
+function close(name: string, actual: number | null | undefined, expected: number, tol: number) {
+  ok(name, actual !== null && actual !== undefined && Math.abs(actual - expected) <= tol, `expected ${expected}, got ${actual}`);
+}
+
+console.log('CSV');
+const csv = [
+  'year,team,conf,region,seed,tourney_wins,talent,reg_AdjOE,reg_Rec',
+  '2024,"Texas A&M, Corpus Christi",SLND,South,16,0,10.5,101.2,="20-13"',
+  '2024,Houston,B12,South,1,,88,118.5,="30-4"',
+].join('\n');
+const parsed = parseTournamentCsv(csv);
+ok('One team per row', parsed.length === 2);
+ok('Quoted names keep their comma', parsed[0].team === 'Texas A&M, Corpus Christi', parsed[0].team);
+close('Numeric stats parsed', parsed[0].stats.reg_AdjOE, 101.2, 1e-9);
+ok('Records are not stats', parsed[0].stats.reg_Rec === undefined);
+ok('Wins read from tourney_wins', parsed[0].wins === 0);
+ok('Blank wins → null (results not in)', parsed[1].wins === null);
+
+// ---------- synthetic tournaments ----------
+// Four regions of 16 plus a First Four pair on the South 16 line. Strength
+// mostly follows seed but not always; the stronger team always wins.
+const SLOTS = [1, 16, 8, 9, 5, 12, 4, 13, 6, 11, 3, 14, 7, 10, 2, 15];
+const REGIONS = ['East', 'West', 'South', 'Midwest'];
+
+function season(year: number): TorvikTournamentTeam[] {
+  const strength = new Map<TorvikTournamentTeam, number>();
+  const teams: TorvikTournamentTeam[] = [];
+  const make = (region: string, seed: number, extra = '') => {
+    const s = 17 - seed + (((seed * 7 + region.length * 3 + year) % 5) - 2) * 1.6 + (extra ? -0.5 : 0);
+    const t: TorvikTournamentTeam = {
+      year, team: `${region} ${seed}${extra} ${year}`, conf: 'X', region, seed, wins: 0,
+      stats: { reg_AdjOE: 105 + s / 2, reg_AdjDE: 100 - s / 2, reg_Adj_T: 66 + (seed % 4), talent: 40 + s, reg_3PR: 35 },
+    };
+    strength.set(t, s);
+    teams.push(t);
+    return t;
+  };
+
+  const champs: TorvikTournamentTeam[] = [];
+  for (const region of REGIONS) {
+    let field = SLOTS.map((seed) => make(region, seed));
+    if (region === 'South') {
+      // First Four: the weaker 16 goes home without a main-draw win
+      const rival = make(region, 16, 'b');
+      if (strength.get(rival)! > strength.get(field[1])!) field[1] = rival;
+    }
+    while (field.length > 1) {
+      const next: TorvikTournamentTeam[] = [];
+      for (let i = 0; i < field.length; i += 2) {
+        const w = strength.get(field[i])! > strength.get(field[i + 1])! ? field[i] : field[i + 1];
+        w.wins!++;
+        next.push(w);
+      }
+      field = next;
+    }
+    champs.push(field[0]);
+  }
+  const semis = [champs.slice(0, 2), champs.slice(2)].map(([a, b]) => (strength.get(a)! > strength.get(b)! ? a : b));
+  for (const s of semis) s.wins!++;
+  semis.reduce((a, b) => (strength.get(a)! > strength.get(b)! ? a : b)).wins!++;
+  return teams;
+}
+
+const history = [2015, 2016, 2017, 2018].flatMap(season);
+
+console.log('Games');
+const games = tournamentGames(history);
+const perYear = games.filter((g) => g.year === 2015);
+// 4 × 15 regional games + the title game (semifinal pairings aren't in the
+// data), less the South 1 v 16: both 16s finished on zero wins, so which one
+// played it is unknown
+ok('Every regional game plus the final', perYear.length === 60, `${perYear.length}`);
+ok('Unresolved First Four pair drops only its first game', perYear.filter((g) => g.a.region === 'South').length === 14);
+ok('No First Four game or semifinal', perYear.every((g) => g.round >= 1 && g.round !== 5));
+ok('Winners are the teams that went further', perYear.every((g) => (g.aWon ? g.a : g.b).wins! >= g.round));
+const title = perYear.find((g) => g.round === 6)!;
+ok('Title game winner is the champion', (title.aWon ? title.a : title.b).wins === 6);
+ok('No results → no games', tournamentGames(history.map((t) => ({ ...t, wins: null }))).length === 0);
+const broken = history.filter((t) => t.year === 2015 && !(t.region === 'East' && t.seed === 8));
+const brokenGames = tournamentGames(broken);
+ok('A region missing a seed line is skipped', brokenGames.length === 44 && !brokenGames.some((g) => g.a.region === 'East'), `${brokenGames.length}`);
+ok('…and with it the title game', !brokenGames.some((g) => g.round === 6));
+
+console.log('Fit');
+const model = fitTournamentModel(games);
+const weight = (label: string) => model.weights[model.features.findIndex((f) => f.label === label)];
+ok('Better offense helps', weight('AdjOE') > 0, `${weight('AdjOE')}`);
+ok('Worse defense hurts', weight('AdjDE') < 0, `${weight('AdjDE')}`);
+ok('Constant column gets no weight', weight('3PR') === 0);
+const [east1, east16] = [history[0], history[1]];
+const p = matchupProb(model, east1, east16);
+close('Symmetric: P(a, b) + P(b, a) = 1', p + matchupProb(model, east16, east1), 1, 1e-12);
+ok('The 1 seed is a heavy favourite', p > 0.9, `${p}`);
+
+console.log('Validation');
+const validation = leaveOneYearOut(games);
+ok('One held-out score per year', validation.years.map((y) => y.year).join(',') === '2015,2016,2017,2018');
+ok('Every game is held out once', validation.model.games === games.length);
+ok('Stats beat seed alone on log loss', validation.model.logLoss < validation.seed.logLoss,
+  `${validation.model.logLoss.toFixed(3)} vs ${validation.seed.logLoss.toFixed(3)}`);
+ok('Stats beat seed alone on accuracy', validation.model.accuracy > validation.seed.accuracy,
+  `${validation.model.accuracy.toFixed(3)} vs ${validation.seed.accuracy.toFixed(3)}`);
+
+console.log('Ratings');
+const field = season(2026).map((t) => ({ ...t, wins: null }));
+const ratings = modelRatings(model, field);
+const values = [...ratings.values()];
+close('Centred on the field', values.reduce((a, b) => a + b, 0) / values.length, 0, 1e-9);
+const [a, b] = [field[0], field[4]];
+close('Rating gap reproduces the model on the bracket curve',
+  1 / (1 + Math.exp(-WIN_PROB_LOGIT_PER_POINT * (ratings.get(a.team)! - ratings.get(b.team)!))),
+  matchupProb(model, a, b), 1e-9);
+close('Missing stats sit at the mean', teamScore(model, { ...a, stats: {} }), 0, 1e-12);
+
+console.log('Real rows');
+const readDataset = (file: string) =>
+  parseTournamentCsv(fs.readFileSync(path.join(__dirname, '..', 'data', file), 'utf8'));
+
+const women = readDataset('torvik-tournament-dataset-women.csv');
+const womenGames = tournamentGames(women.filter((t) => t.year !== 2026));
+const womenSeasons = [...new Set(womenGames.map((g) => g.year))];
+ok('Women: every finished season rebuilds games', womenSeasons.length === 4 && womenGames.length > 200, `${womenSeasons}: ${womenGames.length}`);
+const womenModel = fitTournamentModel(womenGames);
+ok('Women: fit has finite weights', womenModel.weights.every(Number.isFinite), `${womenModel.weights}`);
+const womenValidation = leaveOneYearOut(womenGames);
+ok('Women: every season held out once', womenValidation.years.length === 4);
+ok('Women: held-out model beats a coin flip',
+  womenValidation.model.accuracy > 0.6 && womenValidation.model.logLoss < Math.log(2),
+  `${womenValidation.model.accuracy} / ${womenValidation.model.logLoss}`);
+const womenField = modelRatings(womenModel, women.filter((t) => t.year === 2026));
+ok('Women: 2026 field rated', womenField.size === 68 && [...womenField.values()].every(Number.isFinite));
+
+// 2024 men's tournament as ESPN names it (winner first)
+const men2024: [string, string][] = [
+  // First Four
+  ['Wagner Seahawks', 'Howard Bison'], ['Colorado Buffaloes', 'Boise State Broncos'],
+  ['Grambling Tigers', 'Montana State Bobcats'], ['Colorado State Rams', 'Virginia Cavaliers'],
+  // East
+  ['UConn Huskies', 'Stetson Hatters'], ['Northwestern Wildcats', 'Florida Atlantic Owls'],
+  ['San Diego State Aztecs', 'UAB Blazers'], ['Yale Bulldogs', 'Auburn Tigers'],
+  ['Duquesne Dukes', 'BYU Cougars'], ['Illinois Fighting Illini', 'Morehead State Eagles'],
+  ['Washington State Cougars', 'Drake Bulldogs'], ['Iowa State Cyclones', 'South Dakota State Jackrabbits'],
+  ['UConn Huskies', 'Northwestern Wildcats'], ['San Diego State Aztecs', 'Yale Bulldogs'],
+  ['Illinois Fighting Illini', 'Duquesne Dukes'], ['Iowa State Cyclones', 'Washington State Cougars'],
+  ['UConn Huskies', 'San Diego State Aztecs'], ['Illinois Fighting Illini', 'Iowa State Cyclones'],
+  ['UConn Huskies', 'Illinois Fighting Illini'],
+  // West
+  ['North Carolina Tar Heels', 'Wagner Seahawks'], ['Michigan State Spartans', 'Mississippi State Bulldogs'],
+  ['Grand Canyon Lopes', "Saint Mary's Gaels"], ['Alabama Crimson Tide', 'Charleston Cougars'],
+  ['Clemson Tigers', 'New Mexico Lobos'], ['Baylor Bears', 'Colgate Raiders'],
+  ['Dayton Flyers', 'Nevada Wolf Pack'], ['Arizona Wildcats', 'Long Beach State Beach'],
+  ['North Carolina Tar Heels', 'Michigan State Spartans'], ['Alabama Crimson Tide', 'Grand Canyon Lopes'],
+  ['Clemson Tigers', 'Baylor Bears'], ['Arizona Wildcats', 'Dayton Flyers'],
+  ['Alabama Crimson Tide', 'North Carolina Tar Heels'], ['Clemson Tigers', 'Arizona Wildcats'],
+  ['Alabama Crimson Tide', 'Clemson Tigers'],
+  // South
+  ['Houston Cougars', 'Longwood Lancers'], ['Texas A&M Aggies', 'Nebraska Cornhuskers'],
+  ['James Madison Dukes', 'Wisconsin Badgers'], ['Duke Blue Devils', 'Vermont Catamounts'],
+  ['NC State Wolfpack', 'Texas Tech Red Raiders'], ['Oakland Golden Grizzlies', 'Kentucky Wildcats'],
+  ['Colorado Buffaloes', 'Florida Gators'], ['Marquette Golden Eagles', 'Western Kentucky Hilltoppers'],
+  ['Houston Cougars', 'Texas A&M Aggies'], ['Duke Blue Devils', 'James Madison Dukes'],
+  ['NC State Wolfpack', 'Oakland Golden Grizzlies'], ['Marquette Golden Eagles', 'Colorado Buffaloes'],
+  ['Duke Blue Devils', 'Houston Cougars'], ['NC State Wolfpack', 'Marquette Golden Eagles'],
+  ['NC State Wolfpack', 'Duke Blue Devils'],
+  // Midwest
+  ['Purdue Boilermakers', 'Grambling Tigers'], ['Utah State Aggies', 'TCU Horned Frogs'],
+  ['Gonzaga Bulldogs', 'McNeese Cowboys'], ['Kansas Jayhawks', 'Samford Bulldogs'],
+  ['Oregon Ducks', 'South Carolina Gamecocks'], ['Creighton Bluejays', 'Akron Zips'],
+  ['Texas Longhorns', 'Colorado State Rams'], ['Tennessee Volunteers', "Saint Peter's Peacocks"],
+  ['Purdue Boilermakers', 'Utah State Aggies'], ['Gonzaga Bulldogs', 'Kansas Jayhawks'],
+  ['Creighton Bluejays', 'Oregon Ducks'], ['Tennessee Volunteers', 'Texas Longhorns'],
+  ['Purdue Boilermakers', 'Gonzaga Bulldogs'], ['Tennessee Volunteers', 'Creighton Bluejays'],
+  ['Purdue Boilermakers', 'Tennessee Volunteers'],
+  // Final Four
+  ['UConn Huskies', 'Alabama Crimson Tide'], ['Purdue Boilermakers', 'NC State Wolfpack'],
+  ['UConn Huskies', 'Purdue Boilermakers'],
+];
+const results2024: TournamentResult[] = men2024.map(([winner, loser], i) => ({ year: 2024, winner, loser, firstFour: i < 4 }));
+
+const men = readDataset('torvik-tournament-dataset.csv');
+ok("Men: the CSV ships without results", men.every((t) => t.wins === null));
+const field2024 = buildRegistry('NCAAB', men.filter((t) => t.year === 2024).map((t) => t.team));
+const espnToTorvik = (_year: number, name: string) => resolveTeam(name, field2024, { source: 'espn' }).team;
+
+const applied = applyTournamentResults(men, results2024, espnToTorvik);
+const wins2024 = (team: string) => applied.teams.find((t) => t.year === 2024 && t.team === team)?.wins;
+ok('Men: every ESPN name resolves to the 2024 field', applied.unmatched.length === 0, applied.unmatched.join(', '));
+ok('Men: 2024 filled', applied.seasons.length === 1 && applied.seasons[0] === 2024);
+ok('Men: champion 6, runner-up 5', wins2024('Connecticut') === 6 && wins2024('Purdue') === 5);
+ok('Men: semifinal losers 4', wins2024('Alabama') === 4 && wins2024('N.C. State') === 4);
+ok('Men: First Four win is not a main-draw win', wins2024('Wagner') === 0 && wins2024('Howard') === 0 && wins2024('Colorado') === 1);
+ok('Men: other seasons untouched', applied.teams.filter((t) => t.year !== 2024).every((t) => t.wins === null));
+
+const menGames = tournamentGames(applied.teams.filter((t) => t.year === 2024));
+// Unknown: the semifinals and the three round-of-64 games whose First Four pair both lost
+ok('Men: 2024 rebuilds the known games', menGames.length === 58, `${menGames.length}`);
+ok('Men: a First Four winner that went on plays its round-of-64 game',
+  menGames.some((g) => g.round === 1 && [g.a.team, g.b.team].sort().join('/') === 'Colorado/Florida'));
+const titleGame = menGames.find((g) => g.round === 6);
+ok('Men: title game is UConn over Purdue', !!titleGame && (titleGame.aWon ? titleGame.a : titleGame.b).team === 'Connecticut');
+const menModel = fitTournamentModel(menGames);
+ok('Men: fit on real rows', menModel.games === 58 && menModel.weights.every(Number.isFinite));
+
+const missingGame = applyTournamentResults(men, results2024.slice(0, -1), espnToTorvik);
+ok('Men: a missing game leaves the season empty', missingGame.seasons.length === 0 && missingGame.teams.every((t) => t.wins === null));
+const unknownName = applyTournamentResults(men, [...results2024.slice(0, -1), { year: 2024, winner: 'UConn Huskies', loser: 'Nowhere State Ghosts', firstFour: false }], espnToTorvik);
+ok('Men: an unknown name is reported and the season skipped',
+  unknownName.seasons.length === 0 && unknownName.unmatched.includes('2024: Nowhere State Ghosts'), unknownName.unmatched.join(', '));
+
+console.log(`\n${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
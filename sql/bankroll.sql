@@ -0,0 +1,28 @@
+-- sql/bankroll.sql
+-- Bankroll for the bet tracker: a ledger of deposits and withdrawals (the
+-- starting bankroll is the first deposit) and a single settings row for unit
+-- size and Kelly sizing. Read by src/lib/bankrollService.ts; the curve and
+-- drawdown math is src/lib/bankroll.ts. Run once in the Supabase SQL editor.
+-- Pattern matches bets: no RLS, anon key has full access.
+
+create table if not exists bankroll_ledger (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  date date not null,
+  kind text not null check (kind in ('deposit', 'withdrawal')),
+  amount numeric not null check (amount > 0),   -- dollars
+  note text
+);
+
+create index if not exists bankroll_ledger_date on bankroll_ledger (date);
+
+create table if not exists bankroll_settings (
+  id int primary key default 1 check (id = 1),  -- single row
+  unit_mode text not null default 'fixed' check (unit_mode in ('fixed', 'percent')),
+  unit_value numeric not null default 100,      -- dollars per unit, or % of bankroll
+  kelly_multiplier numeric not null default 0.25,
+  max_bet_pct numeric not null default 5,
+  updated_at timestamptz not null default now()
+);
+
+insert into bankroll_settings (id) values (1) on conflict (id) do nothing;
@@ -0,0 +1,14 @@
+-- sql/bet_legs.sql
+-- Structured parlay / teaser legs on tracked bets. Each leg is a straight bet
+-- on its own game (sport, league, event date, teams, market, selection, line,
+-- price) graded on its own by /api/bets/settle; see src/lib/betLegs.ts.
+-- teaser_points is the tease applied to every leg; payout_odds is the reduced
+-- price settlement paid a ticket at after a leg pushed. Run once in the
+-- Supabase SQL editor.
+
+alter table bets add column if not exists legs jsonb;               -- BetLeg[]; null for straight bets and legacy parlays
+alter table bets add column if not exists teaser_points numeric;    -- teasers only, e.g. 6
+alter table bets add column if not exists payout_odds integer;      -- reduced price paid after a pushed leg; odds stays the ticket price
+
+-- Leg search: "every parlay with a Chiefs leg"
+create index if not exists bets_legs_gin on bets using gin (legs jsonb_path_ops);
@@ -0,0 +1,9 @@
+-- sql/bets_clv.sql
+-- Closing Line Value on tracked bets: the close of each bet's exact market,
+-- filled in after tip by /api/bets/closing (see src/lib/clvCapture.ts).
+-- Run once in the Supabase SQL editor.
+
+alter table bets add column if not exists closing_line real;         -- closing number for the wagered side
+alter table bets add column if not exists closing_odds int;          -- closing price at the bet's book, same number
+alter table bets add column if not exists closing_source text;       -- closing_lines | us_average | bookmaker key
+alter table bets add column if not exists closing_captured_at timestamptz;
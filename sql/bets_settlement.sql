@@ -0,0 +1,7 @@
+-- sql/bets_settlement.sql
+-- Automatic settlement: why a pending bet was left for hand grading, and when
+-- a bet was auto-graded. Written by /api/bets/settle (see
+-- src/lib/settleBets.ts). Run once in the Supabase SQL editor.
+
+alter table bets add column if not exists review_reason text;       -- null = not in the review queue
+alter table bets add column if not exists settled_at timestamptz;   -- set by auto-settlement only
@@ -0,0 +1,26 @@
+-- sql/consensus_projections.sql
+-- Every system's projected home spread for the games /api/consensus/log has
+-- priced, kept at its last pre-game value and graded against the close once
+-- the game starts. FEI and Eckel have no stored history of their own, so this
+-- log is what their consensus weights learn from (src/lib/consensusRunner.ts).
+-- Run once in the Supabase SQL editor.
+--
+-- No RLS, matching odds_snapshots / power_rating_sets — the app runs anon-key-only.
+
+create table if not exists consensus_projections (
+  id bigint generated always as identity primary key,
+  game_id text not null,              -- Odds API event id
+  sport_key text not null,
+  system text not null,               -- market | kenpom | torvik | fei | eckel | massey | powers:<source>
+  home_team text not null,
+  away_team text not null,
+  commence_time timestamptz not null,
+  projected_spread real not null,     -- home spread in the sport's margin unit
+  closing_spread real,                -- consensus close, filled after tip
+  closing_checked_at timestamptz,     -- set once grading was attempted
+  updated_at timestamptz not null default now(),
+  unique (game_id, system)
+);
+
+create index if not exists consensus_projections_sport_idx
+  on consensus_projections (sport_key, commence_time desc);
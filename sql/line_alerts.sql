@@ -0,0 +1,47 @@
+-- sql/line_alerts.sql
+-- Line-move / steam alerts: the rules edited at /admin/line-alerts and a log
+-- of every alert posted, keyed so the cron (/api/send-line-alerts) never posts
+-- the same event twice. Detection lives in src/lib/lineAlerts.ts. Run once in
+-- the Supabase SQL editor.
+--
+-- No RLS, matching odds_snapshots / power_rating_sets — the app runs anon-key-only.
+
+create table if not exists line_alert_rules (
+  id bigint generated always as identity primary key,
+  kind text not null,               -- move | steam | kalshi | projection
+  sport_key text not null,          -- Odds API key, e.g. basketball_ncaab
+  market text not null,             -- spreads | totals
+  threshold real not null,          -- points; meaning per kind
+  window_minutes int not null default 60,
+  min_books int not null default 1, -- steam only
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists line_alerts_sent (
+  key text primary key,             -- LineAlert.key
+  kind text not null,
+  sport_key text not null,
+  game_id text not null,
+  market text not null,
+  home_team text not null,
+  away_team text not null,
+  detail text not null,
+  sent_at timestamptz not null default now()
+);
+
+create index if not exists idx_line_alerts_sent_time on line_alerts_sent (sent_at desc);
+
+-- Seed: DEFAULT_LINE_ALERT_RULES
+insert into line_alert_rules (kind, sport_key, market, threshold, window_minutes, min_books)
+select * from (values
+  ('move', 'basketball_ncaab', 'spreads', 1.5, 60, 1),
+  ('move', 'basketball_ncaab', 'totals', 2, 60, 1),
+  ('steam', 'basketball_ncaab', 'spreads', 0.5, 10, 3),
+  ('kalshi', 'basketball_ncaab', 'spreads', 1.5, 0, 1),
+  ('projection', 'basketball_ncaab', 'spreads', 0.5, 60, 1),
+  ('move', 'americanfootball_nfl', 'spreads', 1.5, 120, 1),
+  ('steam', 'americanfootball_nfl', 'spreads', 0.5, 10, 3)
+) as seed (kind, sport_key, market, threshold, window_minutes, min_books)
+where not exists (select 1 from line_alert_rules);
@@ -0,0 +1,53 @@
+-- sql/market_ratings.sql
+-- Closing-line market ratings for every sport on the shared engine without
+-- its own tables (NBA, NHL, NFL, NCAAF — SPORT_RATINGS in
+-- src/lib/ratings/sports.ts). Same columns as the lacrosse_* tables plus a
+-- sport column (Odds API sport key) that scopes every row. Read and written
+-- by src/lib/ratings/store.ts. Run once in the Supabase SQL editor.
+-- Pattern matches the lacrosse ratings tables: no RLS, anon key has full access.
+
+create table if not exists market_ratings (
+  sport text not null,
+  season int not null,
+  team_name text not null,                 -- Odds API name (flat seed) or seed source name
+  seed_name text not null,
+  rating numeric not null,                 -- neutral-site rating in the sport's margin unit
+  initial_rating numeric not null,
+  games_processed int not null default 0,
+  conference text,
+  updated_at timestamptz not null default now(),
+  primary key (sport, season, team_name)
+);
+
+create table if not exists market_game_adjustments (
+  sport text not null,
+  game_id text not null,                   -- ESPN event id
+  season int not null,
+  game_date timestamptz not null,
+  home_team text not null,
+  away_team text not null,
+  is_neutral_site boolean not null default false,
+  projected_spread numeric not null,
+  closing_spread numeric not null,         -- home side; from the moneyline for h2h sports
+  closing_source text not null,
+  difference numeric not null,
+  adjustment numeric not null,
+  home_rating_before numeric not null,
+  home_rating_after numeric not null,
+  away_rating_before numeric not null,
+  away_rating_after numeric not null,
+  processed_at timestamptz not null default now(),
+  primary key (sport, game_id)
+);
+
+create index if not exists market_game_adjustments_season
+  on market_game_adjustments (sport, season, game_date);
+
+create table if not exists market_ratings_config (
+  sport text primary key,
+  hca numeric not null,
+  closing_source text not null,
+  season int not null,
+  last_processed_date date,
+  updated_at timestamptz not null default now()
+);
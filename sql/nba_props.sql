@@ -0,0 +1,46 @@
+-- sql/nba_props.sql
+-- NBA prop pricing: player game logs (uploaded box-score CSVs, parsed by
+-- src/lib/props/nbaLogs.ts) + derived SD-multiplier reference snapshot.
+-- Same shape as sql/nfl_props.sql. Run once in the Supabase SQL editor.
+--
+-- No RLS, matching nfl_player_game_logs / nfl_prop_reference — the app runs
+-- anon-key-only. Covered by the existing auth audit item.
+
+create table if not exists nba_player_game_logs (
+  id bigint generated always as identity primary key,
+  player_id text not null,          -- stats.nba.com PLAYER_ID (or a name slug when the file has none)
+  player_name text not null,
+  position text not null default '',
+  team text not null,
+  opponent text,
+  season int not null,              -- start year: 2024 = 2024-25
+  week int not null,                -- day of season (days since Sep 1), orders games like NFL weeks
+  season_type text not null,        -- REG | POST (playoffs + play-in)
+  game_date date not null,
+  minutes real,
+  points real,
+  rebounds real,
+  assists real,
+  threes real,
+  steals real,
+  blocks real,
+  turnovers real,
+  pts_reb_ast real,
+  pts_reb real,
+  pts_ast real,
+  reb_ast real,
+  created_at timestamptz not null default now(),
+  unique (player_id, season, week, season_type)
+);
+
+create index if not exists idx_nba_logs_player on nba_player_game_logs (player_id);
+create index if not exists idx_nba_logs_name on nba_player_game_logs (player_name);
+create index if not exists idx_nba_logs_season on nba_player_game_logs (season);
+
+-- Single 'default' snapshot row; markets are keyed under position 'ALL'.
+create table if not exists nba_prop_reference (
+  key text primary key default 'default',
+  seasons int[] not null,
+  reference jsonb not null,
+  computed_at timestamptz not null default now()
+);
@@ -0,0 +1,18 @@
+-- sql/ncaab_totals.sql
+-- Totals model for the NCAAB ratings (src/lib/ratings/totals.ts): per-team
+-- offensive / defensive efficiency and tempo, the projected vs closing total
+-- behind each game's adjustment, and the closing total in the line cache.
+-- Run once in the Supabase SQL editor. Existing seasons pick up their seeds
+-- with POST /api/ratings/calculate { action: 'seed-totals' }.
+
+alter table ncaab_ratings add column if not exists adj_oe real;           -- points scored / 100 possessions
+alter table ncaab_ratings add column if not exists adj_de real;           -- points allowed / 100 possessions
+alter table ncaab_ratings add column if not exists adj_tempo real;        -- possessions / 40 minutes
+alter table ncaab_ratings add column if not exists initial_adj_oe real;   -- KenPom AdjOE seed
+alter table ncaab_ratings add column if not exists initial_adj_de real;   -- KenPom AdjDE seed
+
+alter table ncaab_game_adjustments add column if not exists projected_total real;
+alter table ncaab_game_adjustments add column if not exists closing_total real;
+alter table ncaab_game_adjustments add column if not exists total_adjustment real;  -- per offense / defense term
+
+alter table ncaab_closing_lines add column if not exists closing_total real;
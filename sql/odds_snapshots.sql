@@ -0,0 +1,29 @@
+-- sql/odds_snapshots.sql
+-- Line-movement history: one row per (game, bookmaker, market) each time the
+-- book's market last_update changes. Written by /api/odds on every board
+-- fetch (see src/lib/oddsSnapshots.ts). Run once in the Supabase SQL editor.
+--
+-- No RLS, matching power_rating_sets / nfl_props — the app runs anon-key-only.
+
+create table if not exists odds_snapshots (
+  id bigint generated always as identity primary key,
+  game_id text not null,            -- Odds API event id
+  sport_key text not null,
+  commence_time timestamptz not null,
+  home_team text not null,
+  away_team text not null,
+  bookmaker text not null,          -- Odds API key, e.g. draftkings
+  market text not null,             -- h2h | spreads | totals
+  point real,                       -- home spread (spreads) or total (totals)
+  home_price int,                   -- h2h / spreads
+  away_price int,
+  draw_price int,                   -- soccer 3-way h2h only
+  over_price int,                   -- totals
+  under_price int,
+  book_updated_at timestamptz not null,
+  captured_at timestamptz not null default now(),
+  unique (game_id, bookmaker, market, book_updated_at)
+);
+
+create index if not exists idx_odds_snapshots_game on odds_snapshots (game_id, market, book_updated_at);
+create index if not exists idx_odds_snapshots_sport_time on odds_snapshots (sport_key, commence_time);
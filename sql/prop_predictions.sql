@@ -0,0 +1,48 @@
+-- sql/prop_predictions.sql
+-- Prop model calibration log: every line the pricer or the prop table prices
+-- (model inputs, P(over), best prices, the value pick), graded from game logs
+-- after each sync by src/lib/props/gradePredictions.ts. Read by
+-- /admin/prop-calibration. Run once in the Supabase SQL editor.
+--
+-- No RLS, matching nfl_player_game_logs / nfl_prop_reference — the app runs
+-- anon-key-only. Covered by the existing auth audit item.
+
+create table if not exists prop_predictions (
+  id bigint generated always as identity primary key,
+  dedupe_key text not null unique,  -- day + source + player + market + line + settings (lib/props/calibration.ts)
+  priced_on date not null,          -- Eastern date it was priced
+  source text not null,             -- pricer | table
+  league text not null,             -- NFL | NBA
+  sport_key text not null,
+  event_id text,
+  commence_time timestamptz,
+  player_id text not null,
+  player_name text not null,
+  position text,
+  team text,                        -- game-log team code (grading finds this team's next game)
+  market text not null,             -- PROP_MARKETS key
+  line real not null,
+  projection real not null,
+  projection_mode text not null default 'measured',  -- measured | matchup
+  sd real not null,
+  sd_mode text not null,            -- measured | tier | league | custom
+  dist text not null,               -- normal | lognormal | poisson | negbin
+  p_over real not null,
+  best_over_price int,
+  best_over_book text,
+  best_under_price int,
+  best_under_book text,
+  kalshi_ticker text,
+  kalshi_strike real,
+  value_side text,                  -- over | under: the higher-EV side at the best prices
+  value_ev real,
+  created_at timestamptz not null default now(),
+  graded_at timestamptz,
+  game_season int,
+  game_week int,                    -- NFL week / NBA day of season of the graded game
+  actual real,
+  result text                       -- over | under | push | dnp | expired (never gradeable); null = open
+);
+
+create index if not exists idx_prop_predictions_open on prop_predictions (league, result);
+create index if not exists idx_prop_predictions_priced on prop_predictions (priced_on);
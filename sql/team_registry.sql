@@ -0,0 +1,8 @@
+-- sql/team_registry.sql
+-- Kalshi names in the NCAAB team registry. ncaab_team_overrides already
+-- holds each team's ESPN / Odds API / Torvik / SBR names against its KenPom
+-- name; this adds Kalshi's, which /api/kalshi-odds uses to rename Kalshi
+-- teams to their Odds API names before the board merge. The registry itself
+-- is src/lib/teams. Run once in the Supabase SQL editor.
+
+alter table ncaab_team_overrides add column if not exists kalshi_name text;
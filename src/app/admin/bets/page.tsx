@@ -3,7 +3,17 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
-import { fetchBets, createBet, updateBet, deleteBet, Bet, BetStatus, BetType } from '@/lib/betService';
+import { fetchBets, createBet, updateBet, deleteBet, Bet, BetLeg, BetStatus, BetType } from '@/lib/betService';
+import { TEASER_POINTS, combinedPrice, legsSummary, teaseLeg, legText } from '@/lib/betLegs';
+import { DEFAULT_BANKROLL_SETTINGS, bankrollReport, suggestStake, unitDollars, BankrollEntry, BankrollEntryKind, BankrollSettings } from '@/lib/bankroll';
+import { fetchBankroll, addBankrollEntry, deleteBankrollEntry, saveBankrollSettings } from '@/lib/bankrollService';
+import { devig } from '@/lib/props/engine';
+import { spreadToWinProb } from '@/app/ratings/utils/tournamentProjection';
+import {
+  FILL_FIELDS, IMPORT_FIELDS, LEAGUE_SPORT, guessMapping, importRows, parseBackup, parseCsv, type ColumnMapping,
+} from '@/lib/betImport';
+import { BOOKMAKERS } from '@/lib/api';
+import { betsToBackup, betsToCsv } from '@/lib/betExport';
 
 interface BetTeamInfo {
   displayName: string;
@@ -49,6 +59,30 @@ const IconSpinner = () => (
 // Shared input/select/textarea classes — consistent focus ring + border radius.
 const fieldCls = 'w-full px-3 py-2.5 text-sm bg-white border border-slate-200 rounded-lg text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-[#0052ff]/25 focus:border-[#0052ff] transition';
 const labelCls = 'block text-xs font-medium text-slate-600 mb-1.5';
+// Compact variant for the parlay/teaser leg rows
+const legFieldCls = 'w-full px-2 py-1.5 text-xs bg-white border border-slate-200 rounded-md text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-[#0052ff]/25 focus:border-[#0052ff] transition';
+
+// Where the Kelly suggestion's win probability comes from
+type WinProbSource = 'opposing' | 'projection' | 'manual';
+const WIN_PROB_SOURCES: { id: WinProbSource; label: string; placeholder: string }[] = [
+  { id: 'opposing', label: 'No-vig vs other side', placeholder: 'Other side, e.g. -105' },
+  { id: 'projection', label: 'Projected spread', placeholder: 'Your line, e.g. -6.5' },
+  { id: 'manual', label: 'Manual %', placeholder: 'Win %, e.g. 55' },
+];
+
+const fmtDollars = (v: number) => `${v < 0 ? '-' : ''}$${Math.abs(v).toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+const LEG_LEAGUES = ['NFL', 'NCAAF', 'NBA', 'NCAAB', 'MLB', 'NHL', 'WNBA', 'MLS', 'EPL'];
+
+// Browser download of an export
+const downloadFile = (name: string, type: string, body: string) => {
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+};
 
 // Inline status dropdown: colored dot + label wrapping a transparent native <select>.
 function StatusSelect({ bet, onChange }: { bet: Bet; onChange: (s: BetStatus) => void }) {
@@ -83,7 +117,7 @@ export default function BetAdminPage() {
   const [loading, setLoading] = useState(false);
   const [editingBet, setEditingBet] = useState<Bet | null>(null);
   const [showForm, setShowForm] = useState(false);
-  const [filter, setFilter] = useState<'all' | 'pending' | 'completed'>('pending');
+  const [filter, setFilter] = useState<'all' | 'pending' | 'review' | 'completed'>('pending');
   const [view, setView] = useState<'form' | 'list'>('list');
   const [sendingBetId, setSendingBetId] = useState<string | null>(null);
   const [sentBets, setSentBets] = useState<Set<string>>(new Set());
@@ -95,11 +129,38 @@ export default function BetAdminPage() {
   const [futuresResult, setFuturesResult] = useState<string | null>(null);
   const [restSending, setRestSending] = useState(false);
   const [restResult, setRestResult] = useState<string | null>(null);
+  const [grading, setGrading] = useState(false);
+  const [gradeResult, setGradeResult] = useState<string | null>(null);
   const [isDesktop, setIsDesktop] = useState(false);
 
-  const [parlayTeams, setParlayTeams] = useState<string[]>(['', '']);
+  // Structured parlay/teaser legs (lib/betLegs.ts prices and grades them)
+  const [legs, setLegs] = useState<BetLeg[]>([]);
+  const [teaserPoints, setTeaserPoints] = useState(6);
   const [teamMaps, setTeamMaps] = useState<Record<string, Record<string, BetTeamInfo>>>({});
 
+  // Bankroll ledger + sizing settings (lib/bankroll.ts does the math)
+  const [ledger, setLedger] = useState<BankrollEntry[]>([]);
+  const [bankrollSettings, setBankrollSettings] = useState<BankrollSettings>(DEFAULT_BANKROLL_SETTINGS);
+  const [showBankroll, setShowBankroll] = useState(false);
+  const [entryKind, setEntryKind] = useState<BankrollEntryKind>('deposit');
+  const [entryAmount, setEntryAmount] = useState('');
+  const [entryNote, setEntryNote] = useState('');
+  const [bankrollResult, setBankrollResult] = useState<string | null>(null);
+  const [winProbSource, setWinProbSource] = useState<WinProbSource>('opposing');
+  const [winProbInput, setWinProbInput] = useState('');
+
+  // Bulk import (lib/betImport.ts maps and dedupes; nothing is written until Import)
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [importFile, setImportFile] = useState<string | null>(null);
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [backupText, setBackupText] = useState<string | null>(null);
+  const [importBook, setImportBook] = useState('');   // '' = Book column from the file
+  const [contractFills, setContractFills] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [skippedLines, setSkippedLines] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+  const [transferResult, setTransferResult] = useState<string | null>(null);
+
   useEffect(() => {
     const checkScreenSize = () => setIsDesktop(window.innerWidth >= 640);
     checkScreenSize();
@@ -148,6 +209,7 @@ export default function BetAdminPage() {
 
   useEffect(() => {
     loadBets();
+    loadBankroll();
   }, []);
 
   // Lazy-load team logo/color maps for each supported league present in the bet
@@ -241,36 +303,61 @@ export default function BetAdminPage() {
     }
   };
 
-  useEffect(() => {
-    if (formData.betType === 'parlay') {
-      const filledTeams = parlayTeams.filter(t => t.trim() !== '');
-      if (filledTeams.length > 0) {
-        setFormData(prev => ({ ...prev, description: filledTeams.join(' & ') }));
-      }
+  const loadBankroll = async () => {
+    try {
+      const { ledger, settings } = await fetchBankroll();
+      setLedger(ledger);
+      setBankrollSettings(settings);
+    } catch (error) {
+      console.error('Error loading bankroll:', error);
     }
-  }, [parlayTeams, formData.betType]);
+  };
 
+  const isMultiLeg = formData.betType === 'parlay' || formData.betType === 'teaser';
+  const completeLegs = legs.filter(l => l.selection && l.awayTeam.trim() && l.homeTeam.trim());
+  const tease = formData.betType === 'teaser' ? teaserPoints : undefined;
+  const computedOdds = isMultiLeg
+    ? combinedPrice({ betType: formData.betType, legs: completeLegs, teaserPoints: tease })
+    : null;
+
+  // Bet text, matchup and ticket price follow the legs as they're entered
   useEffect(() => {
-    if (formData.betType !== 'parlay') {
-      setParlayTeams(['', '']);
-    }
-  }, [formData.betType]);
+    if (!isMultiLeg || completeLegs.length === 0) return;
+    setFormData(prev => ({
+      ...prev,
+      bet: legsSummary(completeLegs, tease),
+      description: completeLegs.map(l => `${l.awayTeam} @ ${l.homeTeam}`).join(' & '),
+      eventDate: completeLegs.map(l => l.eventDate).sort()[0],
+      ...(computedOdds !== null ? { odds: computedOdds } : {}),
+    }));
+    if (computedOdds !== null) setOddsInput(String(computedOdds));
+    // completeLegs/computedOdds derive from legs + teaser points
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [legs, teaserPoints, formData.betType]);
+
+  useEffect(() => {
+    if (!isMultiLeg) setLegs([]);
+  }, [isMultiLeg]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
     try {
-      const filledParlayTeams = parlayTeams.filter(t => t.trim() !== '');
+      const hasLegs = isMultiLeg && completeLegs.length > 0;
 
       const betData = {
         ...formData,
-        awayTeam: formData.betType === 'parlay' ? undefined : (formData.awayTeam || undefined),
-        homeTeam: formData.betType === 'parlay' ? undefined : (formData.homeTeam || undefined),
+        awayTeam: formData.betType === 'parlay' || hasLegs ? undefined : (formData.awayTeam || undefined),
+        homeTeam: formData.betType === 'parlay' || hasLegs ? undefined : (formData.homeTeam || undefined),
         team: formData.team || undefined,
         result: formData.result || undefined,
         notes: formData.notes || undefined,
-        parlayTeams: formData.betType === 'parlay' && filledParlayTeams.length > 0 ? filledParlayTeams : undefined
+        // parlayTeams still feeds logo lookups that predate legs
+        parlayTeams: hasLegs ? completeLegs.map(l => (l.market === 'total' ? l.homeTeam : l.selection)) : undefined,
+        // [] clears the legs off a ticket that had them
+        legs: hasLegs ? completeLegs : editingBet?.legs ? [] : undefined,
+        teaserPoints: hasLegs && formData.betType === 'teaser' ? teaserPoints : undefined,
       };
 
       if (editingBet) {
@@ -281,7 +368,7 @@ export default function BetAdminPage() {
 
       setFormData(getInitialFormState());
       setOddsInput('-110');
-      setParlayTeams(['', '']);
+      setLegs([]);
       setEditingBet(null);
 
       await loadBets();
@@ -316,14 +403,8 @@ export default function BetAdminPage() {
     });
     setOddsInput(String(bet.odds));
 
-    if (bet.betType === 'parlay' && bet.parlayTeams && bet.parlayTeams.length > 0) {
-      setParlayTeams(bet.parlayTeams);
-    } else if (bet.betType === 'parlay') {
-      const teams = bet.description.split('&').map(t => t.trim()).filter(t => t);
-      setParlayTeams(teams.length >= 2 ? teams : ['', '']);
-    } else {
-      setParlayTeams(['', '']);
-    }
+    setLegs(bet.legs ?? []);
+    setTeaserPoints(bet.teaserPoints ?? 6);
 
     setEditingBet(bet);
     setView('form');
@@ -393,6 +474,28 @@ export default function BetAdminPage() {
     }
   };
 
+  const handleGradeNow = async () => {
+    setGrading(true);
+    setGradeResult(null);
+    try {
+      const resp = await fetch('/api/bets/settle', { method: 'POST' });
+      const data = await resp.json();
+      if (!resp.ok) throw new Error(data.error || 'Failed');
+      setGradeResult(
+        `Graded ${data.graded.length} of ${data.checked} pending` +
+        (data.inProgress ? `, ${data.inProgress} still in progress` : '') +
+        (data.flagged ? `, ${data.flagged} sent to review` : '') +
+        (data.errors.length ? ` — ${data.errors.length} error(s)` : '')
+      );
+      await loadBets();
+    } catch (e) {
+      setGradeResult(e instanceof Error ? e.message : 'Failed to grade');
+    } finally {
+      setGrading(false);
+      setTimeout(() => setGradeResult(null), 8000);
+    }
+  };
+
   const handleCopyLink = (bet: Bet) => {
     const url = `${window.location.origin}/bet/${bet.id}`;
     fetch(url).catch(() => {});
@@ -457,22 +560,27 @@ export default function BetAdminPage() {
     }
   };
 
-  const handleParlayTeamChange = (index: number, value: string) => {
-    const newTeams = [...parlayTeams];
-    newTeams[index] = value;
-    setParlayTeams(newTeams);
+  const updateLeg = (index: number, patch: Partial<BetLeg>) => {
+    setLegs(prev => prev.map((l, i) => (i === index ? { ...l, ...patch } : l)));
   };
 
-  const addParlayTeam = () => setParlayTeams([...parlayTeams, '']);
+  const addLeg = () => setLegs(prev => [...prev, {
+    sport: LEAGUE_SPORT[formData.league] ?? formData.sport,
+    league: formData.league,
+    eventDate: formData.eventDate,
+    awayTeam: '',
+    homeTeam: '',
+    market: 'spread',
+    selection: '',
+    odds: formData.betType === 'parlay' ? -110 : undefined,
+    status: 'pending',
+  }]);
 
-  const removeParlayTeam = (index: number) => {
-    if (parlayTeams.length > 2) {
-      setParlayTeams(parlayTeams.filter((_, i) => i !== index));
-    }
-  };
+  const removeLeg = (index: number) => setLegs(prev => prev.filter((_, i) => i !== index));
 
   const filteredBets = bets.filter(bet => {
     if (filter === 'pending') return bet.status === 'pending';
+    if (filter === 'review') return bet.status === 'pending' && Boolean(bet.reviewReason);
     if (filter === 'completed') return bet.status !== 'pending';
     return true;
   }).sort((a, b) => {
@@ -498,9 +606,142 @@ export default function BetAdminPage() {
     };
   }, [bets]);
 
-  const filterTabs: { key: 'all' | 'pending' | 'completed'; label: string; count: number }[] = [
+  const bankroll = useMemo(
+    () => bankrollReport(bets, ledger, bankrollSettings),
+    [bets, ledger, bankrollSettings]
+  );
+  const unitSize = unitDollars(bankrollSettings, bankroll.current);
+
+  // Win probability for the bet on the form, from the chosen source. The
+  // projected spread is the bettor's line for the side bet on, so the cover
+  // chance is spreadToWinProb(projection − line); moneylines use it as is.
+  const winProb = useMemo((): number | null => {
+    const x = parseFloat(winProbInput);
+    if (!Number.isFinite(x)) return null;
+    if (winProbSource === 'manual') return x > 0 && x < 100 ? x / 100 : null;
+    if (winProbSource === 'opposing') return devig(formData.odds, x).pOver;
+    if (formData.betType === 'moneyline') return spreadToWinProb(x);
+    if (formData.betType !== 'spread') return null;
+    const line = formData.bet.match(/([-+]\d+(?:\.\d+)?)\s*$/)?.[1];
+    return line === undefined ? null : spreadToWinProb(x - parseFloat(line));
+  }, [winProbInput, winProbSource, formData.odds, formData.bet, formData.betType]);
+
+  const stakeSuggestion = winProb !== null && bankroll.currency === 'dollars'
+    ? suggestStake(winProb, formData.odds, bankroll.current, bankrollSettings)
+    : null;
+
+  const handleAddEntry = async () => {
+    const amount = parseFloat(entryAmount);
+    if (!(amount > 0)) return;
+    try {
+      await addBankrollEntry({ date: formatDateForInput(new Date()), kind: entryKind, amount, note: entryNote || undefined });
+      setEntryAmount('');
+      setEntryNote('');
+      await loadBankroll();
+    } catch {
+      setBankrollResult('Failed to save entry');
+    }
+  };
+
+  const handleDeleteEntry = async (id: string) => {
+    if (!confirm('Delete this bankroll entry?')) return;
+    try {
+      await deleteBankrollEntry(id);
+      await loadBankroll();
+    } catch {
+      setBankrollResult('Failed to delete entry');
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    try {
+      await saveBankrollSettings(bankrollSettings);
+      setBankrollResult('Settings saved');
+    } catch {
+      setBankrollResult('Failed to save settings');
+    } finally {
+      setTimeout(() => setBankrollResult(null), 4000);
+    }
+  };
+
+  const importPreview = useMemo(() => {
+    if (backupText) return parseBackup(backupText, bets);
+    if (!csvRows || unitSize <= 0) return [];
+    return importRows(csvRows, mapping, bets, {
+      book: importBook || undefined, contractFills, unitDollars: unitSize, today: formatDateForInput(new Date()),
+    });
+  }, [backupText, csvRows, mapping, bets, importBook, contractFills, unitSize]);
+  const importSelected = importPreview.filter(r => r.bet && !r.duplicate && !skippedLines.has(r.line));
+
+  const handleImportFile = async (file: File) => {
+    setTransferResult(null);
+    setSkippedLines(new Set());
+    const text = await file.text();
+    setImportFile(file.name);
+    if (file.name.toLowerCase().endsWith('.json')) {
+      try {
+        JSON.parse(text); // a malformed file fails here; entries are checked in the preview
+        setBackupText(text);
+        setCsvRows(null);
+      } catch {
+        setTransferResult('Not a valid JSON backup');
+      }
+      return;
+    }
+    const rows = parseCsv(text);
+    setBackupText(null);
+    setCsvRows(rows);
+    setMapping(guessMapping(rows[0] ?? [], contractFills));
+  };
+
+  const handleContractFillsChange = (on: boolean) => {
+    setContractFills(on);
+    setMapping(guessMapping(csvRows?.[0] ?? [], on));
+  };
+
+  const clearImport = () => {
+    setImportFile(null);
+    setCsvRows(null);
+    setBackupText(null);
+    setSkippedLines(new Set());
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    let imported = 0;
+    try {
+      for (const row of importSelected) {
+        const created = await createBet(row.bet!);
+        // Restored backups keep their captured close (createBet doesn't write it)
+        const { closingLine, closingOdds, closingSource } = row.bet!;
+        if (created?.id && (closingLine !== undefined || closingOdds !== undefined)) {
+          await updateBet(created.id, { closingLine, closingOdds, closingSource });
+        }
+        imported++;
+      }
+      setTransferResult(`Imported ${imported} bet${imported === 1 ? '' : 's'}`);
+      clearImport();
+    } catch {
+      setTransferResult(`Import stopped after ${imported} bet${imported === 1 ? '' : 's'}`);
+    } finally {
+      setImporting(false);
+      await loadBets();
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const stamp = formatDateForInput(new Date());
+    if (format === 'csv') {
+      downloadFile(`bets-${stamp}.csv`, 'text/csv', betsToCsv(bets, bankroll.currency === 'dollars' ? unitSize : null));
+    } else {
+      downloadFile(`bets-${stamp}.json`, 'application/json', JSON.stringify(betsToBackup(bets, { ledger, settings: bankrollSettings }), null, 2));
+    }
+  };
+
+  const filterTabs: { key: 'all' | 'pending' | 'review' | 'completed'; label: string; count: number }[] = [
     { key: 'all', label: 'All', count: bets.length },
     { key: 'pending', label: 'Pending', count: bets.filter(b => b.status === 'pending').length },
+    { key: 'review', label: 'Review', count: bets.filter(b => b.status === 'pending' && b.reviewReason).length },
     { key: 'completed', label: 'Done', count: bets.filter(b => b.status !== 'pending').length },
   ];
 
@@ -539,6 +780,12 @@ export default function BetAdminPage() {
               >
                 Power Ratings
               </button>
+              <button
+                onClick={() => router.push('/admin/line-alerts')}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
+              >
+                Line Alerts
+              </button>
               <button
                 onClick={() => {
                   if (isDesktop) setShowForm(!showForm);
@@ -648,6 +895,26 @@ export default function BetAdminPage() {
           {restResult && (
             <p className="mt-2 text-xs text-slate-600">{restResult}</p>
           )}
+
+          <div className="mt-4 pt-4 border-t border-slate-100 flex flex-wrap items-center gap-3">
+            <div className="flex-1 min-w-[180px]">
+              <p className="text-sm font-semibold text-slate-900">Grade pending bets</p>
+              <p className="text-xs text-slate-500 mt-0.5">
+                Settles spreads, moneylines, totals and legged parlays/teasers from ESPN finals each morning; props, futures and unmatched games go to Review
+              </p>
+            </div>
+            <button
+              onClick={handleGradeNow}
+              disabled={grading}
+              className="inline-flex items-center gap-1.5 px-3.5 py-1.5 bg-slate-900 text-white rounded-full font-semibold text-xs hover:bg-slate-700 disabled:opacity-50 transition"
+            >
+              {grading ? <IconSpinner /> : <IconCheck />}
+              {grading ? 'Grading…' : 'Grade now'}
+            </button>
+          </div>
+          {gradeResult && (
+            <p className="mt-2 text-xs text-slate-600">{gradeResult}</p>
+          )}
         </div>
 
         {/* Stats strip */}
@@ -661,6 +928,295 @@ export default function BetAdminPage() {
           />
         </div>
 
+        {/* Bankroll */}
+        <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-4 sm:p-5">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <h2 className="text-sm font-semibold text-slate-900">Bankroll</h2>
+              <p className="text-xs text-slate-500 mt-0.5">
+                {bankroll.currency === 'dollars'
+                  ? `${fmtDollars(bankroll.current)} · ${fmtDollars(unitSize)}/unit · max drawdown ${fmtDollars(bankroll.maxDrawdown)}${bankroll.maxDrawdownPct !== null ? ` (${bankroll.maxDrawdownPct.toFixed(1)}%)` : ''}`
+                  : 'Add a starting deposit to track the bankroll in dollars and size stakes'}
+              </p>
+            </div>
+            <button
+              onClick={() => setShowBankroll(!showBankroll)}
+              className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
+            >
+              {showBankroll ? 'Hide' : 'Manage'}
+            </button>
+          </div>
+
+          {showBankroll && (
+            <div className="mt-4 pt-4 border-t border-slate-100 space-y-4">
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="w-32">
+                  <label className={labelCls}>Entry</label>
+                  <select value={entryKind} onChange={(e) => setEntryKind(e.target.value as BankrollEntryKind)} className={fieldCls}>
+                    <option value="deposit">Deposit</option>
+                    <option value="withdrawal">Withdrawal</option>
+                  </select>
+                </div>
+                <div className="w-28">
+                  <label className={labelCls}>Amount ($)</label>
+                  <input type="number" min={0} step="1" value={entryAmount} onChange={(e) => setEntryAmount(e.target.value)} className={fieldCls} />
+                </div>
+                <div className="flex-1 min-w-[140px]">
+                  <label className={labelCls}>Note</label>
+                  <input type="text" value={entryNote} onChange={(e) => setEntryNote(e.target.value)} placeholder="Optional" className={fieldCls} />
+                </div>
+                <button
+                  onClick={handleAddEntry}
+                  className="inline-flex items-center gap-1.5 px-3.5 py-1.5 bg-[#0052ff] text-white rounded-full font-semibold text-xs hover:bg-[#0043d6] transition"
+                >
+                  <IconPlus />
+                  Add
+                </button>
+              </div>
+
+              {ledger.length > 0 && (
+                <div className="divide-y divide-slate-100 text-xs">
+                  {ledger.map(entry => (
+                    <div key={entry.id} className="flex items-center justify-between gap-3 py-1.5">
+                      <span className="text-slate-500 tabular-nums">{entry.date}</span>
+                      <span className="flex-1 text-slate-700 truncate">{entry.note || (entry.kind === 'deposit' ? 'Deposit' : 'Withdrawal')}</span>
+                      <span className={`tabular-nums font-medium ${entry.kind === 'deposit' ? 'text-emerald-700' : 'text-rose-700'}`}>
+                        {entry.kind === 'deposit' ? '+' : '-'}{fmtDollars(entry.amount)}
+                      </span>
+                      <button onClick={() => handleDeleteEntry(entry.id)} aria-label="Delete entry" className="text-slate-400 hover:text-rose-600 transition">
+                        <IconClose />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div>
+                  <label className={labelCls}>Unit size</label>
+                  <select
+                    value={bankrollSettings.unitMode}
+                    onChange={(e) => setBankrollSettings({ ...bankrollSettings, unitMode: e.target.value as BankrollSettings['unitMode'] })}
+                    className={fieldCls}
+                  >
+                    <option value="fixed">Fixed $</option>
+                    <option value="percent">% of bankroll</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelCls}>{bankrollSettings.unitMode === 'fixed' ? 'Dollars / unit' : 'Percent / unit'}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={bankrollSettings.unitValue}
+                    onChange={(e) => setBankrollSettings({ ...bankrollSettings, unitValue: parseFloat(e.target.value) || 0 })}
+                    className={fieldCls}
+                  />
+                </div>
+                <div>
+                  <label className={labelCls}>Kelly multiplier</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step="0.05"
+                    value={bankrollSettings.kellyMultiplier}
+                    onChange={(e) => setBankrollSettings({ ...bankrollSettings, kellyMultiplier: parseFloat(e.target.value) || 0 })}
+                    className={fieldCls}
+                  />
+                </div>
+                <div>
+                  <label className={labelCls}>Max bet %</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.5"
+                    value={bankrollSettings.maxBetPct}
+                    onChange={(e) => setBankrollSettings({ ...bankrollSettings, maxBetPct: parseFloat(e.target.value) || 0 })}
+                    className={fieldCls}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={handleSaveSettings}
+                  className="inline-flex items-center gap-1.5 px-3.5 py-1.5 bg-slate-900 text-white rounded-full font-semibold text-xs hover:bg-slate-700 transition"
+                >
+                  <IconCheck />
+                  Save settings
+                </button>
+                {bankrollResult && <span className="text-xs text-slate-600">{bankrollResult}</span>}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Import / export */}
+        <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-4 sm:p-5">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <h2 className="text-sm font-semibold text-slate-900">Import / Export</h2>
+              <p className="text-xs text-slate-500 mt-0.5">
+                CSV in with columns mapped by hand; CSV and JSON backups out, with profit and CLV
+              </p>
+            </div>
+            <div className="flex items-center gap-1.5">
+              <button
+                onClick={() => handleExport('csv')}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
+              >
+                CSV
+              </button>
+              <button
+                onClick={() => handleExport('json')}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
+              >
+                JSON
+              </button>
+              <button
+                onClick={() => setShowTransfer(!showTransfer)}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
+              >
+                {showTransfer ? 'Hide' : 'Import'}
+              </button>
+            </div>
+          </div>
+
+          {transferResult && !showTransfer && <p className="mt-2 text-xs text-slate-600">{transferResult}</p>}
+
+          {showTransfer && (
+            <div className="mt-4 pt-4 border-t border-slate-100 space-y-4">
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="flex-1 min-w-[200px]">
+                  <label className={labelCls}>File (.csv, or a .json backup)</label>
+                  <input
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    onChange={(e) => { const f = e.target.files?.[0]; if (f) handleImportFile(f); e.target.value = ''; }}
+                    className="block w-full text-xs text-slate-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-full file:border-0 file:text-xs file:font-medium file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200"
+                  />
+                </div>
+                {csvRows && (
+                  <>
+                    <div className="w-40">
+                      <label className={labelCls}>Book</label>
+                      <select value={importBook} onChange={(e) => setImportBook(e.target.value)} className={fieldCls}>
+                        <option value="">From file</option>
+                        {BOOKMAKERS.map(b => <option key={b} value={b}>{b}</option>)}
+                      </select>
+                    </div>
+                    <label className="flex items-center gap-1.5 pb-2 text-xs text-slate-600">
+                      <input type="checkbox" checked={contractFills} onChange={(e) => handleContractFillsChange(e.target.checked)} />
+                      Contract fills (Kalshi)
+                    </label>
+                  </>
+                )}
+              </div>
+
+              {csvRows && (
+                <div>
+                  <p className="text-xs text-slate-500 mb-2">
+                    Columns from {importFile} · stakes converted at {fmtDollars(unitSize)}/unit
+                  </p>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {IMPORT_FIELDS.filter(f => contractFills || !FILL_FIELDS.includes(f.field)).map(({ field, label }) => (
+                      <div key={field}>
+                        <label className={labelCls}>{label}</label>
+                        <select
+                          value={mapping[field] ?? ''}
+                          onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                          className={legFieldCls}
+                        >
+                          <option value="">—</option>
+                          {(csvRows[0] ?? []).map(h => <option key={h} value={h}>{h}</option>)}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {importPreview.length > 0 && (
+                <div className="overflow-x-auto max-h-80 border border-slate-100 rounded-lg">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                      <tr>
+                        <th className="px-2 py-1.5 text-left font-medium"></th>
+                        <th className="px-2 py-1.5 text-left font-medium">Placed</th>
+                        <th className="px-2 py-1.5 text-left font-medium">League</th>
+                        <th className="px-2 py-1.5 text-left font-medium">Bet</th>
+                        <th className="px-2 py-1.5 text-right font-medium">Odds</th>
+                        <th className="px-2 py-1.5 text-right font-medium">Units</th>
+                        <th className="px-2 py-1.5 text-left font-medium">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {importPreview.map(row => {
+                        const blocked = !row.bet || !!row.duplicate;
+                        return (
+                          <tr key={row.line} className={blocked ? 'text-slate-400' : 'text-slate-700'}>
+                            <td className="px-2 py-1.5">
+                              <input
+                                type="checkbox"
+                                disabled={blocked}
+                                checked={!blocked && !skippedLines.has(row.line)}
+                                onChange={() => {
+                                  const next = new Set(skippedLines);
+                                  if (next.has(row.line)) next.delete(row.line); else next.add(row.line);
+                                  setSkippedLines(next);
+                                }}
+                              />
+                            </td>
+                            {row.bet ? (
+                              <>
+                                <td className="px-2 py-1.5 tabular-nums">{row.bet.date}</td>
+                                <td className="px-2 py-1.5">{row.bet.league || '—'}</td>
+                                <td className="px-2 py-1.5">
+                                  {row.bet.bet}
+                                  {row.duplicate && (
+                                    <span className="ml-1.5 text-[10px] text-amber-700">
+                                      {row.duplicate === 'existing' ? 'already tracked' : 'repeated in file'}
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="px-2 py-1.5 text-right tabular-nums">{row.bet.odds > 0 ? `+${row.bet.odds}` : row.bet.odds}</td>
+                                <td className="px-2 py-1.5 text-right tabular-nums">{row.bet.stake}</td>
+                                <td className="px-2 py-1.5 capitalize">{row.bet.status}</td>
+                              </>
+                            ) : (
+                              <td colSpan={6} className="px-2 py-1.5 text-rose-600">Line {row.line}: {row.errors.join(', ')}</td>
+                            )}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {(csvRows || backupText) && (
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={handleImport}
+                    disabled={importing || importSelected.length === 0}
+                    className="inline-flex items-center gap-1.5 px-3.5 py-1.5 bg-[#0052ff] text-white rounded-full font-semibold text-xs hover:bg-[#0043d6] disabled:opacity-50 transition"
+                  >
+                    {importing ? <IconSpinner /> : <IconCheck />}
+                    Import {importSelected.length}
+                  </button>
+                  <button onClick={clearImport} className="text-xs text-slate-500 hover:text-slate-800 transition">Cancel</button>
+                  <span className="text-xs text-slate-500">
+                    {importPreview.filter(r => r.duplicate).length} duplicate · {importPreview.filter(r => !r.bet).length} unreadable
+                  </span>
+                </div>
+              )}
+              {transferResult && <p className="text-xs text-slate-600">{transferResult}</p>}
+            </div>
+          )}
+        </div>
+
         {/* Form */}
         {(view === 'form' || (showForm && isDesktop)) && (
           <form onSubmit={handleSubmit} className="bg-white border border-slate-200 rounded-xl shadow-sm p-5 sm:p-6">
@@ -780,63 +1336,161 @@ export default function BetAdminPage() {
                 </div>
               </div>
 
-              {formData.betType !== 'parlay' && (
+              {(!isMultiLeg || completeLegs.length === 0) && (
                 <div>
                   <label className={labelCls}>
-                    Description {formData.betType === 'future' ? '' : formData.betType === 'teaser' ? '(Team & Team)' : '(Away @ Home)'}
+                    Description {formData.betType === 'future' ? '' : isMultiLeg ? '(Team & Team)' : '(Away @ Home)'}
                   </label>
                   <input
                     type="text"
                     value={formData.description}
                     onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                    placeholder={formData.betType === 'future' ? 'Championship/Award' : formData.betType === 'teaser' ? 'Team & Team' : 'Away @ Home'}
+                    placeholder={formData.betType === 'future' ? 'Championship/Award' : isMultiLeg ? 'Team & Team' : 'Away @ Home'}
                     className={fieldCls}
                     required
                   />
                 </div>
               )}
 
-              {formData.betType === 'parlay' && (
+              {isMultiLeg && (
                 <div className="p-4 bg-blue-50/60 rounded-xl border border-blue-100">
-                  <div className="flex justify-between items-center mb-3">
-                    <label className="text-xs font-semibold text-blue-950 uppercase tracking-wide">Parlay Teams</label>
-                    <button
-                      type="button"
-                      onClick={addParlayTeam}
-                      className="inline-flex items-center gap-1 px-2.5 py-1 bg-[#0052ff] text-white rounded-full text-xs font-medium hover:bg-[#0043d6] transition"
-                    >
-                      <IconPlus />
-                      Team
-                    </button>
+                  <div className="flex justify-between items-center mb-3 gap-2">
+                    <label className="text-xs font-semibold text-blue-950 uppercase tracking-wide">Legs</label>
+                    <div className="flex items-center gap-2">
+                      {formData.betType === 'teaser' && (
+                        <select
+                          value={teaserPoints}
+                          onChange={(e) => setTeaserPoints(parseFloat(e.target.value))}
+                          className="px-2 py-1 text-xs bg-white border border-slate-200 rounded-full"
+                          aria-label="Teaser points"
+                        >
+                          {TEASER_POINTS.map(p => <option key={p} value={p}>{p} pts</option>)}
+                        </select>
+                      )}
+                      <button
+                        type="button"
+                        onClick={addLeg}
+                        className="inline-flex items-center gap-1 px-2.5 py-1 bg-[#0052ff] text-white rounded-full text-xs font-medium hover:bg-[#0043d6] transition"
+                      >
+                        <IconPlus />
+                        Leg
+                      </button>
+                    </div>
                   </div>
-                  <div className="space-y-2">
-                    {parlayTeams.map((team, index) => (
-                      <div key={index} className="flex gap-2">
-                        <input
-                          type="text"
-                          value={team}
-                          onChange={(e) => handleParlayTeamChange(index, e.target.value)}
-                          placeholder={`Team ${index + 1}`}
-                          className={fieldCls}
-                        />
-                        {parlayTeams.length > 2 && (
+                  <div className="space-y-3">
+                    {legs.map((leg, index) => (
+                      <div key={index} className="p-2.5 bg-white rounded-lg border border-blue-100 space-y-2">
+                        <div className="grid grid-cols-3 gap-2">
+                          <select
+                            value={leg.league}
+                            onChange={(e) => updateLeg(index, { league: e.target.value, sport: LEAGUE_SPORT[e.target.value] ?? leg.sport })}
+                            className={legFieldCls}
+                            aria-label={`Leg ${index + 1} league`}
+                          >
+                            {LEG_LEAGUES.map(lg => <option key={lg} value={lg}>{lg}</option>)}
+                          </select>
+                          <input
+                            type="date"
+                            value={leg.eventDate}
+                            onChange={(e) => updateLeg(index, { eventDate: e.target.value })}
+                            className={`${legFieldCls} col-span-2`}
+                            aria-label={`Leg ${index + 1} date`}
+                          />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <input
+                            type="text"
+                            value={leg.awayTeam}
+                            onChange={(e) => updateLeg(index, { awayTeam: e.target.value })}
+                            placeholder="Away team"
+                            className={legFieldCls}
+                          />
+                          <input
+                            type="text"
+                            value={leg.homeTeam}
+                            onChange={(e) => updateLeg(index, { homeTeam: e.target.value })}
+                            placeholder="Home team"
+                            className={legFieldCls}
+                          />
+                        </div>
+                        <div className="grid grid-cols-4 gap-2">
+                          <select
+                            value={leg.market}
+                            onChange={(e) => updateLeg(index, { market: e.target.value as BetLeg['market'], selection: '' })}
+                            className={legFieldCls}
+                            aria-label={`Leg ${index + 1} market`}
+                          >
+                            <option value="spread">Spread</option>
+                            {formData.betType === 'parlay' && <option value="moneyline">ML</option>}
+                            <option value="total">Total</option>
+                          </select>
+                          <select
+                            value={leg.selection}
+                            onChange={(e) => updateLeg(index, { selection: e.target.value })}
+                            className={legFieldCls}
+                            aria-label={`Leg ${index + 1} selection`}
+                          >
+                            <option value="">Pick…</option>
+                            {(leg.market === 'total' ? ['Over', 'Under'] : [leg.awayTeam, leg.homeTeam].filter(Boolean)).map(o => (
+                              <option key={o} value={o}>{o}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            step="0.5"
+                            value={leg.line ?? ''}
+                            disabled={leg.market === 'moneyline'}
+                            onChange={(e) => updateLeg(index, { line: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                            placeholder="Line"
+                            className={`${legFieldCls} disabled:bg-slate-50`}
+                          />
+                          {formData.betType === 'parlay' ? (
+                            <input
+                              type="number"
+                              value={leg.odds ?? ''}
+                              onChange={(e) => updateLeg(index, { odds: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+                              placeholder="Odds"
+                              className={legFieldCls}
+                            />
+                          ) : (
+                            <span className="self-center text-xs text-slate-500 truncate">
+                              {leg.selection && leg.line !== undefined ? `→ ${legText(teaseLeg(leg, teaserPoints))}` : ''}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                          <select
+                            value={leg.status}
+                            onChange={(e) => updateLeg(index, { status: e.target.value as BetStatus })}
+                            className="px-2 py-1 text-xs bg-white border border-slate-200 rounded-full"
+                            aria-label={`Leg ${index + 1} status`}
+                          >
+                            <option value="pending">Pending</option>
+                            <option value="won">Won</option>
+                            <option value="lost">Lost</option>
+                            <option value="push">Push</option>
+                          </select>
                           <button
                             type="button"
-                            onClick={() => removeParlayTeam(index)}
-                            className="inline-flex items-center justify-center w-9 h-9 text-rose-600 bg-white border border-rose-200 rounded-lg hover:bg-rose-50 transition"
-                            aria-label={`Remove team ${index + 1}`}
+                            onClick={() => removeLeg(index)}
+                            className="inline-flex items-center justify-center w-7 h-7 text-rose-600 bg-white border border-rose-200 rounded-lg hover:bg-rose-50 transition"
+                            aria-label={`Remove leg ${index + 1}`}
                           >
                             <IconClose />
                           </button>
-                        )}
+                        </div>
                       </div>
                     ))}
                   </div>
-                  {parlayTeams.filter(t => t.trim()).length > 0 && (
+                  {completeLegs.length > 0 && (
                     <div className="mt-3 text-xs text-[#0043d6]">
-                      <span className="font-medium">Preview:</span> {parlayTeams.filter(t => t.trim()).join(' & ')}
+                      <span className="font-medium">Ticket:</span> {legsSummary(completeLegs, tease)}
+                      {computedOdds !== null && <span className="ml-2 font-semibold">({computedOdds > 0 ? '+' : ''}{computedOdds})</span>}
                     </div>
                   )}
+                  {legs.length === 0 && (
+                    <p className="text-xs text-slate-500">Add legs to price and auto-grade the ticket, or describe it below as free text.</p>
+                  )}
                 </div>
               )}
 
@@ -851,7 +1505,7 @@ export default function BetAdminPage() {
                     className={fieldCls}
                   />
                 </div>
-              ) : formData.betType !== 'parlay' && (
+              ) : formData.betType !== 'parlay' && !(isMultiLeg && legs.length > 0) && (
                 <div className="grid grid-cols-2 gap-3">
                   <div>
                     <label className={labelCls}>
@@ -976,6 +1630,65 @@ export default function BetAdminPage() {
                 </div>
               </div>
 
+              {/* Fractional-Kelly stake for new bets */}
+              {!editingBet && (
+                <div className="rounded-lg border border-slate-200 bg-slate-50 p-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className={labelCls}>Win probability</label>
+                      <select
+                        value={winProbSource}
+                        onChange={(e) => { setWinProbSource(e.target.value as WinProbSource); setWinProbInput(''); }}
+                        className={fieldCls}
+                      >
+                        {WIN_PROB_SOURCES.map(src => (
+                          <option key={src.id} value={src.id}>{src.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className={labelCls}>&nbsp;</label>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={winProbInput}
+                        onChange={(e) => setWinProbInput(e.target.value)}
+                        placeholder={WIN_PROB_SOURCES.find(src => src.id === winProbSource)?.placeholder}
+                        className={fieldCls}
+                      />
+                    </div>
+                  </div>
+                  <div className="mt-2 flex items-center justify-between gap-3 text-xs text-slate-600">
+                    {bankroll.currency !== 'dollars' ? (
+                      <span>Add a starting deposit under Bankroll to size stakes.</span>
+                    ) : winProb === null ? (
+                      <span>
+                        {winProbSource === 'projection' && formData.betType !== 'spread' && formData.betType !== 'moneyline'
+                          ? 'Projected spread works for spreads and moneylines.'
+                          : 'Enter a price or projection to get a suggested stake.'}
+                      </span>
+                    ) : stakeSuggestion && stakeSuggestion.fraction > 0 ? (
+                      <>
+                        <span className="tabular-nums">
+                          {(winProb * 100).toFixed(1)}% · {bankrollSettings.kellyMultiplier}× Kelly:{' '}
+                          <span className="font-semibold text-slate-900">{stakeSuggestion.units}u</span> ({fmtDollars(stakeSuggestion.dollars)})
+                          {stakeSuggestion.capped && ` · capped at ${bankrollSettings.maxBetPct}%`}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setFormData({ ...formData, stake: stakeSuggestion.units })}
+                          className="px-2.5 py-1 rounded-full font-semibold text-[#0052ff] bg-white border border-slate-200 hover:bg-slate-100 transition"
+                        >
+                          Use
+                        </button>
+                      </>
+                    ) : (
+                      <span className="tabular-nums">{(winProb * 100).toFixed(1)}% — no edge at {formData.odds > 0 ? `+${formData.odds}` : formData.odds}, Kelly says pass.</span>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div>
                 <label className={labelCls}>Notes (optional)</label>
                 <textarea
@@ -1005,7 +1718,7 @@ export default function BetAdminPage() {
                     setEditingBet(null);
                     setFormData(getInitialFormState());
                     setOddsInput('-110');
-                    setParlayTeams(['', '']);
+                    setLegs([]);
                   }}
                   className="px-4 py-2 bg-slate-100 text-slate-700 rounded-full text-sm font-medium hover:bg-slate-200 transition"
                 >
@@ -1089,6 +1802,9 @@ export default function BetAdminPage() {
 
                   <div className="text-sm font-semibold text-[#0052ff] mb-3">
                     {bet.bet}
+                    {bet.status === 'pending' && bet.reviewReason && (
+                      <div className="text-xs font-medium text-amber-600 mt-0.5">{bet.reviewReason}</div>
+                    )}
                   </div>
 
                   <div className="flex justify-between items-center text-xs">
@@ -1198,7 +1914,12 @@ export default function BetAdminPage() {
                           </div>
                         </div>
                       </td>
-                      <td className="px-4 py-3 font-medium text-[#0052ff]">{bet.bet}</td>
+                      <td className="px-4 py-3 font-medium text-[#0052ff]">
+                        {bet.bet}
+                        {bet.status === 'pending' && bet.reviewReason && (
+                          <div className="text-xs font-medium text-amber-600">{bet.reviewReason}</div>
+                        )}
+                      </td>
                       <td className="px-4 py-3 text-right tabular-nums text-slate-700">{bet.odds > 0 ? '+' : ''}{bet.odds}</td>
                       <td className="px-4 py-3 text-right tabular-nums text-slate-700">{bet.stake}</td>
                       <td className="px-4 py-3">
@@ -1252,7 +1973,7 @@ export default function BetAdminPage() {
                 </div>
                 <div className="text-sm font-medium text-slate-900">No {filter !== 'all' ? filter : ''} bets</div>
                 <div className="text-xs text-slate-500 mt-1">
-                  {filter === 'pending' ? 'Add a bet to see it here.' : filter === 'completed' ? 'Graded bets will appear here.' : 'Your bet history is empty.'}
+                  {filter === 'pending' ? 'Add a bet to see it here.' : filter === 'review' ? 'Nothing waiting on a hand grade.' : filter === 'completed' ? 'Graded bets will appear here.' : 'Your bet history is empty.'}
                 </div>
               </div>
             )}
@@ -0,0 +1,323 @@
+'use client';
+
+// src/app/admin/line-alerts/page.tsx
+// Admin: line-move / steam alert rules, a manual run (or dry-run preview) of
+// the Discord sender, and the alerts it has posted recently.
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LEAGUES } from '@/lib/api';
+import { LINE_ALERT_KINDS, type AlertMarket, type LineAlert, type LineAlertKind, type LineAlertRule } from '@/lib/lineAlerts';
+
+interface SentAlert {
+  key: string;
+  kind: LineAlertKind;
+  sport_key: string;
+  market: AlertMarket;
+  home_team: string;
+  away_team: string;
+  detail: string;
+  sent_at: string;
+}
+
+interface RunResult {
+  dryRun: boolean;
+  rules: number;
+  boardsFetched: number;
+  games: number;
+  detected: number;
+  sent: number;
+  alerts: LineAlert[];
+  errors: string[];
+}
+
+const thCls = 'px-3 py-2.5 text-left text-xs uppercase tracking-wide text-slate-500 shadow-[inset_0_-1px_0_#e2e8f0]';
+const fieldCls =
+  'px-2 py-1 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0052ff]/25 focus:border-[#0052ff]';
+const labelCls = 'block text-xs font-medium text-slate-500 mb-1';
+
+const leagueName = (sportKey: string) => LEAGUES.find((l) => l.id === sportKey)?.name ?? sportKey;
+const kindLabel = (kind: LineAlertKind) => LINE_ALERT_KINDS.find((k) => k.kind === kind)?.label ?? kind;
+
+const NEW_RULE: LineAlertRule = {
+  kind: 'move', sportKey: 'basketball_ncaab', market: 'spreads', threshold: 1.5, windowMinutes: 60, minBooks: 1, enabled: true,
+};
+
+export default function LineAlertsAdminPage() {
+  const router = useRouter();
+
+  const [rules, setRules] = useState<LineAlertRule[]>([]);
+  const [sent, setSent] = useState<SentAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LineAlertRule>(NEW_RULE);
+  const [running, setRunning] = useState(false);
+  const [run, setRun] = useState<RunResult | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/line-alerts');
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setRules(json.rules);
+      setSent(json.sent);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load alert rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const saveRule = async (rule: LineAlertRule) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/line-alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rule),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setMessage(`Saved ${kindLabel(rule.kind)} · ${leagueName(rule.sportKey)} ${rule.market}`);
+      if (!rule.id) setDraft(NEW_RULE);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Save failed');
+    }
+  };
+
+  const deleteRule = async (rule: LineAlertRule) => {
+    if (!rule.id || !window.confirm(`Delete ${kindLabel(rule.kind)} · ${leagueName(rule.sportKey)} ${rule.market}?`)) return;
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/line-alerts?id=${rule.id}`, { method: 'DELETE' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Delete failed');
+    }
+  };
+
+  const runAlerts = async (dryRun: boolean) => {
+    setRunning(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/send-line-alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setRun(json);
+      if (!dryRun) await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Run failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const updateRule = (index: number, patch: Partial<LineAlertRule>) =>
+    setRules((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const ruleFields = (rule: LineAlertRule, onChange: (patch: Partial<LineAlertRule>) => void) => (
+    <>
+      <td className="px-3 py-2">
+        <select value={rule.kind} onChange={(e) => onChange({ kind: e.target.value as LineAlertKind })} className={fieldCls}>
+          {LINE_ALERT_KINDS.map((k) => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+        </select>
+      </td>
+      <td className="px-3 py-2">
+        <select value={rule.sportKey} onChange={(e) => onChange({ sportKey: e.target.value })} className={fieldCls}>
+          {LEAGUES.map((l) => <option key={l.id} value={l.id}>{l.name}</option>)}
+        </select>
+      </td>
+      <td className="px-3 py-2">
+        <select value={rule.market} onChange={(e) => onChange({ market: e.target.value as AlertMarket })} className={fieldCls}>
+          <option value="spreads">Spread</option>
+          <option value="totals">Total</option>
+        </select>
+      </td>
+      <td className="px-3 py-2">
+        <input
+          type="number" step={0.5} min={0} value={rule.threshold}
+          title={LINE_ALERT_KINDS.find((k) => k.kind === rule.kind)?.threshold}
+          onChange={(e) => onChange({ threshold: parseFloat(e.target.value) || 0 })}
+          className={`${fieldCls} w-20 text-right tabular-nums`}
+        />
+      </td>
+      <td className="px-3 py-2">
+        <input
+          type="number" step={5} min={0} value={rule.windowMinutes}
+          disabled={rule.kind === 'kalshi'}
+          onChange={(e) => onChange({ windowMinutes: parseInt(e.target.value, 10) || 0 })}
+          className={`${fieldCls} w-20 text-right tabular-nums disabled:opacity-40`}
+        />
+      </td>
+      <td className="px-3 py-2">
+        <input
+          type="number" min={1} value={rule.minBooks}
+          disabled={rule.kind !== 'steam'}
+          onChange={(e) => onChange({ minBooks: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+          className={`${fieldCls} w-16 text-right tabular-nums disabled:opacity-40`}
+        />
+      </td>
+      <td className="px-3 py-2 text-center">
+        <input type="checkbox" checked={rule.enabled} onChange={(e) => onChange({ enabled: e.target.checked })} />
+      </td>
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-white/90 backdrop-blur border-b border-slate-200">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between gap-3 h-12">
+            <div className="flex items-center gap-0.5 min-w-0">
+              <button
+                onClick={() => router.push('/')}
+                aria-label="Back"
+                className="inline-flex items-center justify-center w-7 h-7 -ml-1.5 rounded-full text-slate-500 hover:bg-slate-100 hover:text-slate-900 transition"
+              >
+                <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><path d="M19 12H5M12 19l-7-7 7-7" /></svg>
+              </button>
+              <h1 className="text-base font-bold tracking-tight truncate">Line Alerts</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => runAlerts(true)}
+                disabled={running}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 transition"
+              >
+                Preview
+              </button>
+              <button
+                onClick={() => runAlerts(false)}
+                disabled={running}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-semibold text-white bg-[#0052ff] hover:bg-[#0043d6] disabled:opacity-40 transition"
+              >
+                {running ? 'Running…' : 'Run Now'}
+              </button>
+              <button
+                onClick={() => router.push('/admin/bets')}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
+              >
+                Bet Admin
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 py-6 space-y-4">
+        {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+        {message && <div className="p-3 bg-emerald-50 border border-emerald-200 rounded-lg text-sm text-emerald-700">{message}</div>}
+
+        {/* Run result */}
+        {run && (
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-2 text-sm">
+            <div className="text-slate-600">
+              {run.dryRun ? 'Preview' : 'Run'}: {run.rules} rules over {run.games} upcoming games ({run.boardsFetched} boards
+              fetched) — {run.detected} detected,{' '}
+              {run.alerts.length} new{run.dryRun ? ' (not posted)' : `, ${run.sent} posted`}.
+            </div>
+            {run.errors.map((e) => <div key={e} className="text-xs text-red-600">{e}</div>)}
+            {run.alerts.map((a) => (
+              <div key={a.key} className="text-xs">
+                <span className="font-medium">{kindLabel(a.kind)}</span>{' '}
+                <span className="text-slate-500">{leagueName(a.sportKey)} · {a.awayTeam} @ {a.homeTeam}</span>{' '}
+                — {a.detail}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Rules */}
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className={thCls}>Kind</th>
+                <th className={thCls}>League</th>
+                <th className={thCls}>Market</th>
+                <th className={thCls}>Threshold</th>
+                <th className={thCls}>Window (min)</th>
+                <th className={thCls}>Books</th>
+                <th className={`${thCls} text-center`}>On</th>
+                <th className={thCls} />
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr><td colSpan={8} className="px-3 py-6 text-center text-slate-400">Loading…</td></tr>
+              ) : (
+                rules.map((rule, i) => (
+                  <tr key={rule.id} className="border-b border-slate-100">
+                    {ruleFields(rule, (patch) => updateRule(i, patch))}
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <button onClick={() => saveRule(rule)} className="text-xs font-medium text-[#0052ff] hover:underline mr-3">Save</button>
+                      <button onClick={() => deleteRule(rule)} className="text-xs font-medium text-red-600 hover:underline">Delete</button>
+                    </td>
+                  </tr>
+                ))
+              )}
+              {!loading && !rules.length && (
+                <tr><td colSpan={8} className="px-3 py-6 text-center text-slate-400">No rules yet. Add one below, or run sql/line_alerts.sql to seed the defaults.</td></tr>
+              )}
+              <tr className="bg-slate-50">
+                {ruleFields(draft, (patch) => setDraft((d) => ({ ...d, ...patch })))}
+                <td className="px-3 py-2 text-right">
+                  <button
+                    onClick={() => saveRule(draft)}
+                    className="px-3 py-1 text-xs font-semibold rounded-full bg-[#0052ff] text-white hover:bg-[#0043d6] transition"
+                  >
+                    + Add
+                  </button>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="text-xs text-slate-400 space-y-0.5">
+          {LINE_ALERT_KINDS.map((k) => (
+            <div key={k.kind}><span className="font-medium text-slate-500">{k.label}</span> — threshold is {k.threshold.toLowerCase()}.</div>
+          ))}
+          <div>Spreads are the home team&apos;s number; the consensus is the median across books. Projection cross uses the NCAAB ratings only.</div>
+        </div>
+
+        {/* Recently posted */}
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+          <label className={labelCls}>Recently Posted</label>
+          {sent.length === 0 ? (
+            <div className="text-sm text-slate-400">Nothing posted yet.</div>
+          ) : (
+            <div className="space-y-1">
+              {sent.map((a) => (
+                <div key={a.key} className="text-xs flex gap-2">
+                  <span className="text-slate-400 tabular-nums whitespace-nowrap">{new Date(a.sent_at).toLocaleString()}</span>
+                  <span className="font-medium whitespace-nowrap">{kindLabel(a.kind)}</span>
+                  <span className="text-slate-500 whitespace-nowrap">{leagueName(a.sport_key)} · {a.away_team} @ {a.home_team}</span>
+                  <span className="text-slate-600">{a.detail}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
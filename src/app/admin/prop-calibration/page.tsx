@@ -0,0 +1,345 @@
+'use client';
+
+// src/app/admin/prop-calibration/page.tsx
+// Prop Calibration: is the prop model honest? Every line the Pricer and the
+// Prop Table price is logged (sql/prop_predictions.sql) and graded from the
+// game logs after each sync. This page reads the log back: a reliability
+// diagram (predicted P(over) vs how often it went over), Brier and log-loss
+// by market and by curve, and the realised ROI of the value picks split by
+// volatility setting.
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { PropLeague, Distribution, marketByKey, propMarketsFor } from '@/lib/props/markets';
+import {
+  PropPrediction, ReliabilityBin, ScoreSummary, reliabilityBins, scoreBy, scorePredictions, valueRoi,
+} from '@/lib/props/calibration';
+import { fetchPredictions } from '@/lib/props/predictionService';
+
+const fieldCls =
+  'px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0052ff]/25 focus:border-[#0052ff]';
+const labelCls = 'block text-xs font-medium text-slate-500 mb-1';
+const cardCls = 'bg-white rounded-xl border border-slate-200 shadow-sm p-4';
+const btnCls =
+  'px-3 py-1.5 text-xs font-semibold rounded-full bg-[#0052ff] text-white hover:bg-[#0043d6] disabled:opacity-40 disabled:cursor-not-allowed transition';
+
+const DIST_LABELS: Record<Distribution, string> = {
+  normal: 'Balanced', lognormal: 'Boom/Bust', poisson: 'Poisson', negbin: 'Neg Binomial',
+};
+const SD_LABELS: Record<string, string> = {
+  measured: 'Measured', tier: 'Tier', league: 'League', custom: 'Custom',
+};
+
+const fmtPct = (p: number, dp = 1): string => (Number.isFinite(p) ? `${(p * 100).toFixed(dp)}%` : '—');
+const fmtNum = (x: number, dp = 3): string => (Number.isFinite(x) ? x.toFixed(dp) : '—');
+
+// ---- reliability diagram ----
+
+const SIZE = 260;
+const PAD = 28;
+const scale = (p: number) => PAD + p * (SIZE - 2 * PAD);
+
+function ReliabilityChart({ bins }: { bins: ReliabilityBin[] }) {
+  const maxN = Math.max(1, ...bins.map((b) => b.n));
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-xs">
+      {ticks.map((t) => (
+        <g key={t}>
+          <line x1={scale(t)} y1={SIZE - scale(0)} x2={scale(t)} y2={SIZE - scale(1)} stroke="#f1f5f9" />
+          <line x1={scale(0)} y1={SIZE - scale(t)} x2={scale(1)} y2={SIZE - scale(t)} stroke="#f1f5f9" />
+          <text x={scale(t)} y={SIZE - 8} fontSize={9} textAnchor="middle" fill="#94a3b8">{Math.round(t * 100)}</text>
+          <text x={10} y={SIZE - scale(t) + 3} fontSize={9} textAnchor="middle" fill="#94a3b8">{Math.round(t * 100)}</text>
+        </g>
+      ))}
+      {/* Perfect calibration */}
+      <line x1={scale(0)} y1={SIZE - scale(0)} x2={scale(1)} y2={SIZE - scale(1)} stroke="#cbd5e1" strokeDasharray="4 3" />
+      <polyline
+        fill="none"
+        stroke="#0052ff"
+        strokeWidth={1.5}
+        points={bins.filter((b) => b.n > 0).map((b) => `${scale(b.meanP)},${SIZE - scale(b.hitRate)}`).join(' ')}
+      />
+      {bins.filter((b) => b.n > 0).map((b) => (
+        <circle
+          key={b.lo}
+          cx={scale(b.meanP)}
+          cy={SIZE - scale(b.hitRate)}
+          r={2.5 + 5 * Math.sqrt(b.n / maxN)}
+          fill="#0052ff"
+          fillOpacity={0.75}
+        >
+          <title>{`${Math.round(b.lo * 100)}–${Math.round(b.hi * 100)}%: predicted ${fmtPct(b.meanP)}, went over ${fmtPct(b.hitRate)} (${b.n})`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+function ScoreTable({ title, rows, label }: {
+  title: string;
+  rows: { key: string; summary: ScoreSummary }[];
+  label: (key: string) => string;
+}) {
+  return (
+    <div className={cardCls}>
+      <div className="text-sm font-semibold mb-2">{title}</div>
+      {rows.length === 0 ? (
+        <div className="text-xs text-slate-400">Nothing graded yet.</div>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-slate-500 uppercase tracking-wide">
+              <th className="py-1.5 pr-3" />
+              <th className="py-1.5 pr-3 text-right">N</th>
+              <th className="py-1.5 pr-3 text-right">Avg P(O)</th>
+              <th className="py-1.5 pr-3 text-right">Went over</th>
+              <th className="py-1.5 pr-3 text-right">Brier</th>
+              <th className="py-1.5 text-right">Log-loss</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ key, summary: s }) => (
+              <tr key={key} className="border-t border-slate-100">
+                <td className="py-1.5 pr-3 font-medium">{label(key)}</td>
+                <td className="py-1.5 pr-3 text-right tabular-nums">{s.n}</td>
+                <td className="py-1.5 pr-3 text-right tabular-nums">{fmtPct(s.meanP)}</td>
+                <td className="py-1.5 pr-3 text-right tabular-nums">{fmtPct(s.hitRate)}</td>
+                <td className="py-1.5 pr-3 text-right tabular-nums">{fmtNum(s.brier)}</td>
+                <td className="py-1.5 text-right tabular-nums">{fmtNum(s.logLoss)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function PropCalibrationPage() {
+  const router = useRouter();
+  const [league, setLeague] = useState<PropLeague>('NFL');
+  const [preds, setPreds] = useState<PropPrediction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [grading, setGrading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [marketFilter, setMarketFilter] = useState('all');
+  const [distFilter, setDistFilter] = useState<'all' | Distribution>('all');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setPreds(await fetchPredictions(league));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load predictions');
+    } finally {
+      setLoading(false);
+    }
+  }, [league]);
+
+  useEffect(() => {
+    setMarketFilter('all');
+    load();
+  }, [load]);
+
+  const gradeNow = async () => {
+    setGrading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/prop-predictions/grade?league=${league}`, { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setMessage(`Checked ${json.checked}: ${json.graded} graded, ${json.voided} DNP, ${json.expired} expired, ${json.waiting} waiting on games or logs`);
+      await load();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Grading failed');
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  const filtered = useMemo(
+    () => preds.filter((p) =>
+      (marketFilter === 'all' || p.market === marketFilter) && (distFilter === 'all' || p.dist === distFilter)),
+    [preds, marketFilter, distFilter]
+  );
+
+  const overall = useMemo(() => scorePredictions(filtered), [filtered]);
+  const bins = useMemo(() => reliabilityBins(filtered), [filtered]);
+  const byMarket = useMemo(() => scoreBy(filtered, (p) => p.market), [filtered]);
+  const byDist = useMemo(() => scoreBy(filtered, (p) => p.dist), [filtered]);
+  const roi = useMemo(() => valueRoi(filtered), [filtered]);
+
+  const counts = useMemo(() => ({
+    logged: filtered.length,
+    open: filtered.filter((p) => !p.result).length,
+    dnp: filtered.filter((p) => p.result === 'dnp').length,
+    expired: filtered.filter((p) => p.result === 'expired').length,
+    push: filtered.filter((p) => p.result === 'push').length,
+  }), [filtered]);
+
+  const marketLabel = (key: string) => marketByKey(key)?.label ?? key;
+  const leagueMarkets = propMarketsFor(league);
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      <div className="sticky top-0 z-10 bg-white/90 backdrop-blur border-b border-slate-200">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6">
+          <div className="flex items-center justify-between gap-3 h-12">
+            <div className="flex items-center gap-0.5 min-w-0">
+              <button
+                onClick={() => router.push('/admin/props')}
+                aria-label="Back"
+                className="inline-flex items-center justify-center w-7 h-7 -ml-1.5 rounded-full text-slate-500 hover:bg-slate-100 hover:text-slate-900 transition"
+              >
+                <svg width={16} height={16} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round"><path d="M19 12H5M12 19l-7-7 7-7" /></svg>
+              </button>
+              <h1 className="text-base font-bold tracking-tight truncate">Prop Calibration</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => router.push('/admin/prop-table')}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
+              >
+                Table
+              </button>
+              <button
+                onClick={() => router.push('/admin/props')}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
+              >
+                Pricer
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 py-4 space-y-4">
+        <div className={`${cardCls} space-y-3`}>
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className={labelCls}>League</label>
+              <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+                {(['NFL', 'NBA'] as const).map((lg) => (
+                  <button
+                    key={lg}
+                    onClick={() => setLeague(lg)}
+                    className={`px-3 py-2 text-xs font-medium transition ${
+                      league === lg ? 'bg-[#0052ff] text-white' : 'bg-white text-slate-600 hover:bg-slate-50'
+                    }`}
+                  >
+                    {lg}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className={labelCls}>Market</label>
+              <select value={marketFilter} onChange={(e) => setMarketFilter(e.target.value)} className={fieldCls}>
+                <option value="all">All markets</option>
+                {leagueMarkets.map((m) => <option key={m.key} value={m.key}>{m.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelCls}>Curve</label>
+              <select value={distFilter} onChange={(e) => setDistFilter(e.target.value as 'all' | Distribution)} className={fieldCls}>
+                <option value="all">All curves</option>
+                {(Object.keys(DIST_LABELS) as Distribution[]).map((d) => <option key={d} value={d}>{DIST_LABELS[d]}</option>)}
+              </select>
+            </div>
+            <button onClick={gradeNow} disabled={grading || loading} className={btnCls}>
+              {grading ? 'Grading…' : 'Grade now'}
+            </button>
+          </div>
+          <div className="text-[11px] leading-snug text-slate-400">
+            {loading ? 'Loading…' : (
+              `${counts.logged} logged · ${overall.n} graded · ${counts.open} open · ${counts.push} push · ${counts.dnp} DNP · ${counts.expired} expired. `
+            )}
+            Every line the Pricer and the Prop Table price is logged; a sync grades them against the player&apos;s
+            next game. Pushes and DNPs are voids and sit out of the scores.
+          </div>
+        </div>
+
+        {error && <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>}
+        {message && <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-3 text-sm text-emerald-700">{message}</div>}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className={cardCls}>
+            <div className="text-sm font-semibold">Reliability</div>
+            <div className="text-[11px] text-slate-400 mb-2">
+              Predicted P(over) (x) vs share that went over (y), both with pushes left out. On the dashed line =
+              calibrated; below it = overs overrated.
+            </div>
+            <ReliabilityChart bins={bins} />
+          </div>
+          <div className={cardCls}>
+            <div className="text-sm font-semibold mb-2">Overall</div>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <div className="text-[10px] uppercase tracking-wide text-slate-400">Brier</div>
+                <div className="font-semibold tabular-nums">{fmtNum(overall.brier)}</div>
+              </div>
+              <div>
+                <div className="text-[10px] uppercase tracking-wide text-slate-400">Log-loss</div>
+                <div className="font-semibold tabular-nums">{fmtNum(overall.logLoss)}</div>
+              </div>
+              <div>
+                <div className="text-[10px] uppercase tracking-wide text-slate-400">Avg P(over)</div>
+                <div className="tabular-nums">{fmtPct(overall.meanP)}</div>
+              </div>
+              <div>
+                <div className="text-[10px] uppercase tracking-wide text-slate-400">Went over</div>
+                <div className="tabular-nums">{fmtPct(overall.hitRate)}</div>
+              </div>
+            </div>
+            <div className="text-[11px] text-slate-400 mt-2">
+              Coin-flip baseline: Brier 0.250, log-loss 0.693. Lower is better.
+            </div>
+
+            <div className="text-sm font-semibold mt-4 mb-2">Value picks by volatility</div>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-500 uppercase tracking-wide">
+                  <th className="py-1.5 pr-3" />
+                  <th className="py-1.5 pr-3 text-right">Picks</th>
+                  <th className="py-1.5 pr-3 text-right">W-L-P</th>
+                  <th className="py-1.5 pr-3 text-right">Units</th>
+                  <th className="py-1.5 text-right">ROI</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.keys(roi).length === 0 && (
+                  <tr><td colSpan={5} className="py-1.5 text-slate-400">No graded value picks yet.</td></tr>
+                )}
+                {Object.entries(roi).map(([mode, r]) => (
+                  <tr key={mode} className="border-t border-slate-100">
+                    <td className="py-1.5 pr-3 font-medium">{SD_LABELS[mode] ?? mode}</td>
+                    <td className="py-1.5 pr-3 text-right tabular-nums">{r.picks}</td>
+                    <td className="py-1.5 pr-3 text-right tabular-nums">{r.won}-{r.lost}-{r.pushed}</td>
+                    <td className={`py-1.5 pr-3 text-right tabular-nums ${r.profit >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {r.profit >= 0 ? '+' : ''}{r.profit.toFixed(2)}
+                    </td>
+                    <td className={`py-1.5 text-right tabular-nums ${r.roi >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {r.roi >= 0 ? '+' : ''}{(r.roi * 100).toFixed(1)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="text-[11px] text-slate-400 mt-1">
+              Value pick = the side with positive EV at the best logged price, 1 unit each.
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <ScoreTable title="By market" rows={byMarket} label={marketLabel} />
+          <ScoreTable title="By curve" rows={byDist} label={(k) => DIST_LABELS[k as Distribution] ?? k} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,23 +3,28 @@
 // src/app/admin/prop-table/page.tsx
 // Prop Table: board-wide value scan for one prop market. Every player with a
 // posted line gets auto-priced with the STANDARD SETTINGS at the top
-// (projection = measured mean of the latest season, volatility per setting,
-// curve = shape-aware auto), then ranked best value first with incremental
+// (projection = measured mean of the latest season or the matchup-adjusted
+// projection, volatility per setting, curve = shape-aware auto), then ranked best value first with incremental
 // scroll to the worst. Rows deep-link into the Prop Pricer via its
 // localStorage persistence key.
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { probOver, probToAmerican, expectedValue, devig } from '@/lib/props/engine';
-import { PROP_MARKETS, PROP_BOOKS, PropMarketDef, PlayerGameLog, Distribution } from '@/lib/props/markets';
-import { measurePlayer } from '@/lib/props/reference';
+import { probOver, probUnder, probPush, probToAmerican, expectedValue, devig } from '@/lib/props/engine';
+import {
+  PROP_MARKETS, PROP_BOOKS, PROP_LEAGUES, PROP_SPORTS, PropMarketDef, PlayerGameLog, Distribution,
+  leagueForSport, propMarketsFor, referencePosition, quoteSide,
+} from '@/lib/props/markets';
+import { autoDistribution, measurePlayer } from '@/lib/props/reference';
+import {
+  DefenseTable, ProjectionMode, gameSide, impliedTeamTotal, matchupProjection,
+} from '@/lib/props/projection';
+import { consensusClose } from '@/lib/clv';
+import { buildPrediction } from '@/lib/props/calibration';
+import { logPredictions } from '@/lib/props/predictionService';
+import type { OddsAPIGame } from '@/lib/ratings/types';
 import { KalshiRung, kalshiCostToAmerican, fetchKalshiRungs } from '@/lib/props/kalshiProps';
 
-const NFL_SPORTS = [
-  { key: 'americanfootball_nfl', label: 'NFL' },
-  { key: 'americanfootball_nfl_preseason', label: 'Preseason' },
-];
-
 const fieldCls =
   'px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0052ff]/25 focus:border-[#0052ff]';
 const labelCls = 'block text-xs font-medium text-slate-500 mb-1';
@@ -32,6 +37,8 @@ const normName = (s: string): string =>
 const fmtAmerican = (o: number | null | undefined): string =>
   o === null || o === undefined || Number.isNaN(o) ? '—' : o > 0 ? `+${o}` : `${o}`;
 
+const fmtDelta = (x: number): string => `${x >= 0 ? '+' : '−'}${Math.abs(x).toFixed(1)}`;
+
 const evCls = (ev: number | null): string =>
   ev === null ? 'text-slate-400'
     : ev > 0.02 ? 'text-emerald-600 font-semibold'
@@ -62,6 +69,7 @@ interface Row {
   match: PlayerSearchResult | null;
   games: number;
   projection: number | null;
+  projDetail: string | null; // matchup breakdown (hover on Proj)
   sd: number | null;
   dist: Distribution | null;
   line: number;
@@ -77,13 +85,15 @@ interface Row {
   valueSide: 'Over' | 'Under' | null;
   note: string | null;      // why unpriced (no logs / thin history / no prices)
   kalshiStrike?: number;    // set on Kalshi ladder-rung rows (Over = Yes, Under = No)
+  kalshiTicker?: string;
 }
 
 export default function PropTablePage() {
   const router = useRouter();
-  const [sportKey, setSportKey] = useState(NFL_SPORTS[0].key);
+  const [sportKey, setSportKey] = useState(PROP_SPORTS[0].key);
   const [marketKey, setMarketKey] = useState('rec_yds');
   const [sdSetting, setSdSetting] = useState<SdSetting>('measured');
+  const [projMode, setProjMode] = useState<ProjectionMode>('measured');
   const [minGames, setMinGames] = useState('6');
   const [loading, setLoading] = useState(false);
   const [progress, setProgress] = useState('');
@@ -97,11 +107,25 @@ export default function PropTablePage() {
     [marketKey]
   );
 
+  const league = leagueForSport(sportKey);
+  const propsApi = PROP_LEAGUES[league].api;
+  const leagueMarkets = useMemo(() => propMarketsFor(league), [league]);
+
   // Per-session caches: player-name -> search match, player_id -> game logs.
   const matchCache = useRef(new Map<string, PlayerSearchResult | null>());
   const logsCache = useRef(new Map<string, PlayerGameLog[]>());
   const referenceRef = useRef<PropReferenceLite | null>(null);
 
+  // The caches and the board belong to one league's game logs — a league
+  // switch drops them and lands on that league's first market.
+  useEffect(() => {
+    matchCache.current.clear();
+    logsCache.current.clear();
+    referenceRef.current = null;
+    setRows([]);
+    setMarketKey((k) => (leagueMarkets.some((m) => m.key === k) ? k : leagueMarkets[0].key));
+  }, [leagueMarkets]);
+
   const sentinel = useRef<HTMLDivElement>(null);
   useEffect(() => {
     const el = sentinel.current;
@@ -118,12 +142,12 @@ export default function PropTablePage() {
     if (matchCache.current.has(key)) return matchCache.current.get(key) ?? null;
     let match: PlayerSearchResult | null = null;
     try {
-      let res = await fetch(`/api/nfl-props/players?q=${encodeURIComponent(name)}`);
+      let res = await fetch(`${propsApi}/players?q=${encodeURIComponent(name)}`);
       let players: PlayerSearchResult[] = (await res.json()).players ?? [];
       if (!players.length) {
         const surname = name.trim().split(/\s+/).pop() ?? '';
         if (surname.length >= 2) {
-          res = await fetch(`/api/nfl-props/players?q=${encodeURIComponent(surname)}`);
+          res = await fetch(`${propsApi}/players?q=${encodeURIComponent(surname)}`);
           players = (await res.json()).players ?? [];
         }
       }
@@ -132,20 +156,20 @@ export default function PropTablePage() {
     } catch { /* leave null */ }
     matchCache.current.set(key, match);
     return match;
-  }, []);
+  }, [propsApi]);
 
   const getLogs = useCallback(async (playerId: string): Promise<PlayerGameLog[]> => {
     const hit = logsCache.current.get(playerId);
     if (hit) return hit;
     try {
-      const res = await fetch(`/api/nfl-props/players?playerId=${encodeURIComponent(playerId)}`);
+      const res = await fetch(`${propsApi}/players?playerId=${encodeURIComponent(playerId)}`);
       const games: PlayerGameLog[] = (await res.json()).games ?? [];
       logsCache.current.set(playerId, games);
       return games;
     } catch {
       return [];
     }
-  }, []);
+  }, [propsApi]);
 
   const loadBoard = useCallback(async () => {
     setLoading(true);
@@ -156,7 +180,7 @@ export default function PropTablePage() {
       // Reference (tier/league multipliers) — once per session
       if (!referenceRef.current) {
         try {
-          const r = await fetch('/api/nfl-props/reference');
+          const r = await fetch(`${propsApi}/reference`);
           referenceRef.current = (await r.json()).reference ?? {};
         } catch { referenceRef.current = {}; }
       }
@@ -177,6 +201,7 @@ export default function PropTablePage() {
       // Quotes per player across ALL events (main-line market only — alts cost extra)
       interface Q { side: 'over' | 'under'; price: number; point: number; book: string }
       const quotesByPlayer = new Map<string, Q[]>();
+      const eventByPlayer = new Map<string, OddsEvent>();
       const capped = events.slice(0, 20);
       for (let i = 0; i < capped.length; i++) {
         setProgress(`odds ${i + 1}/${capped.length}…`);
@@ -191,11 +216,12 @@ export default function PropTablePage() {
             for (const mkt of bm.markets ?? []) {
               if (mkt.key !== marketDef.oddsApiKey) continue;
               for (const oc of mkt.outcomes ?? []) {
-                const side = oc.name?.toLowerCase();
-                if ((side !== 'over' && side !== 'under') || !oc.description || oc.price === undefined || oc.point === undefined) continue;
+                const q = quoteSide(marketDef, oc);
+                if (!q || !oc.description || oc.price === undefined) continue;
                 const list = quotesByPlayer.get(oc.description) ?? [];
-                list.push({ side, price: oc.price, point: oc.point, book: bm.title ?? '?' });
+                list.push({ side: q.side, price: oc.price, point: q.point, book: bm.title ?? '?' });
                 quotesByPlayer.set(oc.description, list);
+                eventByPlayer.set(oc.description, capped[i]);
               }
             }
           }
@@ -211,6 +237,39 @@ export default function PropTablePage() {
         return;
       }
 
+      // Matchup mode: ESPN team map (log team → side of the game), the main
+      // board for spreads/totals, and one defense table per position.
+      let teams: Record<string, { abbreviation?: string }> | null = null;
+      let board: OddsAPIGame[] = [];
+      const defenseByPos = new Map<string, Promise<DefenseTable | null>>();
+      if (projMode === 'matchup') {
+        setProgress('loading game lines…');
+        try {
+          const [teamsRes, boardRes] = await Promise.all([
+            fetch(`/api/bet-team-logos?league=${league}`),
+            fetch(`/api/odds?sport=${sportKey}`),
+          ]);
+          teams = teamsRes.ok ? (await teamsRes.json()).teams ?? null : null;
+          const rem = boardRes.headers.get('x-requests-remaining');
+          if (rem) setApiRemaining(rem);
+          const json = await boardRes.json();
+          board = boardRes.ok && Array.isArray(json) ? json : [];
+        } catch { /* opponent/environment steps drop out; recency still applies */ }
+      }
+      const defenseFor = (position: string): Promise<DefenseTable | null> => {
+        let p = defenseByPos.get(position);
+        if (!p) {
+          p = fetch(`${propsApi}/defense?market=${marketDef.key}&position=${encodeURIComponent(position)}`)
+            .then(async (res) => {
+              const json = await res.json();
+              return res.ok ? { leagueAllowed: json.leagueAllowed, teams: json.teams ?? {} } : null;
+            })
+            .catch(() => null);
+          defenseByPos.set(position, p);
+        }
+        return p;
+      };
+
       // Price every player with the standard settings
       const names = Array.from(quotesByPlayer.keys());
       const out: Row[] = [];
@@ -220,7 +279,10 @@ export default function PropTablePage() {
       // Model per player (match → logs → measured mean/sd/shape) — shared by
       // book consensus rows and Kalshi rung rows, computed once per player.
       type Model =
-        | { ok: true; match: PlayerSearchResult; games: number; proj: number; sd: number; dist: Distribution }
+        | {
+            ok: true; match: PlayerSearchResult; games: number;
+            proj: number; projDetail: string | null; sd: number; dist: Distribution;
+          }
         | { ok: false; match: PlayerSearchResult | null; games: number; note: string };
       const modelCache = new Map<string, Model>();
 
@@ -238,10 +300,31 @@ export default function PropTablePage() {
         if (!measured || measured.games < minG) {
           return store({ ok: false, match, games: measured?.games ?? 0, note: `thin history (${measured?.games ?? 0} games)` });
         }
-        const proj = measured.mean;
+        let proj = measured.mean;
+        let projDetail: string | null = null;
+        if (projMode === 'matchup') {
+          const event = eventByPlayer.get(name);
+          const side = event && teams ? gameSide(match.team, event, teams, league) : null;
+          const game = side ? board.find((g) => g.id === event?.id) : undefined;
+          const close = game ? consensusClose(game) : null;
+          const teamTotal = side && close && close.spread !== null && close.total !== null
+            ? impliedTeamTotal(close.spread, close.total, side.side)
+            : null;
+          const defenseTable = side ? await defenseFor(referencePosition(marketDef, match.position)) : null;
+          const defense = side && defenseTable ? defenseTable.teams[side.opponent] ?? null : null;
+          const m = matchupProjection(measured, marketDef, { league, defense, teamTotal });
+          proj = m.projection;
+          projDetail = [
+            `avg ${m.base.toFixed(1)}`,
+            `role ${fmtDelta(m.role)}`,
+            `form ${fmtDelta(m.form)}`,
+            defense && side ? `vs ${side.opponent} ${fmtDelta(m.opponent)}` : 'opponent —',
+            teamTotal !== null ? `team total ${teamTotal.toFixed(1)} ${fmtDelta(m.environment)}` : 'team total —',
+          ].join(' · ');
+        }
 
         // Volatility per the standard setting, with graceful fallback
-        const posRef = ref?.markets?.[marketDef.key]?.[match.position];
+        const posRef = ref?.markets?.[marketDef.key]?.[referencePosition(marketDef, match.position)];
         const tierMult = posRef?.tiers.find((t) => proj >= t.min && (t.max === null || proj < t.max))?.multiplier ?? null;
         const leagueMult = posRef?.overall.multiplier ?? null;
         let sd: number | null = null;
@@ -251,10 +334,8 @@ export default function PropTablePage() {
         if (!sd || sd <= 0) return store({ ok: false, match, games: measured.games, note: 'no volatility estimate' });
 
         // Shape-aware auto curve (same rule as the Pricer)
-        const dist: Distribution = measured.games >= 8 && measured.median > 0
-          ? ((measured.mean - measured.median) / measured.median > 0.05 ? 'lognormal' : 'normal')
-          : marketDef.defaultDist;
-        return store({ ok: true, match, games: measured.games, proj, sd, dist });
+        const dist: Distribution = autoDistribution(measured, marketDef).dist;
+        return store({ ok: true, match, games: measured.games, proj, projDetail, sd, dist });
       };
 
       let done = 0;
@@ -273,7 +354,7 @@ export default function PropTablePage() {
 
         const base: Row = {
           key: name, playerName: name, match: null, games: 0,
-          projection: null, sd: null, dist: null, line,
+          projection: null, projDetail: null, sd: null, dist: null, line,
           pOver: null, fairOver: null, fairUnder: null,
           bestOver: bestOver ? { price: bestOver.price, book: bestOver.book } : null,
           bestUnder: bestUnder ? { price: bestUnder.price, book: bestUnder.book } : null,
@@ -282,19 +363,21 @@ export default function PropTablePage() {
 
         const model = await computeModel(name);
         if (!model.ok) return { ...base, match: model.match, games: model.games, note: model.note };
-        const { match, games, proj, sd, dist } = model;
+        const { match, games, proj, projDetail, sd, dist } = model;
 
         const pOver = probOver(proj, sd, line, dist);
-        const evOver = bestOver ? expectedValue(pOver, bestOver.price) : null;
-        const evUnder = bestUnder ? expectedValue(1 - pOver, bestUnder.price) : null;
+        const pPush = probPush(proj, sd, line, dist);
+        const pUnder = probUnder(proj, sd, line, dist);
+        const evOver = bestOver ? expectedValue(pOver, bestOver.price, pPush) : null;
+        const evUnder = bestUnder ? expectedValue(pUnder, bestUnder.price, pPush) : null;
         const value = evOver !== null || evUnder !== null
           ? Math.max(evOver ?? -Infinity, evUnder ?? -Infinity)
           : null;
         return {
           ...base,
           match, games,
-          projection: proj, sd, dist, pOver,
-          fairOver: probToAmerican(pOver), fairUnder: probToAmerican(1 - pOver),
+          projection: proj, projDetail, sd, dist, pOver,
+          fairOver: probToAmerican(pOver / (1 - pPush)), fairUnder: probToAmerican(pUnder / (1 - pPush)),
           evOver, evUnder, value,
           valueSide: value === null ? null : (evOver ?? -Infinity) >= (evUnder ?? -Infinity) ? 'Over' : 'Under',
         };
@@ -334,7 +417,7 @@ export default function PropTablePage() {
           key: `k-${rung.ticker}`,
           playerName: rung.player,
           match: model.match, games: model.games,
-          projection: model.proj, sd: model.sd, dist: model.dist,
+          projection: model.proj, projDetail: model.projDetail, sd: model.sd, dist: model.dist,
           line: rung.strike, pOver,
           fairOver: probToAmerican(pOver), fairUnder: probToAmerican(1 - pOver),
           bestOver: overPrice !== null ? { price: overPrice, book: 'Kalshi' } : null,
@@ -344,6 +427,7 @@ export default function PropTablePage() {
           valueSide: value === null ? null : (evOver ?? -Infinity) >= (evUnder ?? -Infinity) ? 'Over' : 'Under',
           note: null,
           kalshiStrike: rung.strike,
+          kalshiTicker: rung.ticker,
         });
       }
 
@@ -356,13 +440,32 @@ export default function PropTablePage() {
       });
       setRows(out);
       setProgress('');
+
+      // Every priced row goes to the calibration log (graded after the next
+      // sync); rows for games already under way are dropped by logPredictions
+      logPredictions(out.flatMap((r) => {
+        if (!r.match || r.projection === null || r.sd === null || r.dist === null || r.pOver === null) return [];
+        const event = eventByPlayer.get(r.playerName);
+        return [buildPrediction({
+          source: 'table', league, sport_key: sportKey,
+          event_id: event?.id ?? null, commence_time: event?.commence_time ?? null,
+          player_id: r.match.player_id, player_name: r.match.player_name,
+          position: r.match.position || null, team: r.match.team || null,
+          market: marketDef.key, line: r.line,
+          projection: r.projection, projection_mode: projMode,
+          sd: r.sd, sd_mode: sdSetting, dist: r.dist, p_over: r.pOver,
+          best_over_price: r.bestOver?.price ?? null, best_over_book: r.bestOver?.book ?? null,
+          best_under_price: r.bestUnder?.price ?? null, best_under_book: r.bestUnder?.book ?? null,
+          kalshi_ticker: r.kalshiTicker ?? null, kalshi_strike: r.kalshiStrike ?? null,
+        })];
+      }));
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to load board');
       setProgress('');
     } finally {
       setLoading(false);
     }
-  }, [sportKey, marketDef, sdSetting, minGames, findPlayer, getLogs]);
+  }, [sportKey, league, propsApi, marketDef, sdSetting, projMode, minGames, findPlayer, getLogs]);
 
   // Open a row in the full Pricer: seed its persistence key, then navigate.
   const openInPricer = (row: Row) => {
@@ -373,7 +476,7 @@ export default function PropTablePage() {
       localStorage.setItem('prop-pricer-v1', JSON.stringify({
         ...prev,
         sportKey, marketKey, player: row.match,
-        projection: '', projectionEdited: false,
+        projection: '', projectionEdited: false, projMode,
         lineInput: String(row.line),
         overPriceInput: row.bestOver ? String(row.bestOver.price) : '',
         underPriceInput: row.bestUnder ? String(row.bestUnder.price) : '',
@@ -401,12 +504,20 @@ export default function PropTablePage() {
                 <span className="ml-2 text-[10px] text-slate-400 whitespace-nowrap">API {apiRemaining} left</span>
               )}
             </div>
-            <button
-              onClick={() => router.push('/admin/props')}
-              className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
-            >
-              Pricer
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => router.push('/admin/prop-calibration')}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
+              >
+                Calibration
+              </button>
+              <button
+                onClick={() => router.push('/admin/props')}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
+              >
+                Pricer
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -418,7 +529,7 @@ export default function PropTablePage() {
             <div>
               <label className={labelCls}>League</label>
               <div className="flex rounded-lg border border-slate-200 overflow-hidden">
-                {NFL_SPORTS.map((s) => (
+                {PROP_SPORTS.map((s) => (
                   <button
                     key={s.key}
                     onClick={() => setSportKey(s.key)}
@@ -431,6 +542,13 @@ export default function PropTablePage() {
                 ))}
               </div>
             </div>
+            <div>
+              <label className={labelCls}>Projection</label>
+              <select value={projMode} onChange={(e) => setProjMode(e.target.value as ProjectionMode)} className={fieldCls}>
+                <option value="measured">Season average</option>
+                <option value="matchup">Matchup-adjusted</option>
+              </select>
+            </div>
             <div>
               <label className={labelCls}>Volatility</label>
               <select value={sdSetting} onChange={(e) => setSdSetting(e.target.value as SdSetting)} className={fieldCls}>
@@ -449,7 +567,7 @@ export default function PropTablePage() {
           </div>
           <div>
             <div className="flex flex-wrap gap-1.5">
-              {PROP_MARKETS.map((m) => (
+              {leagueMarkets.map((m) => (
                 <button
                   key={m.key}
                   onClick={() => setMarketKey(m.key)}
@@ -462,7 +580,9 @@ export default function PropTablePage() {
               ))}
             </div>
             <div className="mt-1.5 text-[11px] leading-snug text-slate-400">
-              Standard pricing: projection = his latest-season average · curve auto from his shape ·
+              Standard pricing: projection = his latest-season average (matchup-adjusted: moved for recent
+              role/form, the opponent&apos;s allowed rate and the implied team total — hover Proj for the
+              breakdown) · curve auto from his shape ·
               consensus line = most-quoted point · EV vs the best book price each side. Violet rows are
               Kalshi threshold markets (Over buys Yes, Under buys No, trading fee included in the price).
               Rows ranked best value first; tap a row to open it in the Pricer.
@@ -509,14 +629,14 @@ export default function PropTablePage() {
                         )}
                         {r.match && (
                           <span className="ml-1.5 text-[10px] text-slate-400">
-                            {r.match.position} · {r.match.team} · {r.games}g
-                            {r.dist === 'lognormal' ? ' · B/B' : ''}
+                            {[r.match.position, r.match.team, `${r.games}g`].filter(Boolean).join(' · ')}
+                            {r.dist === 'lognormal' ? ' · B/B' : r.dist === 'negbin' ? ' · NB' : ''}
                           </span>
                         )}
                         {r.note && <span className="ml-1.5 text-[10px] text-amber-600">{r.note}</span>}
                       </td>
                       <td className="py-1.5 pr-3 text-right tabular-nums">{r.line}</td>
-                      <td className="py-1.5 pr-3 text-right tabular-nums text-slate-500">
+                      <td className="py-1.5 pr-3 text-right tabular-nums text-slate-500" title={r.projDetail ?? undefined}>
                         {r.projection !== null ? r.projection.toFixed(1) : '—'}
                       </td>
                       <td className="py-1.5 pr-3 text-right tabular-nums">
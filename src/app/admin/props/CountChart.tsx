@@ -0,0 +1,81 @@
+'use client';
+
+// src/app/admin/props/CountChart.tsx
+// Count-market picture for the prop pricer (TDs, interceptions): one column
+// per outcome 0, 1, 2, … with the model's P(X = k) from the active discrete
+// curve next to the share of his actual games that landed there. Columns
+// past the betting line are the over (or Yes) side.
+
+import { countPmf } from '@/lib/props/engine';
+import { Distribution } from '@/lib/props/markets';
+
+const COLOR_POISSON = '#0052ff';
+const COLOR_NEGBIN = '#16a34a';
+const BAR_ACTUAL = '#cbd5e1';
+
+interface Props {
+  values: number[];          // measured per-game stat values
+  mean: number;              // current projection
+  sd: number;                // current SD choice (negative binomial only)
+  line: number | null;       // betting line marker
+  dist: Distribution;        // active discrete curve
+  unit: string;              // e.g. "TD"
+}
+
+export default function CountChart({ values, mean, sd, line, dist, unit }: Props) {
+  if (!(mean > 0)) return null;
+  const kMax = Math.min(10, Math.max(3, Math.ceil(mean + 3 * Math.max(sd, Math.sqrt(mean))), ...values));
+  const model = countPmf(mean, sd, dist, kMax);
+  const tail = 1 - model.reduce((a, b) => a + b, 0);
+  model[kMax] += Math.max(0, tail); // last column reads "kMax+"
+  const actual = model.map((_, k) =>
+    values.length ? values.filter((v) => (k === kMax ? v >= k : v === k)).length / values.length : 0
+  );
+  const yMax = Math.max(...model, ...actual) * 1.1 || 1;
+  const color = dist === 'negbin' ? COLOR_NEGBIN : COLOR_POISSON;
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mb-1 text-[11px] text-slate-600">
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ background: color }} />
+          {dist === 'negbin' ? 'Neg Binomial' : 'Poisson'} P(exactly k)
+        </span>
+        {values.length > 0 && (
+          <span className="flex items-center gap-1.5">
+            <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ background: BAR_ACTUAL }} />
+            Actual games ({values.length})
+          </span>
+        )}
+      </div>
+      <div className="flex items-end gap-2 h-40 border-b border-slate-200">
+        {model.map((p, k) => {
+          const over = line !== null && k > line;
+          return (
+            <div key={k} className={`flex-1 h-full flex items-end justify-center gap-0.5 rounded-t ${over ? 'bg-emerald-50' : ''}`}>
+              <div className="w-1/3 flex flex-col items-center justify-end h-full">
+                <span className="text-[10px] tabular-nums text-slate-600">{(p * 100).toFixed(0)}%</span>
+                <div className="w-full rounded-t" style={{ height: `${(p / yMax) * 85}%`, background: color }} />
+              </div>
+              {values.length > 0 && (
+                <div className="w-1/4 rounded-t" style={{ height: `${(actual[k] / yMax) * 85}%`, background: BAR_ACTUAL }} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-2 mt-1">
+        {model.map((_, k) => (
+          <div key={k} className="flex-1 text-center text-[10px] text-slate-400 tabular-nums">
+            {k}{k === kMax ? '+' : ''}
+          </div>
+        ))}
+      </div>
+      {line !== null && (
+        <div className="text-[10px] text-slate-400 mt-0.5">
+          Shaded columns clear the line ({line} {unit}).
+        </div>
+      )}
+    </div>
+  );
+}
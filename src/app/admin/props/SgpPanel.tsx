@@ -0,0 +1,293 @@
+'use client';
+
+// src/app/admin/props/SgpPanel.tsx
+// Same-game parlay builder for the prop pricer. Legs come from the line
+// being priced above (its projection / volatility / curve at that moment)
+// plus, for the NFL, a team-margin leg off the nflverse final scores.
+// lib/props/sgp.ts measures each pair's correlation from shared games and
+// simulates the joint; the panel shows it against the no-correlation
+// product and a book price typed in, plus the first leg re-priced across
+// its ladder.
+
+import { useMemo, useState } from 'react';
+import { Distribution, PropLeague } from '@/lib/props/markets';
+import { expectedValue, americanToProb, syntheticLines } from '@/lib/props/engine';
+import {
+  SgpLeg, MIN_SHARED_GAMES, NFL_MARGIN_SD, marginSeries, priceSgp, sgpLadder,
+} from '@/lib/props/sgp';
+
+/** The line currently priced in the pricer, ready to become a leg. */
+export interface SgpCandidate {
+  key: string;                     // player + market — one leg per pair
+  label: string;                   // "Josh Allen Pass Yds"
+  line: number;
+  mean: number;
+  sd: number;
+  dist: Distribution;
+  step: number;                    // ladder step for the anchor ladder
+  yesNo: boolean;
+  series: Record<string, number>;
+}
+
+interface PanelLeg extends SgpLeg {
+  step: number;
+}
+
+interface Props {
+  league: PropLeague;
+  candidate: SgpCandidate | null;
+  team: string | null;             // selected player's log team code (margin leg default)
+}
+
+const fieldCls =
+  'w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0052ff]/25 focus:border-[#0052ff]';
+const labelCls = 'block text-xs font-medium text-slate-500 mb-1';
+const btnGhostCls =
+  'px-3 py-1.5 text-xs font-medium rounded-full bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-40 transition';
+
+const fmtAmerican = (o: number | null | undefined): string =>
+  o === null || o === undefined || !Number.isFinite(o) ? '—' : o > 0 ? `+${o}` : `${o}`;
+const fmtPct = (p: number, dp = 1): string => (Number.isFinite(p) ? `${(p * 100).toFixed(dp)}%` : '—');
+const parseAmerican = (s: string): number | null => {
+  if (!s.trim()) return null;
+  const n = Number(s);
+  return Number.isFinite(n) && Math.abs(n) >= 100 ? n : null;
+};
+
+const sideLabel = (leg: { side: 'over' | 'under'; line: number }, yesNo: boolean): string =>
+  yesNo ? (leg.side === 'over' ? 'Yes' : 'No') : `${leg.side === 'over' ? 'o' : 'u'} ${leg.line}`;
+
+export default function SgpPanel({ league, candidate, team }: Props) {
+  const [legs, setLegs] = useState<PanelLeg[]>([]);
+  const [bookPrice, setBookPrice] = useState('');
+  const [marginTeam, setMarginTeam] = useState('');
+  const [marginMean, setMarginMean] = useState('0');
+  const [marginLine, setMarginLine] = useState('0.5');
+  const [marginLoading, setMarginLoading] = useState(false);
+  const [marginError, setMarginError] = useState<string | null>(null);
+
+  const addCandidate = (side: 'over' | 'under') => {
+    if (!candidate) return;
+    const id = `${candidate.key}|${side}`;
+    setLegs((prev) => [
+      ...prev.filter((l) => !l.id.startsWith(`${candidate.key}|`)),
+      {
+        id,
+        label: `${candidate.label} ${sideLabel({ side, line: candidate.line }, candidate.yesNo)}`,
+        side,
+        line: candidate.line,
+        mean: candidate.mean,
+        sd: candidate.sd,
+        dist: candidate.dist,
+        series: candidate.series,
+        step: candidate.step,
+      },
+    ]);
+  };
+
+  const addMargin = async (side: 'over' | 'under') => {
+    const code = (marginTeam || team || '').trim().toUpperCase();
+    const m = Number(marginMean);
+    const line = Number(marginLine);
+    if (!code || !Number.isFinite(m) || !Number.isFinite(line)) return;
+    setMarginLoading(true);
+    setMarginError(null);
+    try {
+      const res = await fetch(`/api/nfl-props/margins?team=${encodeURIComponent(code)}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      const id = `margin|${code}|${side}`;
+      setLegs((prev) => [
+        ...prev.filter((l) => !l.id.startsWith(`margin|${code}|`)),
+        {
+          id,
+          label: `${code} margin ${side === 'over' ? 'o' : 'u'} ${line}`,
+          side,
+          line,
+          mean: m,
+          sd: NFL_MARGIN_SD,
+          dist: 'normal',
+          series: marginSeries(json.games ?? []),
+          step: 3,
+        },
+      ]);
+    } catch (e) {
+      setMarginError(e instanceof Error ? e.message : 'Failed to load team results');
+    } finally {
+      setMarginLoading(false);
+    }
+  };
+
+  const price = useMemo(() => priceSgp(legs), [legs]);
+
+  const anchorLadder = useMemo(() => {
+    if (!price || !legs.length) return [];
+    return sgpLadder(price, legs, 0, syntheticLines(legs[0].mean, legs[0].step));
+  }, [price, legs]);
+
+  const book = parseAmerican(bookPrice);
+  const ev = price && book !== null ? expectedValue(price.joint, book) : null;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm font-semibold">Same-Game Parlay</div>
+        {legs.length > 0 && (
+          <button onClick={() => setLegs([])} className="text-[11px] text-slate-400 hover:text-slate-600">
+            Clear legs
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="text-xs text-slate-500 mr-1">
+          {candidate ? `${candidate.label} ${candidate.yesNo ? '' : candidate.line}` : 'Price a line above to add it as a leg'}
+        </div>
+        <button onClick={() => addCandidate('over')} disabled={!candidate} className={btnGhostCls}>
+          + {candidate?.yesNo ? 'Yes' : 'Over'}
+        </button>
+        <button onClick={() => addCandidate('under')} disabled={!candidate} className={btnGhostCls}>
+          + {candidate?.yesNo ? 'No' : 'Under'}
+        </button>
+      </div>
+
+      {league === 'NFL' && (
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="w-20">
+            <label className={labelCls}>Team</label>
+            <input
+              value={marginTeam}
+              placeholder={team ?? 'KC'}
+              onChange={(e) => setMarginTeam(e.target.value)}
+              className={fieldCls}
+            />
+          </div>
+          <div className="w-24">
+            <label className={labelCls}>Fair margin</label>
+            <input value={marginMean} onChange={(e) => setMarginMean(e.target.value)} inputMode="decimal" className={fieldCls} />
+          </div>
+          <div className="w-20">
+            <label className={labelCls}>Line</label>
+            <input value={marginLine} onChange={(e) => setMarginLine(e.target.value)} inputMode="decimal" className={fieldCls} />
+          </div>
+          <button onClick={() => addMargin('over')} disabled={marginLoading} className={btnGhostCls}>+ Wins by more</button>
+          <button onClick={() => addMargin('under')} disabled={marginLoading} className={btnGhostCls}>+ Doesn&apos;t</button>
+          {marginError && <span className="text-[11px] text-red-600">{marginError}</span>}
+        </div>
+      )}
+
+      {legs.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-slate-500 uppercase tracking-wide">
+              <th className="py-1.5 pr-3">Leg</th>
+              <th className="py-1.5 pr-3 text-right">P(hit)</th>
+              {legs.map((l, j) => (
+                <th key={l.id} className="py-1.5 pr-3 text-right" title={l.label}>ρ {j + 1}</th>
+              ))}
+              <th className="py-1.5 w-6" />
+            </tr>
+          </thead>
+          <tbody>
+            {legs.map((l, i) => (
+              <tr key={l.id} className="border-t border-slate-100">
+                <td className="py-1.5 pr-3 font-medium">{i + 1}. {l.label}</td>
+                <td className="py-1.5 pr-3 text-right tabular-nums">{price ? fmtPct(price.legProbs[i]) : '—'}</td>
+                {legs.map((o, j) => {
+                  const c = price?.correlations[i][j];
+                  return (
+                    <td
+                      key={o.id}
+                      className={`py-1.5 pr-3 text-right tabular-nums ${i === j ? 'text-slate-300' : 'text-slate-600'}`}
+                      title={c && i !== j ? `raw ${Number.isNaN(c.raw) ? '—' : c.raw.toFixed(2)} over ${c.n} shared games` : undefined}
+                    >
+                      {i === j || !c ? '·' : `${c.rho.toFixed(2)}${c.n < MIN_SHARED_GAMES ? '*' : ''}`}
+                    </td>
+                  );
+                })}
+                <td className="py-1.5 text-right">
+                  <button
+                    onClick={() => setLegs((prev) => prev.filter((x) => x.id !== l.id))}
+                    aria-label="Remove leg"
+                    className="text-slate-400 hover:text-slate-600"
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {price && (
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <div className="text-[10px] uppercase tracking-wide text-slate-400">Independent</div>
+            <div className="text-sm tabular-nums">{fmtPct(price.independent)}</div>
+          </div>
+          <div>
+            <div className="text-[10px] uppercase tracking-wide text-slate-400">Correlated</div>
+            <div className="text-sm font-semibold tabular-nums">{fmtPct(price.joint)}</div>
+          </div>
+          <div>
+            <div className="text-[10px] uppercase tracking-wide text-slate-400">Fair SGP</div>
+            <div className="text-sm font-semibold tabular-nums">{fmtAmerican(price.fair)}</div>
+          </div>
+          <div>
+            <div className="text-[10px] uppercase tracking-wide text-slate-400">Lift</div>
+            <div className="text-sm tabular-nums">{Number.isFinite(price.lift) ? `×${price.lift.toFixed(2)}` : '—'}</div>
+          </div>
+          <div className="w-24">
+            <label className={labelCls}>Book price</label>
+            <input value={bookPrice} onChange={(e) => setBookPrice(e.target.value)} inputMode="numeric" placeholder="+450" className={fieldCls} />
+          </div>
+          {book !== null && (
+            <div>
+              <div className="text-[10px] uppercase tracking-wide text-slate-400">EV · book implied</div>
+              <div className={`text-sm font-semibold tabular-nums ${ev !== null && ev > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                {ev !== null ? `${ev > 0 ? '+' : ''}${(ev * 100).toFixed(1)}%` : '—'}
+                <span className="ml-1.5 font-normal text-slate-500">{fmtPct(americanToProb(book))}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {price && anchorLadder.length > 0 && (
+        <div>
+          <div className="text-[10px] uppercase tracking-wide text-slate-400 font-medium mb-1">
+            Leg 1 across its ladder (other legs fixed)
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-slate-500 uppercase tracking-wide">
+                <th className="py-1 pr-3">Line</th>
+                <th className="py-1 pr-3 text-right">Leg 1</th>
+                <th className="py-1 pr-3 text-right">Joint</th>
+                <th className="py-1 text-right">Fair</th>
+              </tr>
+            </thead>
+            <tbody>
+              {anchorLadder.map((r) => (
+                <tr key={r.line} className={`border-t border-slate-100 ${r.line === legs[0].line ? 'bg-slate-50 font-medium' : ''}`}>
+                  <td className="py-1 pr-3 tabular-nums">{legs[0].side === 'over' ? 'o' : 'u'} {r.line}</td>
+                  <td className="py-1 pr-3 text-right tabular-nums">{fmtPct(r.legProb)}</td>
+                  <td className="py-1 pr-3 text-right tabular-nums">{fmtPct(r.joint)}</td>
+                  <td className="py-1 text-right tabular-nums">{fmtAmerican(r.fair)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="text-[11px] leading-snug text-slate-400">
+        Each leg keeps its own curve from the pricer; ρ is the correlation of the two stats over games both
+        appear in, pulled toward 0 on short samples (hover for the raw number; * = too few shared games,
+        priced as independent). Joint = {price ? `${(price.uniforms[0]?.length ?? 0).toLocaleString()} ` : ''}simulated
+        games.{price && price.scale < 1 && ` Correlations scaled ×${price.scale.toFixed(2)} to stay consistent.`}
+      </div>
+    </div>
+  );
+}
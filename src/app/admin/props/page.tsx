@@ -1,31 +1,52 @@
 'use client';
 
 // src/app/admin/props/page.tsx
-// Admin: NFL prop pricer — projection + measured distribution → P(over),
+// Admin: NFL + NBA prop pricer — projection + measured distribution → P(over),
 // devigged market fair, EV, and a full alt-line ladder. Methodology: mean ≠
 // median (yardage props are right-skewed → lognormal at the main line).
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import {
-  probOver, probToAmerican, americanToProb, devig, expectedValue,
-  priceLadder, syntheticLines, median as medianOf, lognormalParams,
+  probOver, probUnder, probPush, probToAmerican, americanToProb, devig, expectedValue,
+  priceLadder, syntheticLines, median as medianOf, fairLine as fairLineOf, isCountDist,
 } from '@/lib/props/engine';
-import { PROP_MARKETS, PROP_BOOKS, PropMarketDef, PlayerGameLog, Distribution } from '@/lib/props/markets';
+import {
+  PROP_MARKETS, PROP_BOOKS, PROP_LEAGUES, PROP_SPORTS, PropLeague, PropMarketDef, PlayerGameLog, Distribution,
+  ALL_POSITIONS, espnTeamCode, leagueForSport, propMarketsFor, marketFitsPosition, referencePosition, quoteSide, statValue,
+} from '@/lib/props/markets';
 import { KalshiRung, kalshiCostToAmerican, fetchKalshiRungs } from '@/lib/props/kalshiProps';
-import { PropReference, measurePlayer, MeasuredStats } from '@/lib/props/reference';
+import { PropReference, measurePlayer, MeasuredStats, autoDistribution } from '@/lib/props/reference';
+import {
+  DefenseTable, GameSide, ProjectionMode, gameSide, impliedTeamTotal, matchupProjection,
+} from '@/lib/props/projection';
+import { consensusClose } from '@/lib/clv';
+import type { OddsAPIGame } from '@/lib/ratings/types';
 import DistributionChart from './DistributionChart';
+import CountChart from './CountChart';
+import SgpPanel, { type SgpCandidate } from './SgpPanel';
+import { legSeries } from '@/lib/props/sgp';
+import { buildPrediction } from '@/lib/props/calibration';
+import { logPredictions } from '@/lib/props/predictionService';
 import { useDebounce } from '@/app/ratings/hooks/useDebounce';
+import { bankrollReport, suggestStake, type BankrollReport, type BankrollSettings } from '@/lib/bankroll';
+import { fetchBankroll } from '@/lib/bankrollService';
+import { fetchBets } from '@/lib/betService';
 
 const MARKET_UNITS: { [key: string]: string } = {
   rush_yds: 'yds', rec_yds: 'yds', pass_yds: 'yds',
   rush_attempts: 'att', receptions: 'rec', pass_attempts: 'att', pass_completions: 'comp',
+  points: 'pts', rebounds: 'reb', assists: 'ast', threes: '3pm', pra: 'pra',
+  pts_reb: 'pr', pts_ast: 'pa', reb_ast: 'ra', steals: 'stl', blocks: 'blk', turnovers: 'tov',
+  pass_tds: 'TD', interceptions: 'INT', anytime_td: 'TD',
 };
 
-const NFL_SPORTS = [
-  { key: 'americanfootball_nfl', label: 'NFL' },
-  { key: 'americanfootball_nfl_preseason', label: 'Preseason' },
-];
+const DIST_LABELS: Record<Distribution, string> = {
+  normal: 'Balanced', lognormal: 'Boom/Bust', poisson: 'Poisson', negbin: 'Neg Binomial',
+};
+// The two curves each market family toggles between (and compares side by side)
+const CONTINUOUS_CURVES: [Distribution, Distribution] = ['normal', 'lognormal'];
+const COUNT_CURVES: [Distribution, Distribution] = ['poisson', 'negbin'];
 
 const fieldCls =
   'w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0052ff]/25 focus:border-[#0052ff]';
@@ -84,13 +105,13 @@ const parseAmerican = (s: string): number | null => {
 const normName = (s: string): string =>
   s.toLowerCase().replace(/\./g, '').replace(/\b(jr|sr|ii|iii|iv|v)\b/g, '').replace(/\s+/g, ' ').trim();
 
+const fmtDelta = (x: number): string => `${x >= 0 ? '+' : '−'}${Math.abs(x).toFixed(1)}`;
+
 const fmtPct = (p: number | null | undefined, dp = 1): string =>
   p === null || p === undefined || Number.isNaN(p) ? '—' : `${(p * 100).toFixed(dp)}%`;
 
 // ---- team theming (page tints to the selected player's team) ----
 const normalizeTeamKey = (s: string): string => s.toLowerCase().replace(/[^a-z0-9]/g, '');
-// nflverse team codes that differ from ESPN abbreviations
-const TEAM_CODE_ALIASES: Record<string, string> = { LA: 'LAR', WAS: 'WSH', JAC: 'JAX' };
 const hexToRgba = (hex: string, alpha: number): string => {
   const h = hex.replace('#', '').trim();
   if (h.length !== 6) return `rgba(0,0,0,${alpha})`;
@@ -115,6 +136,7 @@ const pickAccent = (color?: string, alt?: string): string | null => {
   return color;
 };
 interface TeamTheme { color: string; logo: string }
+interface TeamInfo { color: string; logo: string; alternateColor?: string; abbreviation?: string }
 
 const evCls = (ev: number | null): string =>
   ev === null ? 'text-slate-400'
@@ -133,11 +155,12 @@ export default function PropsAdminPage() {
   const [showData, setShowData] = useState(false);
   const [syncCounts, setSyncCounts] = useState<{ season: number; rows: number }[]>([]);
   const [syncing, setSyncing] = useState<number | null>(null);
+  const [uploading, setUploading] = useState(false);
   const [reference, setReference] = useState<PropReference | null>(null);
   const [refComputing, setRefComputing] = useState(false);
 
   // Odds
-  const [sportKey, setSportKey] = useState(NFL_SPORTS[0].key);
+  const [sportKey, setSportKey] = useState(PROP_SPORTS[0].key);
   const [events, setEvents] = useState<OddsEvent[]>([]);
   const [eventsLoading, setEventsLoading] = useState(false);
   const [eventId, setEventId] = useState('');
@@ -168,29 +191,38 @@ export default function PropsAdminPage() {
   const [excludedGames, setExcludedGames] = useState<Set<string>>(new Set());
   const [showGameLog, setShowGameLog] = useState(false);
 
-  // Team theme: page tints to the selected player's team colors. The NFL
-  // team map (ESPN colors/logos) is fetched once and cached for the session.
+  // League follows the sport: it picks the game-log API, the market list
+  // and the reference table.
+  const league = leagueForSport(sportKey);
+  const propsApi = PROP_LEAGUES[league].api;
+  const leagueMarkets = useMemo(() => propMarketsFor(league), [league]);
+
+  // Team theme: page tints to the selected player's team colors. Each
+  // league's team map (ESPN colors/logos/abbreviations) is fetched once and
+  // cached for the session — the matchup projection reads it too.
   const [teamTheme, setTeamTheme] = useState<TeamTheme | null>(null);
-  const teamMapRef = useRef<Record<string, { color: string; logo: string }> | null>(null);
+  const teamMapsRef = useRef<Partial<Record<PropLeague, Record<string, TeamInfo>>>>({});
+  const loadTeamMap = useCallback(async (lg: PropLeague): Promise<Record<string, TeamInfo> | null> => {
+    if (!teamMapsRef.current[lg]) {
+      const resp = await fetch(`/api/bet-team-logos?league=${lg}`);
+      if (!resp.ok) return null;
+      teamMapsRef.current[lg] = (await resp.json()).teams ?? {};
+    }
+    return teamMapsRef.current[lg] ?? null;
+  }, []);
   useEffect(() => {
     if (!selectedPlayer?.team) { setTeamTheme(null); return; }
     let cancelled = false;
     (async () => {
       try {
-        if (!teamMapRef.current) {
-          const resp = await fetch('/api/bet-team-logos?league=NFL');
-          if (!resp.ok) return;
-          teamMapRef.current = (await resp.json()).teams ?? {};
-        }
-        const code = selectedPlayer.team.toUpperCase();
-        const info = teamMapRef.current?.[normalizeTeamKey(TEAM_CODE_ALIASES[code] ?? code)] as
-          ({ color: string; logo: string; alternateColor?: string } | undefined);
+        const teams = await loadTeamMap(league);
+        const info = teams?.[normalizeTeamKey(espnTeamCode(league, selectedPlayer.team))];
         const accent = pickAccent(info?.color, info?.alternateColor);
         if (!cancelled) setTeamTheme(accent ? { color: accent, logo: info?.logo ?? '' } : null);
       } catch { /* theming is cosmetic — never block */ }
     })();
     return () => { cancelled = true; };
-  }, [selectedPlayer]);
+  }, [selectedPlayer, league, loadTeamMap]);
 
   const themedCard = teamTheme
     ? { borderTop: `3px solid #${teamTheme.color}` }
@@ -210,6 +242,7 @@ export default function PropsAdminPage() {
   // Pricing inputs
   const [projection, setProjection] = useState('');
   const [projectionEdited, setProjectionEdited] = useState(false); // user typed → stop defaulting
+  const [projMode, setProjMode] = useState<ProjectionMode>('measured');
   const [sdMode, setSdMode] = useState<'measured' | 'league' | 'tier' | 'custom'>('measured');
   const [sdCustom, setSdCustom] = useState('');
   const [distMode, setDistMode] = useState<'auto' | Distribution>('auto');
@@ -222,44 +255,51 @@ export default function PropsAdminPage() {
     [marketKey]
   );
 
-  // Player-first flow: the markets that apply to the selected player's
-  // position (all markets when nobody is selected). Game logs carry every
-  // stat, so toggling markets is instant — no refetch.
+  // Player-first flow: the league's markets that apply to the selected
+  // player's position (all of them when nobody is selected). Game logs carry
+  // every stat, so toggling markets is instant — no refetch.
   const availableMarkets = useMemo(
     () => (selectedPlayer
-      ? PROP_MARKETS.filter((m) => m.positions.includes(selectedPlayer.position))
-      : PROP_MARKETS),
-    [selectedPlayer]
+      ? leagueMarkets.filter((m) => marketFitsPosition(m, selectedPlayer.position))
+      : leagueMarkets),
+    [selectedPlayer, leagueMarkets]
   );
 
-  // If the current market doesn't exist for the player's position, hop to
-  // the first one that does (no-op when the market is already valid, so a
-  // restored session keeps its market).
+  // If the current market doesn't exist for the league or the player's
+  // position, hop to the first one that does (no-op when the market is
+  // already valid, so a restored session keeps its market).
   useEffect(() => {
-    if (!selectedPlayer) return;
-    const ok = PROP_MARKETS.some((m) => m.key === marketKey && m.positions.includes(selectedPlayer.position));
+    const ok = availableMarkets.some((m) => m.key === marketKey);
     if (!ok && availableMarkets.length) setMarketKey(availableMarkets[0].key);
-  }, [selectedPlayer, marketKey, availableMarkets]);
+  }, [marketKey, availableMarkets]);
+
+  // Switching leagues: the selected player and his logs belong to the other
+  // league's tables. Sport changes within a league (NFL ↔ Preseason) keep him.
+  const changeSport = (key: string) => {
+    if (leagueForSport(key) !== league) clearPlayer();
+    setSportKey(key);
+  };
 
   // ---------- data panel ----------
 
   const loadSyncCounts = useCallback(async () => {
     try {
-      const res = await fetch('/api/nfl-props/sync');
+      const res = await fetch(`${propsApi}/sync`);
       const json = await res.json();
       if (res.ok) setSyncCounts(json.seasons ?? []);
     } catch { /* non-blocking */ }
-  }, []);
+  }, [propsApi]);
 
   const loadReference = useCallback(async () => {
     try {
-      const res = await fetch('/api/nfl-props/reference');
+      const res = await fetch(`${propsApi}/reference`);
       const json = await res.json();
-      if (res.ok) setReference(json.reference);
+      setReference(res.ok ? json.reference : null);
     } catch { /* non-blocking */ }
-  }, []);
+  }, [propsApi]);
 
   useEffect(() => {
+    setSyncCounts([]);
     loadSyncCounts();
     loadReference();
   }, [loadSyncCounts, loadReference]);
@@ -269,7 +309,7 @@ export default function PropsAdminPage() {
     setError(null);
     setMessage(null);
     try {
-      const res = await fetch(`/api/nfl-props/sync?season=${season}`, { method: 'POST' });
+      const res = await fetch(`${propsApi}/sync?season=${season}`, { method: 'POST' });
       const json = await res.json();
       if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
       setMessage(`Synced ${season}: ${json.rows} game rows`);
@@ -281,12 +321,35 @@ export default function PropsAdminPage() {
     }
   };
 
+  // NBA logs have no nightly feed — upload a stats.nba.com / Basketball-
+  // Reference game-log CSV instead (re-uploading the same file is a no-op).
+  const handleUploadLogs = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`${propsApi}/sync`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: await file.text(),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setMessage(`Imported ${file.name}: ${json.rows} game rows (seasons ${json.seasons.join(', ')})`);
+      await loadSyncCounts();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Upload failed');
+    } finally {
+      setUploading(false);
+    }
+  };
+
   const handleRecomputeReference = async () => {
     setRefComputing(true);
     setError(null);
     setMessage(null);
     try {
-      const res = await fetch('/api/nfl-props/reference', { method: 'POST' });
+      const res = await fetch(`${propsApi}/reference`, { method: 'POST' });
       const json = await res.json();
       if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
       setReference(json.reference);
@@ -351,10 +414,10 @@ export default function PropsAdminPage() {
         if (mkt.key !== marketDef.oddsApiKey && mkt.key !== marketDef.oddsApiAltKey) continue;
         for (const oc of mkt.outcomes ?? []) {
           const playerName = oc.description;
-          const side = oc.name?.toLowerCase();
-          if (!playerName || (side !== 'over' && side !== 'under') || typeof oc.point !== 'number') continue;
+          const q = quoteSide(marketDef, oc);
+          if (!playerName || !q) continue;
           const arr = map.get(playerName) ?? [];
-          arr.push({ book: bm.title, side, price: oc.price, point: oc.point });
+          arr.push({ book: bm.title, side: q.side, price: oc.price, point: q.point });
           map.set(playerName, arr);
         }
       }
@@ -410,6 +473,7 @@ export default function PropsAdminPage() {
     excludedGames?: string[];
     projection?: string;
     projectionEdited?: boolean;
+    projMode?: ProjectionMode;
     sdMode?: 'measured' | 'league' | 'tier' | 'custom';
     sdCustom?: string;
     distMode?: 'auto' | Distribution;
@@ -444,7 +508,7 @@ export default function PropsAdminPage() {
       setGamesLoading(true);
       (async () => {
         try {
-          const res = await fetch(`/api/nfl-props/players?playerId=${encodeURIComponent(p.player_id)}`);
+          const res = await fetch(`${PROP_LEAGUES[leagueForSport(saved.sportKey ?? '')].api}/players?playerId=${encodeURIComponent(p.player_id)}`);
           const json = await res.json();
           if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
           const games: PlayerGameLog[] = json.games ?? [];
@@ -473,6 +537,7 @@ export default function PropsAdminPage() {
     if (s.minOpp !== undefined) setMinOpp(s.minOpp);
     if (s.excludeZero !== undefined) setExcludeZero(s.excludeZero);
     if (s.excludedGames?.length) setExcludedGames(new Set(s.excludedGames));
+    if (s.projMode) setProjMode(s.projMode);
     if (s.sdMode) setSdMode(s.sdMode);
     if (s.sdCustom !== undefined) setSdCustom(s.sdCustom);
     if (s.distMode) setDistMode(s.distMode);
@@ -495,22 +560,22 @@ export default function PropsAdminPage() {
         sportKey, marketKey, player: selectedPlayer,
         seasonsSelected, includePost, minOpp, excludeZero,
         excludedGames: Array.from(excludedGames),
-        projection, projectionEdited, sdMode, sdCustom, distMode,
+        projection, projectionEdited, projMode, sdMode, sdCustom, distMode,
         lineInput, overPriceInput, underPriceInput,
       } satisfies SavedPricerState));
     } catch { /* storage full/blocked — non-blocking */ }
   }, [sportKey, marketKey, selectedPlayer, seasonsSelected, includePost, minOpp, excludeZero,
-      excludedGames, projection, projectionEdited, sdMode, sdCustom, distMode,
+      excludedGames, projection, projectionEdited, projMode, sdMode, sdCustom, distMode,
       lineInput, overPriceInput, underPriceInput]);
 
   // ---------- player logs ----------
 
   const searchPlayers = useCallback(async (q: string): Promise<PlayerSearchResult[]> => {
-    const res = await fetch(`/api/nfl-props/players?q=${encodeURIComponent(q)}`);
+    const res = await fetch(`${propsApi}/players?q=${encodeURIComponent(q)}`);
     const json = await res.json();
     if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
     return json.players ?? [];
-  }, []);
+  }, [propsApi]);
 
   const selectPlayer = useCallback(async (p: PlayerSearchResult) => {
     setSelectedPlayer(p);
@@ -519,7 +584,7 @@ export default function PropsAdminPage() {
     setExcludedGames(new Set()); // manual excludes are per-player
     setProjectionEdited(false); // new player → fresh measured-mean default
     try {
-      const res = await fetch(`/api/nfl-props/players?playerId=${encodeURIComponent(p.player_id)}`);
+      const res = await fetch(`${propsApi}/players?playerId=${encodeURIComponent(p.player_id)}`);
       const json = await res.json();
       if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
       const games: PlayerGameLog[] = json.games ?? [];
@@ -531,7 +596,7 @@ export default function PropsAdminPage() {
     } finally {
       setGamesLoading(false);
     }
-  }, []);
+  }, [propsApi]);
 
   // Picking a player from the odds list auto-matches game logs by name.
   // Only a (normalized) exact name match auto-attaches — a near-miss must be
@@ -603,11 +668,83 @@ export default function PropsAdminPage() {
     });
   }, [playerGames, seasonsSelected, includePost, minOpp, excludeZero, excludedGames, marketDef]);
 
-  // Default projection follows measured mean until the user edits it
-  // (projectionEdited flips on typing; clearing the box re-enables the default)
+  // ---------- matchup projection ----------
+  // Matchup mode moves the measured mean for recent role/form, the
+  // opponent's allowed rate at his position and the implied team total
+  // (lib/props/projection.ts). The defense table is one request per
+  // market + position; the spread/total come from the sport's main board,
+  // fetched once per sport per session and only while matchup mode is on.
+  const [defenseTable, setDefenseTable] = useState<DefenseTable | null>(null);
+  const [matchupGame, setMatchupGame] = useState<(GameSide & { teamTotal: number | null }) | null>(null);
+  const defenseCacheRef = useRef(new Map<string, DefenseTable>());
+  const boardsRef = useRef(new Map<string, OddsAPIGame[]>());
+  const defensePosition = referencePosition(marketDef, selectedPlayer?.position);
+
+  useEffect(() => {
+    if (projMode !== 'matchup' || !selectedPlayer) { setDefenseTable(null); return; }
+    const key = `${propsApi}|${marketDef.key}|${defensePosition}`;
+    const hit = defenseCacheRef.current.get(key);
+    if (hit) { setDefenseTable(hit); return; }
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`${propsApi}/defense?market=${marketDef.key}&position=${encodeURIComponent(defensePosition)}`);
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+        const table: DefenseTable = { leagueAllowed: json.leagueAllowed, teams: json.teams ?? {} };
+        defenseCacheRef.current.set(key, table);
+        if (!cancelled) setDefenseTable(table);
+      } catch {
+        if (!cancelled) setDefenseTable(null); // opponent step just drops out
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [projMode, selectedPlayer, propsApi, marketDef, defensePosition]);
+
+  useEffect(() => {
+    const event = events.find((e) => e.id === eventId);
+    if (projMode !== 'matchup' || !selectedPlayer?.team || !event) { setMatchupGame(null); return; }
+    let cancelled = false;
+    (async () => {
+      try {
+        const teams = await loadTeamMap(league);
+        const side = teams ? gameSide(selectedPlayer.team, event, teams, league) : null;
+        if (!side) { if (!cancelled) setMatchupGame(null); return; }
+        let board = boardsRef.current.get(sportKey);
+        if (!board) {
+          const res = await fetch(`/api/odds?sport=${sportKey}`);
+          const remaining = res.headers.get('x-requests-remaining');
+          if (remaining) setApiRemaining(remaining);
+          const json = await res.json();
+          board = res.ok && Array.isArray(json) ? (json as OddsAPIGame[]) : [];
+          if (board.length) boardsRef.current.set(sportKey, board);
+        }
+        const game = board.find((g) => g.id === event.id);
+        const close = game ? consensusClose(game) : null;
+        const teamTotal = close && close.spread !== null && close.total !== null
+          ? impliedTeamTotal(close.spread, close.total, side.side)
+          : null;
+        if (!cancelled) setMatchupGame({ ...side, teamTotal });
+      } catch {
+        if (!cancelled) setMatchupGame(null);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [projMode, selectedPlayer, events, eventId, sportKey, league, loadTeamMap]);
+
+  const matchup = useMemo(() => {
+    if (projMode !== 'matchup' || !measured) return null;
+    const defense = matchupGame && defenseTable ? defenseTable.teams[matchupGame.opponent] ?? null : null;
+    return matchupProjection(measured, marketDef, { league, defense, teamTotal: matchupGame?.teamTotal ?? null });
+  }, [projMode, measured, marketDef, league, matchupGame, defenseTable]);
+
+  // Default projection follows the selected mode (measured mean or matchup)
+  // until the user edits it (projectionEdited flips on typing; clearing the
+  // box or switching mode re-enables the default)
   useEffect(() => {
-    if (measured && !projectionEdited) setProjection(measured.mean.toFixed(1));
-  }, [measured, projectionEdited]);
+    if (!measured || projectionEdited) return;
+    setProjection((matchup ? matchup.projection : measured.mean).toFixed(1));
+  }, [measured, matchup, projectionEdited]);
 
   // ---------- market quotes for selected player ----------
 
@@ -660,6 +797,14 @@ export default function PropsAdminPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [line, playerQuotes]);
 
+  // Current bankroll for the Kelly readout (same curve the bets page sizes from)
+  const [bankroll, setBankroll] = useState<{ report: BankrollReport; settings: BankrollSettings } | null>(null);
+  useEffect(() => {
+    Promise.all([fetchBets(), fetchBankroll()])
+      .then(([bets, { ledger, settings }]) => setBankroll({ report: bankrollReport(bets, ledger, settings), settings }))
+      .catch(() => setBankroll(null));
+  }, []);
+
   // Market fair probability: devig each book quoting both sides at the line, take the median
   const marketFair = useMemo(() => {
     if (!hasLine) return null;
@@ -697,7 +842,8 @@ export default function PropsAdminPage() {
   const projNum = Number(projection);
   const hasProj = Number.isFinite(projNum) && projNum > 0;
 
-  const position = selectedPlayer?.position ?? marketDef.positions[0];
+  const position = referencePosition(marketDef, selectedPlayer?.position);
+  const positionLabel = position === ALL_POSITIONS ? `${league} player` : position;
   const posRef = reference?.markets?.[marketDef.key]?.[position] ?? null;
   const leagueMult = posRef?.overall.multiplier ?? null;
   const tierMult = useMemo(() => {
@@ -714,42 +860,40 @@ export default function PropsAdminPage() {
     return Number.isFinite(c) && c > 0 ? c : null;
   }, [sdMode, measured, leagueMult, tierMult, hasProj, projNum, sdCustom]);
 
-  // Auto distribution now reads the PLAYER'S measured shape, not just the
-  // stat type: mean meaningfully above median (>5%) = boom/bust pattern ->
-  // lognormal; otherwise (steady or dud-dragged) -> normal. Falls back to
-  // the market default until the sample is big enough (8+ games) for the
-  // mean/median comparison to be trustworthy.
-  const autoDist: { dist: Distribution; basis: 'shape' | 'default' } = useMemo(() => {
-    if (measured && measured.games >= 8 && measured.median > 0) {
-      const rel = (measured.mean - measured.median) / measured.median;
-      return { dist: rel > 0.05 ? 'lognormal' : 'normal', basis: 'shape' };
-    }
-    return { dist: marketDef.defaultDist, basis: 'default' };
-  }, [measured, marketDef]);
+  // Auto distribution reads the PLAYER'S measured shape, not just the stat
+  // type (see autoDistribution). Count markets (TDs, INTs) choose between
+  // the two discrete curves, everything else between the two continuous
+  // ones; a hand-picked curve from the other family falls back to auto.
+  const autoDist = useMemo(() => autoDistribution(measured, marketDef), [measured, marketDef]);
+  const countMarket = isCountDist(marketDef.defaultDist);
+  const curvePair = countMarket ? COUNT_CURVES : CONTINUOUS_CURVES;
 
-  const dist: Distribution = distMode === 'auto' ? autoDist.dist : distMode;
+  const dist: Distribution = distMode === 'auto' || isCountDist(distMode) !== countMarket ? autoDist.dist : distMode;
 
   const overPrice = parseAmerican(overPriceInput);
   const underPrice = parseAmerican(underPriceInput);
 
   const result = useMemo(() => {
     if (!hasProj || !sd || !hasLine) return null;
-    const pNormal = probOver(projNum, sd, line, 'normal');
-    const pLog = probOver(projNum, sd, line, 'lognormal');
-    const p = dist === 'normal' ? pNormal : pLog;
+    const byCurve = curvePair.map((d) => probOver(projNum, sd, line, d)) as [number, number];
+    const p = dist === curvePair[0] ? byCurve[0] : byCurve[1];
+    // Whole-number count lines push; the under is only P(X < line)
+    const pPush = probPush(projNum, sd, line, dist);
+    const pUnder = probUnder(projNum, sd, line, dist);
     const be = overPrice !== null ? americanToProb(overPrice) : null;
     return {
-      pNormal,
-      pLog,
+      byCurve,
       p,
-      fair: probToAmerican(p),
-      fairUnder: probToAmerican(1 - p),
+      pUnder,
+      pPush,
+      fair: probToAmerican(p / (1 - pPush)),
+      fairUnder: probToAmerican(pUnder / (1 - pPush)),
       breakeven: be,
       edge: be !== null ? p - be : null,
-      ev: overPrice !== null ? expectedValue(p, overPrice) : null,
-      evUnder: underPrice !== null ? expectedValue(1 - p, underPrice) : null,
+      ev: overPrice !== null ? expectedValue(p, overPrice, pPush) : null,
+      evUnder: underPrice !== null ? expectedValue(pUnder, underPrice, pPush) : null,
     };
-  }, [hasProj, projNum, sd, hasLine, line, dist, overPrice, underPrice]);
+  }, [hasProj, projNum, sd, hasLine, line, dist, curvePair, overPrice, underPrice]);
 
   const ladder = useMemo(() => {
     if (!hasProj || !sd) return [];
@@ -763,6 +907,52 @@ export default function PropsAdminPage() {
 
   const oddsPlayers = useMemo(() => Array.from(quotes.keys()).sort(), [quotes]);
 
+  // ---------- calibration log ----------
+  // Every priced line goes to the calibration log (lib/props/calibration.ts)
+  // once the inputs have settled for a few seconds — typing a projection
+  // doesn't write a row per keystroke, and re-pricing the same line with the
+  // same settings on the same day updates its row. Nothing is logged once the
+  // event has tipped (logPredictions drops in-game lines).
+  const pricedLine = useMemo(() => {
+    if (!selectedPlayer || !result || !sd || !hasLine) return null;
+    const event = events.find((e) => e.id === eventId);
+    const over = bestAt(line, 'over');
+    const under = bestAt(line, 'under');
+    const rung = kalshiRungs.find((r) =>
+      r.strike === line && normName(r.player) === normName(selectedPlayer.player_name));
+    return buildPrediction({
+      source: 'pricer', league, sport_key: sportKey,
+      event_id: event?.id ?? null, commence_time: event?.commence_time ?? null,
+      player_id: selectedPlayer.player_id, player_name: selectedPlayer.player_name,
+      position: selectedPlayer.position || null, team: selectedPlayer.team || null,
+      market: marketDef.key, line,
+      projection: projNum, projection_mode: projMode,
+      sd, sd_mode: sdMode, dist, p_over: result.p,
+      best_over_price: over?.price ?? overPrice, best_over_book: over?.book ?? null,
+      best_under_price: under?.price ?? underPrice, best_under_book: under?.book ?? null,
+      kalshi_ticker: rung?.ticker ?? null, kalshi_strike: rung?.strike ?? null,
+    });
+  }, [selectedPlayer, result, sd, hasLine, events, eventId, bestAt, line, kalshiRungs, league, sportKey,
+      marketDef.key, projNum, projMode, sdMode, dist, overPrice, underPrice]);
+  const settledLine = useDebounce(pricedLine, 3000);
+  useEffect(() => {
+    if (settledLine) logPredictions([settledLine]);
+  }, [settledLine]);
+
+  // The line being priced, as a same-game parlay leg. Correlations read every
+  // game he has (all seasons, playoffs too) — more shared games to measure on.
+  const sgpCandidate: SgpCandidate | null = useMemo(() => {
+    if (!selectedPlayer || !hasProj || !sd || !hasLine || !playerGames.length) return null;
+    return {
+      key: `${selectedPlayer.player_id}|${marketDef.key}`,
+      label: `${selectedPlayer.player_name} ${marketDef.label}`,
+      line, mean: projNum, sd, dist,
+      step: marketDef.ladderStep,
+      yesNo: !!marketDef.yesNo,
+      series: legSeries(playerGames, marketDef),
+    };
+  }, [selectedPlayer, hasProj, sd, hasLine, playerGames, marketDef, line, projNum, dist]);
+
   useEffect(() => {
     if (!selectedPlayer) { setKalshiRungs([]); return; }
     let cancelled = false;
@@ -834,6 +1024,12 @@ export default function PropsAdminPage() {
               >
                 Table
               </button>
+              <button
+                onClick={() => router.push('/admin/prop-calibration')}
+                className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 transition"
+              >
+                Calibration
+              </button>
               <button onClick={() => setShowData(!showData)} className={btnGhostCls}>
                 {showData ? 'Hide Data' : 'Data'}
               </button>
@@ -855,30 +1051,61 @@ export default function PropsAdminPage() {
         {/* Data panel */}
         {showData && (
           <div className={`${cardCls} space-y-4`}>
-            <div>
-              <div className="text-sm font-semibold mb-2">Game Logs (nflverse weekly stats)</div>
-              <div className="flex flex-wrap gap-2">
-                {[2022, 2023, 2024, 2025, 2026].map((season) => {
-                  const count = syncCounts.find((s) => s.season === season)?.rows;
-                  return (
-                    <button
-                      key={season}
-                      onClick={() => handleSync(season)}
-                      disabled={syncing !== null}
-                      className={`${btnGhostCls} flex items-center gap-1.5`}
-                    >
-                      {syncing === season ? 'Syncing…' : `Sync ${season}`}
-                      {count !== undefined && (
-                        <span className="text-[10px] text-slate-400">{count.toLocaleString()}</span>
-                      )}
-                    </button>
-                  );
-                })}
+            {league === 'NBA' ? (
+              <div>
+                <div className="text-sm font-semibold mb-2">Game Logs (NBA box-score CSV)</div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <label className={`${btnGhostCls} cursor-pointer ${uploading ? 'opacity-40 pointer-events-none' : ''}`}>
+                    {uploading ? 'Uploading…' : 'Upload CSV'}
+                    <input
+                      type="file"
+                      accept=".csv,text/csv"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) handleUploadLogs(file);
+                      }}
+                    />
+                  </label>
+                  {syncCounts.map((s) => (
+                    <span key={s.season} className="text-xs text-slate-500">
+                      {s.season}–{String(s.season + 1).slice(2)}{' '}
+                      <span className="text-[10px] text-slate-400">{s.rows.toLocaleString()}</span>
+                    </span>
+                  ))}
+                </div>
+                <div className="text-xs text-slate-400 mt-1.5">
+                  A stats.nba.com player game log export or a Basketball-Reference game-log table; re-upload the
+                  current season as it goes. Requires the sql/nba_props.sql tables.
+                </div>
               </div>
-              <div className="text-xs text-slate-400 mt-1.5">
-                Run each season once; re-run the current season weekly during the year. Requires the sql/nfl_props.sql tables.
+            ) : (
+              <div>
+                <div className="text-sm font-semibold mb-2">Game Logs (nflverse weekly stats)</div>
+                <div className="flex flex-wrap gap-2">
+                  {[2022, 2023, 2024, 2025, 2026].map((season) => {
+                    const count = syncCounts.find((s) => s.season === season)?.rows;
+                    return (
+                      <button
+                        key={season}
+                        onClick={() => handleSync(season)}
+                        disabled={syncing !== null}
+                        className={`${btnGhostCls} flex items-center gap-1.5`}
+                      >
+                        {syncing === season ? 'Syncing…' : `Sync ${season}`}
+                        {count !== undefined && (
+                          <span className="text-[10px] text-slate-400">{count.toLocaleString()}</span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+                <div className="text-xs text-slate-400 mt-1.5">
+                  Run each season once; re-run the current season weekly during the year. Requires the sql/nfl_props.sql tables.
+                </div>
               </div>
-            </div>
+            )}
 
             <div>
               <div className="flex items-center gap-3 mb-2">
@@ -906,7 +1133,7 @@ export default function PropsAdminPage() {
                       </tr>
                     </thead>
                     <tbody>
-                      {PROP_MARKETS.flatMap((m) =>
+                      {leagueMarkets.flatMap((m) =>
                         m.positions.map((pos) => {
                           const r = reference.markets[m.key]?.[pos];
                           if (!r) return null;
@@ -932,7 +1159,9 @@ export default function PropsAdminPage() {
                   </table>
                 </div>
               ) : (
-                <div className="text-xs text-slate-400">No reference yet — sync seasons, then Recompute.</div>
+                <div className="text-xs text-slate-400">
+                  No reference yet — {league === 'NBA' ? 'upload game logs' : 'sync seasons'}, then Recompute.
+                </div>
               )}
             </div>
           </div>
@@ -959,7 +1188,9 @@ export default function PropsAdminPage() {
                   <img src={teamTheme.logo} alt="" className="h-5 w-5 object-contain" />
                 )}
                 <span className="font-semibold">{selectedPlayer.player_name}</span>
-                <span className="text-slate-500 text-xs">{selectedPlayer.position} · {selectedPlayer.team}</span>
+                <span className="text-slate-500 text-xs">
+                  {[selectedPlayer.position, selectedPlayer.team].filter(Boolean).join(' · ')}
+                </span>
                 <button
                   onClick={clearPlayer}
                   aria-label="Clear player"
@@ -973,7 +1204,7 @@ export default function PropsAdminPage() {
                 <input
                   value={playerSearch}
                   onChange={(e) => setPlayerSearch(e.target.value)}
-                  placeholder="Josh Jacobs…"
+                  placeholder={league === 'NBA' ? 'Jalen Brunson…' : 'Josh Jacobs…'}
                   className={fieldCls}
                 />
                 {playerSearch.trim().length >= 2 && playerResults.length > 0 && (
@@ -985,7 +1216,9 @@ export default function PropsAdminPage() {
                         className="w-full text-left px-3 py-2 text-sm hover:bg-slate-50 flex justify-between"
                       >
                         <span>{p.player_name}</span>
-                        <span className="text-xs text-slate-400">{p.position} · {p.team} · {p.last_season}</span>
+                        <span className="text-xs text-slate-400">
+                          {[p.position, p.team, p.last_season].filter(Boolean).join(' · ')}
+                        </span>
                       </button>
                     ))}
                   </div>
@@ -996,7 +1229,7 @@ export default function PropsAdminPage() {
 
           <div>
             <label className={labelCls}>
-              Market{selectedPlayer ? ` — ${selectedPlayer.position} (${availableMarkets.length})` : ''}
+              Market{selectedPlayer ? ` — ${selectedPlayer.position || league} (${availableMarkets.length})` : ''}
             </label>
             <div className="flex flex-wrap gap-1.5">
               {availableMarkets.map((m) => (
@@ -1019,10 +1252,10 @@ export default function PropsAdminPage() {
             <div>
               <label className={labelCls}>League</label>
               <div className="flex rounded-lg border border-slate-200 overflow-hidden">
-                {NFL_SPORTS.map((s) => (
+                {PROP_SPORTS.map((s) => (
                   <button
                     key={s.key}
-                    onClick={() => setSportKey(s.key)}
+                    onClick={() => changeSport(s.key)}
                     className={`px-3 py-2 text-xs font-medium transition ${
                       sportKey === s.key ? 'bg-[#0052ff] text-white' : 'bg-white text-slate-600 hover:bg-slate-50'
                     }`}
@@ -1142,7 +1375,7 @@ export default function PropsAdminPage() {
               )
             )}
 
-            {measured && measured.mean > measured.median && (
+            {measured && !countMarket && measured.mean > measured.median && (
               <div className="text-xs text-amber-600">
                 Mean &gt; median by {(measured.mean - measured.median).toFixed(1)} — boom/bust pattern
                 present; the Boom/Bust number is the honest one at the main line.
@@ -1150,7 +1383,7 @@ export default function PropsAdminPage() {
             )}
             {leagueMult !== null && (
               <div className="text-xs text-slate-400">
-                League {position} multiplier {leagueMult}
+                League {positionLabel} multiplier {leagueMult}
                 {tierMult !== null && ` · tier ${tierMult}`}
                 {measured && ` · this player ${measured.cv.toFixed(2)}`}
               </div>
@@ -1181,7 +1414,7 @@ export default function PropsAdminPage() {
                           <tr className="text-left text-slate-400 uppercase tracking-wide">
                             <th className="py-1 pr-2">In</th>
                             <th className="py-1 pr-3">Season</th>
-                            <th className="py-1 pr-3">Wk</th>
+                            <th className="py-1 pr-3">{league === 'NBA' ? 'Date' : 'Wk'}</th>
                             <th className="py-1 pr-3">Opp</th>
                             <th className="py-1 pr-3 text-right">{marketDef.opportunityStat}</th>
                             <th className="py-1 pr-3 text-right">{marketDef.label}</th>
@@ -1191,8 +1424,8 @@ export default function PropsAdminPage() {
                         <tbody>
                           {rows.map((g) => {
                             const k = gameKey(g);
-                            const opp = g[marketDef.opportunityStat] ?? 0;
-                            const val = g[marketDef.stat] ?? 0;
+                            const opp = statValue(g, marketDef.opportunityStat) ?? 0;
+                            const val = statValue(g, marketDef.stat) ?? 0;
                             const manualOut = excludedGames.has(k);
                             const autoOut = !manualOut && (opp < minOppN || (excludeZero && val <= 0));
                             const out = manualOut || autoOut;
@@ -1213,7 +1446,7 @@ export default function PropsAdminPage() {
                                 </td>
                                 <td className="py-1 pr-3 tabular-nums">{g.season}</td>
                                 <td className="py-1 pr-3 tabular-nums">
-                                  {g.week}{g.season_type !== 'REG' ? ' P' : ''}
+                                  {g.game_date?.slice(5) ?? g.week}{g.season_type !== 'REG' ? ' P' : ''}
                                 </td>
                                 <td className="py-1 pr-3">{g.opponent ?? '—'}</td>
                                 <td className="py-1 pr-3 text-right tabular-nums text-slate-500">{opp}</td>
@@ -1249,6 +1482,22 @@ export default function PropsAdminPage() {
             <div className="space-y-1.5">
               <div className="text-[10px] uppercase tracking-wide text-slate-400 font-medium">Your model</div>
               <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label className={labelCls}>Projection from</label>
+                  <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+                    {([['measured', 'Average'], ['matchup', 'Matchup']] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => { setProjMode(mode); setProjectionEdited(false); }}
+                        className={`px-2.5 py-2 text-xs font-medium transition whitespace-nowrap ${
+                          projMode === mode ? 'bg-[#0052ff] text-white' : 'bg-white text-slate-600 hover:bg-slate-50'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
                 <div className="w-24">
                   <label className={labelCls}>Projection</label>
                   <input
@@ -1289,9 +1538,8 @@ export default function PropsAdminPage() {
                   <label className={labelCls}>Curve</label>
                   <div className="flex rounded-lg border border-slate-200 overflow-hidden">
                     {([
-                      ['auto', `Auto (${autoDist.dist === 'lognormal' ? 'Boom/Bust' : 'Balanced'})`],
-                      ['normal', 'Balanced'],
-                      ['lognormal', 'Boom/Bust'],
+                      ['auto', `Auto (${DIST_LABELS[autoDist.dist]})`],
+                      ...curvePair.map((d) => [d, DIST_LABELS[d]] as const),
                     ] as const).map(([mode, label]) => (
                       <button
                         key={mode}
@@ -1308,23 +1556,51 @@ export default function PropsAdminPage() {
               </div>
               {/* One combined explainer line for the whole model row */}
               <div className="text-[11px] leading-snug text-slate-400">
-                <span className="font-medium text-slate-500">Projection</span> = his average — the curve
-                derives the median.
+                <span className="font-medium text-slate-500">Projection</span>{' '}
+                {projMode === 'matchup'
+                  ? '= his average moved for role, form, opponent and game total — the curve derives the median.'
+                  : '= his average — the curve derives the median.'}
                 {' · '}
                 <span className="font-medium text-slate-500">Volatility</span>{' '}
                 {sdMode === 'measured' && `= his own game-to-game swings${measured ? ` (${measured.values.length} games)` : ''}.`}
                 {sdMode === 'tier' && '= players at his projected volume (rookie/new-role fallback).'}
-                {sdMode === 'league' && `= all ${position}s blended (coarse backstop).`}
+                {sdMode === 'league' && `= all ${positionLabel}s blended (coarse backstop).`}
                 {sdMode === 'custom' && '= set by hand.'}
                 {' · '}
                 <span className="font-medium text-slate-500">Curve</span>{' '}
                 {distMode !== 'auto' && '= set by hand.'}
-                {distMode === 'auto' && (autoDist.basis === 'shape' && measured
+                {distMode === 'auto' && (autoDist.basis === 'shape' && measured && countMarket
+                  ? `auto from his rate: game-to-game variance ${(measured.sd * measured.sd).toFixed(2)} vs average ${measured.mean.toFixed(2)}${
+                      autoDist.dist === 'negbin' ? ' — the rate itself swings, so fatter tails.' : ' — steady rate.'}`
+                  : autoDist.basis === 'shape' && measured
                   ? autoDist.dist === 'lognormal'
                     ? `auto from his shape: average ${(measured.mean - measured.median).toFixed(1)} above his typical game — boom/bust.`
                     : `auto from his shape: average ≈ typical (${measured.mean.toFixed(1)} vs ${measured.median.toFixed(1)}) — steady.`
                   : 'auto = market default (needs 8+ games to read his shape).')}
               </div>
+              {/* Matchup breakdown: each step in stat units, summing to the projection */}
+              {matchup && (
+                <div className="text-[11px] leading-snug text-slate-500 tabular-nums">
+                  Average {matchup.base.toFixed(1)}
+                  {' · '}role {fmtDelta(matchup.role)}
+                  {' · '}form {fmtDelta(matchup.form)}
+                  {' · '}
+                  {matchup.defense && matchupGame
+                    ? `vs ${matchupGame.opponent} ×${matchup.defense.factor.toFixed(2)} (${matchup.defense.games}g) ${fmtDelta(matchup.opponent)}`
+                    : 'opponent —'}
+                  {' · '}
+                  {matchup.teamTotal !== null
+                    ? `team total ${matchup.teamTotal.toFixed(1)} ×${matchup.envFactor.toFixed(2)} ${fmtDelta(matchup.environment)}`
+                    : 'team total —'}
+                  {' → '}
+                  <span className="font-semibold text-slate-700">{matchup.projection.toFixed(1)}</span>
+                  {!matchupGame && (
+                    <span className="text-slate-400">
+                      {' '}({eventId ? `${selectedPlayer?.team ?? 'his team'} not found in this game` : 'pick his game for opponent + team total'})
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="space-y-1.5">
@@ -1343,7 +1619,7 @@ export default function PropsAdminPage() {
                   )}
                 </div>
                 <div className="w-24">
-                  <label className={labelCls}>Over price</label>
+                  <label className={labelCls}>{marketDef.yesNo ? 'Yes price' : 'Over price'}</label>
                   <input
                     value={overPriceInput}
                     onChange={(e) => setOverPriceInput(e.target.value)}
@@ -1354,7 +1630,7 @@ export default function PropsAdminPage() {
                   />
                 </div>
                 <div className="w-24">
-                  <label className={labelCls}>Under price</label>
+                  <label className={labelCls}>{marketDef.yesNo ? 'No price' : 'Under price'}</label>
                   <input
                     value={underPriceInput}
                     onChange={(e) => setUnderPriceInput(e.target.value)}
@@ -1365,15 +1641,16 @@ export default function PropsAdminPage() {
                   />
                 </div>
                 {/* Model fair verdict chip: where P(over)=50% (projection for
-                    Balanced, lognormal median for Boom/Bust) vs the book */}
+                    Balanced, lognormal median for Boom/Bust, median count for
+                    the discrete curves) vs the book */}
                 {hasProj && sd !== null && sd > 0 && (() => {
-                  const fairLine = dist === 'normal' ? projNum : lognormalParams(projNum, sd).median;
+                  const fairLine = fairLineOf(projNum, sd, dist);
                   const diff = hasLine ? line - fairLine : null;
                   return (
                     <div className="ml-auto text-center bg-slate-50 rounded-lg px-3 py-1.5">
                       <div className="text-[10px] uppercase tracking-wide text-slate-400">Model fair line</div>
                       <div className="text-sm font-semibold tabular-nums">
-                        {fairLine.toFixed(1)}
+                        {countMarket ? fairLine : fairLine.toFixed(1)}
                         {diff !== null && Math.abs(diff) >= 0.5 && (
                           <span className={`ml-1 text-xs font-medium ${diff > 0 ? 'text-red-500' : 'text-emerald-600'}`}>
                             book {diff > 0 ? '+' : ''}{diff.toFixed(1)}
@@ -1388,19 +1665,30 @@ export default function PropsAdminPage() {
 
             {hasProj && sd !== null && sd > 0 && (
               <>
-                <DistributionChart
-                  values={measured?.values ?? []}
-                  mean={projNum}
-                  sd={sd}
-                  line={hasLine ? line : null}
-                  dist={dist}
-                  unit={MARKET_UNITS[marketDef.key] ?? ''}
-                />
+                {countMarket ? (
+                  <CountChart
+                    values={measured?.values ?? []}
+                    mean={projNum}
+                    sd={sd}
+                    line={hasLine ? line : null}
+                    dist={dist}
+                    unit={MARKET_UNITS[marketDef.key] ?? ''}
+                  />
+                ) : (
+                  <DistributionChart
+                    values={measured?.values ?? []}
+                    mean={projNum}
+                    sd={sd}
+                    line={hasLine ? line : null}
+                    dist={dist}
+                    unit={MARKET_UNITS[marketDef.key] ?? ''}
+                  />
+                )}
                 {/* One-sentence automatic chart read: the single most relevant
                     thing the picture is saying, in plain English. Priority:
                     bust-dragged average (don't trust the curves yet) > line
                     vs typical game > boom-inflated average. */}
-                {measured && (() => {
+                {measured && !countMarket && (() => {
                   const gap = measured.mean - measured.median;
                   const rel = measured.median > 0 ? gap / measured.median : 0;
                   let read: string | null = null;
@@ -1430,18 +1718,16 @@ export default function PropsAdminPage() {
             {result && sd !== null && (
               <>
                 <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3 text-center">
-                  <div className="bg-slate-50 rounded-lg py-2.5">
-                    <div className="text-[10px] uppercase tracking-wide text-slate-400">P(Over) Balanced</div>
-                    <div className={`text-sm tabular-nums ${dist === 'normal' ? 'font-bold' : 'text-slate-500'}`}>
-                      {fmtPct(result.pNormal)}
-                    </div>
-                  </div>
-                  <div className="bg-slate-50 rounded-lg py-2.5">
-                    <div className="text-[10px] uppercase tracking-wide text-slate-400">P(Over) Boom/Bust</div>
-                    <div className={`text-sm tabular-nums ${dist === 'lognormal' ? 'font-bold' : 'text-slate-500'}`}>
-                      {fmtPct(result.pLog)}
+                  {curvePair.map((d, i) => (
+                    <div key={d} className="bg-slate-50 rounded-lg py-2.5">
+                      <div className="text-[10px] uppercase tracking-wide text-slate-400">
+                        P({marketDef.yesNo ? 'Yes' : 'Over'}) {DIST_LABELS[d]}
+                      </div>
+                      <div className={`text-sm tabular-nums ${dist === d ? 'font-bold' : 'text-slate-500'}`}>
+                        {fmtPct(result.byCurve[i])}
+                      </div>
                     </div>
-                  </div>
+                  ))}
                   <div className="bg-slate-50 rounded-lg py-2.5">
                     <div className="text-[10px] uppercase tracking-wide text-slate-400">Fair Over</div>
                     <div className="text-sm font-semibold tabular-nums">{fmtAmerican(result.fair)}</div>
@@ -1450,6 +1736,12 @@ export default function PropsAdminPage() {
                     <div className="text-[10px] uppercase tracking-wide text-slate-400">Fair Under</div>
                     <div className="text-sm font-semibold tabular-nums">{fmtAmerican(result.fairUnder)}</div>
                   </div>
+                  {result.pPush > 0 && (
+                    <div className="bg-slate-50 rounded-lg py-2.5">
+                      <div className="text-[10px] uppercase tracking-wide text-slate-400">Push</div>
+                      <div className="text-sm tabular-nums">{fmtPct(result.pPush)}</div>
+                    </div>
+                  )}
                   <div className="bg-slate-50 rounded-lg py-2.5">
                     <div className="text-[10px] uppercase tracking-wide text-slate-400">Breakeven</div>
                     <div className="text-sm tabular-nums">{fmtPct(result.breakeven)}</div>
@@ -1487,6 +1779,25 @@ export default function PropsAdminPage() {
                     number — more likely you&apos;re missing something than the whole market is.
                   </div>
                 )}
+
+                {(() => {
+                  // Fractional Kelly on whichever side has the edge
+                  if (!bankroll || bankroll.report.currency !== 'dollars') return null;
+                  const side = result.ev !== null && result.ev > 0 && overPrice !== null
+                    ? { name: 'Over', p: result.p, price: overPrice }
+                    : result.evUnder !== null && result.evUnder > 0 && underPrice !== null
+                      ? { name: 'Under', p: result.pUnder, price: underPrice }
+                      : null;
+                  if (!side) return null;
+                  const stake = suggestStake(side.p, side.price, bankroll.report.current, bankroll.settings);
+                  return (
+                    <div className="text-xs text-slate-600 tabular-nums">
+                      {bankroll.settings.kellyMultiplier}× Kelly on the {side.name}:{' '}
+                      <span className="font-semibold text-slate-900">{stake.units}u</span> (${stake.dollars.toFixed(0)})
+                      {stake.capped && ` · capped at ${bankroll.settings.maxBetPct}% of bankroll`}
+                    </div>
+                  );
+                })()}
               </>
             )}
 
@@ -1495,7 +1806,7 @@ export default function PropsAdminPage() {
               <div>
                 <div className="flex items-center gap-2 mb-1.5">
                   <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                    Ladder — {dist === 'lognormal' ? 'Boom/Bust' : 'Balanced'}
+                    Ladder — {DIST_LABELS[dist]}
                   </div>
                   {bookLines.length <= 1 && (
                     <span className="text-[10px] text-slate-400">synthetic lines (load alt lines for book prices)</span>
@@ -1598,6 +1909,10 @@ export default function PropsAdminPage() {
           </div>
         )}
 
+        {(selectedPlayer || playerQuotes.length > 0) && (
+          <SgpPanel key={league} league={league} candidate={sgpCandidate} team={selectedPlayer?.team ?? null} />
+        )}
+
         <div className="text-[11px] text-slate-400 pb-6">
           Projection = mean; the market prices the median. Yardage props are right-skewed, so at the main line the
           over is worse than the symmetric math says — deep alt overs can be better. Multipliers derived from
@@ -0,0 +1,33 @@
+// src/app/api/bets/closing/route.ts
+//
+// Closing-line capture for tracked bets. Vercel cron sends GET (see
+// vercel.json: daily 09:00 UTC — the close is cut at tip from stored snapshots,
+// so it does not need to run near game time); POST runs the same pass
+// on demand.
+
+import { NextResponse } from 'next/server';
+import { captureClosingLines } from '@/lib/clvCapture';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+async function run() {
+  try {
+    const result = await captureClosingLines();
+    return NextResponse.json({ success: result.errors.length === 0, ...result });
+  } catch (error) {
+    console.error('[Bets Closing] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Closing capture failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return run();
+}
+
+export async function POST() {
+  return run();
+}
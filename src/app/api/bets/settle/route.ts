@@ -0,0 +1,34 @@
+// src/app/api/bets/settle/route.ts
+//
+// Grades pending straight bets from ESPN final scores. Vercel cron sends GET
+// (see vercel.json: daily 08:00 UTC, after the late West Coast games); the
+// Bet Admin "Grade now" button POSTs the same pass.
+//
+// Env: DISCORD_WEBHOOK_URL — each graded bet re-posts its embed when set.
+
+import { NextResponse } from 'next/server';
+import { settlePendingBets } from '@/lib/settleBets';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+async function run() {
+  try {
+    const result = await settlePendingBets();
+    return NextResponse.json({ success: result.errors.length === 0, ...result });
+  } catch (error) {
+    console.error('[Bets Settle] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Settlement failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return run();
+}
+
+export async function POST() {
+  return run();
+}
@@ -0,0 +1,47 @@
+// src/app/api/consensus/log/route.ts
+// Logs every consensus league's projections to consensus_projections and
+// grades a batch of finished games (src/lib/consensusRunner.ts) — the only
+// path that writes; /api/consensus and the game page just read.
+//
+// GET  — used by the Vercel cron (see vercel.json: every 3 hours).
+// POST — manual run. Body: { sport?: string } — one league instead of all.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CONSENSUS_SYSTEMS } from '@/lib/consensus';
+import { runConsensus } from '@/lib/consensusRunner';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+async function run(sports: string[], origin: string) {
+  try {
+    const results = [];
+    for (const sport of sports) {
+      const result = await runConsensus(sport, { origin, log: true });
+      results.push({ sport, games: result.games.length, warnings: result.warnings });
+    }
+    return NextResponse.json({ success: results.every((r) => r.warnings.length === 0), results });
+  } catch (error) {
+    console.error('[Consensus Log] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Consensus log failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return run(Object.keys(CONSENSUS_SYSTEMS), new URL(request.url).origin);
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const sport = typeof body?.sport === 'string' ? body.sport : null;
+  if (sport && !CONSENSUS_SYSTEMS[sport]) {
+    return NextResponse.json(
+      { error: `sport must be one of ${Object.keys(CONSENSUS_SYSTEMS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+  return run(sport ? [sport] : Object.keys(CONSENSUS_SYSTEMS), new URL(request.url).origin);
+}
@@ -0,0 +1,39 @@
+// src/app/api/consensus/route.ts
+// Weighted multi-system consensus line per game, with the learned weights
+// and the edge against the current market. ?sport=<odds api key>, optionally
+// &game=<event id> for a single game.
+
+import { NextResponse } from 'next/server';
+import { CONSENSUS_SYSTEMS } from '@/lib/consensus';
+import { runConsensus } from '@/lib/consensusRunner';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const sport = url.searchParams.get('sport') ?? '';
+  if (!CONSENSUS_SYSTEMS[sport]) {
+    return NextResponse.json(
+      { error: `sport must be one of ${Object.keys(CONSENSUS_SYSTEMS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await runConsensus(sport, {
+      gameId: url.searchParams.get('game') ?? undefined,
+      origin: url.origin,
+    });
+    return NextResponse.json(
+      { success: true, sport, weights: result.systems, errors: result.errors, games: result.games, warnings: result.warnings },
+      // Projections move with ratings and the board, not by the second
+      { headers: { 'Cache-Control': 's-maxage=300, stale-while-revalidate=3600' } }
+    );
+  } catch (error) {
+    console.error('[Consensus] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed' },
+      { status: 500 }
+    );
+  }
+}
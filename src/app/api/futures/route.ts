@@ -1,5 +1,6 @@
 // src/app/api/futures/route.ts
 import { NextResponse } from 'next/server';
+import { getOddsProvider, setQuotaHeaders } from '@/lib/odds';
 
 export async function GET(request: Request) {
   console.log('Futures API route called');
@@ -31,32 +32,11 @@ export async function GET(request: Request) {
   }
   
   try {
-    const apiUrl = `https://api.the-odds-api.com/v4/sports/${championshipKey}/odds/?apiKey=${process.env.ODDS_API_KEY}&regions=us&markets=outrights&oddsFormat=american`;
-    console.log('Requesting futures URL:', apiUrl.replace(process.env.ODDS_API_KEY || '', '[REDACTED]'));
-    
     // Futures move slowly — cache for 10 minutes
-    const response = await fetch(apiUrl, { next: { revalidate: 600 } });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`API error: ${response.status} - ${errorText}`);
-      return NextResponse.json([], { status: 200 });
-    }
-    
-    const data = await response.json();
-    
-    // Extract rate limit headers
-    const requestsRemaining = response.headers.get('x-requests-remaining');
-    const requestsUsed = response.headers.get('x-requests-used');
-    console.log('API Rate Limit - Remaining:', requestsRemaining, 'Used:', requestsUsed);
-    
-    // Create a new response with the data and pass through the headers
+    const { data, quota } = await getOddsProvider().getOdds(championshipKey, { markets: ['outrights'] }, { revalidate: 600 });
+
     const nextResponse = NextResponse.json(data);
-    
-    // Add rate limit headers to our response
-    if (requestsRemaining) nextResponse.headers.set('x-requests-remaining', requestsRemaining);
-    if (requestsUsed) nextResponse.headers.set('x-requests-used', requestsUsed);
-    
+    setQuotaHeaders(nextResponse.headers, quota);
     return nextResponse;
   } catch (error) {
     console.error('Error fetching futures:', error);
@@ -1,9 +1,27 @@
 // src/app/api/kalshi-odds/route.ts
 import { NextResponse } from 'next/server';
 import { fetchKalshiOdds, fetchKalshiFutures } from '@/lib/kalshi';
+import { loadTeamOverrides } from '@/lib/ratings/supabase';
 
 export const dynamic = 'force-dynamic';
 
+// NCAAB Kalshi names recorded in the team registry (ncaab_team_overrides
+// kalshi_name) → the Odds API name, so the board merge sees an exact match
+async function kalshiRenames(sport: string): Promise<Map<string, string>> {
+  if (sport !== 'basketball_ncaab') return new Map();
+  try {
+    const overrides = await loadTeamOverrides();
+    return new Map(
+      overrides
+        .filter(o => o.kalshiName && o.oddsApiName)
+        .map(o => [o.kalshiName!, o.oddsApiName!])
+    );
+  } catch (error) {
+    console.error('Error loading Kalshi team names:', error);
+    return new Map();
+  }
+}
+
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const sport = searchParams.get('sport');
@@ -27,8 +45,18 @@ export async function GET(request: Request) {
   }
 
   try {
-    const result = await fetchKalshiOdds(sport);
-    return NextResponse.json(result);
+    const [result, renames] = await Promise.all([fetchKalshiOdds(sport), kalshiRenames(sport)]);
+    if (renames.size === 0) return NextResponse.json(result);
+    const rename = <T extends { awayTeam: string; homeTeam: string }>(g: T): T => ({
+      ...g,
+      awayTeam: renames.get(g.awayTeam) ?? g.awayTeam,
+      homeTeam: renames.get(g.homeTeam) ?? g.homeTeam,
+    });
+    return NextResponse.json({
+      moneyline: result.moneyline.map(rename),
+      spreads: result.spreads.map(rename),
+      totals: result.totals.map(rename),
+    });
   } catch (error) {
     console.error('Error fetching Kalshi odds:', error);
     return NextResponse.json({ moneyline: [], spreads: [], totals: [] });
@@ -1,7 +1,8 @@
 // src/app/api/lacrosse/import-ratings/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { initializeFromMassey } from '@/lib/lacrosse/supabase';
+import { SPORT_RATINGS } from '@/lib/ratings/sports';
+import { seedSportRatings } from '@/lib/ratings/sportSync';
 
 /**
  * Import Massey Lacrosse Ratings from CSV
@@ -53,7 +54,7 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    const teams: Array<{ Team: string; Rating: number; Conf?: string }> = [];
+    const teams: Array<{ name: string; rating: number; conference?: string }> = [];
 
     for (let i = 1; i < lines.length; i++) {
       const cols = lines[i].split(delimiter);
@@ -65,9 +66,9 @@ export async function POST(request: NextRequest) {
       if (!teamName || isNaN(ratingVal)) continue;
 
       teams.push({
-        Team: teamName,
-        Rating: ratingVal,
-        Conf: conf || undefined,
+        name: teamName,
+        rating: ratingVal,
+        conference: conf || undefined,
       });
     }
 
@@ -80,12 +81,12 @@ export async function POST(request: NextRequest) {
 
     console.log(`[Import Massey] Parsed ${teams.length} teams, importing for season ${season}`);
 
-    await initializeFromMassey(teams, season);
+    await seedSportRatings(SPORT_RATINGS.lacrosse_ncaa, teams, season);
 
     return NextResponse.json({
       success: true,
       teamsImported: teams.length,
-      sample: teams.slice(0, 5).map(t => ({ team: t.Team, conf: t.Conf, rating: t.Rating })),
+      sample: teams.slice(0, 5).map(t => ({ team: t.name, conf: t.conference, rating: t.rating })),
     });
   } catch (error) {
     console.error('[Import Massey] Error:', error);
@@ -0,0 +1,89 @@
+// src/app/api/line-alerts/route.ts
+// CRUD for line_alert_rules, plus the most recent posted alerts for the admin page.
+
+import { NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { LINE_ALERT_KINDS, ruleFromRow, ruleToRow, type LineAlertRule, type LineAlertRuleRow } from '@/lib/lineAlerts';
+
+export const dynamic = 'force-dynamic';
+
+const RECENT_SENT = 50;
+
+export async function GET() {
+  const [rules, sent] = await Promise.all([
+    supabase.from('line_alert_rules').select('*').order('sport_key', { ascending: true }).order('id', { ascending: true }),
+    supabase.from('line_alerts_sent').select('*').order('sent_at', { ascending: false }).limit(RECENT_SENT),
+  ]);
+  const error = rules.error ?? sent.error;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  return NextResponse.json({
+    success: true,
+    rules: (rules.data as LineAlertRuleRow[]).map(ruleFromRow),
+    sent: sent.data ?? [],
+  });
+}
+
+/** Create (no id) or update (id) one rule. */
+export async function POST(request: Request) {
+  let body: Partial<LineAlertRule>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!LINE_ALERT_KINDS.some((k) => k.kind === body.kind)) {
+    return NextResponse.json({ error: `kind must be one of ${LINE_ALERT_KINDS.map((k) => k.kind).join(', ')}` }, { status: 400 });
+  }
+  if (!body.sportKey?.trim()) return NextResponse.json({ error: 'sportKey is required' }, { status: 400 });
+  if (body.market !== 'spreads' && body.market !== 'totals') {
+    return NextResponse.json({ error: 'market must be spreads or totals' }, { status: 400 });
+  }
+  const threshold = Number(body.threshold);
+  const windowMinutes = Number(body.windowMinutes ?? 60);
+  const minBooks = Number(body.minBooks ?? 1);
+  if (!Number.isFinite(threshold) || threshold < 0) {
+    return NextResponse.json({ error: 'threshold must be a non-negative number' }, { status: 400 });
+  }
+  if (!Number.isInteger(windowMinutes) || windowMinutes < 0) {
+    return NextResponse.json({ error: 'windowMinutes must be a non-negative integer' }, { status: 400 });
+  }
+  if (!Number.isInteger(minBooks) || minBooks < 1) {
+    return NextResponse.json({ error: 'minBooks must be a positive integer' }, { status: 400 });
+  }
+
+  const row = {
+    ...ruleToRow({
+      kind: body.kind!,
+      sportKey: body.sportKey.trim(),
+      market: body.market,
+      threshold,
+      windowMinutes,
+      minBooks,
+      enabled: body.enabled ?? true,
+    }),
+    updated_at: new Date().toISOString(),
+  };
+
+  const query = body.id
+    ? supabase.from('line_alert_rules').update(row).eq('id', body.id)
+    : supabase.from('line_alert_rules').insert(row);
+  const { data, error } = await query.select().single();
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  return NextResponse.json({ success: true, rule: ruleFromRow(data as LineAlertRuleRow) });
+}
+
+export async function DELETE(request: Request) {
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) return NextResponse.json({ error: 'id is required' }, { status: 400 });
+
+  const { error } = await supabase.from('line_alert_rules').delete().eq('id', Number(id));
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,26 @@
+// src/app/api/market-ratings/[sport]/route.ts
+// Closing-line market ratings for any sport in SPORT_RATINGS (NBA, NHL, NFL,
+// NCAAF, lacrosse). See ../handlers.ts for the request and response shapes.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSportRatingsConfig } from '@/lib/ratings/sports';
+import { getSportRatings, postSportRatings } from '../handlers';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ sport: string }> };
+
+const unsupported = (sport: string) =>
+  NextResponse.json({ success: false, error: `Market ratings aren't set up for ${sport}` }, { status: 404 });
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { sport } = await params;
+  const config = getSportRatingsConfig(sport);
+  return config ? getSportRatings(config, request) : unsupported(sport);
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { sport } = await params;
+  const config = getSportRatingsConfig(sport);
+  return config ? postSportRatings(config, request) : unsupported(sport);
+}
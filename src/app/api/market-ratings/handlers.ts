@@ -0,0 +1,134 @@
+// src/app/api/market-ratings/handlers.ts
+// GET/POST bodies shared by /api/market-ratings/[sport] and the lacrosse
+// calculate route, which keeps its URL for the existing lacrosse page.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SportRatingsConfig } from '@/lib/ratings/types';
+import {
+  loadSportSnapshot,
+  recalculateSportRatings,
+  seedFromPowerRatingSet,
+  SportRatingsError,
+  syncSportRatings,
+} from '@/lib/ratings/sportSync';
+import { loadTeamOverrides } from '@/lib/lacrosse/supabase';
+import { lacrosseOverrideAliases } from '@/lib/teams';
+
+// Registry aliases from a sport's override table (only lacrosse has one)
+async function overrideAliases(config: SportRatingsConfig) {
+  return config.sportKey === 'lacrosse_ncaa' ? lacrosseOverrideAliases(await loadTeamOverrides()) : [];
+}
+
+// SportRatingsError carries its own status; anything else is a 500
+function errorResponse(tag: string, error: unknown, fallback: string) {
+  console.error(`[${tag}] Error:`, error);
+  return NextResponse.json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+  }, { status: error instanceof SportRatingsError ? error.status : 500 });
+}
+
+/**
+ * GET - Current ratings and every processed game for a season
+ *
+ * Query params:
+ *   season?: number (default: the sport's current season)
+ */
+export async function getSportRatings(config: SportRatingsConfig, request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const season = parseInt(searchParams.get('season') || String(config.defaultSeason));
+    const { snapshot, stats } = await loadSportSnapshot(config, season);
+
+    if (snapshot.ratings.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: config.seed === 'flat'
+          ? `No ${config.label} ratings yet. Run a sync to start the season.`
+          : `No ${config.label} ratings found. Seed the season first.`,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      lastCalculated: stats.lastGameDate,
+      syncRange: {
+        firstGameDate: stats.firstGameDate,
+        lastGameDate: stats.lastGameDate,
+      },
+      config: {
+        hca: snapshot.hca,
+        closingSource: snapshot.closingSource,
+        marginUnit: config.marginUnit,
+        season,
+      },
+      summary: {
+        teamsCount: stats.teamsCount,
+        gamesProcessed: stats.gamesProcessed,
+      },
+      data: snapshot,
+    });
+  } catch (error) {
+    return errorResponse(`${config.label} Ratings`, error, 'Failed to load ratings');
+  }
+}
+
+/**
+ * POST - Sync new games, or act on the season
+ *
+ * Body:
+ *   action?: 'sync' (default) | 'recalculate' | 'seed'
+ *   season?, hca?, closingSource?, maxGames?, startDate?, endDate?
+ *   source?: power-rating set to seed from (seed only, default brad_powers)
+ */
+export async function postSportRatings(config: SportRatingsConfig, request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const season: number = body.season ?? config.defaultSeason;
+
+  try {
+    if (body.action === 'recalculate') {
+      const gamesProcessed = await recalculateSportRatings(config, season, body.hca ?? config.hca);
+      return NextResponse.json({
+        success: true,
+        message: `Recalculated from ${gamesProcessed} games`,
+        gamesProcessed,
+      });
+    }
+
+    if (body.action === 'seed') {
+      const teamsSeeded = await seedFromPowerRatingSet(config, season, body.source);
+      return NextResponse.json({ success: true, message: `Seeded ${teamsSeeded} teams`, teamsSeeded });
+    }
+
+    const { snapshot, newGamesProcessed, gamesSkipped } = await syncSportRatings(config, {
+      aliases: await overrideAliases(config),
+      season,
+      hca: body.hca,
+      closingSource: body.closingSource,
+      maxGames: body.maxGames,
+      startDate: body.startDate,
+      endDate: body.endDate,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Processed ${newGamesProcessed} new games`,
+      lastCalculated: new Date().toISOString(),
+      config: {
+        hca: snapshot.hca,
+        closingSource: snapshot.closingSource,
+        marginUnit: config.marginUnit,
+        season,
+      },
+      summary: {
+        teamsCount: snapshot.ratings.length,
+        gamesProcessed: snapshot.gamesProcessed,
+        newGamesProcessed,
+        gamesSkipped,
+      },
+      data: snapshot,
+    });
+  } catch (error) {
+    return errorResponse(`${config.label} Sync`, error, 'Failed to sync ratings');
+  }
+}
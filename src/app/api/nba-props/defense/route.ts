@@ -0,0 +1,53 @@
+// src/app/api/nba-props/defense/route.ts
+// GET ?market=points[&season=2025] — per-defense allowed rates for one
+// market (lib/props/projection.ts defenseFactors) over every player who
+// faced them, from that season's REG rows of nba_player_game_logs. Season
+// defaults to the latest uploaded. Only the columns the market reads are
+// pulled — a full season is ~26k rows, paginated 1000 at a time.
+
+import { NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { ALL_POSITIONS, marketByKey, PlayerGameLog } from '@/lib/props/markets';
+import { defenseFactors } from '@/lib/props/projection';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const PAGE = 1000;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const def = marketByKey(searchParams.get('market') ?? '');
+  if (!def || def.league !== 'NBA') return NextResponse.json({ error: 'Unknown NBA market' }, { status: 400 });
+
+  let season = Number(searchParams.get('season'));
+  if (!season) {
+    const { data, error } = await supabase
+      .from('nba_player_game_logs')
+      .select('season')
+      .order('season', { ascending: false })
+      .limit(1);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    season = data?.[0]?.season;
+    if (!season) return NextResponse.json({ error: 'No game logs — upload a CSV first' }, { status: 400 });
+  }
+
+  const logs: PlayerGameLog[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabase
+      .from('nba_player_game_logs')
+      .select(`opponent, season, week, season_type, ${def.stat}`)
+      .eq('season', season)
+      .eq('season_type', 'REG')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    logs.push(...((data ?? []) as unknown as PlayerGameLog[]));
+    if (!data || data.length < PAGE) break;
+  }
+
+  return NextResponse.json(
+    { success: true, season, ...defenseFactors(logs, def, ALL_POSITIONS, 'NBA') },
+    { headers: { 'Cache-Control': 's-maxage=3600, stale-while-revalidate=86400' } }
+  );
+}
@@ -0,0 +1,59 @@
+// src/app/api/nba-props/sync/route.ts
+// POST (body = CSV text) — parse an NBA player game-log export (stats.nba.com
+// or Basketball-Reference, see lib/props/nbaLogs.ts) and upsert into
+// nba_player_game_logs. Re-uploading a file is idempotent.
+// After the upsert, open prop predictions are graded (lib/props/gradePredictions.ts).
+// GET — row counts per season for the admin panel.
+
+import { NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { nbaTableRow, parseNbaGameLogs } from '@/lib/props/nbaLogs';
+import { gradeOpenPredictions } from '@/lib/props/gradePredictions';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const CHUNK = 500;
+
+export async function GET() {
+  const seasons: { season: number; rows: number }[] = [];
+  for (let season = 2022; season <= 2026; season++) {
+    const { count, error } = await supabase
+      .from('nba_player_game_logs')
+      .select('*', { count: 'exact', head: true })
+      .eq('season', season);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    if (count) seasons.push({ season, rows: count });
+  }
+  return NextResponse.json({ success: true, seasons });
+}
+
+export async function POST(request: Request) {
+  let logs;
+  try {
+    logs = parseNbaGameLogs(await request.text());
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Unreadable CSV' }, { status: 400 });
+  }
+  if (!logs.length) {
+    return NextResponse.json({ error: 'No player-game rows with minutes in that file' }, { status: 400 });
+  }
+
+  const rows = logs.map(nbaTableRow);
+  for (let i = 0; i < rows.length; i += CHUNK) {
+    const { error } = await supabase
+      .from('nba_player_game_logs')
+      .upsert(rows.slice(i, i + CHUNK), { onConflict: 'player_id,season,week,season_type' });
+    if (error) {
+      return NextResponse.json(
+        { error: `Upsert failed at row ${i}: ${error.message}`, inserted: i },
+        { status: 500 }
+      );
+    }
+  }
+
+  const seasons = Array.from(new Set(logs.map((g) => g.season))).sort();
+  // Fresh logs can settle logged prop predictions (never fails the upload)
+  const grading = await gradeOpenPredictions('NBA');
+  return NextResponse.json({ success: true, seasons, rows: logs.length, grading });
+}
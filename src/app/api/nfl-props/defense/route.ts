@@ -0,0 +1,55 @@
+// src/app/api/nfl-props/defense/route.ts
+// GET ?market=rec_yds&position=WR[&season=2025] — per-defense allowed rates
+// for one market at one position (lib/props/projection.ts defenseFactors),
+// from that season's REG rows of nfl_player_game_logs. Season defaults to
+// the latest synced. Paginated (PostgREST caps at 1000 rows per request).
+
+import { NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { marketByKey, PlayerGameLog } from '@/lib/props/markets';
+import { defenseFactors } from '@/lib/props/projection';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const PAGE = 1000;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const def = marketByKey(searchParams.get('market') ?? '');
+  const position = searchParams.get('position');
+  if (!def || def.league !== 'NFL') return NextResponse.json({ error: 'Unknown NFL market' }, { status: 400 });
+  if (!position) return NextResponse.json({ error: 'Missing position' }, { status: 400 });
+
+  let season = Number(searchParams.get('season'));
+  if (!season) {
+    const { data, error } = await supabase
+      .from('nfl_player_game_logs')
+      .select('season')
+      .order('season', { ascending: false })
+      .limit(1);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    season = data?.[0]?.season;
+    if (!season) return NextResponse.json({ error: 'No game logs — sync seasons first' }, { status: 400 });
+  }
+
+  const logs: PlayerGameLog[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabase
+      .from('nfl_player_game_logs')
+      .select('*')
+      .eq('season', season)
+      .eq('season_type', 'REG')
+      .eq('position', position)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    logs.push(...((data ?? []) as PlayerGameLog[]));
+    if (!data || data.length < PAGE) break;
+  }
+
+  return NextResponse.json(
+    { success: true, season, ...defenseFactors(logs, def, position, 'NFL') },
+    { headers: { 'Cache-Control': 's-maxage=3600, stale-while-revalidate=86400' } }
+  );
+}
@@ -0,0 +1,21 @@
+// src/app/api/nfl-props/margins/route.ts
+// GET ?team=KC — one team's final margins by game (nflverse schedule), the
+// series a team-margin leg correlates against in the same-game parlay
+// pricer. Team is the nflverse code the game logs carry.
+
+import { NextResponse } from 'next/server';
+import { fetchSchedule } from '@/lib/props/nflverse';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const team = new URL(request.url).searchParams.get('team')?.trim().toUpperCase();
+  if (!team) return NextResponse.json({ error: 'Missing team' }, { status: 400 });
+
+  try {
+    const games = (await fetchSchedule()).filter((g) => g.team === team && g.season >= 2022);
+    return NextResponse.json({ success: true, games });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Schedule download failed' }, { status: 502 });
+  }
+}
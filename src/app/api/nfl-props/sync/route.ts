@@ -1,11 +1,13 @@
 // src/app/api/nfl-props/sync/route.ts
 // POST ?season=2025 — download that season's nflverse weekly stats and upsert
 // into nfl_player_game_logs (one season per call to stay under Vercel's 60s).
+// After the upsert, open prop predictions are graded (lib/props/gradePredictions.ts).
 // GET — row counts per season for the admin panel.
 
 import { NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { fetchSeasonLogs } from '@/lib/props/nflverse';
+import { gradeOpenPredictions } from '@/lib/props/gradePredictions';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
@@ -55,5 +57,7 @@ export async function POST(request: Request) {
     }
   }
 
-  return NextResponse.json({ success: true, season, rows: logs.length });
+  // Fresh logs can settle logged prop predictions (never fails the sync)
+  const grading = await gradeOpenPredictions('NFL');
+  return NextResponse.json({ success: true, season, rows: logs.length, grading });
 }
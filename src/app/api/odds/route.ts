@@ -1,5 +1,7 @@
 // src/app/api/odds/route.ts
 import { NextResponse } from 'next/server';
+import { recordOddsSnapshots } from '@/lib/oddsSnapshots';
+import { BOARD_BOOKMAKERS, getOddsProvider, setQuotaHeaders } from '@/lib/odds';
 
 // Whitelist of sport keys we proxy to the Odds API. Anything else is rejected
 // before it hits the paid API to prevent quota abuse via arbitrary sport keys.
@@ -33,35 +35,20 @@ export async function GET(request: Request) {
     );
   }
 
-  const apiKey = process.env.ODDS_API_KEY;
-
   try {
-    // Added includeLinks=true to get deep links to sportsbook betslips
-    const apiUrl = `https://api.the-odds-api.com/v4/sports/${sport}/odds/?apiKey=${apiKey}&regions=us&markets=h2h,spreads,totals&oddsFormat=american&includeLinks=true`;
-
-    // Shared server-side cache: visitors within 60s reuse one paid API call
-    const response = await fetch(apiUrl, { next: { revalidate: 60 } });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`API error: ${response.status} - ${errorText}`);
-      return NextResponse.json([], { status: 200 });
-    }
+    // Shared server-side cache: visitors within 60s reuse one paid API call.
+    // includeLinks adds deep links to sportsbook betslips.
+    const { data, quota } = await getOddsProvider().getOdds(
+      sport,
+      { markets: ['h2h', 'spreads', 'totals'], bookmakers: BOARD_BOOKMAKERS, includeLinks: true },
+      { revalidate: 60 }
+    );
 
-    const data = await response.json();
+    // Line-movement history for the game page chart (throttled, never throws)
+    await recordOddsSnapshots(sport, data);
 
-    // Extract rate limit headers
-    const requestsRemaining = response.headers.get('x-requests-remaining');
-    const requestsUsed = response.headers.get('x-requests-used');
-    console.log('Odds API rate limit — remaining:', requestsRemaining, 'used:', requestsUsed);
-    
-    // Create a new response with the data and pass through the headers
     const nextResponse = NextResponse.json(data);
-    
-    // Add rate limit headers to our response
-    if (requestsRemaining) nextResponse.headers.set('x-requests-remaining', requestsRemaining);
-    if (requestsUsed) nextResponse.headers.set('x-requests-used', requestsUsed);
-    
+    setQuotaHeaders(nextResponse.headers, quota);
     return nextResponse;
   } catch (error) {
     console.error('Error fetching from odds API:', error);
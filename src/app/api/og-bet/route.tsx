@@ -1,7 +1,9 @@
 // src/app/api/og-bet/route.tsx
 // Open Graph card for a single tracked bet — used by /bet/[id] so Discord
 // (via Zapier) unfurls the actual wager instead of a generic odds.day link.
-// Same light theme + pastel team panel as the game share card.
+// Same light theme + pastel team panel as the game share card. Parlays and
+// teasers pass one `leg` param per leg ("text|status") and list them under
+// the ticket title.
 import { ImageResponse } from 'next/og';
 import { NextRequest } from 'next/server';
 
@@ -68,6 +70,13 @@ export async function GET(request: NextRequest) {
   const status = (searchParams.get('status') || 'pending') as keyof typeof STATUS;
   const panel = panelColor(searchParams.get('color'));
   const st = STATUS[status] ?? STATUS.pending;
+  const legs = searchParams.getAll('leg').map(raw => {
+    const i = raw.lastIndexOf('|');
+    const legStatus = (i >= 0 ? raw.slice(i + 1) : 'pending') as keyof typeof STATUS;
+    return { text: i >= 0 ? raw.slice(0, i) : raw, st: STATUS[legStatus] ?? STATUS.pending };
+  });
+  // The card fits five legs at this size; the rest collapse into "+N more"
+  const shownLegs = legs.slice(0, 5);
 
   const bookFile: Record<string, string> = {
     DraftKings: 'draftkings.png', FanDuel: 'fd.png', BetMGM: 'betmgm.png',
@@ -139,6 +148,19 @@ export async function GET(request: NextRequest) {
             <span style={{ color: INK, fontSize: '62px', fontWeight: 700, lineHeight: 1.1 }}>
               {pick}
             </span>
+            {shownLegs.length > 0 && (
+              <div style={{ display: 'flex', flexDirection: 'column', marginTop: '12px', gap: '6px' }}>
+                {shownLegs.map((leg, i) => (
+                  <div key={i} style={{ display: 'flex', alignItems: 'center', gap: '14px' }}>
+                    <div style={{ display: 'flex', width: '14px', height: '14px', borderRadius: '7px', backgroundColor: leg.st.fg }} />
+                    <span style={{ color: INK_SOFT, fontSize: '28px', fontWeight: 600 }}>{leg.text}</span>
+                  </div>
+                ))}
+                {legs.length > shownLegs.length && (
+                  <span style={{ color: INK_SOFT, fontSize: '22px', fontWeight: 600 }}>+{legs.length - shownLegs.length} more</span>
+                )}
+              </div>
+            )}
             {matchup && (
               <span style={{ color: INK_SOFT, fontSize: '28px', fontWeight: 600, marginTop: '10px' }}>
                 {matchup}
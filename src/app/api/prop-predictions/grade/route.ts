@@ -0,0 +1,22 @@
+// src/app/api/prop-predictions/grade/route.ts
+// POST ?league=NFL — grade open prop predictions against the synced game
+// logs now (the calibration page's "Grade now"; syncs grade automatically).
+
+import { NextResponse } from 'next/server';
+import { gradeOpenPredictions } from '@/lib/props/gradePredictions';
+import { PROP_LEAGUES, PropLeague } from '@/lib/props/markets';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function POST(request: Request) {
+  const league = new URL(request.url).searchParams.get('league')?.toUpperCase();
+  if (!league || !(league in PROP_LEAGUES)) {
+    return NextResponse.json({ error: 'league query param required (NFL or NBA)' }, { status: 400 });
+  }
+  const result = await gradeOpenPredictions(league as PropLeague);
+  if (result.errors.length && !result.graded && !result.voided && !result.expired) {
+    return NextResponse.json({ error: result.errors[0], ...result }, { status: 500 });
+  }
+  return NextResponse.json({ success: true, ...result });
+}
@@ -1,5 +1,6 @@
 // src/app/api/props/route.ts
 import { NextResponse } from 'next/server';
+import { getOddsProvider, OddsProviderError, setQuotaHeaders } from '@/lib/odds';
 
 // Player prop markets by sport
 const PROP_MARKETS: { [key: string]: string[] } = {
@@ -99,8 +100,6 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: 'Missing sport parameter' }, { status: 400 });
   }
 
-  const apiKey = process.env.ODDS_API_KEY;
-
   // If eventId is provided, fetch props for that specific event
   if (eventId) {
     const markets = marketsOverride
@@ -111,64 +110,36 @@ export async function GET(request: Request) {
     }
     
     try {
-      const marketsParam = markets.join(',');
-      const apiUrl = `https://api.the-odds-api.com/v4/sports/${sport}/events/${eventId}/odds?apiKey=${apiKey}&regions=us&markets=${marketsParam}&oddsFormat=american`;
-      console.log('Requesting props URL:', apiUrl.replace(apiKey || '', '[REDACTED]'));
-      
       // Shared server-side cache (2 min) — props fan out to many paid calls
-      const response = await fetch(apiUrl, { next: { revalidate: 120 } });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`API error: ${response.status} - ${errorText}`);
-        return NextResponse.json({ error: 'API error', details: errorText }, { status: response.status });
-      }
-      
-      const data = await response.json();
-      
-      // Extract rate limit headers
-      const requestsRemaining = response.headers.get('x-requests-remaining');
-      const requestsUsed = response.headers.get('x-requests-used');
-      console.log('API Rate Limit - Remaining:', requestsRemaining, 'Used:', requestsUsed);
+      const { data, quota } = await getOddsProvider().getEventOdds(sport, eventId, { markets }, { revalidate: 120 });
       
       const nextResponse = NextResponse.json(data);
-      if (requestsRemaining) nextResponse.headers.set('x-requests-remaining', requestsRemaining);
-      if (requestsUsed) nextResponse.headers.set('x-requests-used', requestsUsed);
-      
+      setQuotaHeaders(nextResponse.headers, quota);
       return nextResponse;
     } catch (error) {
-      console.error('Error fetching props:', error);
-      return NextResponse.json({ error: 'Server error' }, { status: 500 });
+      return errorResponse('Error fetching props:', error);
     }
   }
   
   // If no eventId, return the list of available events for props
   try {
-    const apiUrl = `https://api.the-odds-api.com/v4/sports/${sport}/events?apiKey=${apiKey}`;
-    console.log('Requesting events URL:', apiUrl.replace(apiKey || '', '[REDACTED]'));
-    
     // Shared server-side cache (2 min)
-    const response = await fetch(apiUrl, { next: { revalidate: 120 } });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`API error: ${response.status} - ${errorText}`);
-      return NextResponse.json({ error: 'API error', details: errorText }, { status: response.status });
-    }
-    
-    const data = await response.json();
-    
-    const requestsRemaining = response.headers.get('x-requests-remaining');
-    const requestsUsed = response.headers.get('x-requests-used');
-    console.log('API Rate Limit - Remaining:', requestsRemaining, 'Used:', requestsUsed);
+    const { data, quota } = await getOddsProvider().getEvents(sport, { revalidate: 120 });
     
     const nextResponse = NextResponse.json(data);
-    if (requestsRemaining) nextResponse.headers.set('x-requests-remaining', requestsRemaining);
-    if (requestsUsed) nextResponse.headers.set('x-requests-used', requestsUsed);
-    
+    setQuotaHeaders(nextResponse.headers, quota);
     return nextResponse;
   } catch (error) {
-    console.error('Error fetching events:', error);
-    return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    return errorResponse('Error fetching events:', error);
+  }
+}
+
+// Upstream failures keep their status so the pricer can tell a dead event
+// (404/422) from a server problem
+function errorResponse(label: string, error: unknown) {
+  console.error(label, error);
+  if (error instanceof OddsProviderError) {
+    return NextResponse.json({ error: 'API error', details: error.message }, { status: error.status });
   }
-}
\ No newline at end of file
+  return NextResponse.json({ error: 'Server error' }, { status: 500 });
+}
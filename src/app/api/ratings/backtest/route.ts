@@ -0,0 +1,72 @@
+// src/app/api/ratings/backtest/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadBacktestGames, loadRatings } from '@/lib/ratings/supabase';
+import { CURRENT_BACKTEST_PARAMS, DEFAULT_SWEEP, runBacktest, sweepBacktest } from '@/lib/ratings/backtest';
+
+export const dynamic = 'force-dynamic';
+
+// Caps the grid so one request can't replay the season hundreds of times
+const MAX_SWEEP_RUNS = 64;
+
+// "2,2.5,3" → [2, 2.5, 3]; null when absent or not all numbers
+function parseList(value: string | null): number[] | null {
+  if (!value) return null;
+  const nums = value.split(',').map((v) => Number(v.trim()));
+  return nums.length && nums.every(Number.isFinite) ? nums : null;
+}
+
+/**
+ * GET - Walk-forward backtest of the market-feedback ratings
+ *
+ * Query params:
+ *   season?: number (default 2026)
+ *   hca?: comma-separated HCA values to sweep
+ *   fraction?: comma-separated adjustment fractions to sweep
+ *   from?: YYYY-MM-DD — score only games on or after this date
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const season = parseInt(searchParams.get('season') || '2026');
+    const from = searchParams.get('from') || undefined;
+    if (from && !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+      return NextResponse.json({ success: false, error: 'from must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const grid = {
+      hca: parseList(searchParams.get('hca')) ?? DEFAULT_SWEEP.hca,
+      adjustmentFraction: parseList(searchParams.get('fraction')) ?? DEFAULT_SWEEP.adjustmentFraction,
+    };
+    if (grid.hca.length * grid.adjustmentFraction.length > MAX_SWEEP_RUNS) {
+      return NextResponse.json(
+        { success: false, error: `Sweep is limited to ${MAX_SWEEP_RUNS} parameter pairs` },
+        { status: 400 }
+      );
+    }
+
+    const [games, ratings] = await Promise.all([loadBacktestGames(season), loadRatings(season)]);
+    if (games.length === 0 || ratings.size === 0) {
+      return NextResponse.json({ success: false, error: `No processed games or ratings for season ${season}` });
+    }
+    const initialRatings = new Map([...ratings].map(([team, r]) => [team, r.initialRating]));
+
+    const options = { evaluateFrom: from };
+    const results = sweepBacktest(games, initialRatings, grid, options);
+    const current = runBacktest(games, initialRatings, CURRENT_BACKTEST_PARAMS, options);
+
+    return NextResponse.json({
+      success: true,
+      season,
+      games: games.length,
+      current,
+      results,
+    });
+  } catch (error) {
+    console.error('[Backtest API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run backtest' },
+      { status: 500 }
+    );
+  }
+}
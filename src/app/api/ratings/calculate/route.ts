@@ -10,10 +10,10 @@ import {
   OddsAPIGame,
 } from '@/lib/ratings/types';
 import { 
+  DEFAULT_ADJUSTMENT_FRACTION,
   DEFAULT_RATINGS_CONFIG, 
   FINAL_RATINGS_DATE,
   SEASON_DATES,
-  ODDS_API_BASE_URL,
   NCAAB_SPORT_KEY,
   KENPOM_API_BASE_URL,
 } from '@/lib/ratings/constants';
@@ -22,10 +22,20 @@ import {
   extractClosingSpread,
   createSnapshot,
 } from '@/lib/ratings/engine';
+import {
+  applyTotalsGame,
+  extractClosingTotal,
+  resetTotals,
+  seedTotals,
+  totalsBaseline,
+} from '@/lib/ratings/totals';
 import { fuzzyMatchTeam, findTeamByName } from '@/lib/ratings/team-mapping';
+import { namesMatch } from '@/lib/teams';
+import { getOddsProvider, oddsProviderConfigured } from '@/lib/odds';
 import {
   loadRatings,
   saveRating,
+  saveRatings,
   initializeRatingsFromKenpom,
   getProcessedGameIds,
   saveGameAdjustment,
@@ -58,9 +68,13 @@ import {
  * {
  *   hca?: number,
  *   closingSource?: 'pinnacle' | 'us_average',
+ *   adjustmentFraction?: number,  // 0..1, default 0.5 (see backtest); 0 = no adjustment
  *   forceRefresh?: boolean,  // Re-initialize from KenPom
  *   maxGames?: number (default: 100)
  * }
+ *
+ * Actions (body.action): 'recalculate', 'recalculate-from' (with fromDate),
+ * 'seed-totals' (KenPom efficiencies for a season seeded before the totals model)
  */
 
 // ============================================================================
@@ -381,22 +395,45 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Body adjustmentFraction: absent → the default; otherwise a number from 0
+ * to 1 — 0 is the no-adjustment baseline the backtest sweep compares
+ * against, so it must survive as 0. Null when it's anything else.
+ */
+function adjustmentFractionFrom(body: Record<string, unknown>): number | null {
+  const f = body.adjustmentFraction;
+  if (f === undefined || f === null) return DEFAULT_ADJUSTMENT_FRACTION;
+  return typeof f === 'number' && f >= 0 && f <= 1 ? f : null;
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json().catch(() => ({}));
+
+    const adjustmentFraction = adjustmentFractionFrom(body);
+    if (adjustmentFraction === null) {
+      return NextResponse.json({
+        success: false,
+        error: 'adjustmentFraction must be a number from 0 to 1',
+      }, { status: 400 });
+    }
     
     // Check for recalculate actions first
     if (body.action === 'recalculate') {
-      return await handleRecalculate(request, body);
+      return await handleRecalculate(request, body, adjustmentFraction);
     }
     if (body.action === 'recalculate-from') {
-      return await handleRecalculateFrom(body);
+      return await handleRecalculateFrom(body, adjustmentFraction);
+    }
+    if (body.action === 'seed-totals') {
+      return await handleSeedTotals(body);
     }
     
     const config: RatingsConfig = {
       ...DEFAULT_RATINGS_CONFIG,
       hca: body.hca ?? DEFAULT_RATINGS_CONFIG.hca,
       closingSource: body.closingSource ?? DEFAULT_RATINGS_CONFIG.closingSource,
+      adjustmentFraction,
     };
     
     const maxGames = body.maxGames ?? 100;
@@ -444,6 +481,7 @@ export async function POST(request: NextRequest) {
     } else {
       console.log(`[Calculate Ratings] Loaded ${ratings.size} existing ratings from Supabase`);
     }
+    const baseline = totalsBaseline(ratings.values());
     
     // Step 2: Get already processed games
     const processedGameIds = await getProcessedGameIds(config.season);
@@ -531,7 +569,6 @@ export async function POST(request: NextRequest) {
     const oddsApiOverrideMap = await buildOddsApiOverrideMap();
     console.log(`[Calculate Ratings] Loaded ${overrideMap.size} team overrides, ${oddsApiOverrideMap.size} Odds API mappings`);
     
-    const oddsApiKey = process.env.ODDS_API_KEY;
     const newAdjustments: GameAdjustment[] = [];
     let gamesProcessed = 0;
     let gamesSkipped = 0;
@@ -553,7 +590,7 @@ export async function POST(request: NextRequest) {
       return findTeamByName(teamName, ratingsLookup);
     };
     
-    if (!oddsApiKey) {
+    if (!oddsProviderConfigured()) {
       console.warn('[Calculate Ratings] No Odds API key');
     } else {
       // Limit to maxGames new games
@@ -599,12 +636,14 @@ export async function POST(request: NextRequest) {
         try {
           // Check cache first
           let closingSpread: number | null = null;
+          let closingTotal: number | null = null;
           let bookmakers: string[] = [];
           
           const cached = await getCachedClosingLine(game.id);
           
           if (cached && cached.closing_source === 'us_average') {
             closingSpread = cached.closing_spread;
+            closingTotal = cached.closing_total ?? null;
             bookmakers = cached.bookmakers || [];
           } else {
             // Fetch from Odds API - US Consensus Average
@@ -630,17 +669,13 @@ export async function POST(request: NextRequest) {
             let usGames: OddsAPIGame[] | undefined = usCache.get(cacheKey);
             
             if (usGames === undefined) {
-              const usUrl = `${ODDS_API_BASE_URL}/historical/sports/${NCAAB_SPORT_KEY}/odds?` +
-                `apiKey=${oddsApiKey}&regions=us&markets=spreads&oddsFormat=american` +
-                `&date=${closingTimeStr}&bookmakers=${US_CONSENSUS_BOOKS.join(',')}`;
-              
-              const usResponse = await fetch(usUrl);
-              
-              if (!usResponse.ok) {
-                usGames = [];
-                usCache.set(cacheKey, []);
-              } else {
-                const usData = await usResponse.json();
+              try {
+                const { data: usData } = await getOddsProvider().getHistoricalOdds(NCAAB_SPORT_KEY, {
+                  markets: ['spreads', 'totals'],
+                  regions: ['us'],
+                  bookmakers: US_CONSENSUS_BOOKS,
+                  date: closingTimeStr,
+                });
                 const fetchedUsGames: OddsAPIGame[] = usData.data || [];
                 usGames = fetchedUsGames;
                 usCache.set(cacheKey, fetchedUsGames);
@@ -650,6 +685,9 @@ export async function POST(request: NextRequest) {
                   allSeenOddsApiTeams.add(g.home_team);
                   allSeenOddsApiTeams.add(g.away_team);
                 }
+              } catch {
+                usGames = [];
+                usCache.set(cacheKey, []);
               }
             }
             
@@ -686,6 +724,7 @@ export async function POST(request: NextRequest) {
             }
             
             closingSpread = closingLine.spread;
+            closingTotal = extractClosingTotal(matchingOddsGame, US_CONSENSUS_BOOKS).total;
             bookmakers = closingLine.bookmakers;
             
             // Cache it (using US Consensus Average)
@@ -697,7 +736,8 @@ export async function POST(request: NextRequest) {
               game.awayTeam,
               closingSpread,
               usedSource,
-              bookmakers
+              bookmakers,
+              closingTotal
             );
           }
           
@@ -760,13 +800,19 @@ export async function POST(request: NextRequest) {
             // CRITICAL: Add game to processedGameIds to prevent reprocessing within same batch
             processedGameIds.add(game.id);
             
+            const homeRating = ratings.get(adjustment.homeTeam);
+            const awayRating = ratings.get(adjustment.awayTeam);
+            
+            // Totals model moves toward the closing total when there is one
+            if (homeRating && awayRating && baseline && closingTotal !== null) {
+              const totals = applyTotalsGame(homeRating, awayRating, closingTotal, baseline, config.adjustmentFraction);
+              if (totals) Object.assign(adjustment, totals);
+            }
+            
             // Save adjustment to Supabase
             await saveGameAdjustment(adjustment, config.season);
             
             // Update team ratings in Supabase
-            const homeRating = ratings.get(adjustment.homeTeam);
-            const awayRating = ratings.get(adjustment.awayTeam);
-            
             if (homeRating) await saveRating(homeRating, config.season);
             if (awayRating) await saveRating(awayRating, config.season);
             
@@ -866,10 +912,10 @@ function findMatchingGame(
     const oddsAway = oddsGame.away_team.toLowerCase();
 
     // Check normal orientation (with override support)
-    const homeMatch = teamsMatch(espnHome, oddsHome) ||
-                      (overrideHome && teamsMatch(overrideHome, oddsHome));
-    const awayMatch = teamsMatch(espnAway, oddsAway) ||
-                      (overrideAway && teamsMatch(overrideAway, oddsAway));
+    const homeMatch = namesMatch(espnHome, oddsHome) ||
+                      (overrideHome && namesMatch(overrideHome, oddsHome));
+    const awayMatch = namesMatch(espnAway, oddsAway) ||
+                      (overrideAway && namesMatch(overrideAway, oddsAway));
 
     if (homeMatch && awayMatch) {
       if (overrideHome || overrideAway) {
@@ -879,10 +925,10 @@ function findMatchingGame(
     }
 
     // Check swapped orientation (common for neutral site tournaments)
-    const swappedHomeMatch = teamsMatch(espnHome, oddsAway) ||
-                             (overrideHome && teamsMatch(overrideHome, oddsAway));
-    const swappedAwayMatch = teamsMatch(espnAway, oddsHome) ||
-                             (overrideAway && teamsMatch(overrideAway, oddsHome));
+    const swappedHomeMatch = namesMatch(espnHome, oddsAway) ||
+                             (overrideHome && namesMatch(overrideHome, oddsAway));
+    const swappedAwayMatch = namesMatch(espnAway, oddsHome) ||
+                             (overrideAway && namesMatch(overrideAway, oddsHome));
 
     if (swappedHomeMatch && swappedAwayMatch) {
       console.log(`[findMatchingGame] Found swapped match: ESPN ${espnGame.homeTeam} vs ${espnGame.awayTeam} -> Odds API ${oddsGame.away_team} vs ${oddsGame.home_team}`);
@@ -893,58 +939,12 @@ function findMatchingGame(
   return null;
 }
 
-/**
- * Check if two team names match (fuzzy)
- */
-function teamsMatch(name1: string, name2: string): boolean {
-  // Normalize common variations
-  const normalize = (name: string) => {
-    return name
-      .replace(/\bst\b/g, 'state')           // "Oklahoma St" -> "Oklahoma State"
-      .replace(/\bcsu\b/g, 'cal state')      // "CSU Northridge" -> "Cal State Northridge"
-      .replace(/\buc\b/g, 'california')      // "UC Santa Barbara" -> "California Santa Barbara"
-      .replace(/\busc\b/g, 'southern california') // Normalize USC
-      .replace(/\bsmu\b/g, 'southern methodist')  // SMU -> Southern Methodist
-      .replace(/\btcu\b/g, 'texas christian')     // TCU -> Texas Christian
-      .replace(/\buab\b/g, 'alabama birmingham')  // UAB
-      .replace(/\bucf\b/g, 'central florida')     // UCF
-      .replace(/\bvcu\b/g, 'virginia commonwealth') // VCU
-      .replace(/\butep\b/g, 'texas el paso')      // UTEP
-      .replace(/\butsa\b/g, 'texas san antonio')  // UTSA
-      .replace(/\bunlv\b/g, 'nevada las vegas')   // UNLV
-      .replace(/\bstate state\b/g, 'state')  // Fix double "state state" if it happens
-      .replace(/'/g, '')                     // Remove apostrophes: Hawai'i -> Hawaii
-      .trim();
-  };
-  
-  const n1 = normalize(name1);
-  const n2 = normalize(name2);
-  
-  if (n1 === n2) return true;
-  if (n1.includes(n2) || n2.includes(n1)) return true;
-  
-  const first1 = n1.split(' ')[0];
-  const first2 = n2.split(' ')[0];
-  if (first1.length > 3 && first1 === first2) return true;
-  
-  // Remove mascots and compare
-  const mascotPattern = /(wildcats|bulldogs|tigers|bears|eagles|cardinals|blue devils|tar heels|wolverines|buckeyes|spartans|hoosiers|boilermakers|hawkeyes|jayhawks|longhorns|sooners|aggies|crimson tide|volunteers|gators|rebels|commodores|gamecocks|razorbacks|cavaliers|hokies|hurricanes|seminoles|yellow jackets|demon deacons|fighting irish|orange|panthers|wolfpack|terrapins|scarlet knights|nittany lions|golden gophers|cornhuskers|badgers|illini|cougars|huskies|ducks|beavers|trojans|bruins|sun devils|buffaloes|utes|aztecs|lobos|broncos|rams|falcons|knights|owls|monarchs|dukes|spiders|flyers|billikens|explorers|hawks|gaels|toreros|waves|pilots|lions|bearcats|musketeers|red storm|friars|hoyas|blue demons|golden eagles|pirates|johnnies|racers|lumberjacks|bonnies|cowboys|shockers|matadors|vandals|bengals|rainbow warriors|fighting hawks|redhawks|red wolves|bison|colonels|seawolves|dolphins|lancers|mountain hawks|gauchos|leopards|warriors|thunderbirds|bobcats)$/g;
-  
-  const clean1 = n1.replace(mascotPattern, '').trim();
-  const clean2 = n2.replace(mascotPattern, '').trim();
-  
-  if (clean1 === clean2) return true;
-  if (clean1.includes(clean2) || clean2.includes(clean1)) return true;
-  
-  return false;
-}
-
 /**
  * Handle recalculate action - replays all game adjustments to recalculate ratings
  * This is useful when you've added new team mappings and want to reprocess
  * without re-fetching from Odds API
  */
-async function handleRecalculate(request: NextRequest, body: Record<string, unknown>) {
+async function handleRecalculate(request: NextRequest, body: Record<string, unknown>, fraction: number) {
   const season = (body.season as number) || 2026;
   const hca = (body.hca as number) || DEFAULT_RATINGS_CONFIG.hca;
   
@@ -970,7 +970,9 @@ async function handleRecalculate(request: NextRequest, body: Record<string, unkn
   for (const [, rating] of ratings) {
     rating.rating = rating.initialRating;
     rating.gamesProcessed = 0;
+    resetTotals(rating);
   }
+  const baseline = totalsBaseline(ratings.values());
   
   // Step 3: Replay each adjustment in chronological order and update records
   let gamesProcessed = 0;
@@ -1005,7 +1007,7 @@ async function handleRecalculate(request: NextRequest, body: Record<string, unkn
 
     // Calculate difference and adjustment
     const difference = closingSpread - projectedSpread;
-    const adjustment = difference / 2; // Half the difference applied to each team
+    const adjustment = difference * fraction; // Share of the difference applied to each team
     
     // Apply adjustments to ratings
     // When closing spread is LESS favorable to away team than projected,
@@ -1015,6 +1017,10 @@ async function handleRecalculate(request: NextRequest, body: Record<string, unkn
     homeRating.gamesProcessed++;
     awayRating.gamesProcessed++;
     
+    const totals = baseline && adj.closingTotal != null
+      ? applyTotalsGame(homeRating, awayRating, adj.closingTotal, baseline, fraction)
+      : null;
+    
     // Create updated adjustment record with new before/after values
     // Use corrected closingSpread (may have been sign-fixed above)
     updatedAdjustments.push({
@@ -1032,6 +1038,9 @@ async function handleRecalculate(request: NextRequest, body: Record<string, unkn
       homeRatingAfter: homeRating.rating,
       awayRatingBefore,
       awayRatingAfter: awayRating.rating,
+      projectedTotal: totals?.projectedTotal ?? null,
+      closingTotal: adj.closingTotal ?? null,
+      totalAdjustment: totals?.totalAdjustment ?? null,
     });
     
     gamesProcessed++;
@@ -1063,7 +1072,7 @@ async function handleRecalculate(request: NextRequest, body: Record<string, unkn
  * Handle recalculate-from action - replays all adjustments but only saves
  * changes from the specified date forward. Much faster than full recalculate.
  */
-async function handleRecalculateFrom(body: Record<string, unknown>) {
+async function handleRecalculateFrom(body: Record<string, unknown>, fraction: number) {
   const season = (body.season as number) || 2026;
   const hca = (body.hca as number) || DEFAULT_RATINGS_CONFIG.hca;
   const fromDate = body.fromDate as string;
@@ -1093,7 +1102,9 @@ async function handleRecalculateFrom(body: Record<string, unknown>) {
   for (const [, rating] of ratings) {
     rating.rating = rating.initialRating;
     rating.gamesProcessed = 0;
+    resetTotals(rating);
   }
+  const baseline = totalsBaseline(ratings.values());
 
   // Step 3: Replay all adjustments, but only save from fromDate forward
   // Compare using date strings (YYYY-MM-DD) to avoid timezone issues
@@ -1124,13 +1135,17 @@ async function handleRecalculateFrom(body: Record<string, unknown>) {
     }
 
     const difference = closingSpread - projectedSpread;
-    const adjustment = difference / 2;
+    const adjustment = difference * fraction;
 
     homeRating.rating -= adjustment;
     awayRating.rating += adjustment;
     homeRating.gamesProcessed++;
     awayRating.gamesProcessed++;
 
+    const totals = baseline && adj.closingTotal != null
+      ? applyTotalsGame(homeRating, awayRating, adj.closingTotal, baseline, fraction)
+      : null;
+
     gamesReplayed++;
 
     // Only save adjustments from the target date forward
@@ -1152,6 +1167,9 @@ async function handleRecalculateFrom(body: Record<string, unknown>) {
         homeRatingAfter: homeRating.rating,
         awayRatingBefore,
         awayRatingAfter: awayRating.rating,
+        projectedTotal: totals?.projectedTotal ?? null,
+        closingTotal: adj.closingTotal ?? null,
+        totalAdjustment: totals?.totalAdjustment ?? null,
       };
 
       await saveGameAdjustment(updatedAdj, season);
@@ -1173,3 +1191,41 @@ async function handleRecalculateFrom(body: Record<string, unknown>) {
     gamesSaved,
   });
 }
+
+/**
+ * Handle seed-totals action - writes KenPom efficiencies and tempo onto an
+ * existing season's ratings, leaving the spread ratings alone. For seasons
+ * initialized before the totals model; follow with 'recalculate' to replay
+ * any closing totals already stored.
+ */
+async function handleSeedTotals(body: Record<string, unknown>) {
+  const season = (body.season as number) || 2026;
+
+  const kenpomResult = await fetchKenPomArchive(FINAL_RATINGS_DATE[season - 1]);
+  if (!kenpomResult.success || !kenpomResult.data) {
+    return NextResponse.json({
+      success: false,
+      error: `Failed to fetch KenPom ratings: ${kenpomResult.error}`,
+    }, { status: 500 });
+  }
+
+  const kenpomByName = new Map(kenpomResult.data.map(kp => [kp.TeamName, kp]));
+  const ratings = await loadRatings(season);
+
+  let teamsSeeded = 0;
+  for (const [, rating] of ratings) {
+    const kp = kenpomByName.get(rating.kenpomName);
+    if (!kp) continue;
+    seedTotals(rating, kp);
+    teamsSeeded++;
+  }
+
+  await saveRatings(ratings, season);
+  console.log(`[SeedTotals] Seeded totals for ${teamsSeeded}/${ratings.size} teams in season ${season}`);
+
+  return NextResponse.json({
+    success: true,
+    message: `Seeded totals for ${teamsSeeded} of ${ratings.size} teams`,
+    teamsSeeded,
+  });
+}
@@ -1,13 +1,13 @@
 // src/app/api/ratings/historical-odds/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { OddsAPIGame, HistoricalOddsResponse, ClosingLineSource } from '@/lib/ratings/types';
+import { OddsAPIGame, ClosingLineSource } from '@/lib/ratings/types';
 import { 
-  ODDS_API_BASE_URL, 
   NCAAB_SPORT_KEY, 
   US_AVERAGE_BOOKMAKER_KEYS,
   DEFAULT_RATINGS_CONFIG,
 } from '@/lib/ratings/constants';
+import { getOddsProvider, OddsProviderError, type OddsQuery } from '@/lib/odds';
 
 /**
  * Historical Odds API Route
@@ -20,16 +20,14 @@ import {
  * - eventIds: comma-separated list of event IDs to filter (optional)
  */
 
+// Books for a closing source: Pinnacle alone (eu region) or the US average set
+function sourceQuery(source: ClosingLineSource): OddsQuery {
+  return source === 'pinnacle'
+    ? { markets: ['spreads'], regions: ['eu'], bookmakers: ['pinnacle'] }
+    : { markets: ['spreads'], regions: ['us'], bookmakers: US_AVERAGE_BOOKMAKER_KEYS };
+}
+
 export async function GET(request: NextRequest) {
-  const apiKey = process.env.ODDS_API_KEY;
-  
-  if (!apiKey) {
-    return NextResponse.json(
-      { error: 'Odds API key not configured' },
-      { status: 500 }
-    );
-  }
-  
   const { searchParams } = new URL(request.url);
   const date = searchParams.get('date');
   const source = (searchParams.get('source') || DEFAULT_RATINGS_CONFIG.closingSource) as ClosingLineSource;
@@ -43,58 +41,15 @@ export async function GET(request: NextRequest) {
   }
   
   try {
-    // Determine regions and bookmakers based on source
-    let regions: string;
-    let bookmakers: string | undefined;
-    
-    if (source === 'pinnacle') {
-      regions = 'eu';
-      bookmakers = 'pinnacle';
-    } else {
-      regions = 'us';
-      bookmakers = US_AVERAGE_BOOKMAKER_KEYS.join(',');
-    }
+    console.log(`[Historical Odds] Fetching for date: ${date}, source: ${source}`);
     
-    // Build API URL
-    const params = new URLSearchParams({
-      apiKey,
-      regions,
-      markets: 'spreads',
-      oddsFormat: 'american',
+    const { data, quota } = await getOddsProvider().getHistoricalOdds(NCAAB_SPORT_KEY, {
+      ...sourceQuery(source),
       date,
+      eventIds: eventIds ? eventIds.split(',') : undefined,
     });
     
-    if (bookmakers) {
-      params.set('bookmakers', bookmakers);
-    }
-    
-    if (eventIds) {
-      params.set('eventIds', eventIds);
-    }
-    
-    const url = `${ODDS_API_BASE_URL}/historical/sports/${NCAAB_SPORT_KEY}/odds?${params.toString()}`;
-    
-    console.log(`[Historical Odds] Fetching for date: ${date}, source: ${source}`);
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[Historical Odds] Error ${response.status}:`, errorText);
-      return NextResponse.json(
-        { error: `Odds API error: ${response.status}` },
-        { status: response.status }
-      );
-    }
-    
-    const data: HistoricalOddsResponse = await response.json();
-    
-    // Extract rate limit headers
-    const requestsRemaining = response.headers.get('x-requests-remaining');
-    const requestsUsed = response.headers.get('x-requests-used');
-    
     console.log(`[Historical Odds] Success: ${data.data?.length || 0} games, timestamp: ${data.timestamp}`);
-    console.log(`[Historical Odds] Rate limit - Remaining: ${requestsRemaining}, Used: ${requestsUsed}`);
     
     return NextResponse.json({
       success: true,
@@ -105,13 +60,19 @@ export async function GET(request: NextRequest) {
       gamesCount: data.data?.length || 0,
       games: data.data || [],
       rateLimit: {
-        remaining: requestsRemaining,
-        used: requestsUsed,
+        remaining: quota?.remaining ?? null,
+        used: quota?.used ?? null,
       },
     });
     
   } catch (error) {
     console.error('[Historical Odds] Error:', error);
+    if (error instanceof OddsProviderError) {
+      return NextResponse.json(
+        { error: `Odds API error: ${error.status}` },
+        { status: error.status }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to fetch historical odds' },
       { status: 500 }
@@ -129,15 +90,6 @@ export async function GET(request: NextRequest) {
  * }
  */
 export async function POST(request: NextRequest) {
-  const apiKey = process.env.ODDS_API_KEY;
-  
-  if (!apiKey) {
-    return NextResponse.json(
-      { error: 'Odds API key not configured' },
-      { status: 500 }
-    );
-  }
-  
   try {
     const body = await request.json();
     const { dates, source = DEFAULT_RATINGS_CONFIG.closingSource } = body;
@@ -158,18 +110,6 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Determine regions and bookmakers based on source
-    let regions: string;
-    let bookmakers: string | undefined;
-    
-    if (source === 'pinnacle') {
-      regions = 'eu';
-      bookmakers = 'pinnacle';
-    } else {
-      regions = 'us';
-      bookmakers = US_AVERAGE_BOOKMAKER_KEYS.join(',');
-    }
-    
     const results: Array<{
       date: string;
       snapshotTimestamp: string;
@@ -177,31 +117,15 @@ export async function POST(request: NextRequest) {
     }> = [];
     
     for (const date of dates) {
-      const params = new URLSearchParams({
-        apiKey,
-        regions,
-        markets: 'spreads',
-        oddsFormat: 'american',
-        date,
-      });
-      
-      if (bookmakers) {
-        params.set('bookmakers', bookmakers);
-      }
-      
-      const url = `${ODDS_API_BASE_URL}/historical/sports/${NCAAB_SPORT_KEY}/odds?${params.toString()}`;
-      
-      const response = await fetch(url);
-      
-      if (response.ok) {
-        const data: HistoricalOddsResponse = await response.json();
+      try {
+        const { data } = await getOddsProvider().getHistoricalOdds(NCAAB_SPORT_KEY, { ...sourceQuery(source), date });
         results.push({
           date,
           snapshotTimestamp: data.timestamp,
           games: data.data || [],
         });
-      } else {
-        console.warn(`[Historical Odds Batch] Failed for date ${date}: ${response.status}`);
+      } catch (err) {
+        console.warn(`[Historical Odds Batch] Failed for date ${date}:`, err instanceof Error ? err.message : err);
       }
       
       // Small delay to avoid rate limiting
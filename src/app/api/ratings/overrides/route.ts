@@ -58,6 +58,7 @@ export async function POST(request: NextRequest) {
       espnName: body.espnName || undefined,
       oddsApiName: body.oddsApiName || undefined,
       torvikName: body.torvikName || undefined,
+      kalshiName: body.kalshiName || undefined,
       source: body.source || 'manual',
       notes: body.notes || undefined,
     };
@@ -105,6 +106,7 @@ export async function PUT(request: NextRequest) {
       espnName: body.espnName || undefined,
       oddsApiName: body.oddsApiName || undefined,
       torvikName: body.torvikName || undefined,
+      kalshiName: body.kalshiName || undefined,
       source: body.source || 'manual',
       notes: body.notes || undefined,
     };
@@ -0,0 +1,52 @@
+// src/app/api/ratings/periods/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadKenpomGames } from '@/lib/kenpom/supabase';
+import { loadRatings } from '@/lib/ratings/supabase';
+import { projectTotal, totalsBaseline } from '@/lib/ratings/totals';
+import { backtestPeriods, fitPeriodSplits, periodGame, type PeriodGame } from '@/lib/ratings/periods';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - First-half / first-quarter splits
+ *
+ * Fits period shares (src/lib/ratings/periods.ts) on the season's stored
+ * KenPom fanmatch predictions and box scores, and walk-forward backtests them
+ * on the same games. Tempo is the totals model's projected possessions from
+ * current team tempos — tempo moves little over a season.
+ *
+ * Query params:
+ *   season?: number (default 2026)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const season = parseInt(searchParams.get('season') || '2026');
+
+    const [kenpomGames, ratings] = await Promise.all([loadKenpomGames({ season }), loadRatings(season)]);
+    const baseline = totalsBaseline(ratings.values());
+
+    const games = kenpomGames.flatMap((g): PeriodGame[] => {
+      const home = ratings.get(g.home_team);
+      const away = ratings.get(g.away_team);
+      const tempo = home && away && baseline ? projectTotal(home, away, baseline)?.possessions ?? null : null;
+      const game = periodGame(g, tempo);
+      return game ? [game] : [];
+    });
+
+    return NextResponse.json({
+      success: true,
+      season,
+      games: games.length,
+      splits: fitPeriodSplits(games),
+      backtest: backtestPeriods(games),
+    });
+  } catch (error) {
+    console.error('[Periods API] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fit period splits' },
+      { status: 500 }
+    );
+  }
+}
@@ -21,6 +21,7 @@ interface HistoryGame {
   openingSpread: number | null;
   projectedSpread: number | null;
   btSpread: number | null;
+  projectedTotal: number | null;
   total: number | null;
   spreadBookmaker: string | null;
   awayScore: number | null;
@@ -57,6 +58,27 @@ async function backfillOpeningSpreads() {
   }
 }
 
+// get_history_with_bt predates the totals model, so its columns are read
+// separately and merged by game id
+async function loadTotals(gameIds: string[]): Promise<Map<string, { projected: number | null; closing: number | null }>> {
+  const totals = new Map<string, { projected: number | null; closing: number | null }>();
+  const chunkSize = 200;
+  for (let i = 0; i < gameIds.length; i += chunkSize) {
+    const { data, error } = await supabase
+      .from('ncaab_game_adjustments')
+      .select('game_id, projected_total, closing_total')
+      .in('game_id', gameIds.slice(i, i + chunkSize));
+    if (error) {
+      console.error('[History] Error loading totals:', error);
+      return totals;
+    }
+    for (const row of data || []) {
+      totals.set(row.game_id, { projected: row.projected_total ?? null, closing: row.closing_total ?? null });
+    }
+  }
+  return totals;
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -102,6 +124,7 @@ export async function GET(request: NextRequest) {
       openingSpread: row.opening_spread,
       projectedSpread: row.projected_spread,
       btSpread: row.bt_spread,
+      projectedTotal: null,
       total: null,
       spreadBookmaker: row.closing_source,
       awayScore: row.away_score ?? null,
@@ -113,6 +136,13 @@ export async function GET(request: NextRequest) {
       isFrozen: true,
     }));
 
+    const totals = await loadTotals(games.map(g => g.id));
+    for (const game of games) {
+      const gameTotals = totals.get(game.id);
+      game.projectedTotal = gameTotals?.projected ?? null;
+      game.total = gameTotals?.closing ?? null;
+    }
+
     const btMatchCount = games.filter(g => g.btSpread !== null).length;
     const openingSpreadCount = games.filter(g => g.openingSpread !== null).length;
     console.log(`[History] Returning ${games.length} games, BT matches: ${btMatchCount}, Opening spreads: ${openingSpreadCount}`);
@@ -163,7 +193,8 @@ async function fallbackQuery(limit: number, offset: number) {
       openingSpread: adj.opening_spread ?? null,
       projectedSpread: adj.projected_spread,
       btSpread: null, // No BT data in fallback
-      total: null,
+      projectedTotal: adj.projected_total ?? null,
+      total: adj.closing_total ?? null,
       spreadBookmaker: adj.closing_source,
       awayScore: adj.away_score ?? null,
       homeScore: adj.home_score ?? null,
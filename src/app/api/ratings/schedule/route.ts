@@ -2,7 +2,8 @@
 
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { ODDS_API_BASE_URL, NCAAB_SPORT_KEY } from '@/lib/ratings/constants';
+import { NCAAB_SPORT_KEY } from '@/lib/ratings/constants';
+import { getOddsProvider, OddsProviderError, type OddsQuota } from '@/lib/odds';
 import { teamsMatch } from '@/app/ratings/utils/teamMatching';
 
 // Force dynamic rendering - disable Vercel edge caching
@@ -130,8 +131,7 @@ const extractSpreadAndTotal = (game: OddsGame) => {
 async function fetchClosingLines(
   gameIds: string[],
   commenceTimes: Map<string, string>,
-  homeTeams: Map<string, string>,
-  apiKey: string
+  homeTeams: Map<string, string>
 ): Promise<Map<string, { spread: number | null; total: number | null; spreadBookmaker: string | null }>> {
   const closingLines = new Map<string, { spread: number | null; total: number | null; spreadBookmaker: string | null }>();
   
@@ -148,73 +148,61 @@ async function fetchClosingLines(
     const freezeTimeISO = freezeTime.toISOString().replace(/\.\d{3}Z$/, 'Z');
     
     try {
-      const historicalParams = new URLSearchParams({
-        apiKey,
-        regions: 'us',
-        markets: 'spreads,totals',
-        oddsFormat: 'american',
+      const { data } = await getOddsProvider().getHistoricalOdds<OddsGame>(NCAAB_SPORT_KEY, {
+        markets: ['spreads', 'totals'],
         date: freezeTimeISO,
-        eventIds: gameId,
+        eventIds: [gameId],
       });
       
-      const historicalUrl = `${ODDS_API_BASE_URL}/historical/sports/${NCAAB_SPORT_KEY}/odds?${historicalParams.toString()}`;
+      const games: OddsGame[] = data.data || [];
       
-      const response = await fetch(historicalUrl);
-      
-      if (response.ok) {
-        const data = await response.json();
-        const games: OddsGame[] = data.data || [];
+      if (games.length > 0) {
+        const game = games[0];
+        const homeTeam = homeTeams.get(gameId) || game.home_team;
         
-        if (games.length > 0) {
-          const game = games[0];
-          const homeTeam = homeTeams.get(gameId) || game.home_team;
-          
-          let spread: number | null = null;
-          let total: number | null = null;
-          let spreadBookmaker: string | null = null;
-          
-          const usBooks = ['draftkings', 'fanduel', 'betmgm', 'betrivers'];
-          const spreads: number[] = [];
-          const totals: number[] = [];
-          const usedBooks: string[] = [];
-          
-          for (const bookKey of usBooks) {
-            const bookmaker = game.bookmakers.find((b: OddsBookmaker) => b.key === bookKey);
-            if (bookmaker) {
-              const spreadsMarket = bookmaker.markets.find((m: OddsMarket) => m.key === 'spreads');
-              if (spreadsMarket) {
-                const homeOutcome = spreadsMarket.outcomes.find((o: OddsOutcome) => o.name === homeTeam);
-                if (homeOutcome?.point !== undefined) {
-                  spreads.push(homeOutcome.point);
-                  usedBooks.push(bookKey);
-                }
+        let spread: number | null = null;
+        let total: number | null = null;
+        let spreadBookmaker: string | null = null;
+        
+        const usBooks = ['draftkings', 'fanduel', 'betmgm', 'betrivers'];
+        const spreads: number[] = [];
+        const totals: number[] = [];
+        const usedBooks: string[] = [];
+        
+        for (const bookKey of usBooks) {
+          const bookmaker = game.bookmakers.find((b: OddsBookmaker) => b.key === bookKey);
+          if (bookmaker) {
+            const spreadsMarket = bookmaker.markets.find((m: OddsMarket) => m.key === 'spreads');
+            if (spreadsMarket) {
+              const homeOutcome = spreadsMarket.outcomes.find((o: OddsOutcome) => o.name === homeTeam);
+              if (homeOutcome?.point !== undefined) {
+                spreads.push(homeOutcome.point);
+                usedBooks.push(bookKey);
               }
-              const totalsMarket = bookmaker.markets.find((m: OddsMarket) => m.key === 'totals');
-              if (totalsMarket) {
-                const overOutcome = totalsMarket.outcomes.find((o: OddsOutcome) => o.name === 'Over');
-                if (overOutcome?.point !== undefined) {
-                  totals.push(overOutcome.point);
-                }
+            }
+            const totalsMarket = bookmaker.markets.find((m: OddsMarket) => m.key === 'totals');
+            if (totalsMarket) {
+              const overOutcome = totalsMarket.outcomes.find((o: OddsOutcome) => o.name === 'Over');
+              if (overOutcome?.point !== undefined) {
+                totals.push(overOutcome.point);
               }
             }
           }
-          
-          if (spreads.length > 0) {
-            spread = spreads.reduce((a, b) => a + b, 0) / spreads.length;
-            spread = Math.round(spread * 10) / 10;
-            spreadBookmaker = `US Avg (${usedBooks.length})`;
-          }
+        }
+        
+        if (spreads.length > 0) {
+          spread = spreads.reduce((a, b) => a + b, 0) / spreads.length;
+          spread = Math.round(spread * 10) / 10;
+          spreadBookmaker = `US Avg (${usedBooks.length})`;
+        }
 
-          if (totals.length > 0) {
-            total = totals.reduce((a, b) => a + b, 0) / totals.length;
-            total = Math.round(total * 10) / 10;
-          }
-          
-          closingLines.set(gameId, { spread, total, spreadBookmaker });
-          console.log(`[Schedule] Got closing line for ${gameId}: spread=${spread}, total=${total}`);
+        if (totals.length > 0) {
+          total = totals.reduce((a, b) => a + b, 0) / totals.length;
+          total = Math.round(total * 10) / 10;
         }
-      } else {
-        console.warn(`[Schedule] Failed to fetch closing line for ${gameId}: ${response.status}`);
+        
+        closingLines.set(gameId, { spread, total, spreadBookmaker });
+        console.log(`[Schedule] Got closing line for ${gameId}: spread=${spread}, total=${total}`);
       }
     } catch (err) {
       console.warn(`[Schedule] Error fetching closing line for ${gameId}:`, err);
@@ -232,46 +220,27 @@ async function fetchClosingLines(
 }
 
 export async function GET(request: Request) {
-  const apiKey = process.env.ODDS_API_KEY;
-  
-  if (!apiKey) {
-    return NextResponse.json(
-      { error: 'Odds API key not configured' },
-      { status: 500 }
-    );
-  }
-  
   // Get timezone from query param, default to America/New_York
   const { searchParams } = new URL(request.url);
   const timezone = searchParams.get('timezone') || 'America/New_York';
   
   try {
     // Fetch upcoming games with spreads and totals from US books
-    const params = new URLSearchParams({
-      apiKey,
-      regions: 'us',
-      markets: 'spreads,totals',
-      oddsFormat: 'american',
-    });
-    
-    const url = `${ODDS_API_BASE_URL}/sports/${NCAAB_SPORT_KEY}/odds?${params.toString()}`;
-    
     console.log('[Schedule] Fetching upcoming NCAAB games...');
     
-    const response = await fetch(url, {
-      cache: 'no-store' // Don't cache - always fetch fresh data
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[Schedule] Error ${response.status}:`, errorText);
+    let games: OddsGame[];
+    let quota: OddsQuota | null;
+    try {
+      // No revalidate window — always fetch fresh data
+      ({ data: games, quota } = await getOddsProvider().getOdds<OddsGame>(NCAAB_SPORT_KEY, { markets: ['spreads', 'totals'] }));
+    } catch (err) {
+      console.error('[Schedule] Error fetching schedule:', err);
       return NextResponse.json(
         { error: 'Failed to fetch schedule' },
-        { status: response.status }
+        { status: err instanceof OddsProviderError ? err.status : 500 }
       );
     }
-    
-    const games: OddsGame[] = await response.json();
+
     
     // Get today and tomorrow dates in user's timezone
     const now = new Date();
@@ -367,7 +336,7 @@ export async function GET(request: Request) {
     }
     
     // Fetch closing lines for uncached started games
-    const freshClosingLines = await fetchClosingLines(fetchBatch, commenceTimes, homeTeams, apiKey);
+    const freshClosingLines = await fetchClosingLines(fetchBatch, commenceTimes, homeTeams);
     
     // Cache the newly fetched closing lines (include team names for later retrieval)
     if (freshClosingLines.size > 0) {
@@ -602,9 +571,9 @@ export async function GET(request: Request) {
       };
     }).sort((a, b) => new Date(a.commenceTime).getTime() - new Date(b.commenceTime).getTime());
     
-    // Extract rate limit headers
-    const requestsRemaining = response.headers.get('x-requests-remaining');
-    const requestsUsed = response.headers.get('x-requests-used');
+    // Quota as reported on the board call (null when replaying fixtures)
+    const requestsRemaining = quota?.remaining ?? null;
+    const requestsUsed = quota?.used ?? null;
     
     console.log(`[Schedule] Found ${scheduleGames.length} games for today/tomorrow. API remaining: ${requestsRemaining}`);
     
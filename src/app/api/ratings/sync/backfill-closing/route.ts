@@ -2,6 +2,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { getOddsProvider } from '@/lib/odds';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
@@ -10,8 +11,9 @@ const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 const supabase = createClient(supabaseUrl, supabaseKey);
 
-const ODDS_API_BASE_URL = 'https://api.the-odds-api.com/v4';
 const NCAAB_SPORT_KEY = 'basketball_ncaab';
+// US books averaged for the close (consistent with the schedule route)
+const US_BOOKS = ['draftkings', 'fanduel', 'betmgm', 'betrivers'];
 
 interface OddsAPIGame {
   id: string;
@@ -54,14 +56,6 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
     
-    const oddsApiKey = process.env.ODDS_API_KEY;
-    if (!oddsApiKey) {
-      return NextResponse.json({
-        success: false,
-        error: 'Odds API key not configured',
-      }, { status: 500 });
-    }
-    
     console.log(`[Backfill Closing] Starting backfill for date: ${date}`);
     
     // Parse date and create time range (Eastern time -> UTC)
@@ -113,7 +107,7 @@ export async function POST(request: NextRequest) {
       
       try {
         // Fetch historical odds for this specific game
-        const result = await fetchClosingLine(oddsApiKey, game.game_id, freezeTimeISO, game.home_team);
+        const result = await fetchClosingLine(game.game_id, freezeTimeISO, game.home_team);
         
         if (result) {
           // Update the closing_lines table
@@ -217,7 +211,6 @@ export async function POST(request: NextRequest) {
  * Fetch closing line for a specific game from Odds API historical endpoint
  */
 async function fetchClosingLine(
-  apiKey: string,
   gameId: string,
   timestamp: string,
   homeTeam: string
@@ -225,40 +218,39 @@ async function fetchClosingLine(
   
   // Fetch US books average (consistent with schedule route)
   try {
-    const usUrl = `${ODDS_API_BASE_URL}/historical/sports/${NCAAB_SPORT_KEY}/odds?` +
-      `apiKey=${apiKey}&regions=us&markets=spreads&oddsFormat=american` +
-      `&date=${timestamp}&eventIds=${gameId}&bookmakers=draftkings,fanduel,betmgm,betrivers`;
-
-    const response = await fetch(usUrl);
+    const { data } = await getOddsProvider().getHistoricalOdds<OddsAPIGame>(NCAAB_SPORT_KEY, {
+      markets: ['spreads'],
+      regions: ['us'],
+      bookmakers: US_BOOKS,
+      date: timestamp,
+      eventIds: [gameId],
+    });
 
-    if (response.ok) {
-      const data = await response.json();
-      const games: OddsAPIGame[] = data.data || [];
+    const games: OddsAPIGame[] = data.data || [];
 
-      if (games.length > 0) {
-        const game = games[0];
-        const spreads: number[] = [];
-        const usedBooks: string[] = [];
+    if (games.length > 0) {
+      const game = games[0];
+      const spreads: number[] = [];
+      const usedBooks: string[] = [];
 
-        for (const bookKey of ['draftkings', 'fanduel', 'betmgm', 'betrivers']) {
-          const book = game.bookmakers.find(b => b.key === bookKey);
-          if (book) {
-            const spreadsMarket = book.markets.find(m => m.key === 'spreads');
-            if (spreadsMarket) {
-              const homeOutcome = spreadsMarket.outcomes.find(o => o.name === homeTeam);
-              if (homeOutcome?.point !== undefined) {
-                spreads.push(homeOutcome.point);
-                usedBooks.push(bookKey);
-              }
+      for (const bookKey of US_BOOKS) {
+        const book = game.bookmakers.find(b => b.key === bookKey);
+        if (book) {
+          const spreadsMarket = book.markets.find(m => m.key === 'spreads');
+          if (spreadsMarket) {
+            const homeOutcome = spreadsMarket.outcomes.find(o => o.name === homeTeam);
+            if (homeOutcome?.point !== undefined) {
+              spreads.push(homeOutcome.point);
+              usedBooks.push(bookKey);
             }
           }
         }
+      }
 
-        if (spreads.length > 0) {
-          let avgSpread = spreads.reduce((a, b) => a + b, 0) / spreads.length;
-          avgSpread = Math.round(avgSpread * 10) / 10; // Round to nearest 0.1
-          return { spread: avgSpread, bookmaker: `US Avg (${usedBooks.length})` };
-        }
+      if (spreads.length > 0) {
+        let avgSpread = spreads.reduce((a, b) => a + b, 0) / spreads.length;
+        avgSpread = Math.round(avgSpread * 10) / 10; // Round to nearest 0.1
+        return { spread: avgSpread, bookmaker: `US Avg (${usedBooks.length})` };
       }
     }
   } catch (err) {
@@ -0,0 +1,113 @@
+// src/app/api/ratings/tournament-model/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import path from 'path';
+import { fetchNcaaTournamentResults } from '@/lib/espnScoreboard';
+import { loadRatings, loadTeamOverrides } from '@/lib/ratings/supabase';
+import { buildRegistry, ncaabOverrideAliases, resolveTeam, type TeamRecord } from '@/lib/teams';
+import {
+  applyTournamentResults,
+  fitTournamentModel,
+  leaveOneYearOut,
+  modelRatings,
+  parseTournamentCsv,
+  tournamentGames,
+} from '@/lib/tournamentModel';
+
+/**
+ * Torvik Tournament Model API
+ *
+ * Fits the historical tournament model (src/lib/tournamentModel.ts) on every
+ * season in data/torvik-tournament-dataset.csv except the requested one,
+ * reports its leave-one-year-out record against seed alone, and returns the
+ * requested season's field as ratings keyed by KenPom name — an alternative
+ * rating source for the bracket. The men's CSV carries no tourney_wins, so
+ * its past seasons take their results from ESPN's tournament scoreboards.
+ */
+
+const DATASETS: Record<string, string> = {
+  men: 'torvik-tournament-dataset.csv',
+  women: 'torvik-tournament-dataset-women.csv',
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const year = parseInt(searchParams.get('year') || '2026');
+    const dataset = searchParams.get('dataset') || 'men';
+    const file = DATASETS[dataset];
+    if (!file) {
+      return NextResponse.json({ success: false, error: `Unknown dataset: ${dataset}` }, { status: 400 });
+    }
+
+    let teams = parseTournamentCsv(await fs.promises.readFile(path.join(process.cwd(), 'data', file), 'utf8'));
+
+    // Past men's seasons without tourney_wins: fill them from ESPN
+    let resultsUnmatched: string[] = [];
+    if (dataset === 'men') {
+      const missing = [...new Set(teams.filter(t => t.year !== year && t.wins === null).map(t => t.year))];
+      const results = (await Promise.all(missing.map(fetchNcaaTournamentResults))).flat();
+      const registries = new Map<number, TeamRecord[]>();
+      const applied = applyTournamentResults(teams, results, (season, name) => {
+        if (!registries.has(season)) {
+          registries.set(season, buildRegistry('NCAAB', teams.filter(t => t.year === season).map(t => t.team)));
+        }
+        return resolveTeam(name, registries.get(season)!, { source: 'espn' }).team;
+      });
+      teams = applied.teams;
+      resultsUnmatched = applied.unmatched;
+    }
+
+    const games = tournamentGames(teams.filter(t => t.year !== year));
+    if (games.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'No tournament results for past seasons — the dataset has no tourney_wins and ESPN returned none',
+      }, { status: 400 });
+    }
+
+    const model = fitTournamentModel(games);
+    const validation = leaveOneYearOut(games);
+    const field = teams.filter(t => t.year === year);
+    const ratings = modelRatings(model, field);
+
+    // Torvik → KenPom names (the women's field has no KenPom side; keep Torvik's)
+    let resolve = (name: string): string | null => name;
+    if (dataset === 'men') {
+      const [kenpom, overrides] = await Promise.all([loadRatings(year), loadTeamOverrides()]);
+      const registry = buildRegistry('NCAAB', [...kenpom.keys()], ncaabOverrideAliases(overrides));
+      resolve = (name) => resolveTeam(name, registry, { source: 'torvik' }).team;
+    }
+
+    const unmatched: string[] = [];
+    const teamRatings = field.flatMap(t => {
+      const teamName = resolve(t.team);
+      if (!teamName) {
+        unmatched.push(t.team);
+        return [];
+      }
+      return [{ teamName, torvikName: t.team, seed: t.seed, region: t.region, rating: ratings.get(t.team)! }];
+    });
+
+    return NextResponse.json({
+      success: true,
+      year,
+      model: {
+        features: model.features.map((f, i) => ({ ...f, weight: model.weights[i] })),
+        games: model.games,
+        seasons: [...new Set(games.map(g => g.year))].sort((a, b) => a - b),
+      },
+      validation,
+      ratings: teamRatings,
+      unmatched,
+      resultsUnmatched,
+    });
+  } catch (error) {
+    console.error('[Tournament Model] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fit tournament model' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+// src/app/api/ratings/tournaments/futures/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRatings, loadTeamOverrides } from '@/lib/ratings/supabase';
+import { fetchKalshiSeriesFutures, KALSHI_TOURNAMENT_SERIES } from '@/lib/kalshi';
+import { getOddsProvider } from '@/lib/odds';
+import { buildRegistry, ncaabOverrideAliases, resolveTeam, type TeamRecord, type TeamSource } from '@/lib/teams';
+import { tournamentMarkets, type FuturesQuote } from '@/lib/tournamentFutures';
+
+/**
+ * Tournament Futures API
+ *
+ * Market prices for a TournamentsTab bracket's futures — sportsbook outrights
+ * from the Odds API plus Kalshi's series — with every team resolved to its
+ * KenPom name so the client can join them to the bracket model. Brackets
+ * without a market (conference tournaments) come back with empty quotes.
+ */
+
+// Odds API outright markets by bracket and market key
+const ODDS_API_OUTRIGHTS: Record<string, Record<string, string>> = {
+  NCAA: { champion: 'basketball_ncaab_championship_winner' },
+};
+
+interface MarketPrices {
+  key: string;
+  quotes: FuturesQuote[];
+  unmatched: string[];   // market names no KenPom team claimed
+}
+
+// Odds API outrights → one quote per book and team
+async function fetchOutrights(sportKey: string): Promise<{ name: string; book: string; odds: number }[]> {
+  const { data: events } = await getOddsProvider().getOdds(sportKey, { markets: ['outrights'] }, { revalidate: 600 });
+  const prices: { name: string; book: string; odds: number }[] = [];
+  for (const ev of events) {
+    for (const b of ev.bookmakers ?? []) {
+      for (const o of b.markets?.find(m => m.key === 'outrights')?.outcomes ?? []) {
+        if (typeof o.price === 'number') prices.push({ name: o.name, book: b.title, odds: o.price });
+      }
+    }
+  }
+  return prices;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const bracket = searchParams.get('bracket') || '';
+    const season = parseInt(searchParams.get('season') || '2026');
+
+    const markets = tournamentMarkets(bracket);
+    const kalshiSeries = KALSHI_TOURNAMENT_SERIES[bracket] ?? {};
+    const outrightKeys = ODDS_API_OUTRIGHTS[bracket] ?? {};
+    if (!markets.some(m => kalshiSeries[m.key] || outrightKeys[m.key])) {
+      return NextResponse.json({ success: true, markets: markets.map(m => ({ key: m.key, quotes: [], unmatched: [] })) });
+    }
+
+    const [ratings, overrides] = await Promise.all([loadRatings(season), loadTeamOverrides()]);
+    const registry: TeamRecord[] = buildRegistry('NCAAB', [...ratings.keys()], ncaabOverrideAliases(overrides));
+
+    const prices: MarketPrices[] = await Promise.all(markets.map(async (market) => {
+      // Either side failing leaves the other's prices
+      const [books, kalshi] = await Promise.all([
+        outrightKeys[market.key]
+          ? fetchOutrights(outrightKeys[market.key]).catch(e => { console.error('[Tournament Futures] Odds API error:', e); return []; })
+          : [],
+        kalshiSeries[market.key]
+          ? fetchKalshiSeriesFutures(kalshiSeries[market.key]).catch(e => { console.error('[Tournament Futures] Kalshi error:', e); return []; })
+          : [],
+      ]);
+
+      const quotes: FuturesQuote[] = [];
+      const unmatched = new Set<string>();
+      const add = (name: string, source: TeamSource, quote: Omit<FuturesQuote, 'team'>) => {
+        const team = resolveTeam(name, registry, { source }).team;
+        if (team) quotes.push({ team, ...quote });
+        else unmatched.add(name);
+      };
+      for (const p of books) add(p.name, 'odds_api', { book: p.book, odds: p.odds });
+      for (const k of kalshi) add(k.team, 'kalshi', { book: 'Kalshi', odds: k.odds, link: k.link });
+
+      return { key: market.key, quotes, unmatched: [...unmatched].sort() };
+    }));
+
+    return NextResponse.json({ success: true, markets: prices });
+  } catch (error) {
+    console.error('[Tournament Futures] Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load tournament futures' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,13 +8,7 @@
 //   ZAPIER_WEBHOOK_URL   — optional; still forwarded when set, for any other
 //                          Zaps that depend on it. Neither is required.
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  ShareBet, wageredTeam, getTeamAssets, buildBetOgUrl, formatOdds, embedColor,
-} from '@/lib/betShare';
-
-const STATUS_EMOJI: Record<string, string> = {
-  pending: '🎟️', won: '✅', lost: '❌', push: '➖',
-};
+import { ShareBet, formatOdds, postBetToDiscord } from '@/lib/betShare';
 
 // Read-only config check — confirms a destination is wired without posting
 // anything or revealing the webhook URL. Vercel env changes need a redeploy,
@@ -39,44 +33,13 @@ export async function POST(request: NextRequest) {
 
   try {
     const bet: ShareBet = await request.json();
-    const team = wageredTeam(bet);
-    const { logo, color } = await getTeamAssets(bet.league, team);
     const shareUrl = bet.id ? `https://www.odds.day/bet/${bet.id}` : 'https://www.odds.day';
     const oddsStr = formatOdds(bet.odds);
-    const emoji = STATUS_EMOJI[bet.status] ?? '🎟️';
-    const eventDate = bet.event_date ?? bet.eventDate;
 
     const results: Record<string, string> = {};
 
     if (discordUrl) {
-      const embed = {
-        title: `${emoji}  ${bet.bet}`,
-        url: shareUrl,
-        description: [
-          bet.description && (bet.bet_type ?? bet.betType) !== 'future' ? `**${bet.description}**` : null,
-          [bet.league, eventDate
-            ? new Date(eventDate + 'T00:00:00').toLocaleDateString('en-US', {
-                weekday: 'short', month: 'short', day: 'numeric',
-              })
-            : null].filter(Boolean).join(' · '),
-        ].filter(Boolean).join('\n'),
-        color: embedColor(color),
-        // No odds/units/book fields — the share card image already shows them
-        ...(logo ? { thumbnail: { url: logo } } : {}),
-        image: { url: buildBetOgUrl(bet, logo, color) },
-        footer: { text: 'odds.day' },
-        timestamp: new Date().toISOString(),
-      };
-
-      const resp = await fetch(discordUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ embeds: [embed] }),
-      });
-      if (!resp.ok) {
-        const detail = await resp.text().catch(() => '');
-        throw new Error(`Discord webhook failed: ${resp.status} ${detail.slice(0, 200)}`);
-      }
+      await postBetToDiscord(bet, discordUrl);
       results.discord = 'sent';
     }
 
@@ -0,0 +1,35 @@
+// src/app/api/send-line-alerts/route.ts
+// Line-move / steam alerts to the per-league Discord channels (rules are
+// edited at /admin/line-alerts; the pass itself is src/lib/lineAlertRunner.ts).
+//
+// GET  — used by the Vercel cron (see vercel.json: every 10 minutes); posts
+//        whatever is new and stays quiet otherwise.
+// POST — manual run from the admin page. Body: { dryRun?: boolean } — a dry
+//        run lists the alerts that would post without posting or logging them.
+import { NextRequest, NextResponse } from 'next/server';
+import { runLineAlerts } from '@/lib/lineAlertRunner';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+async function run(dryRun: boolean) {
+  try {
+    const result = await runLineAlerts({ dryRun });
+    return NextResponse.json({ success: result.errors.length === 0, dryRun, ...result });
+  } catch (error) {
+    console.error('[Line Alerts] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Line alert run failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return run(false);
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  return run(Boolean(body?.dryRun));
+}
@@ -2,13 +2,30 @@
 // Standardized football team payload for the /team/[league]/[teamId] pages:
 // identity + colors, coach, stadium, conference/division, and the full-season
 // schedule. Aggregated live from ESPN (site + core APIs) with server-side
-// caching — no database storage; every team page renders from this one shape.
+// caching; every team page renders from this one shape. The betting context
+// reads our own tables: closing lines from odds_snapshots (ESPN's line when we
+// have none) and the team's tracked bets.
 //
 // ?league= ncaaf | nfl. ?team= accepts an ESPN numeric id OR a team name
 // (any common variant), so links can be built from Odds API names without an
 // id lookup table. ?season= optional override; defaults to the current season.
 
 import { NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { toBet } from '@/lib/betService';
+import { consensusClose } from '@/lib/clv';
+import { closingBoardFromSnapshots, type OddsSnapshotRow } from '@/lib/oddsSnapshots';
+import { buildRegistry, resolveTeam, type TeamRecord } from '@/lib/teams';
+import {
+  formatRecord,
+  scoreClose,
+  teamBets,
+  teamTrends,
+  type GameClose,
+  type TeamBet,
+  type TrendRecord,
+  type TrendSplit,
+} from '@/lib/teamTrends';
 
 const DAY = 60 * 60 * 24;
 const HOUR = 60 * 60;
@@ -19,6 +36,8 @@ interface LeagueConfig {
   site: string;   // site.api base for this league
   core: string;   // core.api base for this league
   seasonTypes: [SeasonType, number][]; // which schedule segments to fetch
+  sportKey: string; // Odds API key for odds_snapshots
+  betLeague: string; // bets.league
 }
 
 const LEAGUES: Record<string, LeagueConfig> = {
@@ -26,12 +45,16 @@ const LEAGUES: Record<string, LeagueConfig> = {
     site: 'https://site.api.espn.com/apis/site/v2/sports/football/college-football',
     core: 'https://sports.core.api.espn.com/v2/sports/football/leagues/college-football',
     seasonTypes: [['regular', 2], ['postseason', 3]],
+    sportKey: 'americanfootball_ncaaf',
+    betLeague: 'NCAAF',
   },
   nfl: {
     site: 'https://site.api.espn.com/apis/site/v2/sports/football/nfl',
     core: 'https://sports.core.api.espn.com/v2/sports/football/leagues/nfl',
     // NFL preseason games are bettable and on the odds board — include them.
     seasonTypes: [['preseason', 1], ['regular', 2], ['postseason', 3]],
+    sportKey: 'americanfootball_nfl',
+    betLeague: 'NFL',
   },
 };
 
@@ -58,6 +81,7 @@ interface ScheduleGame {
   seasonType: SeasonType;
   home: boolean;
   neutral: boolean;
+  conference: boolean;                 // NCAAF conference game / NFL division game
   venue: string | null;
   tv: string | null;
   opponent: { id: string; name: string; abbreviation: string | null; logo: string | null; rank: number | null };
@@ -68,12 +92,7 @@ interface ScheduleGame {
   oppScore: string | null;
   detail: string | null;
   // Closing line vs result, filled for completed games scored by computeAts
-  closing: {
-    spread: number | null;           // team-relative closing spread
-    atsRes: 'W' | 'L' | 'P' | null;
-    total: number | null;
-    ouRes: 'O' | 'U' | 'P' | null;
-  } | null;
+  closing: GameClose | null;
 }
 
 export interface TeamPayload {
@@ -92,10 +111,12 @@ export interface TeamPayload {
     conferenceShort: string | null;
     coach: string | null;
     coachSeasons: number | null;
-    // Computed from ESPN per-event closing lines vs final scores (ESPN's own
-    // ATS endpoint returns empty for every season/league). Falls back to the
-    // prior season when the current one has no completed games yet.
+    // Computed from closing lines vs final scores (ESPN's own ATS endpoint
+    // returns empty for every season/league). Falls back to the prior season
+    // when the current one has no completed games yet.
     ats: { season: number; spreadRecord: string; ouRecord: string; games: number } | null;
+    // The same games split home/away, favourite/underdog, conference
+    trends: Record<TrendSplit, TrendRecord> | null;
     leaders: { category: string; athlete: string; position: string | null; value: string; season: number }[];
     injuries: { name: string; position: string | null; status: string }[];
     venue: {
@@ -110,6 +131,7 @@ export interface TeamPayload {
   };
   season: number;
   schedule: ScheduleGame[];
+  bets: TeamBet[];
   news: { headline: string; url: string | null; published: string | null }[];
 }
 
@@ -155,6 +177,7 @@ function parseSchedule(data: any, teamId: string, seasonType: SeasonType): Sched
       seasonType,
       home: us.homeAway === 'home',
       neutral: Boolean(comp.neutralSite),
+      conference: Boolean(comp.conferenceCompetition),
       venue: comp.venue?.fullName ?? null,
       tv: comp.broadcasts?.[0]?.media?.shortName ?? null,
       opponent: {
@@ -178,26 +201,102 @@ function parseSchedule(data: any, teamId: string, seasonType: SeasonType): Sched
   return out;
 }
 
-interface CompletedLite { eventId: string; home: boolean; margin: number; total: number }
+interface CompletedLite {
+  eventId: string;
+  date: string;
+  home: boolean;
+  neutral: boolean;
+  conference: boolean;
+  opponent: string;
+  margin: number;
+  total: number;
+}
 
 const toCompleted = (schedule: ScheduleGame[]): CompletedLite[] =>
   schedule
     .filter((g) => g.completed && g.teamScore !== null && g.oppScore !== null && g.seasonType !== 'preseason')
     .map((g) => ({
       eventId: g.id,
+      date: g.date,
       home: g.home,
+      neutral: g.neutral,
+      conference: g.conference,
+      opponent: g.opponent.name,
       margin: Number(g.teamScore) - Number(g.oppScore),
       total: Number(g.teamScore) + Number(g.oppScore),
     }));
 
-// ATS + over/under record from ESPN's per-event odds (closing spread is
-// home-relative: -9.5 = home favored by 9.5). Completed games never change,
-// so their odds fetches cache for a week. Also returns each game's closing
+// Names a team may go by in odds_snapshots: ESPN's, plus every name the
+// league registry ties to the same team ("Miami Hurricanes" ↔ "Miami (FL)").
+function snapshotNames(registry: TeamRecord[], espnName: string): string[] {
+  const team = resolveTeam(espnName, registry, { source: 'espn' }).team;
+  const record = registry.find((r) => r.name === team);
+  return [...new Set([espnName, ...(record ? [record.name, ...record.aliases.map((a) => a.name)] : [])])];
+}
+
+// Our own close for one game: the consensus of each book's last snapshot
+// before kickoff. ESPN's names go through the league registry to the Odds
+// API's, either way round (neutral sites can flip home and away); null
+// (→ ESPN's line) when the game wasn't on a board we recorded.
+async function snapshotClose(
+  cfg: LeagueConfig, registry: TeamRecord[], teamName: string, g: CompletedLite
+): Promise<{ spread: number | null; total: number | null } | null> {
+  const kickoff = new Date(g.date).getTime();
+  const ours = snapshotNames(registry, teamName);
+  const theirs = snapshotNames(registry, g.opponent);
+  const { data, error } = await supabase
+    .from('odds_snapshots')
+    .select('*')
+    .eq('sport_key', cfg.sportKey)
+    .in('home_team', [...ours, ...theirs])
+    .in('away_team', [...ours, ...theirs])
+    .in('market', ['spreads', 'totals'])
+    .gte('commence_time', new Date(kickoff - 12 * HOUR * 1000).toISOString())
+    .lte('commence_time', new Date(kickoff + 12 * HOUR * 1000).toISOString())
+    .lte('book_updated_at', g.date)
+    .order('book_updated_at', { ascending: false })
+    .limit(1000);
+  if (error || !data?.length) return null;
+  const rows = (data as OddsSnapshotRow[]).filter((r) =>
+    (ours.includes(r.home_team) && theirs.includes(r.away_team)) ||
+    (theirs.includes(r.home_team) && ours.includes(r.away_team)));
+  if (!rows.length) return null;
+  const game = rows.filter((r) => r.game_id === rows[0].game_id);
+  const board = closingBoardFromSnapshots(game, g.date);
+  if (!board) return null;
+  const close = consensusClose(board);
+  if (close.spread === null && close.total === null) return null;
+  // Snapshot spreads are relative to the Odds API's home team
+  const teamIsHome = ours.includes(game[0].home_team);
+  return { spread: close.spread === null ? null : teamIsHome ? close.spread : -close.spread, total: close.total };
+}
+
+// ESPN's per-event odds (closing spread is home-relative: -9.5 = home favored
+// by 9.5). Completed games never change, so the fetch caches for a week.
+async function espnClose(
+  cfg: LeagueConfig, g: CompletedLite
+): Promise<{ spread: number | null; total: number | null } | null> {
+  const o: any = await getJson(`${cfg.core}/events/${g.eventId}/competitions/${g.eventId}/odds`, 7 * DAY);
+  const item = (o?.items ?? []).find((it: any) =>
+    typeof it?.spread === 'number' || typeof it?.overUnder === 'number');
+  if (!item) return null;
+  return {
+    spread: typeof item.spread === 'number' ? (g.home ? item.spread : -item.spread) : null,
+    total: typeof item.overUnder === 'number' ? item.overUnder : null,
+  };
+}
+
+// ATS + over/under record and splits, each completed game scored against our
+// snapshot close or, failing that, ESPN's. Also returns each game's closing
 // line + result keyed by event id, so schedule rows can show covered/missed.
 async function computeAts(
-  cfg: LeagueConfig, teamId: string, schedule: ScheduleGame[], season: number
-): Promise<{ ats: TeamPayload['team']['ats']; perGame: Map<string, NonNullable<ScheduleGame['closing']>> }> {
-  const perGame = new Map<string, NonNullable<ScheduleGame['closing']>>();
+  cfg: LeagueConfig, teamId: string, teamName: string, schedule: ScheduleGame[], season: number
+): Promise<{
+  ats: TeamPayload['team']['ats'];
+  trends: TeamPayload['team']['trends'];
+  perGame: Map<string, GameClose>;
+}> {
+  const perGame = new Map<string, GameClose>();
   let completed = toCompleted(schedule);
   let atsSeason = season;
   if (completed.length === 0) {
@@ -206,44 +305,50 @@ async function computeAts(
     const prior = await Promise.all(cfg.seasonTypes.map(([, st]) =>
       getJson(`${cfg.site}/teams/${teamId}/schedule?season=${atsSeason}&seasontype=${st}`, DAY)));
     completed = toCompleted(cfg.seasonTypes.flatMap(([label], i) => parseSchedule(prior[i], teamId, label)));
-    if (completed.length === 0) return { ats: null, perGame };
+    if (completed.length === 0) return { ats: null, trends: null, perGame };
   }
 
-  let w = 0, l = 0, p = 0, over = 0, under = 0, ouPush = 0, games = 0;
+  const registry = buildRegistry(cfg.betLeague, []);
   await Promise.all(completed.slice(0, 30).map(async (g) => {
-    const o: any = await getJson(`${cfg.core}/events/${g.eventId}/competitions/${g.eventId}/odds`, 7 * DAY);
-    const item = (o?.items ?? []).find((it: any) =>
-      typeof it?.spread === 'number' || typeof it?.overUnder === 'number');
-    if (!item) return;
-    const closing: NonNullable<ScheduleGame['closing']> = { spread: null, atsRes: null, total: null, ouRes: null };
-    if (typeof item.spread === 'number') {
-      const teamSpread = g.home ? item.spread : -item.spread;
-      const edge = g.margin + teamSpread;
-      closing.spread = teamSpread;
-      closing.atsRes = edge > 0 ? 'W' : edge < 0 ? 'L' : 'P';
-      if (edge > 0) w++; else if (edge < 0) l++; else p++;
-    }
-    if (typeof item.overUnder === 'number') {
-      closing.total = item.overUnder;
-      closing.ouRes = g.total > item.overUnder ? 'O' : g.total < item.overUnder ? 'U' : 'P';
-      if (g.total > item.overUnder) over++;
-      else if (g.total < item.overUnder) under++;
-      else ouPush++;
-    }
-    if (closing.atsRes || closing.ouRes) {
-      games++;
-      perGame.set(g.eventId, closing);
-    }
+    const ours = await snapshotClose(cfg, registry, teamName, g);
+    const line = ours ?? await espnClose(cfg, g);
+    const closing = line && scoreClose(g.margin, g.total, line, ours ? 'snapshots' : 'espn');
+    if (closing) perGame.set(g.eventId, closing);
   }));
-  if (games === 0) return { ats: null, perGame };
+  if (perGame.size === 0) return { ats: null, trends: null, perGame };
 
-  const rec = (a: number, b: number, push: number) => `${a}-${b}${push ? `-${push}` : ''}`;
+  const trends = teamTrends(completed.map((g) => ({
+    home: g.home, neutral: g.neutral, conference: g.conference, closing: perGame.get(g.eventId) ?? null,
+  })));
+  const { ats, ou } = trends.all;
   return {
-    ats: { season: atsSeason, spreadRecord: rec(w, l, p), ouRecord: rec(over, under, ouPush), games },
+    ats: { season: atsSeason, spreadRecord: formatRecord(ats.w, ats.l, ats.p), ouRecord: formatRecord(ou.o, ou.u, ou.p), games: perGame.size },
+    trends,
     perGame,
   };
 }
 
+// Tracked bets on this team's season — league and date window in the query,
+// the name matching (bets store short names) in teamBets.
+async function fetchTeamBets(
+  cfg: LeagueConfig, teamName: string, schedule: ScheduleGame[], season: number
+): Promise<TeamBet[]> {
+  const { data, error } = await supabase
+    .from('bets')
+    .select('*')
+    .eq('deleted', false)
+    .eq('league', cfg.betLeague)
+    .gte('event_date', `${season}-07-01`)
+    .lt('event_date', `${season + 1}-03-01`)
+    .order('event_date', { ascending: false });
+  if (error) {
+    console.error('[TeamPage] Bets error:', error);
+    return [];
+  }
+  return teamBets((data ?? []).map(toBet), teamName,
+    schedule.map((g) => ({ id: g.id, date: g.date, opponent: g.opponent.name })));
+}
+
 // Season stat leaders (passing / rushing / receiving yards) — athlete names
 // live behind one $ref each.
 const LEADER_CATEGORIES: [string, string][] = [
@@ -360,8 +465,10 @@ export async function GET(request: Request) {
     .flatMap(([label], i) => parseSchedule(scheds[i], teamId, label))
     .sort((a, b) => a.date.localeCompare(b.date));
 
-  const [{ ats, perGame }, injuries, news] = await Promise.all([
-    computeAts(cfg, teamId, schedule, season),
+  const teamName: string = t.displayName ?? '?';
+  const [{ ats, trends, perGame }, bets, injuries, news] = await Promise.all([
+    computeAts(cfg, teamId, teamName, schedule, season),
+    fetchTeamBets(cfg, teamName, schedule, season),
     fetchInjuries(cfg, teamId),
     fetchNews(cfg, teamId),
   ]);
@@ -375,7 +482,7 @@ export async function GET(request: Request) {
   const payload: TeamPayload = {
     team: {
       id: teamId,
-      displayName: t.displayName ?? '?',
+      displayName: teamName,
       nickname: t.nickname ?? null,
       abbreviation: t.abbreviation ?? null,
       location: t.location ?? null,
@@ -389,6 +496,7 @@ export async function GET(request: Request) {
       coach,
       coachSeasons,
       ats,
+      trends,
       leaders,
       injuries,
       venue: {
@@ -403,6 +511,7 @@ export async function GET(request: Request) {
     },
     season,
     schedule,
+    bets,
     news,
   };
 
@@ -1,5 +1,6 @@
 // src/app/api/team-totals/route.ts
 import { NextResponse } from 'next/server';
+import { getOddsProvider, OddsProviderError, setQuotaHeaders } from '@/lib/odds';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -10,28 +11,18 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: 'Missing parameters' }, { status: 400 });
   }
 
-  const apiKey = process.env.ODDS_API_KEY;
-  
   try {
-    const apiUrl = `https://api.the-odds-api.com/v4/sports/${sport}/events/${eventId}/odds?apiKey=${apiKey}&regions=us&markets=team_totals&oddsFormat=american`;
-    
     // Shared server-side cache: visitors within 2 min reuse one paid API call
-    const response = await fetch(apiUrl, { next: { revalidate: 120 } });
-    
-    if (!response.ok) {
-      return NextResponse.json({ error: 'API error' }, { status: 500 });
-    }
-    
-    const data = await response.json();
-    
-    // Pass through rate limit headers
+    const { data, quota } = await getOddsProvider().getEventOdds(sport, eventId, { markets: ['team_totals'] }, { revalidate: 120 });
+
     const nextResponse = NextResponse.json(data);
-    const requestsRemaining = response.headers.get('x-requests-remaining');
-    if (requestsRemaining) nextResponse.headers.set('x-requests-remaining', requestsRemaining);
-    
+    setQuotaHeaders(nextResponse.headers, quota);
     return nextResponse;
   } catch (error) {
+    if (error instanceof OddsProviderError) {
+      return NextResponse.json({ error: 'API error' }, { status: 500 });
+    }
     console.error('Error fetching team totals:', error);
     return NextResponse.json({ error: 'Server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
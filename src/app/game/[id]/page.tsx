@@ -1,6 +1,14 @@
 // src/app/game/[id]/page.tsx
 import { Metadata } from 'next';
+import { headers } from 'next/headers';
 import { redirect } from 'next/navigation';
+import { loadLineHistory, buildLineMovement } from '@/lib/oddsSnapshots';
+import LineMovementChart from '@/components/LineMovementChart';
+import { getOddsProvider, type OddsQuery } from '@/lib/odds';
+import type { OddsAPIGame } from '@/lib/ratings/types';
+import { compareNames, MIN_CONFIDENCE } from '@/lib/teams';
+import { CONSENSUS_SYSTEMS } from '@/lib/consensus';
+import { runConsensus, type ConsensusRunResult } from '@/lib/consensusRunner';
 
 // All supported leagues - used for validation and fallback
 const ALL_LEAGUES = [
@@ -15,27 +23,27 @@ const ALL_LEAGUES = [
   'soccer_epl'
 ];
 
+const GAME_QUERY: OddsQuery = { markets: ['spreads', 'totals', 'h2h'] };
+
+// One league's board, or [] when the provider has nothing for it
+async function leagueGames(league: string): Promise<OddsAPIGame[]> {
+  try {
+    const { data } = await getOddsProvider().getOdds(league, GAME_QUERY, { revalidate: 60 }); // Cache for 60 seconds
+    return data;
+  } catch {
+    return [];
+  }
+}
+
 // Fetch game data server-side for meta tags
 // UPDATED: Now accepts optional league parameter to avoid checking all leagues (saves up to 8 API calls!)
 async function getGame(id: string, league?: string | null) {
   try {
-    const apiKey = process.env.ODDS_API_KEY;
-    if (!apiKey) return null;
-
     // If league is provided and valid, check that league first (1 API call instead of up to 9!)
     if (league && ALL_LEAGUES.includes(league)) {
-      const response = await fetch(
-        `https://api.the-odds-api.com/v4/sports/${league}/odds/?apiKey=${apiKey}&regions=us&markets=spreads,totals,h2h&oddsFormat=american`,
-        { next: { revalidate: 60 } } // Cache for 60 seconds
-      );
-      
-      if (response.ok) {
-        const games = await response.json();
-        const game = games.find((g: { id: string }) => g.id === id);
-        
-        if (game) {
-          return { ...game, sport_key: league };
-        }
+      const game = (await leagueGames(league)).find((g) => g.id === id);
+      if (game) {
+        return { ...game, sport_key: league };
       }
       // If not found in specified league, fall through to check all leagues
       // This handles edge cases where league param might be stale/wrong
@@ -46,16 +54,7 @@ async function getGame(id: string, league?: string | null) {
       // Skip the league we already checked above
       if (leagueKey === league) continue;
       
-      const response = await fetch(
-        `https://api.the-odds-api.com/v4/sports/${leagueKey}/odds/?apiKey=${apiKey}&regions=us&markets=spreads,totals,h2h&oddsFormat=american`,
-        { next: { revalidate: 60 } } // Cache for 60 seconds
-      );
-      
-      if (!response.ok) continue;
-      
-      const games = await response.json();
-      const game = games.find((g: { id: string }) => g.id === id);
-      
+      const game = (await leagueGames(leagueKey)).find((g) => g.id === id);
       if (game) {
         return { ...game, sport_key: leagueKey };
       }
@@ -208,19 +207,11 @@ function getMascot(teamName: string): string {
   return words[words.length - 1];
 }
 
-// Match strength between an ESPN team name and the odds-api team name.
-// Weak criteria (shared mascot/first word) must never beat a stronger match
+// Match strength between an ESPN team name and the odds-api team name (0–1,
+// from the shared resolver). Weak criteria must never beat a stronger match
 // elsewhere in the list — "California Golden Bears" was picking up the Baylor
-// Bears logo because a first-weak-match-wins loop hit Baylor alphabetically.
-function matchScore(name1: string, name2: string): number {
-  const n1 = name1.toLowerCase();
-  const n2 = name2.toLowerCase();
-  if (n1 === n2) return 4;
-  if (n1.includes(n2) || n2.includes(n1)) return 3;
-  if (n1.split(' ')[0] === n2.split(' ')[0]) return 2;
-  if (n1.split(' ').slice(-1)[0] === n2.split(' ').slice(-1)[0]) return 1;
-  return 0;
-}
+// Bears logo when a shared mascot counted as a match.
+const matchScore = (name1: string, name2: string): number => compareNames(name1, name2).confidence;
 
 // Fetch ESPN logos + primary colors using the teams endpoint (works for any game, not just today's)
 async function getESPNLogos(
@@ -292,7 +283,7 @@ async function getESPNLogos(
           homeAlt = team.alternateColor || null;
           homeMascot = team.name || null;
         }
-        if (awayBest === 4 && homeBest === 4) break;
+        if (awayBest === 1 && homeBest === 1) break;
       }
     }
 
@@ -352,7 +343,7 @@ async function getTVBroadcast(
       );
       if (score > bestScore) { bestScore = score; best = comp ?? null; }
     }
-    if (!best || bestScore < 4) return null;
+    if (!best || bestScore < 2 * MIN_CONFIDENCE) return null;
 
     const candidates = [
       ...(best.broadcasts ?? []).flatMap(b => b.names ?? []),
@@ -524,6 +515,107 @@ export async function generateMetadata({
   };
 }
 
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+// Consensus for a game still on the board; the card is skipped if it fails
+async function loadConsensus(id: string, sportKey: string): Promise<ConsensusRunResult['games'][number] | null> {
+  if (!CONSENSUS_SYSTEMS[sportKey]) return null;
+  try {
+    const h = await headers();
+    const host = h.get('x-forwarded-host') ?? h.get('host');
+    const origin = host ? `${h.get('x-forwarded-proto') ?? 'https'}://${host}` : undefined;
+    const result = await runConsensus(sportKey, { gameId: id, origin });
+    return result.games[0] ?? null;
+  } catch (e) {
+    console.error('[Consensus] Error:', e);
+    return null;
+  }
+}
+
+function ConsensusCard({ consensus, homeTeam, awayTeam }: {
+  consensus: NonNullable<Awaited<ReturnType<typeof loadConsensus>>>;
+  homeTeam: string;
+  awayTeam: string;
+}) {
+  const { line, edge } = consensus;
+  return (
+    <div className="mb-4 rounded-lg border border-gray-200 bg-white p-3 text-sm">
+      <div className="flex items-baseline justify-between gap-2">
+        <h2 className="font-semibold text-gray-900">Consensus Projection</h2>
+        <span className="text-xs text-gray-500">
+          {homeTeam} {signed(line.homeSpread)} (range {signed(line.low)} to {signed(line.high)})
+        </span>
+      </div>
+      <table className="mt-2 w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-medium">System</th>
+            <th className="font-medium text-right">Home line</th>
+            <th className="font-medium text-right">Weight</th>
+          </tr>
+        </thead>
+        <tbody>
+          {line.systems.map((s) => (
+            <tr key={s.system} className="border-t border-gray-100">
+              <td className="py-1 text-gray-700">{s.label}</td>
+              <td className="py-1 text-right tabular-nums">{signed(s.homeSpread)}</td>
+              <td className="py-1 text-right tabular-nums">{Math.round(s.weight * 100)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {edge && (
+        <p className={`mt-2 text-xs ${edge.outsideBand ? 'text-emerald-700 font-medium' : 'text-gray-500'}`}>
+          Market {homeTeam} {signed(edge.market)}
+          {edge.side
+            ? ` · ${edge.edge} pts of value on ${edge.side === 'home' ? homeTeam : awayTeam}${edge.outsideBand ? ' (outside the model band)' : ''}`
+            : ' · in line with the model'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ?view=lines — open-to-close line movement from odds_snapshots. Works after
+// the game has left the live odds feed: team names come from the snapshots.
+// Games still on the board also get the consensus projection card.
+async function LineMovementPage({ id, league }: { id: string; league?: string }) {
+  const [rows, game] = await Promise.all([loadLineHistory(id), getGame(id, league)]);
+  const first = rows[0];
+  const homeTeam = game?.home_team ?? first?.home_team;
+  const awayTeam = game?.away_team ?? first?.away_team;
+  const commenceTime = game?.commence_time ?? first?.commence_time;
+  const sportKey = game?.sport_key ?? first?.sport_key ?? league;
+
+  if (!homeTeam || !awayTeam || !commenceTime) {
+    redirect('/');
+  }
+
+  const movement = buildLineMovement(rows, commenceTime);
+  const consensus = game && sportKey ? await loadConsensus(id, sportKey) : null;
+  const boardUrl = `/?game=${id}&league=${sportKey}`;
+
+  return (
+    <main className="min-h-screen bg-gray-50 px-3 py-6">
+      <div className="max-w-3xl mx-auto">
+        <a href={boardUrl} className="text-xs text-blue-600 hover:underline">← Back to odds board</a>
+        <h1 className="mt-2 text-lg font-semibold text-gray-900">
+          {awayTeam} @ {homeTeam}
+        </h1>
+        <p className="text-xs text-gray-500 mb-4">
+          {sportKey ? `${getLeagueName(sportKey)} • ` : ''}
+          {new Date(commenceTime).toLocaleString('en-US', {
+            weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+            timeZone: 'America/New_York', timeZoneName: 'short',
+          })}
+        </p>
+        {consensus && <ConsensusCard consensus={consensus} homeTeam={homeTeam} awayTeam={awayTeam} />}
+        <LineMovementChart movement={movement} homeTeam={homeTeam} commenceTime={commenceTime} />
+      </div>
+    </main>
+  );
+}
+
 // The page component renders content then redirects client-side
 // This allows crawlers to read meta tags before redirect
 // UPDATED: Now reads league from searchParams to optimize API usage
@@ -532,10 +624,15 @@ export default async function GamePage({
   searchParams
 }: { 
   params: Promise<{ id: string }>;
-  searchParams: Promise<{ league?: string }>;
+  searchParams: Promise<{ league?: string; view?: string }>;
 }) {
   const { id } = await params;
-  const { league } = await searchParams;
+  const { league, view } = await searchParams;
+
+  if (view === 'lines') {
+    return <LineMovementPage id={id} league={league} />;
+  }
+
   const game = await getGame(id, league);
   
   if (!game) {
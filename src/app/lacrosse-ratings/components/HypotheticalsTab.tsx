@@ -232,7 +232,7 @@ export function HypotheticalsTab({ snapshot, hca, getTeamLogo }: HypotheticalsTa
                     {matchupProjection.homeTeam} {matchupProjection.projectedSpread === 0 ? 'PK' : `${matchupProjection.projectedSpread > 0 ? '+' : ''}${Math.round(matchupProjection.projectedSpread * 100) / 100}`}
                   </div>
                   <div className="text-xs text-gray-400 mt-2">
-                    {isNeutralSite ? 'Neutral site (no HFA)' : `Includes ${hca} goal HFA`}
+                    {isNeutralSite ? 'Neutral site (no HFA)' : `Includes ${hca} ${(snapshot?.marginUnit ?? 'goals').replace(/s$/, '')} HFA`}
                   </div>
                 </div>
 
@@ -15,9 +15,10 @@ interface RatingsTabProps {
   snapshot: RatingsSnapshot;
   hca: number;
   getTeamLogo: (teamName: string) => string | null;
+  csvName?: string;        // export filename prefix
 }
 
-export function RatingsTab({ snapshot, hca, getTeamLogo }: RatingsTabProps) {
+export function RatingsTab({ snapshot, hca, getTeamLogo, csvName = 'lacrosse_ratings' }: RatingsTabProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<RatingsSortField>('rating');
   const [sortDir, setSortDir] = useState<SortDirection>('desc');
@@ -161,7 +162,7 @@ export function RatingsTab({ snapshot, hca, getTeamLogo }: RatingsTabProps) {
             const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
             const link = document.createElement('a');
             link.href = URL.createObjectURL(blob);
-            link.download = `lacrosse_ratings_${new Date().toISOString().split('T')[0]}.csv`;
+            link.download = `${csvName}_${new Date().toISOString().split('T')[0]}.csv`;
             link.click();
           }}
           disabled={filteredRatings.length === 0}
@@ -0,0 +1,212 @@
+// src/app/market-ratings/[sport]/page.tsx
+// Market-adjusted power ratings for any sport in SPORT_RATINGS, on the
+// lacrosse page's ratings and hypotheticals tabs.
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { getSportRatingsConfig } from '@/lib/ratings/sports';
+import { RatingsTab } from '@/app/lacrosse-ratings/components/RatingsTab';
+import { HypotheticalsTab } from '@/app/lacrosse-ratings/components/HypotheticalsTab';
+import { useMarketRatings } from './useMarketRatings';
+
+type TabType = 'ratings' | 'hypotheticals';
+
+const SEED_LABELS = {
+  massey: 'Massey Composite',
+  power_rating_set: 'Power Ratings',
+  flat: 'Market Only',
+};
+
+const noLogo = () => null;
+
+export default function MarketRatingsPage() {
+  const { sport } = useParams<{ sport: string }>();
+  const config = getSportRatingsConfig(sport);
+  const data = useMarketRatings(config);
+  const [activeTab, setActiveTab] = useState<TabType>('ratings');
+  const [syncStartDate, setSyncStartDate] = useState('');
+  const [syncEndDate, setSyncEndDate] = useState('');
+  const [maxGames, setMaxGames] = useState(200);
+
+  if (!config) {
+    return (
+      <div className="min-h-screen bg-blue-50 text-gray-900 p-8 text-center">
+        <p>Market ratings aren&apos;t set up for {sport}.</p>
+        <Link href="/" className="text-blue-600 hover:text-blue-700 text-sm font-medium">&larr; Back to Odds</Link>
+      </div>
+    );
+  }
+
+  const unit = config.marginUnit.replace(/s$/, '');
+
+  return (
+    <div className="min-h-screen bg-blue-50 text-gray-900">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{config.label} Ratings</h1>
+              <p className="text-sm text-gray-900">Market-adjusted {config.label} power ratings, in {config.marginUnit}</p>
+            </div>
+            <Link href="/" className="text-blue-600 hover:text-blue-700 text-sm font-medium">&larr; Back to Odds</Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6">
+        {/* Messages */}
+        {data.error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+            {data.error}
+            <button onClick={() => data.setError(null)} className="ml-2 text-red-500 hover:text-red-700">&times;</button>
+          </div>
+        )}
+
+        {data.successMessage && (
+          <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-xl text-green-700">
+            {data.successMessage}
+            <button onClick={() => data.setSuccessMessage(null)} className="ml-2 text-green-500 hover:text-green-700">&times;</button>
+          </div>
+        )}
+
+        {/* Sync Controls (localhost only) */}
+        {data.isLocalhost && (
+          <div className="bg-white rounded-xl p-4 mb-4 border border-gray-200 shadow-sm">
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-gray-900">Start:</label>
+                <input
+                  type="date"
+                  value={syncStartDate}
+                  onChange={(e) => setSyncStartDate(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-gray-900">End:</label>
+                <input
+                  type="date"
+                  value={syncEndDate}
+                  onChange={(e) => setSyncEndDate(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-gray-900">Max:</label>
+                <input
+                  type="number"
+                  value={maxGames}
+                  onChange={(e) => setMaxGames(parseInt(e.target.value) || 200)}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </div>
+              <button
+                onClick={() => data.syncRatings({ startDate: syncStartDate || undefined, endDate: syncEndDate || undefined, maxGames })}
+                disabled={data.loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+              >
+                {data.loading ? 'Syncing...' : 'Sync Latest Games'}
+              </button>
+              <button
+                onClick={data.recalculateRatings}
+                disabled={data.loading}
+                className="px-4 py-2 bg-amber-100 text-amber-700 rounded-lg hover:bg-amber-200 text-sm font-medium"
+              >
+                Recalculate All
+              </button>
+              {config.seed === 'power_rating_set' && (
+                <button
+                  onClick={data.seedRatings}
+                  disabled={data.loading}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium"
+                >
+                  Seed From Power Ratings
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Configuration Summary */}
+        {data.snapshot && (
+          <div className="bg-white rounded-xl p-6 mb-4 border border-gray-200 shadow-sm">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-xs font-medium text-gray-900 uppercase tracking-wide mb-1">Rating Source</div>
+                <div className="text-lg font-semibold text-gray-900">{SEED_LABELS[config.seed]}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-xs font-medium text-gray-900 uppercase tracking-wide mb-1">Home Advantage</div>
+                <div className="text-lg font-semibold text-gray-900">{data.hca} {data.hca === 1 ? unit : config.marginUnit}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-xs font-medium text-gray-900 uppercase tracking-wide mb-1">Teams</div>
+                <div className="text-lg font-semibold text-gray-900">{data.snapshot.ratings.length}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-xs font-medium text-gray-900 uppercase tracking-wide mb-1">Games Processed</div>
+                <div className="text-lg font-semibold text-gray-900">{data.snapshot.gamesProcessed}</div>
+              </div>
+            </div>
+            {data.syncRange?.lastGameDate && (
+              <div className="mt-4 pt-4 border-t border-gray-200 text-sm">
+                <span className="text-gray-900">Synced through: </span>
+                <span className="font-semibold text-blue-600">
+                  {new Date(data.syncRange.lastGameDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Tab Content */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="border-b border-gray-200">
+            <nav className="flex">
+              {(['ratings', 'hypotheticals'] as TabType[]).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`px-4 py-3 text-sm font-medium border-b-2 whitespace-nowrap ${
+                    activeTab === tab
+                      ? 'border-blue-600 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {tab === 'ratings' ? 'Ratings' : 'Hypotheticals'}
+                </button>
+              ))}
+            </nav>
+          </div>
+
+          {activeTab === 'ratings' && data.snapshot && (
+            <RatingsTab
+              snapshot={data.snapshot}
+              hca={data.hca}
+              getTeamLogo={noLogo}
+              csvName={`${config.label.toLowerCase()}_ratings`}
+            />
+          )}
+
+          {activeTab === 'hypotheticals' && (
+            <HypotheticalsTab snapshot={data.snapshot} hca={data.hca} getTeamLogo={noLogo} />
+          )}
+
+          {activeTab === 'ratings' && !data.snapshot && !data.loading && (
+            <div className="p-8 text-center text-gray-900">
+              <p>No {config.label} ratings yet.</p>
+              <p className="text-sm mt-2">
+                {config.seed === 'flat'
+                  ? 'Sync games to start the season: every team starts at 0 and moves toward the closing line.'
+                  : 'Seed the season, then sync games.'}
+              </p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
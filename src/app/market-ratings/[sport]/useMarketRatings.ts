@@ -0,0 +1,125 @@
+// src/app/market-ratings/[sport]/useMarketRatings.ts
+
+import { useState, useEffect, useCallback } from 'react';
+import type { SportRatingsConfig, SportRatingsSnapshot } from '@/lib/ratings/types';
+
+export interface UseMarketRatingsReturn {
+  loading: boolean;
+  error: string | null;
+  successMessage: string | null;
+  snapshot: SportRatingsSnapshot | null;
+  hca: number;
+  isLocalhost: boolean;
+  syncRange: { firstGameDate: string | null; lastGameDate: string | null } | null;
+  syncRatings: (params: { startDate?: string; endDate?: string; maxGames?: number }) => Promise<void>;
+  recalculateRatings: () => Promise<void>;
+  seedRatings: () => Promise<void>;
+  setError: (error: string | null) => void;
+  setSuccessMessage: (message: string | null) => void;
+}
+
+export function useMarketRatings(config: SportRatingsConfig | null): UseMarketRatingsReturn {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [snapshot, setSnapshot] = useState<SportRatingsSnapshot | null>(null);
+  const [hca, setHca] = useState(config?.hca ?? 0);
+  const [isLocalhost, setIsLocalhost] = useState(false);
+  const [syncRange, setSyncRange] = useState<{ firstGameDate: string | null; lastGameDate: string | null } | null>(null);
+
+  const endpoint = config ? `/api/market-ratings/${config.sportKey}` : null;
+
+  useEffect(() => {
+    setIsLocalhost(window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1');
+  }, []);
+
+  const loadRatings = useCallback(async () => {
+    if (!endpoint) return;
+    try {
+      const response = await fetch(endpoint);
+      const data = await response.json();
+      if (data.success && data.data) {
+        setSnapshot(data.data);
+        if (data.config) setHca(data.config.hca);
+        if (data.syncRange) setSyncRange(data.syncRange);
+      }
+    } catch {
+      console.log('No market ratings available');
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    loadRatings();
+  }, [loadRatings]);
+
+  // POST an action to the sport's endpoint; returns the response body on success
+  const post = useCallback(async (body: Record<string, unknown>) => {
+    if (!endpoint) return null;
+    setLoading(true);
+    setError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint]);
+
+  const syncRatings = useCallback(async (params: { startDate?: string; endDate?: string; maxGames?: number }) => {
+    const data = await post({ hca, maxGames: params.maxGames || 200, startDate: params.startDate, endDate: params.endDate });
+    if (!data) return;
+    await loadRatings();
+    setSuccessMessage(`Sync complete! ${data.summary?.newGamesProcessed || 0} games processed, ${data.summary?.gamesSkipped || 0} skipped.`);
+    setTimeout(() => setSuccessMessage(null), 10000);
+  }, [post, hca, loadRatings]);
+
+  const recalculateRatings = useCallback(async () => {
+    if (!confirm('This will reset all team ratings to their starting values and replay all game adjustments. Continue?')) {
+      return;
+    }
+    const data = await post({ action: 'recalculate', hca });
+    if (!data) return;
+    setSuccessMessage(`Recalculated from ${data.gamesProcessed} games`);
+    setTimeout(() => setSuccessMessage(null), 10000);
+    await loadRatings();
+  }, [post, hca, loadRatings]);
+
+  const seedRatings = useCallback(async () => {
+    if (!confirm('This will replace this season\'s ratings with the stored power ratings. Continue?')) {
+      return;
+    }
+    const data = await post({ action: 'seed' });
+    if (!data) return;
+    setSuccessMessage(data.message);
+    setTimeout(() => setSuccessMessage(null), 10000);
+    await loadRatings();
+  }, [post, loadRatings]);
+
+  return {
+    loading,
+    error,
+    successMessage,
+    snapshot,
+    hca,
+    isLocalhost,
+    syncRange,
+    syncRatings,
+    recalculateRatings,
+    seedRatings,
+    setError,
+    setSuccessMessage,
+  };
+}
@@ -20,6 +20,7 @@ import {
   PROPS_SUPPORTED_LEAGUES 
 } from '@/lib/api';
 import { fetchNHLRestData, matchGameToRestData, GameRestData } from '@/lib/nhlRest';
+import { FAIR_SOURCES, type FairSource } from '@/lib/fairPrice';
 import LeagueNav from '@/components/LeagueNav';
 import GameCard from '@/components/GameCard';
 import FuturesTable from '@/components/FuturesTable';
@@ -28,6 +29,7 @@ import PropsTable from '@/components/PropsTable';
 import ConferenceFilter from '@/components/ConferenceFilter';
 import BookmakerSelector from '@/components/BookmakerSelector';
 import MyBets from '@/components/MyBets';
+import ArbScanner from '@/components/ArbScanner';
 import { getTeamConference } from '@/lib/conferences';
 
 interface CacheItem<T> {
@@ -55,7 +57,7 @@ function HomeContent() {
   const crossNavSearchRef = useRef(false);
   
   const [activeLeague, setActiveLeague] = useState('basketball_nba');
-  const [activeView, setActiveView] = useState<'games' | 'futures' | 'props' | 'mybets'>('games');
+  const [activeView, setActiveView] = useState<'games' | 'futures' | 'props' | 'arbs' | 'mybets'>('games');
   const [games, setGames] = useState<Game[]>([]);
   const [futures, setFutures] = useState<FuturesMarket[]>([]);
   const [loading, setLoading] = useState(true);
@@ -65,6 +67,7 @@ function HomeContent() {
   const [teamFilter, setTeamFilter] = useState('');
   const [selectedConferences, setSelectedConferences] = useState<string[]>([]);
   const [selectedBookmakers, setSelectedBookmakers] = useState<string[]>([...BOOKMAKERS]);
+  const [fairSource, setFairSource] = useState<FairSource>('auto');
   const [favoriteGames, setFavoriteGames] = useState<string[]>([]);
   const [favoritesLoading, setFavoritesLoading] = useState(false);
   const [highlightedGameId, setHighlightedGameId] = useState<string | null>(null);
@@ -146,6 +149,12 @@ function HomeContent() {
       }
     }
     
+    // Load saved fair-price reference from localStorage
+    const savedFairSource = localStorage.getItem('fairSource');
+    if (savedFairSource && FAIR_SOURCES.some(f => f.id === savedFairSource)) {
+      setFairSource(savedFairSource as FairSource);
+    }
+
     // Load saved favorite games from localStorage
     const savedFavorites = localStorage.getItem('favoriteGames');
     if (savedFavorites) {
@@ -237,6 +246,13 @@ function HomeContent() {
     }
   }, [selectedBookmakers, isClient]);
 
+  // Save fair-price reference to localStorage
+  useEffect(() => {
+    if (isClient) {
+      localStorage.setItem('fairSource', fairSource);
+    }
+  }, [fairSource, isClient]);
+
   // Save favorite games to localStorage
   useEffect(() => {
     if (isClient) {
@@ -435,7 +451,8 @@ function HomeContent() {
     
     const now = Date.now();
     
-    const needsGames = activeView === 'games' && !isFuturesOnly(activeLeague);
+    // The arbs view scans the same board the games view shows
+    const needsGames = (activeView === 'games' || activeView === 'arbs') && !isFuturesOnly(activeLeague);
     const needsFutures = activeView === 'futures' || isFuturesOnly(activeLeague);
     
     try {
@@ -479,7 +496,7 @@ function HomeContent() {
       }
       
       // Fetch ESPN scores for live games (only for games view)
-      if (needsGames) {
+      if (needsGames && activeView === 'games') {
         try {
           const scores = await fetchESPNScores(activeLeague);
           setEspnScores(scores);
@@ -594,7 +611,7 @@ function HomeContent() {
     try {
       const now = Date.now();
       
-      if (activeView === 'games' && !isFuturesOnly(activeLeague)) {
+      if ((activeView === 'games' || activeView === 'arbs') && !isFuturesOnly(activeLeague)) {
         const response = await fetchOdds(activeLeague);
         setGames(response.data);
         setApiRequestsRemaining(response.requestsRemaining);
@@ -640,7 +657,7 @@ function HomeContent() {
   }, [loadData, activeView, activeLeague]);
 
   // Force the effective view for rendering
-  const effectiveView: 'games' | 'futures' | 'props' | 'mybets' = isFuturesOnly(activeLeague) ? 'futures' : activeView;
+  const effectiveView: 'games' | 'futures' | 'props' | 'arbs' | 'mybets' = isFuturesOnly(activeLeague) ? 'futures' : activeView;
 
   // Filter games based on team name AND conferences
   const filteredGames = useMemo(() => {
@@ -714,6 +731,8 @@ function HomeContent() {
                 <BookmakerSelector
                   selectedBookmakers={selectedBookmakers}
                   onSelectionChange={setSelectedBookmakers}
+                  fairSource={fairSource}
+                  onFairSourceChange={setFairSource}
                 />
               )}
 
@@ -775,6 +794,16 @@ function HomeContent() {
                   📈 Ratings
                 </button>
               )}
+
+              {/* Ratings Button - Leagues on the shared market-ratings engine */}
+              {LEAGUES.some(l => l.id === activeLeague && l.marketRatings) && (
+                <button
+                  onClick={() => router.push(`/market-ratings/${activeLeague}`)}
+                  className="px-2 sm:px-3 py-2 rounded-xl text-sm font-medium transition-all select-none border border-gray-200 shadow-sm bg-purple-100 text-purple-700 hover:bg-purple-200 whitespace-nowrap"
+                >
+                  📈 Ratings
+                </button>
+              )}
               
               <button
                 onMouseDown={(e) => {
@@ -1026,7 +1055,7 @@ function HomeContent() {
                     {supportsProps && (
                       <button
                         type="button"
-                        className={`px-4 py-2 text-sm font-medium rounded-r-lg ${
+                        className={`px-4 py-2 text-sm font-medium ${
                           activeView === 'props' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
                         } border border-gray-200 border-l-0`}
                         onClick={() => {
@@ -1039,6 +1068,21 @@ function HomeContent() {
                         Props
                       </button>
                     )}
+                    <button
+                      type="button"
+                      className={`px-4 py-2 text-sm font-medium rounded-r-lg ${
+                        activeView === 'arbs' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      } border border-gray-200 border-l-0`}
+                      onClick={() => {
+                        setActiveView('arbs');
+                        setTeamFilter('');
+                        setSelectedConferences([]);
+                        setSelectedPropsEvent(null);
+                        setPlayerFilter('');
+                      }}
+                    >
+                      Arbs
+                    </button>
                   </div>
                 </div>
               )
@@ -1125,6 +1169,7 @@ function HomeContent() {
                         onToggleFavorite={toggleFavoriteGame}
                         liveScore={matchGameToScore(game, espnScores)}
                         highlightedGameId={highlightedGameId}
+                        fairSource={fairSource}
                         restData={game.sport_key === 'icehockey_nhl' ? matchGameToRestData(game.home_team, game.away_team, nhlRestData) : null}
                       />
                     ))}
@@ -1150,12 +1195,15 @@ function HomeContent() {
                         onToggleFavorite={toggleFavoriteGame}
                         liveScore={matchGameToScore(game, espnScores)}
                         highlightedGameId={highlightedGameId}
+                        fairSource={fairSource}
                         restData={activeLeague === 'icehockey_nhl' ? matchGameToRestData(game.home_team, game.away_team, nhlRestData) : null}
                       />
                     ))}
                   </div>
                 )}
               </div>
+            ) : effectiveView === 'arbs' ? (
+              <ArbScanner games={games} selectedBookmakers={selectedBookmakers} />
             ) : effectiveView === 'props' ? (
               <div>
                 {propsLoading ? (
@@ -0,0 +1,277 @@
+// src/app/ratings/components/BacktestTab.tsx
+// Admin tab: walk-forward backtest of the ratings engine with an HCA ×
+// adjustment-fraction sweep (same report as `npm run backtest:ratings`), and
+// the first-half / first-quarter splits against stored KenPom box scores
+
+'use client';
+
+import React, { useState } from 'react';
+import type { AtsRecord, BacktestReport } from '@/lib/ratings/backtest';
+import { PERIODS, SPREAD_BUCKETS, TEMPO_BUCKETS, type PeriodBacktestRow, type PeriodSplits } from '@/lib/ratings/periods';
+
+interface PeriodsResponse {
+  success: boolean;
+  error?: string;
+  season: number;
+  games: number;
+  splits: PeriodSplits;
+  backtest: PeriodBacktestRow[];
+}
+
+interface BacktestResponse {
+  success: boolean;
+  error?: string;
+  season: number;
+  games: number;
+  current: BacktestReport;
+  results: BacktestReport[];
+}
+
+const fmt = (x: number | null, d = 2) => (x === null ? '—' : x.toFixed(d));
+const atsText = (r: AtsRecord) => `${r.wins}-${r.losses}${r.pushes ? `-${r.pushes}` : ''}`;
+
+function ReportDetail({ title, report }: { title: string; report: BacktestReport }) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-900">
+        {title}
+        <span className="ml-2 font-normal text-gray-600">
+          HCA {report.params.hca} · fraction {report.params.adjustmentFraction}
+        </span>
+      </h3>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-3 text-sm">
+        <div><div className="text-xs text-gray-500">MAE vs close</div><div className="font-semibold text-gray-900">{fmt(report.maeClosing)}</div></div>
+        <div><div className="text-xs text-gray-500">Bias vs close</div><div className="font-semibold text-gray-900">{fmt(report.biasClosing)}</div></div>
+        <div><div className="text-xs text-gray-500">MAE vs result</div><div className="font-semibold text-gray-900">{fmt(report.maeActual)}</div></div>
+        <div>
+          <div className="text-xs text-gray-500">ATS vs opener</div>
+          <div className="font-semibold text-gray-900">{atsText(report.ats)} <span className="font-normal text-gray-600">({fmt(report.ats.winPct, 1)}%)</span></div>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-700">
+        {report.atsByEdge.map(({ minEdge, record }) => (
+          <span key={minEdge}>Edge ≥ {minEdge}: {atsText(record)} ({fmt(record.winPct, 1)}%)</span>
+        ))}
+        <span className="text-gray-500">{report.gamesScored} scored, {report.gamesSkipped} skipped</span>
+      </div>
+      <table className="w-full text-xs mt-3">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-2 py-1 text-left font-semibold text-gray-900">Projected spread</th>
+            <th className="px-2 py-1 text-right font-semibold text-gray-900">Games</th>
+            <th className="px-2 py-1 text-right font-semibold text-gray-900">Proj margin</th>
+            <th className="px-2 py-1 text-right font-semibold text-gray-900">Close margin</th>
+            <th className="px-2 py-1 text-right font-semibold text-gray-900">Actual margin</th>
+            <th className="px-2 py-1 text-right font-semibold text-gray-900">MAE close</th>
+            <th className="px-2 py-1 text-right font-semibold text-gray-900">MAE actual</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {report.calibration.map(b => (
+            <tr key={b.label}>
+              <td className="px-2 py-1 text-gray-900">{b.label}</td>
+              <td className="px-2 py-1 text-right text-gray-900">{b.games}</td>
+              <td className="px-2 py-1 text-right text-gray-900">{fmt(b.meanProjected, 1)}</td>
+              <td className="px-2 py-1 text-right text-gray-900">{fmt(b.meanClosing, 1)}</td>
+              <td className="px-2 py-1 text-right text-gray-900">{fmt(b.meanActual, 1)}</td>
+              <td className="px-2 py-1 text-right text-gray-900">{fmt(b.maeClosing)}</td>
+              <td className="px-2 py-1 text-right text-gray-900">{fmt(b.maeActual)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function PeriodBacktest() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [data, setData] = useState<PeriodsResponse | null>(null);
+
+  const run = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/ratings/periods?season=2026');
+      const json: PeriodsResponse = await response.json();
+      if (!json.success) throw new Error(json.error || 'Period backtest failed');
+      setData(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Period backtest failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-sm font-semibold text-gray-900">First half / first quarter</h3>
+        <button
+          onClick={run}
+          disabled={loading}
+          className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium py-1 px-3 rounded-lg text-xs"
+        >
+          {loading ? 'Running…' : 'Run Period Backtest'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-700">
+        Walk-forward over stored KenPom box scores: each day is projected from period shares fit on earlier days,
+        against a flat half / quarter of the full-game line.
+      </p>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {data && (
+        <>
+          <p className="text-sm text-gray-700">Season {data.season}: {data.games} games with predictions and box scores</p>
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-2 py-1 text-left font-semibold text-gray-900">Period</th>
+                <th className="px-2 py-1 text-right font-semibold text-gray-900">Games</th>
+                <th className="px-2 py-1 text-right font-semibold text-gray-900">Spread MAE</th>
+                <th className="px-2 py-1 text-right font-semibold text-gray-900">Flat split</th>
+                <th className="px-2 py-1 text-right font-semibold text-gray-900">Spread bias</th>
+                <th className="px-2 py-1 text-right font-semibold text-gray-900">Total MAE</th>
+                <th className="px-2 py-1 text-right font-semibold text-gray-900">Flat split</th>
+                <th className="px-2 py-1 text-right font-semibold text-gray-900">Total bias</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {data.backtest.map(r => (
+                <tr key={r.period}>
+                  <td className="px-2 py-1 text-gray-900">{r.period}</td>
+                  <td className="px-2 py-1 text-right text-gray-900">{r.games}</td>
+                  <td className="px-2 py-1 text-right text-gray-900">{fmt(r.spreadMae)}</td>
+                  <td className="px-2 py-1 text-right text-gray-600">{fmt(r.naiveSpreadMae)}</td>
+                  <td className="px-2 py-1 text-right text-gray-900">{fmt(r.spreadBias)}</td>
+                  <td className="px-2 py-1 text-right text-gray-900">{fmt(r.totalMae)}</td>
+                  <td className="px-2 py-1 text-right text-gray-600">{fmt(r.naiveTotalMae)}</td>
+                  <td className="px-2 py-1 text-right text-gray-900">{fmt(r.totalBias)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex flex-wrap gap-6 text-xs text-gray-700">
+            {PERIODS.map(period => (
+              <div key={period}>
+                <div className="font-semibold text-gray-900">{period} shares</div>
+                <div>
+                  Spread: {data.splits[period].spread.buckets.map((b, i) => `${SPREAD_BUCKETS[i].label} ${fmt(b.share, 3)}`).join(' · ')}
+                </div>
+                <div>
+                  Total: {data.splits[period].total.buckets.map((b, i) => `${TEMPO_BUCKETS[i].label} ${fmt(b.share, 3)}`).join(' · ')}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function BacktestTab() {
+  const [hca, setHca] = useState('2,2.5,3,3.5');
+  const [fraction, setFraction] = useState('0.2,0.3,0.4,0.5');
+  const [from, setFrom] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [data, setData] = useState<BacktestResponse | null>(null);
+
+  const run = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ hca, fraction });
+      if (from) params.set('from', from);
+      const response = await fetch(`/api/ratings/backtest?${params}`);
+      const json: BacktestResponse = await response.json();
+      if (!json.success) throw new Error(json.error || 'Backtest failed');
+      setData(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Backtest failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Backtest</h2>
+        <p className="text-sm text-gray-900">
+          Replays the season from the initial ratings, projecting each game from ratings as they stood before it.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="text-xs text-gray-700">
+          HCA values
+          <input value={hca} onChange={e => setHca(e.target.value)} className="block mt-1 w-40 border border-gray-300 rounded px-2 py-1 text-sm text-gray-900" />
+        </label>
+        <label className="text-xs text-gray-700">
+          Adjustment fractions
+          <input value={fraction} onChange={e => setFraction(e.target.value)} className="block mt-1 w-40 border border-gray-300 rounded px-2 py-1 text-sm text-gray-900" />
+        </label>
+        <label className="text-xs text-gray-700">
+          Score from
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} className="block mt-1 border border-gray-300 rounded px-2 py-1 text-sm text-gray-900" />
+        </label>
+        <button
+          onClick={run}
+          disabled={loading}
+          className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium py-2 px-4 rounded-lg text-sm"
+        >
+          {loading ? 'Running…' : 'Run Backtest'}
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {data && (
+        <>
+          <p className="text-sm text-gray-700">Season {data.season}: {data.games} processed games</p>
+          <ReportDetail title="Current engine" report={data.current} />
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-900 uppercase">HCA</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-900 uppercase">Fraction</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-900 uppercase">MAE close</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-900 uppercase">Bias</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-900 uppercase">MAE actual</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-900 uppercase">ATS vs opener</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {data.results.map((r, i) => {
+                  const isCurrent = r.params.hca === data.current.params.hca &&
+                    r.params.adjustmentFraction === data.current.params.adjustmentFraction;
+                  return (
+                    <tr key={`${r.params.hca}-${r.params.adjustmentFraction}`} className={i === 0 ? 'bg-green-50' : isCurrent ? 'bg-blue-50' : ''}>
+                      <td className="px-3 py-1.5 text-gray-900">{r.params.hca}</td>
+                      <td className="px-3 py-1.5 text-gray-900">{r.params.adjustmentFraction}</td>
+                      <td className="px-3 py-1.5 text-right text-gray-900">{fmt(r.maeClosing)}</td>
+                      <td className="px-3 py-1.5 text-right text-gray-900">{fmt(r.biasClosing)}</td>
+                      <td className="px-3 py-1.5 text-right text-gray-900">{fmt(r.maeActual)}</td>
+                      <td className="px-3 py-1.5 text-right text-gray-900">{atsText(r.ats)} ({fmt(r.ats.winPct, 1)}%)</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {data.results[0] && <ReportDetail title="Best in sweep" report={data.results[0]} />}
+        </>
+      )}
+
+      <PeriodBacktest />
+    </div>
+  );
+}
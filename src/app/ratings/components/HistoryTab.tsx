@@ -455,7 +455,7 @@ export function HistoryTab({
                   const s = String(v);
                   return (s.includes(',') || s.includes('"') || s.includes('\n')) ? `"${s.replace(/"/g, '""')}"` : s;
                 };
-                const header = ['Date', 'Away', 'Away Score', 'Home', 'Home Score', 'Projected', 'Open', 'v. Open', 'Close', 'v. Close', 'Signal', 'Signal Team', 'Result'];
+                const header = ['Date', 'Away', 'Away Score', 'Home', 'Home Score', 'Projected', 'Open', 'v. Open', 'Close', 'v. Close', 'Proj Total', 'Close Total', 'Signal', 'Signal Team', 'Result'];
                 const rows = filteredHistoryGames.map(g => {
                   const dateStr = new Date(g.gameDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'America/New_York' });
                   const vOpen = (g.projectedSpread !== null && g.openingSpread !== null) ? Math.abs(g.projectedSpread - g.openingSpread).toFixed(1) : '';
@@ -536,6 +536,8 @@ export function HistoryTab({
                     vOpen,
                     g.closingSpread !== null ? g.closingSpread.toFixed(1) : '',
                     g.difference !== null ? g.difference.toFixed(1) : '',
+                    g.projectedTotal !== null ? g.projectedTotal.toFixed(1) : '',
+                    g.closingTotal !== null ? g.closingTotal.toFixed(1) : '',
                     signal,
                     signalTeam,
                     result,
@@ -706,6 +708,8 @@ export function HistoryTab({
                 >
                   v. Close {historySortField === 'diff' && (historySortDirection === 'desc' ? '↓' : '↑')}
                 </th>
+                <th className="px-2 sm:px-4 py-3 text-center text-xs font-semibold text-white uppercase whitespace-nowrap hidden sm:table-cell">Proj Tot</th>
+                <th className="px-2 sm:px-4 py-3 text-center text-xs font-semibold text-white uppercase whitespace-nowrap hidden sm:table-cell">Close Tot</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
@@ -876,13 +880,19 @@ export function HistoryTab({
                     }`}>
                       {game.difference !== null ? (game.difference > 0 ? '+' : '') + game.difference.toFixed(1) : '—'}
                     </td>
+                    <td className="px-2 sm:px-4 py-3 text-sm text-center font-mono font-semibold text-gray-900 hidden sm:table-cell">
+                      {game.projectedTotal !== null ? game.projectedTotal.toFixed(1) : <span className="text-gray-400">—</span>}
+                    </td>
+                    <td className="px-2 sm:px-4 py-3 text-sm text-center font-mono text-gray-900 hidden sm:table-cell">
+                      {game.closingTotal !== null ? game.closingTotal.toFixed(1) : <span className="text-gray-400">—</span>}
+                    </td>
                   </tr>
                 );
               })}
             </tbody>
           </table>
           <div className="px-4 py-2 text-xs text-gray-900 border-t border-gray-100 bg-gray-50">
-            v. Close = |Close − Proj| (negative = market moved toward our projection)
+            v. Close = |Close − Proj| (negative = market moved toward our projection). Proj Tot is the totals model before the game.
           </div>
         </div>
       )}
@@ -4,6 +4,7 @@
 import React, { useMemo, useState } from 'react';
 import { TeamLogo } from './TeamLogo';
 import { formatRating } from '@/lib/ratings/engine';
+import { projectTotal, totalsBaseline } from '@/lib/ratings/totals';
 import type { RatingsSnapshot } from '../types';
 
 interface HypotheticalsTabProps {
@@ -45,7 +46,9 @@ export function HypotheticalsTab({ snapshot, hca, getTeamLogo }: HypotheticalsTa
     ).slice(0, 20);
   }, [sortedTeams, awayTeamSearch]);
 
-  // Calculate projected spread for matchup
+  const baseline = useMemo(() => (snapshot ? totalsBaseline(snapshot.ratings) : null), [snapshot]);
+
+  // Calculate projected spread and total for matchup
   const matchupProjection = useMemo(() => {
     if (!snapshot || !homeTeam || !awayTeam) return null;
     
@@ -65,10 +68,11 @@ export function HypotheticalsTab({ snapshot, hca, getTeamLogo }: HypotheticalsTa
       homeConference: homeRating.conference,
       awayConference: awayRating.conference,
       projectedSpread,
+      total: baseline ? projectTotal(homeRating, awayRating, baseline) : null,
       hcaApplied: hcaToApply,
       isNeutralSite,
     };
-  }, [snapshot, homeTeam, awayTeam, isNeutralSite, hca]);
+  }, [snapshot, homeTeam, awayTeam, isNeutralSite, hca, baseline]);
 
   // Swap home and away teams
   const swapTeams = () => {
@@ -84,7 +88,7 @@ export function HypotheticalsTab({ snapshot, hca, getTeamLogo }: HypotheticalsTa
     <div className="p-6">
       <div className="max-w-2xl mx-auto">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Hypothetical Matchup Calculator</h2>
-        <p className="text-sm text-gray-900 mb-6">Select two teams to see the projected spread based on current power ratings.</p>
+        <p className="text-sm text-gray-900 mb-6">Select two teams to see the projected spread and total based on current power ratings.</p>
         
         {!snapshot ? (
           <div className="text-center py-8 text-gray-900">
@@ -245,6 +249,21 @@ export function HypotheticalsTab({ snapshot, hca, getTeamLogo }: HypotheticalsTa
                   </div>
                 </div>
 
+                {/* Projected Total */}
+                <div className="text-center border-t border-blue-200 pt-4 mt-4">
+                  <div className="text-sm text-gray-900 mb-1">Projected Total</div>
+                  {matchupProjection.total ? (
+                    <>
+                      <div className="text-3xl font-bold text-gray-900">{matchupProjection.total.total.toFixed(1)}</div>
+                      <div className="text-xs text-gray-400 mt-2 font-mono">
+                        {matchupProjection.awayTeam} {matchupProjection.total.awayPoints.toFixed(1)} – {matchupProjection.homeTeam} {matchupProjection.total.homePoints.toFixed(1)} · {matchupProjection.total.possessions.toFixed(1)} possessions
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-sm text-gray-400">No totals ratings for one of these teams</div>
+                  )}
+                </div>
+
                 {/* Calculation Breakdown */}
                 <div className="mt-4 pt-4 border-t border-blue-200 text-xs text-gray-900 text-center font-mono">
                   Home Rating ({formatRating(matchupProjection.homeRating)}) - Away Rating ({formatRating(matchupProjection.awayRating)})
@@ -0,0 +1,168 @@
+// src/app/ratings/components/MatchReviewPanel.tsx
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { buildRegistry, ncaabOverrideAliases, resolveTeam, type TeamResolution, type TeamSource } from '@/lib/teams';
+import type { TeamOverride } from '../types';
+
+// Below this the resolver is guessing from word overlap rather than a school name
+const REVIEW_BELOW = 0.9;
+
+interface MatchReviewPanelProps {
+  overrides: TeamOverride[];
+  kenpomTeams: string[];
+  oddsApiTeams: string[];
+  torvikTeams: string[];
+  onResolved: (message: string) => Promise<void>;
+}
+
+interface ReviewItem {
+  name: string;
+  source: TeamSource;
+  resolution: TeamResolution;
+}
+
+// Override column each source's name is recorded under
+const SOURCE_FIELD: Partial<Record<TeamSource, keyof TeamOverride>> = {
+  odds_api: 'oddsApiName',
+  torvik: 'torvikName',
+  kalshi: 'kalshiName',
+};
+
+const SOURCE_LABEL: Partial<Record<TeamSource, string>> = {
+  odds_api: 'Odds API',
+  torvik: 'Torvik',
+  kalshi: 'Kalshi',
+};
+
+export function MatchReviewPanel({ overrides, kenpomTeams, oddsApiTeams, torvikTeams, onResolved }: MatchReviewPanelProps) {
+  const [kalshiTeams, setKalshiTeams] = useState<string[]>([]);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  // Kalshi has no team list of its own — take the names on today's board
+  useEffect(() => {
+    fetch('/api/kalshi-odds?sport=basketball_ncaab')
+      .then(r => r.json())
+      .then((data: { moneyline?: { awayTeam: string; homeTeam: string }[] }) => {
+        const names = new Set<string>();
+        for (const g of data.moneyline ?? []) {
+          names.add(g.awayTeam);
+          names.add(g.homeTeam);
+        }
+        setKalshiTeams([...names]);
+      })
+      .catch(err => console.error('Failed to load Kalshi teams:', err));
+  }, []);
+
+  const items = useMemo(() => {
+    if (kenpomTeams.length === 0) return [];
+    const registry = buildRegistry('NCAAB', kenpomTeams, ncaabOverrideAliases(overrides));
+    const review: ReviewItem[] = [];
+    const check = (names: string[], source: TeamSource) => {
+      for (const name of names) {
+        const resolution = resolveTeam(name, registry, { source });
+        if (resolution.team === null || resolution.ambiguous || resolution.confidence < REVIEW_BELOW) {
+          review.push({ name, source, resolution });
+        }
+      }
+    };
+    check(oddsApiTeams, 'odds_api');
+    check(torvikTeams, 'torvik');
+    check(kalshiTeams, 'kalshi');
+    // Ambiguous first, then unmatched, then weakest
+    return review.sort((a, b) =>
+      Number(b.resolution.ambiguous) - Number(a.resolution.ambiguous) ||
+      Number(a.resolution.team !== null) - Number(b.resolution.team !== null) ||
+      a.resolution.confidence - b.resolution.confidence
+    );
+  }, [overrides, kenpomTeams, oddsApiTeams, torvikTeams, kalshiTeams]);
+
+  const confirm = async (item: ReviewItem, kenpomName: string) => {
+    const key = `${item.source}:${item.name}`;
+    setSaving(key);
+    try {
+      const field = SOURCE_FIELD[item.source];
+      const response = await fetch('/api/ratings/overrides', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sourceName: item.name,
+          kenpomName,
+          ...(field ? { [field]: item.name } : {}),
+          source: 'review',
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Failed to save override');
+      await onResolved(`Override added: "${item.name}" → "${kenpomName}".`);
+    } catch (err) {
+      console.error('Failed to resolve match:', err);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (items.length === 0) return null;
+
+  const shown = expanded ? items : items.slice(0, 10);
+
+  return (
+    <div className="p-4 border-b border-gray-200 bg-amber-50">
+      <div className="flex justify-between items-center mb-2">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Needs review ({items.length})</h3>
+          <p className="text-xs text-gray-700">Names the resolver couldn&apos;t place with confidence. Pick the KenPom team to record an override.</p>
+        </div>
+        {items.length > 10 && (
+          <button onClick={() => setExpanded(e => !e)} className="text-xs text-blue-600 hover:underline">
+            {expanded ? 'Show fewer' : `Show all ${items.length}`}
+          </button>
+        )}
+      </div>
+      <table className="w-full text-sm">
+        <tbody className="divide-y divide-amber-100">
+          {shown.map((item) => {
+            const key = `${item.source}:${item.name}`;
+            const { resolution } = item;
+            return (
+              <tr key={key}>
+                <td className="py-1.5 pr-3 text-gray-900 whitespace-nowrap">
+                  {item.name}
+                  <span className="ml-2 text-xs text-gray-500">{SOURCE_LABEL[item.source]}</span>
+                </td>
+                <td className="py-1.5 pr-3 text-xs whitespace-nowrap">
+                  {resolution.ambiguous ? (
+                    <span className="text-red-600">Ambiguous</span>
+                  ) : resolution.team === null ? (
+                    <span className="text-gray-500">No match</span>
+                  ) : (
+                    <span className="text-amber-700">{Math.round(resolution.confidence * 100)}% · {resolution.method}</span>
+                  )}
+                </td>
+                <td className="py-1.5">
+                  <div className="flex flex-wrap gap-1">
+                    {resolution.candidates.map((c) => (
+                      <button
+                        key={c.team}
+                        disabled={saving === key}
+                        onClick={() => confirm(item, c.team)}
+                        className="px-2 py-0.5 rounded border border-gray-300 bg-white hover:bg-blue-50 text-xs text-gray-900 disabled:opacity-50"
+                        title={`${c.method}, ${Math.round(c.confidence * 100)}%`}
+                      >
+                        {c.team}
+                      </button>
+                    ))}
+                    {resolution.candidates.length === 0 && (
+                      <span className="text-xs text-gray-500">Add an override below</span>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 
 import React, { useMemo, useState, useRef } from 'react';
 import { useDebounce } from '../hooks/useDebounce';
+import { MatchReviewPanel } from './MatchReviewPanel';
 import type { TeamOverride } from '../types';
 
 interface OverridesTabProps {
@@ -274,6 +275,20 @@ export function OverridesTab({
         </button>
       </div>
 
+      {!overridesLoading && (
+        <MatchReviewPanel
+          overrides={overrides}
+          kenpomTeams={kenpomTeams}
+          oddsApiTeams={oddsApiTeams}
+          torvikTeams={torvikTeams}
+          onResolved={async (message) => {
+            setSuccessMessage(message);
+            setTimeout(() => setSuccessMessage(null), 10000);
+            await Promise.all([loadOverrides(), loadMatchingLogs(), loadRatings()]);
+          }}
+        />
+      )}
+
       {overridesLoading ? (
         <div className="p-8 text-center text-gray-900">Loading...</div>
       ) : overrides.length === 0 ? (
@@ -1,7 +1,7 @@
 // src/app/ratings/components/ScheduleTab.tsx
 'use client';
 
-import React, { useDeferredValue, useMemo, useState } from 'react';
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { TeamLogo } from './TeamLogo';
 import type { 
@@ -14,6 +14,8 @@ import type {
   SortDirection,
 } from '../types';
 import { parseTimeToMinutes } from '../utils/teamMatching';
+import { projectTotal, totalsBaseline } from '@/lib/ratings/totals';
+import { PERIODS, projectPeriod, type PeriodSplits } from '@/lib/ratings/periods';
 
 interface ScheduleTabProps {
   combinedScheduleGames: CombinedScheduleGame[];
@@ -57,6 +59,16 @@ export function ScheduleTab({
   const [showVOpenOnly, setShowVOpenOnly] = useState(false);
   const [teamSearch, setTeamSearch] = useState('');
   const deferredSearch = useDeferredValue(teamSearch);
+  const baseline = useMemo(() => (snapshot ? totalsBaseline(snapshot.ratings) : null), [snapshot]);
+  const [periodSplits, setPeriodSplits] = useState<PeriodSplits | null>(null);
+
+  // 1H / 1Q shares fit on stored KenPom box scores
+  useEffect(() => {
+    fetch('/api/ratings/periods?season=2026')
+      .then(r => r.json())
+      .then(data => { if (data.success) setPeriodSplits(data.splits); })
+      .catch(err => console.error('[Schedule] Failed to load period splits:', err));
+  }, []);
   
   // Find team rating using BT team names
   const findTeamRating = (btTeamName: string) => {
@@ -137,6 +149,16 @@ export function ScheduleTab({
         projectedSpread = -((homeRating.rating - awayRating.rating) + (game.isNeutralSite ? 0 : hca));
         projectedSpread = Math.round(projectedSpread * 100) / 100;
       }
+      const totalProjection = homeRating && awayRating && baseline
+        ? projectTotal(homeRating, awayRating, baseline)
+        : null;
+      const projectedTotal = totalProjection?.total ?? null;
+      const periodLines = periodSplits
+        ? PERIODS.map(period => ({
+            period,
+            ...projectPeriod(periodSplits, period, projectedSpread, projectedTotal, totalProjection?.possessions ?? null),
+          }))
+        : [];
       
       const delta = projectedSpread !== null && game.spread !== null
         ? Math.abs(projectedSpread - game.spread)
@@ -199,7 +221,7 @@ export function ScheduleTab({
         }
       }
       
-      return { ...game, projectedSpread, delta, awayMovement, homeMovement, hasValueCheck, hasBlueCheck, hasMismatchCheck };
+      return { ...game, projectedSpread, projectedTotal, periodLines, delta, awayMovement, homeMovement, hasValueCheck, hasBlueCheck, hasMismatchCheck };
     });
     
     // Sort
@@ -245,7 +267,7 @@ export function ScheduleTab({
     }
     
     return result;
-  }, [combinedScheduleGames, scheduleFilter, scheduleSortBy, scheduleSortDir, historyGames, snapshot, overrides, hca, showValueOnly, showVOpenOnly, deferredSearch]);
+  }, [combinedScheduleGames, scheduleFilter, scheduleSortBy, scheduleSortDir, historyGames, snapshot, overrides, hca, baseline, periodSplits, showValueOnly, showVOpenOnly, deferredSearch]);
 
   // Line movement highlighting helpers
   const getGreenHighlightClass = (movement: number): string => {
@@ -456,6 +478,7 @@ export function ScheduleTab({
                 >
                   v. Current {scheduleSortBy === 'delta' && (scheduleSortDir === 'desc' ? '↓' : '↑')}
                 </th>
+                <th className="px-2 sm:px-4 py-3 text-right text-xs font-semibold text-white uppercase whitespace-nowrap hidden sm:table-cell">Proj Tot</th>
                 <th className="px-2 sm:px-4 py-3 text-right text-xs font-semibold text-white uppercase whitespace-nowrap hidden sm:table-cell">Total</th>
               </tr>
             </thead>
@@ -537,7 +560,7 @@ export function ScheduleTab({
                   <React.Fragment key={game.id}>
                     {showDateHeader && (
                       <tr className="bg-blue-100">
-                        <td colSpan={10} className="px-4 py-2">
+                        <td colSpan={11} className="px-4 py-2">
                           <span className="font-semibold text-blue-800 text-sm">
                             {game.dateLabel}
                             {game.isToday && ' 📍'}
@@ -603,9 +626,16 @@ export function ScheduleTab({
                       </td>
                       <td className={`px-2 sm:px-4 py-3 text-center ${highlightProjClass}`}>
                         {projectedSpread !== null ? (
-                          <span className="font-mono text-xs sm:text-sm font-semibold text-gray-900">
-                            {projectedSpread > 0 ? '+' : ''}{projectedSpread.toFixed(1)}
-                          </span>
+                          <>
+                            <span className="font-mono text-xs sm:text-sm font-semibold text-gray-900">
+                              {projectedSpread > 0 ? '+' : ''}{projectedSpread.toFixed(1)}
+                            </span>
+                            {game.periodLines.length > 0 && (
+                              <div className="hidden sm:block font-mono text-[10px] text-gray-500 whitespace-nowrap" title="First-half / first-quarter projection">
+                                {game.periodLines.map(l => `${l.period} ${l.spread! > 0 ? '+' : ''}${l.spread!.toFixed(1)}`).join(' · ')}
+                              </div>
+                            )}
+                          </>
                         ) : (
                           <span className="text-gray-400">—</span>
                         )}
@@ -657,6 +687,20 @@ export function ScheduleTab({
                           <span className="text-gray-400">—</span>
                         )}
                       </td>
+                      <td className="px-2 sm:px-4 py-3 text-right hidden sm:table-cell">
+                        {game.projectedTotal !== null ? (
+                          <>
+                            <span className="font-mono text-xs sm:text-sm font-semibold text-gray-900">{game.projectedTotal.toFixed(1)}</span>
+                            {game.periodLines.length > 0 && (
+                              <div className="font-mono text-[10px] text-gray-500 whitespace-nowrap" title="First-half / first-quarter projection">
+                                {game.periodLines.map(l => `${l.period} ${l.total!.toFixed(1)}`).join(' · ')}
+                              </div>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
                       <td className="px-2 sm:px-4 py-3 text-right hidden sm:table-cell">
                         {game.total !== null ? (
                           <span className="font-mono text-xs sm:text-sm text-gray-900">{game.total}</span>
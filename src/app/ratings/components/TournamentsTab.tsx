@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import type { RatingsSnapshot } from '@/lib/ratings/types';
-import type { BracketTeam, BracketMatchup, BracketConfig } from '../types/tournament';
+import type { BracketTeam, BracketMatchup, BracketConfig, PoolEntryConfig } from '../types/tournament';
 import {
   BRACKET_TEMPLATES,
   getDefaultTemplate,
@@ -16,6 +16,7 @@ import {
   projectBracket,
   toggleMatchupWinner,
   resetProjections,
+  applyBracketPicks,
   calculateTournamentWinProbs,
   calculateRoundAdvanceProbs,
 } from '../utils/tournamentProjection';
@@ -24,6 +25,9 @@ import { TemplateSelector } from './tournament/TemplateSelector';
 import { SeedingPanel } from './tournament/SeedingPanel';
 import { BracketVisualization } from './tournament/BracketVisualization';
 import { SavedBracketsPanel } from './tournament/SavedBracketsPanel';
+import { FuturesValuePanel } from './tournament/FuturesValuePanel';
+import { ModelComparisonPanel } from './tournament/ModelComparisonPanel';
+import { PoolOptimizerPanel } from './tournament/PoolOptimizerPanel';
 
 interface TournamentsTabProps {
   snapshot: RatingsSnapshot | null;
@@ -147,6 +151,8 @@ export function TournamentsTab({ snapshot, hca, getTeamLogo }: TournamentsTabPro
   const [saving, setSaving] = useState(false);
   const [loadingBrackets, setLoadingBrackets] = useState(true);
   const [notes, setNotes] = useState<string>('');
+  const [futuresOdds, setFuturesOdds] = useState<Record<string, number>>({});
+  const [poolEntries, setPoolEntries] = useState<PoolEntryConfig[]>([]);
   const pendingSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const saveBracketRef = useRef<(() => Promise<void>) | undefined>(undefined);
 
@@ -213,6 +219,8 @@ export function TournamentsTab({ snapshot, hca, getTeamLogo }: TournamentsTabPro
       setTemplateId(config.templateId);
       setTeams(config.teams);
       setNotes(config.notes || '');
+      setFuturesOdds(config.futuresOdds || {});
+      setPoolEntries(config.poolEntries || []);
       // Re-project saved matchups (picks up rating changes and template settings like neutralFromRound)
       const template = BRACKET_TEMPLATES[config.templateId];
       if (template) {
@@ -222,6 +230,8 @@ export function TournamentsTab({ snapshot, hca, getTeamLogo }: TournamentsTabPro
       }
     } else {
       setNotes('');
+      setFuturesOdds({});
+      setPoolEntries([]);
     }
 
     // Fresh setup: get teams with correct seeds
@@ -324,6 +334,8 @@ export function TournamentsTab({ snapshot, hca, getTeamLogo }: TournamentsTabPro
         teams,
         matchups,
         notes,
+        futuresOdds,
+        poolEntries,
         updatedAt: new Date().toISOString(),
       };
 
@@ -365,7 +377,7 @@ export function TournamentsTab({ snapshot, hca, getTeamLogo }: TournamentsTabPro
     } finally {
       setSaving(false);
     }
-  }, [selectedConference, matchups, teams, templateId, notes]);
+  }, [selectedConference, matchups, teams, templateId, notes, futuresOdds, poolEntries]);
 
   // Keep ref in sync so we can flush the latest save on conference switch
   saveBracketRef.current = saveBracket;
@@ -378,7 +390,7 @@ export function TournamentsTab({ snapshot, hca, getTeamLogo }: TournamentsTabPro
     }, 1000);
     pendingSaveRef.current = timer;
     return () => { clearTimeout(timer); pendingSaveRef.current = null; };
-  }, [matchups, notes, saveBracket, selectedConference]);
+  }, [matchups, notes, futuresOdds, poolEntries, saveBracket, selectedConference]);
 
   // Delete bracket
   async function handleDeleteBracket(id: string) {
@@ -394,6 +406,8 @@ export function TournamentsTab({ snapshot, hca, getTeamLogo }: TournamentsTabPro
           setMatchups([]);
           setTeams([]);
           setNotes('');
+          setFuturesOdds({});
+          setPoolEntries([]);
         }
       }
     } catch (err) {
@@ -401,6 +415,22 @@ export function TournamentsTab({ snapshot, hca, getTeamLogo }: TournamentsTabPro
     }
   }
 
+  // Set or clear a hand-entered title price
+  function handleFuturesOddsChange(teamName: string, odds: number | null) {
+    setFuturesOdds(prev => {
+      if ((prev[teamName] ?? null) === odds) return prev;
+      const next = { ...prev };
+      if (odds === null) delete next[teamName];
+      else next[teamName] = odds;
+      return next;
+    });
+  }
+
+  // Load a pool entry's picks into the bracket
+  function handleApplyPicks(picks: Record<string, string>) {
+    setMatchups(applyBracketPicks(matchups, picks, hca, template?.neutralFromRound));
+  }
+
   // Load a saved bracket by conference
   function handleLoadBracket(conference: string) {
     handleConferenceSelect(conference);
@@ -441,6 +471,8 @@ export function TournamentsTab({ snapshot, hca, getTeamLogo }: TournamentsTabPro
       .filter((x): x is { label: string; probs: Map<string, number> } => x !== null);
   }, [selectedConference, template, teams, hca, matchups]);
 
+  const eligibleTeams = useMemo(() => teams.filter(t => !t.ineligible), [teams]);
+
   // Compute eliminated teams (lost a completed game)
   const eliminatedTeams = useMemo(() => {
     const eliminated = new Set<string>();
@@ -517,6 +549,7 @@ export function TournamentsTab({ snapshot, hca, getTeamLogo }: TournamentsTabPro
                   name: b.name,
                   conference: b.conference,
                   updatedAt: b.updatedAt,
+                  poolEntries: b.configJson?.poolEntries?.length,
                 }))}
               onLoad={handleLoadBracket}
               onDelete={handleDeleteBracket}
@@ -550,6 +583,37 @@ export function TournamentsTab({ snapshot, hca, getTeamLogo }: TournamentsTabPro
                 getTeamLogo={getTeamLogo}
                 regionNames={selectedConference === 'NCAA' ? NCAA_2026_REGION_NAMES : selectedConference === 'NIT' ? NIT_2026_REGION_NAMES : undefined}
               />
+              <FuturesValuePanel
+                bracket={selectedConference}
+                template={template}
+                teams={eligibleTeams}
+                hca={hca}
+                matchups={matchups}
+                getTeamLogo={getTeamLogo}
+                manualOdds={futuresOdds}
+                onManualOddsChange={handleFuturesOddsChange}
+              />
+              <PoolOptimizerPanel
+                template={template}
+                teams={eligibleTeams}
+                hca={hca}
+                matchups={matchups}
+                getTeamLogo={getTeamLogo}
+                savedEntries={poolEntries}
+                onSaveEntries={(entries) => setPoolEntries(prev => [...prev, ...entries])}
+                onDeleteEntry={(index) => setPoolEntries(prev => prev.filter((_, i) => i !== index))}
+                onApplyPicks={handleApplyPicks}
+              />
+              {selectedConference === 'NCAA' && (
+                <ModelComparisonPanel
+                  template={template}
+                  teams={eligibleTeams}
+                  hca={hca}
+                  matchups={matchups}
+                  getTeamLogo={getTeamLogo}
+                  regionNames={NCAA_2026_REGION_NAMES}
+                />
+              )}
             </div>
           ) : (
             <div className="flex items-center justify-center h-64 text-gray-400 text-sm">
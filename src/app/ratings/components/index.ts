@@ -7,3 +7,4 @@ export { HypotheticalsTab } from './HypotheticalsTab';
 export { OverridesTab } from './OverridesTab';
 export { MatchingLogsTab, BarttovikTab } from './AdminTabs';
 export { TournamentsTab } from './TournamentsTab';
+export { BacktestTab } from './BacktestTab';
@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { TeamLogo } from '../TeamLogo';
+import { calculateRoundAdvanceProbs } from '../../utils/tournamentProjection';
+import type { BracketMatchup, BracketTeam, BracketTemplate } from '../../types/tournament';
+import {
+  futuresValue,
+  marketRound,
+  tournamentMarkets,
+  type FuturesQuote,
+  type TournamentMarketKey,
+} from '@/lib/tournamentFutures';
+import { bankrollReport, suggestStake, type BankrollReport, type BankrollSettings } from '@/lib/bankroll';
+import { fetchBankroll } from '@/lib/bankrollService';
+import { fetchBets } from '@/lib/betService';
+
+interface MarketPrices {
+  key: TournamentMarketKey;
+  quotes: FuturesQuote[];
+  unmatched: string[];
+}
+
+interface FuturesValuePanelProps {
+  bracket: string;
+  template: BracketTemplate;
+  teams: BracketTeam[];             // eligible teams
+  hca: number;
+  matchups: BracketMatchup[];
+  getTeamLogo: (teamName: string) => string | null;
+  manualOdds: Record<string, number>;
+  onManualOddsChange: (teamName: string, odds: number | null) => void;
+}
+
+// Below this the model has a team drawing dead — hide it unless a book quotes it
+const MIN_MODEL_PROB = 0.001;
+
+function formatPct(prob: number | null, digits = 1): string {
+  if (prob === null) return '—';
+  return `${(prob * 100).toFixed(digits)}%`;
+}
+
+function formatOdds(odds: number): string {
+  return odds > 0 ? `+${odds}` : `${odds}`;
+}
+
+export function FuturesValuePanel({ bracket, template, teams, hca, matchups, getTeamLogo, manualOdds, onManualOddsChange }: FuturesValuePanelProps) {
+  const markets = tournamentMarkets(bracket);
+  const [marketKey, setMarketKey] = useState<TournamentMarketKey>('champion');
+  const [prices, setPrices] = useState<MarketPrices[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Market prices for this bracket (conference tournaments come back empty)
+  useEffect(() => {
+    setMarketKey('champion');
+    setPrices([]);
+    setLoading(true);
+    fetch(`/api/ratings/tournaments/futures?bracket=${encodeURIComponent(bracket)}&season=2026`)
+      .then(r => r.json())
+      .then(data => { if (data.success) setPrices(data.markets); })
+      .catch(err => console.error('[Tournaments] Failed to load futures:', err))
+      .finally(() => setLoading(false));
+  }, [bracket]);
+
+  // Current bankroll for the Kelly column (same curve the bets page sizes from)
+  const [bankroll, setBankroll] = useState<{ report: BankrollReport; settings: BankrollSettings } | null>(null);
+  useEffect(() => {
+    Promise.all([fetchBets(), fetchBankroll()])
+      .then(([bets, { ledger, settings }]) => setBankroll({ report: bankrollReport(bets, ledger, settings), settings }))
+      .catch(() => setBankroll(null));
+  }, []);
+
+  const market = markets.find(m => m.key === marketKey) ?? markets[0];
+  const marketPrices = prices.find(p => p.key === market.key);
+
+  const rows = useMemo(() => {
+    const round = marketRound(template.rounds, market.winners);
+    if (round === null || teams.length === 0) return [];
+    const modelProbs = calculateRoundAdvanceProbs(template, teams, hca, matchups).find(r => r.round === round)?.probs ?? new Map<string, number>();
+
+    // Hand-entered odds count as one more book on the title market
+    const quotes = [...(marketPrices?.quotes ?? [])];
+    if (market.key === 'champion') {
+      for (const [team, odds] of Object.entries(manualOdds)) quotes.push({ team, book: 'Manual', odds });
+    }
+
+    return futuresValue(modelProbs, quotes, market.winners)
+      .filter(r => r.best !== null || r.modelProb >= MIN_MODEL_PROB);
+  }, [template, teams, hca, matchups, market, marketPrices, manualOdds]);
+
+  const quoted = rows.filter(r => r.best !== null).length;
+  const showKelly = bankroll?.report.currency === 'dollars';
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg">
+      <div className="flex flex-wrap items-center gap-3 px-3 py-2 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+        <h3 className="text-sm font-semibold text-gray-900">Futures Value</h3>
+        {markets.length > 1 && (
+          <div className="flex gap-1">
+            {markets.map(m => (
+              <button
+                key={m.key}
+                onClick={() => setMarketKey(m.key)}
+                className={`px-2 py-0.5 text-xs rounded ${m.key === market.key ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-100'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        )}
+        <span className="text-xs text-gray-400">
+          {loading ? 'Loading prices...' : `${quoted} of ${rows.length} teams priced`}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto max-h-[500px] overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-white">
+            <tr className="text-gray-500 border-b border-gray-200">
+              <th className="text-left font-medium px-3 py-1.5">Team</th>
+              <th className="text-right font-medium px-2 py-1.5">Model</th>
+              <th className="text-right font-medium px-2 py-1.5">Market</th>
+              <th className="text-right font-medium px-2 py-1.5">Best</th>
+              <th className="text-right font-medium px-2 py-1.5">EV</th>
+              <th className="text-right font-medium px-2 py-1.5">
+                {showKelly ? `${bankroll!.settings.kellyMultiplier}× Kelly` : 'Kelly'}
+              </th>
+              {market.key === 'champion' && <th className="text-right font-medium px-3 py-1.5">Your Odds</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const stake = showKelly && row.best && row.kelly > 0
+                ? suggestStake(row.modelProb, row.best.odds, bankroll!.report.current, bankroll!.settings)
+                : null;
+              return (
+                <tr key={row.team} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="px-3 py-1">
+                    <div className="flex items-center gap-2">
+                      <TeamLogo teamName={row.team} logoUrl={getTeamLogo(row.team)} size="sm" />
+                      <span className="text-gray-900 truncate">{row.team}</span>
+                    </div>
+                  </td>
+                  <td className="text-right px-2 py-1 tabular-nums text-gray-900">{formatPct(row.modelProb)}</td>
+                  <td className="text-right px-2 py-1 tabular-nums text-gray-500" title={row.books ? `Median no-vig across ${row.books} book${row.books === 1 ? '' : 's'}` : undefined}>
+                    {formatPct(row.marketProb)}
+                  </td>
+                  <td className="text-right px-2 py-1 tabular-nums whitespace-nowrap">
+                    {row.best ? (
+                      <>
+                        {row.best.link ? (
+                          <a href={row.best.link} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-600 hover:underline">
+                            {formatOdds(row.best.odds)}
+                          </a>
+                        ) : (
+                          <span className="font-medium text-gray-900">{formatOdds(row.best.odds)}</span>
+                        )}
+                        <span className="text-gray-400 ml-1">{row.best.book}</span>
+                      </>
+                    ) : (
+                      <span className="text-gray-300">—</span>
+                    )}
+                  </td>
+                  <td className={`text-right px-2 py-1 tabular-nums font-medium ${row.ev === null ? 'text-gray-300' : row.ev > 0 ? 'text-green-600' : 'text-red-500'}`}>
+                    {row.ev === null ? '—' : `${row.ev > 0 ? '+' : ''}${(row.ev * 100).toFixed(1)}%`}
+                  </td>
+                  <td className="text-right px-2 py-1 tabular-nums text-gray-900 whitespace-nowrap">
+                    {stake
+                      ? <span title={stake.capped ? `Capped at ${bankroll!.settings.maxBetPct}% of bankroll` : undefined}>{stake.units}u (${stake.dollars.toFixed(0)})</span>
+                      : row.kelly > 0 ? formatPct(row.kelly) : <span className="text-gray-300">—</span>}
+                  </td>
+                  {market.key === 'champion' && (
+                    <td className="text-right px-3 py-1">
+                      <input
+                        key={`${row.team}-${manualOdds[row.team] ?? ''}`}
+                        defaultValue={manualOdds[row.team] !== undefined ? formatOdds(manualOdds[row.team]) : ''}
+                        onBlur={(e) => {
+                          const odds = parseInt(e.target.value.trim(), 10);
+                          onManualOddsChange(row.team, Number.isFinite(odds) && Math.abs(odds) >= 100 ? odds : null);
+                        }}
+                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                        placeholder="+500"
+                        className="w-16 text-right tabular-nums border border-gray-200 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-blue-400"
+                      />
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-3 py-2 text-[11px] text-gray-400 border-t border-gray-200">
+        Model is the bracket projection above (manual picks and completed games included). Market is each book&apos;s
+        board devigged to {market.winners === 1 ? 'one winner' : `${market.winners} winners`}, median across books; EV and
+        Kelly are at the best price.{showKelly ? '' : ' Kelly shows the full fraction of bankroll until a bankroll ledger is set up.'}
+        {marketPrices && marketPrices.unmatched.length > 0 && (
+          <span className="block mt-1" title={marketPrices.unmatched.join(', ')}>
+            {marketPrices.unmatched.length} market name{marketPrices.unmatched.length === 1 ? '' : 's'} didn&apos;t match a team — add them under Overrides.
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { TeamLogo } from '../TeamLogo';
+import { BracketVisualization } from './BracketVisualization';
+import {
+  projectBracket,
+  toggleMatchupWinner,
+  calculateRoundAdvanceProbs,
+} from '../../utils/tournamentProjection';
+import type { BracketMatchup, BracketTeam, BracketTemplate } from '../../types/tournament';
+
+interface FitScore {
+  games: number;
+  logLoss: number;
+  brier: number;
+  accuracy: number;
+}
+
+interface ModelResponse {
+  model: { features: { label: string; weight: number }[]; games: number; seasons: number[] };
+  validation: { model: FitScore; seed: FitScore };
+  ratings: { teamName: string; rating: number }[];
+  unmatched: string[];
+}
+
+interface ModelComparisonPanelProps {
+  template: BracketTemplate;
+  teams: BracketTeam[];             // eligible teams
+  hca: number;
+  matchups: BracketMatchup[];       // the market-ratings bracket
+  getTeamLogo: (teamName: string) => string | null;
+  regionNames?: string[];
+}
+
+// Milestones compared side by side (NCAA round numbers)
+const MILESTONES = [
+  { label: 'F4', round: 4 },
+  { label: 'Champ', round: 6 },
+];
+
+const pct = (p: number | undefined) => (p === undefined ? '—' : p < 0.005 ? '<1%' : `${Math.round(p * 100)}%`);
+
+export function ModelComparisonPanel({ template, teams, hca, matchups, getTeamLogo, regionNames }: ModelComparisonPanelProps) {
+  const [data, setData] = useState<ModelResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showBracket, setShowBracket] = useState(false);
+  const [modelPicks, setModelPicks] = useState<BracketMatchup[] | null>(null);
+
+  useEffect(() => {
+    fetch('/api/ratings/tournament-model?year=2026')
+      .then(r => r.json())
+      .then(json => {
+        if (json.success) setData(json);
+        else setError(json.error || 'Failed to fit tournament model');
+      })
+      .catch(err => {
+        console.error('[Tournaments] Failed to load tournament model:', err);
+        setError('Failed to load tournament model');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const modelRating = useMemo(() => new Map(data?.ratings.map(r => [r.teamName, r.rating]) ?? []), [data]);
+
+  // Same field, model ratings (teams the dataset doesn't have keep their market rating)
+  const modelTeams = useMemo(
+    () => teams.map(t => ({ ...t, rating: modelRating.get(t.teamName) ?? t.rating })),
+    [teams, modelRating],
+  );
+  const missing = teams.filter(t => !modelRating.has(t.teamName));
+
+  // The model's own bracket: completed games stand, everything else re-projected
+  const modelMatchups = useMemo(() => {
+    if (!data) return [];
+    const swap = (team: BracketTeam | null) => (team ? modelTeams.find(t => t.teamName === team.teamName) ?? team : null);
+    const seeded = matchups.map(m => ({
+      ...m,
+      topTeam: swap(m.topTeam),
+      bottomTeam: swap(m.bottomTeam),
+      winner: m.isCompleted ? m.winner : null,
+      isManualOverride: !!m.isCompleted,
+    }));
+    return projectBracket(seeded, hca, template.neutralFromRound);
+  }, [data, matchups, modelTeams, hca, template]);
+
+  // Manual picks on the model bracket reset whenever the inputs change
+  useEffect(() => { setModelPicks(null); }, [modelMatchups]);
+  const shownModelMatchups = modelPicks ?? modelMatchups;
+
+  const rows = useMemo(() => {
+    if (!data) return [];
+    const market = calculateRoundAdvanceProbs(template, teams, hca, matchups);
+    const model = calculateRoundAdvanceProbs(template, modelTeams, hca, modelMatchups);
+    const at = (probs: typeof market, round: number, team: string) => probs.find(r => r.round === round)?.probs.get(team);
+    return teams
+      .map(t => ({
+        team: t,
+        market: MILESTONES.map(m => at(market, m.round, t.teamName) ?? 0),
+        model: MILESTONES.map(m => at(model, m.round, t.teamName) ?? 0),
+      }))
+      .sort((a, b) => b.model[1] - a.model[1] || b.market[1] - a.market[1])
+      .slice(0, 24);
+  }, [data, template, teams, modelTeams, hca, matchups, modelMatchups]);
+
+  // Games the two brackets pick differently (same two teams on both sides)
+  const differences = useMemo(() => {
+    const winnerOf = (m: BracketMatchup) => (m.winner === 'top' ? m.topTeam : m.winner === 'bottom' ? m.bottomTeam : null);
+    const byId = new Map(modelMatchups.map(m => [m.id, m]));
+    return matchups.flatMap(m => {
+      const other = byId.get(m.id);
+      const [marketPick, modelPick] = [winnerOf(m), other && winnerOf(other)];
+      if (!other || !marketPick || !modelPick || marketPick.teamName === modelPick.teamName) return [];
+      const sameGame = [m.topTeam?.teamName, m.bottomTeam?.teamName].sort().join() === [other.topTeam?.teamName, other.bottomTeam?.teamName].sort().join();
+      if (!sameGame || other.winProbTop === null) return [];
+      const modelProb = other.winner === 'top' ? other.winProbTop : 1 - other.winProbTop;
+      const roundName = template.rounds.find(r => r.round === m.round)?.name ?? `Round ${m.round}`;
+      return [{ id: m.id, roundName, modelPick: modelPick.teamName, marketPick: marketPick.teamName, modelProb }];
+    });
+  }, [matchups, modelMatchups, template]);
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg">
+      <div className="flex flex-wrap items-center gap-3 px-3 py-2 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+        <h3 className="text-sm font-semibold text-gray-900">Torvik Tournament Model vs Market Ratings</h3>
+        {data && (
+          <button
+            onClick={() => setShowBracket(v => !v)}
+            className="px-2 py-0.5 text-xs rounded bg-white text-gray-600 border border-gray-200 hover:bg-gray-100"
+          >
+            {showBracket ? 'Hide model bracket' : 'Show model bracket'}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="px-3 py-4 text-xs text-gray-400">Fitting model...</div>
+      ) : error || !data ? (
+        <div className="px-3 py-4 text-xs text-gray-500">{error}</div>
+      ) : (
+        <div className="p-3 space-y-4">
+          <div className="text-xs text-gray-600 space-y-1">
+            <div>
+              Logistic regression on {data.model.games} tournament games, {data.model.seasons[0]}–{data.model.seasons[data.model.seasons.length - 1]}.
+              Leave-one-year-out: log loss <span className="font-medium text-gray-900 tabular-nums">{data.validation.model.logLoss.toFixed(3)}</span>{' '}
+              (seed alone {data.validation.seed.logLoss.toFixed(3)}), picks{' '}
+              <span className="font-medium text-gray-900 tabular-nums">{(data.validation.model.accuracy * 100).toFixed(1)}%</span>{' '}
+              ({(data.validation.seed.accuracy * 100).toFixed(1)}%).
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {data.model.features.map(f => (
+                <span key={f.label} className="px-1.5 py-0.5 rounded bg-gray-100 tabular-nums" title="Weight per standard deviation of difference">
+                  {f.label} {f.weight >= 0 ? '+' : ''}{f.weight.toFixed(2)}
+                </span>
+              ))}
+            </div>
+            {missing.length > 0 && (
+              <div className="text-amber-600">
+                Not in the dataset (kept their market rating): {missing.map(t => t.teamName).join(', ')}
+              </div>
+            )}
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 border-b border-gray-200">
+                <th className="text-left font-medium py-1">Team</th>
+                {MILESTONES.map(m => (
+                  <th key={m.label} colSpan={2} className="text-center font-medium py-1">{m.label}</th>
+                ))}
+              </tr>
+              <tr className="text-[10px] text-gray-400 border-b border-gray-200">
+                <th />
+                {MILESTONES.map(m => (
+                  <React.Fragment key={m.label}>
+                    <th className="text-right font-normal px-2">Market</th>
+                    <th className="text-right font-normal px-2">Model</th>
+                  </React.Fragment>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.team.teamName} className="border-b border-gray-100">
+                  <td className="py-1">
+                    <div className="flex items-center gap-2">
+                      <span className="w-5 text-right text-gray-400">{row.team.displaySeed ?? row.team.seed}</span>
+                      <TeamLogo teamName={row.team.teamName} logoUrl={getTeamLogo(row.team.teamName)} size="sm" />
+                      <span className="text-gray-900 truncate">{row.team.teamName}</span>
+                    </div>
+                  </td>
+                  {MILESTONES.map((m, i) => {
+                    const diff = row.model[i] - row.market[i];
+                    return (
+                      <React.Fragment key={m.label}>
+                        <td className="text-right px-2 tabular-nums text-gray-500">{pct(row.market[i])}</td>
+                        <td className={`text-right px-2 tabular-nums font-medium ${diff > 0.02 ? 'text-green-600' : diff < -0.02 ? 'text-red-500' : 'text-gray-900'}`}>
+                          {pct(row.model[i])}
+                        </td>
+                      </React.Fragment>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <div className="text-xs font-medium text-gray-500 mb-1">
+              Picks that differ ({differences.length})
+            </div>
+            {differences.length === 0 ? (
+              <div className="text-xs text-gray-400">The two brackets agree on every game they share.</div>
+            ) : (
+              <ul className="text-xs text-gray-700 space-y-0.5">
+                {differences.map(d => (
+                  <li key={d.id}>
+                    <span className="text-gray-400">{d.roundName}:</span> model takes{' '}
+                    <span className="font-medium text-gray-900">{d.modelPick}</span> ({pct(d.modelProb)}) over {d.marketPick}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {showBracket && (
+            <BracketVisualization
+              template={template}
+              matchups={shownModelMatchups}
+              onPickWinner={(id, side) => setModelPicks(toggleMatchupWinner(shownModelMatchups, id, side, hca, template.neutralFromRound))}
+              onToggleCompleted={() => {}}
+              getTeamLogo={getTeamLogo}
+              regionNames={regionNames}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
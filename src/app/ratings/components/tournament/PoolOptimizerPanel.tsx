@@ -0,0 +1,244 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { TeamLogo } from '../TeamLogo';
+import { spreadToWinProb } from '../../utils/tournamentProjection';
+import type { BracketMatchup, BracketTeam, BracketTemplate, PoolEntryConfig } from '../../types/tournament';
+import { projectSpread } from '@/lib/ratings/engine';
+import {
+  optimizePool,
+  poolScorings,
+  type PoolGame,
+  type PoolOptimization,
+  type PoolPicks,
+} from '@/lib/bracketPool';
+
+interface PoolOptimizerPanelProps {
+  template: BracketTemplate;
+  teams: BracketTeam[];             // eligible teams
+  hca: number;
+  matchups: BracketMatchup[];
+  getTeamLogo: (teamName: string) => string | null;
+  savedEntries: PoolEntryConfig[];
+  onSaveEntries: (entries: PoolEntryConfig[]) => void;
+  onDeleteEntry: (index: number) => void;
+  onApplyPicks: (picks: PoolPicks) => void;
+}
+
+const MAX_ENTRIES = 10;
+
+const formatPct = (p: number) => (p < 0.001 ? `${(p * 100).toFixed(2)}%` : `${(p * 100).toFixed(1)}%`);
+
+export function PoolOptimizerPanel({
+  template, teams, hca, matchups, getTeamLogo, savedEntries, onSaveEntries, onDeleteEntry, onApplyPicks,
+}: PoolOptimizerPanelProps) {
+  const maxRound = Math.max(...template.rounds.map(r => r.round));
+  const scorings = useMemo(() => poolScorings(maxRound), [maxRound]);
+  const [poolSize, setPoolSize] = useState(100);
+  const [entryCount, setEntryCount] = useState(1);
+  const [scoringKey, setScoringKey] = useState('standard');
+  const [chalk, setChalk] = useState(1.5);
+  const [result, setResult] = useState<PoolOptimization | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const scoring = scorings.find(s => s.key === scoringKey) ?? scorings[0];
+
+  // The bracket as the optimizer sees it: structure, seeded teams and final results only
+  const games = useMemo<PoolGame[]>(() => matchups.map(m => ({
+    id: m.id,
+    round: m.round,
+    sources: m.sourceMatchupIds,
+    teams: [
+      m.sourceMatchupIds[0] ? null : m.topTeam?.teamName ?? null,
+      m.sourceMatchupIds[1] ? null : m.bottomTeam?.teamName ?? null,
+    ],
+    result: m.isCompleted && m.winner ? (m.winner === 'top' ? m.topTeam : m.bottomTeam)?.teamName ?? null : null,
+  })), [matchups]);
+  const gamesKey = JSON.stringify(games);
+
+  const finalId = games[games.length - 1]?.id;
+  const finalGame = games[games.length - 1];
+
+  // Stale once the field, ratings or results change
+  useEffect(() => { setResult(null); }, [gamesKey, teams, hca]);
+
+  function handleOptimize() {
+    setRunning(true);
+    // Let the button repaint before the (synchronous) search
+    setTimeout(() => {
+      const rating = new Map(teams.map(t => [t.teamName, t.rating]));
+      const seeds = new Map(teams.map(t => [t.teamName, t.displaySeed ?? t.seed]));
+      const nfr = template.neutralFromRound;
+      const winProb = (top: string, bottom: string, game: PoolGame) => spreadToWinProb(
+        projectSpread(rating.get(top) ?? 0, rating.get(bottom) ?? 0, hca, nfr == null || game.round >= nfr),
+      );
+      setResult(optimizePool(games, winProb, seeds, { poolSize, entries: entryCount, scoring, chalk }));
+      setRunning(false);
+    }, 0);
+  }
+
+  function handleSave() {
+    if (!result) return;
+    const now = new Date().toISOString();
+    onSaveEntries(result.entries.map((e, i) => ({
+      name: `Entry ${savedEntries.length + i + 1}`,
+      picks: e.picks,
+      equity: e.equity,
+      poolSize,
+      scoring: scoring.key,
+      createdAt: now,
+    })));
+  }
+
+  const finalists = (picks: PoolPicks) =>
+    (finalGame?.sources ?? []).map(id => (id ? picks[id] : null)).filter((t): t is string => !!t);
+
+  const publicFavourites = result
+    ? [...result.publicChampion.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5)
+    : [];
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg">
+      <div className="flex flex-wrap items-center gap-3 px-3 py-2 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+        <h3 className="text-sm font-semibold text-gray-900">Pool Optimizer</h3>
+        <label className="flex items-center gap-1 text-xs text-gray-500">
+          Pool size
+          <input
+            type="number"
+            min={1}
+            value={poolSize}
+            onChange={(e) => setPoolSize(Math.max(1, parseInt(e.target.value, 10) || 1))}
+            className="w-20 text-right tabular-nums border border-gray-200 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+          />
+        </label>
+        <label className="flex items-center gap-1 text-xs text-gray-500">
+          Entries
+          <input
+            type="number"
+            min={1}
+            max={MAX_ENTRIES}
+            value={entryCount}
+            onChange={(e) => setEntryCount(Math.min(MAX_ENTRIES, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            className="w-12 text-right tabular-nums border border-gray-200 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+          />
+        </label>
+        <select
+          value={scoring.key}
+          onChange={(e) => setScoringKey(e.target.value)}
+          className="text-xs border border-gray-200 rounded px-1 py-0.5 bg-white text-gray-700"
+        >
+          {scorings.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-gray-500" title="How much harder than the model the public leans on favourites (1 = picks like the model)">
+          Public chalk
+          <input
+            type="range"
+            min={1}
+            max={3}
+            step={0.25}
+            value={chalk}
+            onChange={(e) => setChalk(parseFloat(e.target.value))}
+          />
+          <span className="tabular-nums w-7">{chalk.toFixed(2)}</span>
+        </label>
+        <button
+          onClick={handleOptimize}
+          disabled={running || teams.length === 0}
+          className="px-2 py-0.5 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {running ? 'Optimizing...' : 'Optimize'}
+        </button>
+      </div>
+
+      {result && (
+        <div className="p-3 space-y-3">
+          <div className="text-xs text-gray-600">
+            Chance {result.entries.length === 1 ? 'the entry' : `one of the ${result.entries.length} entries`} wins a {poolSize}-entry pool:{' '}
+            <span className="font-medium text-gray-900 tabular-nums">{formatPct(result.equity)}</span>
+            {' '}(chalk bracket {formatPct(result.chalk.equity)}, even share {formatPct(Math.min(1, result.entries.length / poolSize))}).
+            {publicFavourites.length > 0 && (
+              <span className="block mt-0.5 text-gray-400">
+                Public champion picks: {publicFavourites.map(([team, share]) => `${team} ${Math.round(share * 100)}%`).join(', ')}
+              </span>
+            )}
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 border-b border-gray-200">
+                <th className="text-left font-medium py-1">Entry</th>
+                <th className="text-left font-medium py-1">Champion</th>
+                <th className="text-left font-medium py-1">Final</th>
+                <th className="text-right font-medium px-2 py-1">Win %</th>
+                <th className="text-right font-medium px-2 py-1">Exp. Pts</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {[...result.entries.map((e, i) => ({ label: `${i + 1}`, entry: e })), { label: 'Chalk', entry: result.chalk }].map(({ label, entry }) => (
+                <tr key={label} className={`border-b border-gray-100 ${label === 'Chalk' ? 'text-gray-400' : ''}`}>
+                  <td className="py-1">{label}</td>
+                  <td className="py-1">
+                    {entry.champion && (
+                      <div className="flex items-center gap-2">
+                        <TeamLogo teamName={entry.champion} logoUrl={getTeamLogo(entry.champion)} size="sm" />
+                        <span className={label === 'Chalk' ? '' : 'text-gray-900'}>{entry.champion}</span>
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-1">{finalists(entry.picks).join(' v ')}</td>
+                  <td className="text-right px-2 tabular-nums">{formatPct(entry.equity)}</td>
+                  <td className="text-right px-2 tabular-nums">{entry.expectedScore.toFixed(1)}</td>
+                  <td className="text-right">
+                    <button onClick={() => onApplyPicks(entry.picks)} className="text-blue-600 hover:underline">
+                      Show
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <button
+            onClick={handleSave}
+            className="px-2 py-0.5 text-xs rounded bg-white text-gray-600 border border-gray-200 hover:bg-gray-100"
+          >
+            Save {result.entries.length === 1 ? 'entry' : `${result.entries.length} entries`}
+          </button>
+        </div>
+      )}
+
+      {savedEntries.length > 0 && (
+        <div className="px-3 py-2 border-t border-gray-200">
+          <div className="text-xs font-medium text-gray-500 mb-1">Saved Entries</div>
+          <div className="space-y-1">
+            {savedEntries.map((entry, i) => (
+              <div key={`${entry.name}-${entry.createdAt}`} className="flex items-center gap-3 text-xs">
+                <button onClick={() => onApplyPicks(entry.picks)} className="font-medium text-gray-900 hover:text-blue-600">
+                  {entry.name}
+                </button>
+                <span className="text-gray-600">{finalId ? entry.picks[finalId] : ''}</span>
+                <span className="text-gray-400 tabular-nums">
+                  {formatPct(entry.equity)} of {entry.poolSize} · {scorings.find(s => s.key === entry.scoring)?.label ?? entry.scoring}
+                </span>
+                <button
+                  onClick={() => onDeleteEntry(i)}
+                  className="ml-auto text-gray-300 hover:text-red-500 p-1"
+                  title="Delete entry"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="px-3 py-2 text-[11px] text-gray-400 border-t border-gray-200">
+        Equity is the chance of finishing first, from simulated tournaments on the bracket&apos;s ratings
+        (completed games included) against a field of public brackets that follow the same favourites, harder.
+        Show loads an entry into the bracket above as manual picks.
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ interface SavedBracket {
   name: string;
   conference: string;
   updatedAt: string;
+  poolEntries?: number;
 }
 
 interface SavedBracketsPanelProps {
@@ -45,6 +46,7 @@ export function SavedBracketsPanel({ brackets, onLoad, onDelete, activeConferenc
               <div className="font-medium text-gray-900">{bracket.name}</div>
               <div className="text-xs text-gray-400">
                 {new Date(bracket.updatedAt).toLocaleDateString()}
+                {bracket.poolEntries ? ` · ${bracket.poolEntries} pool entr${bracket.poolEntries === 1 ? 'y' : 'ies'}` : ''}
               </div>
             </button>
             <button
@@ -675,6 +675,8 @@ export function useRatingsData(): UseRatingsDataReturn {
             btSpread: number | null;
             spread: number | null;
             spreadBookmaker: string | null;
+            projectedTotal: number | null;
+            total: number | null;
             awayScore: number | null;
             homeScore: number | null;
             isNeutralSite: boolean;
@@ -688,6 +690,8 @@ export function useRatingsData(): UseRatingsDataReturn {
             btSpread: g.btSpread,
             closingSpread: g.spread,
             closingSource: g.spreadBookmaker,
+            projectedTotal: g.projectedTotal ?? null,
+            closingTotal: g.total ?? null,
             awayScore: g.awayScore ?? null,
             homeScore: g.homeScore ?? null,
             isNeutralSite: g.isNeutralSite ?? false,
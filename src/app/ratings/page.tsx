@@ -15,6 +15,7 @@ import {
   OverridesTab,
   BarttovikTab,
   TournamentsTab,
+  BacktestTab,
 } from './components';
 import SBROpenersTab from './components/SBROpenersTab';
 import type { TabType, ScheduleFilter, ScheduleSortField, SortDirection } from './types';
@@ -258,6 +259,7 @@ export default function RatingsPage() {
                 { key: 'matching' as const, label: 'Matching', show: showAdmin },
                 { key: 'overrides' as const, label: 'Overrides', show: showAdmin },
                 { key: 'barttorvik' as const, label: 'Barttorvik', show: showAdmin, purple: true },
+                { key: 'backtest' as const, label: 'Backtest', show: showAdmin },
               ].filter(t => t.show).map(tab => (
                 <button
                   key={tab.key}
@@ -380,6 +382,10 @@ export default function RatingsPage() {
             />
           )}
 
+          {showAdmin && activeTab === 'backtest' && (
+            <BacktestTab />
+          )}
+
           {/* Empty state */}
           {!data.snapshot && !data.loading && activeTab === 'ratings' && (
             <div className="p-8 text-center text-gray-900">
@@ -37,6 +37,7 @@ export interface TeamOverride {
   espnName?: string;
   oddsApiName?: string;
   torvikName?: string;
+  kalshiName?: string;
   source: string;
   notes?: string;
 }
@@ -154,13 +155,15 @@ export interface HistoryGame {
   closingSource: string | null;
   btSpread: number | null;
   difference: number | null;
+  projectedTotal: number | null;
+  closingTotal: number | null;
   homeScore: number | null;
   awayScore: number | null;
   isNeutralSite: boolean;
 }
 
 // Tab type
-export type TabType = 'ratings' | 'hypotheticals' | 'schedule' | 'history' | 'tournaments' | 'matching' | 'overrides' | 'barttorvik';
+export type TabType = 'ratings' | 'hypotheticals' | 'schedule' | 'history' | 'tournaments' | 'matching' | 'overrides' | 'barttorvik' | 'backtest';
 
 // Sort types
 export type RatingsSortField = 'rating' | 'name' | 'games' | 'change' | 'initial';
@@ -32,9 +32,20 @@ export interface BracketConfig {
   teams: BracketTeam[];
   matchups: BracketMatchup[];
   notes?: string;
+  futuresOdds?: Record<string, number>;  // hand-entered title odds by team (American)
+  poolEntries?: PoolEntryConfig[];       // brackets from the pool optimizer
   updatedAt: string;
 }
 
+export interface PoolEntryConfig {
+  name: string;                    // "Entry 1"
+  picks: Record<string, string>;   // team name by matchup id
+  equity: number;                  // chance of finishing first when optimized
+  poolSize: number;
+  scoring: string;                 // PoolScoring key
+  createdAt: string;
+}
+
 export interface TemplateMatchup {
   id: string;
   topSeed: number | null;     // filled by seed, or null if fed from prior round
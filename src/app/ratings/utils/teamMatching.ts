@@ -1,6 +1,8 @@
 // src/app/ratings/utils/teamMatching.ts
 // Shared team name normalization and matching utilities
 
+import { namesMatch } from '@/lib/teams';
+
 // Common mascots to strip from team names
 export const MASCOTS_AND_SUFFIXES = [
   'hoosiers', 'boilermakers', 'wildcats', 'commodores', 'crimson tide',
@@ -65,15 +67,11 @@ export function normalizeForFuzzyMatch(name: string): string {
 }
 
 /**
- * Check if two team names match using fuzzy logic
+ * Check if two team names match — the shared resolver's rules, so "Miami"
+ * no longer matches "Miami OH" on containment alone
  */
 export function teamsMatch(name1: string, name2: string): boolean {
-  const norm1 = normalizeForFuzzyMatch(name1);
-  const norm2 = normalizeForFuzzyMatch(name2);
-  
-  return norm1 === norm2 || 
-         norm1.includes(norm2) || 
-         norm2.includes(norm1);
+  return namesMatch(name1, name2);
 }
 
 /**
@@ -1,6 +1,7 @@
 // src/app/ratings/utils/tournamentProjection.ts
 
 import { projectSpread, formatSpread } from '@/lib/ratings/engine';
+import { WIN_PROB_LOGIT_PER_POINT } from '@/lib/ratings/constants';
 import type { BracketMatchup, BracketTeam, BracketTemplate } from '../types/tournament';
 
 // ============================================
@@ -19,7 +20,7 @@ export function spreadToWinProb(spread: number): number {
   // we pass it as topTeam spread. Negative = top is favored.
   // We want P(top wins), so negate: if spread is -7 (top favored by 7),
   // exponent = -0.17 * 7 = -1.19, P = 1/(1+exp(-1.19)) ≈ 0.77
-  return 1 / (1 + Math.exp(-0.17 * (-spread)));
+  return 1 / (1 + Math.exp(-WIN_PROB_LOGIT_PER_POINT * (-spread)));
 }
 
 /**
@@ -232,6 +233,37 @@ export function resetProjections(
   return projectBracket(cleared, hca, neutralFromRound);
 }
 
+/**
+ * Fill a bracket from picks (team name by matchup id) as manual overrides.
+ * Picks resolve to a side only once earlier rounds have fed the teams in, so
+ * this goes round by round. Completed games and unpicked games are left to
+ * the projection.
+ */
+export function applyBracketPicks(
+  matchups: BracketMatchup[],
+  picks: Record<string, string>,
+  hca: number,
+  neutralFromRound?: number,
+): BracketMatchup[] {
+  let result = matchups;
+  const rounds = [...new Set(matchups.map(m => m.round))].sort((a, b) => a - b);
+
+  for (const round of rounds) {
+    result = projectBracket(result, hca, neutralFromRound).map(m => {
+      if (m.round !== round || m.isCompleted) return m;
+      const pick = picks[m.id];
+      const side = pick && m.topTeam?.teamName === pick ? 'top'
+        : pick && m.bottomTeam?.teamName === pick ? 'bottom'
+        : null;
+      return side
+        ? { ...m, winner: side, isManualOverride: true }
+        : { ...m, winner: null, isManualOverride: false };
+    });
+  }
+
+  return projectBracket(result, hca, neutralFromRound);
+}
+
 // ============================================
 // Tournament Win Probabilities
 // ============================================
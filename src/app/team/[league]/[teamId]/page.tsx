@@ -3,16 +3,19 @@
 // src/app/team/[league]/[teamId]/page.tsx
 // Standardized football team page (NCAAF + NFL): identity header themed to
 // the team's colors, coach/stadium/conference facts, and the full-season
-// schedule with results and current betting lines. [teamId] accepts an ESPN
+// schedule with results and current betting lines. Completed games are scored
+// against their close (ATS, O/U, cover margin) with season splits, and our
+// tracked bets on the team are listed alongside. [teamId] accepts an ESPN
 // numeric id or any common team-name variant (resolved by /api/team-page), so
-// links can be built straight from Odds API team strings. Data is live ESPN —
-// nothing is stored. This is the template we iterate on.
+// links can be built straight from Odds API team strings. This is the
+// template we iterate on.
 
 import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { fetchOdds, fetchFutures, Game, FuturesMarket } from '@/lib/api';
 import { getTeamFEIData, FEITeamData } from '@/lib/feiData';
+import { TREND_SPLITS, formatRecord, type GameClose, type TeamBet, type TrendRecord, type TrendSplit } from '@/lib/teamTrends';
 
 // League slug → odds-board sport keys to scan for lines on upcoming games.
 const LEAGUE_ODDS_KEYS: Record<string, string[]> = {
@@ -33,6 +36,7 @@ interface TeamInfo {
   conference: string | null; conferenceShort: string | null;
   coach: string | null; coachSeasons: number | null;
   ats: { season: number; spreadRecord: string; ouRecord: string; games: number } | null;
+  trends: Record<TrendSplit, TrendRecord> | null;
   leaders: { category: string; athlete: string; position: string | null; value: string; season: number }[];
   injuries: { name: string; position: string | null; status: string }[];
   venue: TeamVenue;
@@ -40,14 +44,14 @@ interface TeamInfo {
 interface ScheduleGame {
   id: string; date: string; week: number | null;
   seasonType: 'preseason' | 'regular' | 'postseason';
-  home: boolean; neutral: boolean; venue: string | null; tv: string | null;
+  home: boolean; neutral: boolean; conference: boolean; venue: string | null; tv: string | null;
   opponent: { id: string; name: string; abbreviation: string | null; logo: string | null; rank: number | null };
   state: 'pre' | 'in' | 'post'; completed: boolean; result: 'W' | 'L' | 'T' | null;
   teamScore: string | null; oppScore: string | null; detail: string | null;
-  closing: { spread: number | null; atsRes: 'W' | 'L' | 'P' | null; total: number | null; ouRes: 'O' | 'U' | 'P' | null } | null;
+  closing: GameClose | null;
 }
 interface NewsItem { headline: string; url: string | null; published: string | null }
-interface TeamPayload { team: TeamInfo; season: number; schedule: ScheduleGame[]; news: NewsItem[] }
+interface TeamPayload { team: TeamInfo; season: number; schedule: ScheduleGame[]; bets: TeamBet[]; news: NewsItem[] }
 
 const normName = (s: string): string => s.toLowerCase().replace(/[^a-z0-9]/g, '');
 
@@ -119,6 +123,7 @@ const fmtMl = (n: number): string => {
   const r = Math.round(n);
   return r > 0 ? `+${r}` : `${r}`;
 };
+const fmtUnits = (n: number): string => `${n > 0 ? '+' : ''}${n.toFixed(2)}u`;
 
 // Best (highest-payout) futures price across books for one team entry.
 function bestFuturesPrice(markets: FuturesMarket[], teamName: string): { odds: number; book: string } | null {
@@ -260,7 +265,12 @@ export default function TeamPage() {
     );
   }
 
-  const { team, season, schedule } = data;
+  const { team, season, schedule, bets } = data;
+  const betsByGameId = new Map<string, TeamBet[]>();
+  for (const b of bets) {
+    if (b.gameId) betsByGameId.set(b.gameId, [...(betsByGameId.get(b.gameId) ?? []), b]);
+  }
+  const betsNet = bets.reduce((sum, b) => sum + (b.profit ?? 0), 0);
   const groupLabel = league === 'nfl' ? 'Division' : 'Conference';
   const postLabel = league === 'nfl' ? 'Post' : 'Bowl';
   const facts: [string, string][] = [];
@@ -395,6 +405,79 @@ export default function TeamPage() {
           </div>
         )}
 
+        {/* ATS / O-U splits */}
+        {team.trends && team.ats && (
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">
+              Betting Trends ({team.ats.season})
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm tabular-nums">
+                <thead>
+                  <tr className="text-[10px] font-semibold uppercase tracking-wide text-slate-400">
+                    <th className="text-left font-semibold py-1"></th>
+                    <th className="text-right font-semibold py-1">ATS</th>
+                    <th className="text-right font-semibold py-1">Avg Cover</th>
+                    <th className="text-right font-semibold py-1">O/U</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {TREND_SPLITS.map(({ key, label }) => {
+                    const r = team.trends![key];
+                    if (r.ats.w + r.ats.l + r.ats.p + r.ou.o + r.ou.u + r.ou.p === 0) return null;
+                    return (
+                      <tr key={key}>
+                        <td className="py-1.5 text-slate-600">
+                          {key === 'conference' ? groupLabel : key === 'nonConference' ? `Non-${groupLabel.toLowerCase()}` : label}
+                        </td>
+                        <td className="py-1.5 text-right font-medium">{formatRecord(r.ats.w, r.ats.l, r.ats.p)}</td>
+                        <td className={`py-1.5 text-right ${r.avgCover === null ? 'text-slate-300' : r.avgCover > 0 ? 'text-emerald-600' : r.avgCover < 0 ? 'text-red-500' : 'text-slate-500'}`}>
+                          {r.avgCover === null ? '—' : fmtSpread(r.avgCover)}
+                        </td>
+                        <td className="py-1.5 text-right font-medium">{formatRecord(r.ou.o, r.ou.u, r.ou.p)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Our tracked bets on this team */}
+        {bets.length > 0 && (
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Our Bets ({bets.length})</div>
+              <span className={`text-xs font-semibold tabular-nums ${betsNet > 0 ? 'text-emerald-600' : betsNet < 0 ? 'text-red-500' : 'text-slate-500'}`}>
+                {fmtUnits(betsNet)}
+              </span>
+            </div>
+            <div className="divide-y divide-slate-100">
+              {bets.map((b) => (
+                <div key={b.id} className="flex items-center justify-between gap-3 py-1.5">
+                  <div className="min-w-0 flex items-baseline gap-2">
+                    <span className="shrink-0 text-[10px] text-slate-400 tabular-nums">
+                      {new Date(`${b.eventDate}T12:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                    </span>
+                    <span className="text-sm font-medium truncate">{b.bet}</span>
+                    <span className="shrink-0 text-xs text-slate-500 tabular-nums">
+                      {fmtMl(b.odds)} · {b.stake}u{b.book && ` · ${b.book}`}
+                    </span>
+                  </div>
+                  <span className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] font-semibold tabular-nums ${
+                    b.status === 'won' ? 'bg-emerald-100 text-emerald-700'
+                      : b.status === 'lost' ? 'bg-red-100 text-red-700'
+                      : 'bg-slate-100 text-slate-600'
+                  }`}>
+                    {b.profit === null ? b.status : fmtUnits(b.profit)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Team leaders + news */}
         {(team.leaders.length > 0 || data.news.length > 0) && (
           <div className="grid sm:grid-cols-2 gap-4">
@@ -544,6 +627,7 @@ export default function TeamPage() {
                 const g = row.g;
                 const d = new Date(g.date);
                 const lines = linesByGameId.get(g.id);
+                const gameBets = betsByGameId.get(g.id) ?? [];
                 return (
                   <div key={g.id} className="flex items-center gap-3 py-2.5">
                     <div className="w-10 shrink-0 text-center">
@@ -575,6 +659,14 @@ export default function TeamPage() {
                         {g.neutral && <span className="ml-1 text-[10px] text-slate-400">(neutral)</span>}
                       </span>
                     </Link>
+                    {gameBets.length > 0 && (
+                      <span
+                        title={gameBets.map((b) => `${b.bet} (${b.profit === null ? b.status : fmtUnits(b.profit)})`).join('\n')}
+                        className="shrink-0 px-1.5 py-0.5 rounded bg-blue-50 text-[10px] font-semibold text-[#0052ff]"
+                      >
+                        {gameBets.length > 1 ? `${gameBets.length} bets` : 'Bet'}
+                      </span>
+                    )}
                     <div className="shrink-0 text-right">
                       {g.completed && g.result ? (
                         <div>
@@ -586,6 +678,7 @@ export default function TeamPage() {
                               {g.closing.spread !== null && g.closing.atsRes && (
                                 <span className={g.closing.atsRes === 'W' ? 'text-emerald-600' : g.closing.atsRes === 'L' ? 'text-red-500' : ''}>
                                   {fmtSpread(g.closing.spread)} {g.closing.atsRes === 'W' ? '✓' : g.closing.atsRes === 'L' ? '✗' : '='}
+                                  {g.closing.coverMargin !== null && g.closing.coverMargin !== 0 && ` (${fmtSpread(g.closing.coverMargin)})`}
                                 </span>
                               )}
                               {g.closing.spread !== null && g.closing.atsRes && g.closing.total !== null && g.closing.ouRes && ' · '}
@@ -622,7 +715,8 @@ export default function TeamPage() {
 
         <div className="text-[11px] text-slate-400 pb-6">
           Live from ESPN · lines are the median book spread/total from the current odds board ·
-          per-game ✓/✗ = against the closing spread · times local.
+          per-game ✓/✗ = against the closing spread (our recorded consensus close, ESPN&apos;s line
+          when we have none), cover margin in brackets · times local.
         </div>
       </div>
     </div>
@@ -0,0 +1,158 @@
+'use client';
+
+// src/components/ArbScanner.tsx
+// Arbs & middles view for the current league's board: every cross-book
+// opportunity among the books picked in BookmakerSelector, with stake splits
+// sized so each winning leg returns the target payout.
+
+import { useMemo, useState } from 'react';
+import type { Game } from '@/lib/api';
+import { findArbs, findMiddles, stakeSplit, type ArbLeg, type ArbMarket } from '@/lib/arbs';
+import { fillLinkTemplate, promptForState, resolveDeepLink } from '@/lib/betLinks';
+
+interface ArbScannerProps {
+  games: Game[];
+  selectedBookmakers: string[];
+}
+
+const MARKET_LABEL: Record<ArbMarket, string> = { h2h: 'Moneyline', spreads: 'Spread', totals: 'Total' };
+
+const fmtOdds = (o: number) => (o > 0 ? `+${o}` : `${o}`);
+const fmtPoint = (p: number) => (p > 0 ? `+${p}` : `${p}`);
+const fmtMoney = (v: number) => `${v < 0 ? '-' : ''}$${Math.abs(v).toFixed(2)}`;
+
+function legLabel(leg: ArbLeg, market: ArbMarket): string {
+  if (market === 'totals') return `${leg.name} ${leg.point}`;
+  if (market === 'spreads' && leg.point !== null) return `${leg.name} ${fmtPoint(leg.point)}`;
+  return `${leg.name} ML`;
+}
+
+const fmtTime = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Same templated deep-link handling as the odds table (BetMGM/BetRivers need a state)
+function openLink(link: string) {
+  let resolved = resolveDeepLink(link);
+  if (!resolved) {
+    const state = promptForState();
+    if (!state) return;
+    resolved = fillLinkTemplate(link, state);
+  }
+  window.open(resolved, '_blank');
+}
+
+function LegRows({ legs, market, stakes }: { legs: ArbLeg[]; market: ArbMarket; stakes: number[] }) {
+  return (
+    <div className="divide-y divide-gray-100">
+      {legs.map((leg, i) => (
+        <div key={`${leg.book}-${leg.name}`} className="flex items-center justify-between gap-3 py-1.5 text-sm">
+          <div className="min-w-0">
+            <span className="font-medium text-gray-900">{legLabel(leg, market)}</span>
+            <span className="ml-2 text-xs text-gray-500">{leg.book}</span>
+          </div>
+          <div className="flex items-center gap-3 tabular-nums">
+            {leg.link ? (
+              <button onClick={() => openLink(leg.link!)} className="font-semibold text-blue-600 hover:underline">
+                {fmtOdds(leg.price)}
+              </button>
+            ) : (
+              <span className="font-semibold text-gray-800">{fmtOdds(leg.price)}</span>
+            )}
+            <span className="w-20 text-right text-gray-700">{fmtMoney(stakes[i])}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ArbScanner({ games, selectedBookmakers }: ArbScannerProps) {
+  const [mode, setMode] = useState<'arbs' | 'middles'>('arbs');
+  const [targetPayout, setTargetPayout] = useState(100);
+
+  const arbs = useMemo(() => findArbs(games, selectedBookmakers), [games, selectedBookmakers]);
+  const middles = useMemo(() => findMiddles(games, selectedBookmakers), [games, selectedBookmakers]);
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-white rounded-lg shadow p-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="inline-flex rounded-md shadow-sm">
+          {(['arbs', 'middles'] as const).map((m, i) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={`px-3 py-1.5 text-sm font-medium border border-gray-200 ${i === 0 ? 'rounded-l-lg' : 'rounded-r-lg border-l-0'} ${
+                mode === m ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {m === 'arbs' ? `Arbs (${arbs.length})` : `Middles (${middles.length})`}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Target payout
+          <input
+            type="number"
+            min={1}
+            value={targetPayout}
+            onChange={(e) => setTargetPayout(Math.max(1, parseFloat(e.target.value) || 100))}
+            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right"
+          />
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500 text-center">
+        Pregame only, across {selectedBookmakers.length} selected book{selectedBookmakers.length !== 1 ? 's' : ''}. Kalshi prices include its trading fee.
+      </p>
+
+      {mode === 'arbs' ? (
+        arbs.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">No arbitrages on the board right now.</div>
+        ) : (
+          arbs.map((arb) => {
+            const split = stakeSplit(arb.legs.map((l) => l.price), targetPayout);
+            return (
+              <div key={`${arb.game.id}-${arb.market}-${arb.legs.map((l) => l.point).join('/')}`} className="bg-white rounded-lg shadow p-3">
+                <div className="flex items-baseline justify-between gap-2 mb-1">
+                  <div className="text-sm font-semibold text-gray-900">
+                    {arb.game.away_team} @ {arb.game.home_team}
+                    <span className="ml-2 text-xs font-normal text-gray-500">{MARKET_LABEL[arb.market]} · {fmtTime(arb.game.commence_time)}</span>
+                  </div>
+                  <span className="text-sm font-bold text-green-600">+{(arb.margin * 100).toFixed(2)}%</span>
+                </div>
+                <LegRows legs={arb.legs} market={arb.market} stakes={split.stakes} />
+                <div className="mt-1 pt-1.5 border-t border-gray-100 flex justify-between text-xs text-gray-600 tabular-nums">
+                  <span>Stake {fmtMoney(split.totalStake)} → returns {fmtMoney(split.payout)}</span>
+                  <span className="font-medium text-green-600">Profit {fmtMoney(split.profit)}</span>
+                </div>
+              </div>
+            );
+          })
+        )
+      ) : middles.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">No middles on the board right now.</div>
+      ) : (
+        middles.map((mid) => {
+          const split = stakeSplit(mid.legs.map((l) => l.price), targetPayout);
+          return (
+            <div key={`${mid.game.id}-${mid.market}-${mid.legs.map((l) => `${l.book}${l.point}`).join('/')}`} className="bg-white rounded-lg shadow p-3">
+              <div className="flex items-baseline justify-between gap-2 mb-1">
+                <div className="text-sm font-semibold text-gray-900">
+                  {mid.game.away_team} @ {mid.game.home_team}
+                  <span className="ml-2 text-xs font-normal text-gray-500">{MARKET_LABEL[mid.market]} · {fmtTime(mid.game.commence_time)}</span>
+                </div>
+                <span className="text-sm font-bold text-blue-600">{mid.width} pt window</span>
+              </div>
+              <LegRows legs={mid.legs} market={mid.market} stakes={split.stakes} />
+              <div className="mt-1 pt-1.5 border-t border-gray-100 flex justify-between text-xs text-gray-600 tabular-nums">
+                <span>Stake {fmtMoney(split.totalStake)} · miss {split.profit >= 0 ? '+' : ''}{fmtMoney(split.profit)}</span>
+                <span className="font-medium text-green-600">Hit +{fmtMoney(2 * split.payout - split.totalStake)}</span>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
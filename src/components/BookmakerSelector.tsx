@@ -4,10 +4,13 @@
 import { useState, useEffect, useRef } from 'react';
 import { BOOKMAKERS } from '@/lib/api';
 import { BET_LINK_STATES, getBetState, setBetState } from '@/lib/betLinks';
+import { FAIR_SOURCES, type FairSource } from '@/lib/fairPrice';
 
 interface BookmakerSelectorProps {
   selectedBookmakers: string[];
   onSelectionChange: (bookmakers: string[]) => void;
+  fairSource?: FairSource;
+  onFairSourceChange?: (source: FairSource) => void;
 }
 
 // Bookmaker logos mapping
@@ -23,7 +26,9 @@ const bookmakerLogos: { [key: string]: string } = {
 
 export default function BookmakerSelector({ 
   selectedBookmakers, 
-  onSelectionChange 
+  onSelectionChange,
+  fairSource,
+  onFairSourceChange
 }: BookmakerSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -170,6 +175,26 @@ export default function BookmakerSelector({
             </select>
           </div>
 
+          {/* Sharp reference for no-vig fair prices / EV% on the odds table */}
+          {fairSource && onFairSourceChange && (
+            <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 flex items-center justify-between gap-2">
+              <div>
+                <span className="text-sm font-medium text-gray-900">Fair price</span>
+                <p className="text-[10px] text-gray-500">Reference for EV%</p>
+              </div>
+              <select
+                value={fairSource}
+                onChange={(e) => onFairSourceChange(e.target.value as FairSource)}
+                className="w-28 text-sm border border-gray-300 rounded-lg px-2 py-1.5 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Fair price reference"
+              >
+                {FAIR_SOURCES.map(f => (
+                  <option key={f.id} value={f.id}>{f.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Footer hint */}
           <div className="px-4 py-2 bg-gray-50 border-t border-gray-200">
             <p className="text-xs text-gray-500 text-center">
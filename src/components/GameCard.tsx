@@ -7,6 +7,8 @@ import { GameRestData } from '@/lib/nhlRest';
 import { Bet } from '@/lib/betService';
 import { usePendingBetsForGame, useTeamColorMap, wageredTeamColor, MyBetBadge } from '@/lib/myGameBets';
 import { NeutralGame, fetchNeutralGames, findNeutralGame, venueLocation } from '@/lib/neutralSites';
+import type { FairSource } from '@/lib/fairPrice';
+import { CONSENSUS_SYSTEMS, fetchConsensus, type ConsensusGame } from '@/lib/consensus';
 
 interface GameCardProps {
   game: Game;
@@ -16,9 +18,10 @@ interface GameCardProps {
   liveScore?: ESPNGameScore | null;
   highlightedGameId?: string | null;
   restData?: GameRestData | null;
+  fairSource?: FairSource;
 }
 
-export default function GameCard({ game, selectedBookmakers, isFavorite = false, onToggleFavorite, liveScore, highlightedGameId, restData }: GameCardProps) {
+export default function GameCard({ game, selectedBookmakers, isFavorite = false, onToggleFavorite, liveScore, highlightedGameId, restData, fairSource }: GameCardProps) {
   // Check if this is a soccer sport
   const isSoccer = game.sport_key === 'soccer_epl' || game.sport_key === 'soccer_usa_mls';
   
@@ -99,6 +102,18 @@ export default function GameCard({ game, selectedBookmakers, isFavorite = false,
     return () => { alive = false; };
   }, [isNCAAF, game.away_team, game.home_team, game.commence_time]);
 
+  // Consensus model line (same module-side memo: one request per league)
+  const [consensus, setConsensus] = useState<ConsensusGame | null>(null);
+  const hasConsensus = !!CONSENSUS_SYSTEMS[game.sport_key];
+  useEffect(() => {
+    if (!hasConsensus) return;
+    let alive = true;
+    fetchConsensus(game.sport_key).then((games) => {
+      if (alive) setConsensus(games.find((g) => g.gameId === game.id) ?? null);
+    });
+    return () => { alive = false; };
+  }, [hasConsensus, game.sport_key, game.id]);
+
   const favoriteShareButtons = (
     <>
       {onToggleFavorite && (
@@ -125,6 +140,18 @@ export default function GameCard({ game, selectedBookmakers, isFavorite = false,
           <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
         </svg>
       </button>
+      {/* Open-to-close line movement (odds_snapshots history) */}
+      <a
+        href={`/game/${game.id}?league=${game.sport_key}&view=lines`}
+        onClick={(e) => e.stopPropagation()}
+        className="ml-1 text-gray-400 hover:text-blue-500 hover:scale-110 transition-all"
+        aria-label="Line movement"
+        title="Line movement"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M3 17l6-6 4 4 8-8m0 0h-5m5 0v5" />
+        </svg>
+      </a>
     </>
   );
 
@@ -310,6 +337,23 @@ export default function GameCard({ game, selectedBookmakers, isFavorite = false,
                 </button>
               )}
 
+              {/* Consensus model line; green when the market sits outside its band */}
+              {consensus && !isLive && !isCompleted && (
+                <span
+                  className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                    consensus.edge?.outsideBand ? 'bg-emerald-100 text-emerald-800' : 'bg-gray-100 text-gray-600'
+                  }`}
+                  title={`Consensus ${consensus.line.homeSpread > 0 ? '+' : ''}${consensus.line.homeSpread} ± ${consensus.line.band} (${consensus.line.systems.map((s) => `${s.label} ${Math.round(s.weight * 100)}%`).join(', ')})`}
+                >
+                  Model {getFirstWord(game.home_team)} {consensus.line.homeSpread > 0 ? '+' : ''}{consensus.line.homeSpread}
+                  {consensus.edge?.side && (
+                    <span className="ml-1">
+                      · {consensus.edge.edge} {getFirstWord(consensus.edge.side === 'home' ? game.home_team : game.away_team)}
+                    </span>
+                  )}
+                </span>
+              )}
+
               {/* My pending wager badge(s) — strong team-color border + light fill.
                   order-last on mobile keeps the implied score glued to the date/time
                   (stable position) and lets the badge wrap to its own line alone. */}
@@ -534,6 +578,7 @@ export default function GameCard({ game, selectedBookmakers, isFavorite = false,
           awayLogo={liveScore?.awayLogo}
           homeLogo={liveScore?.homeLogo}
           restData={restData}
+          fairSource={fairSource}
         />
       )}
     </div>
@@ -0,0 +1,193 @@
+'use client';
+
+// src/components/LineMovementChart.tsx
+// Open-to-close line movement for one game: a step line per book for the
+// home spread and the total, drawn from odds_snapshots history. Hover a
+// panel to read every book's number at that moment.
+
+import { useMemo, useState } from 'react';
+import type { BookLineSeries, LineMovement } from '@/lib/oddsSnapshots';
+
+const BOOK_STYLE: Record<string, { label: string; color: string }> = {
+  draftkings: { label: 'DraftKings', color: '#53d337' },
+  fanduel: { label: 'FanDuel', color: '#1493ff' },
+  betmgm: { label: 'BetMGM', color: '#bfa36a' },
+  betrivers: { label: 'BetRivers', color: '#1b365d' },
+  williamhill_us: { label: 'Caesars', color: '#8c6d2c' },
+  betonlineag: { label: 'BetOnline.ag', color: '#e11d48' },
+  bovada: { label: 'Bovada', color: '#d4001a' },
+  lowvig: { label: 'LowVig', color: '#7c3aed' },
+  mybookieag: { label: 'MyBookie', color: '#f97316' },
+  betus: { label: 'BetUS', color: '#0891b2' },
+};
+const FALLBACK_COLORS = ['#64748b', '#0f766e', '#a21caf', '#ca8a04', '#be123c'];
+
+const bookStyle = (key: string, i: number) =>
+  BOOK_STYLE[key] ?? { label: key, color: FALLBACK_COLORS[i % FALLBACK_COLORS.length] };
+
+const fmtPoint = (p: number, signed: boolean) =>
+  signed ? (p === 0 ? 'PK' : p > 0 ? `+${p}` : `${p}`) : `${p}`;
+
+const fmtTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Value of a step series at time t (last point at or before t)
+function valueAt(series: BookLineSeries, t: number): number | null {
+  let v: number | null = null;
+  for (const p of series.points) {
+    if (new Date(p.at).getTime() > t) break;
+    v = p.point;
+  }
+  return v;
+}
+
+interface PanelProps {
+  title: string;
+  series: BookLineSeries[];
+  signed: boolean;
+  start: number;
+  end: number;
+  firstMover: string | null;
+}
+
+const W = 640;
+const H = 220;
+const M = { top: 12, right: 12, bottom: 24, left: 40 };
+
+function MovementPanel({ title, series, signed, start, end, firstMover }: PanelProps) {
+  const [hoverT, setHoverT] = useState<number | null>(null);
+
+  const model = useMemo(() => {
+    const values = series.flatMap((s) => s.points.map((p) => p.point));
+    if (!values.length || !(end > start)) return null;
+    const lo = Math.min(...values) - 0.5;
+    const hi = Math.max(...values) + 0.5;
+    const x = (t: number) => M.left + ((t - start) / (end - start)) * (W - M.left - M.right);
+    const y = (v: number) => M.top + ((hi - v) / (hi - lo)) * (H - M.top - M.bottom);
+
+    const paths = series.map((s) => {
+      let d = '';
+      s.points.forEach((p, i) => {
+        const px = x(new Date(p.at).getTime()).toFixed(1);
+        const py = y(p.point).toFixed(1);
+        d += i === 0 ? `M${px},${py}` : `H${px}V${py}`;
+      });
+      d += `H${x(end).toFixed(1)}`;
+      return d;
+    });
+
+    // Half-point gridlines, thinned to ~6 labels
+    const step = Math.max(0.5, Math.ceil((hi - lo) / 6 / 0.5) * 0.5);
+    const ticks: number[] = [];
+    for (let v = Math.ceil(lo / step) * step; v <= hi; v += step) ticks.push(v);
+
+    return { x, y, paths, ticks };
+  }, [series, start, end]);
+
+  if (!model) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-4 text-sm text-gray-500">
+        {title}: no history recorded yet.
+      </div>
+    );
+  }
+
+  const onMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * W;
+    const frac = (px - M.left) / (W - M.left - M.right);
+    setHoverT(frac < 0 || frac > 1 ? null : start + frac * (end - start));
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-3">
+      <div className="flex items-baseline justify-between mb-1">
+        <h2 className="text-sm font-semibold text-gray-900">{title}</h2>
+        {firstMover && (
+          <span className="text-xs text-gray-500">
+            First to move: <span className="font-medium text-gray-800">{bookStyle(firstMover, 0).label}</span>
+          </span>
+        )}
+      </div>
+      <svg
+        viewBox={`0 0 ${W} ${H}`}
+        className="w-full h-auto"
+        onMouseMove={onMove}
+        onMouseLeave={() => setHoverT(null)}
+      >
+        {model.ticks.map((v) => (
+          <g key={v}>
+            <line x1={M.left} x2={W - M.right} y1={model.y(v)} y2={model.y(v)} stroke="#e2e8f0" />
+            <text x={M.left - 6} y={model.y(v) + 3} textAnchor="end" fontSize="10" fill="#94a3b8">
+              {fmtPoint(v, signed)}
+            </text>
+          </g>
+        ))}
+        <text x={M.left} y={H - 6} fontSize="10" fill="#94a3b8">{fmtTime(new Date(start).toISOString())}</text>
+        <text x={W - M.right} y={H - 6} textAnchor="end" fontSize="10" fill="#94a3b8">
+          {fmtTime(new Date(end).toISOString())}
+        </text>
+        {model.paths.map((d, i) => (
+          <path key={series[i].bookmaker} d={d} fill="none" stroke={bookStyle(series[i].bookmaker, i).color} strokeWidth={2} />
+        ))}
+        {hoverT !== null && (
+          <line x1={model.x(hoverT)} x2={model.x(hoverT)} y1={M.top} y2={H - M.bottom} stroke="#334155" strokeDasharray="3 3" />
+        )}
+      </svg>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-xs">
+        {series.map((s, i) => {
+          const style = bookStyle(s.bookmaker, i);
+          const open = s.points[0].point;
+          const close = s.points[s.points.length - 1].point;
+          const now = hoverT !== null ? valueAt(s, hoverT) : null;
+          return (
+            <span key={s.bookmaker} className="inline-flex items-center gap-1 text-gray-700">
+              <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: style.color }} />
+              {style.label}
+              <span className="text-gray-500">
+                {hoverT !== null
+                  ? now !== null ? fmtPoint(now, signed) : '—'
+                  : `${fmtPoint(open, signed)} → ${fmtPoint(close, signed)}`}
+              </span>
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface Props {
+  movement: LineMovement;
+  homeTeam: string;
+  commenceTime: string;
+}
+
+export default function LineMovementChart({ movement, homeTeam, commenceTime }: Props) {
+  const all = [...movement.spreads, ...movement.totals].flatMap((s) => s.points.map((p) => new Date(p.at).getTime()));
+  const start = all.length ? Math.min(...all) : 0;
+  // Extend to tip for pregame history; live games stop at the latest snapshot
+  const tip = new Date(commenceTime).getTime();
+  const end = Math.max(all.length ? Math.max(...all) : 0, Math.min(tip, Date.now()));
+
+  return (
+    <div className="space-y-4">
+      <MovementPanel
+        title={`${homeTeam} spread`}
+        series={movement.spreads}
+        signed
+        start={start}
+        end={end}
+        firstMover={movement.firstMover.spreads}
+      />
+      <MovementPanel
+        title="Total"
+        series={movement.totals}
+        signed={false}
+        start={start}
+        end={end}
+        firstMover={movement.firstMover.totals}
+      />
+    </div>
+  );
+}
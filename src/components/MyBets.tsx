@@ -5,7 +5,9 @@
 'use client';
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { fetchBets, getBetStats, calculateProfit, Bet, BetStatus, BetType } from '@/lib/betService';
+import { fetchBets, getBetStats, calculateProfit, paidOdds, Bet, BetStatus, BetType } from '@/lib/betService';
+import { betClv, type ClvSummary } from '@/lib/clv';
+import { legText, teaseLeg, ticketTitle } from '@/lib/betLegs';
 
 // Bookmaker logos mapping - KEPT FROM YOUR ORIGINAL
 const bookmakerLogos: { [key: string]: string } = {
@@ -18,6 +20,12 @@ const bookmakerLogos: { [key: string]: string } = {
   'Kalshi': '/bookmaker-logos/kalshi.png'
 };
 
+// "+0.8 pts · +4¢" — the CLV summary line used in the stats bar and league rows
+function formatClv(clv: ClvSummary): string {
+  const sign = (v: number) => (v >= 0 ? '+' : '');
+  return `CLV ${sign(clv.avgPoints)}${clv.avgPoints.toFixed(1)} pts · ${sign(clv.avgCents)}${clv.avgCents.toFixed(0)}¢ · ${clv.beatClosePct.toFixed(0)}% beat close`;
+}
+
 // Team logo/color data from ESPN — same source and card treatment as the Bet Admin view.
 interface BetTeamInfo {
   displayName: string;
@@ -414,8 +422,8 @@ export default function MyBets() {
   // Shorten team names in bet text to ESPN abbreviations so the line/spread
   // stays visible ("Texas Longhorns -3.5" -> "TEX -3.5"). Longest-prefix
   // match against the team map (up to 4 words) so "Kansas City Chiefs"
-  // resolves before "Kansas" could. Parlay/teaser legs split on "&" and
-  // shorten independently. Falls back to the original text when no
+  // resolves before "Kansas" could. Parlay/teaser legs split on "&" or ","
+  // and shorten independently. Falls back to the original text when no
   // abbreviation resolves (totals like "Over 45.5", unsupported leagues).
   const abbreviateBetText = (bet: Bet): string => {
     if (!bet.bet) return bet.bet;
@@ -431,7 +439,7 @@ export default function MyBets() {
       }
       return segment.trim();
     };
-    return bet.bet.split(/\s*&\s*/).map(shorten).join(' & ');
+    return bet.bet.split(/(\s*[&,]\s*)/).map((seg, i) => (i % 2 ? seg : shorten(seg))).join('');
   };
 
   // ESPN logo first, legacy local file as fallback.
@@ -541,6 +549,21 @@ export default function MyBets() {
             </span>
           </div>
         </div>
+        {viewType === 'games' && stats.clv.count > 0 && (
+          <div className="mt-2 pt-2 border-t text-xs text-gray-600 space-y-1">
+            <div className={`font-medium ${stats.clv.beatClosePct >= 50 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatClv(stats.clv)} <span className="text-gray-400 font-normal">({stats.clv.count} bets)</span>
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-500">
+              {Object.entries(stats.clv.byBook).map(([book, clv]) => (
+                <span key={book}>{book}: {clv.beatClosePct.toFixed(0)}% ({clv.count})</span>
+              ))}
+              {Object.entries(stats.clv.byBetType).map(([type, clv]) => (
+                <span key={type} className="capitalize">{type}: {clv.beatClosePct.toFixed(0)}% ({clv.count})</span>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* NEW: League-specific Stats - Only shown for games view */}
@@ -562,6 +585,7 @@ export default function MyBets() {
                   </span>
                 </div>
                 <span className="text-gray-400">
+                  {leagueStats.clv.count > 0 && `${formatClv(leagueStats.clv)} · `}
                   {leagueStats.pendingBets} pending
                 </span>
               </div>
@@ -612,16 +636,22 @@ export default function MyBets() {
             // Calculate actual profit/loss based on status
             let profit = 0;
             if (bet.status === 'won') {
-              profit = calculateProfit(bet.stake, bet.odds);
+              profit = calculateProfit(bet.stake, paidOdds(bet));
             } else if (bet.status === 'lost') {
               profit = -bet.stake;
             }
             // status === 'push' or 'pending' remains 0
+            const clv = betClv(bet);
             
             const teams = parseTeams(bet);
             const futureTeam = bet.betType === 'future' ? bet.team : null;
             const isTeaser = bet.betType === 'teaser';
             const isParlay = bet.betType === 'parlay';
+            // Logo row for multi-leg tickets: structured legs (each in its own
+            // league), else the legacy parlayTeams list
+            const legTeams = bet.legs
+              ? bet.legs.map(l => ({ team: l.market === 'total' ? l.homeTeam : l.selection, league: l.league }))
+              : isParlay ? (bet.parlayTeams ?? []).map(team => ({ team, league: bet.league })) : [];
 
             // Team-color accent (same treatment as Bet Admin cards); falls back
             // to the status-colored edge when no team color is available.
@@ -677,15 +707,15 @@ export default function MyBets() {
                       <div className={`flex items-center gap-1 min-w-0 ${
                         viewType === 'games' ? 'flex-1' : ''
                       }`}>
-                        {/* PARLAY: Show all team logos from parlayTeams array */}
-                        {viewType === 'games' && isParlay && bet.parlayTeams && bet.parlayTeams.length > 0 ? (
+                        {/* PARLAY / TEASER: Show all team logos from the legs */}
+                        {viewType === 'games' && legTeams.length > 0 ? (
                           <>
                             {/* Mobile: Show all logos with & separators */}
                             <div className="flex sm:hidden items-center gap-1 flex-wrap">
-                              {bet.parlayTeams.map((team, index) => (
+                              {legTeams.map(({ team, league }, index) => (
                                 <span key={index} className="flex items-center gap-1">
-                                  <TeamLogoImg srcs={logoSrcs(bet.league, team)} className="h-5 w-5 object-contain" />
-                                  {index < bet.parlayTeams!.length - 1 && (
+                                  <TeamLogoImg srcs={logoSrcs(league, team)} className="h-5 w-5 object-contain" />
+                                  {index < legTeams.length - 1 && (
                                     <span className="text-xs text-gray-400">&</span>
                                   )}
                                 </span>
@@ -694,11 +724,11 @@ export default function MyBets() {
 
                             {/* Desktop: Show all logos with team names separated by & */}
                             <div className="hidden sm:flex items-center gap-1 flex-wrap">
-                              {bet.parlayTeams.map((team, index) => (
+                              {legTeams.map(({ team, league }, index) => (
                                 <span key={index} className="flex items-center gap-1">
-                                  <TeamLogoImg srcs={logoSrcs(bet.league, team)} className="h-4 w-4 object-contain" />
+                                  <TeamLogoImg srcs={logoSrcs(league, team)} className="h-4 w-4 object-contain" />
                                   <span className="text-sm truncate">{team}</span>
-                                  {index < bet.parlayTeams!.length - 1 && (
+                                  {index < legTeams.length - 1 && (
                                     <span className="text-xs text-gray-400">&</span>
                                   )}
                                 </span>
@@ -838,8 +868,38 @@ export default function MyBets() {
                   {isExpanded && (
                     <div className="px-3 pb-3 pt-0 border-t border-gray-100">
                       <div className="mt-2 space-y-1 text-xs">
+                        {/* Structured legs: each leg's pick (teased), game, price and grade */}
+                        {bet.legs && (
+                          <div className="mb-2 p-2 bg-blue-50 rounded">
+                            <span className="font-medium text-blue-800">
+                              {ticketTitle(bet.legs.length, isTeaser ? bet.teaserPoints : null)}
+                            </span>
+                            <div className="mt-1 divide-y divide-blue-100">
+                              {bet.legs.map((leg, i) => (
+                                <div key={i} className="flex items-center justify-between gap-2 py-1">
+                                  <div className="min-w-0">
+                                    <span className="flex items-center gap-1.5 text-blue-900 font-medium">
+                                      <span className={`inline-block w-1.5 h-1.5 rounded-full ${
+                                        leg.status === 'won' ? 'bg-green-500' : leg.status === 'lost' ? 'bg-red-500' : leg.status === 'push' ? 'bg-gray-400' : 'bg-blue-400'
+                                      }`} />
+                                      {legText(isTeaser && bet.teaserPoints ? teaseLeg(leg, bet.teaserPoints) : leg)}
+                                    </span>
+                                    <span className="block text-blue-700/80 truncate">
+                                      {leg.awayTeam} @ {leg.homeTeam} · {leg.league} · {formatDate(leg.eventDate)}
+                                    </span>
+                                    {leg.result && <span className="block text-gray-500">{leg.result}</span>}
+                                  </div>
+                                  {!isTeaser && leg.odds !== undefined && (
+                                    <span className="text-blue-800 tabular-nums">{formatOdds(leg.odds)}</span>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
                         {/* Show full bet description for parlays and teasers */}
-                        {(bet.betType === 'parlay' || bet.betType === 'teaser') && (
+                        {(bet.betType === 'parlay' || bet.betType === 'teaser') && !bet.legs && (
                           <div className="mb-2 p-2 bg-blue-50 rounded">
                             <span className="font-medium text-blue-800">
                               Full {bet.betType === 'teaser' ? 'Teaser' : 'Parlay'}:
@@ -849,7 +909,7 @@ export default function MyBets() {
                         )}
                         
                         {/* Show all parlay teams on mobile when expanded */}
-                        {viewType === 'games' && isParlay && bet.parlayTeams && bet.parlayTeams.length > 0 && (
+                        {viewType === 'games' && isParlay && !bet.legs && bet.parlayTeams && bet.parlayTeams.length > 0 && (
                           <div className="sm:hidden mb-2 p-2 bg-gray-50 rounded">
                             <span className="font-medium text-gray-800">Parlay Teams:</span>
                             <span className="block mt-1 text-gray-700">
@@ -863,7 +923,7 @@ export default function MyBets() {
                         )}
                         
                         {/* Show full team names on mobile when expanded (non-parlay or legacy parlay) */}
-                        {viewType === 'games' && teams && !(isParlay && bet.parlayTeams && bet.parlayTeams.length > 0) && (
+                        {viewType === 'games' && teams && !bet.legs && !(isParlay && bet.parlayTeams && bet.parlayTeams.length > 0) && (
                           <div className="sm:hidden mb-2 p-2 bg-gray-50 rounded">
                             <span className="font-medium text-gray-800">
                               {isParlay ? 'Parlay' : isTeaser ? 'Teaser' : 'Game'}:
@@ -916,6 +976,20 @@ export default function MyBets() {
                           <span className="text-gray-500">Odds:</span>
                           <span>{formatOdds(bet.odds)}</span>
                         </div>
+                        {clv && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-500">Close:</span>
+                            <span>
+                              {bet.closingLine !== undefined && `${bet.betType === 'spread' && bet.closingLine > 0 ? '+' : ''}${bet.closingLine} `}
+                              {bet.closingOdds !== undefined && `(${formatOdds(bet.closingOdds)}) `}
+                              <span className={(clv.points ?? clv.cents ?? 0) > 0 ? 'text-green-600' : (clv.points ?? clv.cents ?? 0) < 0 ? 'text-red-600' : 'text-gray-500'}>
+                                {clv.points !== null && `${clv.points > 0 ? '+' : ''}${clv.points} pts`}
+                                {clv.points !== null && clv.cents !== null && ' · '}
+                                {clv.cents !== null && `${clv.cents > 0 ? '+' : ''}${clv.cents}¢`}
+                              </span>
+                            </span>
+                          </div>
+                        )}
                         <div className="flex justify-between items-center pt-1">
                           <span className="text-gray-500">Share:</span>
                           <button
@@ -9,6 +9,7 @@ import { createBet } from '@/lib/betService';
 import { GameRestData, TeamRestInfo } from '@/lib/nhlRest';
 import { resolveDeepLink, fillLinkTemplate, promptForState } from '@/lib/betLinks';
 import { useTeamColorMap, teamInfoFromMap } from '@/lib/myGameBets';
+import { FAIR_SOURCES, fairAmerican, fairForMarket, marketHold, outcomeEv, type FairSource, type MarketFair } from '@/lib/fairPrice';
 
 // Sport keys whose team cells link to /team/[league]/[name] pages
 const TEAM_PAGE_LEAGUES: Record<string, string> = {
@@ -25,6 +26,7 @@ interface OddsTableProps {
   awayLogo?: string;
   homeLogo?: string;
   restData?: GameRestData | null;
+  fairSource?: FairSource;
 }
 
 interface OddsItem {
@@ -43,6 +45,28 @@ function calculateStakeForOneUnit(odds: number): number {
   }
 }
 
+// EV% against the no-vig fair line, shown under each price
+function EvTag({ ev }: { ev: number | null }) {
+  if (ev === null) return null;
+  return (
+    <div className={`text-[10px] md:text-xs font-medium ${ev > 0 ? 'text-green-700' : 'text-gray-400'}`}>
+      {ev > 0 ? '+' : ''}{(ev * 100).toFixed(1)}%
+    </div>
+  );
+}
+
+// Fair prices for the table footer, e.g. "Duke -185 · UNC +185"
+function fairLine(fair: MarketFair, names: string[]): string {
+  return names
+    .filter((n) => fair.probs[n] !== undefined)
+    .map((n) => {
+      const point = fair.points[n];
+      const label = n === 'Over' || n === 'Under' ? `${n[0]} ${point}` : point !== null ? `${n} ${point > 0 ? '+' : ''}${point}` : n;
+      return `${label} ${formatOdds(fairAmerican(fair.probs[n]))}`;
+    })
+    .join(' · ');
+}
+
 // Helper function to map league ID to sport name
 function getSportFromLeague(league: string): string {
   if (league.includes('nba') || league.includes('basketball')) return 'Basketball';
@@ -149,7 +173,7 @@ function getTeamRestBadges(teamRest: TeamRestInfo, hasAdvantage: boolean, advant
   return null;
 }
 
-export default function OddsTable({ games, view = 'moneyline', league = 'basketball_nba', selectedBookmakers, awayLogo, homeLogo, restData }: OddsTableProps) {
+export default function OddsTable({ games, view = 'moneyline', league = 'basketball_nba', selectedBookmakers, awayLogo, homeLogo, restData, fairSource = 'auto' }: OddsTableProps) {
   const pressTimer = useRef<NodeJS.Timeout | null>(null);
   const [isHolding, setIsHolding] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
@@ -300,6 +324,12 @@ export default function OddsTable({ games, view = 'moneyline', league = 'basketb
           return !!market && market.outcomes.length > 0;
         });
 
+        // No-vig reference for this market; cells priced at its number get an EV%
+        const fair = fairForMarket(game, marketKey, fairSource);
+        const outcomeNames = marketKey === 'totals'
+          ? ['Over', 'Under']
+          : [game.away_team, game.home_team, ...(fair?.probs.Draw !== undefined ? ['Draw'] : [])];
+
         // For each team, calculate which bookmakers offer the best odds (only among displayed bookmakers)
         const bestBookmakersByTeam: { [key: string]: string[] } = {};
         
@@ -483,6 +513,12 @@ export default function OddsTable({ games, view = 'moneyline', league = 'basketb
                 {activeBookmakers.map(book => (
                   <th key={book} className="px-2 md:px-4 py-2 md:py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-100">
                     <img src={bookmakerLogos[book]} alt={book} className="h-6 mx-auto" />
+                    {(() => {
+                      const hold = marketHold(game.bookmakers.find(b => b.title === book)?.markets.find(m => m.key === marketKey)?.outcomes);
+                      return hold !== null && (
+                        <div className="mt-0.5 text-[10px] font-normal normal-case tracking-normal text-gray-400">{(hold * 100).toFixed(1)}% hold</div>
+                      );
+                    })()}
                   </th>
                 ))}
               </tr>
@@ -536,11 +572,12 @@ export default function OddsTable({ games, view = 'moneyline', league = 'basketb
                         const marketData = bookieData?.markets.find(m => m.key === 'h2h');
                         const outcomeData = marketData?.outcomes.find(o => o.name === team);
                         const deepLink = outcomeData?.link;
+                        const ev = outcomeEv(fair, outcomeData);
                         
                         return (
                           <td 
                             key={book} 
-                            className={`px-2 md:px-4 py-3 whitespace-nowrap text-center cursor-pointer select-none ${index === 0 ? 'border-b border-gray-200' : ''} ${hasDeepLink && deepLink ? 'hover:bg-blue-50' : ''}`}
+                            className={`px-2 md:px-4 py-3 whitespace-nowrap text-center cursor-pointer select-none ${index === 0 ? 'border-b border-gray-200' : ''} ${ev !== null && ev > 0 ? 'bg-green-50' : ''} ${hasDeepLink && deepLink ? 'hover:bg-blue-50' : ''}`}
                             onTouchStart={() => outcomeData && 
                               handlePressStart(game, team, outcomeData.price, book, 'moneyline')}
                             onTouchEnd={handlePressEnd}
@@ -561,6 +598,7 @@ export default function OddsTable({ games, view = 'moneyline', league = 'basketb
                                     Best
                                   </span>
                                 )}
+                                <EvTag ev={ev} />
                               </div>
                             ) : (
                               <span className="text-xs md:text-sm text-gray-500">-</span>
@@ -573,11 +611,12 @@ export default function OddsTable({ games, view = 'moneyline', league = 'basketb
                         const marketData = bookieData?.markets.find(m => m.key === marketKey);
                         const outcomeData = marketData?.outcomes.find(o => o.name === team);
                         const deepLink = outcomeData?.link;
+                        const ev = outcomeEv(fair, outcomeData);
                         
                         return (
                           <td 
                             key={book} 
-                            className={`px-2 md:px-4 py-3 whitespace-nowrap text-center cursor-pointer select-none ${index === 0 ? 'border-b border-gray-200' : ''} ${hasDeepLink && deepLink ? 'hover:bg-blue-50' : ''}`}
+                            className={`px-2 md:px-4 py-3 whitespace-nowrap text-center cursor-pointer select-none ${index === 0 ? 'border-b border-gray-200' : ''} ${ev !== null && ev > 0 ? 'bg-green-50' : ''} ${hasDeepLink && deepLink ? 'hover:bg-blue-50' : ''}`}
                             onTouchStart={() => outcomeData && typeof outcomeData.point !== 'undefined' && 
                               handlePressStart(game, team, outcomeData.price, book, 'spread', outcomeData.point)}
                             onTouchEnd={handlePressEnd}
@@ -598,6 +637,7 @@ export default function OddsTable({ games, view = 'moneyline', league = 'basketb
                                     Best
                                   </span>
                                 )}
+                                <EvTag ev={ev} />
                               </div>
                             ) : (
                               <span className="text-xs md:text-sm text-gray-500">-</span>
@@ -613,11 +653,12 @@ export default function OddsTable({ games, view = 'moneyline', league = 'basketb
                           (index === 0 && o.name === 'Over') || (index === 1 && o.name === 'Under')
                         );
                         const deepLink = outcomeData?.link;
+                        const ev = outcomeEv(fair, outcomeData);
                         
                         return (
                           <td 
                             key={book} 
-                            className={`px-2 md:px-4 py-3 whitespace-nowrap text-center cursor-pointer select-none ${index === 0 ? 'border-b border-gray-200' : ''} ${hasDeepLink && deepLink ? 'hover:bg-blue-50' : ''}`}
+                            className={`px-2 md:px-4 py-3 whitespace-nowrap text-center cursor-pointer select-none ${index === 0 ? 'border-b border-gray-200' : ''} ${ev !== null && ev > 0 ? 'bg-green-50' : ''} ${hasDeepLink && deepLink ? 'hover:bg-blue-50' : ''}`}
                             onTouchStart={() => outcomeData && typeof outcomeData.point !== 'undefined' && 
                               handlePressStart(game, team, outcomeData.price, book, 'total', outcomeData.point, totalType)}
                             onTouchEnd={handlePressEnd}
@@ -638,6 +679,7 @@ export default function OddsTable({ games, view = 'moneyline', league = 'basketb
                                     Best
                                   </span>
                                 )}
+                                <EvTag ev={ev} />
                               </div>
                             ) : (
                               <span className="text-xs md:text-sm text-gray-500">-</span>
@@ -652,6 +694,19 @@ export default function OddsTable({ games, view = 'moneyline', league = 'basketb
                 );
               })}
             </tbody>
+            {fair && (
+              <tfoot>
+                <tr>
+                  <td className="px-2 md:px-4 py-1.5 text-[10px] md:text-xs font-medium text-gray-500 sticky left-0 z-10 bg-gray-50 border-r border-t border-gray-100">
+                    Fair
+                  </td>
+                  <td colSpan={activeBookmakers.length} className="px-2 md:px-4 py-1.5 text-[10px] md:text-xs text-gray-500 bg-gray-50 border-t border-gray-100 whitespace-nowrap">
+                    {fairLine(fair, outcomeNames)}
+                    <span className="ml-2 text-gray-400">({FAIR_SOURCES.find(f => f.id === fair.source)?.label})</span>
+                  </td>
+                </tr>
+              </tfoot>
+            )}
           </table>
         );
       })}
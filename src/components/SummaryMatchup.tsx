@@ -1,13 +1,15 @@
 // src/components/SummaryMatchup.tsx
 //
 // At-a-glance comparison: FEI, Eckel, and Powers projected lines for one
-// game in a single table, plus the average across available systems.
+// game in a single table, plus the average across available systems and the
+// weighted consensus line (/api/consensus) when the game is on the board.
 
 import { useEffect, useState } from 'react';
 import { fetchFEIData, getTeamFEIData, calculateExpectedScore } from '@/lib/feiData';
 import { TeamSeasonMetrics } from '@/lib/eckel/types';
 import { PowerRatingRow } from '@/lib/powerRatings';
 import { cachedJson } from '@/lib/matchupCache';
+import { fetchConsensus, type ConsensusGame } from '@/lib/consensus';
 
 interface SummaryMatchupProps {
   awayTeam: string; // odds-api names
@@ -43,11 +45,16 @@ function TeamLogo({ oddsName, className }: { oddsName: string; className: string
 export default function SummaryMatchup({ awayTeam, homeTeam, isNeutralSite = false }: SummaryMatchupProps) {
   const [rows, setRows] = useState<SystemRow[] | null>(null);
   const [loading, setLoading] = useState(true);
+  const [consensus, setConsensus] = useState<ConsensusGame | null>(null);
 
   useEffect(() => {
     let alive = true;
     setLoading(true);
 
+    fetchConsensus('americanfootball_ncaaf').then((games) => {
+      if (alive) setConsensus(games.find((g) => g.awayTeam === awayTeam && g.homeTeam === homeTeam) ?? null);
+    });
+
     const feiPromise = fetchFEIData().then((data) => {
       const away = getTeamFEIData(awayTeam, data);
       const home = getTeamFEIData(homeTeam, data);
@@ -196,6 +203,19 @@ export default function SummaryMatchup({ awayTeam, homeTeam, isNeutralSite = fal
               <td className="py-2.5 text-right"><LineCell line={avgLine} /></td>
             </tr>
           )}
+          {consensus && (
+            <tr className="bg-gray-50">
+              <td className="py-2.5 font-semibold text-gray-900">
+                Consensus
+                <span className="block text-[10px] text-gray-400 font-normal">
+                  weighted by error vs close · ±{consensus.line.band}
+                </span>
+              </td>
+              <td />
+              <td />
+              <td className="py-2.5 text-right"><LineCell line={consensus.line.homeSpread} /></td>
+            </tr>
+          )}
         </tbody>
       </table>
       <p className="mt-3 text-[10px] text-gray-400 text-center">
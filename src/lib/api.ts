@@ -2,6 +2,7 @@
 
 import type { KalshiGameOdds, KalshiSpreadOdds, KalshiTotalOdds } from '@/lib/kalshi';
 import { kalshiMarketUrl } from '@/lib/kalshi';
+import { buildRegistry, namesMatch, resolveTeam, sameTeam } from '@/lib/teams';
 
 // Define the types we need
 export interface Game {
@@ -126,19 +127,32 @@ export interface ApiResponse<T> {
 // List of supported bookmakers
 export const BOOKMAKERS = ['DraftKings', 'FanDuel', 'Kalshi', 'BetMGM', 'BetRivers', 'Caesars', 'BetOnline.ag'];
 
-// List of leagues with isActive flag
+// Odds API bookmaker keys by display title (Kalshi is merged in by fetchOdds
+// under its own key)
+export const BOOKMAKER_KEYS: Record<string, string> = {
+  'DraftKings': 'draftkings',
+  'FanDuel': 'fanduel',
+  'Kalshi': 'kalshi',
+  'BetMGM': 'betmgm',
+  'BetRivers': 'betrivers',
+  'Caesars': 'williamhill_us',
+  'BetOnline.ag': 'betonlineag',
+};
+
+// List of leagues with isActive flag. marketRatings: the league has a
+// closing-line ratings page (/market-ratings/[id], config in SPORT_RATINGS).
 export const LEAGUES = [
   { id: 'baseball_mlb', name: 'MLB', icon: '/league-icons/mlb.png', isActive: true },
-  { id: 'americanfootball_nfl', name: 'NFL', icon: '/league-icons/nfl.png', isActive: true },
+  { id: 'americanfootball_nfl', name: 'NFL', icon: '/league-icons/nfl.png', isActive: true, marketRatings: true },
   { id: 'americanfootball_nfl_preseason', name: 'NFL PreSzn', icon: '/league-icons/nfl.png', isActive: false },
-  { id: 'americanfootball_ncaaf', name: 'NCAAF', icon: '/league-icons/ncaaf.png', isActive: true },
+  { id: 'americanfootball_ncaaf', name: 'NCAAF', icon: '/league-icons/ncaaf.png', isActive: true, marketRatings: true },
   { id: 'basketball_ncaab', name: 'NCAAB', icon: '/league-icons/ncaab.png', isActive: true },
   { id: 'soccer_epl', name: 'EPL', icon: '/league-icons/epl.png', isActive: false }, // Hidden - out of season
   { id: 'soccer_usa_mls', name: 'MLS', icon: '/league-icons/mls.png', isActive: true },
   { id: 'americanfootball_cfl', name: 'CFL', icon: '/league-icons/cfl.png', isActive: true },
   { id: 'basketball_wnba', name: 'WNBA', icon: '/league-icons/wnba.png', isActive: true },
-  { id: 'icehockey_nhl', name: 'NHL', icon: '/league-icons/nhl.png', isActive: true },
-  { id: 'basketball_nba', name: 'NBA', icon: '/league-icons/nba.png', isActive: true },
+  { id: 'icehockey_nhl', name: 'NHL', icon: '/league-icons/nhl.png', isActive: true, marketRatings: true },
+  { id: 'basketball_nba', name: 'NBA', icon: '/league-icons/nba.png', isActive: true, marketRatings: true },
   { id: 'baseball_ncaa', name: 'CWS', icon: '/league-icons/cws.png', isActive: false }, // Hidden - out of season
   { id: 'lacrosse_ncaa', name: 'NCAAL', icon: '/league-icons/ncaal.png', isActive: false }, // Hidden - out of season
   { id: 'golf_us_open_winner', name: 'US Open', icon: '/league-icons/usopen.png', isActive: false }, // Hidden - tournament over
@@ -238,7 +252,7 @@ export async function fetchOdds(sport: string): Promise<ApiResponse<Game[]>> {
       const moneyline = Array.isArray(kalshiData) ? kalshiData : (kalshiData.moneyline || []);
       const spreads = Array.isArray(kalshiData) ? [] : (kalshiData.spreads || []);
       const totals = Array.isArray(kalshiData) ? [] : (kalshiData.totals || []);
-      mergeKalshiOdds(data, moneyline, spreads, totals);
+      mergeKalshiOdds(data, sport, moneyline, spreads, totals);
     }
 
     return {
@@ -256,27 +270,26 @@ export async function fetchOdds(sport: string): Promise<ApiResponse<Game[]>> {
 
 /**
  * Find a matching game from the-odds-api by teams and commence time.
+ * Kalshi's names (often just the city) are resolved against the teams on the
+ * board within the time window, so a name two teams could claim ("Los
+ * Angeles") matches nothing rather than whichever game comes first.
  * Also tries swapped home/away since tournament events may not have a true home team.
  * Returns { game, swapped } where swapped indicates the Kalshi teams were in reverse order.
  */
-function findKalshiMatch(games: Game[], awayTeam: string, homeTeam: string, commenceTime: string): { game: Game; swapped: boolean } | undefined {
+function findKalshiMatch(games: Game[], sport: string, awayTeam: string, homeTeam: string, commenceTime: string): { game: Game; swapped: boolean } | undefined {
   const kgTime = commenceTime ? new Date(commenceTime).getTime() : 0;
-  const withinTime = (g: Game) => {
-    if (!kgTime) return true;
-    const gTime = new Date(g.commence_time).getTime();
-    return Math.abs(gTime - kgTime) < 12 * 60 * 60 * 1000;
-  };
+  const nearby = games.filter(g => !kgTime || Math.abs(new Date(g.commence_time).getTime() - kgTime) < 12 * 60 * 60 * 1000);
+  const registry = buildRegistry(sport, [...new Set(nearby.flatMap(g => [g.home_team, g.away_team]))]);
+  const home = resolveTeam(homeTeam, registry, { source: 'kalshi' }).team;
+  const away = resolveTeam(awayTeam, registry, { source: 'kalshi' }).team;
+  if (!home || !away) return undefined;
 
   // Try normal order first
-  const normal = games.find(g =>
-    teamsMatch(g.home_team, homeTeam) && teamsMatch(g.away_team, awayTeam) && withinTime(g)
-  );
+  const normal = nearby.find(g => g.home_team === home && g.away_team === away);
   if (normal) return { game: normal, swapped: false };
 
   // Try swapped (tournament events may list teams in different order)
-  const swapped = games.find(g =>
-    teamsMatch(g.home_team, awayTeam) && teamsMatch(g.away_team, homeTeam) && withinTime(g)
-  );
+  const swapped = nearby.find(g => g.home_team === away && g.away_team === home);
   if (swapped) return { game: swapped, swapped: true };
 
   return undefined;
@@ -285,10 +298,12 @@ function findKalshiMatch(games: Game[], awayTeam: string, homeTeam: string, comm
 /**
  * Merge Kalshi moneyline, spread, and total odds into existing games from the-odds-api.
  * Matches games by fuzzy team name comparison.
- * Handles swapped home/away for tournament neutral-site games.
+ * Handles swapped home/away for tournament neutral-site games. Also used
+ * server-side by the line-alert cron to read Kalshi's number per game.
  */
-function mergeKalshiOdds(
+export function mergeKalshiOdds(
   games: Game[],
+  sport: string,
   kalshiGames: KalshiGameOdds[],
   kalshiSpreads: KalshiSpreadOdds[],
   kalshiTotals: KalshiTotalOdds[],
@@ -314,7 +329,7 @@ function mergeKalshiOdds(
 
   // Merge moneyline odds
   for (const kg of kalshiGames) {
-    const result = findKalshiMatch(games, kg.awayTeam, kg.homeTeam, kg.commenceTime);
+    const result = findKalshiMatch(games, sport, kg.awayTeam, kg.homeTeam, kg.commenceTime);
     if (!result) continue;
     const { game, swapped } = result;
     const marketLink = kalshiMarketUrl(kg.eventTicker);
@@ -333,7 +348,7 @@ function mergeKalshiOdds(
 
   // Merge spread odds
   for (const ks of kalshiSpreads) {
-    const result = findKalshiMatch(games, ks.awayTeam, ks.homeTeam, ks.commenceTime);
+    const result = findKalshiMatch(games, sport, ks.awayTeam, ks.homeTeam, ks.commenceTime);
     if (!result) continue;
     const { game, swapped } = result;
     const marketLink = kalshiMarketUrl(ks.eventTicker);
@@ -353,7 +368,7 @@ function mergeKalshiOdds(
 
   // Merge totals odds — over/under is side-agnostic, no swap needed
   for (const kt of kalshiTotals) {
-    const result = findKalshiMatch(games, kt.awayTeam, kt.homeTeam, kt.commenceTime);
+    const result = findKalshiMatch(games, sport, kt.awayTeam, kt.homeTeam, kt.commenceTime);
     if (!result) continue;
     const marketLink = kalshiMarketUrl(kt.eventTicker);
     attachMarket(result.game, {
@@ -367,44 +382,6 @@ function mergeKalshiOdds(
   }
 }
 
-// Kalshi futures team labels that don't reduce to a prefix/initials of the
-// Odds API full name
-const KALSHI_FUTURES_NAME_MAP: Record<string, string> = {
-  "A's": 'Athletics',
-};
-
-const normalizeFuturesName = (name: string): string =>
-  name.toLowerCase().replace(/[.'’]/g, '').replace(/\s+/g, ' ').trim();
-
-/**
- * Match a Kalshi team label (often a short city form like "Los Angeles D" or
- * "Chicago WS") against Odds API full names ("Los Angeles Dodgers").
- * Returns the matched full name only when exactly one candidate matches —
- * ambiguity means no Kalshi price rather than a wrong one.
- */
-function matchKalshiFuturesTeam(kalshiName: string, fullNames: string[]): string | null {
-  const k = normalizeFuturesName(KALSHI_FUTURES_NAME_MAP[kalshiName] ?? kalshiName);
-  if (!k) return null;
-
-  const matches = fullNames.filter(full => {
-    const f = normalizeFuturesName(full);
-    if (f === k || f.startsWith(k + ' ')) return true;
-
-    // "Chicago WS" / "New York Y" style: leading tokens match the full name,
-    // final token is the initials (or a prefix) of the remaining words
-    const kTokens = k.split(' ');
-    const fTokens = f.split(' ');
-    if (kTokens.length < 2 || fTokens.length < kTokens.length) return false;
-    const head = kTokens.slice(0, -1).join(' ');
-    if (head !== fTokens.slice(0, kTokens.length - 1).join(' ')) return false;
-    const last = kTokens[kTokens.length - 1];
-    const rest = fTokens.slice(kTokens.length - 1);
-    return rest.map(w => w[0]).join('') === last || rest[0].startsWith(last);
-  });
-
-  return matches.length === 1 ? matches[0] : null;
-}
-
 /**
  * Fetch futures odds for a specific sport
  *
@@ -481,10 +458,12 @@ export async function fetchFutures(sport: string): Promise<ApiResponse<FuturesMa
           };
         } else {
           for (const market of Object.values(marketsByTitle)) {
-            const fullNames = market.teams.map(t => t.team);
+            // Kalshi labels are short city forms ("Los Angeles D", "Chicago WS");
+            // a label more than one team could claim gets no Kalshi price
+            const registry = buildRegistry(sport, market.teams.map(t => t.team));
             for (const k of kalshiTeams) {
               if (!k.odds) continue;
-              const matched = matchKalshiFuturesTeam(k.team, fullNames);
+              const matched = resolveTeam(k.team, registry, { source: 'kalshi' }).team;
               if (matched) {
                 const entry = market.teams.find(t => t.team === matched);
                 if (entry) {
@@ -714,60 +693,10 @@ export interface ESPNGameScore {
   statusDetail: string;
 }
 
-// Team name matching utilities
-// Get the mascot (last word) from team name
-const getMascot = (name: string): string => {
-  const words = name.trim().split(/\s+/);
-  return words[words.length - 1].toLowerCase();
-};
-
-// Get city/location (all words except last) from team name
-const getCity = (name: string): string => {
-  const words = name.trim().split(/\s+/);
-  if (words.length <= 1) return name.toLowerCase();
-  return words.slice(0, -1).join(' ').toLowerCase();
-};
-
-// Get first word (often the school/city name)
-const getFirstWord = (name: string): string => {
-  const words = name.trim().split(/\s+/);
-  return words[0].toLowerCase();
-};
-
-// Aliases for team names that differ across sources (e.g. Kalshi "A's" vs odds-api "Athletics")
-const TEAM_ALIASES: Record<string, string[]> = {
-  "athletics": ["a's"],
-  "a's": ["athletics"],
-};
-
-// Check if two team names likely refer to the same team
-const teamsMatch = (name1: string, name2: string): boolean => {
-  const n1 = name1.toLowerCase();
-  const n2 = name2.toLowerCase();
-
-  // Exact match
-  if (n1 === n2) return true;
-
-  // One contains the other
-  if (n1.includes(n2) || n2.includes(n1)) return true;
-
-  // Alias match
-  const aliases1 = TEAM_ALIASES[n1] || [];
-  if (aliases1.includes(n2)) return true;
-
-  // Mascot match
-  if (getMascot(name1) === getMascot(name2)) return true;
-
-  // First word match (e.g., "Duke" vs "Duke Blue Devils")
-  if (getFirstWord(name1) === getFirstWord(name2)) return true;
-
-  // City match
-  const city1 = getCity(name1);
-  const city2 = getCity(name2);
-  if (city1.length > 2 && city2.length > 2 && city1 === city2) return true;
-
-  return false;
-};
+// Check if two team names likely refer to the same team (see src/lib/teams).
+// With a league (name or sport key) its registry's ESPN/Kalshi aliases count.
+export const teamsMatch = (name1: string, name2: string, league?: string): boolean =>
+  league ? sameTeam(name1, name2, league) : namesMatch(name1, name2);
 
 /**
  * Match an odds game to an ESPN game score
@@ -786,8 +715,8 @@ export const matchGameToScore = (
   }
 
   for (const score of scores) {
-    const homeMatch = teamsMatch(game.home_team, score.homeTeam);
-    const awayMatch = teamsMatch(game.away_team, score.awayTeam);
+    const homeMatch = teamsMatch(game.home_team, score.homeTeam, game.sport_key);
+    const awayMatch = teamsMatch(game.away_team, score.awayTeam, game.sport_key);
 
     if (homeMatch && awayMatch) {
       return score;
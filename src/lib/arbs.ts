@@ -0,0 +1,177 @@
+// src/lib/arbs.ts
+// Cross-book arbitrage and middle scanner over the merged odds board (the
+// Game[] fetchOdds returns, Kalshi included). Kalshi prices on the board are
+// already fee-inclusive (see kalshi.ts costToML), so they compare directly
+// with sportsbook prices here.
+// Pure functions — no I/O. Tested by scripts/arbs.test.ts.
+
+import type { Game } from './api';
+
+export type ArbMarket = 'h2h' | 'spreads' | 'totals';
+
+// One side of an opportunity, at the book offering the best price for it
+export interface ArbLeg {
+  book: string;          // bookmaker title, e.g. "DraftKings"
+  name: string;          // team, 'Draw', 'Over' or 'Under'
+  point: number | null;
+  price: number;         // American odds
+  link?: string;
+}
+
+export interface Arb {
+  game: Game;
+  market: ArbMarket;
+  legs: ArbLeg[];
+  impliedSum: number;    // Σ 1/decimal across legs; < 1 is an arb
+  margin: number;        // guaranteed return on total stake, e.g. 0.021 = 2.1%
+}
+
+export interface Middle {
+  game: Game;
+  market: 'spreads' | 'totals';
+  legs: [ArbLeg, ArbLeg];
+  width: number;         // points of final margin/total where both legs win
+  impliedSum: number;    // cost of the pair; the miss loses impliedSum − 1 per unit paid
+}
+
+export interface StakeSplit {
+  stakes: number[];      // per leg, same order as the legs
+  totalStake: number;
+  payout: number;        // return when any one leg wins
+  profit: number;        // payout − totalStake (negative for most middles)
+}
+
+// Sports whose moneyline is 3-way (home / draw / away) on the Odds API
+const THREE_WAY_PREFIXES = ['soccer_'];
+
+export const americanToDecimal = (odds: number): number =>
+  odds > 0 ? 1 + odds / 100 : 1 + 100 / Math.abs(odds);
+
+/**
+ * Stakes that return `targetPayout` whichever leg wins: stake_i = P / dec_i.
+ * Rounded to cents; payout is the worst leg's return after rounding.
+ */
+export function stakeSplit(prices: number[], targetPayout: number): StakeSplit {
+  const stakes = prices.map((p) => Math.round((targetPayout / americanToDecimal(p)) * 100) / 100);
+  const totalStake = Math.round(stakes.reduce((a, b) => a + b, 0) * 100) / 100;
+  const payout = Math.min(...stakes.map((s, i) => s * americanToDecimal(prices[i])));
+  return { stakes, totalStake, payout, profit: payout - totalStake };
+}
+
+interface Quote extends ArbLeg {
+  key: string;           // grouping key within the market
+}
+
+// Every quote for one market of one game, limited to the selected books
+function quotes(game: Game, market: ArbMarket, books: string[]): Quote[] {
+  const out: Quote[] = [];
+  for (const b of game.bookmakers) {
+    if (!books.includes(b.title)) continue;
+    const m = b.markets.find((mk) => mk.key === market);
+    for (const o of m?.outcomes ?? []) {
+      if (!Number.isFinite(o.price) || o.price === 0) continue;
+      if (market !== 'h2h' && o.point === undefined) continue;
+      out.push({
+        key: `${o.name}|${o.point ?? ''}`,
+        book: b.title,
+        name: o.name,
+        point: o.point ?? null,
+        price: o.price,
+        link: o.link ?? m?.link ?? b.link,
+      });
+    }
+  }
+  return out;
+}
+
+// Best-priced quote per key
+function bestByKey(qs: Quote[]): Map<string, Quote> {
+  const best = new Map<string, Quote>();
+  for (const q of qs) {
+    const cur = best.get(q.key);
+    if (!cur || americanToDecimal(q.price) > americanToDecimal(cur.price)) best.set(q.key, q);
+  }
+  return best;
+}
+
+const implied = (legs: ArbLeg[]) => legs.reduce((s, l) => s + 1 / americanToDecimal(l.price), 0);
+
+const toLeg = (q: Quote): ArbLeg => ({ book: q.book, name: q.name, point: q.point, price: q.price, link: q.link });
+
+/**
+ * Arbitrages: the best price on every side of a market, across different
+ * books, with combined implied probability under 1. Moneylines use every
+ * outcome, and a 3-way sport needs a Draw price — home and away alone lose
+ * on a draw; spreads pair a home line with
+ * the away side of the same number; totals pair Over/Under at one total.
+ */
+export function findArbs(games: Game[], books: string[], now: number = Date.now()): Arb[] {
+  const arbs: Arb[] = [];
+  for (const game of games) {
+    // Started games carry stale pregame prices next to live ones
+    if (new Date(game.commence_time).getTime() <= now) continue;
+
+    const push = (market: ArbMarket, legs: Quote[]) => {
+      if (new Set(legs.map((l) => l.book)).size < 2) return;
+      const impliedSum = implied(legs);
+      if (impliedSum < 1) arbs.push({ game, market, legs: legs.map(toLeg), impliedSum, margin: 1 / impliedSum - 1 });
+    };
+
+    const ml = bestByKey(quotes(game, 'h2h', books));
+    const names = new Set([...ml.values()].map((q) => q.name));
+    const needsDraw = THREE_WAY_PREFIXES.some((p) => game.sport_key.startsWith(p));
+    if (names.has(game.home_team) && names.has(game.away_team) && (!needsDraw || names.has('Draw'))) {
+      push('h2h', [...ml.values()]);
+    }
+
+    const spreads = bestByKey(quotes(game, 'spreads', books));
+    for (const home of spreads.values()) {
+      if (home.name !== game.home_team || home.point === null) continue;
+      const away = spreads.get(`${game.away_team}|${-home.point}`);
+      if (away) push('spreads', [home, away]);
+    }
+
+    const totals = bestByKey(quotes(game, 'totals', books));
+    for (const over of totals.values()) {
+      if (over.name !== 'Over') continue;
+      const under = totals.get(`Under|${over.point}`);
+      if (under) push('totals', [over, under]);
+    }
+  }
+  return arbs.sort((a, b) => b.margin - a.margin);
+}
+
+/**
+ * Middles: opposite sides at different numbers from different books, leaving
+ * a window of outcomes where both win. Home +h with away −a (a < h) wins both
+ * when the home team loses by more than a and less than h; Over o with
+ * Under u (o < u) wins both between the totals. Sorted widest first, then
+ * cheapest.
+ */
+export function findMiddles(games: Game[], books: string[], now: number = Date.now()): Middle[] {
+  const middles: Middle[] = [];
+  for (const game of games) {
+    if (new Date(game.commence_time).getTime() <= now) continue;
+
+    const spreads = [...bestByKey(quotes(game, 'spreads', books)).values()];
+    const homes = spreads.filter((q) => q.name === game.home_team);
+    const aways = spreads.filter((q) => q.name === game.away_team);
+    for (const h of homes) {
+      for (const a of aways) {
+        if (h.book === a.book) continue;
+        const width = (h.point ?? 0) + (a.point ?? 0);
+        if (width > 0) middles.push({ game, market: 'spreads', legs: [toLeg(h), toLeg(a)], width, impliedSum: implied([h, a]) });
+      }
+    }
+
+    const totals = [...bestByKey(quotes(game, 'totals', books)).values()];
+    for (const o of totals.filter((q) => q.name === 'Over')) {
+      for (const u of totals.filter((q) => q.name === 'Under')) {
+        if (o.book === u.book) continue;
+        const width = (u.point ?? 0) - (o.point ?? 0);
+        if (width > 0) middles.push({ game, market: 'totals', legs: [toLeg(o), toLeg(u)], width, impliedSum: implied([o, u]) });
+      }
+    }
+  }
+  return middles.sort((a, b) => b.width - a.width || a.impliedSum - b.impliedSum);
+}
@@ -0,0 +1,147 @@
+// src/lib/bankroll.ts
+// Bankroll engine for the tracker: deposits/withdrawals, unit size (fixed
+// dollars or a percentage of the current roll), fractional-Kelly stake
+// suggestions, and the bankroll curve / max drawdown over settled bets.
+// Win probabilities come from whatever the app already prices — the prop
+// pricer's pOver, spreadToWinProb, or a devigged fair price.
+// Pure functions — no I/O. Tested by scripts/bets.test.ts.
+
+import type { Bet } from './betService';
+import { calculateProfit, paidOdds } from './betProfit';
+import { americanToDecimal } from './arbs';
+
+export type BankrollEntryKind = 'deposit' | 'withdrawal';
+
+export interface BankrollEntry {
+  id: string;
+  date: string;            // YYYY-MM-DD
+  kind: BankrollEntryKind;
+  amount: number;          // dollars, always positive
+  note?: string;
+}
+
+export interface BankrollSettings {
+  unitMode: 'fixed' | 'percent';
+  unitValue: number;       // dollars per unit, or percent of bankroll per unit
+  kellyMultiplier: number; // 0.25 = quarter Kelly
+  maxBetPct: number;       // cap on any one stake, percent of bankroll
+}
+
+export const DEFAULT_BANKROLL_SETTINGS: BankrollSettings = {
+  unitMode: 'fixed',
+  unitValue: 100,
+  kellyMultiplier: 0.25,
+  maxBetPct: 5,
+};
+
+export interface BankrollPoint {
+  date: string;
+  balance: number;
+}
+
+export interface BankrollReport {
+  currency: 'dollars' | 'units';   // units when there's no ledger to anchor the curve
+  curve: BankrollPoint[];          // end-of-day balance, ledger moves and settled bets
+  current: number;
+  peak: number;
+  maxDrawdown: number;             // largest fall from a running peak
+  maxDrawdownPct: number | null;   // as a percentage of that peak (dollars only)
+  deposits: number;
+  withdrawals: number;
+}
+
+export interface StakeSuggestion {
+  fullKelly: number;       // Kelly fraction of bankroll, before the multiplier
+  fraction: number;        // after the multiplier and the max-bet cap
+  dollars: number;
+  units: number;           // rounded to 0.1u
+  capped: boolean;
+}
+
+/** Dollars per unit at a given bankroll. */
+export function unitDollars(settings: BankrollSettings, bankroll: number): number {
+  return settings.unitMode === 'percent' ? (bankroll * settings.unitValue) / 100 : settings.unitValue;
+}
+
+/** Full-Kelly fraction of bankroll for win probability p at American odds; 0 when there's no edge. */
+export function kellyFraction(p: number, odds: number): number {
+  const b = americanToDecimal(odds) - 1;
+  if (!(b > 0) || !(p > 0)) return 0;
+  return Math.min(1, Math.max(0, (b * p - (1 - p)) / b));
+}
+
+/** Fractional-Kelly stake, capped at maxBetPct of the bankroll and expressed in units too. */
+export function suggestStake(p: number, odds: number, bankroll: number, settings: BankrollSettings): StakeSuggestion {
+  const fullKelly = kellyFraction(p, odds);
+  const scaled = fullKelly * settings.kellyMultiplier;
+  const cap = settings.maxBetPct / 100;
+  const fraction = Math.min(scaled, cap);
+  const dollars = Math.max(0, bankroll) * fraction;
+  const unit = unitDollars(settings, bankroll);
+  const units = unit > 0 ? Math.round((dollars / unit) * 10) / 10 : 0;
+  return { fullKelly, fraction, dollars, units, capped: scaled > cap };
+}
+
+// Profit in units of a settled bet (pushes and pending are 0)
+function betProfitUnits(bet: Pick<Bet, 'status' | 'stake' | 'odds' | 'payoutOdds'>): number {
+  if (bet.status === 'won') return calculateProfit(bet.stake, paidOdds(bet));
+  if (bet.status === 'lost') return -bet.stake;
+  return 0;
+}
+
+/**
+ * Walk ledger moves and settled bets in date order (ledger first within a
+ * day). With a ledger the balance is dollars and each bet is sized at the
+ * unit in force when it settled — so percent units grow and shrink with the
+ * roll. Without one the curve is cumulative units from zero.
+ */
+export function bankrollReport(
+  bets: Pick<Bet, 'status' | 'stake' | 'odds' | 'payoutOdds' | 'eventDate'>[],
+  ledger: BankrollEntry[] = [],
+  settings: BankrollSettings = DEFAULT_BANKROLL_SETTINGS,
+): BankrollReport {
+  const inDollars = ledger.length > 0;
+  // Ledger moves carry a cash delta; bets carry their unit profit
+  type Move = { date: string; order: number; cash: number; units: number };
+  const moves: Move[] = [
+    ...ledger.map((e) => ({ date: e.date, order: 0, cash: e.kind === 'deposit' ? e.amount : -e.amount, units: 0 })),
+    ...bets
+      .filter((b) => b.status !== 'pending')
+      .map((b) => ({ date: b.eventDate, order: 1, cash: 0, units: betProfitUnits(b) })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.order - b.order);
+
+  const curve: BankrollPoint[] = [];
+  let balance = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownPct: number | null = inDollars ? 0 : null;
+  for (const m of moves) {
+    if (m.cash) {
+      // Deposits and withdrawals move the peak with the balance — only
+      // betting results count toward drawdown
+      balance += m.cash;
+      peak += m.cash;
+    } else {
+      balance += m.units * (inDollars ? unitDollars(settings, balance) : 1);
+    }
+    peak = Math.max(peak, balance);
+    const dd = peak - balance;
+    if (dd > maxDrawdown) maxDrawdown = dd;
+    if (maxDrawdownPct !== null && peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, (dd / peak) * 100);
+    const last = curve[curve.length - 1];
+    if (last?.date === m.date) last.balance = balance;
+    else curve.push({ date: m.date, balance });
+  }
+
+  const sum = (kind: BankrollEntryKind) => ledger.filter((e) => e.kind === kind).reduce((s, e) => s + e.amount, 0);
+  return {
+    currency: inDollars ? 'dollars' : 'units',
+    curve,
+    current: balance,
+    peak,
+    maxDrawdown,
+    maxDrawdownPct,
+    deposits: sum('deposit'),
+    withdrawals: sum('withdrawal'),
+  };
+}
@@ -0,0 +1,90 @@
+// src/lib/bankrollService.ts
+// Supabase access for the bankroll ledger and sizing settings (sql/bankroll.sql).
+// The math lives in lib/bankroll.ts.
+
+import { supabase } from './supabase';
+import {
+  DEFAULT_BANKROLL_SETTINGS,
+  type BankrollEntry,
+  type BankrollEntryKind,
+  type BankrollSettings,
+} from './bankroll';
+
+interface DatabaseBankrollEntry {
+  id: string;
+  date: string;
+  kind: BankrollEntryKind;
+  amount: number | string;   // numeric comes back as a string
+  note: string | null;
+}
+
+interface DatabaseBankrollSettings {
+  unit_mode: BankrollSettings['unitMode'];
+  unit_value: number | string;
+  kelly_multiplier: number | string;
+  max_bet_pct: number | string;
+}
+
+export async function fetchBankroll(): Promise<{ ledger: BankrollEntry[]; settings: BankrollSettings }> {
+  const [ledgerRes, settingsRes] = await Promise.all([
+    supabase.from('bankroll_ledger').select('*').order('date', { ascending: true }),
+    supabase.from('bankroll_settings').select('*').eq('id', 1).maybeSingle(),
+  ]);
+
+  if (ledgerRes.error) console.error('Error fetching bankroll ledger:', ledgerRes.error);
+  if (settingsRes.error) console.error('Error fetching bankroll settings:', settingsRes.error);
+
+  const ledger = ((ledgerRes.data ?? []) as DatabaseBankrollEntry[]).map(row => ({
+    id: row.id,
+    date: row.date,
+    kind: row.kind,
+    amount: Number(row.amount),
+    note: row.note || undefined,
+  }));
+  const s = settingsRes.data as DatabaseBankrollSettings | null;
+  const settings: BankrollSettings = s
+    ? {
+        unitMode: s.unit_mode,
+        unitValue: Number(s.unit_value),
+        kellyMultiplier: Number(s.kelly_multiplier),
+        maxBetPct: Number(s.max_bet_pct),
+      }
+    : DEFAULT_BANKROLL_SETTINGS;
+  return { ledger, settings };
+}
+
+export async function addBankrollEntry(entry: Omit<BankrollEntry, 'id'>) {
+  const { error } = await supabase.from('bankroll_ledger').insert([{
+    date: entry.date,
+    kind: entry.kind,
+    amount: entry.amount,
+    note: entry.note || null,
+  }]);
+  if (error) {
+    console.error('Error adding bankroll entry:', error);
+    throw error;
+  }
+}
+
+export async function deleteBankrollEntry(id: string) {
+  const { error } = await supabase.from('bankroll_ledger').delete().eq('id', id);
+  if (error) {
+    console.error('Error deleting bankroll entry:', error);
+    throw error;
+  }
+}
+
+export async function saveBankrollSettings(settings: BankrollSettings) {
+  const { error } = await supabase.from('bankroll_settings').upsert({
+    id: 1,
+    unit_mode: settings.unitMode,
+    unit_value: settings.unitValue,
+    kelly_multiplier: settings.kellyMultiplier,
+    max_bet_pct: settings.maxBetPct,
+    updated_at: new Date().toISOString(),
+  });
+  if (error) {
+    console.error('Error saving bankroll settings:', error);
+    throw error;
+  }
+}
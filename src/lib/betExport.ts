@@ -0,0 +1,107 @@
+// src/lib/betExport.ts
+// Full bet export for reconciling against the books and offline backups:
+// every tracked bet with its settled profit (units and, given a unit size,
+// dollars) and CLV against the captured close, as CSV or a JSON backup that
+// lib/betImport.ts can restore.
+// Pure functions — no I/O. Tested by scripts/bets.test.ts.
+
+import type { Bet } from './betService';
+import { calculateProfit, paidOdds } from './betProfit';
+import type { BankrollEntry, BankrollSettings } from './bankroll';
+import { betClv, type BetClv } from './clv';
+
+export const BACKUP_VERSION = 1;
+
+/** Settled profit in units: win at the price paid, loss of the stake, push flat; null while pending. */
+export function betProfit(bet: Pick<Bet, 'status' | 'stake' | 'odds' | 'payoutOdds'>): number | null {
+  switch (bet.status) {
+    case 'won': return Math.round(calculateProfit(bet.stake, paidOdds(bet)) * 100) / 100;
+    case 'lost': return -bet.stake;
+    case 'push': return 0;
+    default: return null;
+  }
+}
+
+export interface ExportedBet extends Bet {
+  profit: number | null;
+  clv: BetClv | null;
+}
+
+const withComputed = (bet: Bet): ExportedBet => ({ ...bet, profit: betProfit(bet), clv: betClv(bet) });
+
+// ============================================
+// CSV
+// ============================================
+
+const CSV_COLUMNS: { header: string; value: (b: ExportedBet, unitDollars: number | null) => string | number | undefined | null }[] = [
+  { header: 'id', value: (b) => b.id },
+  { header: 'placed', value: (b) => b.date },
+  { header: 'event_date', value: (b) => b.eventDate },
+  { header: 'sport', value: (b) => b.sport },
+  { header: 'league', value: (b) => b.league },
+  { header: 'book', value: (b) => b.book },
+  { header: 'bet_type', value: (b) => b.betType },
+  { header: 'bet', value: (b) => b.bet },
+  { header: 'description', value: (b) => b.description },
+  { header: 'away_team', value: (b) => b.awayTeam },
+  { header: 'home_team', value: (b) => b.homeTeam },
+  { header: 'team', value: (b) => b.team },
+  { header: 'odds', value: (b) => b.odds },
+  { header: 'payout_odds', value: (b) => b.payoutOdds },
+  { header: 'stake_units', value: (b) => b.stake },
+  { header: 'stake_dollars', value: (b, u) => (u ? (b.stake * u).toFixed(2) : null) },
+  { header: 'status', value: (b) => b.status },
+  { header: 'result', value: (b) => b.result },
+  { header: 'profit_units', value: (b) => b.profit },
+  { header: 'profit_dollars', value: (b, u) => (u && b.profit !== null ? (b.profit * u).toFixed(2) : null) },
+  { header: 'closing_line', value: (b) => b.closingLine },
+  { header: 'closing_odds', value: (b) => b.closingOdds },
+  { header: 'closing_source', value: (b) => b.closingSource },
+  { header: 'clv_points', value: (b) => b.clv?.points },
+  { header: 'clv_cents', value: (b) => b.clv?.cents },
+  { header: 'clv_prob_edge', value: (b) => b.clv?.probEdge },
+  { header: 'legs', value: (b) => (b.legs?.length ? JSON.stringify(b.legs) : null) },
+  { header: 'teaser_points', value: (b) => b.teaserPoints },
+  { header: 'notes', value: (b) => b.notes },
+];
+
+export function csvCell(value: string | number | undefined | null): string {
+  if (value === undefined || value === null) return '';
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** One row per bet, oldest first. Dollar columns are filled when a unit size is given. */
+export function betsToCsv(bets: Bet[], unitDollars: number | null = null): string {
+  const sorted = [...bets].sort((a, b) => a.date.localeCompare(b.date) || a.eventDate.localeCompare(b.eventDate));
+  const lines = [CSV_COLUMNS.map((c) => c.header).join(',')];
+  for (const bet of sorted.map(withComputed)) {
+    lines.push(CSV_COLUMNS.map((c) => csvCell(c.value(bet, unitDollars))).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+// ============================================
+// JSON backup
+// ============================================
+
+export interface BetBackup {
+  version: number;
+  exportedAt: string;
+  bets: ExportedBet[];
+  bankroll?: { ledger: BankrollEntry[]; settings: BankrollSettings };
+}
+
+/** Everything needed to rebuild the tracker, plus the computed columns for reading it offline. */
+export function betsToBackup(
+  bets: Bet[],
+  bankroll?: BetBackup['bankroll'],
+  now: Date = new Date(),
+): BetBackup {
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    bets: bets.map(withComputed),
+    ...(bankroll ? { bankroll } : {}),
+  };
+}
@@ -0,0 +1,465 @@
+// src/lib/betImport.ts
+// Bulk bet import for the tracker: CSV parsing, header → field mapping
+// (guessed from common header spellings, editable in the admin preview), and
+// duplicate detection against the bets already tracked and within the file
+// itself. There are no per-book presets until real exports have been sampled:
+// the caller picks the book for files without a Book column and turns on
+// contract fills for exchange trades. Stakes are read in dollars and converted
+// to units at the caller's unit size.
+// Pure functions — no I/O. Tested by scripts/bets.test.ts.
+
+import type { Bet, BetLeg, BetStatus, BetType } from './betService';
+import { decimalToAmerican } from './betLegs';
+
+export type ImportField =
+  | 'date' | 'eventDate' | 'sport' | 'league' | 'description' | 'awayTeam' | 'homeTeam'
+  | 'betType' | 'bet' | 'odds' | 'stake' | 'payout' | 'status' | 'book' | 'notes' | 'ticket'
+  // Contract fills (Kalshi): contracts bought at a price, plus fees
+  | 'side' | 'contracts' | 'price' | 'fees';
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;   // field → CSV header
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: 'date', label: 'Placed' },
+  { field: 'eventDate', label: 'Event date' },
+  { field: 'league', label: 'League' },
+  { field: 'sport', label: 'Sport' },
+  { field: 'description', label: 'Event' },
+  { field: 'awayTeam', label: 'Away' },
+  { field: 'homeTeam', label: 'Home' },
+  { field: 'betType', label: 'Bet type' },
+  { field: 'bet', label: 'Selection' },
+  { field: 'odds', label: 'Odds' },
+  { field: 'stake', label: 'Stake ($)' },
+  { field: 'payout', label: 'Payout ($)' },
+  { field: 'status', label: 'Result' },
+  { field: 'book', label: 'Book' },
+  { field: 'ticket', label: 'Ticket / bet ID' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'side', label: 'Side (Kalshi)' },
+  { field: 'contracts', label: 'Contracts (Kalshi)' },
+  { field: 'price', label: 'Price (Kalshi)' },
+  { field: 'fees', label: 'Fees (Kalshi)' },
+];
+
+// Header spellings seen across trackers, compared case- and
+// punctuation-insensitively
+const HEADER_ALIASES: Partial<Record<ImportField, string[]>> = {
+  date: ['date', 'placed', 'placed date', 'date placed', 'placed at', 'bet date', 'created', 'created time'],
+  eventDate: ['event date', 'game date', 'start time', 'event start', 'settled date', 'settled'],
+  sport: ['sport'],
+  league: ['league', 'competition'],
+  description: ['description', 'event', 'event name', 'game', 'matchup', 'market', 'title', 'market title', 'ticker'],
+  awayTeam: ['away', 'away team'],
+  homeTeam: ['home', 'home team'],
+  betType: ['bet type', 'type', 'wager type', 'market type'],
+  bet: ['bet', 'selection', 'pick', 'wager', 'leg'],
+  odds: ['odds', 'price american', 'american odds', 'line odds'],
+  stake: ['stake', 'risk', 'amount', 'wager amount', 'total stake', 'bet amount'],
+  payout: ['payout', 'to pay', 'return', 'returns', 'winnings', 'total payout', 'realized revenue', 'revenue'],
+  status: ['status', 'result', 'outcome', 'settlement', 'bet status'],
+  book: ['book', 'sportsbook', 'bookmaker', 'site'],
+  notes: ['notes', 'note', 'comment'],
+  ticket: ['ticket', 'ticket id', 'bet id', 'receipt id', 'id', 'order id', 'trade id'],
+  side: ['side', 'direction', 'position'],
+  contracts: ['contracts', 'count', 'quantity', 'filled'],
+  price: ['price', 'average price', 'avg price', 'yes price', 'no price'],
+  fees: ['fees', 'fee', 'trading fees'],
+};
+
+// Leagues the tracker files bets under, and their sport
+export const LEAGUE_SPORT: Record<string, string> = {
+  NFL: 'Football', NCAAF: 'Football', NBA: 'Basketball', NCAAB: 'Basketball', WNBA: 'Basketball',
+  MLB: 'Baseball', NHL: 'Hockey', MLS: 'Soccer', EPL: 'Soccer',
+};
+
+const LEAGUE_WORDS: [RegExp, string][] = [
+  [/\b(ncaaf|cfb|college football)\b/i, 'NCAAF'],
+  [/\b(ncaab|cbb|college basketball|ncaam)\b/i, 'NCAAB'],
+  [/\bnfl\b/i, 'NFL'],
+  [/\bwnba\b/i, 'WNBA'],
+  [/\bnba\b/i, 'NBA'],
+  [/\bmlb\b/i, 'MLB'],
+  [/\bnhl\b/i, 'NHL'],
+  [/\bmls\b/i, 'MLS'],
+  [/\b(epl|premier league)\b/i, 'EPL'],
+];
+
+// ============================================
+// CSV
+// ============================================
+
+/** RFC 4180 CSV: quoted fields, doubled quotes, embedded newlines, CRLF. Blank lines dropped. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some((f) => f.trim())) rows.push(row);
+      row = [];
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some((f) => f.trim())) rows.push(row);
+  return rows;
+}
+
+const normHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const FILL_FIELDS: ImportField[] = ['side', 'contracts', 'price', 'fees'];
+
+/**
+ * First header matching each field's aliases (in alias order); unmatched
+ * fields left out. The contract-fill fields are only guessed for fills.
+ */
+export function guessMapping(headers: string[], contractFills = false): ColumnMapping {
+  const byNorm = new Map(headers.map((h) => [normHeader(h), h]));
+  const used = new Set<string>();
+  const mapping: ColumnMapping = {};
+  for (const { field } of IMPORT_FIELDS) {
+    if (!contractFills && FILL_FIELDS.includes(field)) continue;
+    for (const alias of HEADER_ALIASES[field] ?? []) {
+      const header = byNorm.get(alias);
+      if (header && !used.has(header)) {
+        mapping[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+  return mapping;
+}
+
+// ============================================
+// Value parsing
+// ============================================
+
+/** Dollars from "$1,234.50", "(5.00)", "-5". */
+export function parseMoney(raw: string | undefined): number | null {
+  const s = raw?.trim();
+  if (!s) return null;
+  const negative = /^\(.*\)$/.test(s) || /^-|−/.test(s);
+  const n = parseFloat(s.replace(/[^0-9.]/g, ''));
+  return Number.isFinite(n) ? (negative ? -n : n) : null;
+}
+
+/** American odds from "+150", "-110", "EVEN", or decimal "2.50". */
+export function parseOdds(raw: string | undefined): number | null {
+  const s = raw?.trim().replace(/−/g, '-');
+  if (!s) return null;
+  if (/^(even|evs|ev)$/i.test(s)) return 100;
+  const n = parseFloat(s);
+  if (!Number.isFinite(n)) return null;
+  if (/^[+-]/.test(s) || Math.abs(n) >= 100) return Math.abs(n) >= 100 ? Math.round(n) : null;
+  // Unsigned and under 100: decimal odds
+  return n > 1 ? decimalToAmerican(n) : null;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** YYYY-MM-DD from ISO, US "10/4/2026", "10/4/26 7:30 PM" or "Oct 4, 2026". */
+export function parseDate(raw: string | undefined): string | null {
+  const s = raw?.trim();
+  if (!s) return null;
+  let m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return `${m[1]}-${pad(+m[2])}-${pad(+m[3])}`;
+  m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+  if (m) return `${m[3].length === 2 ? `20${m[3]}` : m[3]}-${pad(+m[1])}-${pad(+m[2])}`;
+  m = s.match(/^(?:[a-z]+,?\s+)?([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})/i);
+  if (m && MONTHS.includes(m[1].toLowerCase())) {
+    return `${m[3]}-${pad(MONTHS.indexOf(m[1].toLowerCase()) + 1)}-${pad(+m[2])}`;
+  }
+  return null;
+}
+
+/** Tracker status from a book's result text; null when unrecognised. */
+export function parseStatus(raw: string | undefined): BetStatus | null {
+  const s = raw?.trim().toLowerCase();
+  if (!s) return null;
+  if (/^(won|win|w|winner|cashed out|cashout|paid)$/.test(s) || /\bwon\b/.test(s)) return 'won';
+  if (/^(lost|loss|lose|l|loser)$/.test(s) || /\blost\b/.test(s)) return 'lost';
+  if (/^(push|p|void|voided|refund|refunded|cancelled|canceled|draw no bet)$/.test(s)) return 'push';
+  if (/^(pending|open|unsettled|active|accepted|placed|resting)$/.test(s)) return 'pending';
+  return null;
+}
+
+/** Bet type from the type column, else from the selection text. */
+export function inferBetType(typeText: string | undefined, betText: string): BetType {
+  const t = `${typeText ?? ''}`.toLowerCase();
+  if (/teaser/.test(t)) return 'teaser';
+  if (/parlay|sgp|same game|multi|accumulator/.test(t)) return 'parlay';
+  if (/future|outright|to win/.test(t)) return 'future';
+  if (/prop|player/.test(t)) return 'prop';
+  if (/total|over|under/.test(t)) return 'total';
+  if (/spread|handicap|run line|puck line/.test(t)) return 'spread';
+  if (/moneyline|money line|\bml\b|winner/.test(t)) return 'moneyline';
+  const b = betText.trim();
+  if (/^(over|under|o|u)\s*[0-9]/i.test(b)) return 'total';
+  if (/\s[+-][0-9]+(\.[0-9]+)?$/.test(b) || /\s(pk|pick)$/i.test(b)) return 'spread';
+  if (/\s(ml|moneyline)$/i.test(b)) return 'moneyline';
+  return 'prop';
+}
+
+/** League named anywhere in the row text. */
+export function inferLeague(...texts: (string | undefined)[]): string | null {
+  const joined = texts.filter(Boolean).join(' ');
+  for (const [re, league] of LEAGUE_WORDS) if (re.test(joined)) return league;
+  return null;
+}
+
+/** Away/home from "Away @ Home", "Away at Home" or "Away vs Home". */
+export function splitMatchup(text: string | undefined): { awayTeam: string; homeTeam: string } | null {
+  const m = text?.match(/^(.+?)\s+(?:@|at|vs\.?|v)\s+(.+)$/i);
+  return m ? { awayTeam: m[1].trim(), homeTeam: m[2].trim() } : null;
+}
+
+// ============================================
+// Rows → bets
+// ============================================
+
+export type ImportBet = Omit<Bet, 'id'>;
+
+export interface ImportRow {
+  line: number;              // 1-based line in the file (header = 1); entry in a JSON backup
+  bet: ImportBet | null;     // null when the row couldn't be read
+  errors: string[];
+  duplicate: 'existing' | 'file' | null;
+}
+
+export interface ImportOptions {
+  book?: string;             // book for rows without a Book column
+  contractFills?: boolean;   // rows are contract fills (Kalshi): stake and odds from contracts × price
+  unitDollars: number;       // dollars per unit; book stakes are converted
+  today?: string;            // YYYY-MM-DD fallback for a missing placed date
+  defaultLeague?: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function rowToBet(cells: Record<string, string>, mapping: ColumnMapping, options: ImportOptions): { bet: ImportBet | null; errors: string[] } {
+  const get = (field: ImportField) => {
+    const header = mapping[field];
+    return header ? cells[header]?.trim() ?? '' : '';
+  };
+  const errors: string[] = [];
+
+  const date = parseDate(get('date')) ?? options.today ?? null;
+  const eventDate = parseDate(get('eventDate')) ?? date;
+  if (!date) errors.push('no placed date');
+
+  let odds = parseOdds(get('odds'));
+  let dollars = parseMoney(get('stake'));
+  const payout = parseMoney(get('payout'));
+  let betText = get('bet');
+  const description = get('description');
+
+  if (options.contractFills) {
+    // Contracts pay $1; cost is contracts × price plus fees
+    const contracts = parseFloat(get('contracts'));
+    const rawPrice = parseFloat(get('price'));
+    const price = rawPrice > 1 ? rawPrice / 100 : rawPrice;
+    const fees = parseMoney(get('fees')) ?? 0;
+    if (contracts > 0 && price > 0 && price < 1) {
+      dollars = dollars ?? round2(contracts * price + Math.abs(fees));
+      odds = odds ?? decimalToAmerican(contracts / dollars);
+    }
+    const side = get('side').toUpperCase();
+    if (!betText) betText = [side, description].filter(Boolean).join(' ');
+  }
+
+  if (odds === null) errors.push('no odds');
+  if (dollars === null || dollars <= 0) errors.push('no stake');
+  if (!betText) errors.push('no selection');
+  if (errors.length) return { bet: null, errors };
+
+  let status = parseStatus(get('status'));
+  if (!status && payout !== null) {
+    status = payout > dollars! + 0.005 ? 'won' : Math.abs(payout - dollars!) <= 0.005 ? 'push' : payout === 0 ? 'lost' : null;
+  }
+
+  const betType = inferBetType(get('betType'), betText);
+  const matchup = splitMatchup(description);
+  const awayTeam = get('awayTeam') || matchup?.awayTeam || undefined;
+  const homeTeam = get('homeTeam') || matchup?.homeTeam || undefined;
+  const league = get('league').toUpperCase() || inferLeague(description, betText, get('sport')) || options.defaultLeague || '';
+  const sport = get('sport') || LEAGUE_SPORT[league] || '';
+  const team = betType === 'spread' || betType === 'moneyline'
+    ? betText.replace(/\s+([+-]?[0-9]+(\.[0-9]+)?|pk|pick|ml|moneyline)$/i, '').trim() || undefined
+    : undefined;
+  const ticket = get('ticket');
+  const notes = [get('notes'), ticket ? `Ticket ${ticket}` : ''].filter(Boolean).join(' · ') || undefined;
+
+  return {
+    bet: {
+      date: date!,
+      eventDate: eventDate!,
+      sport,
+      league,
+      description: description || betText,
+      awayTeam,
+      homeTeam,
+      team,
+      betType,
+      bet: betType === 'moneyline' && !/\s(ml|moneyline)$/i.test(betText) ? `${betText} ML` : betText,
+      odds: odds!,
+      stake: round2(dollars! / options.unitDollars),
+      status: status ?? 'pending',
+      result: payout !== null && status && status !== 'pending' ? `Payout $${payout.toFixed(2)}` : undefined,
+      book: get('book') || options.book || undefined,
+      notes,
+    },
+    errors: [],
+  };
+}
+
+// Same placed date, selection, price, stake and book — or the same book ticket
+export function betFingerprint(bet: Pick<Bet, 'date' | 'bet' | 'odds' | 'stake' | 'book'>): string {
+  return [
+    bet.date,
+    bet.bet.toLowerCase().replace(/[^a-z0-9.+-]+/g, ' ').trim(),
+    bet.odds,
+    bet.stake.toFixed(2),
+    (bet.book ?? '').toLowerCase(),
+  ].join('|');
+}
+
+const ticketOf = (notes?: string) => notes?.match(/Ticket (\S+)/)?.[1] ?? null;
+
+/**
+ * Map parsed CSV rows (header first) to tracker bets, flagging rows already
+ * tracked and repeats within the file. Nothing is written here — the admin
+ * page previews the result and commits the rows the user keeps.
+ */
+export function importRows(rows: string[][], mapping: ColumnMapping, existing: Bet[], options: ImportOptions): ImportRow[] {
+  if (options.unitDollars <= 0) throw new Error('unitDollars must be positive');
+  const [headers = [], ...body] = rows;
+  const seen = new Set(existing.map(betFingerprint));
+  const seenTickets = new Set(existing.map((b) => ticketOf(b.notes)).filter((t): t is string => !!t));
+  const inFile = new Set<string>();
+
+  return body.map((cells, i) => {
+    const record = Object.fromEntries(headers.map((h, j) => [h, cells[j] ?? '']));
+    const { bet, errors } = rowToBet(record, mapping, options);
+    let duplicate: ImportRow['duplicate'] = null;
+    if (bet) {
+      const key = betFingerprint(bet);
+      const ticket = ticketOf(bet.notes);
+      if (seen.has(key) || (ticket && seenTickets.has(ticket))) duplicate = 'existing';
+      else if (inFile.has(key) || (ticket && inFile.has(`ticket:${ticket}`))) duplicate = 'file';
+      inFile.add(key);
+      if (ticket) inFile.add(`ticket:${ticket}`);
+    }
+    return { line: i + 2, bet, errors, duplicate };
+  });
+}
+
+// ============================================
+// JSON backup restore
+// ============================================
+
+const BET_TYPES: BetType[] = ['spread', 'moneyline', 'total', 'prop', 'parlay', 'teaser', 'future'];
+const BET_STATUSES: BetStatus[] = ['pending', 'won', 'lost', 'push'];
+const LEG_MARKETS: BetLeg['market'][] = ['spread', 'moneyline', 'total'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Optional fields a backup may carry, by type; anything else in the file is dropped
+const OPTIONAL_TEXT = ['awayTeam', 'homeTeam', 'team', 'result', 'notes', 'book', 'closingSource', 'reviewReason'] as const;
+const OPTIONAL_NUMBER = ['teaserPoints', 'closingLine'] as const;
+const OPTIONAL_ODDS = ['payoutOdds', 'closingOdds'] as const;
+
+const isText = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isOdds = (v: unknown): v is number => isNumber(v) && Math.abs(v) >= 100;
+const isDate = (v: unknown): v is string => isText(v) && ISO_DATE.test(v);
+const isSet = (v: unknown) => v !== undefined && v !== null;
+
+function isLeg(v: unknown): v is BetLeg {
+  if (!v || typeof v !== 'object') return false;
+  const l = v as Record<string, unknown>;
+  return isText(l.sport) && isText(l.league) && isDate(l.eventDate) && isText(l.awayTeam) && isText(l.homeTeam)
+    && LEG_MARKETS.includes(l.market as BetLeg['market']) && isText(l.selection)
+    && BET_STATUSES.includes(l.status as BetStatus)
+    && (!isSet(l.line) || isNumber(l.line)) && (!isSet(l.odds) || isOdds(l.odds)) && (!isSet(l.result) || isText(l.result));
+}
+
+// One backup entry → a bet with the tracker's own fields, or what's wrong with it
+function backupToBet(entry: unknown): { bet: ImportBet | null; errors: string[] } {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return { bet: null, errors: ['not a bet'] };
+  const b = entry as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isDate(b.date)) errors.push('bad placed date');
+  if (!isDate(b.eventDate)) errors.push('bad event date');
+  if (!isText(b.sport)) errors.push('no sport');
+  if (!isText(b.league)) errors.push('no league');
+  if (!isText(b.description)) errors.push('no description');
+  if (!BET_TYPES.includes(b.betType as BetType)) errors.push('bad bet type');
+  if (!isText(b.bet) || !b.bet.trim()) errors.push('no selection');
+  if (!isOdds(b.odds)) errors.push('bad odds');
+  if (!isNumber(b.stake) || b.stake <= 0) errors.push('bad stake');
+  if (!BET_STATUSES.includes(b.status as BetStatus)) errors.push('bad status');
+  for (const key of OPTIONAL_TEXT) if (isSet(b[key]) && !isText(b[key])) errors.push(`bad ${key}`);
+  for (const key of OPTIONAL_NUMBER) if (isSet(b[key]) && !isNumber(b[key])) errors.push(`bad ${key}`);
+  for (const key of OPTIONAL_ODDS) if (isSet(b[key]) && !isOdds(b[key])) errors.push(`bad ${key}`);
+  if (isSet(b.parlayTeams) && !(Array.isArray(b.parlayTeams) && b.parlayTeams.every(isText))) errors.push('bad parlayTeams');
+  if (isSet(b.legs) && !(Array.isArray(b.legs) && b.legs.every(isLeg))) errors.push('bad legs');
+  if (errors.length) return { bet: null, errors };
+
+  const bet: ImportBet = {
+    date: b.date as string,
+    eventDate: b.eventDate as string,
+    sport: b.sport as string,
+    league: b.league as string,
+    description: b.description as string,
+    betType: b.betType as BetType,
+    bet: b.bet as string,
+    odds: b.odds as number,
+    stake: b.stake as number,
+    status: b.status as BetStatus,
+  };
+  for (const key of [...OPTIONAL_TEXT, ...OPTIONAL_NUMBER, ...OPTIONAL_ODDS, 'parlayTeams', 'legs'] as const) {
+    if (isSet(b[key])) Object.assign(bet, { [key]: b[key] });
+  }
+  return { bet, errors: [] };
+}
+
+/**
+ * Bets from a JSON backup written by lib/betExport.ts, one row per entry
+ * (ids and computed columns dropped), each field checked and bad entries
+ * reported like unreadable CSV lines. Throws when the text isn't JSON.
+ */
+export function parseBackup(text: string, existing: Bet[] = []): ImportRow[] {
+  const data = JSON.parse(text);
+  const list: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.bets) ? data.bets : [];
+  const seen = new Set(existing.map(betFingerprint));
+  const inFile = new Set<string>();
+
+  return list.map((entry, i) => {
+    const { bet, errors } = backupToBet(entry);
+    let duplicate: ImportRow['duplicate'] = null;
+    if (bet) {
+      const key = betFingerprint(bet);
+      if (seen.has(key)) duplicate = 'existing';
+      else if (inFile.has(key)) duplicate = 'file';
+      inFile.add(key);
+    }
+    return { line: i + 1, bet, errors, duplicate };
+  });
+}
@@ -0,0 +1,119 @@
+// src/lib/betLegs.ts
+// Parlay and teaser legs: leg text, teaser line moves, combined pricing from
+// the legs, and grading the parent from its graded legs. A pushed leg drops
+// out and the ticket is paid at the price of the legs that are left.
+// Pure functions — no I/O. Tested by scripts/bets.test.ts.
+
+import type { Bet, BetLeg, BetStatus } from './betService';
+import { americanToDecimal } from './arbs';
+import { gradeBet, type FinalScore, type Grade } from './settlement';
+
+// Standard teaser card by tease points → legs → American price. Football
+// teases 6 / 6.5 / 7, basketball 4 / 4.5 / 5 on the same ladder.
+export const TEASER_PRICES: Record<number, Record<number, number>> = {
+  4: { 2: -110, 3: 180, 4: 300, 5: 450, 6: 600 },
+  4.5: { 2: -120, 3: 160, 4: 250, 5: 400, 6: 500 },
+  5: { 2: -130, 3: 140, 4: 200, 5: 350, 6: 450 },
+  6: { 2: -110, 3: 180, 4: 300, 5: 450, 6: 600 },
+  6.5: { 2: -120, 3: 160, 4: 250, 5: 400, 6: 500 },
+  7: { 2: -130, 3: 140, 4: 200, 5: 350, 6: 450 },
+};
+
+export const TEASER_POINTS = Object.keys(TEASER_PRICES).map(Number).sort((a, b) => a - b);
+
+export interface LegsGrade extends Grade {
+  odds: number;          // price actually paid — lower than the ticket after a pushed leg
+}
+
+const fmtLine = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+export function decimalToAmerican(dec: number): number {
+  return dec >= 2 ? Math.round((dec - 1) * 100) : -Math.round(100 / (dec - 1));
+}
+
+/** A teaser leg with its line moved in the bettor's favour. Moneylines can't be teased. */
+export function teaseLeg(leg: BetLeg, points: number): BetLeg {
+  if (leg.line === undefined || leg.market === 'moneyline') return leg;
+  if (leg.market === 'total') {
+    return { ...leg, line: leg.selection === 'Over' ? leg.line - points : leg.line + points };
+  }
+  return { ...leg, line: leg.line + points };
+}
+
+/** Leg as the tracker writes a straight bet: "Team -3.5", "Over 45.5", "Team ML". */
+export function legText(leg: BetLeg): string {
+  if (leg.market === 'moneyline' || leg.line === undefined) return `${leg.selection} ML`;
+  if (leg.market === 'total') return `${leg.selection} ${leg.line}`;
+  return `${leg.selection} ${fmtLine(leg.line)}`;
+}
+
+/** Bet text for the whole ticket: "Chiefs -2.5, Bills +7" (teaser legs shown teased). */
+export function legsSummary(legs: BetLeg[], teaserPoints?: number): string {
+  return legs.map((l) => legText(teaserPoints ? teaseLeg(l, teaserPoints) : l)).join(', ');
+}
+
+/** Ticket heading for cards: "3-Leg Parlay", "2-Team 6pt Teaser". */
+export function ticketTitle(legCount: number, teaserPoints?: number | null): string {
+  return teaserPoints ? `${legCount}-Team ${teaserPoints}pt Teaser` : `${legCount}-Leg Parlay`;
+}
+
+/** Parlay price from the legs' own prices; null if any leg has no price. */
+export function parlayPrice(legs: BetLeg[]): number | null {
+  if (!legs.length || legs.some((l) => l.odds === undefined)) return null;
+  return decimalToAmerican(legs.reduce((d, l) => d * americanToDecimal(l.odds!), 1));
+}
+
+/** Teaser price off the standard card, or null for a combination it doesn't list. */
+export function teaserPrice(legCount: number, points: number): number | null {
+  return TEASER_PRICES[points]?.[legCount] ?? null;
+}
+
+/** Combined ticket price computed from the legs. */
+export function combinedPrice(bet: Pick<Bet, 'betType' | 'legs' | 'teaserPoints'>): number | null {
+  if (!bet.legs?.length) return null;
+  if (bet.betType === 'teaser') return bet.teaserPoints ? teaserPrice(bet.legs.length, bet.teaserPoints) : null;
+  return parlayPrice(bet.legs);
+}
+
+/** Grade one leg against its final score, teased first when the ticket is a teaser. */
+export function gradeLeg(leg: BetLeg, final: FinalScore, teaserPoints?: number): Grade | null {
+  const graded = teaserPoints ? teaseLeg(leg, teaserPoints) : leg;
+  return gradeBet({
+    betType: leg.market,
+    bet: legText(graded),
+    team: leg.market === 'total' ? undefined : leg.selection,
+    homeTeam: leg.homeTeam,
+    awayTeam: leg.awayTeam,
+    league: leg.league,
+  }, final);
+}
+
+/**
+ * Grade the ticket from its legs. Any lost leg loses it straight away; until
+ * then it waits on every leg. Pushed legs drop out: a parlay is repriced from
+ * the remaining legs, a teaser drops down the card, and a teaser left with
+ * one leg (or any ticket left with none) is a push. Returns null while legs
+ * are pending, or when a reduced price can't be worked out.
+ */
+export function gradeFromLegs(bet: Pick<Bet, 'betType' | 'odds' | 'legs' | 'teaserPoints'>): LegsGrade | null {
+  const legs = bet.legs ?? [];
+  if (!legs.length) return null;
+  const count = (s: BetStatus) => legs.filter((l) => l.status === s).length;
+  const [won, lost, push] = [count('won'), count('lost'), count('push')];
+
+  if (lost > 0) return { status: 'lost', odds: bet.odds, result: `${lost} of ${legs.length} legs lost` };
+  if (won + push < legs.length) return null;
+
+  const pushNote = `${push} push${push > 1 ? 'es' : ''}`;
+  if (push === 0) return { status: 'won', odds: bet.odds, result: `All ${legs.length} legs won` };
+  if (won === 0 || (bet.betType === 'teaser' && won === 1)) {
+    return { status: 'push', odds: bet.odds, result: `${won} leg${won === 1 ? '' : 's'} won, ${pushNote} — no action` };
+  }
+
+  const live = legs.filter((l) => l.status === 'won');
+  const reduced = bet.betType === 'teaser'
+    ? (bet.teaserPoints ? teaserPrice(live.length, bet.teaserPoints) : null)
+    : parlayPrice(live);
+  if (reduced === null) return null;
+  return { status: 'won', odds: reduced, result: `${won} legs won, ${pushNote} — paid at ${fmtLine(reduced)}` };
+}
@@ -0,0 +1,19 @@
+// src/lib/betProfit.ts
+// Profit on a won bet, and the price it paid at: a parlay or teaser reduced
+// by a pushed leg pays payoutOdds (set by lib/settleBets.ts) while odds stays
+// the ticket price. Re-exported by lib/betService.ts.
+// Pure functions — no I/O. Tested by scripts/bets.test.ts.
+
+import type { Bet } from './betService';
+
+// The price a won bet paid: the reduced parlay/teaser price after a push, else the ticket odds
+export const paidOdds = (bet: Pick<Bet, 'odds' | 'payoutOdds'>): number => bet.payoutOdds ?? bet.odds;
+
+// Calculate profit for a winning bet (returns profit only, not total payout)
+export function calculateProfit(stake: number, odds: number): number {
+  if (odds > 0) {
+    return stake * (odds / 100);
+  } else {
+    return stake / (Math.abs(odds) / 100);
+  }
+}
@@ -1,11 +1,31 @@
 // src/lib/betService.ts
 // This replaces your myBets.ts file functionality with Supabase integration
 
-import { supabase } from './supabase';
+import { supabase, type DatabaseBet } from './supabase';
+import { summarizeClv } from './clv';
+import { bankrollReport, type BankrollEntry, type BankrollSettings } from './bankroll';
+import { calculateProfit, paidOdds } from './betProfit';
 
 export type BetStatus = 'pending' | 'won' | 'lost' | 'push';
 export type BetType = 'spread' | 'moneyline' | 'total' | 'prop' | 'parlay' | 'teaser' | 'future';
 
+// One leg of a parlay or teaser — a straight bet on its own game, graded on
+// its own (see lib/betLegs.ts). `line` is the number as bet; teaser legs are
+// moved by the parent's teaserPoints when priced and graded.
+export interface BetLeg {
+  sport: string;
+  league: string;
+  eventDate: string;
+  awayTeam: string;
+  homeTeam: string;
+  market: 'spread' | 'moneyline' | 'total';
+  selection: string;        // team name, or 'Over' / 'Under'
+  line?: number;
+  odds?: number;            // leg price; parlays only
+  status: BetStatus;
+  result?: string;
+}
+
 // This matches your existing Bet interface
 export interface Bet {
   id: string;
@@ -26,23 +46,23 @@ export interface Bet {
   book?: string;
   team?: string;
   parlayTeams?: string[];
+  // Structured parlay/teaser legs; older parlays only have parlayTeams
+  legs?: BetLeg[];
+  teaserPoints?: number;
+  // Reduced price a parlay/teaser paid at after a leg pushed; odds stays the
+  // ticket price (set by lib/settleBets.ts)
+  payoutOdds?: number;
+  // Close of the bet's exact market, captured at tip (see lib/clvCapture.ts)
+  closingLine?: number;
+  closingOdds?: number;
+  closingSource?: string;
+  // Set when settlement couldn't grade a pending bet (see lib/settleBets.ts)
+  reviewReason?: string;
 }
 
-// Fetch all bets from Supabase
-export async function fetchBets(): Promise<Bet[]> {
-  const { data, error } = await supabase
-    .from('bets')
-    .select('*')
-    .eq('deleted', false)
-    .order('event_date', { ascending: false });
-
-  if (error) {
-    console.error('Error fetching bets:', error);
-    return [];
-  }
-
-  // Transform database format to match your existing format
-  return data.map(dbBet => ({
+// Map a bets row to the app's Bet shape
+export function toBet(dbBet: DatabaseBet): Bet {
+  return {
     id: dbBet.id,
     date: dbBet.date,
     eventDate: dbBet.event_date,
@@ -61,7 +81,31 @@ export async function fetchBets(): Promise<Bet[]> {
     notes: dbBet.notes || undefined,
     book: dbBet.book || undefined,
     parlayTeams: dbBet.parlay_teams || undefined,
-  }));
+    legs: dbBet.legs?.length ? dbBet.legs : undefined,
+    teaserPoints: dbBet.teaser_points ?? undefined,
+    payoutOdds: dbBet.payout_odds ?? undefined,
+    closingLine: dbBet.closing_line ?? undefined,
+    closingOdds: dbBet.closing_odds ?? undefined,
+    closingSource: dbBet.closing_source || undefined,
+    reviewReason: dbBet.review_reason || undefined,
+  };
+}
+
+// Fetch all bets from Supabase
+export async function fetchBets(): Promise<Bet[]> {
+  const { data, error } = await supabase
+    .from('bets')
+    .select('*')
+    .eq('deleted', false)
+    .order('event_date', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching bets:', error);
+    return [];
+  }
+
+  // Transform database format to match your existing format
+  return data.map(toBet);
 }
 
 // Create a new bet
@@ -84,6 +128,9 @@ export async function createBet(bet: Omit<Bet, 'id'>) {
     book: bet.book || null,
     notes: bet.notes || null,
     parlay_teams: bet.parlayTeams || null,
+    legs: bet.legs?.length ? bet.legs : null,
+    teaser_points: bet.teaserPoints ?? null,
+    payout_odds: bet.payoutOdds ?? null,
     deleted: false
   };
 
@@ -121,6 +168,13 @@ export async function updateBet(id: string, updates: Partial<Bet>) {
     book?: string | null;
     notes?: string | null;
     parlay_teams?: string[] | null;
+    legs?: BetLeg[] | null;
+    teaser_points?: number | null;
+    payout_odds?: number | null;
+    closing_line?: number | null;
+    closing_odds?: number | null;
+    closing_source?: string | null;
+    review_reason?: string | null;
   }
   
   const dbUpdates: DbUpdate = {};
@@ -143,6 +197,13 @@ export async function updateBet(id: string, updates: Partial<Bet>) {
   if (updates.book !== undefined) dbUpdates.book = updates.book || null;
   if (updates.notes !== undefined) dbUpdates.notes = updates.notes || null;
   if (updates.parlayTeams !== undefined) dbUpdates.parlay_teams = updates.parlayTeams || null;
+  if (updates.legs !== undefined) dbUpdates.legs = updates.legs.length ? updates.legs : null;
+  if (updates.teaserPoints !== undefined) dbUpdates.teaser_points = updates.teaserPoints;
+  if (updates.payoutOdds !== undefined) dbUpdates.payout_odds = updates.payoutOdds;
+  if (updates.closingLine !== undefined) dbUpdates.closing_line = updates.closingLine;
+  if (updates.closingOdds !== undefined) dbUpdates.closing_odds = updates.closingOdds;
+  if (updates.closingSource !== undefined) dbUpdates.closing_source = updates.closingSource || null;
+  if (updates.reviewReason !== undefined) dbUpdates.review_reason = updates.reviewReason || null;
 
   const { data, error } = await supabase
     .from('bets')
@@ -181,17 +242,13 @@ export function calculatePayout(stake: number, odds: number): number {
   }
 }
 
-// Calculate profit for a winning bet (returns profit only, not total payout)
-export function calculateProfit(stake: number, odds: number): number {
-  if (odds > 0) {
-    return stake * (odds / 100);
-  } else {
-    return stake / (Math.abs(odds) / 100);
-  }
-}
+// Win profit and the price a won bet paid live in lib/betProfit.ts so the
+// pure bankroll / export / trends modules can share them
+export { calculateProfit, paidOdds } from './betProfit';
 
-// Get statistics for a set of bets
-export function getBetStats(bets: Bet[]) {
+// Get statistics for a set of bets. Pass the bankroll ledger/settings to get
+// the curve in dollars; without them it's cumulative units.
+export function getBetStats(bets: Bet[], bankroll?: { ledger: BankrollEntry[]; settings: BankrollSettings }) {
   const stats = {
     totalBets: bets.length,
     wonBets: bets.filter(b => b.status === 'won').length,
@@ -202,13 +259,17 @@ export function getBetStats(bets: Bet[]) {
     pendingStake: bets.filter(b => b.status === 'pending').reduce((sum, bet) => sum + bet.stake, 0),
     profit: 0,
     winRate: 0,
-    roi: 0
+    roi: 0,
+    // Closing Line Value — pending bets count once their close is captured
+    clv: summarizeClv(bets),
+    // Bankroll curve and max drawdown over settled bets (lib/bankroll.ts)
+    bankroll: bankrollReport(bets, bankroll?.ledger, bankroll?.settings),
   };
 
   // Calculate profit
   bets.forEach(bet => {
     if (bet.status === 'won') {
-      stats.profit += calculateProfit(bet.stake, bet.odds);
+      stats.profit += calculateProfit(bet.stake, paidOdds(bet));
     } else if (bet.status === 'lost') {
       stats.profit -= bet.stake;
     }
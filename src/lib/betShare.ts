@@ -1,7 +1,11 @@
 // src/lib/betShare.ts
 // Shared helpers for turning a tracked bet into share assets (team logo/color,
-// OG card URL). Used by /bet/[id] metadata and the direct Discord post so the
-// two can never drift apart.
+// OG card URL) and the Discord embed. Used by /bet/[id] metadata, the direct
+// Discord post and bet settlement so they can never drift apart.
+
+import type { BetLeg } from './betService';
+import { legText, teaseLeg, ticketTitle } from './betLegs';
+import { resolveTeam, type TeamRecord } from './teams';
 
 export interface ShareBet {
   id?: string;
@@ -23,6 +27,9 @@ export interface ShareBet {
   book?: string | null;
   parlay_teams?: string[] | null;
   parlayTeams?: string[] | null;
+  legs?: BetLeg[] | null;
+  teaser_points?: number | null;
+  teaserPoints?: number | null;
 }
 
 const ESPN_LEAGUE_MAP: { [key: string]: { sport: string; league: string } } = {
@@ -37,18 +44,6 @@ const ESPN_LEAGUE_MAP: { [key: string]: { sport: string; league: string } } = {
   CFL: { sport: 'football', league: 'cfl' },
 };
 
-const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
-
-function matchScore(a: string, b: string): number {
-  const x = a.toLowerCase();
-  const y = b.toLowerCase();
-  if (x === y) return 4;
-  if (x.includes(y) || y.includes(x)) return 3;
-  if (x.split(' ')[0] === y.split(' ')[0]) return 2;
-  if (x.split(' ').slice(-1)[0] === y.split(' ').slice(-1)[0]) return 1;
-  return 0;
-}
-
 const f = <T,>(a: T | null | undefined, b: T | null | undefined): T | null => a ?? b ?? null;
 
 /** The team the wager is ON: bet-text lead / team field / first parlay leg; totals use home. */
@@ -59,7 +54,7 @@ export function wageredTeam(bet: ShareBet): string | null {
   if (type === 'total') return home;
   const lead = bet.bet?.match(/^([A-Za-z .'-]+?)(?:\s+[-+0-9]|,|$)/)?.[1]?.trim();
   const leadNoMl = lead?.replace(/\s+(ml|moneyline)$/i, '').trim();
-  const parlay = f(bet.parlay_teams, bet.parlayTeams);
+  const parlay = f(bet.parlay_teams, bet.parlayTeams) ?? bet.legs?.filter((l) => l.market !== 'total').map((l) => l.selection);
   return bet.team || leadNoMl || lead || parlay?.[0] || home || away || null;
 }
 
@@ -79,22 +74,16 @@ export async function getTeamAssets(
     const teams = (data.sports?.[0]?.leagues?.[0]?.teams ?? []) as Array<{
       team?: { displayName?: string; shortDisplayName?: string; color?: string; logos?: Array<{ href?: string }> };
     }>;
-    let best = 0;
-    let logo: string | null = null;
-    let color: string | null = null;
-    for (const entry of teams) {
-      const t = entry.team;
-      if (!t) continue;
-      const score = Math.max(
-        matchScore(t.displayName || '', teamName),
-        norm(t.shortDisplayName || '') === norm(teamName) ? 4 : 0
-      );
-      if (score > best) {
-        best = score;
-        logo = t.logos?.[0]?.href ?? null;
-        color = t.color ?? null;
-      }
-    }
+    // shortDisplayName ("Ohio State") is ESPN's own alias for the team
+    const registry: TeamRecord[] = teams.flatMap(({ team: t }) =>
+      t?.displayName
+        ? [{ name: t.displayName, aliases: t.shortDisplayName ? [{ name: t.shortDisplayName, source: 'espn' as const }] : [] }]
+        : []
+    );
+    const { team } = resolveTeam(teamName, registry, { source: 'espn' });
+    const match = team ? teams.find((entry) => entry.team?.displayName === team)?.team : undefined;
+    const logo = match?.logos?.[0]?.href ?? null;
+    const color = match?.color ?? null;
     return { logo, color };
   } catch {
     return { logo: null, color: null };
@@ -108,14 +97,20 @@ export function formatOdds(odds: number): string {
 export function buildBetOgUrl(bet: ShareBet, logo: string | null, color: string | null): string {
   const type = bet.bet_type ?? bet.betType;
   const eventDate = bet.event_date ?? bet.eventDate;
+  const teaserPoints = type === 'teaser' ? f(bet.teaser_points, bet.teaserPoints) : null;
+  const legs = bet.legs ?? [];
   const p = new URLSearchParams({
-    pick: bet.bet,
+    pick: legs.length ? ticketTitle(legs.length, teaserPoints) : bet.bet,
     league: bet.league,
     status: bet.status,
     odds: formatOdds(bet.odds),
     units: `${bet.stake}u`,
   });
-  if (type !== 'future' && bet.description) p.set('matchup', bet.description);
+  if (type !== 'future' && bet.description && !legs.length) p.set('matchup', bet.description);
+  // One `leg` param per leg, "text|status", teaser legs shown teased
+  for (const leg of legs) {
+    p.append('leg', `${legText(teaserPoints ? teaseLeg(leg, teaserPoints) : leg)}|${leg.status}`);
+  }
   if (bet.book) p.set('book', bet.book);
   if (logo) p.set('logo', logo);
   if (color) p.set('color', color);
@@ -133,3 +128,45 @@ export function embedColor(hex: string | null): number {
   if (!/^[0-9a-fA-F]{6}$/.test(h)) return 0x2563eb;
   return parseInt(h, 16);
 }
+
+export const STATUS_EMOJI: Record<string, string> = {
+  pending: '🎟️', won: '✅', lost: '❌', push: '➖',
+};
+
+/** Post the bet's rich embed (status emoji, logo, share card) to a Discord webhook. Throws on failure. */
+export async function postBetToDiscord(bet: ShareBet, webhookUrl: string): Promise<void> {
+  const team = wageredTeam(bet);
+  const { logo, color } = await getTeamAssets(bet.league, team);
+  const shareUrl = bet.id ? `https://www.odds.day/bet/${bet.id}` : 'https://www.odds.day';
+  const emoji = STATUS_EMOJI[bet.status] ?? '🎟️';
+  const eventDate = bet.event_date ?? bet.eventDate;
+
+  const embed = {
+    title: `${emoji}  ${bet.bet}`,
+    url: shareUrl,
+    description: [
+      bet.description && (bet.bet_type ?? bet.betType) !== 'future' ? `**${bet.description}**` : null,
+      [bet.league, eventDate
+        ? new Date(eventDate + 'T00:00:00').toLocaleDateString('en-US', {
+            weekday: 'short', month: 'short', day: 'numeric',
+          })
+        : null].filter(Boolean).join(' · '),
+    ].filter(Boolean).join('\n'),
+    color: embedColor(color),
+    // No odds/units/book fields — the share card image already shows them
+    ...(logo ? { thumbnail: { url: logo } } : {}),
+    image: { url: buildBetOgUrl(bet, logo, color) },
+    footer: { text: 'odds.day' },
+    timestamp: new Date().toISOString(),
+  };
+
+  const resp = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ embeds: [embed] }),
+  });
+  if (!resp.ok) {
+    const detail = await resp.text().catch(() => '');
+    throw new Error(`Discord webhook failed: ${resp.status} ${detail.slice(0, 200)}`);
+  }
+}
@@ -0,0 +1,321 @@
+// src/lib/bracketPool.ts
+// Bracket pool optimizer: the bracket (or set of brackets) with the most
+// expected pool equity — the chance of finishing first — rather than the
+// most likely bracket. Tournaments are simulated from the model's game
+// probabilities; the rest of the pool is a sample of public brackets, filled
+// in game by game from the same probabilities sharpened towards the favourite
+// (the public over-picks chalk). In each simulation our entry beats one
+// rival with the share of sampled public scores below ours, and the whole
+// field with that share to the power of the rival count.
+//
+// The search is a hill climb from the chalk bracket: move any game's pick to
+// another team that can reach it (carrying that team through the earlier
+// rounds and into whatever the displaced team was picked to win), keep the
+// move when equity rises. Extra entries are climbed one at a time against the
+// entries already chosen, so a duplicate adds nothing and the search drifts
+// towards different champions on its own.
+// Pure functions — no I/O. Tested by scripts/bracketPool.test.ts.
+
+export interface PoolGame {
+  id: string;
+  round: number;                            // 0 = play-in
+  sources: [string | null, string | null];  // prior games feeding each slot
+  teams: [string | null, string | null];    // seeded team for a slot with no source
+  result?: string | null;                   // winner, once the game is final
+}
+
+/** P(top slot beats bottom slot) in a game. */
+export type PoolWinProb = (top: string, bottom: string, game: PoolGame) => number;
+
+/** Picks by game id. */
+export type PoolPicks = Record<string, string>;
+
+export interface PoolScoring {
+  key: string;
+  label: string;
+  roundPoints: number[];       // points for a correct pick, by round number
+  upsetBonus: number;          // extra points per seed line when the correct pick was the worse seed
+  seedMultiplier: boolean;     // round points × the winner's seed
+}
+
+/** Standard doubling (1-2-4-8-16-32 for the NCAA), plus upset-bonus and seed-multiplier variants. Play-ins score nothing. */
+export function poolScorings(maxRound: number): PoolScoring[] {
+  const roundPoints = Array.from({ length: maxRound + 1 }, (_, r) => (r === 0 ? 0 : 2 ** (r - 1)));
+  return [
+    { key: 'standard', label: 'Standard', roundPoints, upsetBonus: 0, seedMultiplier: false },
+    { key: 'upset', label: 'Upset bonus', roundPoints, upsetBonus: 1, seedMultiplier: false },
+    { key: 'seed', label: 'Seed multiplier', roundPoints, upsetBonus: 0, seedMultiplier: true },
+  ];
+}
+
+/** Points for a correct pick of `winnerSeed` over `loserSeed` in a round. */
+export function pickPoints(scoring: PoolScoring, round: number, winnerSeed: number, loserSeed: number | null): number {
+  const base = scoring.roundPoints[round] ?? 0;
+  if (base === 0) return 0;
+  const points = scoring.seedMultiplier ? base * winnerSeed : base;
+  const upset = loserSeed !== null && winnerSeed > loserSeed ? (winnerSeed - loserSeed) * scoring.upsetBonus : 0;
+  return points + upset;
+}
+
+// ---------- bracket structure ----------
+
+interface Structure {
+  games: PoolGame[];
+  sources: [number, number][];   // game indexes, -1 for a seeded slot
+  parent: number[];              // the game a game's winner goes on to, -1 for the final
+  home: Map<string, number>;     // the game a team is seeded into
+}
+
+function structure(games: PoolGame[]): Structure {
+  const index = new Map(games.map((g, i) => [g.id, i]));
+  const sources = games.map((g) => g.sources.map((id) => (id ? index.get(id) ?? -1 : -1)) as [number, number]);
+  const parent = games.map(() => -1);
+  const home = new Map<string, number>();
+  games.forEach((g, i) => {
+    sources[i].forEach((s, k) => {
+      if (s >= 0) parent[s] = i;
+      const team = g.teams[k];
+      if (s < 0 && team) home.set(team, i);
+    });
+  });
+  return { games, sources, parent, home };
+}
+
+// Fill the bracket in game order; `choose` decides games with two teams
+function playOut(
+  s: Structure,
+  choose: (i: number, top: string, bottom: string) => string,
+): { winners: (string | null)[]; losers: (string | null)[] } {
+  const winners: (string | null)[] = [];
+  const losers: (string | null)[] = [];
+  s.games.forEach((g, i) => {
+    const [top, bottom] = s.sources[i].map((src, k) => (src >= 0 ? winners[src] : g.teams[k]));
+    if (top && bottom) {
+      const w = choose(i, top, bottom);
+      winners.push(w);
+      losers.push(w === top ? bottom : top);
+    } else {
+      winners.push(top ?? bottom ?? null);
+      losers.push(null);
+    }
+  });
+  return { winners, losers };
+}
+
+const toPicks = (s: Structure, winners: (string | null)[]): PoolPicks =>
+  Object.fromEntries(s.games.flatMap((g, i) => (winners[i] ? [[g.id, winners[i]]] : [])));
+
+/** The most likely bracket: every game to the favourite, final games to their result. */
+export function chalkPicks(games: PoolGame[], winProb: PoolWinProb): PoolPicks {
+  const s = structure(games);
+  const { winners } = playOut(s, (i, top, bottom) =>
+    games[i].result ?? (winProb(top, bottom, games[i]) >= 0.5 ? top : bottom));
+  return toPicks(s, winners);
+}
+
+/**
+ * Pick `team` to win `gameId`: it also wins every earlier game on its path,
+ * and takes over the later games the displaced pick was carried into.
+ * Null when the team can't reach that game.
+ */
+export function forcePick(games: PoolGame[], picks: PoolPicks, gameId: string, team: string): PoolPicks | null {
+  const s = structure(games);
+  const target = games.findIndex((g) => g.id === gameId);
+  let i = s.home.get(team) ?? -1;
+  const path: number[] = [];
+  while (i >= 0 && i !== target) {
+    path.push(i);
+    i = s.parent[i];
+  }
+  if (i < 0 || target < 0) return null;
+  path.push(target);
+
+  const next = { ...picks };
+  const displaced = picks[gameId];
+  for (const p of path) next[games[p].id] = team;
+  for (let p = s.parent[target]; p >= 0 && displaced !== undefined && next[games[p].id] === displaced; p = s.parent[p]) {
+    next[games[p].id] = team;
+  }
+  return next;
+}
+
+// ---------- optimizer ----------
+
+export interface PoolOptions {
+  poolSize: number;       // entries in the pool, ours included
+  entries: number;        // brackets we submit
+  scoring: PoolScoring;
+  chalk: number;          // public pick sharpening: 1 = the public agrees with the model, higher = more chalk
+  sims?: number;
+  opponents?: number;     // public brackets sampled to stand in for the field
+  seed?: number;
+}
+
+export interface PoolEntry {
+  picks: PoolPicks;
+  champion: string | null;
+  equity: number;          // chance of finishing first, entered alone
+  expectedScore: number;
+}
+
+export interface PoolOptimization {
+  entries: PoolEntry[];
+  equity: number;                       // chance one of our entries finishes first
+  chalk: PoolEntry;                     // the most likely bracket, for comparison
+  publicChampion: Map<string, number>;  // share of public brackets picking each champion
+}
+
+export const DEFAULT_POOL_SIMS = 1000;
+export const DEFAULT_POOL_OPPONENTS = 200;
+const CANDIDATES_PER_GAME = 6;
+const MAX_SWEEPS = 4;
+
+// Small seeded PRNG (mulberry32) so a run is reproducible
+function random(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const sharpen = (p: number, k: number) => p ** k / (p ** k + (1 - p) ** k);
+
+// Share of a sorted array below x, ties counting half
+function cdf(sorted: Float64Array, x: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < x) lo = mid + 1;
+    else hi = mid;
+  }
+  let ties = lo;
+  while (ties < sorted.length && sorted[ties] === x) ties++;
+  return sorted.length ? (lo + (ties - lo) / 2) / sorted.length : 1;
+}
+
+/**
+ * Optimize `options.entries` brackets for a pool. `seeds` feeds the upset
+ * bonus and seed multiplier; teams without one count as seed 1.
+ */
+export function optimizePool(
+  games: PoolGame[],
+  winProb: PoolWinProb,
+  seeds: Map<string, number>,
+  options: PoolOptions,
+): PoolOptimization {
+  const s = structure(games);
+  const rng = random(options.seed ?? 1);
+  const sims = options.sims ?? DEFAULT_POOL_SIMS;
+  const opponents = options.opponents ?? DEFAULT_POOL_OPPONENTS;
+  const seedOf = (team: string | null) => (team ? seeds.get(team) ?? 1 : 1);
+
+  // Simulated tournaments and what a correct pick of each game is worth in them
+  const outcomes = Array.from({ length: sims }, () => {
+    const { winners, losers } = playOut(s, (i, top, bottom) =>
+      games[i].result ?? (rng() < winProb(top, bottom, games[i]) ? top : bottom));
+    const values = games.map((g, i) =>
+      pickPoints(options.scoring, g.round, seedOf(winners[i]), losers[i] ? seedOf(losers[i]) : null));
+    return { winners, values };
+  });
+
+  const score = (picks: (string | null)[], o: (typeof outcomes)[number]) => {
+    let total = 0;
+    for (let i = 0; i < picks.length; i++) if (picks[i] !== null && picks[i] === o.winners[i]) total += o.values[i];
+    return total;
+  };
+
+  // The public field, and its score distribution in every simulation
+  const publicBrackets = Array.from({ length: opponents }, () =>
+    playOut(s, (i, top, bottom) => (rng() < sharpen(winProb(top, bottom, games[i]), options.chalk) ? top : bottom)).winners);
+  const field = outcomes.map((o) => Float64Array.from(publicBrackets.map((b) => score(b, o))).sort());
+
+  const publicChampion = new Map<string, number>();
+  for (const b of publicBrackets) {
+    const champ = b[b.length - 1];
+    if (champ) publicChampion.set(champ, (publicChampion.get(champ) ?? 0) + 1 / opponents);
+  }
+
+  const asArray = (picks: PoolPicks) => games.map((g) => picks[g.id] ?? null);
+  const soloRivals = Math.max(options.poolSize - 1, 0);
+  const entry = (picks: PoolPicks): PoolEntry => {
+    const arr = asArray(picks);
+    let equity = 0;
+    let total = 0;
+    outcomes.forEach((o, k) => {
+      const x = score(arr, o);
+      total += x;
+      equity += cdf(field[k], x) ** soloRivals;
+    });
+    return { picks, champion: arr[arr.length - 1], equity: equity / sims, expectedScore: total / sims };
+  };
+
+  // Teams worth trying in each game: the likeliest winners across the simulations
+  const candidates = games.map((g, i) => {
+    if (g.result) return [g.result];
+    const counts = new Map<string, number>();
+    for (const o of outcomes) {
+      const w = o.winners[i];
+      if (w) counts.set(w, (counts.get(w) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+      .filter(([, n]) => n / sims >= 0.005)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, CANDIDATES_PER_GAME)
+      .map(([team]) => team);
+  });
+
+  const chalk = chalkPicks(games, winProb);
+  const entryCount = Math.max(1, Math.floor(options.entries));
+  const rivals = Math.max(options.poolSize - entryCount, 0);
+  const best = new Float64Array(sims).fill(-Infinity);   // our best score so far, per simulation
+  const chosen: PoolPicks[] = [];
+
+  for (let e = 0; e < entryCount; e++) {
+    const equityWith = (picks: PoolPicks) => {
+      const arr = asArray(picks);
+      let total = 0;
+      outcomes.forEach((o, k) => { total += cdf(field[k], Math.max(best[k], score(arr, o))) ** rivals; });
+      return total / sims;
+    };
+
+    let picks = chosen.length ? chosen[chosen.length - 1] : chalk;
+    let equity = equityWith(picks);
+    for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+      let improved = false;
+      // Latest rounds first — the champion and Final Four carry the points
+      for (let i = games.length - 1; i >= 0; i--) {
+        for (const team of candidates[i]) {
+          if (picks[games[i].id] === team) continue;
+          const next = forcePick(games, picks, games[i].id, team);
+          if (!next || games.some((g) => g.result && next[g.id] !== g.result)) continue;
+          const value = equityWith(next);
+          if (value > equity + 1e-12) {
+            picks = next;
+            equity = value;
+            improved = true;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+
+    chosen.push(picks);
+    const arr = asArray(picks);
+    outcomes.forEach((o, k) => { best[k] = Math.max(best[k], score(arr, o)); });
+  }
+
+  let equity = 0;
+  outcomes.forEach((_, k) => { equity += cdf(field[k], best[k]) ** rivals; });
+
+  return {
+    entries: chosen.map(entry),
+    equity: equity / sims,
+    chalk: entry(chalk),
+    publicChampion,
+  };
+}
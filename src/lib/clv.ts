@@ -0,0 +1,250 @@
+// src/lib/clv.ts
+// Closing Line Value for tracked bets: parse the wagered side out of the bet
+// text, pull that exact market's close from a closing board, and score the
+// bet against it in points (number moved) and cents (price moved).
+// Pure functions — no I/O. Tested by scripts/bets.test.ts.
+
+import type { Bet, BetType } from './betService';
+import type { OddsAPIGame } from './ratings/types';
+import { extractClosingSpread } from './ratings/engine';
+import { US_AVERAGE_BOOKMAKER_KEYS } from './ratings/constants';
+import { sameTeam } from './teams';
+
+// Market each gradeable bet type lives in on the Odds API
+export const CLV_MARKETS: Partial<Record<BetType, 'spreads' | 'totals' | 'h2h'>> = {
+  spread: 'spreads',
+  total: 'totals',
+  moneyline: 'h2h',
+};
+
+export interface BetSelection {
+  market: 'spreads' | 'totals' | 'h2h';
+  side: string;          // team name, or 'Over' / 'Under'
+  point: number | null;  // spread for the side / total; null for moneyline
+}
+
+/**
+ * Wagered side of a straight bet, from the text the tracker writes
+ * ("Duke Blue Devils -6.5", "Over 145.5", "Duke Blue Devils ML").
+ * Returns null for props, parlays, futures and anything unparseable.
+ */
+export function parseBetSelection(bet: Pick<Bet, 'betType' | 'bet' | 'team'>): BetSelection | null {
+  const market = CLV_MARKETS[bet.betType];
+  const text = bet.bet?.trim() ?? '';
+  if (!market || !text) return null;
+
+  if (market === 'totals') {
+    const m = text.match(/^(over|under|o|u)\s*([0-9]+(?:\.[0-9]+)?)/i);
+    if (!m) return null;
+    const side = m[1].toLowerCase().startsWith('o') ? 'Over' : 'Under';
+    return { market, side, point: parseFloat(m[2]) };
+  }
+
+  if (market === 'spreads') {
+    const m = text.match(/^(.+?)\s+([+-]?[0-9]+(?:\.[0-9]+)?|pk|pick|even)$/i);
+    if (!m) return null;
+    const point = /^[0-9+-]/.test(m[2]) ? parseFloat(m[2]) : 0;
+    return { market, side: bet.team || m[1].trim(), point };
+  }
+
+  const side = bet.team || text.replace(/\s+(ml|moneyline)$/i, '').trim();
+  return side ? { market, side, point: null } : null;
+}
+
+export interface ClosingQuote {
+  line: number | null;   // closing number for the wagered side
+  odds: number | null;   // closing price for the wagered side at the bet's book
+  source: string;        // 'closing_lines' | 'us_average' | bookmaker key
+}
+
+// Stored NCAAB close (closing_lines row) — home spread and total
+export interface StoredClose {
+  spread: number | null;
+  total: number | null;
+}
+
+/**
+ * Consensus close of a game from a closing board: the US-book average home
+ * spread (extractClosingSpread, as the ratings use) and the same books'
+ * average total, to 0.1. Either is null when no US book dealt it.
+ */
+export function consensusClose(board: OddsAPIGame): StoredClose {
+  const totals = US_AVERAGE_BOOKMAKER_KEYS
+    .map((k) => board.bookmakers
+      .find((b) => b.key === k)
+      ?.markets.find((m) => m.key === 'totals')
+      ?.outcomes.find((o) => o.name === 'Over')?.point)
+    .filter((p): p is number => p !== undefined);
+  return {
+    spread: extractClosingSpread(board, 'us_average').spread,
+    total: totals.length ? Math.round((totals.reduce((a, b) => a + b, 0) / totals.length) * 10) / 10 : null,
+  };
+}
+
+/**
+ * The wagered side as the board names it. Team sides go through the league's
+ * team registry ("UConn" ↔ "Connecticut Huskies"); a name that matches
+ * neither team, or both, has no side — better no CLV than the other team's.
+ */
+function boardSide(selection: BetSelection, board: OddsAPIGame): string | null {
+  if (selection.market === 'totals' || selection.side === 'Draw') return selection.side;
+  if (selection.side === board.home_team || selection.side === board.away_team) return selection.side;
+  const home = sameTeam(selection.side, board.home_team, board.sport_key);
+  const away = sameTeam(selection.side, board.away_team, board.sport_key);
+  return home === away ? null : home ? board.home_team : board.away_team;
+}
+
+/**
+ * Close for one bet from a closing board (the Odds API shape, one snapshot
+ * per book taken at tip). The number comes from the same consensus the
+ * NCAAB ratings use — the stored closing_lines row when there is one, else
+ * extractClosingSpread's US-book average — so CLV and the ratings agree on
+ * where a game closed. The price is the bet's own book on the same side.
+ */
+export function closingQuoteForBet(
+  selection: BetSelection,
+  board: OddsAPIGame,
+  bookKey: string | null,
+  stored?: StoredClose | null
+): ClosingQuote | null {
+  const side = boardSide(selection, board);
+  if (!side) return null;
+  const isAway = side === board.away_team;
+  const outcomeFor = (key: string) =>
+    board.bookmakers
+      .find((b) => b.key === key)
+      ?.markets.find((m) => m.key === selection.market)
+      ?.outcomes.find((o) => o.name === side);
+
+  const bookOutcome = bookKey ? outcomeFor(bookKey) : undefined;
+  let line: number | null = null;
+  let source = bookKey && bookOutcome ? bookKey : 'us_average';
+
+  if (selection.market === 'spreads') {
+    let homeSpread = stored?.spread ?? null;
+    if (homeSpread !== null) {
+      source = 'closing_lines';
+    } else {
+      homeSpread = consensusClose(board).spread;
+    }
+    line = homeSpread === null ? bookOutcome?.point ?? null : isAway ? -homeSpread : homeSpread;
+  } else if (selection.market === 'totals') {
+    if (stored?.total !== null && stored?.total !== undefined) {
+      line = stored.total;
+      source = 'closing_lines';
+    } else {
+      line = consensusClose(board).total ?? bookOutcome?.point ?? null;
+    }
+  }
+
+  // Book price counts only when the book closed on the bet's number;
+  // a price at a different number would mix line and price value
+  let odds: number | null = null;
+  if (bookOutcome && (selection.market === 'h2h' || bookOutcome.point === selection.point)) {
+    odds = bookOutcome.price;
+  } else if (selection.market === 'h2h') {
+    // No book quote (e.g. Kalshi bets): average implied probability of the US books
+    const probs = US_AVERAGE_BOOKMAKER_KEYS
+      .map((k) => outcomeFor(k)?.price)
+      .filter((p): p is number => p !== undefined)
+      .map(impliedProb);
+    if (probs.length) odds = probToAmerican(probs.reduce((a, b) => a + b, 0) / probs.length);
+  }
+
+  if (line === null && odds === null) return null;
+  return { line, odds, source };
+}
+
+// ---------- scoring ----------
+
+const impliedProb = (odds: number) => (odds < 0 ? -odds / (-odds + 100) : 100 / (odds + 100));
+
+const probToAmerican = (p: number) =>
+  p >= 0.5 ? -Math.round((p / (1 - p)) * 100) : Math.round(((1 - p) / p) * 100);
+
+/**
+ * American odds on a continuous "cents" scale: -110 → -10, +110 → +10,
+ * so the -100/+100 gap counts as zero (the way bettors count cents).
+ */
+export function oddsToCents(odds: number): number {
+  return odds < 0 ? odds + 100 : odds - 100;
+}
+
+export interface BetClv {
+  points: number | null;   // line gained vs the close, in the bet's favour
+  cents: number | null;    // price gained vs the close at the same number
+  probEdge: number | null; // closing implied prob − bet break-even (pp, vig-inclusive)
+}
+
+/** CLV for one bet with a captured close; null when there is nothing to compare. */
+export function betClv(bet: Bet): BetClv | null {
+  const selection = parseBetSelection(bet);
+  if (!selection) return null;
+  const closeLine = bet.closingLine ?? null;
+  const closeOdds = bet.closingOdds ?? null;
+  if (closeLine === null && closeOdds === null) return null;
+
+  let points: number | null = null;
+  if (selection.point !== null && closeLine !== null) {
+    const diff = selection.side === 'Over' ? closeLine - selection.point : selection.point - closeLine;
+    points = Math.round(diff * 10) / 10;
+  }
+
+  // closingQuoteForBet only keeps a closing price quoted on the bet's own
+  // number, so price value always compares like with like
+  const cents = closeOdds !== null ? oddsToCents(bet.odds) - oddsToCents(closeOdds) : null;
+  const probEdge = closeOdds !== null
+    ? Math.round((impliedProb(closeOdds) - impliedProb(bet.odds)) * 1000) / 10
+    : null;
+
+  return { points, cents, probEdge };
+}
+
+export interface ClvSummary {
+  count: number;         // bets with a usable close
+  avgPoints: number;     // over bets with a points CLV
+  avgCents: number;      // over bets with a cents CLV
+  beatClosePct: number;  // share that beat the close (points, else cents)
+}
+
+export interface ClvReport extends ClvSummary {
+  byLeague: Record<string, ClvSummary>;
+  byBook: Record<string, ClvSummary>;
+  byBetType: Record<string, ClvSummary>;
+}
+
+function summarize(entries: BetClv[]): ClvSummary {
+  const pts = entries.map((e) => e.points).filter((v): v is number => v !== null);
+  const cents = entries.map((e) => e.cents).filter((v): v is number => v !== null);
+  const beat = entries.filter((e) => (e.points !== null && e.points !== 0 ? e.points > 0 : (e.cents ?? 0) > 0)).length;
+  const avg = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+  return {
+    count: entries.length,
+    avgPoints: avg(pts),
+    avgCents: avg(cents),
+    beatClosePct: entries.length ? (beat / entries.length) * 100 : 0,
+  };
+}
+
+/** Overall CLV plus splits by league, book and bet type. */
+export function summarizeClv(bets: Bet[]): ClvReport {
+  const scored = bets
+    .map((bet) => ({ bet, clv: betClv(bet) }))
+    .filter((x): x is { bet: Bet; clv: BetClv } => x.clv !== null);
+
+  const groupBy = (key: (b: Bet) => string | undefined) => {
+    const groups: Record<string, BetClv[]> = {};
+    for (const { bet, clv } of scored) {
+      const k = key(bet) || 'Unknown';
+      (groups[k] ??= []).push(clv);
+    }
+    return Object.fromEntries(Object.entries(groups).map(([k, v]) => [k, summarize(v)]));
+  };
+
+  return {
+    ...summarize(scored.map((s) => s.clv)),
+    byLeague: groupBy((b) => b.league),
+    byBook: groupBy((b) => b.book),
+    byBetType: groupBy((b) => b.betType),
+  };
+}
@@ -0,0 +1,159 @@
+// src/lib/clvCapture.ts
+// Fills in bets.closing_* after tip: finds the bet's game in odds_snapshots
+// (the sport's games around the event date, matched to the bet's teams
+// through the league registry), rebuilds the closing board from the last
+// snapshot per book, and stores the
+// close of the wagered market. NCAAB prefers the closing_lines row the ratings
+// already froze for the same Odds API event id. Shared by the cron GET and the
+// manual POST in /api/bets/closing.
+
+import { supabase } from './supabase';
+import { BOOKMAKER_KEYS, LEAGUES } from './api';
+import { toBet, type Bet } from './betService';
+import { closingBoardFromSnapshots, type OddsSnapshotRow } from './oddsSnapshots';
+import { closingQuoteForBet, parseBetSelection, type BetSelection, type StoredClose } from './clv';
+import { sameTeam } from './teams';
+
+// Bets older than this are left alone — their snapshots are as good as they'll get
+const LOOKBACK_DAYS = 7;
+const PAGE = 1000;
+
+type SnapshotGame = Pick<OddsSnapshotRow, 'game_id' | 'home_team' | 'away_team' | 'commence_time'>;
+
+const sportKeyFor = (league: string) => LEAGUES.find((l) => l.name === league)?.id;
+
+export interface ClvCaptureResult {
+  checked: number;
+  captured: number;
+  noGame: number;     // no snapshot history for the matchup
+  noClose: number;    // history found but no usable close for the market
+  errors: string[];
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString();
+}
+
+/**
+ * Every started game recorded for the sport around the event date, one entry
+ * per event. eventDate is the local calendar date, so allow a day either side
+ * in UTC; snapshots are one row per book update, hence the paging.
+ */
+async function gamesAround(
+  sportKey: string | undefined, eventDate: string, market: BetSelection['market'], now: Date
+): Promise<SnapshotGame[]> {
+  const games = new Map<string, SnapshotGame>();
+  for (let from = 0; ; from += PAGE) {
+    let query = supabase
+      .from('odds_snapshots')
+      .select('game_id, home_team, away_team, commence_time')
+      .eq('market', market)
+      .gte('commence_time', addDays(eventDate, -1))
+      .lt('commence_time', addDays(eventDate, 2))
+      .lte('commence_time', now.toISOString());
+    if (sportKey) query = query.eq('sport_key', sportKey);
+    const { data, error } = await query.order('game_id').range(from, from + PAGE - 1);
+    if (error) throw new Error(`odds_snapshots: ${error.message}`);
+    for (const g of (data ?? []) as SnapshotGame[]) games.set(g.game_id, g);
+    if (!data || data.length < PAGE) break;
+  }
+  return Array.from(games.values());
+}
+
+/**
+ * Snapshot history for the bet's matchup, or null if the game hasn't started
+ * / isn't recorded. Bet teams are typed or imported ("LA Clippers", "UConn"),
+ * so each side is matched to the Odds API's name with sameTeam, either way
+ * round (neutral sites can flip home and away).
+ */
+async function snapshotsForBet(
+  bet: Bet, market: BetSelection['market'], now: Date, cache: Map<string, Promise<SnapshotGame[]>>
+): Promise<OddsSnapshotRow[] | null> {
+  const { homeTeam, awayTeam } = bet;
+  if (!homeTeam || !awayTeam) return null;
+  const sportKey = sportKeyFor(bet.league);
+  const key = `${sportKey ?? bet.league}|${bet.eventDate}|${market}`;
+  if (!cache.has(key)) cache.set(key, gamesAround(sportKey, bet.eventDate, market, now));
+  const league = sportKey ?? bet.league;
+  const matches = (await cache.get(key)!).filter((g) =>
+    (sameTeam(homeTeam, g.home_team, league) && sameTeam(awayTeam, g.away_team, league)) ||
+    (sameTeam(homeTeam, g.away_team, league) && sameTeam(awayTeam, g.home_team, league)));
+  if (!matches.length) return null;
+
+  // Doubleheaders / rematches: keep the event closest to the bet's date
+  const target = new Date(`${bet.eventDate}T12:00:00Z`).getTime();
+  const game = matches.reduce((best, g) =>
+    Math.abs(new Date(g.commence_time).getTime() - target) <
+    Math.abs(new Date(best.commence_time).getTime() - target) ? g : best
+  );
+  const { data, error } = await supabase
+    .from('odds_snapshots')
+    .select('*')
+    .eq('game_id', game.game_id)
+    .order('book_updated_at', { ascending: true });
+  if (error) throw new Error(`odds_snapshots: ${error.message}`);
+  return data?.length ? (data as OddsSnapshotRow[]) : null;
+}
+
+async function storedClose(gameId: string): Promise<StoredClose | null> {
+  const { data } = await supabase
+    .from('closing_lines')
+    .select('spread, total')
+    .eq('game_id', gameId)
+    .maybeSingle();
+  return data ? { spread: data.spread ?? null, total: data.total ?? null } : null;
+}
+
+export async function captureClosingLines(now: Date = new Date()): Promise<ClvCaptureResult> {
+  const result: ClvCaptureResult = { checked: 0, captured: 0, noGame: 0, noClose: 0, errors: [] };
+  const since = new Date(now.getTime() - LOOKBACK_DAYS * 86_400_000).toISOString().slice(0, 10);
+  // Bets on the same slate share one pull of its games
+  const slates = new Map<string, Promise<SnapshotGame[]>>();
+
+  const { data, error } = await supabase
+    .from('bets')
+    .select('*')
+    .eq('deleted', false)
+    .in('bet_type', ['spread', 'total', 'moneyline'])
+    .is('closing_captured_at', null)
+    .gte('event_date', since)
+    .lte('event_date', now.toISOString().slice(0, 10));
+  if (error) throw new Error(`bets: ${error.message}`);
+
+  for (const row of data ?? []) {
+    const bet = toBet(row);
+    const selection = parseBetSelection(bet);
+    if (!selection) continue;
+    result.checked++;
+
+    try {
+      const rows = await snapshotsForBet(bet, selection.market, now, slates);
+      if (!rows) { result.noGame++; continue; }
+      const board = closingBoardFromSnapshots(rows, rows[0].commence_time);
+      if (!board) { result.noClose++; continue; }
+
+      const stored = bet.league === 'NCAAB' ? await storedClose(board.id) : null;
+      const bookKey = bet.book ? BOOKMAKER_KEYS[bet.book] ?? null : null;
+      const quote = closingQuoteForBet(selection, board, bookKey, stored);
+      if (!quote) { result.noClose++; continue; }
+
+      const { error: updateError } = await supabase
+        .from('bets')
+        .update({
+          closing_line: quote.line,
+          closing_odds: quote.odds,
+          closing_source: quote.source,
+          closing_captured_at: now.toISOString(),
+        })
+        .eq('id', bet.id);
+      if (updateError) throw new Error(updateError.message);
+      result.captured++;
+    } catch (err) {
+      result.errors.push(`${bet.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,239 @@
+// src/lib/consensus.ts
+// One model line per game from every projection system we carry for a sport
+// (market ratings, KenPom, Torvik, FEI, Eckel, power rating sets, Massey).
+// Each system is weighted by its historical error against closing lines —
+// inverse mean squared error, shrunk toward a league prior so a system with a
+// dozen graded games can't take over — and the blend carries a one-SD band
+// from the systems' own error and how far they disagree. Lines are home
+// spreads in the sport's margin unit, negative = home favoured.
+// Pure functions — no I/O. Tested by scripts/consensus.test.ts. The
+// client-side fetch at the bottom is shared by GameCard.
+
+export interface ConsensusSystem {
+  id: string;
+  label: string;
+}
+
+// Power rating sets are one system per stored source ("powers:brad_powers")
+export const POWER_SET_PREFIX = 'powers:';
+
+export const powerSetSystem = (source: string, label: string): ConsensusSystem =>
+  ({ id: `${POWER_SET_PREFIX}${source}`, label });
+
+// Systems with a fixed source per league; power_rating_sets sources are
+// added at run time for the sports that have them
+export const CONSENSUS_SYSTEMS: Record<string, ConsensusSystem[]> = {
+  americanfootball_ncaaf: [{ id: 'market', label: 'Market Ratings' }, { id: 'fei', label: 'FEI' }, { id: 'eckel', label: 'Eckel' }],
+  americanfootball_nfl: [{ id: 'market', label: 'Market Ratings' }],
+  basketball_ncaab: [{ id: 'market', label: 'Market Ratings' }, { id: 'kenpom', label: 'KenPom' }, { id: 'torvik', label: 'Barttorvik' }],
+  basketball_nba: [{ id: 'market', label: 'Market Ratings' }],
+  icehockey_nhl: [{ id: 'market', label: 'Market Ratings' }],
+  lacrosse_ncaa: [{ id: 'market', label: 'Market Ratings' }, { id: 'massey', label: 'Massey' }],
+};
+
+// power_rating_sets.sport for the leagues that have sets
+export const POWER_SET_SPORTS: Record<string, string> = {
+  americanfootball_ncaaf: 'ncaaf',
+  americanfootball_nfl: 'nfl',
+};
+
+export interface ConsensusPrior {
+  rmse: number;    // a system's assumed error vs the close before it has history
+  games: number;   // how many graded games that assumption is worth
+}
+
+// Typical model-vs-close error per league, in the league's margin unit
+export const CONSENSUS_PRIORS: Record<string, ConsensusPrior> = {
+  americanfootball_ncaaf: { rmse: 4.5, games: 30 },
+  americanfootball_nfl: { rmse: 2.5, games: 30 },
+  basketball_ncaab: { rmse: 3, games: 30 },
+  basketball_nba: { rmse: 2.5, games: 30 },
+  icehockey_nhl: { rmse: 0.35, games: 30 },
+  lacrosse_ncaa: { rmse: 2, games: 30 },
+};
+
+const DEFAULT_PRIOR: ConsensusPrior = { rmse: 3, games: 30 };
+
+export const priorFor = (sportKey: string): ConsensusPrior => CONSENSUS_PRIORS[sportKey] ?? DEFAULT_PRIOR;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ============================================
+// Historical error
+// ============================================
+
+export interface ProjectionRecord {
+  system: string;
+  projected: number;   // home spread the system made before the game
+  closing: number;     // home closing spread
+}
+
+export interface SystemError {
+  system: string;
+  games: number;
+  bias: number;        // mean (projected − closing): > 0 leans away from the home side
+  rmse: number;
+}
+
+/** Error against the close per system. */
+export function systemErrors(records: ProjectionRecord[]): Map<string, SystemError> {
+  const sums = new Map<string, { n: number; sum: number; sq: number }>();
+  for (const r of records) {
+    if (!Number.isFinite(r.projected) || !Number.isFinite(r.closing)) continue;
+    const diff = r.projected - r.closing;
+    const s = sums.get(r.system) ?? { n: 0, sum: 0, sq: 0 };
+    s.n++;
+    s.sum += diff;
+    s.sq += diff * diff;
+    sums.set(r.system, s);
+  }
+  const out = new Map<string, SystemError>();
+  for (const [system, s] of sums) {
+    out.set(system, { system, games: s.n, bias: round2(s.sum / s.n), rmse: round2(Math.sqrt(s.sq / s.n)) });
+  }
+  return out;
+}
+
+/**
+ * One history per system: the native one (ratings adjustments, KenPom and
+ * Torvik predictions, seed pricing) where the system has it, else the logged
+ * consensus_projections rows. The log re-records games the native history
+ * already holds, so taking both would count each one twice.
+ */
+export function combineHistory(native: ProjectionRecord[], logged: ProjectionRecord[]): ProjectionRecord[] {
+  const hasNative = new Set(native.map((r) => r.system));
+  return [...native, ...logged.filter((r) => !hasNative.has(r.system))];
+}
+
+// ============================================
+// Weights
+// ============================================
+
+export interface SystemWeight {
+  system: string;
+  label: string;
+  games: number;       // graded games behind the weight
+  rmse: number;        // shrunk error the weight is built on
+  weight: number;      // share across all the sport's systems (sums to 1)
+}
+
+/**
+ * Inverse-MSE weights. Each system's MSE is shrunk toward the prior's by
+ * (n·mse + k·prior²) / (n + k), so new systems start level with the rest and
+ * earn or lose weight as graded games come in.
+ */
+export function learnWeights(
+  systems: ConsensusSystem[],
+  errors: Map<string, SystemError>,
+  prior: ConsensusPrior,
+): SystemWeight[] {
+  const shrunk = systems.map((s) => {
+    const e = errors.get(s.id);
+    const n = e?.games ?? 0;
+    const mse = n ? (n * e!.rmse ** 2 + prior.games * prior.rmse ** 2) / (n + prior.games) : prior.rmse ** 2;
+    return { ...s, games: n, mse };
+  });
+  const total = shrunk.reduce((sum, s) => sum + 1 / s.mse, 0);
+  return shrunk.map((s) => ({
+    system: s.id,
+    label: s.label,
+    games: s.games,
+    rmse: round2(Math.sqrt(s.mse)),
+    weight: total > 0 ? round2(1 / s.mse / total) : 0,
+  }));
+}
+
+// ============================================
+// Blend
+// ============================================
+
+export interface SystemProjection {
+  system: string;
+  homeSpread: number;
+}
+
+export interface ConsensusLine {
+  homeSpread: number;
+  band: number;        // one SD either side
+  low: number;
+  high: number;
+  systems: { system: string; label: string; homeSpread: number; weight: number }[];
+}
+
+/**
+ * Weighted blend over the systems that projected this game (weights
+ * renormalised among them). The band combines the weighted error of those
+ * systems — treated as fully correlated, since they all chase the same
+ * market — with their weighted spread around the blend.
+ */
+export function blendProjections(projections: SystemProjection[], weights: SystemWeight[]): ConsensusLine | null {
+  const byId = new Map(weights.map((w) => [w.system, w]));
+  const used = projections
+    .filter((p) => Number.isFinite(p.homeSpread) && byId.has(p.system))
+    .map((p) => ({ ...p, w: byId.get(p.system)! }));
+  const total = used.reduce((sum, p) => sum + 1 / p.w.rmse ** 2, 0);
+  if (!used.length || total <= 0) return null;
+
+  const share = (p: (typeof used)[number]) => 1 / p.w.rmse ** 2 / total;
+  const line = used.reduce((sum, p) => sum + share(p) * p.homeSpread, 0);
+  const error = used.reduce((sum, p) => sum + share(p) * p.w.rmse, 0);
+  const spread = used.reduce((sum, p) => sum + share(p) * (p.homeSpread - line) ** 2, 0);
+  const band = round1(Math.sqrt(error ** 2 + spread));
+  const homeSpread = round1(line);
+  return {
+    homeSpread,
+    band,
+    low: round1(homeSpread - band),
+    high: round1(homeSpread + band),
+    systems: used.map((p) => ({ system: p.system, label: p.w.label, homeSpread: round1(p.homeSpread), weight: round2(share(p)) })),
+  };
+}
+
+export interface ConsensusEdge {
+  market: number;      // current consensus home spread
+  edge: number;        // points of value: market − model
+  side: 'home' | 'away' | null;
+  outsideBand: boolean;
+}
+
+/**
+ * Model vs market. A market home spread above the model's (home +3 against
+ * a model −1) is value on the home side, below it on the away side.
+ */
+export function consensusEdge(line: ConsensusLine, marketSpread: number): ConsensusEdge {
+  const edge = round1(marketSpread - line.homeSpread);
+  return {
+    market: marketSpread,
+    edge: Math.abs(edge),
+    side: edge > 0 ? 'home' : edge < 0 ? 'away' : null,
+    outsideBand: Math.abs(edge) > line.band,
+  };
+}
+
+// ============================================
+// Client
+// ============================================
+
+export interface ConsensusGame {
+  gameId: string;
+  sportKey: string;
+  homeTeam: string;
+  awayTeam: string;
+  commenceTime: string;
+  line: ConsensusLine;
+  edge: ConsensusEdge | null;
+}
+
+// One /api/consensus request per sport per page load, shared by every card
+const cached = new Map<string, Promise<ConsensusGame[]>>();
+
+export function fetchConsensus(sportKey: string): Promise<ConsensusGame[]> {
+  if (!cached.has(sportKey)) {
+    cached.set(sportKey, fetch(`/api/consensus?sport=${sportKey}`)
+      .then((r) => (r.ok ? r.json() : { games: [] }))
+      .then((d) => (Array.isArray(d.games) ? (d.games as ConsensusGame[]) : []))
+      .catch(() => []));
+  }
+  return cached.get(sportKey)!;
+}
@@ -0,0 +1,552 @@
+// src/lib/consensusRunner.ts
+// Consensus lines for a league's board: each system's projection for every
+// upcoming game, weights learned from that system's history against closing
+// lines, and the blend + edge vs the current market (src/lib/consensus.ts).
+// Shared by /api/consensus, its /log cron and the game page.
+//
+// History comes from what we already store where a system has it — market
+// ratings' per-game adjustments, KenPom fanmatch and Torvik schedule
+// predictions, and the static Massey / power-set seeds priced against each
+// processed game — or, for a system with none, consensus_projections, where
+// the logging run (the /api/consensus/log cron) records each projection and
+// grades it once the game closes (FEI and Eckel learn only from that log). FEI lives behind our
+// own scraping routes, so it's only priced when the caller passes the site
+// origin.
+
+import { supabase } from './supabase';
+import type { Game } from './api';
+import { BOARD_BOOKMAKERS, getOddsProvider } from './odds';
+import { closingBoardFromSnapshots, type OddsSnapshotRow } from './oddsSnapshots';
+import { NCAAB_SPORT_KEY, US_AVERAGE_BOOKMAKER_KEYS } from './ratings/constants';
+import { extractClosingSpread, projectSpread } from './ratings/engine';
+import { extractClosingMargin } from './ratings/market';
+import { getSportRatingsConfig } from './ratings/sports';
+import { loadSportSnapshot } from './ratings/sportSync';
+import { loadAdjustments, loadConfig, loadRatings } from './ratings/supabase';
+import { findTeamByName } from './ratings/team-mapping';
+import type { GameAdjustment, OddsAPIGame } from './ratings/types';
+import { loadKenpomGames } from './kenpom/supabase';
+import { calculateExpectedScore, getTeamFEIData, type FEITeamData, type PossessionData } from './feiData';
+import type { EckelSnapshot } from './eckel/types';
+import { matchOddsToCfbd } from './eckel/teamNames';
+import { matchOddsNameToTeam, type PowerRatingRow } from './powerRatings';
+import { findNeutralGame, type NeutralGame } from './neutralSites';
+import { buildRegistry, namesMatch, resolveTeam } from './teams';
+import {
+  blendProjections,
+  combineHistory,
+  consensusEdge,
+  CONSENSUS_SYSTEMS,
+  learnWeights,
+  POWER_SET_SPORTS,
+  powerSetSystem,
+  priorFor,
+  systemErrors,
+  type ConsensusGame,
+  type ConsensusSystem,
+  type ProjectionRecord,
+  type SystemError,
+  type SystemProjection,
+  type SystemWeight,
+} from './consensus';
+
+const PAGE_SIZE = 1000;
+// Learned weights only move as games are graded — recompute at most hourly
+const WEIGHTS_TTL_MS = 60 * 60 * 1000;
+// Logged games graded per run (one snapshot query covers the batch)
+const GRADE_BATCH_GAMES = 25;
+const DEFAULT_POWER_HFA = 2.5;
+
+export interface ConsensusRunResult {
+  sportKey: string;
+  systems: SystemWeight[];
+  errors: SystemError[];
+  games: (ConsensusGame & { projections: SystemProjection[] })[];
+  warnings: string[];
+}
+
+interface ProjectionContext {
+  sportKey: string;
+  games: Game[];
+  neutral: (game: Game) => boolean;
+  origin?: string;
+}
+
+// A system's projections for a board plus any stored history it has
+interface SystemSource {
+  system: ConsensusSystem;
+  project: Map<string, number>;          // game id → home spread
+  history: ProjectionRecord[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const easternDate = (iso: string) => new Date(iso).toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+
+/** Current home spread (or h2h-implied margin) off a board game, US-book average. */
+export function marketHomeSpread(game: Game | OddsAPIGame, sportKey: string): number | null {
+  const board = game as OddsAPIGame;
+  const config = getSportRatingsConfig(sportKey);
+  return config
+    ? extractClosingMargin(board, config, 'us_average').spread
+    : extractClosingSpread(board, 'us_average', US_AVERAGE_BOOKMAKER_KEYS).spread;
+}
+
+async function getJson<T>(url: string): Promise<T | null> {
+  try {
+    const resp = await fetch(url, { next: { revalidate: 3600 } });
+    return resp.ok ? ((await resp.json()) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Adjustments are priced at the ratings of the day; a static seed (Massey,
+// a power set) priced against the same games is that seed's history
+function seedHistory(
+  system: string,
+  adjustments: GameAdjustment[],
+  line: (home: string, away: string, neutral: boolean) => number | null,
+): ProjectionRecord[] {
+  const out: ProjectionRecord[] = [];
+  for (const a of adjustments) {
+    const projected = line(a.homeTeam, a.awayTeam, a.isNeutralSite);
+    if (projected !== null) out.push({ system, projected, closing: a.closingSpread });
+  }
+  return out;
+}
+
+// ============================================
+// Systems — NCAAB
+// ============================================
+
+async function ncaabSources(ctx: ProjectionContext, withHistory: boolean): Promise<SystemSource[]> {
+  const config = await loadConfig();
+  const season = config?.season ?? undefined;
+  const hca = config?.hca ?? 0;
+  const [ratings, adjustments] = await Promise.all([
+    loadRatings(season),
+    withHistory ? loadAdjustments(season) : Promise.resolve([] as GameAdjustment[]),
+  ]);
+  const values = new Map([...ratings.values()].map((r) => [r.teamName, r.rating]));
+  const keyFor = (name: string) => findTeamByName(name, values)?.name ?? null;
+
+  const market: SystemSource = {
+    system: CONSENSUS_SYSTEMS[NCAAB_SPORT_KEY][0],
+    project: new Map(),
+    history: adjustments.map((a) => ({ system: 'market', projected: a.projectedSpread, closing: a.closingSpread })),
+  };
+  for (const game of ctx.games) {
+    const home = findTeamByName(game.home_team, values);
+    const away = findTeamByName(game.away_team, values);
+    if (home && away) market.project.set(game.id, projectSpread(home.rating, away.rating, hca, ctx.neutral(game)));
+  }
+
+  // Adjustments by ET date, for joining the per-game predictions to their close
+  const byDate = new Map<string, GameAdjustment[]>();
+  for (const a of adjustments) {
+    const d = a.date.slice(0, 10);
+    byDate.set(d, [...(byDate.get(d) ?? []), a]);
+  }
+  const closeFor = (date: string, home: string, away: string): number | null => {
+    const a = (byDate.get(date) ?? []).find((x) => namesMatch(x.homeTeam, home) && namesMatch(x.awayTeam, away));
+    return a ? a.closingSpread : null;
+  };
+
+  // KenPom fanmatch: predicted scores per game
+  const dates = [...new Set(ctx.games.map((g) => easternDate(g.commence_time)))].sort();
+  const kenpomGames = await loadKenpomGames(withHistory
+    ? { season }
+    : { startDate: dates[0], endDate: dates[dates.length - 1] });
+  const kenpom: SystemSource = { system: CONSENSUS_SYSTEMS[NCAAB_SPORT_KEY][1], project: new Map(), history: [] };
+  for (const k of kenpomGames) {
+    if (!k.has_predictions || k.predicted_home_score === null || k.predicted_away_score === null) continue;
+    const projected = k.predicted_away_score - k.predicted_home_score;
+    const closing = withHistory ? closeFor(k.game_date, k.home_team, k.away_team) : null;
+    if (closing !== null) kenpom.history.push({ system: 'kenpom', projected, closing });
+  }
+  for (const game of ctx.games) {
+    const date = easternDate(game.commence_time);
+    const home = keyFor(game.home_team) ?? game.home_team;
+    const away = keyFor(game.away_team) ?? game.away_team;
+    const k = kenpomGames.find((x) => x.game_date === date && x.has_predictions &&
+      namesMatch(x.home_team, home) && namesMatch(x.away_team, away));
+    if (k && k.predicted_home_score !== null && k.predicted_away_score !== null) {
+      kenpom.project.set(game.id, k.predicted_away_score - k.predicted_home_score);
+    }
+  }
+
+  // Barttorvik: home spread off the T-Rank line
+  const torvik: SystemSource = { system: CONSENSUS_SYSTEMS[NCAAB_SPORT_KEY][2], project: new Map(), history: [] };
+  const first = withHistory ? adjustments[0]?.date.slice(0, 10) : dates[0];
+  const last = dates[dates.length - 1] ?? first;
+  if (first && last) {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('ncaab_bt_schedule')
+        .select('game_date, home_team, away_team, predicted_spread')
+        .gte('game_date', first)
+        .lte('game_date', last)
+        .not('predicted_spread', 'is', null)
+        .order('game_date', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw new Error(`ncaab_bt_schedule: ${error.message}`);
+      for (const bt of data ?? []) {
+        const game = ctx.games.find((g) => easternDate(g.commence_time) === bt.game_date &&
+          namesMatch(bt.home_team, g.home_team) && namesMatch(bt.away_team, g.away_team));
+        if (game) {
+          torvik.project.set(game.id, bt.predicted_spread);
+          continue;
+        }
+        const closing = withHistory ? closeFor(bt.game_date, bt.home_team, bt.away_team) : null;
+        if (closing !== null) torvik.history.push({ system: 'torvik', projected: bt.predicted_spread, closing });
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return [market, kenpom, torvik];
+}
+
+// ============================================
+// Systems — market-ratings sports (+ Massey, power sets)
+// ============================================
+
+async function marketSources(ctx: ProjectionContext, withHistory: boolean): Promise<SystemSource[]> {
+  const config = getSportRatingsConfig(ctx.sportKey);
+  if (!config) return [];
+  const { snapshot } = await loadSportSnapshot(config);
+  const current = new Map(snapshot.ratings.map((r) => [r.teamName, r.rating]));
+  const seeds = new Map(snapshot.ratings.map((r) => [r.teamName, r.initialRating]));
+  const adjustments = withHistory ? snapshot.adjustments : [];
+  const systems = CONSENSUS_SYSTEMS[ctx.sportKey] ?? [];
+
+  const fromRatings = (system: ConsensusSystem, ratings: Map<string, number>): SystemSource => {
+    const source: SystemSource = { system, project: new Map(), history: [] };
+    for (const game of ctx.games) {
+      const home = findTeamByName(game.home_team, ratings);
+      const away = findTeamByName(game.away_team, ratings);
+      if (home && away) source.project.set(game.id, projectSpread(home.rating, away.rating, snapshot.hca, ctx.neutral(game)));
+    }
+    return source;
+  };
+
+  const market = fromRatings(systems[0], current);
+  market.history = adjustments.map((a) => ({ system: 'market', projected: a.projectedSpread, closing: a.closingSpread }));
+  const out = [market];
+
+  const massey = systems.find((s) => s.id === 'massey');
+  if (massey) {
+    const source = fromRatings(massey, seeds);
+    source.history = seedHistory('massey', adjustments, (home, away, neutral) => {
+      const h = seeds.get(home);
+      const a = seeds.get(away);
+      return h === undefined || a === undefined ? null : projectSpread(h, a, snapshot.hca, neutral);
+    });
+    out.push(source);
+  }
+  return out;
+}
+
+async function powerSetSources(ctx: ProjectionContext, withHistory: boolean): Promise<SystemSource[]> {
+  const sport = POWER_SET_SPORTS[ctx.sportKey];
+  if (!sport) return [];
+  const { data, error } = await supabase
+    .from('power_rating_sets')
+    .select('source, source_label, season, ratings')
+    .eq('sport', sport)
+    .order('season', { ascending: false });
+  if (error) throw new Error(`power_rating_sets: ${error.message}`);
+
+  // Latest season per source
+  const sets = new Map<string, { label: string; rows: PowerRatingRow[] }>();
+  for (const row of data ?? []) {
+    if (!sets.has(row.source)) sets.set(row.source, { label: row.source_label, rows: row.ratings });
+  }
+  const config = getSportRatingsConfig(ctx.sportKey);
+  const adjustments = withHistory && config ? (await loadSportSnapshot(config)).snapshot.adjustments : [];
+
+  return [...sets].map(([source, set]) => {
+    const registry = buildRegistry(sport.toUpperCase(), set.rows.map((r) => r.team));
+    const rowFor = (name: string) => {
+      const team = resolveTeam(name, registry, { source: 'odds_api' }).team;
+      return set.rows.find((r) => r.team === team) ?? null;
+    };
+    // Rating difference plus the home side's own HFA, as /api/power-ratings prices it
+    const line = (homeName: string, awayName: string, neutral: boolean): number | null => {
+      const home = rowFor(homeName);
+      const away = rowFor(awayName);
+      if (!home || !away) return null;
+      const hfa = neutral ? 0 : home.hfa ?? DEFAULT_POWER_HFA;
+      return Math.round((away.thisYr - home.thisYr - hfa) * 10) / 10;
+    };
+    const system = powerSetSystem(source, set.label);
+    const project = new Map<string, number>();
+    for (const game of ctx.games) {
+      const l = line(game.home_team, game.away_team, ctx.neutral(game));
+      if (l !== null) project.set(game.id, l);
+    }
+    return { system, project, history: seedHistory(system.id, adjustments, line) };
+  });
+}
+
+// ============================================
+// Systems — NCAAF drive / efficiency models
+// ============================================
+
+async function eckelSource(ctx: ProjectionContext): Promise<SystemSource> {
+  const source: SystemSource = { system: CONSENSUS_SYSTEMS.americanfootball_ncaaf[2], project: new Map(), history: [] };
+  const { data, error } = await supabase
+    .from('eckel_snapshots')
+    .select('data')
+    .order('computed_at', { ascending: false })
+    .limit(1);
+  if (error) throw new Error(`eckel_snapshots: ${error.message}`);
+  const snapshot = data?.[0]?.data as EckelSnapshot | undefined;
+  if (!snapshot) return source;
+
+  // Home HFA as /api/eckel prices it: Brad Powers' per-team value, else the fitted league HFA
+  const { data: powers } = await supabase
+    .from('power_rating_sets')
+    .select('ratings')
+    .eq('sport', 'ncaaf')
+    .eq('source', 'brad_powers')
+    .order('season', { ascending: false })
+    .limit(1);
+  const powerRows: PowerRatingRow[] = powers?.[0]?.ratings ?? [];
+  const homeHfa = (oddsName: string) => {
+    const matched = matchOddsNameToTeam(oddsName, powerRows.map((r) => r.team));
+    const hfa = powerRows.find((r) => r.team === matched)?.hfa;
+    return typeof hfa === 'number' ? hfa : snapshot.meta.hfaPoints;
+  };
+
+  const names = snapshot.teams.map((t) => t.team);
+  const metric = (oddsName: string) => {
+    const match = matchOddsToCfbd(oddsName, names);
+    return match.confidence === 'none' ? null : snapshot.teams.find((t) => t.team === match.cfbdName) ?? null;
+  };
+  for (const game of ctx.games) {
+    const home = metric(game.home_team);
+    const away = metric(game.away_team);
+    if (!home || !away) continue;
+    const hfa = ctx.neutral(game) ? 0 : homeHfa(game.home_team);
+    source.project.set(game.id, Math.round(-(home.powerRating - away.powerRating + hfa) * 10) / 10);
+  }
+  return source;
+}
+
+async function feiSource(ctx: ProjectionContext): Promise<SystemSource> {
+  const source: SystemSource = { system: CONSENSUS_SYSTEMS.americanfootball_ncaaf[1], project: new Map(), history: [] };
+  if (!ctx.origin) return source;
+  const [fei, possession] = await Promise.all([
+    getJson<FEITeamData[]>(`${ctx.origin}/api/fei-data`),
+    getJson<PossessionData[]>(`${ctx.origin}/api/possession-data`),
+  ]);
+  if (!Array.isArray(fei) || !fei.length) return source;
+  const byTeam = new Map((Array.isArray(possession) ? possession : []).map((p) => [p.team, p]));
+  const teams = fei.map((t) => ({ ...t, possession: byTeam.get(t.team) }));
+
+  for (const game of ctx.games) {
+    const home = getTeamFEIData(game.home_team, teams);
+    const away = getTeamFEIData(game.away_team, teams);
+    if (!home || !away) continue;
+    // calculateExpectedScore bakes a home bump into its second argument;
+    // averaging both orientations cancels it on a neutral field
+    const margin = ctx.neutral(game)
+      ? (calculateExpectedScore(away, home).spread - calculateExpectedScore(home, away).spread) / 2
+      : calculateExpectedScore(away, home).spread;
+    source.project.set(game.id, Math.round(-margin * 10) / 10);
+  }
+  return source;
+}
+
+async function collectSources(ctx: ProjectionContext, withHistory: boolean, warnings: string[]): Promise<SystemSource[]> {
+  const tasks: [string, () => Promise<SystemSource[]>][] = ctx.sportKey === NCAAB_SPORT_KEY
+    ? [['NCAAB ratings', () => ncaabSources(ctx, withHistory)]]
+    : [['Market ratings', () => marketSources(ctx, withHistory)], ['Power sets', () => powerSetSources(ctx, withHistory)]];
+  if (ctx.sportKey === 'americanfootball_ncaaf') {
+    tasks.push(['FEI', async () => [await feiSource(ctx)]], ['Eckel', async () => [await eckelSource(ctx)]]);
+  }
+  const results = await Promise.allSettled(tasks.map(([, run]) => run()));
+  return results.flatMap((r, i) => {
+    if (r.status === 'fulfilled') return r.value;
+    warnings.push(`${tasks[i][0]}: ${r.reason instanceof Error ? r.reason.message : String(r.reason)}`);
+    return [];
+  });
+}
+
+// ============================================
+// Projection log
+// ============================================
+
+async function loggedHistory(sportKey: string): Promise<ProjectionRecord[]> {
+  const out: ProjectionRecord[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('consensus_projections')
+      .select('system, projected_spread, closing_spread')
+      .eq('sport_key', sportKey)
+      .not('closing_spread', 'is', null)
+      .order('commence_time', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`consensus_projections: ${error.message}`);
+    for (const r of data ?? []) out.push({ system: r.system, projected: r.projected_spread, closing: r.closing_spread });
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return out;
+}
+
+// Last pre-game projection wins: started games are never rewritten
+async function logProjections(sportKey: string, games: Game[], sources: SystemSource[], now: Date): Promise<void> {
+  const rows = sources.flatMap((s) => games
+    .filter((g) => s.project.has(g.id) && new Date(g.commence_time) > now)
+    .map((g) => ({
+      game_id: g.id,
+      sport_key: sportKey,
+      system: s.system.id,
+      home_team: g.home_team,
+      away_team: g.away_team,
+      commence_time: g.commence_time,
+      projected_spread: s.project.get(g.id)!,
+      updated_at: now.toISOString(),
+    })));
+  for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+    const { error } = await supabase
+      .from('consensus_projections')
+      .upsert(rows.slice(i, i + PAGE_SIZE), { onConflict: 'game_id,system' });
+    if (error) throw new Error(`consensus_projections: ${error.message}`);
+  }
+}
+
+// Grade a batch of started, logged games against their snapshot close
+async function gradeLoggedGames(sportKey: string, now: Date): Promise<number> {
+  const { data, error } = await supabase
+    .from('consensus_projections')
+    .select('game_id, commence_time')
+    .eq('sport_key', sportKey)
+    .is('closing_checked_at', null)
+    .lt('commence_time', now.toISOString())
+    .order('commence_time', { ascending: true })
+    .limit(GRADE_BATCH_GAMES * 10);
+  if (error) throw new Error(`consensus_projections: ${error.message}`);
+  const games = new Map<string, string>();
+  for (const r of data ?? []) {
+    if (games.size >= GRADE_BATCH_GAMES) break;
+    games.set(r.game_id, r.commence_time);
+  }
+  if (!games.size) return 0;
+
+  const snapshots: OddsSnapshotRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: rows, error: snapError } = await supabase
+      .from('odds_snapshots')
+      .select('*')
+      .in('game_id', [...games.keys()])
+      .in('market', ['spreads', 'h2h'])
+      .order('book_updated_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (snapError) throw new Error(`odds_snapshots: ${snapError.message}`);
+    snapshots.push(...((rows ?? []) as OddsSnapshotRow[]));
+    if (!rows || rows.length < PAGE_SIZE) break;
+  }
+
+  let graded = 0;
+  for (const [gameId, commence] of games) {
+    const board = closingBoardFromSnapshots(snapshots.filter((r) => r.game_id === gameId), commence);
+    const closing = board ? marketHomeSpread(board, sportKey) : null;
+    if (closing !== null) graded++;
+    const { error: updateError } = await supabase
+      .from('consensus_projections')
+      .update({ closing_spread: closing, closing_checked_at: now.toISOString() })
+      .eq('game_id', gameId);
+    if (updateError) throw new Error(`consensus_projections: ${updateError.message}`);
+  }
+  return graded;
+}
+
+// ============================================
+// Run
+// ============================================
+
+const weightsCache = new Map<string, { at: number; systems: SystemWeight[]; errors: SystemError[] }>();
+
+async function neutralLookup(sportKey: string, origin?: string): Promise<(game: Game) => boolean> {
+  if (sportKey !== 'americanfootball_ncaaf' || !origin) return () => false;
+  const data = await getJson<{ games?: NeutralGame[] }>(`${origin}/api/neutral-sites`);
+  const games = Array.isArray(data?.games) ? data.games : [];
+  return (game) => findNeutralGame(games, game.away_team, game.home_team, game.commence_time) !== null;
+}
+
+/**
+ * Price a league's upcoming board (or one game of it) with every system,
+ * blend on the learned weights and compare with the market. With `log` set
+ * it also records this run's projections and grades a batch of finished
+ * ones; page views and GETs only read.
+ */
+export async function runConsensus(
+  sportKey: string,
+  options: { gameId?: string; origin?: string; now?: Date; log?: boolean } = {},
+): Promise<ConsensusRunResult> {
+  const now = options.now ?? new Date();
+  const warnings: string[] = [];
+  // The board's own request (same as /api/odds), so it shares the board's cache
+  const { data } = await getOddsProvider().getOdds<Game>(
+    sportKey,
+    { markets: ['h2h', 'spreads', 'totals'], bookmakers: BOARD_BOOKMAKERS, includeLinks: true },
+    { revalidate: 60 }
+  );
+  const board = (data ?? []).filter((g) => !options.gameId || g.id === options.gameId);
+
+  const cachedWeights = weightsCache.get(sportKey);
+  const fresh = cachedWeights && Date.now() - cachedWeights.at < WEIGHTS_TTL_MS ? cachedWeights : null;
+  const ctx: ProjectionContext = { sportKey, games: board, neutral: await neutralLookup(sportKey, options.origin), origin: options.origin };
+  const sources = await collectSources(ctx, !fresh, warnings);
+
+  let weights = fresh;
+  if (!weights) {
+    const logged = await loggedHistory(sportKey).catch((e) => {
+      warnings.push(`History: ${e instanceof Error ? e.message : String(e)}`);
+      return [] as ProjectionRecord[];
+    });
+    const errors = systemErrors(combineHistory(sources.flatMap((s) => s.history), logged));
+    const systems = [...(CONSENSUS_SYSTEMS[sportKey] ?? [])];
+    for (const s of sources) {
+      if (!systems.some((x) => x.id === s.system.id)) systems.push(s.system);
+    }
+    weights = { at: Date.now(), systems: learnWeights(systems, errors, priorFor(sportKey)), errors: [...errors.values()] };
+    weightsCache.set(sportKey, weights);
+  }
+
+  const games: ConsensusRunResult['games'] = [];
+  for (const game of board) {
+    const projections = sources
+      .filter((s) => s.project.has(game.id))
+      .map((s) => ({ system: s.system.id, homeSpread: s.project.get(game.id)! }));
+    const line = blendProjections(projections, weights.systems);
+    if (!line) continue;
+    const market = marketHomeSpread(game, sportKey);
+    games.push({
+      gameId: game.id,
+      sportKey,
+      homeTeam: game.home_team,
+      awayTeam: game.away_team,
+      commenceTime: game.commence_time,
+      line,
+      edge: market === null ? null : consensusEdge(line, market),
+      projections,
+    });
+  }
+
+  if (options.log) {
+    try {
+      await logProjections(sportKey, board, sources, now);
+      await gradeLoggedGames(sportKey, now);
+    } catch (e) {
+      warnings.push(`Log: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  return { sportKey, systems: weights.systems, errors: weights.errors, games, warnings };
+}
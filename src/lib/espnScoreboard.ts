@@ -0,0 +1,329 @@
+// src/lib/espnScoreboard.ts
+// Server-side ESPN scoreboard fetch, simplified to ESPNGameScore. Shared by
+// /api/espn (live scores on the board) and bet settlement, which asks for a
+// past date's finals. fetchCompletedGames walks a date range for the
+// market-ratings sync; fetchNcaaTournamentResults feeds the tournament model
+// and fetchNeutralSiteGames flags NCAAB neutral sites.
+
+import type { ESPNGameScore } from './api';
+import type { CompletedGame } from './ratings/types';
+import type { TournamentResult } from './tournamentModel';
+
+// Map our league keys to ESPN API paths
+export const ESPN_LEAGUE_MAP: { [key: string]: { sport: string; league: string } } = {
+  'americanfootball_nfl': { sport: 'football', league: 'nfl' },
+  'americanfootball_ncaaf': { sport: 'football', league: 'college-football' },
+  'americanfootball_cfl': { sport: 'football', league: 'cfl' },
+  'basketball_nba': { sport: 'basketball', league: 'nba' },
+  'basketball_ncaab': { sport: 'basketball', league: 'mens-college-basketball' },
+  'icehockey_nhl': { sport: 'hockey', league: 'nhl' },
+  'baseball_mlb': { sport: 'baseball', league: 'mlb' },
+  'basketball_wnba': { sport: 'basketball', league: 'wnba' },
+  'soccer_usa_mls': { sport: 'soccer', league: 'usa.1' },
+  'soccer_epl': { sport: 'soccer', league: 'eng.1' },
+  'lacrosse_ncaa': { sport: 'lacrosse', league: 'mens-college-lacrosse' },
+};
+
+interface ESPNCompetitor {
+  homeAway: string;
+  team?: {
+    displayName?: string;
+    name?: string;
+    logo?: string;
+  };
+  score?: string;
+}
+
+interface ESPNStatus {
+  period?: number;
+  displayClock?: string;
+  type?: { state?: string; shortDetail?: string; detail?: string };
+}
+
+interface ESPNCompetition {
+  competitors?: ESPNCompetitor[];
+  status?: ESPNStatus;
+}
+
+interface ESPNEvent {
+  competitions?: ESPNCompetition[];
+}
+
+/**
+ * Scoreboard for one league. `date` (YYYY-MM-DD) asks ESPN for that day's
+ * slate instead of the current one. Throws on an unsupported league or an
+ * ESPN error.
+ */
+export async function fetchESPNScoreboard(league: string, date?: string): Promise<ESPNGameScore[]> {
+  const espnLeague = ESPN_LEAGUE_MAP[league];
+  if (!espnLeague) throw new Error(`Unsupported league: ${league}`);
+
+  // Build the API URL - add groups=50 for college sports to get all games (not just top 25)
+  const params = new URLSearchParams();
+  if (espnLeague.league === 'mens-college-basketball' || espnLeague.league === 'college-football') {
+    params.set('limit', '200');
+    params.set('groups', '50');
+  }
+  if (date) params.set('dates', date.replace(/-/g, ''));
+  const query = params.toString();
+  const apiUrl = `https://site.api.espn.com/apis/site/v2/sports/${espnLeague.sport}/${espnLeague.league}/scoreboard${query ? `?${query}` : ''}`;
+
+  console.log('Fetching ESPN scores:', apiUrl);
+
+  const response = await fetch(apiUrl, {
+    next: { revalidate: 30 } // Cache for 30 seconds
+  });
+  if (!response.ok) {
+    throw new Error(`ESPN API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+
+  // Parse and simplify the ESPN response
+  const scores: ESPNGameScore[] = [];
+  if (data.events && Array.isArray(data.events)) {
+    for (const event of data.events as ESPNEvent[]) {
+      const competition = event.competitions?.[0];
+      if (!competition) continue;
+
+      const competitors = competition.competitors || [];
+      const homeTeam = competitors.find((c: ESPNCompetitor) => c.homeAway === 'home');
+      const awayTeam = competitors.find((c: ESPNCompetitor) => c.homeAway === 'away');
+
+      if (!homeTeam || !awayTeam) continue;
+
+      const status = competition.status || {};
+      const statusType = status.type || {};
+
+      scores.push({
+        homeTeam: homeTeam.team?.displayName || homeTeam.team?.name || '',
+        awayTeam: awayTeam.team?.displayName || awayTeam.team?.name || '',
+        homeScore: homeTeam.score || '0',
+        awayScore: awayTeam.score || '0',
+        homeLogo: homeTeam.team?.logo || '',
+        awayLogo: awayTeam.team?.logo || '',
+        period: status.period || 0,
+        displayClock: status.displayClock || '',
+        state: (statusType.state as 'pre' | 'in' | 'post') || 'pre',
+        statusDetail: statusType.shortDetail || statusType.detail || '',
+      });
+    }
+  }
+  return scores;
+}
+
+// ============================================
+// Completed-game history (ratings sync)
+// ============================================
+
+interface ESPNHistoryCompetitor extends ESPNCompetitor {
+  homeAway: 'home' | 'away';
+}
+
+interface ESPNHistoryEvent {
+  id: string;
+  date: string;
+  competitions?: {
+    date?: string;
+    competitors?: ESPNHistoryCompetitor[];
+    venue?: { neutral?: boolean };
+    neutralSite?: boolean;
+    status?: { type?: { state?: string; completed?: boolean } };
+  }[];
+}
+
+// Longest window one sync walks, a day at a time
+const MAX_HISTORY_DAYS = 260;
+
+async function fetchCompletedForDate(league: string, date: string): Promise<CompletedGame[]> {
+  const espnLeague = ESPN_LEAGUE_MAP[league];
+  const params = new URLSearchParams({ dates: date.replace(/-/g, ''), limit: '200' });
+  if (espnLeague.league === 'mens-college-basketball' || espnLeague.league === 'college-football') {
+    params.set('groups', espnLeague.league === 'college-football' ? '80' : '50');
+  }
+  const apiUrl = `https://site.api.espn.com/apis/site/v2/sports/${espnLeague.sport}/${espnLeague.league}/scoreboard?${params}`;
+
+  try {
+    const response = await fetch(apiUrl, { next: { revalidate: 3600 } });
+    if (!response.ok) {
+      console.error(`[ESPN History] API error for ${league} ${date}:`, response.status);
+      return [];
+    }
+
+    const data = await response.json();
+    const games: CompletedGame[] = [];
+    for (const event of (data.events || []) as ESPNHistoryEvent[]) {
+      const competition = event.competitions?.[0];
+      const home = competition?.competitors?.find(c => c.homeAway === 'home');
+      const away = competition?.competitors?.find(c => c.homeAway === 'away');
+      if (!competition || !home || !away) continue;
+
+      const completed = competition.status?.type?.completed === true || competition.status?.type?.state === 'post';
+      if (!completed) continue;
+
+      const score = (s?: string) => (s !== undefined && s !== '' && !isNaN(Number(s)) ? Number(s) : null);
+      games.push({
+        id: event.id,
+        date: competition.date || event.date,
+        homeTeam: home.team?.displayName || home.team?.name || 'Unknown',
+        awayTeam: away.team?.displayName || away.team?.name || 'Unknown',
+        isNeutralSite: competition.neutralSite === true || competition.venue?.neutral === true,
+        homeScore: score(home.score),
+        awayScore: score(away.score),
+      });
+    }
+    return games;
+  } catch (error) {
+    console.error(`[ESPN History] Error fetching ${league} ${date}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Completed games for a league between two dates (YYYY-MM-DD, inclusive),
+ * oldest first, stopping once `limit` games are found. Days that fail to load
+ * are skipped rather than failing the range.
+ */
+export async function fetchCompletedGames(
+  league: string,
+  startDate: string,
+  endDate: string,
+  limit: number
+): Promise<CompletedGame[]> {
+  if (!ESPN_LEAGUE_MAP[league]) throw new Error(`Unsupported league: ${league}`);
+
+  const current = new Date(`${startDate}T12:00:00Z`);
+  const end = new Date(`${endDate}T12:00:00Z`);
+  if (isNaN(current.getTime()) || isNaN(end.getTime())) return [];
+
+  const days = Math.round((end.getTime() - current.getTime()) / 86_400_000);
+  if (days > MAX_HISTORY_DAYS) {
+    throw new Error(`Date range too large: ${days} days (max ${MAX_HISTORY_DAYS})`);
+  }
+
+  const games: CompletedGame[] = [];
+  let daysProcessed = 0;
+  while (current <= end && games.length < limit) {
+    games.push(...await fetchCompletedForDate(league, current.toISOString().slice(0, 10)));
+    current.setUTCDate(current.getUTCDate() + 1);
+    if (++daysProcessed % 10 === 0) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  games.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  console.log(`[ESPN History] ${league}: ${games.length} completed games over ${daysProcessed} days`);
+  return games.slice(0, limit);
+}
+
+// ============================================
+// NCAAB neutral sites
+// ============================================
+
+export interface NeutralSiteGame {
+  homeTeam: string;
+  awayTeam: string;
+  date: string;
+}
+
+interface ESPNNeutralEvent {
+  competitions?: {
+    neutralSite?: boolean;
+    venue?: { neutral?: boolean };
+    competitors?: ESPNCompetitor[];
+  }[];
+}
+
+/**
+ * NCAAB games at neutral sites on one date (YYYY-MM-DD), with ESPN's team
+ * names — the Odds API carries no venue data. Throws on an ESPN error, so a
+ * caller can tell "no neutral games" from "don't know".
+ */
+export async function fetchNeutralSiteGames(date: string): Promise<NeutralSiteGame[]> {
+  const response = await fetch(
+    `https://site.api.espn.com/apis/site/v2/sports/basketball/mens-college-basketball/scoreboard?dates=${date.replace(/-/g, '')}&limit=200&groups=50`,
+    { next: { revalidate: 3600 } }
+  );
+  if (!response.ok) throw new Error(`ESPN API error: ${response.status}`);
+
+  const data = await response.json();
+  const games: NeutralSiteGame[] = [];
+  for (const event of (data.events || []) as ESPNNeutralEvent[]) {
+    const comp = event.competitions?.[0];
+    if (!comp || !(comp.neutralSite === true || comp.venue?.neutral === true)) continue;
+
+    const home = comp.competitors?.find(c => c.homeAway === 'home');
+    const away = comp.competitors?.find(c => c.homeAway === 'away');
+    if (home?.team && away?.team) {
+      games.push({
+        homeTeam: home.team.displayName || home.team.name || '',
+        awayTeam: away.team.displayName || away.team.name || '',
+        date,
+      });
+    }
+  }
+  return games;
+}
+
+// ============================================
+// NCAA tournament results (tournament model)
+// ============================================
+
+interface ESPNTournamentEvent {
+  competitions?: {
+    competitors?: (ESPNCompetitor & { winner?: boolean })[];
+    notes?: { headline?: string }[];
+    status?: { type?: { completed?: boolean } };
+  }[];
+}
+
+/**
+ * Finished men's NCAA tournament games for one season, from ESPN's
+ * tournament scoreboard (groups=100, postseason, mid-March to mid-April).
+ * A game counts only when its note names the championship, which keeps the
+ * NIT and other postseason events out; the First Four (the Opening Round
+ * before 2011) is flagged. Returns [] when ESPN fails — the season then has
+ * no results rather than partial ones.
+ */
+export async function fetchNcaaTournamentResults(year: number): Promise<TournamentResult[]> {
+  const params = new URLSearchParams({
+    dates: `${year}0310-${year}0415`,
+    groups: '100',
+    seasontype: '3',
+    limit: '300',
+  });
+  const apiUrl = `https://site.api.espn.com/apis/site/v2/sports/basketball/mens-college-basketball/scoreboard?${params}`;
+
+  try {
+    // A finished tournament doesn't change; the current one fills in daily
+    const response = await fetch(apiUrl, { next: { revalidate: 86400 } });
+    if (!response.ok) {
+      console.error(`[ESPN Tournament] API error for ${year}:`, response.status);
+      return [];
+    }
+
+    const data = await response.json();
+    const results: TournamentResult[] = [];
+    for (const event of (data.events || []) as ESPNTournamentEvent[]) {
+      const competition = event.competitions?.[0];
+      const headline = competition?.notes?.[0]?.headline ?? '';
+      if (!competition?.status?.type?.completed || !/championship/i.test(headline)) continue;
+
+      const [x, y] = competition.competitors ?? [];
+      if (!x || !y) continue;
+      const won = (c: typeof x, other: typeof x) =>
+        c.winner ?? Number(c.score) > Number(other.score);
+      const [winner, loser] = won(x, y) ? [x, y] : [y, x];
+      results.push({
+        year,
+        winner: winner.team?.displayName || winner.team?.name || '',
+        loser: loser.team?.displayName || loser.team?.name || '',
+        firstFour: /first four|opening round/i.test(headline),
+      });
+    }
+    return results;
+  } catch (error) {
+    console.error(`[ESPN Tournament] Error fetching ${year}:`, error);
+    return [];
+  }
+}
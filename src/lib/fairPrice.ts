@@ -0,0 +1,125 @@
+// src/lib/fairPrice.ts
+// No-vig fair prices for the game board: devig a sharp reference market into
+// fair probabilities, then score every book's price against it (EV%) and
+// report each book's hold. Reference is configurable — Pinnacle, the median
+// of the US books, or Kalshi's two-sided mid — with 'auto' falling through
+// them in that order.
+// Pure functions — no I/O. Tested by scripts/arbs.test.ts.
+
+import type { Game, Outcome } from './api';
+import { BOOKMAKER_KEYS } from './api';
+import { americanToProb, devig, expectedValue, median } from './props/engine';
+
+export type FairSource = 'auto' | 'pinnacle' | 'us_median' | 'kalshi';
+
+export const FAIR_SOURCES: { id: FairSource; label: string }[] = [
+  { id: 'auto', label: 'Auto (Pinnacle → US → Kalshi)' },
+  { id: 'pinnacle', label: 'Pinnacle' },
+  { id: 'us_median', label: 'US books median' },
+  { id: 'kalshi', label: 'Kalshi mid' },
+];
+
+// Sportsbooks on the board, by Odds API key — Kalshi is its own reference
+const US_BOOK_KEYS = Object.values(BOOKMAKER_KEYS).filter((k) => k !== 'kalshi');
+
+export interface MarketFair {
+  source: Exclude<FairSource, 'auto'>;
+  probs: Record<string, number>;          // outcome name → fair probability
+  points: Record<string, number | null>;  // outcome name → number the probs are for
+}
+
+/**
+ * Proportional devig of one book's market. Two-way markets go through the
+ * props engine's devig; 3-way soccer moneylines normalise the same way.
+ */
+function devigOutcomes(outcomes: Outcome[]): Record<string, number> | null {
+  if (outcomes.length < 2) return null;
+  if (outcomes.length === 2) {
+    const { pOver, pUnder } = devig(outcomes[0].price, outcomes[1].price);
+    return { [outcomes[0].name]: pOver, [outcomes[1].name]: pUnder };
+  }
+  const implied = outcomes.map((o) => americanToProb(o.price));
+  const total = implied.reduce((a, b) => a + b, 0);
+  return Object.fromEntries(outcomes.map((o, i) => [o.name, implied[i] / total]));
+}
+
+const marketOf = (game: Game, bookKey: string, marketKey: string) =>
+  game.bookmakers.find((b) => b.key === bookKey)?.markets.find((m) => m.key === marketKey);
+
+const pointsOf = (outcomes: Outcome[]) =>
+  Object.fromEntries(outcomes.map((o) => [o.name, o.point ?? null]));
+
+// Fair line from a single book (Pinnacle or Kalshi)
+function singleBookFair(game: Game, bookKey: string, marketKey: string, source: MarketFair['source']): MarketFair | null {
+  const outcomes = marketOf(game, bookKey, marketKey)?.outcomes ?? [];
+  const probs = devigOutcomes(outcomes);
+  return probs ? { source, probs, points: pointsOf(outcomes) } : null;
+}
+
+/**
+ * US consensus: the most common number across the US books, then the median
+ * of each side's devigged probability among the books dealing that number.
+ * Needs two books on the number to count as a consensus.
+ */
+function usMedianFair(game: Game, marketKey: string): MarketFair | null {
+  const markets = US_BOOK_KEYS
+    .map((k) => marketOf(game, k, marketKey)?.outcomes ?? [])
+    .filter((o) => o.length >= 2);
+  if (!markets.length) return null;
+
+  // Key each book's market by its number, read off a fixed side — the home
+  // team's spread or the Over's total — so outcome order can't split books
+  // dealing the same line. h2h has no number.
+  const keyOf = (o: Outcome[]) => {
+    const anchor = o.find((x) => x.name === game.home_team) ?? o.find((x) => x.name === 'Over') ?? o[0];
+    return String(anchor.point ?? '');
+  };
+  const counts = new Map<string, number>();
+  for (const m of markets) counts.set(keyOf(m), (counts.get(keyOf(m)) ?? 0) + 1);
+  const modal = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  const onNumber = markets.filter((m) => keyOf(m) === modal);
+  if (onNumber.length < 2) return null;
+
+  const devigged = onNumber.map(devigOutcomes).filter((p): p is Record<string, number> => p !== null);
+  const names = Object.keys(devigged[0]);
+  const raw = Object.fromEntries(names.map((n) => [n, median(devigged.map((d) => d[n] ?? NaN).filter(Number.isFinite))]));
+  // Medians of each side needn't sum to 1 — renormalise
+  const total = Object.values(raw).reduce((a, b) => a + b, 0);
+  const probs = Object.fromEntries(names.map((n) => [n, raw[n] / total]));
+  return { source: 'us_median', probs, points: pointsOf(onNumber[0]) };
+}
+
+/** Fair probabilities for one market of one game, or null when the reference has no quote. */
+export function fairForMarket(game: Game, marketKey: string, source: FairSource = 'auto'): MarketFair | null {
+  const pinnacle = () => singleBookFair(game, 'pinnacle', marketKey, 'pinnacle');
+  const us = () => usMedianFair(game, marketKey);
+  const kalshi = () => singleBookFair(game, 'kalshi', marketKey, 'kalshi');
+  if (source === 'pinnacle') return pinnacle();
+  if (source === 'us_median') return us();
+  if (source === 'kalshi') return kalshi();
+  return pinnacle() ?? us() ?? kalshi();
+}
+
+/**
+ * EV of a book's price against the fair line, as a fraction of stake
+ * (0.032 = +3.2%). Null when the book deals a different number than the
+ * reference — a price at another number isn't comparable.
+ */
+export function outcomeEv(fair: MarketFair | null, outcome: Outcome | undefined): number | null {
+  if (!fair || !outcome) return null;
+  const p = fair.probs[outcome.name];
+  if (p === undefined) return null;
+  if ((fair.points[outcome.name] ?? null) !== (outcome.point ?? null)) return null;
+  return expectedValue(p, outcome.price);
+}
+
+/** Fair American price for one side, from its fair probability. */
+export function fairAmerican(p: number): number {
+  return p >= 0.5 ? -Math.round((p / (1 - p)) * 100) : Math.round(((1 - p) / p) * 100);
+}
+
+/** Book hold on a market: summed implied probability minus 1 (0.045 = 4.5%). */
+export function marketHold(outcomes: Outcome[] | undefined): number | null {
+  if (!outcomes || outcomes.length < 2) return null;
+  return outcomes.reduce((s, o) => s + americanToProb(o.price), 0) - 1;
+}
@@ -1,5 +1,7 @@
 // src/lib/feiData.ts
 
+import { buildRegistry, resolveTeam } from './teams';
+
 // Import possession data type from API route
 export interface PossessionData {
   team: string;    // Team name - ADDED THIS LINE TO FIX THE BUILD ERROR
@@ -68,7 +70,8 @@ export interface ScoreProjection {
   confidence: string;
 }
 
-// Team name mapping to handle variations between your odds data and FEI data
+// Odds-name → FEI-name aliases for the team registry (names the resolver's
+// school/mascot rules can't be trusted to find on their own)
 export const FEI_TEAM_MAPPING: { [key: string]: string } = {
   // Map common variations (expand this based on actual mismatches)
   'Ohio State Buckeyes': 'Ohio State',
@@ -440,40 +443,21 @@ function getProjectionConfidence(
 }
 
 /**
- * Gets FEI data for a specific team
+ * Gets FEI data for a specific team: FEI's team names are the registry, the
+ * mapping above supplies the odds-name aliases, and the shared resolver does
+ * the rest — "Colorado State Rams" never lands on Colorado, and a name that
+ * could be two FEI teams comes back null rather than a guess.
  */
 export function getTeamFEIData(teamName: string, feiData: FEITeamData[]): FEITeamData | null {
-  // First try exact match
-  let team = feiData.find(t => t.team.toLowerCase() === teamName.toLowerCase());
-  
-  // If not found, try mapped name
-  if (!team) {
-    const mappedName = FEI_TEAM_MAPPING[teamName];
-    if (mappedName) {
-      team = feiData.find(t => t.team.toLowerCase() === mappedName.toLowerCase());
-    }
-  }
-  
-  // If still not found, try removing common suffixes and matching again
-  if (!team) {
-    // Remove common team name suffixes for matching
-    const simplifiedName = teamName
-      .replace(/ (Rams|Buffaloes|Tigers|Bulldogs|Wildcats|Cowboys|Aggies|Rebels|Trojans|Hoosiers|Sooners|Cardinals|Hawkeyes|Gators|Golden Gophers|Cyclones|Hurricanes|Gamecocks|Cougars|Mustangs|Sun Devils|Broncos|Badgers|Bears|Huskies|Horned Frogs|Utes|Cornhuskers|Fighting Illini|Black Knights|Hokies|Red Raiders|Razorbacks|Green Wave|Bearcats|Knights|Jayhawks|Bruins|Midshipmen|Scarlet Knights|Yellow Jackets|Orange|Terrapins|Tar Heels|Golden Bears|Dukes|Panthers|Mountaineers|Eagles|Wolfpack|Commodores|Blue Devils|Seminoles|Thundering Herd|Demon Deacons|Ragin' Cajuns|Bobcats|Spartans|Cavaliers|Beavers|RedHawks|Hilltoppers|Roadrunners|Falcons|Jaguars|Cardinal|Flames)$/i, '')
-      .trim();
-    
-    // Try exact match with simplified name
-    team = feiData.find(t => t.team.toLowerCase() === simplifiedName.toLowerCase());
-  }
-  
-  // Last resort: careful partial match (but avoid false positives like Colorado/Colorado State)
-  if (!team) {
-    // Check if the team name ends with the FEI team name (e.g., "Colorado State Rams" ends with "State")
-    // This is too risky, so we'll skip partial matching for now
-    // Instead, log a warning
-    console.warn(`Could not find FEI data for team: ${teamName}`);
-  }
-  
-  return team || null;
+  const aliases = Object.entries(FEI_TEAM_MAPPING).map(([name, fei]) => ({
+    canonical: fei,
+    alias: { name, source: 'odds_api' as const },
+  }));
+  const registry = buildRegistry('NCAAF', feiData.map(t => t.team), aliases);
+  const { team } = resolveTeam(teamName, registry, { source: 'odds_api' });
+  const found = team ? feiData.find(t => t.team === team) : undefined;
+  if (!found) console.warn(`Could not find FEI data for team: ${teamName}`);
+  return found ?? null;
 }
 
 /**
@@ -4,6 +4,8 @@
 // attachment. Used by the /futures/[sport] share page AND the Discord sender
 // so the two can never disagree.
 import { fetchKalshiFutures } from '@/lib/kalshi';
+import { getOddsProvider } from '@/lib/odds';
+import { buildRegistry, resolveTeam } from '@/lib/teams';
 
 const SPORT_TO_CHAMPIONSHIP: { [key: string]: string } = {
   'basketball_nba': 'basketball_nba_championship_winner',
@@ -56,16 +58,6 @@ interface FutureEntry {
   mascot?: string; // ESPN `name` — e.g. "Broncos"
 }
 
-function matchScore(name1: string, name2: string): number {
-  const n1 = name1.toLowerCase();
-  const n2 = name2.toLowerCase();
-  if (n1 === n2) return 4;
-  if (n1.includes(n2) || n2.includes(n1)) return 3;
-  if (n1.split(' ')[0] === n2.split(' ')[0]) return 2;
-  if (n1.split(' ').slice(-1)[0] === n2.split(' ').slice(-1)[0]) return 1;
-  return 0;
-}
-
 const toProb = (american: number) =>
   american < 0 ? -american / (-american + 100) : 100 / (american + 100);
 
@@ -74,31 +66,25 @@ async function getTopFutures(sport: string): Promise<FutureEntry[]> {
 
   // Sportsbook outrights (when the-odds-api has them)
   const championshipKey = SPORT_TO_CHAMPIONSHIP[sport];
-  if (championshipKey && process.env.ODDS_API_KEY) {
+  if (championshipKey) {
     try {
-      const resp = await fetch(
-        `https://api.the-odds-api.com/v4/sports/${championshipKey}/odds/?apiKey=${process.env.ODDS_API_KEY}&regions=us&markets=outrights&oddsFormat=american`,
-        { next: { revalidate: 1800 } }
-      );
-      if (resp.ok) {
-        const events = await resp.json();
-        const best: Record<string, { odds: number; book: string }> = {};
-        for (const ev of events ?? []) {
-          for (const b of ev.bookmakers ?? []) {
-            if (!MAJOR_BOOKS.has(b.title)) continue;
-            for (const mk of b.markets ?? []) {
-              if (mk.key !== 'outrights') continue;
-              for (const o of mk.outcomes ?? []) {
-                if (typeof o.price !== 'number') continue;
-                if (best[o.name] === undefined || o.price > best[o.name].odds) {
-                  best[o.name] = { odds: o.price, book: b.title };
-                }
+      const { data: events } = await getOddsProvider().getOdds(championshipKey, { markets: ['outrights'] }, { revalidate: 1800 });
+      const best: Record<string, { odds: number; book: string }> = {};
+      for (const ev of events) {
+        for (const b of ev.bookmakers ?? []) {
+          if (!MAJOR_BOOKS.has(b.title)) continue;
+          for (const mk of b.markets ?? []) {
+            if (mk.key !== 'outrights') continue;
+            for (const o of mk.outcomes ?? []) {
+              if (typeof o.price !== 'number') continue;
+              if (best[o.name] === undefined || o.price > best[o.name].odds) {
+                best[o.name] = { odds: o.price, book: b.title };
               }
             }
           }
         }
-        for (const [name, v] of Object.entries(best)) entries.push({ name, odds: v.odds, book: v.book });
       }
+      for (const [name, v] of Object.entries(best)) entries.push({ name, odds: v.odds, book: v.book });
     } catch { /* sportsbook side optional */ }
   }
 
@@ -106,8 +92,10 @@ async function getTopFutures(sport: string): Promise<FutureEntry[]> {
   try {
     const kalshi = await fetchKalshiFutures(sport);
     const kalshiOnly = entries.length === 0;
+    const registry = buildRegistry(sport, entries.map(e => e.name));
     for (const k of kalshi) {
-      const existing = entries.find(e => matchScore(e.name, k.team) >= 3);
+      const matched = resolveTeam(k.team, registry, { source: 'kalshi' }).team;
+      const existing = matched ? entries.find(e => e.name === matched) : undefined;
       if (existing) {
         if (k.odds > existing.odds) {
           existing.odds = k.odds;
@@ -139,22 +127,18 @@ async function attachEspnAssets(sport: string, entries: FutureEntry[]): Promise<
         name?: string; color?: string; logos?: Array<{ href?: string }>;
       };
     }>;
+    const names = teams.map((t) => t.team?.displayName || '');
     for (const e of entries) {
-      let bestScore = 0;
-      for (const t of teams) {
-        const name = t.team?.displayName || '';
-        const score = matchScore(name, e.name);
-        if (score > bestScore) {
-          bestScore = score;
-          e.logo = t.team?.logos?.[0]?.href;
-          e.color = t.team?.color;
-          // ESPN publishes the school separately from the mascot, so
-          // "Ohio State Buckeyes" -> "Ohio State" with no string guessing.
-          e.school = t.team?.location;
-          e.abbrev = t.team?.abbreviation;
-          e.mascot = t.team?.name;
-        }
-      }
+      const { team } = resolveTeam(e.name, names, { source: 'espn' });
+      const t = team ? teams.find((x) => x.team?.displayName === team)?.team : undefined;
+      if (!t) continue;
+      e.logo = t.logos?.[0]?.href;
+      e.color = t.color;
+      // ESPN publishes the school separately from the mascot, so
+      // "Ohio State Buckeyes" -> "Ohio State" with no string guessing.
+      e.school = t.location;
+      e.abbrev = t.abbreviation;
+      e.mascot = t.name;
     }
   } catch { /* logos optional */ }
 }
@@ -167,7 +151,6 @@ export {
   MAJOR_BOOKS,
   getTopFutures,
   attachEspnAssets,
-  matchScore,
   toProb,
 };
 export type { FutureEntry };
@@ -109,6 +109,14 @@ const KALSHI_CHAMPIONSHIP_EVENT_FILTER: Record<string, RegExp> = {
   'golf_us_open_winner': /-USO\d+$/,
 };
 
+// Postseason futures by TournamentsTab bracket and market (the keys of
+// tournamentMarkets in src/lib/tournamentFutures.ts). Only series checked
+// against a live Kalshi event belong here.
+export const KALSHI_TOURNAMENT_SERIES: Record<string, Record<string, string>> = {
+  NCAA: { champion: 'KXMARMAD' },
+  NIT: { champion: 'KXNCAAMBNIT' },
+};
+
 // Kalshi market as returned from the API (fields we care about)
 interface KalshiMarketRaw {
   ticker: string;
@@ -687,14 +695,21 @@ async function fetchEventMarkets(seriesTickers: string[]): Promise<Map<string, K
 export async function fetchKalshiFutures(sportKey: string): Promise<KalshiFuturesOdds[]> {
   const series = SPORT_TO_KALSHI_CHAMPIONSHIP[sportKey];
   if (!series) return [];
+  return fetchKalshiSeriesFutures(series, KALSHI_CHAMPIONSHIP_EVENT_FILTER[sportKey]);
+}
 
+/**
+ * Fetch one futures series (one event per season, one market per team) as a
+ * fee-inclusive American price per team. [] when the series has no open
+ * priced event — including a ticker Kalshi doesn't list.
+ */
+export async function fetchKalshiSeriesFutures(series: string, eventFilter?: RegExp): Promise<KalshiFuturesOdds[]> {
   const eventMap = await fetchSeriesEvents(series);
   if (eventMap.size === 0) return [];
 
   // A series can have multiple seasons open at once (e.g. KXMLB-26 mid-season
   // and KXMLB-27 already listed); take the event closing soonest — the
   // current/nearest season.
-  const eventFilter = KALSHI_CHAMPIONSHIP_EVENT_FILTER[sportKey];
   let bestTicker: string | null = null;
   let bestClose = Infinity;
   for (const [ticker, markets] of eventMap) {
@@ -1,5 +1,7 @@
 // src/lib/lacrosse/types.ts
 
+import type { ClosingLineSource, SportRatingsSnapshot as RatingsSnapshot } from '@/lib/ratings/types';
+
 // ============================================
 // Massey Ratings Types
 // ============================================
@@ -19,49 +21,18 @@ export interface MasseyRating {
 // Power Rating Types
 // ============================================
 
-export interface TeamRating {
-  teamName: string;
-  masseyName: string;       // Original Massey name for mapping
-  oddsApiName?: string;     // Odds API name if different
-  rating: number;           // Current adjusted rating (neutral floor)
-  initialRating: number;    // Starting rating from Massey
-  gamesProcessed: number;   // Number of games used in adjustment
-  lastUpdated: string;      // ISO timestamp
-  conference?: string;
-}
-
-export interface GameAdjustment {
-  gameId: string;
-  date: string;
-  homeTeam: string;
-  awayTeam: string;
-  isNeutralSite: boolean;
-  homeRatingBefore: number;
-  awayRatingBefore: number;
-  projectedSpread: number;
-  closingSpread: number;
-  closingSource: ClosingLineSource;
-  difference: number;
-  adjustment: number;
-  homeRatingAfter: number;
-  awayRatingAfter: number;
-}
-
-export interface RatingsSnapshot {
-  asOfDate: string;
-  season: number;
-  hca: number;
-  closingSource: ClosingLineSource;
-  gamesProcessed: number;
-  ratings: TeamRating[];
-  adjustments: GameAdjustment[];
-}
+// Lacrosse runs on the shared market-ratings engine (src/lib/ratings/market.ts)
+export type {
+  SportTeamRating as TeamRating,
+  SportRatingsSnapshot as RatingsSnapshot,
+  GameAdjustment,
+} from '@/lib/ratings/types';
 
 // ============================================
 // Configuration Types
 // ============================================
 
-export type ClosingLineSource = 'pinnacle' | 'us_average';
+export type { ClosingLineSource } from '@/lib/ratings/types';
 
 export interface RatingsConfig {
   hca: number;
@@ -0,0 +1,337 @@
+// src/lib/lineAlertRunner.ts
+// One pass of the line-alert engine: refresh the board for every league with
+// an enabled rule and a game inside the horizon (which records fresh
+// odds_snapshots) unless recent snapshots already cover it or the quota is
+// down to its reserve, read the upcoming games' snapshot history, add Kalshi's
+// lines and the NCAAB ratings projections, run the rules
+// (src/lib/lineAlerts.ts) and post each unsent alert to the league's Discord
+// channel. Shared by the cron GET and the manual POST in /api/send-line-alerts.
+//
+// Per-league channels are opt-in via env vars; anything unset falls back to the
+// general DISCORD_WEBHOOK_URL:
+//   DISCORD_WEBHOOK_URL_NCAAF, _NFL, _NBA, _NCAAB, _MLB, _NHL, _WNBA, _MLS, _EPL
+
+import { supabase } from './supabase';
+import { LEAGUES, mergeKalshiOdds, teamsMatch, type Game } from './api';
+import { fetchNeutralSiteGames } from './espnScoreboard';
+import { fetchKalshiOdds } from './kalshi';
+import { BOARD_BOOKMAKERS, LOW_QUOTA_WARNING, getOddsProvider, latestQuota, oddsProviderConfigured } from './odds';
+import { closingBoardFromSnapshots, recordOddsSnapshots, type OddsSnapshotRow } from './oddsSnapshots';
+import { NCAAB_SPORT_KEY } from './ratings/constants';
+import { projectSpread } from './ratings/engine';
+import { loadConfig, loadRatings } from './ratings/supabase';
+import { findTeamByName } from './ratings/team-mapping';
+import { projectTotal, totalsBaseline } from './ratings/totals';
+import {
+  boardRefreshSkip,
+  detectLineAlerts,
+  formatAlertLine,
+  kalshiLinesFromBoard,
+  LINE_ALERT_KINDS,
+  ruleFromRow,
+  unsentAlerts,
+  type KalshiLines,
+  type LineAlert,
+  type LineAlertRule,
+  type LineAlertRuleRow,
+  type ProjectedLines,
+} from './lineAlerts';
+
+// Games starting further out than this rarely move and aren't worth a post
+const HORIZON_HOURS = 36;
+// Snapshots this recent (from /api/odds traffic or the last pass) are read
+// as they are instead of paying for another board
+const FRESH_BOARD_MINUTES = 30;
+const PAGE_SIZE = 1000;
+// Discord allows 10 embeds per message
+const EMBEDS_PER_MESSAGE = 10;
+
+// odds-api sport key -> env var suffix
+const LEAGUE_SUFFIX: Record<string, string> = {
+  americanfootball_ncaaf: 'NCAAF',
+  americanfootball_nfl: 'NFL',
+  basketball_nba: 'NBA',
+  basketball_ncaab: 'NCAAB',
+  baseball_mlb: 'MLB',
+  icehockey_nhl: 'NHL',
+  basketball_wnba: 'WNBA',
+  soccer_usa_mls: 'MLS',
+  soccer_epl: 'EPL',
+};
+
+const KIND_EMOJI: Record<LineAlert['kind'], string> = {
+  move: '📈', steam: '🔥', kalshi: '⚖️', projection: '🎯',
+};
+
+const KIND_COLOR: Record<LineAlert['kind'], number> = {
+  move: 0x2563eb, steam: 0xdc2626, kalshi: 0x059669, projection: 0xd97706,
+};
+
+export interface LineAlertRunResult {
+  rules: number;
+  boardsFetched: number;   // paid board requests this pass
+  games: number;
+  detected: number;
+  sent: number;
+  alerts: LineAlert[];   // unsent alerts found this pass (posted unless dryRun)
+  errors: string[];
+}
+
+function webhookFor(sport: string): string | undefined {
+  const suffix = LEAGUE_SUFFIX[sport];
+  return (
+    (suffix ? process.env[`DISCORD_WEBHOOK_URL_${suffix}`] : undefined) ||
+    process.env.DISCORD_WEBHOOK_URL
+  );
+}
+
+export async function loadLineAlertRules(): Promise<LineAlertRule[]> {
+  const { data, error } = await supabase
+    .from('line_alert_rules')
+    .select('*')
+    .order('sport_key', { ascending: true })
+    .order('id', { ascending: true });
+  if (error) throw new Error(`line_alert_rules: ${error.message}`);
+  return (data as LineAlertRuleRow[] ?? []).map(ruleFromRow);
+}
+
+/** When the sport's newest snapshot was written, or null if it has none. */
+async function lastCapturedAt(sport: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('odds_snapshots')
+    .select('captured_at')
+    .eq('sport_key', sport)
+    .order('id', { ascending: false })
+    .limit(1);
+  if (error) throw new Error(`odds_snapshots: ${error.message}`);
+  return data?.[0]?.captured_at ?? null;
+}
+
+/** Spread and total snapshots for games starting within the horizon, oldest first. */
+async function loadUpcomingSnapshots(sports: string[], now: Date): Promise<OddsSnapshotRow[]> {
+  const rows: OddsSnapshotRow[] = [];
+  const until = new Date(now.getTime() + HORIZON_HOURS * 3_600_000).toISOString();
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('odds_snapshots')
+      .select('*')
+      .in('sport_key', sports)
+      .in('market', ['spreads', 'totals'])
+      .gt('commence_time', now.toISOString())
+      .lte('commence_time', until)
+      .order('book_updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`odds_snapshots: ${error.message}`);
+    rows.push(...(data as OddsSnapshotRow[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/** Current board per game, rebuilt from each book's latest snapshot. */
+function boardsFromSnapshots(rows: OddsSnapshotRow[], now: Date): Game[] {
+  const byGame = new Map<string, OddsSnapshotRow[]>();
+  for (const r of rows) byGame.set(r.game_id, [...(byGame.get(r.game_id) ?? []), r]);
+  return [...byGame.values()]
+    .map((gameRows) => closingBoardFromSnapshots(gameRows, now.toISOString()))
+    .filter((g): g is Game => g !== null);
+}
+
+async function kalshiLines(sport: string, boards: Game[]): Promise<Map<string, KalshiLines>> {
+  const games = boards.filter((g) => g.sport_key === sport);
+  if (!games.length) return new Map();
+  const { moneyline, spreads, totals } = await fetchKalshiOdds(sport);
+  mergeKalshiOdds(games, sport, moneyline, spreads, totals);
+  return kalshiLinesFromBoard(games);
+}
+
+const easternDate = (iso: string) => new Date(iso).toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+
+/**
+ * NCAAB ratings projections (home spread and total) for the boards' games.
+ * Neutral sites come from ESPN, as on the ratings page, and get no home court.
+ */
+async function ncaabProjections(boards: Game[]): Promise<Map<string, ProjectedLines>> {
+  const ncaab = boards.filter((g) => g.sport_key === NCAAB_SPORT_KEY);
+  const dates = [...new Set(ncaab.map((g) => easternDate(g.commence_time)))];
+  const [ratings, config, neutralGames] = await Promise.all([
+    loadRatings(),
+    loadConfig(),
+    Promise.all(dates.map(fetchNeutralSiteGames)).then((days) => days.flat()),
+  ]);
+  const hca = config?.hca ?? 0;
+  const baseline = totalsBaseline(ratings.values());
+  const values = new Map([...ratings].map(([name, r]) => [name, r.rating]));
+  const projections = new Map<string, ProjectedLines>();
+
+  for (const game of ncaab) {
+    const home = findTeamByName(game.home_team, values);
+    const away = findTeamByName(game.away_team, values);
+    if (!home || !away) continue;
+    const neutral = neutralGames.some((ng) =>
+      (teamsMatch(game.home_team, ng.homeTeam, NCAAB_SPORT_KEY) && teamsMatch(game.away_team, ng.awayTeam, NCAAB_SPORT_KEY)) ||
+      (teamsMatch(game.home_team, ng.awayTeam, NCAAB_SPORT_KEY) && teamsMatch(game.away_team, ng.homeTeam, NCAAB_SPORT_KEY))
+    );
+    const lines: ProjectedLines = { spreads: projectSpread(home.rating, away.rating, neutral ? 0 : hca) };
+    const total = baseline ? projectTotal(ratings.get(home.name)!, ratings.get(away.name)!, baseline)?.total : undefined;
+    if (total !== undefined) lines.totals = total;
+    projections.set(game.id, lines);
+  }
+  return projections;
+}
+
+async function sentKeys(keys: string[]): Promise<Set<string>> {
+  const sent = new Set<string>();
+  for (let i = 0; i < keys.length; i += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('line_alerts_sent')
+      .select('key')
+      .in('key', keys.slice(i, i + PAGE_SIZE));
+    if (error) throw new Error(`line_alerts_sent: ${error.message}`);
+    for (const row of data ?? []) sent.add(row.key);
+  }
+  return sent;
+}
+
+function alertEmbed(alert: LineAlert) {
+  const league = LEAGUES.find((l) => l.id === alert.sportKey)?.name ?? alert.sportKey;
+  const marketLabel = alert.market === 'spreads' ? `${alert.homeTeam} spread` : 'Total';
+  const line = alert.from === null
+    ? formatAlertLine(alert.market, alert.to)
+    : alert.kind === 'kalshi'
+      ? `US ${formatAlertLine(alert.market, alert.from)} · Kalshi ${formatAlertLine(alert.market, alert.to)}`
+      : `${formatAlertLine(alert.market, alert.from)} → ${formatAlertLine(alert.market, alert.to)}`;
+  const tip = new Date(alert.commenceTime).toLocaleString('en-US', {
+    timeZone: 'America/New_York', weekday: 'short', hour: 'numeric', minute: '2-digit',
+  });
+  return {
+    title: `${KIND_EMOJI[alert.kind]}  ${alert.awayTeam} @ ${alert.homeTeam}`,
+    url: `https://www.odds.day/game/${alert.gameId}?league=${alert.sportKey}&view=lines`,
+    description: '```\n' + `${marketLabel}: ${line}\n${alert.detail}` + '\n```',
+    color: KIND_COLOR[alert.kind],
+    author: { name: `${league} · ${LINE_ALERT_KINDS.find((k) => k.kind === alert.kind)?.label ?? alert.kind}` },
+    footer: { text: `Tips ${tip} ET · odds.day` },
+    timestamp: alert.at,
+  };
+}
+
+async function postAlerts(webhook: string, alerts: LineAlert[]): Promise<void> {
+  for (let i = 0; i < alerts.length; i += EMBEDS_PER_MESSAGE) {
+    const resp = await fetch(webhook, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ embeds: alerts.slice(i, i + EMBEDS_PER_MESSAGE).map(alertEmbed) }),
+    });
+    if (!resp.ok) {
+      const detail = await resp.text().catch(() => '');
+      throw new Error(`Discord webhook failed: ${resp.status} ${detail.slice(0, 200)}`);
+    }
+  }
+}
+
+/**
+ * Detect and post. `dryRun` finds the unsent alerts without posting or
+ * logging them, for the admin page's preview.
+ */
+export async function runLineAlerts(options: { dryRun?: boolean; now?: Date } = {}): Promise<LineAlertRunResult> {
+  const now = options.now ?? new Date();
+  const rules = (await loadLineAlertRules()).filter((r) => r.enabled);
+  const result: LineAlertRunResult = {
+    rules: rules.length, boardsFetched: 0, games: 0, detected: 0, sent: 0, alerts: [], errors: [],
+  };
+  if (!rules.length) return result;
+  const sports = [...new Set(rules.map((r) => r.sportKey))];
+
+  // Snapshots are only written on a board fetch, so fetch the board ourselves
+  // rather than waiting for a visitor (same cached request as /api/odds). The
+  // board costs quota; the event list doesn't, and carries the quota reading,
+  // so it decides first whether this sport's board is worth paying for.
+  if (oddsProviderConfigured()) {
+    for (const sport of sports) {
+      try {
+        const events = await getOddsProvider().getEvents(sport, { revalidate: 600 });
+        const skip = boardRefreshSkip({
+          now: now.toISOString(),
+          horizonHours: HORIZON_HOURS,
+          commenceTimes: events.data.map((e) => e.commence_time),
+          lastCapturedAt: await lastCapturedAt(sport),
+          freshMinutes: FRESH_BOARD_MINUTES,
+          quotaRemaining: (events.quota ?? latestQuota())?.remaining ?? null,
+          quotaReserve: LOW_QUOTA_WARNING,
+        });
+        if (skip === 'quota') {
+          result.errors.push(`${sport} board: skipped, Odds API quota below ${LOW_QUOTA_WARNING} — alerts read the last snapshots`);
+        }
+        if (skip) continue;
+
+        const { data } = await getOddsProvider().getOdds<Game>(
+          sport,
+          { markets: ['h2h', 'spreads', 'totals'], bookmakers: BOARD_BOOKMAKERS, includeLinks: true },
+          { revalidate: 60 }
+        );
+        result.boardsFetched++;
+        await recordOddsSnapshots(sport, data);
+      } catch (e) {
+        result.errors.push(`${sport} board: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  }
+
+  const rows = await loadUpcomingSnapshots(sports, now);
+  const boards = boardsFromSnapshots(rows, now);
+  result.games = boards.length;
+
+  const kalshi = new Map<string, KalshiLines>();
+  for (const sport of new Set(rules.filter((r) => r.kind === 'kalshi').map((r) => r.sportKey))) {
+    try {
+      for (const [id, lines] of await kalshiLines(sport, boards)) kalshi.set(id, lines);
+    } catch (e) {
+      result.errors.push(`${sport} Kalshi: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  let projections = new Map<string, ProjectedLines>();
+  if (rules.some((r) => r.kind === 'projection' && r.sportKey === NCAAB_SPORT_KEY)) {
+    try {
+      projections = await ncaabProjections(boards);
+    } catch (e) {
+      result.errors.push(`NCAAB projections: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  const detected = detectLineAlerts(rows, rules, { now: now.toISOString(), kalshi, projections });
+  result.detected = detected.length;
+  result.alerts = unsentAlerts(detected, await sentKeys(detected.map((a) => a.key)));
+  if (options.dryRun || !result.alerts.length) return result;
+
+  for (const sport of new Set(result.alerts.map((a) => a.sportKey))) {
+    const alerts = result.alerts.filter((a) => a.sportKey === sport);
+    const webhook = webhookFor(sport);
+    if (!webhook) {
+      result.errors.push(`${sport}: no Discord webhook configured (set DISCORD_WEBHOOK_URL_${LEAGUE_SUFFIX[sport] ?? '…'} or DISCORD_WEBHOOK_URL)`);
+      continue;
+    }
+    try {
+      await postAlerts(webhook, alerts);
+    } catch (e) {
+      result.errors.push(`${sport}: ${e instanceof Error ? e.message : String(e)}`);
+      continue;
+    }
+    const { error } = await supabase.from('line_alerts_sent').upsert(
+      alerts.map((a) => ({
+        key: a.key,
+        kind: a.kind,
+        sport_key: a.sportKey,
+        game_id: a.gameId,
+        market: a.market,
+        home_team: a.homeTeam,
+        away_team: a.awayTeam,
+        detail: a.detail,
+      })),
+      { onConflict: 'key', ignoreDuplicates: true }
+    );
+    if (error) result.errors.push(`line_alerts_sent: ${error.message}`);
+    result.sent += alerts.length;
+  }
+  return result;
+}
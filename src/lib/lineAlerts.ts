@@ -0,0 +1,411 @@
+// src/lib/lineAlerts.ts
+// Line-move alert engine: walks consecutive odds snapshots per game and
+// market and turns them into alerts for the Discord sender. Four kinds of
+// rule, each editable in /admin/line-alerts:
+//   move        — the consensus number moved `threshold`+ points within the window
+//   steam       — `minBooks`+ books moved the same way within the window
+//   kalshi      — Kalshi's number sits `threshold`+ points off the US consensus
+//   projection  — the consensus moved through our ratings projection
+// Every alert carries a dedup key, so a cron that re-reads the same history
+// only ever posts a given event once. boardRefreshSkip decides when the cron
+// may skip paying for a fresh board.
+// Pure functions — no I/O. Tested by scripts/lineAlerts.test.ts.
+
+import type { Game } from './api';
+import type { OddsSnapshotRow } from './oddsSnapshots';
+import { median } from './props/engine';
+
+export type LineAlertKind = 'move' | 'steam' | 'kalshi' | 'projection';
+export type AlertMarket = 'spreads' | 'totals';
+
+export const LINE_ALERT_KINDS: { kind: LineAlertKind; label: string; threshold: string }[] = [
+  { kind: 'move', label: 'Line move', threshold: 'Consensus move (pts)' },
+  { kind: 'steam', label: 'Steam', threshold: 'Move per book (pts)' },
+  { kind: 'kalshi', label: 'Kalshi divergence', threshold: 'Gap to consensus (pts)' },
+  { kind: 'projection', label: 'Projection cross', threshold: 'Past projection (pts)' },
+];
+
+export interface LineAlertRule {
+  id?: number;
+  kind: LineAlertKind;
+  sportKey: string;         // Odds API key, e.g. basketball_ncaab
+  market: AlertMarket;
+  threshold: number;        // points — meaning per kind, see LINE_ALERT_KINDS
+  windowMinutes: number;    // move / projection: look-back; steam: cluster width
+  minBooks: number;         // steam only
+  enabled: boolean;
+}
+
+/** line_alert_rules row */
+export interface LineAlertRuleRow {
+  id: number;
+  kind: LineAlertKind;
+  sport_key: string;
+  market: AlertMarket;
+  threshold: number;
+  window_minutes: number;
+  min_books: number;
+  enabled: boolean;
+}
+
+export interface LineAlert {
+  key: string;              // dedup key — one post per key, ever
+  kind: LineAlertKind;
+  sportKey: string;
+  gameId: string;
+  homeTeam: string;
+  awayTeam: string;
+  commenceTime: string;
+  market: AlertMarket;
+  at: string;               // when the triggering line was seen
+  from: number | null;      // consensus before (kalshi: the US consensus)
+  to: number;               // consensus now (kalshi: Kalshi's number)
+  books: string[];          // steam: the books that moved
+  detail: string;
+}
+
+/** A Kalshi main line for one game — home spread and/or total. */
+export type KalshiLines = Partial<Record<AlertMarket, number>>;
+
+/** Our projection for one game — home spread (negative = home favoured) and/or total. */
+export type ProjectedLines = Partial<Record<AlertMarket, number>>;
+
+export interface LineAlertContext {
+  now: string;
+  kalshi?: Map<string, KalshiLines>;        // by Odds API game id
+  projections?: Map<string, ProjectedLines>;
+  // Steam that finished longer ago than this is stale, not news
+  lookbackMinutes?: number;
+}
+
+/** Steam clusters whose last move is older than this aren't posted (a missed cron shouldn't dump history). */
+export const DEFAULT_LINE_ALERT_LOOKBACK_MINUTES = 60;
+
+/** Seeded into line_alert_rules by sql/line_alerts.sql. */
+export const DEFAULT_LINE_ALERT_RULES: LineAlertRule[] = [
+  { kind: 'move', sportKey: 'basketball_ncaab', market: 'spreads', threshold: 1.5, windowMinutes: 60, minBooks: 1, enabled: true },
+  { kind: 'move', sportKey: 'basketball_ncaab', market: 'totals', threshold: 2, windowMinutes: 60, minBooks: 1, enabled: true },
+  { kind: 'steam', sportKey: 'basketball_ncaab', market: 'spreads', threshold: 0.5, windowMinutes: 10, minBooks: 3, enabled: true },
+  { kind: 'kalshi', sportKey: 'basketball_ncaab', market: 'spreads', threshold: 1.5, windowMinutes: 0, minBooks: 1, enabled: true },
+  { kind: 'projection', sportKey: 'basketball_ncaab', market: 'spreads', threshold: 0.5, windowMinutes: 60, minBooks: 1, enabled: true },
+  { kind: 'move', sportKey: 'americanfootball_nfl', market: 'spreads', threshold: 1.5, windowMinutes: 120, minBooks: 1, enabled: true },
+  { kind: 'steam', sportKey: 'americanfootball_nfl', market: 'spreads', threshold: 0.5, windowMinutes: 10, minBooks: 3, enabled: true },
+];
+
+export function ruleFromRow(row: LineAlertRuleRow): LineAlertRule {
+  return {
+    id: row.id,
+    kind: row.kind,
+    sportKey: row.sport_key,
+    market: row.market,
+    threshold: Number(row.threshold),
+    windowMinutes: row.window_minutes,
+    minBooks: row.min_books,
+    enabled: row.enabled,
+  };
+}
+
+export function ruleToRow(rule: LineAlertRule): Omit<LineAlertRuleRow, 'id'> {
+  return {
+    kind: rule.kind,
+    sport_key: rule.sportKey,
+    market: rule.market,
+    threshold: rule.threshold,
+    window_minutes: rule.windowMinutes,
+    min_books: rule.minBooks,
+    enabled: rule.enabled,
+  };
+}
+
+// ============================================
+// Lines
+// ============================================
+
+const minutes = (n: number) => n * 60_000;
+const time = (iso: string) => new Date(iso).getTime();
+const round2 = (x: number) => Math.round(x * 100) / 100;
+
+/** "+3.5" / "-3.5" / "PK" for spreads, the bare number for totals. */
+export function formatAlertLine(market: AlertMarket, point: number): string {
+  const p = round2(point);
+  if (market === 'totals') return `${p}`;
+  return p === 0 ? 'PK' : p > 0 ? `+${p}` : `${p}`;
+}
+
+interface GameSeries {
+  game: OddsSnapshotRow;                   // any row — for the game's names and times
+  byBook: Map<string, OddsSnapshotRow[]>;  // oldest first
+}
+
+/** Snapshots grouped by game, then book, for one market. */
+function seriesByGame(rows: OddsSnapshotRow[], sportKey: string, market: AlertMarket): Map<string, GameSeries> {
+  const games = new Map<string, GameSeries>();
+  const sorted = rows
+    .filter((r) => r.sport_key === sportKey && r.market === market && r.point !== null)
+    .sort((a, b) => a.book_updated_at.localeCompare(b.book_updated_at));
+  for (const r of sorted) {
+    const entry = games.get(r.game_id) ?? { game: r, byBook: new Map() };
+    const series = entry.byBook.get(r.bookmaker) ?? [];
+    series.push(r);
+    entry.byBook.set(r.bookmaker, series);
+    games.set(r.game_id, entry);
+  }
+  return games;
+}
+
+/**
+ * Median of each book's number as of `at` — its last snapshot at or before
+ * it. Null when no book had dealt the market yet.
+ */
+function consensusAt(series: GameSeries, at: number): number | null {
+  const points: number[] = [];
+  for (const snaps of series.byBook.values()) {
+    let latest: OddsSnapshotRow | null = null;
+    for (const s of snaps) {
+      if (time(s.book_updated_at) > at) break;
+      latest = s;
+    }
+    if (latest) points.push(latest.point as number);
+  }
+  return points.length ? round2(median(points)) : null;
+}
+
+const lastSeen = (series: GameSeries) => {
+  let last = '';
+  for (const snaps of series.byBook.values()) {
+    const at = snaps[snaps.length - 1].book_updated_at;
+    if (at > last) last = at;
+  }
+  return last;
+};
+
+function baseAlert(kind: LineAlertKind, market: AlertMarket, game: OddsSnapshotRow) {
+  return {
+    kind,
+    sportKey: game.sport_key,
+    gameId: game.game_id,
+    homeTeam: game.home_team,
+    awayTeam: game.away_team,
+    commenceTime: game.commence_time,
+    market,
+  };
+}
+
+// ============================================
+// Detectors
+// ============================================
+
+function detectMoves(series: Map<string, GameSeries>, rule: LineAlertRule, now: number): LineAlert[] {
+  const alerts: LineAlert[] = [];
+  for (const s of series.values()) {
+    const before = consensusAt(s, now - minutes(rule.windowMinutes));
+    const after = consensusAt(s, now);
+    if (before === null || after === null) continue;
+    const change = round2(after - before);
+    if (Math.abs(change) < rule.threshold) continue;
+    alerts.push({
+      ...baseAlert('move', rule.market, s.game),
+      key: `move:${s.game.game_id}:${rule.market}:${after}`,
+      at: lastSeen(s),
+      from: before,
+      to: after,
+      books: [],
+      detail: `Consensus ${formatAlertLine(rule.market, before)} → ${formatAlertLine(rule.market, after)} `
+        + `(${change > 0 ? '+' : ''}${change}) in ${rule.windowMinutes} min`,
+    });
+  }
+  return alerts;
+}
+
+interface BookMove { book: string; at: string; from: number; to: number }
+
+/**
+ * Steam: `minBooks` different books moving their number the same way within
+ * `windowMinutes` of the first. Clusters are found greedily from the earliest
+ * move, so a cluster keeps its key as later runs see more of the history.
+ */
+function detectSteam(series: Map<string, GameSeries>, rule: LineAlertRule, now: number, lookback: number): LineAlert[] {
+  const alerts: LineAlert[] = [];
+  for (const s of series.values()) {
+    const moves: BookMove[] = [];
+    for (const [book, snaps] of s.byBook) {
+      for (let i = 1; i < snaps.length; i++) {
+        const from = snaps[i - 1].point as number;
+        const to = snaps[i].point as number;
+        if (Math.abs(to - from) >= rule.threshold) moves.push({ book, at: snaps[i].book_updated_at, from, to });
+      }
+    }
+    moves.sort((a, b) => a.at.localeCompare(b.at));
+
+    for (const direction of [1, -1]) {
+      const sided = moves.filter((m) => Math.sign(m.to - m.from) === direction);
+      for (let i = 0; i < sided.length;) {
+        const end = time(sided[i].at) + minutes(rule.windowMinutes);
+        const cluster: BookMove[] = [];
+        let j = i;
+        for (; j < sided.length && time(sided[j].at) <= end; j++) {
+          if (!cluster.some((m) => m.book === sided[j].book)) cluster.push(sided[j]);
+        }
+        if (cluster.length < Math.max(rule.minBooks, 2)) { i++; continue; }
+
+        const last = cluster[cluster.length - 1];
+        if (time(last.at) >= now - minutes(lookback) && time(last.at) <= now) {
+          const lines = cluster.map((m) => `${m.book} ${formatAlertLine(rule.market, m.from)}→${formatAlertLine(rule.market, m.to)}`);
+          alerts.push({
+            ...baseAlert('steam', rule.market, s.game),
+            key: `steam:${s.game.game_id}:${rule.market}:${direction > 0 ? 'up' : 'down'}:${sided[i].at}`,
+            at: last.at,
+            from: cluster[0].from,
+            to: last.to,
+            books: cluster.map((m) => m.book),
+            detail: `${cluster.length} books moved ${direction > 0 ? 'up' : 'down'} within `
+              + `${Math.max(1, Math.round((time(last.at) - time(cluster[0].at)) / 60_000))} min: ${lines.join(', ')}`,
+          });
+        }
+        i = j;
+      }
+    }
+  }
+  return alerts;
+}
+
+function detectKalshi(series: Map<string, GameSeries>, rule: LineAlertRule, now: number, kalshi: Map<string, KalshiLines>): LineAlert[] {
+  const alerts: LineAlert[] = [];
+  for (const s of series.values()) {
+    const line = kalshi.get(s.game.game_id)?.[rule.market];
+    const consensus = consensusAt(s, now);
+    if (line === undefined || consensus === null) continue;
+    const gap = round2(line - consensus);
+    if (Math.abs(gap) < rule.threshold) continue;
+    alerts.push({
+      ...baseAlert('kalshi', rule.market, s.game),
+      key: `kalshi:${s.game.game_id}:${rule.market}:${line}`,
+      at: new Date(now).toISOString(),
+      from: consensus,
+      to: line,
+      books: ['kalshi'],
+      detail: `Kalshi ${formatAlertLine(rule.market, line)} vs US consensus ${formatAlertLine(rule.market, consensus)} `
+        + `(${gap > 0 ? '+' : ''}${gap})`,
+    });
+  }
+  return alerts;
+}
+
+/**
+ * The consensus was on one side of our number `windowMinutes` ago and is now
+ * `threshold`+ points on the other. Keyed by side, so a line that crosses
+ * back alerts once more and then stays quiet.
+ */
+function detectProjectionCross(
+  series: Map<string, GameSeries>,
+  rule: LineAlertRule,
+  now: number,
+  projections: Map<string, ProjectedLines>,
+): LineAlert[] {
+  const alerts: LineAlert[] = [];
+  for (const s of series.values()) {
+    const projected = projections.get(s.game.game_id)?.[rule.market];
+    if (projected === undefined) continue;
+    const before = consensusAt(s, now - minutes(rule.windowMinutes));
+    const after = consensusAt(s, now);
+    if (before === null || after === null) continue;
+    const wasAbove = before > projected;
+    const crossed = before !== projected && wasAbove !== after > projected && after !== projected;
+    if (!crossed || Math.abs(after - projected) < rule.threshold) continue;
+
+    // Spreads are home lines: a market below our number gives the away side more than we would
+    const side = rule.market === 'spreads'
+      ? (after < projected ? s.game.away_team : s.game.home_team)
+      : (after > projected ? 'Under' : 'Over');
+    alerts.push({
+      ...baseAlert('projection', rule.market, s.game),
+      key: `projection:${s.game.game_id}:${rule.market}:${after > projected ? 'above' : 'below'}`,
+      at: lastSeen(s),
+      from: before,
+      to: after,
+      books: [],
+      detail: `Consensus ${formatAlertLine(rule.market, before)} → ${formatAlertLine(rule.market, after)} `
+        + `crossed our ${formatAlertLine(rule.market, projected)} — value now on ${side}`,
+    });
+  }
+  return alerts;
+}
+
+/**
+ * Run every enabled rule over the snapshots. Alerts sharing a key (two rules
+ * catching the same event) come back once, oldest first.
+ */
+export function detectLineAlerts(rows: OddsSnapshotRow[], rules: LineAlertRule[], context: LineAlertContext): LineAlert[] {
+  const now = time(context.now);
+  const lookback = context.lookbackMinutes ?? DEFAULT_LINE_ALERT_LOOKBACK_MINUTES;
+  const alerts = new Map<string, LineAlert>();
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const series = seriesByGame(rows, rule.sportKey, rule.market);
+    const found =
+      rule.kind === 'move' ? detectMoves(series, rule, now)
+      : rule.kind === 'steam' ? detectSteam(series, rule, now, lookback)
+      : rule.kind === 'kalshi' ? detectKalshi(series, rule, now, context.kalshi ?? new Map())
+      : detectProjectionCross(series, rule, now, context.projections ?? new Map());
+    for (const alert of found) if (!alerts.has(alert.key)) alerts.set(alert.key, alert);
+  }
+  return [...alerts.values()].sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/** Alerts not posted before. */
+export function unsentAlerts(alerts: LineAlert[], sentKeys: Set<string>): LineAlert[] {
+  return alerts.filter((a) => !sentKeys.has(a.key));
+}
+
+/**
+ * Kalshi's main lines off a board that has had Kalshi merged in (see
+ * mergeKalshiOdds): home spread and total per game.
+ */
+export function kalshiLinesFromBoard(games: Game[]): Map<string, KalshiLines> {
+  const lines = new Map<string, KalshiLines>();
+  for (const game of games) {
+    const kalshi = game.bookmakers.find((b) => b.key === 'kalshi');
+    if (!kalshi) continue;
+    const entry: KalshiLines = {};
+    const spread = kalshi.markets.find((m) => m.key === 'spreads')?.outcomes.find((o) => o.name === game.home_team)?.point;
+    const total = kalshi.markets.find((m) => m.key === 'totals')?.outcomes.find((o) => o.name === 'Over')?.point;
+    if (spread !== undefined) entry.spreads = spread;
+    if (total !== undefined) entry.totals = total;
+    if (Object.keys(entry).length) lines.set(game.id, entry);
+  }
+  return lines;
+}
+
+// ---------- board refresh ----------
+
+export interface BoardRefreshCheck {
+  now: string;
+  horizonHours: number;
+  commenceTimes: string[];        // the sport's upcoming events (free event list)
+  lastCapturedAt: string | null;  // newest odds_snapshots row for the sport
+  freshMinutes: number;
+  quotaRemaining: number | null;  // null when no reading yet
+  quotaReserve: number;
+}
+
+export type BoardRefreshSkip = 'no-games' | 'fresh' | 'quota';
+
+/**
+ * Why the cron should not pay for a sport's board this pass, or null to
+ * fetch it: no game inside the horizon, snapshots recent enough to read
+ * (the board's own traffic writes them too), or the month's quota down to
+ * the reserve left for visitors.
+ */
+export function boardRefreshSkip(check: BoardRefreshCheck): BoardRefreshSkip | null {
+  const now = new Date(check.now).getTime();
+  const until = now + check.horizonHours * 3_600_000;
+  const upcoming = check.commenceTimes.some((t) => {
+    const start = new Date(t).getTime();
+    return start > now && start <= until;
+  });
+  if (!upcoming) return 'no-games';
+  if (check.lastCapturedAt && now - new Date(check.lastCapturedAt).getTime() < check.freshMinutes * 60_000) return 'fresh';
+  if (check.quotaRemaining !== null && check.quotaRemaining < check.quotaReserve) return 'quota';
+  return null;
+}
@@ -5,6 +5,8 @@
 // all), so kickoff classics and bowls can be handled without applying a
 // home team's HFA to a game played on a third field.
 
+import { namesMatch } from './teams';
+
 export interface NeutralGame {
   date: string;       // YYYY-MM-DD (UTC date of kickoff)
   homeTeam: string;   // CFBD names — the nominal home team
@@ -32,34 +34,6 @@ const COUNTRY_NAMES: Record<string, string> = {
   DE: 'Germany', AU: 'Australia', JP: 'Japan', BS: 'Bahamas', IT: 'Italy',
 };
 
-const normName = (s: string) =>
-  s.toLowerCase().normalize('NFD').replace(/[̀-ͯ]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
-
-// Continuations that mean a DIFFERENT school, so "Tennessee State" never
-// resolves to "Tennessee" on a prefix match.
-const DIFFERENT_SCHOOL_CONTINUATIONS = new Set([
-  'state', 'st', 'a', 'am', 'tech', 'southern', 'central', 'western', 'eastern',
-  'northern', 'baptist', 'christian', 'valley', 'wesleyan', 'atlantic', 'international',
-]);
-
-/** Parenthetical disambiguator, e.g. "Miami (OH) RedHawks" -> "oh". */
-const parenTag = (s: string) => (s.match(/\(([^)]*)\)/)?.[1] ?? '').toLowerCase().trim();
-
-/** True if an odds-API name ("Ohio State Buckeyes") refers to a CFBD school ("Ohio State"). */
-function sameTeam(oddsName: string, cfbdName: string): boolean {
-  // A parenthetical qualifier is the whole point of the name — "Miami (OH)"
-  // must never match plain "Miami" (CFBD's name for the Hurricanes).
-  if (parenTag(oddsName) !== parenTag(cfbdName)) return false;
-
-  const on = normName(oddsName);
-  const cn = normName(cfbdName);
-  if (!on || !cn) return false;
-  if (on === cn) return true;
-  if (!on.startsWith(cn + ' ')) return false;
-  const nextWord = on.slice(cn.length + 1).split(' ')[0];
-  return !DIFFERENT_SCHOOL_CONTINUATIONS.has(nextWord);
-}
-
 /**
  * Find the neutral-site entry for a game, if any. Team names are compared in
  * BOTH orientations — sources disagree about which side is "home" for a game
@@ -75,8 +49,8 @@ export function findNeutralGame(
   const target = commenceTime ? new Date(commenceTime) : null;
   for (const g of games) {
     const matched =
-      (sameTeam(awayOddsName, g.awayTeam) && sameTeam(homeOddsName, g.homeTeam)) ||
-      (sameTeam(awayOddsName, g.homeTeam) && sameTeam(homeOddsName, g.awayTeam));
+      (namesMatch(awayOddsName, g.awayTeam) && namesMatch(homeOddsName, g.homeTeam)) ||
+      (namesMatch(awayOddsName, g.homeTeam) && namesMatch(homeOddsName, g.awayTeam));
     if (!matched) continue;
     if (target) {
       const days = Math.abs(new Date(g.date + 'T12:00:00Z').getTime() - target.getTime()) / 86_400_000;
@@ -0,0 +1,70 @@
+// src/lib/odds/fixtures.ts
+// Offline providers. The fixture provider replays Odds API JSON from disk —
+// no network, no key, no quota. The recording provider calls through to
+// another provider (the live one) and saves each response where the fixture
+// provider will look for it.
+//
+// Layout under the fixture dir mirrors the API path:
+//   sports/basketball_ncaab/odds.json            any board request for the sport
+//   sports/basketball_ncaab/odds.1a2b3c4d.json   exactly one request (markets, books…)
+// Recordings are written under the exact name; replay tries it first, then
+// the generic file, so hand-written fixtures only need the generic one.
+
+import fs from 'fs';
+import path from 'path';
+import { eventOddsRequest, eventsRequest, historicalRequest, oddsRequest, requestHash, type OddsRequest } from './request';
+import { OddsProviderError, type OddsProvider, type OddsResult } from './types';
+
+export const DEFAULT_FIXTURE_DIR = path.join(process.cwd(), 'fixtures', 'odds');
+
+const exactPath = (dir: string, req: OddsRequest) => path.join(dir, `${req.path}.${requestHash(req)}.json`);
+const genericPath = (dir: string, req: OddsRequest) => path.join(dir, `${req.path}.json`);
+
+function replay<T>(dir: string, req: OddsRequest): Promise<OddsResult<T>> {
+  for (const file of [exactPath(dir, req), genericPath(dir, req)]) {
+    if (!fs.existsSync(file)) continue;
+    try {
+      return Promise.resolve({ data: JSON.parse(fs.readFileSync(file, 'utf8')) as T, quota: null });
+    } catch (err) {
+      return Promise.reject(new OddsProviderError(`Bad fixture ${file}: ${err instanceof Error ? err.message : err}`, 500));
+    }
+  }
+  return Promise.reject(new OddsProviderError(`No fixture for ${req.path} (${requestHash(req)}) in ${dir}`, 404));
+}
+
+export function fixtureProvider(dir: string = DEFAULT_FIXTURE_DIR): OddsProvider {
+  return {
+    name: 'fixture',
+    getOdds: (sport, query) => replay(dir, oddsRequest(sport, query)),
+    getEvents: (sport) => replay(dir, eventsRequest(sport)),
+    getEventOdds: (sport, eventId, query) => replay(dir, eventOddsRequest(sport, eventId, query)),
+    getHistoricalOdds: (sport, query) => replay(dir, historicalRequest(sport, query)),
+  };
+}
+
+async function record<T>(dir: string, req: OddsRequest, call: Promise<OddsResult<T>>): Promise<OddsResult<T>> {
+  const result = await call;
+  const file = exactPath(dir, req);
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(result.data, null, 2));
+  } catch (err) {
+    // recording is best-effort — the caller still gets the live response
+    console.warn(`[Odds fixtures] Could not record ${file}:`, err);
+  }
+  return result;
+}
+
+export function recordingProvider(inner: OddsProvider, dir: string = DEFAULT_FIXTURE_DIR): OddsProvider {
+  return {
+    name: 'recording',
+    getOdds: (sport, query, cache) =>
+      record(dir, oddsRequest(sport, query), inner.getOdds(sport, query, cache)),
+    getEvents: (sport, cache) =>
+      record(dir, eventsRequest(sport), inner.getEvents(sport, cache)),
+    getEventOdds: (sport, eventId, query, cache) =>
+      record(dir, eventOddsRequest(sport, eventId, query), inner.getEventOdds(sport, eventId, query, cache)),
+    getHistoricalOdds: (sport, query) =>
+      record(dir, historicalRequest(sport, query), inner.getHistoricalOdds(sport, query)),
+  };
+}
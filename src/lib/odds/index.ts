@@ -0,0 +1,44 @@
+// src/lib/odds/index.ts
+// Entry point for Odds API data. Server code calls getOddsProvider() rather
+// than building the-odds-api URLs itself.
+//
+//   ODDS_PROVIDER=live      the-odds-api.com (default)
+//   ODDS_PROVIDER=fixture   replay JSON from ODDS_FIXTURE_DIR — no network, no quota
+//   ODDS_PROVIDER=record    live, saving every response into ODDS_FIXTURE_DIR
+//
+// ODDS_FIXTURE_DIR defaults to fixtures/odds in the project root.
+
+import { theOddsApiProvider } from './theOddsApi';
+import { DEFAULT_FIXTURE_DIR, fixtureProvider, recordingProvider } from './fixtures';
+import type { OddsProvider } from './types';
+
+export * from './types';
+export { LOW_QUOTA_WARNING, latestQuota, setQuotaHeaders } from './quota';
+export { ODDS_API_BASE_URL } from './theOddsApi';
+export { fixtureProvider, recordingProvider } from './fixtures';
+
+// Books requested by key instead of regions=us — the board's US books plus
+// Pinnacle (eu region) as the sharp reference for no-vig fair prices. Up to
+// 10 keys bill the same as one region. Shared by /api/odds and the line-alert
+// cron so both hit the same cached request.
+export const BOARD_BOOKMAKERS = [
+  'draftkings', 'fanduel', 'betmgm', 'betrivers', 'williamhill_us',
+  'betonlineag', 'fanatics', 'bovada', 'lowvig', 'pinnacle',
+];
+
+let provider: OddsProvider | null = null;
+
+export function getOddsProvider(): OddsProvider {
+  if (provider) return provider;
+  const dir = process.env.ODDS_FIXTURE_DIR || DEFAULT_FIXTURE_DIR;
+  const mode = process.env.ODDS_PROVIDER || 'live';
+  if (mode === 'fixture') provider = fixtureProvider(dir);
+  else if (mode === 'record') provider = recordingProvider(theOddsApiProvider(), dir);
+  else provider = theOddsApiProvider();
+  return provider;
+}
+
+/** False only when the live provider would run without ODDS_API_KEY — lets batch jobs skip the odds step. */
+export function oddsProviderConfigured(): boolean {
+  return getOddsProvider().name !== 'the-odds-api' || Boolean(process.env.ODDS_API_KEY);
+}
@@ -0,0 +1,45 @@
+// src/lib/odds/quota.ts
+// Odds API request quota, read once per live response here instead of in
+// each route. Keeps the last reading for the process, logs every call, and
+// warns when the month's allowance is running low. Routes pass the reading
+// on to the browser as x-requests-* headers.
+
+import type { OddsQuota } from './types';
+
+// Below this many requests left, every call logs a warning
+export const LOW_QUOTA_WARNING = 2000;
+
+let lastQuota: OddsQuota | null = null;
+
+const headerNum = (headers: Headers, name: string): number | null => {
+  const v = headers.get(name);
+  const n = v === null ? NaN : Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+/** Read and log the quota headers of a live Odds API response. */
+export function recordQuota(headers: Headers, label: string): OddsQuota | null {
+  const quota: OddsQuota = {
+    remaining: headerNum(headers, 'x-requests-remaining'),
+    used: headerNum(headers, 'x-requests-used'),
+    last: headerNum(headers, 'x-requests-last'),
+    at: new Date().toISOString(),
+  };
+  if (quota.remaining === null && quota.used === null) return null;
+  lastQuota = quota;
+  const line = `[Odds API] ${label} — remaining: ${quota.remaining}, used: ${quota.used}, cost: ${quota.last}`;
+  if (quota.remaining !== null && quota.remaining < LOW_QUOTA_WARNING) console.warn(`${line} (quota low)`);
+  else console.log(line);
+  return quota;
+}
+
+/** Most recent quota reading in this process, or null before the first live call. */
+export function latestQuota(): OddsQuota | null {
+  return lastQuota;
+}
+
+/** Copy a quota reading onto an outgoing response's headers. */
+export function setQuotaHeaders(headers: Headers, quota: OddsQuota | null): void {
+  if (quota?.remaining != null) headers.set('x-requests-remaining', String(quota.remaining));
+  if (quota?.used != null) headers.set('x-requests-used', String(quota.used));
+}
@@ -0,0 +1,49 @@
+// src/lib/odds/request.ts
+// Canonical form of a provider call: the Odds API path plus its query
+// params (never the key). The live provider turns it into a URL; the
+// fixture provider turns it into a file name, so a recorded response
+// replays for exactly the request that produced it.
+
+import type { HistoricalOddsQuery, OddsQuery } from './types';
+
+export interface OddsRequest {
+  path: string;                    // e.g. /sports/basketball_ncaab/odds
+  params: Record<string, string>;
+}
+
+function queryParams(query: OddsQuery): Record<string, string> {
+  const params: Record<string, string> = { markets: query.markets.join(','), oddsFormat: 'american' };
+  if (query.bookmakers?.length) params.bookmakers = query.bookmakers.join(',');
+  if (query.regions?.length) params.regions = query.regions.join(',');
+  else if (!query.bookmakers?.length) params.regions = 'us';
+  if (query.eventIds?.length) params.eventIds = query.eventIds.join(',');
+  if (query.includeLinks) params.includeLinks = 'true';
+  return params;
+}
+
+export const oddsRequest = (sport: string, query: OddsQuery): OddsRequest =>
+  ({ path: `/sports/${sport}/odds`, params: queryParams(query) });
+
+export const eventsRequest = (sport: string): OddsRequest =>
+  ({ path: `/sports/${sport}/events`, params: {} });
+
+export const eventOddsRequest = (sport: string, eventId: string, query: OddsQuery): OddsRequest =>
+  ({ path: `/sports/${sport}/events/${eventId}/odds`, params: queryParams(query) });
+
+export const historicalRequest = (sport: string, query: HistoricalOddsQuery): OddsRequest =>
+  ({ path: `/historical/sports/${sport}/odds`, params: { ...queryParams(query), date: query.date } });
+
+/** Params in key order, so the same request always serialises the same way. */
+export function canonicalParams(params: Record<string, string>): string {
+  return Object.keys(params).sort().map((k) => `${k}=${params[k]}`).join('&');
+}
+
+/** Short stable hash of a request (FNV-1a, 32-bit hex) for fixture file names. */
+export function requestHash(req: OddsRequest): string {
+  let h = 0x811c9dc5;
+  for (const ch of `${req.path}?${canonicalParams(req.params)}`) {
+    h ^= ch.charCodeAt(0);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h.toString(16).padStart(8, '0');
+}
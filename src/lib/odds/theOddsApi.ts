@@ -0,0 +1,38 @@
+// src/lib/odds/theOddsApi.ts
+// Live provider: the-odds-api.com v4. Key from ODDS_API_KEY. Each call is
+// billed against the monthly quota, so callers pass a revalidate window and
+// Next's fetch cache shares one paid response between visitors.
+
+import { recordQuota } from './quota';
+import { eventOddsRequest, eventsRequest, historicalRequest, oddsRequest, type OddsRequest } from './request';
+import { OddsProviderError, type OddsCache, type OddsProvider, type OddsResult } from './types';
+
+export const ODDS_API_BASE_URL = 'https://api.the-odds-api.com/v4';
+
+async function get<T>(req: OddsRequest, cache?: OddsCache): Promise<OddsResult<T>> {
+  const apiKey = process.env.ODDS_API_KEY;
+  if (!apiKey) throw new OddsProviderError('ODDS_API_KEY is not set', 500);
+
+  const qs = new URLSearchParams({ apiKey, ...req.params }).toString();
+  const init: RequestInit = cache && cache.revalidate > 0
+    ? { next: { revalidate: cache.revalidate } }
+    : { cache: 'no-store' };
+  const response = await fetch(`${ODDS_API_BASE_URL}${req.path}?${qs}`, init);
+  const quota = recordQuota(response.headers, req.path);
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new OddsProviderError(`Odds API ${req.path} ${response.status}: ${body.slice(0, 200)}`, response.status);
+  }
+  return { data: (await response.json()) as T, quota };
+}
+
+export function theOddsApiProvider(): OddsProvider {
+  return {
+    name: 'the-odds-api',
+    getOdds: (sport, query, cache) => get(oddsRequest(sport, query), cache),
+    getEvents: (sport, cache) => get(eventsRequest(sport), cache),
+    getEventOdds: (sport, eventId, query, cache) => get(eventOddsRequest(sport, eventId, query), cache),
+    getHistoricalOdds: (sport, query) => get(historicalRequest(sport, query)),
+  };
+}
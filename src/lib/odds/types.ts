@@ -0,0 +1,74 @@
+// src/lib/odds/types.ts
+// The OddsProvider contract every Odds API caller goes through. Providers:
+// theOddsApi.ts (live, paid quota) and fixtures.ts (replay captured JSON from
+// disk, or record live responses into it). getOddsProvider() in index.ts
+// picks one from ODDS_PROVIDER.
+
+import type { OddsAPIGame } from '../ratings/types';
+
+export type OddsProviderName = 'the-odds-api' | 'fixture' | 'recording';
+
+/** Request quota as the Odds API reports it on every response. */
+export interface OddsQuota {
+  remaining: number | null;
+  used: number | null;
+  last: number | null;     // cost of the request that reported it
+  at: string;              // ISO time it was reported
+}
+
+export interface OddsResult<T> {
+  data: T;
+  quota: OddsQuota | null; // null for fixture replays — nothing was spent
+}
+
+export interface OddsQuery {
+  markets: string[];
+  regions?: string[];      // defaults to ['us'] when no bookmakers are given
+  bookmakers?: string[];
+  eventIds?: string[];
+  includeLinks?: boolean;  // deep links to sportsbook betslips
+}
+
+export interface HistoricalOddsQuery extends OddsQuery {
+  date: string;            // ISO timestamp of the snapshot, e.g. tip − 5 min
+}
+
+export interface HistoricalSnapshot<T> {
+  timestamp: string;
+  previous_timestamp: string;
+  next_timestamp: string;
+  data: T[];
+}
+
+/** Event list entry (no bookmakers) from /sports/{sport}/events. */
+export interface OddsEventSummary {
+  id: string;
+  sport_key: string;
+  sport_title?: string;
+  commence_time: string;
+  home_team: string;
+  away_team: string;
+}
+
+/** Seconds a live response may be shared by Next's fetch cache; 0 = always fresh. */
+export type OddsCache = { revalidate: number };
+
+export interface OddsProvider {
+  readonly name: OddsProviderName;
+  /** Current board for a sport (or an outright key like basketball_nba_championship_winner). */
+  getOdds<T = OddsAPIGame>(sport: string, query: OddsQuery, cache?: OddsCache): Promise<OddsResult<T[]>>;
+  /** Upcoming events without prices — free on the Odds API. */
+  getEvents<T = OddsEventSummary>(sport: string, cache?: OddsCache): Promise<OddsResult<T[]>>;
+  /** One event's markets — props, alternates, team totals. */
+  getEventOdds<T = OddsAPIGame>(sport: string, eventId: string, query: OddsQuery, cache?: OddsCache): Promise<OddsResult<T>>;
+  /** Snapshot of the board at a past moment (closing lines). */
+  getHistoricalOdds<T = OddsAPIGame>(sport: string, query: HistoricalOddsQuery): Promise<OddsResult<HistoricalSnapshot<T>>>;
+}
+
+/** A failed provider call; status mirrors the upstream HTTP status (404 for a missing fixture). */
+export class OddsProviderError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'OddsProviderError';
+  }
+}
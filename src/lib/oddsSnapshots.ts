@@ -0,0 +1,232 @@
+// src/lib/oddsSnapshots.ts
+// Line-movement history: flatten Odds API games into odds_snapshots rows,
+// write them on each board fetch, and read them back as per-book series for
+// the game page chart. Kalshi is merged client-side in fetchOdds, so only the
+// Odds API books are recorded here.
+
+import { supabase } from './supabase';
+import type { Game } from './api';
+import type { OddsAPIGame, OddsAPIOutcome } from './ratings/types';
+
+export type SnapshotMarket = 'h2h' | 'spreads' | 'totals';
+
+export interface OddsSnapshotRow {
+  game_id: string;
+  sport_key: string;
+  commence_time: string;
+  home_team: string;
+  away_team: string;
+  bookmaker: string;
+  market: SnapshotMarket;
+  point: number | null;
+  home_price: number | null;
+  away_price: number | null;
+  draw_price: number | null;
+  over_price: number | null;
+  under_price: number | null;
+  book_updated_at: string;
+}
+
+// One point on a book's line: `point` is the home spread or the total,
+// `price` the matching side's price (home for spreads, over for totals)
+export interface LinePoint {
+  at: string;
+  point: number;
+  price: number | null;
+}
+
+export interface BookLineSeries {
+  bookmaker: string;
+  points: LinePoint[];
+}
+
+export interface LineMovement {
+  spreads: BookLineSeries[];
+  totals: BookLineSeries[];
+  // First book to move off its opening number, per market — "who moved first"
+  firstMover: { spreads: string | null; totals: string | null };
+}
+
+const SNAPSHOT_MARKETS: SnapshotMarket[] = ['h2h', 'spreads', 'totals'];
+
+/**
+ * Flatten a board into one row per (game, book, market). Pure — the caller
+ * decides whether to write them.
+ */
+export function snapshotRows(games: Game[]): OddsSnapshotRow[] {
+  const rows: OddsSnapshotRow[] = [];
+  for (const game of games) {
+    for (const book of game.bookmakers ?? []) {
+      for (const market of book.markets ?? []) {
+        if (!SNAPSHOT_MARKETS.includes(market.key as SnapshotMarket)) continue;
+        const find = (name: string) => market.outcomes.find((o) => o.name === name);
+        const home = find(game.home_team);
+        const away = find(game.away_team);
+        const over = find('Over');
+        const under = find('Under');
+        const key = market.key as SnapshotMarket;
+
+        const point = key === 'spreads' ? home?.point ?? null
+          : key === 'totals' ? over?.point ?? null
+          : null;
+        // A spread/total row without a number is useless for the chart
+        if (key !== 'h2h' && point === null) continue;
+
+        rows.push({
+          game_id: game.id,
+          sport_key: game.sport_key,
+          commence_time: game.commence_time,
+          home_team: game.home_team,
+          away_team: game.away_team,
+          bookmaker: book.key,
+          market: key,
+          point,
+          home_price: key !== 'totals' ? home?.price ?? null : null,
+          away_price: key !== 'totals' ? away?.price ?? null : null,
+          draw_price: key === 'h2h' ? find('Draw')?.price ?? null : null,
+          over_price: key === 'totals' ? over?.price ?? null : null,
+          under_price: key === 'totals' ? under?.price ?? null : null,
+          book_updated_at: market.last_update || book.last_update,
+        });
+      }
+    }
+  }
+  return rows;
+}
+
+// Board fetches are cached for 60s upstream, so repeat visitors inside that
+// window would only re-send identical rows — skip them per sport instead.
+const RECORD_INTERVAL_MS = 60 * 1000;
+const lastRecorded = new Map<string, number>();
+
+/**
+ * Write a board's snapshot rows. Rows whose book_updated_at is already stored
+ * are ignored by the unique key, so only real line changes add history.
+ * Never throws — a failed write must not take the odds board down with it.
+ */
+export async function recordOddsSnapshots(sport: string, games: Game[]): Promise<number> {
+  const now = Date.now();
+  if (now - (lastRecorded.get(sport) ?? 0) < RECORD_INTERVAL_MS) return 0;
+  lastRecorded.set(sport, now);
+
+  const rows = snapshotRows(games);
+  if (!rows.length) return 0;
+  const { error } = await supabase
+    .from('odds_snapshots')
+    .upsert(rows, { onConflict: 'game_id,bookmaker,market,book_updated_at', ignoreDuplicates: true });
+  if (error) {
+    console.error('[OddsSnapshots] Write failed:', error.message);
+    return 0;
+  }
+  return rows.length;
+}
+
+/** All stored snapshots for one game, oldest first. */
+export async function loadLineHistory(gameId: string): Promise<OddsSnapshotRow[]> {
+  const { data, error } = await supabase
+    .from('odds_snapshots')
+    .select('*')
+    .eq('game_id', gameId)
+    .order('book_updated_at', { ascending: true });
+  if (error) {
+    console.error('[OddsSnapshots] Read failed:', error.message);
+    return [];
+  }
+  return (data ?? []) as OddsSnapshotRow[];
+}
+
+/**
+ * Group snapshots into per-book spread and total series. Consecutive
+ * snapshots with the same number and price collapse to one point; only
+ * snapshots taken before `until` (normally commence time) are kept, so the
+ * last point of each series is that book's close.
+ */
+export function buildLineMovement(rows: OddsSnapshotRow[], until?: string): LineMovement {
+  const cutoff = until ? new Date(until).getTime() : Infinity;
+  const build = (market: 'spreads' | 'totals'): BookLineSeries[] => {
+    const byBook = new Map<string, LinePoint[]>();
+    const sorted = rows
+      .filter((r) => r.market === market && r.point !== null)
+      .filter((r) => new Date(r.book_updated_at).getTime() <= cutoff)
+      .sort((a, b) => a.book_updated_at.localeCompare(b.book_updated_at));
+    for (const r of sorted) {
+      const price = market === 'spreads' ? r.home_price : r.over_price;
+      const series = byBook.get(r.bookmaker) ?? [];
+      const prev = series[series.length - 1];
+      if (!prev || prev.point !== r.point || prev.price !== price) {
+        series.push({ at: r.book_updated_at, point: r.point as number, price });
+      }
+      byBook.set(r.bookmaker, series);
+    }
+    return [...byBook.entries()]
+      .map(([bookmaker, points]) => ({ bookmaker, points }))
+      .sort((a, b) => a.bookmaker.localeCompare(b.bookmaker));
+  };
+
+  const spreads = build('spreads');
+  const totals = build('totals');
+  return {
+    spreads,
+    totals,
+    firstMover: { spreads: firstMover(spreads), totals: firstMover(totals) },
+  };
+}
+
+// Book whose number (not just price) left its opener earliest
+function firstMover(series: BookLineSeries[]): string | null {
+  let best: { bookmaker: string; at: string } | null = null;
+  for (const s of series) {
+    const open = s.points[0]?.point;
+    const move = s.points.find((p) => p.point !== open);
+    if (move && (!best || move.at < best.at)) best = { bookmaker: s.bookmaker, at: move.at };
+  }
+  return best?.bookmaker ?? null;
+}
+
+/**
+ * Rebuild the closing board — each book's last snapshot per market at or
+ * before `at` (normally commence time) — in the Odds API game shape, so the
+ * ratings' closing-line helpers run on it unchanged.
+ */
+export function closingBoardFromSnapshots(rows: OddsSnapshotRow[], at: string): OddsAPIGame | null {
+  const cutoff = new Date(at).getTime();
+  const latest = new Map<string, OddsSnapshotRow>();
+  for (const r of rows) {
+    if (new Date(r.book_updated_at).getTime() > cutoff) continue;
+    const key = `${r.bookmaker}|${r.market}`;
+    const prev = latest.get(key);
+    if (!prev || r.book_updated_at > prev.book_updated_at) latest.set(key, r);
+  }
+  const first = rows[0];
+  if (!first || latest.size === 0) return null;
+
+  const books = new Map<string, OddsAPIGame['bookmakers'][number]>();
+  for (const r of latest.values()) {
+    const outcomes: OddsAPIOutcome[] = [];
+    const push = (name: string, price: number | null, point?: number | null) => {
+      if (price !== null) outcomes.push(point === null || point === undefined ? { name, price } : { name, price, point });
+    };
+    if (r.market === 'totals') {
+      push('Over', r.over_price, r.point);
+      push('Under', r.under_price, r.point);
+    } else {
+      const homePoint = r.market === 'spreads' ? r.point : null;
+      push(r.home_team, r.home_price, homePoint);
+      push(r.away_team, r.away_price, homePoint === null ? null : -homePoint);
+      push('Draw', r.draw_price);
+    }
+    const book = books.get(r.bookmaker) ?? { key: r.bookmaker, title: r.bookmaker, last_update: r.book_updated_at, markets: [] };
+    book.markets.push({ key: r.market, last_update: r.book_updated_at, outcomes });
+    books.set(r.bookmaker, book);
+  }
+
+  return {
+    id: first.game_id,
+    sport_key: first.sport_key,
+    sport_title: first.sport_key,
+    commence_time: first.commence_time,
+    home_team: first.home_team,
+    away_team: first.away_team,
+    bookmakers: [...books.values()],
+  };
+}
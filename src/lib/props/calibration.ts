@@ -0,0 +1,253 @@
+// src/lib/props/calibration.ts
+// Prop model calibration: the shape of a logged prediction (sql/
+// prop_predictions.sql), how it grades against the game it was priced for,
+// and the scorecards — reliability bins, Brier and log-loss by market and
+// curve, and realised ROI of the value picks split by volatility setting.
+// Pure functions — no I/O. Tested by scripts/props.test.ts.
+
+import { americanToDecimal, expectedValue, probPush } from './engine';
+import { Distribution, PlayerGameLog, PropLeague } from './markets';
+import type { ProjectionMode } from './projection';
+
+export type PredictionSource = 'pricer' | 'table';
+export type PredictionSdMode = 'measured' | 'tier' | 'league' | 'custom';
+export type PredictionResult = 'over' | 'under' | 'push' | 'dnp' | 'expired';
+
+export interface PropPrediction {
+  id?: number;
+  dedupe_key: string;
+  priced_on: string;                 // YYYY-MM-DD, Eastern
+  source: PredictionSource;
+  league: PropLeague;
+  sport_key: string;
+  event_id: string | null;
+  commence_time: string | null;
+  player_id: string;
+  player_name: string;
+  position: string | null;
+  team: string | null;
+  market: string;
+  line: number;
+  projection: number;
+  projection_mode: ProjectionMode;
+  sd: number;
+  sd_mode: PredictionSdMode;
+  dist: Distribution;
+  p_over: number;
+  best_over_price: number | null;
+  best_over_book: string | null;
+  best_under_price: number | null;
+  best_under_book: string | null;
+  kalshi_ticker: string | null;
+  kalshi_strike: number | null;
+  value_side: 'over' | 'under' | null;
+  value_ev: number | null;
+  created_at?: string;
+  graded_at?: string | null;
+  game_season?: number | null;
+  game_week?: number | null;
+  actual?: number | null;
+  result?: PredictionResult | null;
+}
+
+export type PredictionInput = Omit<PropPrediction, 'dedupe_key' | 'priced_on' | 'value_side' | 'value_ev'>;
+
+// Prop days are US calendar days; game dates in the schedule are Eastern too
+export const easternDate = (d: Date): string => d.toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+
+/**
+ * A logged row from the model's inputs: stamps the Eastern pricing day, picks
+ * the higher-EV side at the best prices, and keys it so re-pricing the same
+ * line with the same settings on the same day updates one row instead of
+ * stacking duplicates.
+ */
+export function buildPrediction(input: PredictionInput, now: Date = new Date()): PropPrediction {
+  const pricedOn = easternDate(now);
+  const pPush = probPush(input.projection, input.sd, input.line, input.dist);
+  const evOver = input.best_over_price !== null ? expectedValue(input.p_over, input.best_over_price, pPush) : null;
+  const evUnder = input.best_under_price !== null
+    ? expectedValue(Math.max(0, 1 - input.p_over - pPush), input.best_under_price, pPush)
+    : null;
+  const valueSide = evOver === null && evUnder === null ? null
+    : (evOver ?? -Infinity) >= (evUnder ?? -Infinity) ? 'over' : 'under';
+  return {
+    ...input,
+    dedupe_key: [
+      pricedOn, input.source, input.player_id, input.market, input.line,
+      input.kalshi_ticker ?? 'book', input.sd_mode, input.projection_mode,
+    ].join('|'),
+    priced_on: pricedOn,
+    value_side: valueSide,
+    value_ev: valueSide === 'over' ? evOver : valueSide === 'under' ? evUnder : null,
+  };
+}
+
+/** Once the event tips, a line is no longer a pre-game price — it isn't logged or re-priced. */
+export const hasStarted = (p: Pick<PropPrediction, 'commence_time'>, now: Date = new Date()): boolean =>
+  p.commence_time !== null && new Date(p.commence_time).getTime() <= now.getTime();
+
+// ---------- grading ----------
+
+/** The day whose game grades this prediction: the event's tip, else the day it was priced. */
+export const gradingDate = (p: Pick<PropPrediction, 'commence_time' | 'priced_on'>): string =>
+  p.commence_time ? easternDate(new Date(p.commence_time)) : p.priced_on;
+
+/** Earliest game on or after the date (team schedules / NBA team log dates). */
+export function gameOnOrAfter<T extends { gameday: string }>(games: T[], date: string): T | null {
+  let best: T | null = null;
+  for (const g of games) {
+    if (g.gameday >= date && (!best || g.gameday < best.gameday)) best = g;
+  }
+  return best;
+}
+
+/**
+ * Open too long to ever grade (no team, no schedule game, logs never
+ * uploaded or never complete): the grading day is more than `days` Eastern
+ * days back.
+ */
+export function isExpired(p: Pick<PropPrediction, 'commence_time' | 'priced_on'>, now: Date, days: number): boolean {
+  return gradingDate(p) < easternDate(new Date(now.getTime() - days * 86_400_000));
+}
+
+// Five on the floor for 48 minutes, less rounding on the per-player minutes
+const TEAM_GAME_MINUTES = 240 - 5;
+
+/**
+ * Whether one team's uploaded rows for a game are the whole box score rather
+ * than a per-player export — only then is a missing player a DNP.
+ */
+export function coversTeamGame(rows: Pick<PlayerGameLog, 'minutes'>[]): boolean {
+  return rows.reduce((sum, g) => sum + (g.minutes ?? 0), 0) >= TEAM_GAME_MINUTES;
+}
+
+/**
+ * Whether one team's synced nflverse rows for a week are the whole game: a
+ * passer is logged and every completion has its receiver. A partial sync, or
+ * a catch by a position the sync drops, leaves the check failing and a
+ * missing player waiting rather than voided.
+ */
+export function coversNflTeamGame(rows: Pick<PlayerGameLog, 'attempts' | 'completions' | 'receptions'>[]): boolean {
+  const sum = (key: 'attempts' | 'completions' | 'receptions') => rows.reduce((n, g) => n + (g[key] ?? 0), 0);
+  return sum('attempts') > 0 && sum('completions') === sum('receptions');
+}
+
+export function outcomeFor(actual: number, line: number): 'over' | 'under' | 'push' {
+  return actual > line ? 'over' : actual < line ? 'under' : 'push';
+}
+
+// ---------- scorecards ----------
+
+/** Graded rows that count toward calibration (pushes, DNPs and expired rows are voids). */
+const decided = (preds: PropPrediction[]): PropPrediction[] =>
+  preds.filter((p) => p.result === 'over' || p.result === 'under');
+
+const clampP = (p: number) => Math.min(1 - 1e-6, Math.max(1e-6, p));
+
+/**
+ * P(over | not a push). On whole-number count lines the raw p_over leaves out
+ * the push mass, and pushes are dropped from the graded sample, so the
+ * scorecards compare outcomes against the probability conditioned the same way.
+ */
+export function decidedPOver(p: Pick<PropPrediction, 'p_over' | 'projection' | 'sd' | 'line' | 'dist'>): number {
+  const pPush = probPush(p.projection, p.sd, p.line, p.dist);
+  return pPush < 1 ? Math.min(1, p.p_over / (1 - pPush)) : p.p_over;
+}
+
+export interface ScoreSummary {
+  n: number;
+  meanP: number;       // average model P(over | decided)
+  hitRate: number;     // share that went over
+  brier: number;
+  logLoss: number;
+}
+
+export function scorePredictions(preds: PropPrediction[]): ScoreSummary {
+  const rows = decided(preds);
+  const n = rows.length;
+  if (!n) return { n: 0, meanP: NaN, hitRate: NaN, brier: NaN, logLoss: NaN };
+  let sumP = 0, hits = 0, brier = 0, logLoss = 0;
+  for (const r of rows) {
+    const y = r.result === 'over' ? 1 : 0;
+    const pOver = decidedPOver(r);
+    const p = clampP(pOver);
+    sumP += pOver;
+    hits += y;
+    brier += (pOver - y) ** 2;
+    logLoss -= y ? Math.log(p) : Math.log(1 - p);
+  }
+  return { n, meanP: sumP / n, hitRate: hits / n, brier: brier / n, logLoss: logLoss / n };
+}
+
+/** Scorecards per group (market, curve, …), largest sample first. */
+export function scoreBy(
+  preds: PropPrediction[],
+  keyOf: (p: PropPrediction) => string
+): { key: string; summary: ScoreSummary }[] {
+  const groups = new Map<string, PropPrediction[]>();
+  for (const p of decided(preds)) {
+    const k = keyOf(p);
+    const list = groups.get(k) ?? [];
+    list.push(p);
+    groups.set(k, list);
+  }
+  return Array.from(groups.entries())
+    .map(([key, rows]) => ({ key, summary: scorePredictions(rows) }))
+    .sort((a, b) => b.summary.n - a.summary.n || a.key.localeCompare(b.key));
+}
+
+export interface ReliabilityBin {
+  lo: number;
+  hi: number;
+  n: number;
+  meanP: number;       // average prediction in the bin (NaN when empty)
+  hitRate: number;     // observed over rate (NaN when empty)
+}
+
+/** Equal-width P(over | decided) bins for a reliability diagram. */
+export function reliabilityBins(preds: PropPrediction[], bins = 10): ReliabilityBin[] {
+  const out: ReliabilityBin[] = Array.from({ length: bins }, (_, i) => ({
+    lo: i / bins, hi: (i + 1) / bins, n: 0, meanP: 0, hitRate: 0,
+  }));
+  for (const r of decided(preds)) {
+    const pOver = decidedPOver(r);
+    const b = out[Math.min(bins - 1, Math.floor(pOver * bins))];
+    b.n++;
+    b.meanP += pOver;
+    b.hitRate += r.result === 'over' ? 1 : 0;
+  }
+  for (const b of out) {
+    b.meanP = b.n ? b.meanP / b.n : NaN;
+    b.hitRate = b.n ? b.hitRate / b.n : NaN;
+  }
+  return out;
+}
+
+export interface RoiSummary {
+  picks: number;       // graded value picks (DNPs excluded — books void them; expired never graded)
+  won: number;
+  lost: number;
+  pushed: number;
+  profit: number;      // units, 1 unit per pick at the logged best price
+  roi: number;         // profit / picks
+}
+
+/**
+ * Realised ROI of the value picks (the higher-EV side, when its EV cleared
+ * minEv) grouped by volatility setting: measured vs tier vs league.
+ */
+export function valueRoi(preds: PropPrediction[], minEv = 0): Record<string, RoiSummary> {
+  const out: Record<string, RoiSummary> = {};
+  for (const p of preds) {
+    if (!p.result || p.result === 'dnp' || p.result === 'expired' || !p.value_side || p.value_ev === null || p.value_ev <= minEv) continue;
+    const price = p.value_side === 'over' ? p.best_over_price : p.best_under_price;
+    if (price === null) continue;
+    const s = out[p.sd_mode] ?? (out[p.sd_mode] = { picks: 0, won: 0, lost: 0, pushed: 0, profit: 0, roi: 0 });
+    s.picks++;
+    if (p.result === 'push') s.pushed++;
+    else if (p.result === p.value_side) { s.won++; s.profit += americanToDecimal(price) - 1; }
+    else { s.lost++; s.profit -= 1; }
+  }
+  for (const s of Object.values(out)) s.roi = s.picks ? s.profit / s.picks : 0;
+  return out;
+}
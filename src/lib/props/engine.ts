@@ -48,15 +48,86 @@ export function lognormalParams(m: number, s: number): { mu: number; sigma: numb
   return { mu, sigma, median: Math.exp(mu) };
 }
 
+/** Poisson P(X = k) for k = 0..kMax with mean lambda. */
+export function poissonPmf(lambda: number, kMax: number): number[] {
+  const out: number[] = [];
+  let p = Math.exp(-lambda);
+  for (let k = 0; k <= kMax; k++) {
+    out.push(p);
+    p *= lambda / (k + 1);
+  }
+  return out;
+}
+
+/**
+ * Negative binomial P(X = k) for k = 0..kMax matching mean m and SD s:
+ *   r = m² / (s² − m),  p = r / (r + m)
+ * Only defined when the variance exceeds the mean (overdispersion — a
+ * player whose TD rate swings with role/game script); otherwise it
+ * collapses to Poisson, which is the r → ∞ limit.
+ */
+export function negBinPmf(m: number, s: number, kMax: number): number[] {
+  const excess = s * s - m;
+  if (!(excess > 1e-9)) return poissonPmf(m, kMax);
+  const r = (m * m) / excess;
+  const p = r / (r + m);
+  const out: number[] = [];
+  let pk = Math.pow(p, r);
+  for (let k = 0; k <= kMax; k++) {
+    out.push(pk);
+    pk *= ((k + r) / (k + 1)) * (1 - p);
+  }
+  return out;
+}
+
+export const isCountDist = (dist: Distribution): boolean => dist === 'poisson' || dist === 'negbin';
+
+/** P(X = k) for k = 0..kMax under a count distribution (Poisson ignores s). */
+export function countPmf(m: number, s: number, dist: Distribution, kMax: number): number[] {
+  return dist === 'negbin' ? negBinPmf(m, s, kMax) : poissonPmf(m, kMax);
+}
+
 /** P(X > line) for the given distribution with mean m and SD s. */
 export function probOver(m: number, s: number, line: number, dist: Distribution): number {
-  if (!(m > 0) || !(s > 0)) return NaN;
+  if (!(m > 0) || (dist !== 'poisson' && !(s > 0))) return NaN;
   if (dist === 'normal') return 1 - normCdf((line - m) / s);
-  if (line <= 0) return 1;
+  if (line < 0) return 1;
+  if (isCountDist(dist)) {
+    // Over 0.5 = 1+, over 1.5 = 2+; a whole-number line's push counts as not-over
+    const atOrBelow = countPmf(m, s, dist, Math.floor(line)).reduce((a, b) => a + b, 0);
+    return Math.max(0, 1 - atOrBelow);
+  }
+  if (line === 0) return 1;
   const { mu, sigma } = lognormalParams(m, s);
   return 1 - normCdf((Math.log(line) - mu) / sigma);
 }
 
+/**
+ * P(X = line): the push on a whole-number line of a count curve (Over 1 TD
+ * with exactly one). Continuous curves and half-point lines never push.
+ */
+export function probPush(m: number, s: number, line: number, dist: Distribution): number {
+  if (!isCountDist(dist) || !Number.isInteger(line) || line < 0 || !(m > 0)) return 0;
+  return countPmf(m, s, dist, line)[line];
+}
+
+/** P(X < line) — the under wins only below the line, so this is 1 − over − push. */
+export function probUnder(m: number, s: number, line: number, dist: Distribution): number {
+  return Math.max(0, 1 - probOver(m, s, line, dist) - probPush(m, s, line, dist));
+}
+
+/**
+ * The line where P(over) crosses 50%: the mean for normal, the lognormal
+ * median, and the median count for the discrete curves.
+ */
+export function fairLine(m: number, s: number, dist: Distribution): number {
+  if (dist === 'normal') return m;
+  if (dist === 'lognormal') return lognormalParams(m, s).median;
+  let k = 0;
+  while (k < 1000 && probOver(m, s, k, dist) > 0.5) k++;
+  return k;
+}
+
 // ---------- odds conversions ----------
 
 /** American odds → implied probability (vig included). */
@@ -91,10 +162,10 @@ export function breakeven(odds: number): number {
   return americanToProb(odds);
 }
 
-/** Expected return per $1 staked given win probability p and a price. */
-export function expectedValue(p: number, odds: number): number {
+/** Expected return per $1 staked given win probability p, a price and the chance of a push (stake back). */
+export function expectedValue(p: number, odds: number, pPush = 0): number {
   const payout = americanToDecimal(odds) - 1;
-  return p * payout - (1 - p);
+  return p * payout - (1 - p - pPush);
 }
 
 // ---------- ladder ----------
@@ -105,6 +176,7 @@ export interface LadderRung {
   fairOver: number;   // fair American price for the over
   pUnder: number;
   fairUnder: number;
+  pPush: number;      // whole-number lines on count curves; 0 otherwise
   overOdds: number | null;  // book price if available
   underOdds: number | null;
   overEv: number | null;    // EV per $1 at the book price
@@ -113,7 +185,9 @@ export interface LadderRung {
 
 /**
  * Price a ladder of lines from one distribution. bookPrices maps line →
- * {over, under} American odds where available.
+ * {over, under} American odds where available. A push refunds the stake, so
+ * fair prices are each side's share of the decided outcomes and EV counts
+ * the push as neither win nor loss.
  */
 export function priceLadder(
   m: number,
@@ -124,20 +198,22 @@ export function priceLadder(
 ): LadderRung[] {
   return lines.map((line) => {
     const pOver = probOver(m, s, line, dist);
-    const pUnder = 1 - pOver;
+    const pPush = probPush(m, s, line, dist);
+    const pUnder = probUnder(m, s, line, dist);
     const book = bookPrices?.get(line);
     const overOdds = book?.over ?? null;
     const underOdds = book?.under ?? null;
     return {
       line,
       pOver,
-      fairOver: probToAmerican(pOver),
+      fairOver: probToAmerican(pOver / (1 - pPush)),
       pUnder,
-      fairUnder: probToAmerican(pUnder),
+      fairUnder: probToAmerican(pUnder / (1 - pPush)),
+      pPush,
       overOdds,
       underOdds,
-      overEv: overOdds !== null ? expectedValue(pOver, overOdds) : null,
-      underEv: underOdds !== null ? expectedValue(pUnder, underOdds) : null,
+      overEv: overOdds !== null ? expectedValue(pOver, overOdds, pPush) : null,
+      underEv: underOdds !== null ? expectedValue(pUnder, underOdds, pPush) : null,
     };
   });
 }
@@ -0,0 +1,174 @@
+// src/lib/props/gradePredictions.ts
+// Grading pass over open prop predictions (sql/prop_predictions.sql). Each
+// prediction grades against its player's team's first game on or after the
+// event date (or the day it was priced): the NFL finds that game in the
+// nflverse schedule, the NBA in the uploaded logs' game dates. A game whose
+// logs aren't synced yet stays open; a synced game without a row for the
+// player is a DNP (void) only when the team's rows are the whole game — the
+// NBA box score's minutes add up, the NFL week's completions all have their
+// receivers — since a partial sync or per-player export says nothing about
+// who sat.
+// Rows still open EXPIRE_DAYS after their game day can never grade and are
+// closed as expired. Runs after /api/nfl-props/sync and NBA uploads, and
+// from the calibration page's "Grade now" (/api/prop-predictions/grade).
+
+import { supabase } from '../supabase';
+import { PlayerGameLog, PropLeague, marketByKey, statValue } from './markets';
+import { fetchSchedule } from './nflverse';
+import {
+  PropPrediction, PredictionResult, coversNflTeamGame, coversTeamGame, gameOnOrAfter, gradingDate, isExpired, outcomeFor,
+} from './calibration';
+
+const PAGE = 1000;
+const EXPIRE_DAYS = 14;
+
+export interface GradingResult {
+  checked: number;
+  graded: number;     // over / under / push
+  voided: number;     // DNP
+  expired: number;    // no game to grade against within EXPIRE_DAYS
+  waiting: number;    // game not played or logs not synced yet
+  errors: string[];
+}
+
+interface Grade {
+  result: PredictionResult;
+  actual: number | null;
+  season: number;
+  week: number;
+}
+
+function gradeFromRow(pred: PropPrediction, row: PlayerGameLog | undefined, season: number, week: number): Grade {
+  const def = marketByKey(pred.market);
+  const actual = row && def ? statValue(row, def.stat) : null;
+  if (actual === null) return { result: 'dnp', actual: null, season, week };
+  return { result: outcomeFor(actual, pred.line), actual, season, week };
+}
+
+async function gradeNfl(open: PropPrediction[]): Promise<Map<number, Grade>> {
+  const schedule = await fetchSchedule();
+  const target = new Map<number, { season: number; week: number }>();
+  for (const p of open) {
+    if (!p.team || p.id === undefined) continue;
+    const game = gameOnOrAfter(schedule.filter((g) => g.team === p.team), gradingDate(p));
+    if (game) target.set(p.id, { season: game.season, week: game.week });
+  }
+
+  // One logs pull per season-week that has something to grade
+  const weeks = Array.from(new Set(Array.from(target.values()).map((t) => `${t.season}|${t.week}`)));
+  const logsByWeek = new Map<string, PlayerGameLog[]>();
+  for (const key of weeks) {
+    const [season, week] = key.split('|').map(Number);
+    const { data, error } = await supabase
+      .from('nfl_player_game_logs')
+      .select('*')
+      .eq('season', season)
+      .eq('week', week);
+    if (error) throw new Error(error.message);
+    logsByWeek.set(key, (data ?? []) as PlayerGameLog[]);
+  }
+
+  const grades = new Map<number, Grade>();
+  for (const p of open) {
+    const t = p.id !== undefined ? target.get(p.id) : undefined;
+    if (!t) continue;
+    const logs = logsByWeek.get(`${t.season}|${t.week}`) ?? [];
+    const played = logs.filter((g) => g.team === p.team);
+    if (!played.length) continue; // week not synced yet
+    const row = played.find((g) => g.player_id === p.player_id);
+    if (!row && !coversNflTeamGame(played)) continue;
+    grades.set(p.id!, gradeFromRow(p, row, t.season, t.week));
+  }
+  return grades;
+}
+
+async function gradeNba(open: PropPrediction[]): Promise<Map<number, Grade>> {
+  const grades = new Map<number, Grade>();
+  const teams = Array.from(new Set(open.map((p) => p.team).filter((t): t is string => !!t)));
+  for (const team of teams) {
+    const preds = open.filter((p) => p.team === team);
+    const since = preds.map(gradingDate).sort()[0];
+    const { data, error } = await supabase
+      .from('nba_player_game_logs')
+      .select('*')
+      .eq('team', team)
+      .gte('game_date', since)
+      .limit(5000);
+    if (error) throw new Error(error.message);
+    const logs = (data ?? []) as PlayerGameLog[];
+    const dates = Array.from(new Set(logs.map((g) => g.game_date).filter((d): d is string => !!d)))
+      .map((gameday) => ({ gameday }));
+    for (const p of preds) {
+      const game = gameOnOrAfter(dates, gradingDate(p));
+      // With a known tip, only that day's game grades it — a later date means its game isn't uploaded
+      if (!game || p.id === undefined || (p.commence_time && game.gameday !== gradingDate(p))) continue;
+      const played = logs.filter((g) => g.game_date === game.gameday);
+      const row = played.find((g) => g.player_id === p.player_id);
+      if (!row && !coversTeamGame(played)) continue;
+      grades.set(p.id, gradeFromRow(p, row, played[0].season, played[0].week));
+    }
+  }
+  return grades;
+}
+
+// Every open row, paged — a fixed window would fill with the oldest rows
+async function fetchOpen(league: PropLeague): Promise<PropPrediction[]> {
+  const out: PropPrediction[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabase
+      .from('prop_predictions')
+      .select('*')
+      .eq('league', league)
+      .is('result', null)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(error.message);
+    out.push(...((data ?? []) as PropPrediction[]));
+    if (!data || data.length < PAGE) break;
+  }
+  return out;
+}
+
+export async function gradeOpenPredictions(league: PropLeague, now: Date = new Date()): Promise<GradingResult> {
+  const result: GradingResult = { checked: 0, graded: 0, voided: 0, expired: 0, waiting: 0, errors: [] };
+  let open: PropPrediction[];
+  try {
+    open = await fetchOpen(league);
+  } catch (e) {
+    result.errors.push(e instanceof Error ? e.message : 'Loading open predictions failed');
+    return result;
+  }
+  result.checked = open.length;
+  if (!open.length) return result;
+
+  let grades: Map<number, Grade>;
+  try {
+    grades = league === 'NFL' ? await gradeNfl(open) : await gradeNba(open);
+  } catch (e) {
+    result.errors.push(e instanceof Error ? e.message : 'Grading failed');
+    return result;
+  }
+
+  const gradedAt = now.toISOString();
+  for (const [id, g] of Array.from(grades.entries())) {
+    const { error: updateError } = await supabase
+      .from('prop_predictions')
+      .update({ graded_at: gradedAt, game_season: g.season, game_week: g.week, actual: g.actual, result: g.result })
+      .eq('id', id);
+    if (updateError) result.errors.push(`#${id}: ${updateError.message}`);
+    else if (g.result === 'dnp') result.voided++;
+    else result.graded++;
+  }
+
+  const stale = open.filter((p) => p.id !== undefined && !grades.has(p.id) && isExpired(p, now, EXPIRE_DAYS));
+  for (const p of stale) {
+    const { error: updateError } = await supabase
+      .from('prop_predictions')
+      .update({ graded_at: gradedAt, result: 'expired' })
+      .eq('id', p.id!);
+    if (updateError) result.errors.push(`#${p.id}: ${updateError.message}`);
+    else result.expired++;
+  }
+  result.waiting = open.length - grades.size - stale.length;
+  return result;
+}
@@ -1,7 +1,15 @@
 // src/lib/props/markets.ts
-// NFL prop market definitions: Odds API keys ↔ game-log stat columns,
+// NFL + NBA prop market definitions: Odds API keys ↔ game-log stat columns,
 // default distribution shape, and reference-derivation rules.
 
+export type PropLeague = 'NFL' | 'NBA';
+
+/**
+ * One player-game. NFL rows come from nflverse weekly stats; NBA rows from a
+ * box-score CSV (lib/props/nbaLogs.ts), where `season` is the start year of
+ * the season and `week` is the day of the season (days since Sep 1), so the
+ * season/week ordering and per-game keys work unchanged for both leagues.
+ */
 export interface PlayerGameLog {
   player_id: string;
   player_name: string;
@@ -11,6 +19,7 @@ export interface PlayerGameLog {
   season: number;
   week: number;
   season_type: 'REG' | 'POST';
+  game_date?: string | null; // NBA: YYYY-MM-DD
   completions: number | null;
   attempts: number | null;
   passing_yards: number | null;
@@ -23,14 +32,51 @@ export interface PlayerGameLog {
   targets: number | null;
   receiving_yards: number | null;
   receiving_tds: number | null;
+  // NBA box score (combos are summed at parse time so they read like any column)
+  minutes?: number | null;
+  points?: number | null;
+  rebounds?: number | null;
+  assists?: number | null;
+  threes?: number | null;
+  steals?: number | null;
+  blocks?: number | null;
+  turnovers?: number | null;
+  pts_reb_ast?: number | null;
+  pts_reb?: number | null;
+  pts_ast?: number | null;
+  reb_ast?: number | null;
 }
 
 export type StatColumn =
-  | 'completions' | 'attempts' | 'passing_yards'
-  | 'carries' | 'rushing_yards'
-  | 'receptions' | 'targets' | 'receiving_yards';
+  | 'completions' | 'attempts' | 'passing_yards' | 'passing_tds' | 'interceptions'
+  | 'carries' | 'rushing_yards' | 'rushing_tds'
+  | 'receptions' | 'targets' | 'receiving_yards' | 'receiving_tds'
+  | 'minutes' | 'points' | 'rebounds' | 'assists' | 'threes'
+  | 'steals' | 'blocks' | 'turnovers'
+  | 'pts_reb_ast' | 'pts_reb' | 'pts_ast' | 'reb_ast'
+  | DerivedStat;
+
+// Stats summed from stored columns at read time (no column of their own)
+export type DerivedStat = 'scrimmage_tds' | 'touches';
+
+const DERIVED_STATS: Record<DerivedStat, (StatColumn & keyof PlayerGameLog)[]> = {
+  scrimmage_tds: ['rushing_tds', 'receiving_tds'], // what an anytime-TD bet settles on
+  touches: ['carries', 'targets'],
+};
 
-export type Distribution = 'normal' | 'lognormal';
+/** A game's value for a stat column, summing derived stats from their parts. */
+export function statValue(g: PlayerGameLog, stat: StatColumn): number | null {
+  if (stat in DERIVED_STATS) {
+    const parts = DERIVED_STATS[stat as DerivedStat].map((c) => g[c] ?? null);
+    return parts.every((x) => x === null) ? null : parts.reduce<number>((a, x) => a + (x ?? 0), 0);
+  }
+  return g[stat as Exclude<StatColumn, DerivedStat>] ?? null;
+}
+
+// Continuous curves for yardage/volume; discrete counts for low-count
+// markets (TDs, interceptions) where a normal curve puts real mass below 0
+// and can't see the lump at zero.
+export type Distribution = 'normal' | 'lognormal' | 'poisson' | 'negbin';
 
 // Books the app tracks — same set as BOOKMAKERS in src/lib/api.ts, minus
 // Kalshi/BetOnline which don't quote player props. Keys are Odds API `title`
@@ -38,15 +84,21 @@ export type Distribution = 'normal' | 'lognormal';
 // dropped so consensus lines and best-price EV only use books Tyler can bet.
 export const PROP_BOOKS = new Set(['DraftKings', 'FanDuel', 'BetMGM', 'BetRivers', 'Caesars']);
 
+// NBA logs carry no reliable position (box-score exports rarely include
+// one), so NBA markets derive a single league-wide reference under this key.
+export const ALL_POSITIONS = 'ALL';
+
 export interface PropMarketDef {
   key: string;               // internal key
   label: string;
+  league: PropLeague;
   oddsApiKey: string;        // Odds API market key
   oddsApiAltKey: string | null; // alternate-lines market key (null = none)
   stat: StatColumn;          // game-log column the market settles on
   opportunityStat: StatColumn; // volume column (used for game filters / decomposition)
-  positions: string[];       // positions eligible for reference derivation
-  defaultDist: Distribution; // yardage = lognormal (right skew), counting = normal
+  positions: string[];       // positions eligible for reference derivation (ALL = any)
+  defaultDist: Distribution; // yardage = lognormal (right skew), counting = normal, TDs/INTs = poisson
+  yesNo?: boolean;           // Yes/No market (anytime scorer) — priced as over 0.5
   qualifyMin: number;        // per-game mean of opportunityStat to count a player-season
   tierBounds: number[];      // tier edges on per-game mean of `stat` (ascending)
   ladderStep: number;        // synthetic ladder step when no alt lines available
@@ -54,58 +106,232 @@ export interface PropMarketDef {
 
 export const PROP_MARKETS: PropMarketDef[] = [
   {
-    key: 'rush_yds', label: 'Rushing Yards',
+    key: 'rush_yds', label: 'Rushing Yards', league: 'NFL',
     oddsApiKey: 'player_rush_yds', oddsApiAltKey: 'player_rush_yds_alternate',
     stat: 'rushing_yards', opportunityStat: 'carries',
     positions: ['RB', 'QB'], defaultDist: 'lognormal',
     qualifyMin: 8, tierBounds: [60, 80], ladderStep: 10,
   },
   {
-    key: 'rush_attempts', label: 'Rush Attempts',
+    key: 'rush_attempts', label: 'Rush Attempts', league: 'NFL',
     oddsApiKey: 'player_rush_attempts', oddsApiAltKey: null,
     stat: 'carries', opportunityStat: 'carries',
     positions: ['RB', 'QB'], defaultDist: 'normal',
     qualifyMin: 8, tierBounds: [12, 18], ladderStep: 2.5,
   },
   {
-    key: 'rec_yds', label: 'Receiving Yards',
+    key: 'rec_yds', label: 'Receiving Yards', league: 'NFL',
     oddsApiKey: 'player_reception_yds', oddsApiAltKey: 'player_reception_yds_alternate',
     stat: 'receiving_yards', opportunityStat: 'targets',
     positions: ['WR', 'TE', 'RB'], defaultDist: 'lognormal',
     qualifyMin: 4, tierBounds: [45, 70], ladderStep: 10,
   },
   {
-    key: 'receptions', label: 'Receptions',
+    key: 'receptions', label: 'Receptions', league: 'NFL',
     oddsApiKey: 'player_receptions', oddsApiAltKey: 'player_receptions_alternate',
     stat: 'receptions', opportunityStat: 'targets',
     positions: ['WR', 'TE', 'RB'], defaultDist: 'normal',
     qualifyMin: 4, tierBounds: [3.5, 5.5], ladderStep: 1,
   },
   {
-    key: 'pass_yds', label: 'Passing Yards',
+    key: 'pass_yds', label: 'Passing Yards', league: 'NFL',
     oddsApiKey: 'player_pass_yds', oddsApiAltKey: 'player_pass_yds_alternate',
     stat: 'passing_yards', opportunityStat: 'attempts',
     positions: ['QB'], defaultDist: 'normal', // high volume smooths the curve
     qualifyMin: 20, tierBounds: [210, 250], ladderStep: 20,
   },
   {
-    key: 'pass_attempts', label: 'Pass Attempts',
+    key: 'pass_attempts', label: 'Pass Attempts', league: 'NFL',
     oddsApiKey: 'player_pass_attempts', oddsApiAltKey: null,
     stat: 'attempts', opportunityStat: 'attempts',
     positions: ['QB'], defaultDist: 'normal',
     qualifyMin: 20, tierBounds: [30, 36], ladderStep: 2.5,
   },
   {
-    key: 'pass_completions', label: 'Completions',
+    key: 'pass_completions', label: 'Completions', league: 'NFL',
     oddsApiKey: 'player_pass_completions', oddsApiAltKey: null,
     stat: 'completions', opportunityStat: 'attempts',
     positions: ['QB'], defaultDist: 'normal',
     qualifyMin: 20, tierBounds: [19, 24], ladderStep: 2,
   },
+  {
+    key: 'pass_tds', label: 'Passing TDs', league: 'NFL',
+    oddsApiKey: 'player_pass_tds', oddsApiAltKey: 'player_pass_tds_alternate',
+    stat: 'passing_tds', opportunityStat: 'attempts',
+    positions: ['QB'], defaultDist: 'poisson',
+    qualifyMin: 20, tierBounds: [1.2, 1.8], ladderStep: 1,
+  },
+  {
+    key: 'interceptions', label: 'Interceptions', league: 'NFL',
+    oddsApiKey: 'player_pass_interceptions', oddsApiAltKey: null,
+    stat: 'interceptions', opportunityStat: 'attempts',
+    positions: ['QB'], defaultDist: 'poisson',
+    qualifyMin: 20, tierBounds: [0.6, 0.9], ladderStep: 1,
+  },
+  {
+    key: 'anytime_td', label: 'Anytime TD', league: 'NFL',
+    oddsApiKey: 'player_anytime_td', oddsApiAltKey: null,
+    stat: 'scrimmage_tds', opportunityStat: 'touches',
+    positions: ['RB', 'WR', 'TE', 'QB'], defaultDist: 'poisson', yesNo: true,
+    qualifyMin: 4, tierBounds: [0.3, 0.6], ladderStep: 1,
+  },
+
+  // NBA — minutes are the opportunity stat (a 20-mpg floor keeps bench
+  // cameos out of the reference). Every market is a count, so normal.
+  {
+    key: 'points', label: 'Points', league: 'NBA',
+    oddsApiKey: 'player_points', oddsApiAltKey: 'player_points_alternate',
+    stat: 'points', opportunityStat: 'minutes',
+    positions: [ALL_POSITIONS], defaultDist: 'normal',
+    qualifyMin: 20, tierBounds: [15, 22], ladderStep: 2.5,
+  },
+  {
+    key: 'rebounds', label: 'Rebounds', league: 'NBA',
+    oddsApiKey: 'player_rebounds', oddsApiAltKey: 'player_rebounds_alternate',
+    stat: 'rebounds', opportunityStat: 'minutes',
+    positions: [ALL_POSITIONS], defaultDist: 'normal',
+    qualifyMin: 20, tierBounds: [5, 8], ladderStep: 1,
+  },
+  {
+    key: 'assists', label: 'Assists', league: 'NBA',
+    oddsApiKey: 'player_assists', oddsApiAltKey: 'player_assists_alternate',
+    stat: 'assists', opportunityStat: 'minutes',
+    positions: [ALL_POSITIONS], defaultDist: 'normal',
+    qualifyMin: 20, tierBounds: [3.5, 6], ladderStep: 1,
+  },
+  {
+    key: 'threes', label: 'Threes Made', league: 'NBA',
+    oddsApiKey: 'player_threes', oddsApiAltKey: 'player_threes_alternate',
+    stat: 'threes', opportunityStat: 'minutes',
+    positions: [ALL_POSITIONS], defaultDist: 'normal',
+    qualifyMin: 20, tierBounds: [1.5, 2.5], ladderStep: 1,
+  },
+  {
+    key: 'pra', label: 'Pts+Reb+Ast', league: 'NBA',
+    oddsApiKey: 'player_points_rebounds_assists', oddsApiAltKey: 'player_points_rebounds_assists_alternate',
+    stat: 'pts_reb_ast', opportunityStat: 'minutes',
+    positions: [ALL_POSITIONS], defaultDist: 'normal',
+    qualifyMin: 20, tierBounds: [25, 35], ladderStep: 2.5,
+  },
+  {
+    key: 'pts_reb', label: 'Pts+Reb', league: 'NBA',
+    oddsApiKey: 'player_points_rebounds', oddsApiAltKey: 'player_points_rebounds_alternate',
+    stat: 'pts_reb', opportunityStat: 'minutes',
+    positions: [ALL_POSITIONS], defaultDist: 'normal',
+    qualifyMin: 20, tierBounds: [20, 28], ladderStep: 2.5,
+  },
+  {
+    key: 'pts_ast', label: 'Pts+Ast', league: 'NBA',
+    oddsApiKey: 'player_points_assists', oddsApiAltKey: 'player_points_assists_alternate',
+    stat: 'pts_ast', opportunityStat: 'minutes',
+    positions: [ALL_POSITIONS], defaultDist: 'normal',
+    qualifyMin: 20, tierBounds: [20, 28], ladderStep: 2.5,
+  },
+  {
+    key: 'reb_ast', label: 'Reb+Ast', league: 'NBA',
+    oddsApiKey: 'player_rebounds_assists', oddsApiAltKey: 'player_rebounds_assists_alternate',
+    stat: 'reb_ast', opportunityStat: 'minutes',
+    positions: [ALL_POSITIONS], defaultDist: 'normal',
+    qualifyMin: 20, tierBounds: [8, 12], ladderStep: 1,
+  },
+  {
+    key: 'steals', label: 'Steals', league: 'NBA',
+    oddsApiKey: 'player_steals', oddsApiAltKey: null,
+    stat: 'steals', opportunityStat: 'minutes',
+    positions: [ALL_POSITIONS], defaultDist: 'normal',
+    qualifyMin: 20, tierBounds: [1, 1.5], ladderStep: 1,
+  },
+  {
+    key: 'blocks', label: 'Blocks', league: 'NBA',
+    oddsApiKey: 'player_blocks', oddsApiAltKey: null,
+    stat: 'blocks', opportunityStat: 'minutes',
+    positions: [ALL_POSITIONS], defaultDist: 'normal',
+    qualifyMin: 20, tierBounds: [0.75, 1.5], ladderStep: 1,
+  },
+  {
+    key: 'turnovers', label: 'Turnovers', league: 'NBA',
+    oddsApiKey: 'player_turnovers', oddsApiAltKey: null,
+    stat: 'turnovers', opportunityStat: 'minutes',
+    positions: [ALL_POSITIONS], defaultDist: 'normal',
+    qualifyMin: 20, tierBounds: [1.5, 2.5], ladderStep: 1,
+  },
 ];
 
+/**
+ * Per-league wiring: which Odds API sports price against which log tables.
+ * avgTeamTotal is a typical team's points per game — the baseline the
+ * matchup projection scales implied team totals against.
+ */
+export const PROP_LEAGUES: Record<PropLeague, {
+  sports: { key: string; label: string }[];
+  api: string;
+  avgTeamTotal: number;
+}> = {
+  NFL: {
+    sports: [
+      { key: 'americanfootball_nfl', label: 'NFL' },
+      { key: 'americanfootball_nfl_preseason', label: 'Preseason' },
+    ],
+    api: '/api/nfl-props',
+    avgTeamTotal: 22.5,
+  },
+  NBA: {
+    sports: [{ key: 'basketball_nba', label: 'NBA' }],
+    api: '/api/nba-props',
+    avgTeamTotal: 114.5,
+  },
+};
+
+// Log-source team codes (nflverse; stats.nba.com / Basketball-Reference)
+// that differ from ESPN abbreviations
+export const TEAM_CODE_ALIASES: Record<PropLeague, Record<string, string>> = {
+  NFL: { LA: 'LAR', WAS: 'WSH', JAC: 'JAX' },
+  NBA: {
+    GSW: 'GS', NYK: 'NY', SAS: 'SA', NOP: 'NO', UTA: 'UTAH', WAS: 'WSH',
+    BRK: 'BKN', PHO: 'PHX', CHO: 'CHA',
+  },
+};
+
+/** A game-log team code as its ESPN abbreviation ("LA" → "LAR", "BRK" → "BKN"). */
+export const espnTeamCode = (league: PropLeague, code: string): string => {
+  const upper = code.trim().toUpperCase();
+  return TEAM_CODE_ALIASES[league][upper] ?? upper;
+};
+
+export const PROP_SPORTS = [...PROP_LEAGUES.NFL.sports, ...PROP_LEAGUES.NBA.sports];
+
+export const leagueForSport = (sportKey: string): PropLeague =>
+  PROP_LEAGUES.NBA.sports.some((s) => s.key === sportKey) ? 'NBA' : 'NFL';
+
+export const propMarketsFor = (league: PropLeague): PropMarketDef[] =>
+  PROP_MARKETS.filter((m) => m.league === league);
+
+/** Market applies to a player at this position (ALL-position markets apply to everyone). */
+export const marketFitsPosition = (def: PropMarketDef, position: string): boolean =>
+  def.positions.includes(ALL_POSITIONS) || def.positions.includes(position);
+
+/** Reference-table position a player prices against for this market. */
+export const referencePosition = (def: PropMarketDef, position: string | undefined): string =>
+  def.positions.includes(ALL_POSITIONS) ? ALL_POSITIONS : position ?? def.positions[0];
+
 export const marketByKey = (key: string): PropMarketDef | undefined =>
   PROP_MARKETS.find((m) => m.key === key);
 
 export const marketByOddsApiKey = (oddsKey: string): PropMarketDef | undefined =>
   PROP_MARKETS.find((m) => m.oddsApiKey === oddsKey || m.oddsApiAltKey === oddsKey);
+
+/**
+ * Normalize an Odds API outcome to an over/under quote. Yes/No markets come
+ * without a point — Yes is the over 0.5, No the under.
+ */
+export function quoteSide(
+  def: PropMarketDef,
+  outcome: { name?: string; point?: number }
+): { side: 'over' | 'under'; point: number } | null {
+  const name = outcome.name?.toLowerCase();
+  if (def.yesNo && (name === 'yes' || name === 'no')) {
+    return { side: name === 'yes' ? 'over' : 'under', point: outcome.point ?? 0.5 };
+  }
+  if ((name !== 'over' && name !== 'under') || typeof outcome.point !== 'number') return null;
+  return { side: name, point: outcome.point };
+}
@@ -0,0 +1,197 @@
+// src/lib/props/nbaLogs.ts
+// Parse an NBA player box-score CSV into game-log rows. There is no free
+// nightly feed like nflverse, so NBA logs come from a file: a stats.nba.com
+// player game log export (nba_api LeagueGameLog / PlayerGameLogs columns) or
+// a Basketball-Reference game-log table. Headers are matched by alias, so
+// either works as downloaded.
+
+import { PlayerGameLog } from './markets';
+import { parseCsv } from './nflverse';
+
+// First alias present in the header wins (matched case-insensitively)
+const COLUMN_ALIASES = {
+  player_id: ['player_id', 'person_id', 'personid', 'player-additional'],
+  player_name: ['player_name', 'player', 'name'],
+  position: ['position', 'pos'],
+  team: ['team_abbreviation', 'team', 'tm'],
+  opponent: ['opponent', 'opp'],
+  matchup: ['matchup'],
+  game_date: ['game_date', 'date'],
+  season: ['season_year', 'season_id', 'season'],
+  season_type: ['season_type'],
+  minutes: ['min', 'minutes', 'mp'],
+  points: ['pts', 'points'],
+  rebounds: ['reb', 'trb', 'rebounds'],
+  assists: ['ast', 'assists'],
+  threes: ['fg3m', '3p', 'threes'],
+  steals: ['stl', 'steals'],
+  blocks: ['blk', 'blocks'],
+  turnovers: ['tov', 'to', 'turnovers'],
+} as const;
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const num = (s: string | undefined): number | null => {
+  if (s === undefined || s.trim() === '') return null;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+};
+
+/** "34:12" → 34.2, "34.5" → 34.5; DNP / blank → null. */
+export function parseMinutes(s: string | undefined): number | null {
+  if (!s) return null;
+  const t = s.trim();
+  const mmss = t.match(/^(\d+):(\d{1,2})$/);
+  if (mmss) return Math.round((Number(mmss[1]) + Number(mmss[2]) / 60) * 10) / 10;
+  return num(t);
+}
+
+/** ISO (2024-10-22), US (10/22/2024) and stats.nba.com (OCT 22, 2024) dates → YYYY-MM-DD. */
+export function parseGameDate(s: string | undefined): string | null {
+  if (!s) return null;
+  const t = s.trim();
+  let y: number, m: number, d: number;
+  const iso = t.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const us = t.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const named = t.match(/^(?:[A-Za-z]{3},\s*)?([A-Za-z]{3})[A-Za-z]*\.?\s+(\d{1,2}),\s*(\d{4})$/);
+  if (iso) [y, m, d] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  else if (us) [y, m, d] = [Number(us[3]), Number(us[1]), Number(us[2])];
+  else if (named) {
+    m = MONTHS.indexOf(named[1].toLowerCase()) + 1;
+    [y, d] = [Number(named[3]), Number(named[2])];
+  } else return null;
+  if (!(m >= 1 && m <= 12 && d >= 1 && d <= 31)) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+/** Start year of the season a game belongs to: Sep–Dec → that year, Jan–Aug → the year before. */
+export function seasonForDate(date: string): number {
+  const [y, m] = date.split('-').map(Number);
+  return m >= 9 ? y : y - 1;
+}
+
+/** Days since Sep 1 of the season's start year — the NBA stand-in for `week`. */
+export function dayOfSeason(date: string, season: number): number {
+  return Math.round((Date.parse(`${date}T00:00:00Z`) - Date.UTC(season, 8, 1)) / 86_400_000);
+}
+
+/** "2024-25" / "22024" (stats.nba.com SEASON_ID) / "2024" → 2024. */
+function parseSeason(s: string | undefined): number | null {
+  const t = s?.trim() ?? '';
+  const range = t.match(/^(\d{4})-\d{2,4}$/);
+  if (range) return Number(range[1]);
+  if (/^\d{5}$/.test(t)) return Number(t.slice(1));
+  if (/^\d{4}$/.test(t)) return Number(t);
+  return null;
+}
+
+/**
+ * Regular season unless the row says otherwise. SEASON_TYPE text ("Playoffs",
+ * "PlayIn") or a stats.nba.com SEASON_ID prefix (4 = playoffs, 5 = play-in)
+ * both count as POST — play-in games are excluded from the reference too.
+ */
+function parseSeasonType(type: string | undefined, seasonId: string | undefined): 'REG' | 'POST' {
+  const t = type?.trim().toLowerCase() ?? '';
+  if (t) return t.startsWith('reg') ? 'REG' : 'POST';
+  const id = seasonId?.trim() ?? '';
+  return /^[45]\d{4}$/.test(id) ? 'POST' : 'REG';
+}
+
+const sum = (...xs: (number | null)[]): number | null =>
+  xs.every((x) => x !== null) ? (xs as number[]).reduce((a, b) => a + b, 0) : null;
+
+// Odds API player names are plain ASCII ("Nikola Jokic"); box scores keep
+// the accents ("Nikola Jokić"). Fold them at parse time so the name search
+// and the pricer's exact-name join line up.
+const foldAccents = (s: string): string => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const slug = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Parse an NBA game-log CSV. Rows without minutes (DNP, inactive) or with an
+ * unparseable date (Basketball-Reference repeats its header mid-table) are
+ * skipped; a player-date appearing twice keeps the last row so one file can
+ * be upserted in a single pass.
+ */
+export function parseNbaGameLogs(csv: string): PlayerGameLog[] {
+  const rows = parseCsv(csv.replace(/^\uFEFF/, ''));
+  if (rows.length < 2) return [];
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  const idx = {} as Record<Column, number>;
+  for (const col of Object.keys(COLUMN_ALIASES) as Column[]) {
+    idx[col] = -1;
+    for (const alias of COLUMN_ALIASES[col]) {
+      const i = header.indexOf(alias);
+      if (i !== -1) { idx[col] = i; break; }
+    }
+  }
+  const required: Column[] = ['player_name', 'team', 'game_date', 'minutes', 'points', 'rebounds', 'assists'];
+  for (const k of required) {
+    if (idx[k] === -1) throw new Error(`NBA CSV missing column: ${COLUMN_ALIASES[k].join(' / ')}`);
+  }
+
+  const cell = (row: string[], col: Column): string | undefined => (idx[col] === -1 ? undefined : row[idx[col]]);
+  const byKey = new Map<string, PlayerGameLog>();
+  for (let r = 1; r < rows.length; r++) {
+    const row = rows[r];
+    const gameDate = parseGameDate(cell(row, 'game_date'));
+    const minutes = parseMinutes(cell(row, 'minutes'));
+    const rawName = cell(row, 'player_name')?.trim();
+    const name = rawName ? foldAccents(rawName) : '';
+    if (!gameDate || !name || !minutes) continue;
+
+    const rawSeason = cell(row, 'season');
+    const season = parseSeason(rawSeason) ?? seasonForDate(gameDate);
+    const matchup = cell(row, 'matchup')?.trim();
+    const opponent = cell(row, 'opponent')?.trim() || (matchup ? matchup.split(/\s+/).pop() : '') || null;
+    const points = num(cell(row, 'points'));
+    const rebounds = num(cell(row, 'rebounds'));
+    const assists = num(cell(row, 'assists'));
+
+    const log: PlayerGameLog = {
+      player_id: cell(row, 'player_id')?.trim() || slug(name),
+      player_name: name,
+      position: cell(row, 'position')?.trim() ?? '',
+      team: cell(row, 'team')?.trim() ?? '',
+      opponent,
+      season,
+      week: dayOfSeason(gameDate, season),
+      season_type: parseSeasonType(cell(row, 'season_type'), rawSeason),
+      game_date: gameDate,
+      completions: null, attempts: null, passing_yards: null, passing_tds: null, interceptions: null,
+      carries: null, rushing_yards: null, rushing_tds: null,
+      receptions: null, targets: null, receiving_yards: null, receiving_tds: null,
+      minutes,
+      points,
+      rebounds,
+      assists,
+      threes: num(cell(row, 'threes')),
+      steals: num(cell(row, 'steals')),
+      blocks: num(cell(row, 'blocks')),
+      turnovers: num(cell(row, 'turnovers')),
+      pts_reb_ast: sum(points, rebounds, assists),
+      pts_reb: sum(points, rebounds),
+      pts_ast: sum(points, assists),
+      reb_ast: sum(rebounds, assists),
+    };
+    byKey.set(`${log.player_id}|${gameDate}`, log);
+  }
+  return Array.from(byKey.values());
+}
+
+// Columns of nba_player_game_logs (sql/nba_props.sql) — the NFL stat fields
+// of PlayerGameLog are always null for NBA rows and have no column there.
+const NBA_TABLE_COLUMNS = [
+  'player_id', 'player_name', 'position', 'team', 'opponent', 'season', 'week', 'season_type', 'game_date',
+  'minutes', 'points', 'rebounds', 'assists', 'threes', 'steals', 'blocks', 'turnovers',
+  'pts_reb_ast', 'pts_reb', 'pts_ast', 'reb_ast',
+] as const;
+
+/** The subset of a parsed row that nba_player_game_logs stores. */
+export function nbaTableRow(log: PlayerGameLog): Partial<PlayerGameLog> {
+  const row: Partial<PlayerGameLog> = {};
+  for (const k of NBA_TABLE_COLUMNS) (row as Record<string, unknown>)[k] = log[k];
+  return row;
+}
@@ -2,12 +2,16 @@
 // Fetch + parse nflverse weekly player stats into game-log rows.
 // Source: github.com/nflverse/nflverse-data release tag `stats_player`,
 // asset `stats_player_week_{season}.csv` (updated nightly in season).
+// Final scores (for team-margin parlay legs) come from nflverse's schedule
+// file, github.com/nflverse/nfldata `data/games.csv`.
 
 import { PlayerGameLog } from './markets';
 
 const ASSET_URL = (season: number) =>
   `https://github.com/nflverse/nflverse-data/releases/download/stats_player/stats_player_week_${season}.csv`;
 
+const SCHEDULE_URL = 'https://raw.githubusercontent.com/nflverse/nfldata/master/data/games.csv';
+
 const KEEP_POSITIONS = new Set(['QB', 'RB', 'WR', 'TE', 'FB']);
 
 /** Minimal CSV parser handling quoted fields (headshot URLs embed commas). */
@@ -130,3 +134,55 @@ export async function fetchSeasonLogs(season: number): Promise<PlayerGameLog[]>
   }
   return parseWeeklyStats(await res.text());
 }
+
+// ---------- schedule / final scores ----------
+
+export interface TeamGameResult {
+  season: number;
+  week: number;
+  season_type: 'REG' | 'POST';
+  gameday: string;       // YYYY-MM-DD, Eastern
+  team: string;          // nflverse code, same as the weekly stats (LA, WAS, …)
+  opponent: string;
+  margin: number;        // team points minus opponent points
+}
+
+/** Parse games.csv into one row per team per finished game (unplayed games skipped). */
+export function parseSchedule(csv: string): TeamGameResult[] {
+  const rows = parseCsv(csv);
+  if (rows.length < 2) return [];
+  const header = rows[0];
+  const col = (name: string) => header.indexOf(name);
+  const idx = {
+    season: col('season'), game_type: col('game_type'), week: col('week'), gameday: col('gameday'),
+    away_team: col('away_team'), away_score: col('away_score'),
+    home_team: col('home_team'), home_score: col('home_score'),
+  };
+  for (const [k, i] of Object.entries(idx)) {
+    if (i === -1) throw new Error(`nflverse schedule missing column: ${k}`);
+  }
+
+  const out: TeamGameResult[] = [];
+  for (let r = 1; r < rows.length; r++) {
+    const row = rows[r];
+    const home = num(row[idx.home_score]);
+    const away = num(row[idx.away_score]);
+    if (home === null || away === null) continue;
+    const base = {
+      season: Number(row[idx.season]),
+      week: Number(row[idx.week]),
+      season_type: (row[idx.game_type] === 'REG' ? 'REG' : 'POST') as 'REG' | 'POST',
+      gameday: row[idx.gameday],
+    };
+    out.push({ ...base, team: row[idx.home_team], opponent: row[idx.away_team], margin: home - away });
+    out.push({ ...base, team: row[idx.away_team], opponent: row[idx.home_team], margin: away - home });
+  }
+  return out;
+}
+
+/** Download the full schedule with final scores (cached a day — scores only change once a week). */
+export async function fetchSchedule(): Promise<TeamGameResult[]> {
+  const res = await fetch(SCHEDULE_URL, { next: { revalidate: 60 * 60 * 24 } });
+  if (!res.ok) throw new Error(`nflverse schedule download failed: HTTP ${res.status}`);
+  return parseSchedule(await res.text());
+}
@@ -0,0 +1,43 @@
+// src/lib/props/predictionService.ts
+// Supabase access for the prop calibration log (sql/prop_predictions.sql).
+// The row shape and the scorecards live in lib/props/calibration.ts;
+// grading runs server-side in lib/props/gradePredictions.ts.
+
+import { supabase } from '../supabase';
+import { PropPrediction, hasStarted } from './calibration';
+import type { PropLeague } from './markets';
+
+const PAGE = 1000;
+
+/**
+ * Upsert on the dedupe key: re-pricing a line the same day refreshes its row.
+ * Lines whose event has tipped are dropped, so a pre-game row's inputs are
+ * never overwritten by an in-game price. Never throws.
+ */
+export async function logPredictions(rows: PropPrediction[], now: Date = new Date()): Promise<void> {
+  const pregame = rows.filter((r) => !hasStarted(r, now));
+  if (!pregame.length) return;
+  try {
+    const { error } = await supabase.from('prop_predictions').upsert(pregame, { onConflict: 'dedupe_key' });
+    if (error) console.error('prop prediction log failed:', error.message);
+  } catch (e) {
+    console.error('prop prediction log failed:', e);
+  }
+}
+
+/** Every logged prediction for a league, oldest first. */
+export async function fetchPredictions(league: PropLeague): Promise<PropPrediction[]> {
+  const out: PropPrediction[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabase
+      .from('prop_predictions')
+      .select('*')
+      .eq('league', league)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(error.message);
+    out.push(...((data ?? []) as PropPrediction[]));
+    if (!data || data.length < PAGE) break;
+  }
+  return out;
+}
@@ -0,0 +1,209 @@
+// src/lib/props/projection.ts
+// Matchup-adjusted projection — the alternative to "projection = measured
+// mean". Starting from the measured mean it layers, in order:
+//   role        recency-weighted opportunities vs his average (snap/target/
+//               minutes share changes show up here first)
+//   form        the rest of the recency-weighted mean (efficiency swings)
+//   opponent    what this defense allows to his position, relative to the
+//               league, shrunk toward average on thin samples
+//   environment the implied team total from the game's spread and total vs
+//               a typical team's points
+// Every step is reported in stat units so the pricer can show its work.
+// Pure functions — no I/O. Tested by scripts/props.test.ts.
+
+import { mean } from './engine';
+import {
+  ALL_POSITIONS, PROP_LEAGUES, PlayerGameLog, PropLeague, PropMarketDef, espnTeamCode, statValue,
+} from './markets';
+import type { MeasuredStats } from './reference';
+
+export type ProjectionMode = 'measured' | 'matchup';
+
+/** Games until a game's weight halves in the recency-weighted means. */
+export const RECENCY_HALF_LIFE = 6;
+
+/** Pseudo-games of league average blended into each defense's allowed rate. */
+export const DEFENSE_SHRINK_GAMES: Record<PropLeague, number> = { NFL: 4, NBA: 15 };
+
+// How hard a stat tracks the team's implied points (1 = proportional). Pass
+// volume barely moves — trailing teams throw more — while scoring stats
+// scale nearly one for one. Unlisted markets sit at the default.
+const DEFAULT_ENV_ELASTICITY = 0.5;
+const ENV_ELASTICITY: Record<string, number> = {
+  pass_attempts: 0, pass_completions: 0.2, interceptions: 0,
+  pass_tds: 1, anytime_td: 1,
+  points: 1, pts_reb: 0.9, pts_ast: 0.9, pra: 0.8, threes: 0.8,
+  steals: 0.3, blocks: 0.3, turnovers: 0.3,
+};
+
+export const envElasticity = (def: PropMarketDef): number => ENV_ELASTICITY[def.key] ?? DEFAULT_ENV_ELASTICITY;
+
+/**
+ * Exponentially recency-weighted mean of a chronological series: the last
+ * value has weight 1, one `halfLife` games earlier weight ½, and so on.
+ */
+export function recencyMean(xs: number[], halfLife = RECENCY_HALF_LIFE): number {
+  if (!xs.length) return NaN;
+  let num = 0;
+  let den = 0;
+  xs.forEach((x, i) => {
+    const w = Math.pow(0.5, (xs.length - 1 - i) / halfLife);
+    num += w * x;
+    den += w;
+  });
+  return num / den;
+}
+
+// ---------- opponent ----------
+
+export interface DefenseFactor {
+  factor: number;      // shrunk allowed rate / league rate (1 = average)
+  allowed: number;     // raw per-game amount allowed to the position
+  games: number;
+}
+
+export interface DefenseTable {
+  leagueAllowed: number;                 // league per-game amount allowed to the position
+  teams: Record<string, DefenseFactor>;  // keyed by ESPN abbreviation
+}
+
+/**
+ * Per-defense allowed rates for one market and position from REG game logs:
+ * each defense-game sums the stat over every opposing player at the position
+ * (all rotation players for ALL-position NBA markets), each defense averages
+ * its games, and the factor is that average over the league's, with
+ * `shrinkGames` games of league average mixed in. Teams are keyed by ESPN
+ * abbreviation so nflverse/Basketball-Reference codes line up with the odds.
+ */
+export function defenseFactors(
+  logs: PlayerGameLog[],
+  def: PropMarketDef,
+  position: string,
+  league: PropLeague,
+  shrinkGames = DEFENSE_SHRINK_GAMES[league]
+): DefenseTable {
+  const perGame = new Map<string, { team: string; total: number }>();
+  for (const g of logs) {
+    if (g.season_type !== 'REG' || !g.opponent) continue;
+    if (position !== ALL_POSITIONS && g.position !== position) continue;
+    const v = statValue(g, def.stat);
+    if (v === null) continue;
+    const team = espnTeamCode(league, g.opponent);
+    const key = `${g.season}|${g.week}|${team}`;
+    const cur = perGame.get(key);
+    if (cur) cur.total += v;
+    else perGame.set(key, { team, total: v });
+  }
+
+  const byTeam = new Map<string, number[]>();
+  for (const { team, total } of Array.from(perGame.values())) {
+    const list = byTeam.get(team) ?? [];
+    list.push(total);
+    byTeam.set(team, list);
+  }
+  const leagueAllowed = perGame.size ? mean(Array.from(perGame.values()).map((x) => x.total)) : 0;
+
+  const teams: Record<string, DefenseFactor> = {};
+  if (leagueAllowed > 0) {
+    for (const [team, totals] of Array.from(byTeam.entries())) {
+      const allowed = mean(totals);
+      const shrunk = (totals.length * allowed + shrinkGames * leagueAllowed) / (totals.length + shrinkGames);
+      teams[team] = { factor: shrunk / leagueAllowed, allowed, games: totals.length };
+    }
+  }
+  return { leagueAllowed, teams };
+}
+
+// ---------- game environment ----------
+
+/** Implied points for one side from the home spread (negative = home favored) and the total. */
+export function impliedTeamTotal(homeSpread: number, total: number, side: 'home' | 'away'): number {
+  return side === 'home' ? (total - homeSpread) / 2 : (total + homeSpread) / 2;
+}
+
+export interface GameSide {
+  side: 'home' | 'away';
+  opponent: string;      // ESPN abbreviation
+}
+
+const teamKey = (s: string): string => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Which side of an Odds API game a player's log team is on, via the ESPN
+ * team map (/api/bet-team-logos): full names resolve to abbreviations, with
+ * the nickname as a fallback ("Los Angeles Clippers" vs ESPN's "LA
+ * Clippers"). Null when his team isn't in the game.
+ */
+export function gameSide(
+  playerTeam: string,
+  game: { home_team: string; away_team: string },
+  teams: Record<string, { abbreviation?: string }>,
+  league: PropLeague
+): GameSide | null {
+  const abbr = (name: string): string | null => {
+    const nickname = name.trim().split(/\s+/).pop() ?? '';
+    return (teams[teamKey(name)] ?? teams[teamKey(nickname)])?.abbreviation?.toUpperCase() ?? null;
+  };
+  const mine = espnTeamCode(league, playerTeam);
+  const home = abbr(game.home_team);
+  const away = abbr(game.away_team);
+  if (home && away && mine === home) return { side: 'home', opponent: away };
+  if (home && away && mine === away) return { side: 'away', opponent: home };
+  return null;
+}
+
+// ---------- projection ----------
+
+export interface MatchupContext {
+  league: PropLeague;
+  defense?: DefenseFactor | null;
+  teamTotal?: number | null;
+  halfLife?: number;
+}
+
+export interface MatchupProjection {
+  base: number;          // measured mean
+  role: number;          // stat units added by the recent opportunity trend
+  form: number;          // rest of the recency-weighted move
+  opponent: number;      // stat units added by the defense factor
+  environment: number;   // stat units added by the implied team total
+  projection: number;
+  defense: DefenseFactor | null;
+  teamTotal: number | null;
+  envFactor: number;
+}
+
+/**
+ * Matchup-adjusted projection from a player's measured sample (the same games
+ * the measured mean uses, so exclusions and season picks carry over). Missing
+ * context just zeroes that step: no event → no environment, no defense row →
+ * no opponent adjustment. Never goes below zero.
+ */
+export function matchupProjection(
+  measured: MeasuredStats,
+  def: PropMarketDef,
+  ctx: MatchupContext
+): MatchupProjection {
+  const halfLife = ctx.halfLife ?? RECENCY_HALF_LIFE;
+  const base = measured.mean;
+  const recent = recencyMean(measured.values, halfLife);
+  const recentOpp = recencyMean(measured.opportunities, halfLife);
+  const role = measured.oppMean > 0 ? base * (recentOpp / measured.oppMean - 1) : 0;
+  const form = recent - base - role;
+
+  const defense = ctx.defense ?? null;
+  const opponent = defense ? recent * (defense.factor - 1) : 0;
+  const afterOpponent = recent + opponent;
+
+  const teamTotal = ctx.teamTotal ?? null;
+  const envFactor = teamTotal !== null
+    ? Math.max(0, 1 + envElasticity(def) * (teamTotal / PROP_LEAGUES[ctx.league].avgTeamTotal - 1))
+    : 1;
+  const environment = afterOpponent * (envFactor - 1);
+
+  return {
+    base, role, form, opponent, environment,
+    projection: Math.max(0, afterOpponent + environment),
+    defense, teamTotal, envFactor,
+  };
+}
@@ -3,8 +3,10 @@
 // per-player measured stats. Multiplier = median of (per-season SD / mean)
 // across qualifying player-seasons — the "0.56 for rushing yards" number.
 
-import { mean, median, stdDev } from './engine';
-import { PROP_MARKETS, PlayerGameLog, PropMarketDef } from './markets';
+import { isCountDist, mean, median, stdDev } from './engine';
+import {
+  ALL_POSITIONS, Distribution, PlayerGameLog, PropLeague, PropMarketDef, propMarketsFor, statValue,
+} from './markets';
 
 export interface TierRef {
   label: string;          // e.g. "< 60", "60–80", "80+"
@@ -36,7 +38,7 @@ interface SeasonAgg {
 function qualifyingSeasons(logs: PlayerGameLog[], def: PropMarketDef, position: string): SeasonAgg[] {
   const byPlayerSeason = new Map<string, PlayerGameLog[]>();
   for (const g of logs) {
-    if (g.position !== position || g.season_type !== 'REG') continue;
+    if ((position !== ALL_POSITIONS && g.position !== position) || g.season_type !== 'REG') continue;
     const k = `${g.player_id}|${g.season}`;
     const arr = byPlayerSeason.get(k);
     if (arr) arr.push(g);
@@ -46,9 +48,9 @@ function qualifyingSeasons(logs: PlayerGameLog[], def: PropMarketDef, position:
   const out: SeasonAgg[] = [];
   for (const games of byPlayerSeason.values()) {
     if (games.length < 8) continue; // needs a real sample
-    const opps = games.map((g) => g[def.opportunityStat] ?? 0);
+    const opps = games.map((g) => statValue(g, def.opportunityStat) ?? 0);
     if (mean(opps) < def.qualifyMin) continue; // needs a real role
-    const stats = games.map((g) => g[def.stat] ?? 0);
+    const stats = games.map((g) => statValue(g, def.stat) ?? 0);
     const m = mean(stats);
     const sd = stdDev(stats);
     if (!(m > 0) || !Number.isFinite(sd)) continue;
@@ -63,11 +65,11 @@ function tierLabel(min: number, max: number | null): string {
   return `${min}–${max}`;
 }
 
-/** Compute the full reference table from raw logs (REG games only). */
-export function computeReference(logs: PlayerGameLog[], seasons: number[]): PropReference {
+/** Compute the full reference table for one league from raw logs (REG games only). */
+export function computeReference(logs: PlayerGameLog[], seasons: number[], league: PropLeague = 'NFL'): PropReference {
   const markets: PropReference['markets'] = {};
 
-  for (const def of PROP_MARKETS) {
+  for (const def of propMarketsFor(league)) {
     markets[def.key] = {};
     for (const pos of def.positions) {
       const aggs = qualifyingSeasons(logs, def, pos);
@@ -111,8 +113,9 @@ export interface MeasuredStats {
   median: number;
   sd: number;
   cv: number;               // sd / mean — compare against the league multiplier
-  oppMean: number;          // per-game opportunities (carries / targets / attempts)
+  oppMean: number;          // per-game opportunities (carries / targets / attempts / minutes)
   values: number[];         // the per-game stat values used (chronological)
+  opportunities: number[];  // matching per-game opportunities
 }
 
 /**
@@ -131,12 +134,13 @@ export function measurePlayer(
   const filtered = games
     .filter((g) => (opts.seasons ? opts.seasons.includes(g.season) : true))
     .filter((g) => (opts.includePost ? true : g.season_type === 'REG'))
-    .filter((g) => (g[def.opportunityStat] ?? 0) >= minOpp)
-    .filter((g) => (opts.excludeZero ? (g[def.stat] ?? 0) > 0 : true))
+    .filter((g) => (statValue(g, def.opportunityStat) ?? 0) >= minOpp)
+    .filter((g) => (opts.excludeZero ? (statValue(g, def.stat) ?? 0) > 0 : true))
     .sort((a, b) => a.season - b.season || a.week - b.week);
 
   if (filtered.length < 2) return null;
-  const values = filtered.map((g) => g[def.stat] ?? 0);
+  const values = filtered.map((g) => statValue(g, def.stat) ?? 0);
+  const opportunities = filtered.map((g) => statValue(g, def.opportunityStat) ?? 0);
   const m = mean(values);
   const sd = stdDev(values);
   return {
@@ -145,7 +149,34 @@ export function measurePlayer(
     median: median(values),
     sd,
     cv: m > 0 ? sd / m : NaN,
-    oppMean: mean(filtered.map((g) => g[def.opportunityStat] ?? 0)),
+    oppMean: mean(opportunities),
     values,
+    opportunities,
   };
 }
+
+/**
+ * Shape-aware default curve (the pricer's and the table's "Auto"). Needs 8+
+ * games to trust the read; otherwise the market default.
+ * - Continuous markets: mean meaningfully above median (>5%) = boom/bust →
+ *   lognormal; steady or dud-dragged → normal.
+ * - Count markets: variance meaningfully above the mean (>15%) = the rate
+ *   itself swings game to game → negative binomial; otherwise Poisson.
+ */
+export function autoDistribution(
+  measured: MeasuredStats | null,
+  def: PropMarketDef
+): { dist: Distribution; basis: 'shape' | 'default' } {
+  if (isCountDist(def.defaultDist)) {
+    if (measured && measured.games >= 8 && measured.mean > 0) {
+      const dispersion = (measured.sd * measured.sd) / measured.mean;
+      return { dist: dispersion > 1.15 ? 'negbin' : 'poisson', basis: 'shape' };
+    }
+    return { dist: def.defaultDist, basis: 'default' };
+  }
+  if (measured && measured.games >= 8 && measured.median > 0) {
+    const rel = (measured.mean - measured.median) / measured.median;
+    return { dist: rel > 0.05 ? 'lognormal' : 'normal', basis: 'shape' };
+  }
+  return { dist: def.defaultDist, basis: 'default' };
+}
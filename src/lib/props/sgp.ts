@@ -0,0 +1,258 @@
+// src/lib/props/sgp.ts
+// Same-game parlay pricing with correlated legs. Each leg keeps its own
+// marginal from the prop engine (projection / SD / curve → P(hit)); the legs
+// are tied together by a Gaussian copula whose correlations are measured from
+// shared games in the logs — QB passing yards with his WR1's receiving yards,
+// an RB's carries with the team's final margin. Simulation draws correlated
+// uniforms once, so re-pricing a leg at another line (the anchor ladder)
+// reuses the same draws.
+// Pure functions — no I/O. Tested by scripts/props.test.ts.
+
+import { mean, normCdf, probOver, probToAmerican, probUnder } from './engine';
+import { Distribution, PlayerGameLog, PropMarketDef, statValue } from './markets';
+import type { TeamGameResult } from './nflverse';
+
+/** Pseudo-games of zero correlation blended into each measured pair. */
+export const CORR_SHRINK_GAMES = 8;
+/** Fewer shared games than this → treated as independent. */
+export const MIN_SHARED_GAMES = 5;
+/** Correlations are capped here so the matrix stays invertible. */
+const MAX_RHO = 0.95;
+/** NFL final-margin SD — the default volatility for a team-margin leg. */
+export const NFL_MARGIN_SD = 13.5;
+
+export interface SgpLeg {
+  id: string;
+  label: string;                   // e.g. "Josh Allen Pass Yds o 264.5"
+  side: 'over' | 'under';
+  line: number;
+  mean: number;
+  sd: number;
+  dist: Distribution;
+  series: Record<string, number>;  // per-game values keyed by sgpGameKey
+}
+
+/** Same key for both teams' rows of one game. */
+export const sgpGameKey = (season: number, week: number, team: string, opponent: string): string =>
+  `${season}|${week}|${[team, opponent].sort().join('-')}`;
+
+/** A player's per-game stat for one market (games without an opponent can't be matched). */
+export function legSeries(logs: PlayerGameLog[], def: PropMarketDef): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const g of logs) {
+    const v = statValue(g, def.stat);
+    if (v === null || !g.opponent) continue;
+    out[sgpGameKey(g.season, g.week, g.team, g.opponent)] = v;
+  }
+  return out;
+}
+
+/** A team's final margin per game. */
+export function marginSeries(results: TeamGameResult[]): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const r of results) out[sgpGameKey(r.season, r.week, r.team, r.opponent)] = r.margin;
+  return out;
+}
+
+/** Pearson correlation; NaN when either side has no spread. */
+export function pearson(xs: number[], ys: number[]): number {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return NaN;
+  const mx = mean(xs.slice(0, n));
+  const my = mean(ys.slice(0, n));
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - mx;
+    const dy = ys[i] - my;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : NaN;
+}
+
+export interface PairCorrelation {
+  rho: number;   // shrunk, capped — what the simulation uses
+  raw: number;   // measured over the shared games (NaN when too few)
+  n: number;     // shared games
+}
+
+/**
+ * Correlation of two legs over the games both appear in, shrunk toward zero
+ * by CORR_SHRINK_GAMES (a 6-game sample shouldn't carry a 0.8 at face value).
+ * Always between the raw stats — which side each leg takes is applied when
+ * the draws are cut (jointHitRate).
+ */
+export function pairCorrelation(
+  a: Record<string, number>,
+  b: Record<string, number>,
+  shrinkGames = CORR_SHRINK_GAMES
+): PairCorrelation {
+  const keys = Object.keys(a).filter((k) => k in b);
+  const n = keys.length;
+  if (n < MIN_SHARED_GAMES) return { rho: 0, raw: NaN, n };
+  const raw = pearson(keys.map((k) => a[k]), keys.map((k) => b[k]));
+  if (Number.isNaN(raw)) return { rho: 0, raw, n };
+  const shrunk = (raw * n) / (n + shrinkGames);
+  return { rho: Math.max(-MAX_RHO, Math.min(MAX_RHO, shrunk)), raw, n };
+}
+
+/** Lower-triangular L with L·Lᵀ = m, or null when m isn't positive definite. */
+export function cholesky(m: number[][]): number[][] | null {
+  const n = m.length;
+  const L = m.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = m[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (sum <= 1e-10) return null;
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  return L;
+}
+
+/**
+ * Pairwise estimates needn't form a valid correlation matrix together
+ * (A~B and B~C strong, A~C measured on other games). Scale the
+ * off-diagonals down until Cholesky succeeds; `scale` reports how much.
+ */
+export function validCorrelation(m: number[][]): { L: number[][]; scale: number } {
+  for (let scale = 1; scale > 0; scale = Math.round((scale - 0.05) * 100) / 100) {
+    const scaled = m.map((row, i) => row.map((v, j) => (i === j ? 1 : v * scale)));
+    const L = cholesky(scaled);
+    if (L) return { L, scale };
+  }
+  return { L: m.map((row, i) => row.map((_, j) => (i === j ? 1 : 0))), scale: 0 };
+}
+
+/** Seeded PRNG (mulberry32) so a parlay prices the same on every render. */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** n draws of correlated uniforms per leg: u[leg][draw]. */
+export function simulateUniforms(L: number[][], n: number, seed = 1): Float64Array[] {
+  const k = L.length;
+  const rand = seededRandom(seed);
+  const out = Array.from({ length: k }, () => new Float64Array(n));
+  const z = new Array<number>(k);
+  for (let d = 0; d < n; d++) {
+    for (let i = 0; i < k; i += 2) {
+      // Box–Muller: two independent normals per pair of uniforms
+      const r = Math.sqrt(-2 * Math.log(1 - rand()));
+      const theta = 2 * Math.PI * rand();
+      z[i] = r * Math.cos(theta);
+      if (i + 1 < k) z[i + 1] = r * Math.sin(theta);
+    }
+    for (let i = 0; i < k; i++) {
+      let x = 0;
+      for (let j = 0; j <= i; j++) x += L[i][j] * z[j];
+      out[i][d] = normCdf(x);
+    }
+  }
+  return out;
+}
+
+/** Leg's standalone hit probability from its own curve (a push on a whole-number line isn't a hit). */
+export function legProbability(leg: Pick<SgpLeg, 'side' | 'line' | 'mean' | 'sd' | 'dist'>): number {
+  return leg.side === 'over'
+    ? probOver(leg.mean, leg.sd, leg.line, leg.dist)
+    : probUnder(leg.mean, leg.sd, leg.line, leg.dist);
+}
+
+// A leg's two tails off its curve, for cutting the draws
+const legTails = (l: Pick<SgpLeg, 'side' | 'line' | 'mean' | 'sd' | 'dist'>) => ({
+  side: l.side,
+  pOver: probOver(l.mean, l.sd, l.line, l.dist),
+  pUnder: probUnder(l.mean, l.sd, l.line, l.dist),
+});
+
+/**
+ * Share of draws where every leg hits. A leg hits when its uniform lands in
+ * its own tail: over ⇔ u > 1 − P(over), under ⇔ u ≤ P(under) — the same as
+ * drawing the stat from the leg's curve and comparing to the line, for
+ * continuous and count curves alike. On a count curve's whole-number line
+ * the band between is the push, which hits neither side; pUnder defaults to
+ * 1 − P(over) (no push).
+ */
+export function jointHitRate(
+  uniforms: Float64Array[],
+  legs: { side: 'over' | 'under'; pOver: number; pUnder?: number }[]
+): number {
+  const n = uniforms[0]?.length ?? 0;
+  if (!n) return NaN;
+  let hits = 0;
+  for (let d = 0; d < n; d++) {
+    let all = true;
+    for (let i = 0; i < legs.length && all; i++) {
+      const { side, pOver, pUnder = 1 - pOver } = legs[i];
+      all = side === 'over' ? uniforms[i][d] > 1 - pOver : uniforms[i][d] <= pUnder;
+    }
+    if (all) hits++;
+  }
+  return hits / n;
+}
+
+export interface SgpPrice {
+  legProbs: number[];
+  independent: number;        // product of the legs — no correlation
+  joint: number;              // simulated with correlation
+  fair: number;               // fair American price of the joint
+  lift: number;               // joint / independent
+  correlations: PairCorrelation[][];
+  scale: number;              // off-diagonal shrink needed for a valid matrix (1 = none)
+  uniforms: Float64Array[];   // kept for re-pricing legs at other lines
+}
+
+export const DEFAULT_SIMS = 50_000;
+
+/** Price a same-game parlay: per-leg curves, measured correlations, simulated joint. Needs 2+ legs. */
+export function priceSgp(legs: SgpLeg[], sims = DEFAULT_SIMS, seed = 1): SgpPrice | null {
+  if (legs.length < 2) return null;
+  const correlations = legs.map((a, i) => legs.map((b, j) =>
+    i === j ? { rho: 1, raw: 1, n: Object.keys(a.series).length } : pairCorrelation(a.series, b.series)));
+  const matrix = correlations.map((row) => row.map((c) => c.rho));
+  const { L, scale } = validCorrelation(matrix);
+  const uniforms = simulateUniforms(L, sims, seed);
+  const legProbs = legs.map(legProbability);
+  const joint = jointHitRate(uniforms, legs.map(legTails));
+  const independent = legProbs.reduce((a, b) => a * b, 1);
+  return {
+    legProbs,
+    independent,
+    joint,
+    fair: probToAmerican(joint),
+    lift: independent > 0 ? joint / independent : NaN,
+    correlations,
+    scale,
+    uniforms,
+  };
+}
+
+export interface SgpLadderRung {
+  line: number;
+  legProb: number;
+  joint: number;
+  fair: number;
+}
+
+/** Re-price the parlay with one leg moved across a ladder of lines (same draws). */
+export function sgpLadder(price: SgpPrice, legs: SgpLeg[], legIndex: number, lines: number[]): SgpLadderRung[] {
+  return lines.map((line) => {
+    const moved = legs.map((l, i) => (i === legIndex ? { ...l, line } : l));
+    const joint = jointHitRate(price.uniforms, moved.map(legTails));
+    return { line, legProb: legProbability(moved[legIndex]), joint, fair: probToAmerican(joint) };
+  });
+}
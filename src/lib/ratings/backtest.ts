@@ -0,0 +1,239 @@
+// src/lib/ratings/backtest.ts
+
+/**
+ * Walk-forward backtest for the market-feedback ratings.
+ *
+ * Replays a season's stored games from the initial (KenPom) ratings with a
+ * given HCA and adjustment fraction, projecting each game from the ratings as
+ * they stood before it — so every projection is out of sample — then scores
+ * the projections:
+ * - MAE and bias against the closing spread (what the ratings chase)
+ * - ATS against the opener (bet the model's side of the opening number)
+ * - Calibration by projected spread bucket (projected vs closing vs actual margin)
+ *
+ * Pure functions — no I/O. Tested by scripts/backtest.test.ts.
+ */
+
+import { ClosingLineSource, TeamRating } from './types';
+import { DEFAULT_ADJUSTMENT_FRACTION, DEFAULT_RATINGS_CONFIG } from './constants';
+import { applyAdjustment, calculateAdjustment, projectSpread } from './engine';
+
+// ============================================
+// Types
+// ============================================
+
+export interface BacktestGame {
+  id: string;
+  date: string;                  // ISO
+  homeTeam: string;              // ratings key (KenPom name)
+  awayTeam: string;
+  isNeutralSite: boolean;
+  closingSpread: number;         // home perspective, negative = home favored
+  closingSource: ClosingLineSource;
+  openingSpread: number | null;
+  homeScore: number | null;
+  awayScore: number | null;
+}
+
+export interface BacktestParams {
+  hca: number;
+  adjustmentFraction: number;
+}
+
+export interface BacktestOptions {
+  evaluateFrom?: string;         // YYYY-MM-DD; earlier games still move ratings but aren't scored
+}
+
+export interface AtsRecord {
+  wins: number;
+  losses: number;
+  pushes: number;
+  winPct: number | null;         // wins / (wins + losses)
+}
+
+export interface CalibrationBucket {
+  label: string;
+  min: number;                   // |projected spread| lower bound (inclusive)
+  max: number;                   // upper bound (exclusive)
+  games: number;
+  // Margins from the projected favorite's side
+  meanProjected: number | null;
+  meanClosing: number | null;
+  meanActual: number | null;     // games with a final score
+  maeClosing: number | null;
+  maeActual: number | null;
+}
+
+export interface BacktestReport {
+  params: BacktestParams;
+  gamesScored: number;
+  gamesSkipped: number;          // a team missing from the initial ratings
+  maeClosing: number | null;
+  biasClosing: number | null;    // mean (projected - closing); negative = model leans home
+  maeActual: number | null;
+  ats: AtsRecord;                // every game with an opener and a score
+  atsByEdge: { minEdge: number; record: AtsRecord }[];
+  calibration: CalibrationBucket[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const ATS_EDGE_THRESHOLDS = [1, 2, 3, 5];
+
+export const CALIBRATION_BUCKETS: { min: number; max: number }[] = [
+  { min: 0, max: 3 },
+  { min: 3, max: 6 },
+  { min: 6, max: 10 },
+  { min: 10, max: 15 },
+  { min: 15, max: Infinity },
+];
+
+export const DEFAULT_SWEEP = {
+  hca: [2, 2.5, 3, 3.5],
+  adjustmentFraction: [0.2, 0.3, 0.4, 0.5],
+};
+
+// ============================================
+// Replay
+// ============================================
+
+// One scored game: the pre-game projection alongside the market and result
+interface ScoredGame {
+  projected: number;
+  closing: number;
+  opening: number | null;
+  margin: number | null;         // home - away
+}
+
+const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : null);
+const round = (x: number | null, d = 2) => (x === null ? null : Math.round(x * 10 ** d) / 10 ** d);
+
+function atsRecord(games: ScoredGame[], minEdge: number): AtsRecord {
+  let wins = 0;
+  let losses = 0;
+  let pushes = 0;
+  for (const g of games) {
+    if (g.opening === null || g.margin === null) continue;
+    // Positive edge: the model has home better than the opener does
+    const edge = g.opening - g.projected;
+    if (edge === 0 || Math.abs(edge) < minEdge) continue;
+    const cover = g.margin + g.opening;      // > 0: home covered the opener
+    if (cover === 0) pushes++;
+    else if ((cover > 0) === (edge > 0)) wins++;
+    else losses++;
+  }
+  const decided = wins + losses;
+  return { wins, losses, pushes, winPct: decided ? round((wins / decided) * 100, 1) : null };
+}
+
+function calibration(games: ScoredGame[]): CalibrationBucket[] {
+  return CALIBRATION_BUCKETS.map(({ min, max }) => {
+    const inBucket = games.filter((g) => Math.abs(g.projected) >= min && Math.abs(g.projected) < max);
+    // Orient every margin so the projected favorite is positive (home on a pick'em)
+    const side = (g: ScoredGame) => (g.projected <= 0 ? 1 : -1);
+    const projected = inBucket.map((g) => -g.projected * side(g));
+    const closing = inBucket.map((g) => -g.closing * side(g));
+    const withScore = inBucket.filter((g) => g.margin !== null);
+    const actual = withScore.map((g) => g.margin! * side(g));
+    return {
+      label: max === Infinity ? `${min}+` : `${min}–${max}`,
+      min,
+      max,
+      games: inBucket.length,
+      meanProjected: round(mean(projected)),
+      meanClosing: round(mean(closing)),
+      meanActual: round(mean(actual)),
+      maeClosing: round(mean(inBucket.map((g) => Math.abs(g.projected - g.closing)))),
+      maeActual: round(mean(withScore.map((g) => Math.abs(g.projected + g.margin!)))),
+    };
+  });
+}
+
+/**
+ * Replay `games` in date order from `initialRatings` (team → starting rating)
+ * and score each pre-game projection. The input map is not modified.
+ */
+export function runBacktest(
+  games: BacktestGame[],
+  initialRatings: Map<string, number>,
+  params: BacktestParams,
+  options: BacktestOptions = {},
+): BacktestReport {
+  const ratings = new Map<string, TeamRating>();
+  for (const [team, rating] of initialRatings) {
+    ratings.set(team, {
+      teamName: team,
+      kenpomName: team,
+      rating,
+      initialRating: rating,
+      gamesProcessed: 0,
+      lastUpdated: '',
+    });
+  }
+
+  const sorted = [...games].sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  const scored: ScoredGame[] = [];
+  let skipped = 0;
+
+  for (const game of sorted) {
+    const home = ratings.get(game.homeTeam);
+    const away = ratings.get(game.awayTeam);
+    if (!home || !away) {
+      skipped++;
+      continue;
+    }
+
+    const projected = projectSpread(home.rating, away.rating, params.hca, game.isNeutralSite);
+    if (!options.evaluateFrom || game.date.slice(0, 10) >= options.evaluateFrom) {
+      scored.push({
+        projected,
+        closing: game.closingSpread,
+        opening: game.openingSpread,
+        margin: game.homeScore !== null && game.awayScore !== null ? game.homeScore - game.awayScore : null,
+      });
+    }
+
+    const adjustment = calculateAdjustment(projected, game.closingSpread, params.adjustmentFraction);
+    applyAdjustment(ratings, game.homeTeam, game.awayTeam, adjustment);
+  }
+
+  const withScore = scored.filter((g) => g.margin !== null);
+  return {
+    params,
+    gamesScored: scored.length,
+    gamesSkipped: skipped,
+    maeClosing: round(mean(scored.map((g) => Math.abs(g.projected - g.closing)))),
+    biasClosing: round(mean(scored.map((g) => g.projected - g.closing))),
+    maeActual: round(mean(withScore.map((g) => Math.abs(g.projected + g.margin!)))),
+    ats: atsRecord(scored, 0),
+    atsByEdge: ATS_EDGE_THRESHOLDS.map((minEdge) => ({ minEdge, record: atsRecord(scored, minEdge) })),
+    calibration: calibration(scored),
+  };
+}
+
+/**
+ * Run the backtest over every (hca, adjustmentFraction) pair, best MAE
+ * against the close first.
+ */
+export function sweepBacktest(
+  games: BacktestGame[],
+  initialRatings: Map<string, number>,
+  grid: { hca: number[]; adjustmentFraction: number[] } = DEFAULT_SWEEP,
+  options: BacktestOptions = {},
+): BacktestReport[] {
+  const reports: BacktestReport[] = [];
+  for (const hca of grid.hca) {
+    for (const adjustmentFraction of grid.adjustmentFraction) {
+      reports.push(runBacktest(games, initialRatings, { hca, adjustmentFraction }, options));
+    }
+  }
+  return reports.sort((a, b) => (a.maeClosing ?? Infinity) - (b.maeClosing ?? Infinity));
+}
+
+/** The live engine's parameters, for comparing a sweep against production. */
+export const CURRENT_BACKTEST_PARAMS: BacktestParams = {
+  hca: DEFAULT_RATINGS_CONFIG.hca,
+  adjustmentFraction: DEFAULT_RATINGS_CONFIG.adjustmentFraction ?? DEFAULT_ADJUSTMENT_FRACTION,
+};
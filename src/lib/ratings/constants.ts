@@ -10,12 +10,17 @@ import { RatingsConfig, ClosingLineSource } from './types';
 // Default Configuration
 // ============================================
 
+// Each team moves this share of (closing - projected) after a game; 0.5
+// closes the gap entirely. Tune with the backtest (npm run backtest:ratings).
+export const DEFAULT_ADJUSTMENT_FRACTION = 0.5;
+
 export const DEFAULT_RATINGS_CONFIG: RatingsConfig = {
   hca: 2.5,                          // Home court advantage in points
   closingSource: 'us_average',       // Average of US books (DK, FD, BetMGM, BetRivers)
   closingTimeMinutes: 5,             // Pull closing line 5 min before tip
   season: 2026,                      // 2025-26 season
   previousSeason: 2025,              // 2024-25 season for initial ratings
+  adjustmentFraction: DEFAULT_ADJUSTMENT_FRACTION,
 };
 
 // ============================================
@@ -45,7 +50,7 @@ export const US_AVERAGE_BOOKMAKER_KEYS = US_AVERAGE_BOOKMAKERS.map(b => b.key);
 
 export const KENPOM_API_BASE_URL = 'https://kenpom.com/api.php';
 
-export const ODDS_API_BASE_URL = 'https://api.the-odds-api.com/v4';
+// Odds API access goes through getOddsProvider() in lib/odds
 
 export const NCAAB_SPORT_KEY = 'basketball_ncaab';
 
@@ -135,6 +140,13 @@ export const CLOSING_LINE_SOURCES: { value: ClosingLineSource; label: string; de
   },
 ];
 
+// ============================================
+// Win Probability
+// ============================================
+
+// Slope of the bracket's win-probability curve: P(win) = 1 / (1 + e^(−k × margin))
+export const WIN_PROB_LOGIT_PER_POINT = 0.17;
+
 // ============================================
 // Display Configuration
 // ============================================
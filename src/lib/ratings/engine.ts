@@ -20,8 +20,9 @@ import {
   KenPomRating,
   OddsAPIGame,
 } from './types';
-import { DEFAULT_RATINGS_CONFIG, RATINGS_DECIMAL_PLACES, SPREAD_DECIMAL_PLACES } from './constants';
+import { DEFAULT_ADJUSTMENT_FRACTION, DEFAULT_RATINGS_CONFIG, RATINGS_DECIMAL_PLACES, SPREAD_DECIMAL_PLACES } from './constants';
 import { findTeamByName } from './team-mapping';
+import { seedTotals } from './totals';
 
 // ============================================
 // Rating Initialization
@@ -46,6 +47,7 @@ export function initializeRatings(
       lastUpdated: now,
       conference: kp.ConfShort,
     };
+    seedTotals(rating, kp);
     
     ratings.set(kp.TeamName, rating);
   }
@@ -131,17 +133,19 @@ export function getProjection(
  * 
  * @param projectedSpread - Model's projected spread (home perspective)
  * @param closingSpread - Market closing spread (home perspective)
- * @returns Adjustment amount (half the difference)
+ * @param fraction - Share of the difference each team moves (default half)
+ * @returns Adjustment amount
  */
 export function calculateAdjustment(
   projectedSpread: number,
-  closingSpread: number
+  closingSpread: number,
+  fraction: number = DEFAULT_ADJUSTMENT_FRACTION
 ): number {
   // Difference = Closing - Projected
   // If closing is more favorable to home than projected, home gets positive adjustment
-  // Adjustment is split evenly between the two teams
+  // Each team moves by the same amount; at 0.5 the gap closes completely
   const difference = closingSpread - projectedSpread;
-  const adjustment = difference / 2;
+  const adjustment = difference * fraction;
   
   return roundToDecimal(adjustment, RATINGS_DECIMAL_PLACES);
 }
@@ -237,7 +241,7 @@ export function processGame(
   
   // Calculate adjustment
   const difference = game.closingSpread - projectedSpread;
-  const adjustment = calculateAdjustment(projectedSpread, game.closingSpread);
+  const adjustment = calculateAdjustment(projectedSpread, game.closingSpread, config.adjustmentFraction);
   
   // Store before values
   const homeRatingBefore = homeRating.rating;
@@ -37,5 +37,50 @@ export {
   formatRating,
 } from './engine';
 
+// Totals model (pace / efficiency)
+export {
+  hasTotals,
+  seedTotals,
+  resetTotals,
+  totalsBaseline,
+  projectTotal,
+  calculateTotalAdjustment,
+  applyTotalsGame,
+  extractClosingTotal,
+} from './totals';
+export type { TotalsBaseline, TotalProjection, TotalsAdjustment } from './totals';
+
+// Walk-forward backtest
+export {
+  runBacktest,
+  sweepBacktest,
+  ATS_EDGE_THRESHOLDS,
+  CALIBRATION_BUCKETS,
+  DEFAULT_SWEEP,
+  CURRENT_BACKTEST_PARAMS,
+} from './backtest';
+export type {
+  BacktestGame,
+  BacktestParams,
+  BacktestOptions,
+  BacktestReport,
+  AtsRecord,
+  CalibrationBucket,
+} from './backtest';
+
+// Multi-sport market ratings (lacrosse, NBA, NHL, NFL, NCAAF)
+export {
+  inverseNormCdf,
+  spreadFromWinProb,
+  extractClosingMargin,
+  flatSeedRating,
+  applyMarketGame,
+  replayAdjustments,
+  seasonWindow,
+} from './market';
+export { SPORT_RATINGS, getSportRatingsConfig } from './sports';
+
 // Supabase persistence
 export * from './supabase';
+export { createRatingsStore } from './store';
+export type { RatingsStore, RatingsStats, SeedTeam, DBSportRatingsConfig } from './store';
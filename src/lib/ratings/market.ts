@@ -0,0 +1,192 @@
+// src/lib/ratings/market.ts
+
+/**
+ * Sport-Agnostic Market Ratings
+ *
+ * The closing-line adjustment model from engine.ts applied to any sport in
+ * SPORT_RATINGS: read a closing margin off an Odds API snapshot (spread, or
+ * a devigged moneyline for hockey), project the game from current ratings,
+ * and move both teams toward the market.
+ *
+ * Pure functions — no I/O. Tested by scripts/marketRatings.test.ts.
+ */
+
+import {
+  ClosingLineSource,
+  GameAdjustment,
+  OddsAPIGame,
+  SportRatingsConfig,
+  SportTeamRating,
+} from './types';
+import { RATINGS_DECIMAL_PLACES, SPREAD_DECIMAL_PLACES, US_AVERAGE_BOOKMAKER_KEYS } from './constants';
+import { calculateAdjustment, projectSpread } from './engine';
+import { normCdf } from '../props/engine';
+import { americanToDecimal } from '../arbs';
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// ============================================
+// Closing Margin
+// ============================================
+
+/** Inverse standard normal CDF, by bisection on normCdf. */
+export function inverseNormCdf(p: number): number {
+  if (!(p > 0 && p < 1)) return p <= 0 ? -Infinity : Infinity;
+  let lo = -10;
+  let hi = 10;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (normCdf(mid) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Home spread (negative = home favored) implied by a home win probability,
+ * treating the final margin as normal with SD `marginSd`.
+ */
+export function spreadFromWinProb(pHome: number, marginSd: number): number {
+  return -marginSd * inverseNormCdf(pHome);
+}
+
+// Home spread from one bookmaker, or null when it doesn't price the market
+function bookSpread(game: OddsAPIGame, bookKey: string, config: SportRatingsConfig): number | null {
+  const bookmaker = game.bookmakers?.find(b => b.key === bookKey);
+  const market = bookmaker?.markets.find(m => m.key === config.closingMarket);
+  if (!market) return null;
+
+  const home = market.outcomes.find(o => o.name === game.home_team);
+  if (config.closingMarket === 'spreads') return home?.point ?? null;
+
+  const away = market.outcomes.find(o => o.name === game.away_team);
+  if (!home || !away || !config.marginSd) return null;
+  const impliedHome = 1 / americanToDecimal(home.price);
+  const impliedAway = 1 / americanToDecimal(away.price);
+  return spreadFromWinProb(impliedHome / (impliedHome + impliedAway), config.marginSd);
+}
+
+/**
+ * Closing home spread for an Odds API game in the sport's closing market.
+ * Pinnacle falls back to the US-book average when Pinnacle has no price.
+ */
+export function extractClosingMargin(
+  game: OddsAPIGame,
+  config: SportRatingsConfig,
+  source: ClosingLineSource = config.closingSource,
+  usBookmakerKeys: string[] = US_AVERAGE_BOOKMAKER_KEYS
+): { spread: number | null; bookmakers: string[] } {
+  if (source === 'pinnacle') {
+    const spread = bookSpread(game, 'pinnacle', config);
+    if (spread !== null) return { spread: round(spread, SPREAD_DECIMAL_PLACES), bookmakers: ['pinnacle'] };
+  }
+
+  const spreads: number[] = [];
+  const bookmakers: string[] = [];
+  for (const key of usBookmakerKeys) {
+    const spread = bookSpread(game, key, config);
+    if (spread === null) continue;
+    spreads.push(spread);
+    bookmakers.push(game.bookmakers.find(b => b.key === key)?.title || key);
+  }
+  if (spreads.length === 0) return { spread: null, bookmakers: [] };
+
+  const average = spreads.reduce((a, b) => a + b, 0) / spreads.length;
+  return { spread: round(average, SPREAD_DECIMAL_PLACES), bookmakers };
+}
+
+// ============================================
+// Rating Updates
+// ============================================
+
+/** A team at a flat seed: 0 before its first game. */
+export function flatSeedRating(teamName: string): SportTeamRating {
+  return {
+    teamName,
+    seedName: teamName,
+    rating: 0,
+    initialRating: 0,
+    gamesProcessed: 0,
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Project one game from current ratings, move both teams toward the closing
+ * spread, and return the adjustment record. Mutates the two ratings.
+ */
+export function applyMarketGame(
+  home: SportTeamRating,
+  away: SportTeamRating,
+  game: { id: string; date: string; isNeutralSite: boolean },
+  closingSpread: number,
+  params: { hca: number; adjustmentFraction: number; closingSource: ClosingLineSource }
+): GameAdjustment {
+  const homeRatingBefore = home.rating;
+  const awayRatingBefore = away.rating;
+  const projectedSpread = projectSpread(home.rating, away.rating, params.hca, game.isNeutralSite);
+  const adjustment = calculateAdjustment(projectedSpread, closingSpread, params.adjustmentFraction);
+
+  // Positive adjustment: the market likes away more than we did
+  const now = new Date().toISOString();
+  away.rating = round(away.rating + adjustment, RATINGS_DECIMAL_PLACES);
+  home.rating = round(home.rating - adjustment, RATINGS_DECIMAL_PLACES);
+  for (const team of [home, away]) {
+    team.gamesProcessed += 1;
+    team.lastUpdated = now;
+  }
+
+  return {
+    gameId: game.id,
+    date: game.date,
+    homeTeam: home.teamName,
+    awayTeam: away.teamName,
+    isNeutralSite: game.isNeutralSite,
+    homeRatingBefore,
+    awayRatingBefore,
+    projectedSpread,
+    closingSpread,
+    closingSource: params.closingSource,
+    difference: round(closingSpread - projectedSpread, RATINGS_DECIMAL_PLACES),
+    adjustment,
+    homeRatingAfter: home.rating,
+    awayRatingAfter: away.rating,
+  };
+}
+
+/**
+ * Reset every rating to its initial value and replay stored adjustments in
+ * order with the given HCA and fraction. Returns the rewritten records;
+ * games whose teams are no longer rated are dropped.
+ */
+export function replayAdjustments(
+  ratings: Map<string, SportTeamRating>,
+  adjustments: GameAdjustment[],
+  params: { hca: number; adjustmentFraction: number }
+): GameAdjustment[] {
+  for (const rating of ratings.values()) {
+    rating.rating = rating.initialRating;
+    rating.gamesProcessed = 0;
+  }
+
+  const replayed: GameAdjustment[] = [];
+  for (const adj of adjustments) {
+    const home = ratings.get(adj.homeTeam);
+    const away = ratings.get(adj.awayTeam);
+    if (!home || !away) continue;
+    replayed.push(applyMarketGame(home, away, { id: adj.gameId, date: adj.date, isNeutralSite: adj.isNeutralSite }, adj.closingSpread, {
+      ...params,
+      closingSource: adj.closingSource,
+    }));
+  }
+  return replayed;
+}
+
+// ============================================
+// Config Helpers
+// ============================================
+
+/** Season dates for a sport, or null for a season it has no window for. */
+export function seasonWindow(config: SportRatingsConfig, season: number): { start: string; end: string } | null {
+  return config.seasonDates[season] ?? null;
+}
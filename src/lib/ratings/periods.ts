@@ -0,0 +1,289 @@
+// src/lib/ratings/periods.ts
+
+/**
+ * Period Projections
+ *
+ * First-half and first-quarter spreads and totals from the full-game line.
+ * KenPom fanmatch predictions paired with its box scores (four 10-minute
+ * quarters) show what share of the projected margin and total lands in each
+ * period. The margin share is fit through the origin by spread bucket — big
+ * favourites build a larger share of their margin early than coin flips do —
+ * and the total share by tempo bucket, since slow games back-load more of
+ * their scoring into fouls at the end. Each bucket shrinks toward its
+ * period's overall share, which shrinks toward a rough prior, so thin
+ * buckets and an empty table still project something sensible.
+ *
+ * Overtime never reaches the first half, so OT games count like any other.
+ *
+ * Pure functions — no I/O. Tested by scripts/periods.test.ts.
+ */
+
+import type { KenpomGame } from '../kenpom/types';
+import { SPREAD_DECIMAL_PLACES } from './constants';
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// ============================================
+// Types
+// ============================================
+
+export type Period = '1H' | '1Q';
+
+export const PERIODS: Period[] = ['1H', '1Q'];
+
+export interface PeriodLine {
+  spread: number;   // Home perspective: negative = home favoured
+  total: number;
+}
+
+/** A game with both a fanmatch prediction and a box score. */
+export interface PeriodGame {
+  date: string;                          // YYYY-MM-DD
+  spread: number;                        // Projected full game
+  total: number;
+  tempo: number | null;                  // Projected possessions
+  actual: Record<Period, PeriodLine>;
+}
+
+export interface PeriodBucket {
+  label: string;
+  min: number;    // inclusive
+  max: number;    // exclusive
+}
+
+/** Full-game spread, by size. */
+export const SPREAD_BUCKETS: PeriodBucket[] = [
+  { label: '0-3.5', min: 0, max: 4 },
+  { label: '4-7.5', min: 4, max: 8 },
+  { label: '8-12.5', min: 8, max: 13 },
+  { label: '13+', min: 13, max: Infinity },
+];
+
+/** Projected possessions. */
+export const TEMPO_BUCKETS: PeriodBucket[] = [
+  { label: '< 66', min: 0, max: 66 },
+  { label: '66-69', min: 66, max: 69 },
+  { label: '69+', min: 69, max: Infinity },
+];
+
+export interface PeriodShare {
+  share: number;   // Period value ÷ full-game value
+  games: number;
+}
+
+export interface PeriodSplit {
+  spread: { all: PeriodShare; buckets: PeriodShare[] };   // by SPREAD_BUCKETS
+  total: { all: PeriodShare; buckets: PeriodShare[] };    // by TEMPO_BUCKETS
+}
+
+export type PeriodSplits = Record<Period, PeriodSplit>;
+
+/** Rough shares used until box scores say otherwise (and as the naive baseline). */
+export const DEFAULT_PERIOD_SHARES: Record<Period, { spread: number; total: number }> = {
+  '1H': { spread: 0.5, total: 0.48 },
+  '1Q': { spread: 0.25, total: 0.235 },
+};
+
+// Games of evidence a share needs before it outweighs the level above it
+const PRIOR_GAMES = 50;
+
+// ============================================
+// Data
+// ============================================
+
+/**
+ * A KenPom game as a period game, or null without a prediction or the first
+ * two quarters. `tempo` is the projected possessions, when known.
+ */
+export function periodGame(game: KenpomGame, tempo: number | null = null): PeriodGame | null {
+  const { predicted_home_score: ph, predicted_away_score: pa, home_q1, home_q2, away_q1, away_q2 } = game;
+  if (ph === null || pa === null || home_q1 === null || home_q2 === null || away_q1 === null || away_q2 === null) {
+    return null;
+  }
+  return {
+    date: game.game_date,
+    spread: pa - ph,
+    total: ph + pa,
+    tempo,
+    actual: {
+      '1H': { spread: away_q1 + away_q2 - home_q1 - home_q2, total: home_q1 + home_q2 + away_q1 + away_q2 },
+      '1Q': { spread: away_q1 - home_q1, total: home_q1 + away_q1 },
+    },
+  };
+}
+
+function bucketIndex(buckets: PeriodBucket[], value: number): number {
+  return buckets.findIndex(b => value >= b.min && value < b.max);
+}
+
+// ============================================
+// Fitting
+// ============================================
+
+// Running sums: x = full game, y = period
+interface Sums { n: number; x: number; y: number; xx: number; xy: number }
+
+// Totals from games without a tempo count toward the overall share only
+type SplitStats = Record<Period, { spread: Sums[]; total: Sums[]; untimedTotal: Sums }>;
+
+const emptySums = (): Sums => ({ n: 0, x: 0, y: 0, xx: 0, xy: 0 });
+
+function emptyStats(): SplitStats {
+  return Object.fromEntries(PERIODS.map(p => [p, {
+    spread: SPREAD_BUCKETS.map(emptySums),
+    total: TEMPO_BUCKETS.map(emptySums),
+    untimedTotal: emptySums(),
+  }])) as SplitStats;
+}
+
+function addSums(sums: Sums, x: number, y: number): void {
+  sums.n++;
+  sums.x += x;
+  sums.y += y;
+  sums.xx += x * x;
+  sums.xy += x * y;
+}
+
+function addGame(stats: SplitStats, game: PeriodGame): void {
+  const spreadBucket = bucketIndex(SPREAD_BUCKETS, Math.abs(game.spread));
+  const tempoBucket = game.tempo === null ? -1 : bucketIndex(TEMPO_BUCKETS, game.tempo);
+  for (const period of PERIODS) {
+    const actual = game.actual[period];
+    if (spreadBucket >= 0) addSums(stats[period].spread[spreadBucket], game.spread, actual.spread);
+    addSums(tempoBucket >= 0 ? stats[period].total[tempoBucket] : stats[period].untimedTotal, game.total, actual.total);
+  }
+}
+
+const combine = (all: Sums[]): Sums => all.reduce((a, s) => ({
+  n: a.n + s.n, x: a.x + s.x, y: a.y + s.y, xx: a.xx + s.xx, xy: a.xy + s.xy,
+}), emptySums());
+
+const shrink = (raw: number | null, n: number, prior: number) =>
+  raw === null ? prior : (n * raw + PRIOR_GAMES * prior) / (n + PRIOR_GAMES);
+
+function splitsFromStats(stats: SplitStats): PeriodSplits {
+  // Margin: least squares through the origin. Total: ratio of sums.
+  const marginShare = (s: Sums) => (s.xx > 0 ? s.xy / s.xx : null);
+  const totalShare = (s: Sums) => (s.x > 0 ? s.y / s.x : null);
+
+  const fit = (sums: Sums[], estimate: (s: Sums) => number | null, prior: number, extra: Sums = emptySums()) => {
+    const pooled = combine([...sums, extra]);
+    const all = { share: shrink(estimate(pooled), pooled.n, prior), games: pooled.n };
+    return { all, buckets: sums.map(s => ({ share: shrink(estimate(s), s.n, all.share), games: s.n })) };
+  };
+
+  return Object.fromEntries(PERIODS.map(p => [p, {
+    spread: fit(stats[p].spread, marginShare, DEFAULT_PERIOD_SHARES[p].spread),
+    total: fit(stats[p].total, totalShare, DEFAULT_PERIOD_SHARES[p].total, stats[p].untimedTotal),
+  }])) as PeriodSplits;
+}
+
+/** Fit period shares from games with predictions and box scores. */
+export function fitPeriodSplits(games: PeriodGame[]): PeriodSplits {
+  const stats = emptyStats();
+  for (const game of games) addGame(stats, game);
+  return splitsFromStats(stats);
+}
+
+// ============================================
+// Projection
+// ============================================
+
+/**
+ * Project one period from the full-game spread and total. Either side is null
+ * when its full-game number is; without a tempo the overall total share is used.
+ */
+export function projectPeriod(
+  splits: PeriodSplits,
+  period: Period,
+  spread: number | null,
+  total: number | null,
+  tempo: number | null = null,
+): { spread: number | null; total: number | null } {
+  const split = splits[period];
+  const spreadBucket = spread === null ? -1 : bucketIndex(SPREAD_BUCKETS, Math.abs(spread));
+  const spreadShare = spreadBucket >= 0 ? split.spread.buckets[spreadBucket].share : split.spread.all.share;
+  const tempoBucket = tempo === null ? -1 : bucketIndex(TEMPO_BUCKETS, tempo);
+  const totalShare = tempoBucket >= 0 ? split.total.buckets[tempoBucket].share : split.total.all.share;
+  return {
+    spread: spread === null ? null : round(spread * spreadShare, SPREAD_DECIMAL_PLACES),
+    total: total === null ? null : round(total * totalShare, SPREAD_DECIMAL_PLACES),
+  };
+}
+
+// ============================================
+// Backtest
+// ============================================
+
+export interface PeriodBacktestRow {
+  period: Period;
+  games: number;
+  spreadMae: number | null;
+  totalMae: number | null;
+  naiveSpreadMae: number | null;    // DEFAULT_PERIOD_SHARES, no buckets
+  naiveTotalMae: number | null;
+  spreadBias: number | null;        // Mean actual − projected
+  totalBias: number | null;
+}
+
+/** Games fit before the walk-forward starts scoring. */
+export const DEFAULT_PERIOD_TRAINING_GAMES = 200;
+
+/**
+ * Walk-forward backtest over stored box scores: each date is projected from
+ * shares fit on earlier dates only, once `minTraining` games are in.
+ */
+export function backtestPeriods(
+  games: PeriodGame[],
+  minTraining: number = DEFAULT_PERIOD_TRAINING_GAMES,
+): PeriodBacktestRow[] {
+  const sorted = [...games].sort((a, b) => a.date.localeCompare(b.date));
+  const stats = emptyStats();
+  let trained = 0;
+
+  const errors = Object.fromEntries(PERIODS.map(p => [p, {
+    spread: [] as number[], total: [] as number[], naiveSpread: [] as number[], naiveTotal: [] as number[],
+  }])) as Record<Period, Record<'spread' | 'total' | 'naiveSpread' | 'naiveTotal', number[]>>;
+
+  for (let i = 0; i < sorted.length;) {
+    const date = sorted[i].date;
+    const day: PeriodGame[] = [];
+    while (i < sorted.length && sorted[i].date === date) day.push(sorted[i++]);
+
+    if (trained >= minTraining) {
+      const splits = splitsFromStats(stats);
+      for (const game of day) {
+        for (const period of PERIODS) {
+          const projected = projectPeriod(splits, period, game.spread, game.total, game.tempo);
+          const actual = game.actual[period];
+          const e = errors[period];
+          e.spread.push(actual.spread - projected.spread!);
+          e.total.push(actual.total - projected.total!);
+          e.naiveSpread.push(actual.spread - game.spread * DEFAULT_PERIOD_SHARES[period].spread);
+          e.naiveTotal.push(actual.total - game.total * DEFAULT_PERIOD_SHARES[period].total);
+        }
+      }
+    }
+
+    for (const game of day) addGame(stats, game);
+    trained += day.length;
+  }
+
+  const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : null);
+  const mae = (xs: number[]) => mean(xs.map(Math.abs));
+  const r2 = (x: number | null) => (x === null ? null : round(x, 2));
+
+  return PERIODS.map(period => {
+    const e = errors[period];
+    return {
+      period,
+      games: e.spread.length,
+      spreadMae: r2(mae(e.spread)),
+      totalMae: r2(mae(e.total)),
+      naiveSpreadMae: r2(mae(e.naiveSpread)),
+      naiveTotalMae: r2(mae(e.naiveTotal)),
+      spreadBias: r2(mean(e.spread)),
+      totalBias: r2(mean(e.total)),
+    };
+  });
+}
@@ -0,0 +1,369 @@
+// src/lib/ratings/sportSync.ts
+
+/**
+ * Market-Ratings Sync
+ *
+ * The I/O half of the sport-agnostic ratings engine (market.ts is the math):
+ * walk ESPN's completed games, price each against the Odds API closing line
+ * for its sport, and persist ratings and adjustments through the sport's
+ * RatingsStore. Also replays a season with new parameters and seeds a
+ * season from a stored power-rating set.
+ */
+
+import {
+  ClosingLineSource,
+  CompletedGame,
+  GameAdjustment,
+  OddsAPIGame,
+  SportRatingsConfig,
+  SportRatingsSnapshot,
+  SportTeamRating,
+} from './types';
+import { US_AVERAGE_BOOKMAKER_KEYS } from './constants';
+import { applyMarketGame, extractClosingMargin, flatSeedRating, replayAdjustments, seasonWindow } from './market';
+import { createRatingsStore, RatingsStats, SeedTeam } from './store';
+import { getSupabaseClient } from './supabase';
+import { fetchCompletedGames } from '../espnScoreboard';
+import { getOddsProvider, oddsProviderConfigured } from '../odds';
+import { buildRegistry, namesMatch, resolveTeam, TeamAlias, TeamRecord } from '../teams';
+import type { PowerRatingRow } from '../powerRatings';
+
+/** A sync/replay request the caller got wrong (no ratings, unknown season); status is the HTTP status to answer with. */
+export class SportRatingsError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'SportRatingsError';
+  }
+}
+
+export interface SyncOptions {
+  season?: number;
+  hca?: number;
+  closingSource?: ClosingLineSource;
+  maxGames?: number;
+  startDate?: string;
+  endDate?: string;
+  aliases?: { canonical: string; alias: TeamAlias }[];   // override-table aliases (lacrosse)
+}
+
+export interface SyncResult {
+  snapshot: SportRatingsSnapshot;
+  newGamesProcessed: number;
+  gamesSkipped: number;
+}
+
+// ============================================
+// Snapshot
+// ============================================
+
+export async function loadSportSnapshot(
+  config: SportRatingsConfig,
+  season: number = config.defaultSeason
+): Promise<{ snapshot: SportRatingsSnapshot; stats: RatingsStats }> {
+  const store = createRatingsStore(config.storage);
+  const [ratings, adjustments, savedConfig, stats] = await Promise.all([
+    store.loadRatings(season),
+    store.loadAdjustments(season),
+    store.loadConfig(),
+    store.getStats(season),
+  ]);
+
+  return {
+    snapshot: {
+      asOfDate: new Date().toISOString(),
+      sport: config.sportKey,
+      season,
+      hca: savedConfig?.hca ?? config.hca,
+      marginUnit: config.marginUnit,
+      closingSource: (savedConfig?.closing_source as ClosingLineSource) || config.closingSource,
+      gamesProcessed: stats.gamesProcessed,
+      ratings: Array.from(ratings.values()).sort((a, b) => b.rating - a.rating),
+      adjustments,
+    },
+    stats,
+  };
+}
+
+// ============================================
+// Sync
+// ============================================
+
+// ESPN (or unsourced) alias → the team's Odds API name: its odds_api alias,
+// else the canonical name (which is the Odds API name for flat-seed sports)
+function espnToOddsMap(registry: TeamRecord[]): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const team of registry) {
+    const odds = team.aliases.find(a => a.source === 'odds_api')?.name ?? team.name;
+    for (const alias of team.aliases) {
+      if (alias.source !== 'odds_api') map.set(alias.name.toLowerCase(), odds.toLowerCase());
+    }
+  }
+  return map;
+}
+
+// The Odds API game for an ESPN game; `swapped` when the two list home/away
+// the other way round (neutral sites)
+function findOddsGame(
+  game: CompletedGame,
+  oddsGames: OddsAPIGame[],
+  espnToOdds: Map<string, string>
+): { game: OddsAPIGame; swapped: boolean } | null {
+  const matches = (espnName: string, oddsName: string) => {
+    const override = espnToOdds.get(espnName.toLowerCase());
+    return namesMatch(espnName, oddsName) || (override ? namesMatch(override, oddsName) : false);
+  };
+
+  for (const odds of oddsGames) {
+    if (matches(game.homeTeam, odds.home_team) && matches(game.awayTeam, odds.away_team)) {
+      return { game: odds, swapped: false };
+    }
+    if (matches(game.homeTeam, odds.away_team) && matches(game.awayTeam, odds.home_team)) {
+      return { game: odds, swapped: true };
+    }
+  }
+  return null;
+}
+
+/**
+ * Process every completed, not-yet-processed game in the window: find its
+ * closing line, move both teams toward it, and save the adjustment and both
+ * ratings as it goes. Seeded sports skip games with an unrated team; flat
+ * sports add the team at 0 under its Odds API name.
+ */
+export async function syncSportRatings(config: SportRatingsConfig, options: SyncOptions = {}): Promise<SyncResult> {
+  const season = options.season ?? config.defaultSeason;
+  const hca = options.hca ?? config.hca;
+  const closingSource = options.closingSource ?? config.closingSource;
+  const maxGames = options.maxGames ?? 200;
+  const tag = `[${config.label} Sync]`;
+  const store = createRatingsStore(config.storage);
+
+  const dates = seasonWindow(config, season);
+  if (!dates && !options.startDate) {
+    throw new SportRatingsError(`No season dates for ${config.label} ${season}; pass startDate`, 400);
+  }
+
+  const ratings = await store.loadRatings(season);
+  if (ratings.size === 0 && config.seed !== 'flat') {
+    throw new SportRatingsError(`No ${config.label} ratings for ${season}. Seed the season first.`, 400);
+  }
+
+  const processedGameIds = await store.getProcessedGameIds(season);
+  const today = new Date().toISOString().split('T')[0];
+  const endDate = options.endDate || (dates && dates.end < today ? dates.end : today);
+  const allGames = await fetchCompletedGames(
+    config.sportKey,
+    options.startDate || dates!.start,
+    endDate,
+    maxGames + processedGameIds.size
+  );
+  const newGames = allGames.filter(g => !processedGameIds.has(g.id)).slice(0, maxGames);
+  console.log(`${tag} ${allGames.length} ESPN games, ${newGames.length} new, ${ratings.size} rated teams`);
+
+  const aliases = options.aliases ?? [];
+  const espnToOdds = espnToOddsMap(buildRegistry(config.sportKey, [], aliases));
+  const registry = buildRegistry(config.sportKey, [...ratings.keys()], aliases);
+  const findRated = (espnName: string, oddsName?: string): SportTeamRating | null => {
+    const byEspn = resolveTeam(espnName, registry, { source: 'espn' }).team;
+    const team = byEspn ?? (oddsName ? resolveTeam(oddsName, registry, { source: 'odds_api' }).team : null);
+    return team ? ratings.get(team) ?? null : null;
+  };
+
+  let newGamesProcessed = 0;
+  let gamesSkipped = 0;
+
+  if (!oddsProviderConfigured()) {
+    console.warn(`${tag} No ODDS_API_KEY set, skipping odds fetch`);
+    gamesSkipped = newGames.length;
+  } else {
+    // Odds API snapshots by hour: a slate shares a handful of them
+    const oddsCache = new Map<string, OddsAPIGame[]>();
+
+    for (const game of newGames) {
+      try {
+        // Seeded sports: don't spend an odds call on a game we can't rate
+        if (config.seed !== 'flat' && (!findRated(game.homeTeam) || !findRated(game.awayTeam))) {
+          console.log(`${tag} Unrated team: ${game.awayTeam} @ ${game.homeTeam}`);
+          gamesSkipped++;
+          continue;
+        }
+
+        const closingTime = new Date(new Date(game.date).getTime() - 5 * 60 * 1000);
+        const cacheTime = new Date(closingTime);
+        cacheTime.setMinutes(0, 0, 0);
+        const cacheKey = cacheTime.toISOString().replace('.000Z', 'Z');
+
+        let oddsGames = oddsCache.get(cacheKey);
+        if (oddsGames === undefined) {
+          try {
+            const { data } = await getOddsProvider().getHistoricalOdds<OddsAPIGame>(config.sportKey, {
+              markets: [config.closingMarket],
+              regions: ['us', 'eu'],
+              bookmakers: ['pinnacle', ...US_AVERAGE_BOOKMAKER_KEYS],
+              date: closingTime.toISOString().replace('.000Z', 'Z'),
+            });
+            oddsGames = data.data || [];
+          } catch (err) {
+            console.warn(`${tag} Odds API failed for ${cacheKey}:`, err instanceof Error ? err.message : err);
+            oddsGames = [];
+          }
+          oddsCache.set(cacheKey, oddsGames);
+        }
+
+        const oddsMatch = findOddsGame(game, oddsGames, espnToOdds);
+        if (!oddsMatch) {
+          console.log(`${tag} No odds match: ${game.awayTeam} @ ${game.homeTeam} (${game.date.substring(0, 10)})`);
+          gamesSkipped++;
+          continue;
+        }
+
+        // Closing margin is from the Odds API home team's side; flip it onto ESPN's
+        const closing = extractClosingMargin(oddsMatch.game, config, closingSource);
+        if (closing.spread === null) {
+          console.log(`${tag} No closing ${config.closingMarket}: ${game.awayTeam} @ ${game.homeTeam}`);
+          gamesSkipped++;
+          continue;
+        }
+        const closingSpread = oddsMatch.swapped ? -closing.spread : closing.spread;
+        const homeOddsName = oddsMatch.swapped ? oddsMatch.game.away_team : oddsMatch.game.home_team;
+        const awayOddsName = oddsMatch.swapped ? oddsMatch.game.home_team : oddsMatch.game.away_team;
+
+        // Flat-seed teams are keyed by their Odds API name, added on first appearance
+        const rated = (espnName: string, oddsName: string) => {
+          if (config.seed !== 'flat') return findRated(espnName, oddsName);
+          if (!ratings.has(oddsName)) ratings.set(oddsName, flatSeedRating(oddsName));
+          return ratings.get(oddsName)!;
+        };
+        const home = rated(game.homeTeam, homeOddsName);
+        const away = rated(game.awayTeam, awayOddsName);
+        if (!home || !away) {
+          gamesSkipped++;
+          continue;
+        }
+
+        const adjustment = applyMarketGame(home, away, game, closingSpread, {
+          hca,
+          adjustmentFraction: config.adjustmentFraction,
+          closingSource,
+        });
+
+        processedGameIds.add(game.id);
+        await store.saveGameAdjustment(adjustment, season);
+        await store.saveRating(home, season);
+        await store.saveRating(away, season);
+        newGamesProcessed++;
+      } catch (err) {
+        console.warn(`${tag} Error processing game ${game.id}:`, err);
+        gamesSkipped++;
+      }
+    }
+  }
+
+  console.log(`${tag} Done: ${newGamesProcessed} processed, ${gamesSkipped} skipped`);
+  await store.saveConfig(hca, closingSource, season, today);
+
+  const adjustments = await store.loadAdjustments(season);
+  return {
+    snapshot: {
+      asOfDate: new Date().toISOString(),
+      sport: config.sportKey,
+      season,
+      hca,
+      marginUnit: config.marginUnit,
+      closingSource,
+      gamesProcessed: adjustments.length,
+      ratings: Array.from(ratings.values()).sort((a, b) => b.rating - a.rating),
+      adjustments,
+    },
+    newGamesProcessed,
+    gamesSkipped,
+  };
+}
+
+// ============================================
+// Recalculate
+// ============================================
+
+/**
+ * Replay the season's stored adjustments from the initial ratings with a new
+ * HCA, rewriting every adjustment and rating. Returns the games replayed.
+ */
+export async function recalculateSportRatings(
+  config: SportRatingsConfig,
+  season: number = config.defaultSeason,
+  hca: number = config.hca
+): Promise<number> {
+  const store = createRatingsStore(config.storage);
+  const adjustments = await store.loadAdjustments(season);
+  if (adjustments.length === 0) {
+    throw new SportRatingsError('No adjustments to recalculate', 400);
+  }
+
+  const ratings = await store.loadRatings(season);
+  const replayed: GameAdjustment[] = replayAdjustments(ratings, adjustments, {
+    hca,
+    adjustmentFraction: config.adjustmentFraction,
+  });
+
+  await store.saveGameAdjustments(replayed, season);
+  await store.saveRatings(ratings, season);
+  const savedConfig = await store.loadConfig();
+  await store.saveConfig(
+    hca,
+    (savedConfig?.closing_source as ClosingLineSource) || config.closingSource,
+    season,
+    savedConfig?.last_processed_date ?? undefined
+  );
+
+  console.log(`[${config.label} Recalculate] ${replayed.length} games replayed`);
+  return replayed.length;
+}
+
+// ============================================
+// Seeding
+// ============================================
+
+/** Replace a season's ratings with the given teams at their seed values. */
+export async function seedSportRatings(config: SportRatingsConfig, teams: SeedTeam[], season: number = config.defaultSeason) {
+  await createRatingsStore(config.storage).seedRatings(teams, season);
+}
+
+// power_rating_sets.sport for each power-rating-seeded sport
+const POWER_RATING_SPORT: Record<string, string> = {
+  americanfootball_ncaaf: 'ncaaf',
+};
+
+/**
+ * Seed a season from the stored power-rating set for that season (its
+ * `thisYr` column), replacing any ratings already there. Returns the team count.
+ */
+export async function seedFromPowerRatingSet(
+  config: SportRatingsConfig,
+  season: number = config.defaultSeason,
+  source: string = 'brad_powers'
+): Promise<number> {
+  const sport = POWER_RATING_SPORT[config.sportKey];
+  if (config.seed !== 'power_rating_set' || !sport) {
+    throw new SportRatingsError(`${config.label} is not seeded from a power-rating set`, 400);
+  }
+
+  const { data, error } = await getSupabaseClient()
+    .from('power_rating_sets')
+    .select('ratings')
+    .eq('sport', sport)
+    .eq('source', source)
+    .eq('season', season)
+    .maybeSingle();
+  if (error) throw error;
+
+  const rows: PowerRatingRow[] = data?.ratings ?? [];
+  const teams = rows
+    .filter(r => r.team && Number.isFinite(r.thisYr))
+    .map(r => ({ name: r.team, rating: r.thisYr, conference: r.conference ?? undefined }));
+  if (teams.length === 0) {
+    throw new SportRatingsError(`No ${source} power ratings for ${season}`, 404);
+  }
+
+  await seedSportRatings(config, teams, season);
+  return teams.length;
+}
@@ -0,0 +1,115 @@
+// src/lib/ratings/sports.ts
+
+/**
+ * Market-Ratings Sports
+ *
+ * Per-sport parameters for the closing-line ratings engine outside NCAAB
+ * (which keeps its KenPom pipeline in /api/ratings/calculate). A sport is
+ * enabled here plus `marketRatings: true` on its LEAGUES entry.
+ * Season dates are approximate regular-season-through-finals windows; a sync
+ * outside them just finds no games.
+ */
+
+import { SportRatingsConfig, RatingsTables } from './types';
+import { DEFAULT_ADJUSTMENT_FRACTION } from './constants';
+import { DEFAULT_LACROSSE_CONFIG, LACROSSE_SEASON_DATES, LACROSSE_SPORT_KEY } from '../lacrosse/constants';
+
+// Shared tables for every sport without legacy storage (sql/market_ratings.sql)
+const marketTables = (sport: string): RatingsTables => ({
+  ratings: 'market_ratings',
+  adjustments: 'market_game_adjustments',
+  config: 'market_ratings_config',
+  seedNameColumn: 'seed_name',
+  sport,
+});
+
+export const SPORT_RATINGS: Record<string, SportRatingsConfig> = {
+  [LACROSSE_SPORT_KEY]: {
+    sportKey: LACROSSE_SPORT_KEY,
+    label: 'NCAAL',
+    seed: 'massey',
+    hca: DEFAULT_LACROSSE_CONFIG.hca,
+    marginUnit: 'goals',
+    closingMarket: 'spreads',
+    closingSource: DEFAULT_LACROSSE_CONFIG.closingSource,
+    adjustmentFraction: DEFAULT_ADJUSTMENT_FRACTION,
+    defaultSeason: DEFAULT_LACROSSE_CONFIG.season,
+    seasonDates: LACROSSE_SEASON_DATES,
+    storage: {
+      ratings: 'lacrosse_ratings',
+      adjustments: 'lacrosse_game_adjustments',
+      config: 'lacrosse_ratings_config',
+      seedNameColumn: 'massey_name',
+    },
+  },
+  basketball_nba: {
+    sportKey: 'basketball_nba',
+    label: 'NBA',
+    seed: 'flat',
+    hca: 2.0,
+    marginUnit: 'points',
+    closingMarket: 'spreads',
+    closingSource: 'pinnacle',
+    adjustmentFraction: DEFAULT_ADJUSTMENT_FRACTION,
+    defaultSeason: 2027,           // named for the year it ends, like NCAAB
+    seasonDates: {
+      2026: { start: '2025-10-21', end: '2026-06-21' },
+      2027: { start: '2026-10-20', end: '2027-06-20' },
+    },
+    storage: marketTables('basketball_nba'),
+  },
+  icehockey_nhl: {
+    sportKey: 'icehockey_nhl',
+    label: 'NHL',
+    seed: 'flat',
+    hca: 0.2,
+    marginUnit: 'goals',
+    closingMarket: 'h2h',
+    marginSd: 2.3,
+    closingSource: 'pinnacle',
+    adjustmentFraction: DEFAULT_ADJUSTMENT_FRACTION,
+    defaultSeason: 2027,
+    seasonDates: {
+      2026: { start: '2025-10-07', end: '2026-06-20' },
+      2027: { start: '2026-10-06', end: '2027-06-20' },
+    },
+    storage: marketTables('icehockey_nhl'),
+  },
+  americanfootball_nfl: {
+    sportKey: 'americanfootball_nfl',
+    label: 'NFL',
+    seed: 'flat',
+    hca: 1.5,
+    marginUnit: 'points',
+    closingMarket: 'spreads',
+    closingSource: 'pinnacle',
+    adjustmentFraction: DEFAULT_ADJUSTMENT_FRACTION,
+    defaultSeason: 2026,           // named for the year it starts
+    seasonDates: {
+      2025: { start: '2025-09-04', end: '2026-02-08' },
+      2026: { start: '2026-09-09', end: '2027-02-14' },
+    },
+    storage: marketTables('americanfootball_nfl'),
+  },
+  americanfootball_ncaaf: {
+    sportKey: 'americanfootball_ncaaf',
+    label: 'NCAAF',
+    seed: 'power_rating_set',
+    hca: 2.5,
+    marginUnit: 'points',
+    closingMarket: 'spreads',
+    closingSource: 'us_average',
+    adjustmentFraction: DEFAULT_ADJUSTMENT_FRACTION,
+    defaultSeason: 2026,
+    seasonDates: {
+      2025: { start: '2025-08-23', end: '2026-01-19' },
+      2026: { start: '2026-08-29', end: '2027-01-18' },
+    },
+    storage: marketTables('americanfootball_ncaaf'),
+  },
+};
+
+/** Config for a sport key, or null when market ratings aren't set up for it. */
+export function getSportRatingsConfig(sportKey: string): SportRatingsConfig | null {
+  return SPORT_RATINGS[sportKey] ?? null;
+}
@@ -0,0 +1,326 @@
+// src/lib/ratings/store.ts
+
+/**
+ * Ratings Storage Adapter
+ *
+ * One Supabase adapter for every market-ratings sport. A sport's
+ * RatingsTables names its tables and seed-name column; sports sharing the
+ * market_* tables also set `sport`, which scopes every read and write and
+ * joins the conflict keys (schema in sql/market_ratings.sql).
+ */
+
+import { getSupabaseClient } from './supabase';
+import { ClosingLineSource, GameAdjustment, RatingsTables, SportTeamRating } from './types';
+
+// ============================================
+// DB Row Types
+// ============================================
+
+export interface DBSportRatingsConfig {
+  hca: number;
+  closing_source: string;
+  season: number;
+  last_processed_date: string | null;
+  updated_at: string;
+}
+
+export interface SeedTeam {
+  name: string;
+  rating: number;
+  conference?: string;
+}
+
+export interface RatingsStats {
+  teamsCount: number;
+  gamesProcessed: number;
+  lastGameDate: string | null;
+  firstGameDate: string | null;
+}
+
+export interface RatingsStore {
+  loadRatings(season: number): Promise<Map<string, SportTeamRating>>;
+  saveRating(rating: SportTeamRating, season: number): Promise<void>;
+  saveRatings(ratings: Map<string, SportTeamRating>, season: number): Promise<void>;
+  seedRatings(teams: SeedTeam[], season: number): Promise<void>;
+  getProcessedGameIds(season: number): Promise<Set<string>>;
+  saveGameAdjustment(adjustment: GameAdjustment, season: number): Promise<void>;
+  saveGameAdjustments(adjustments: GameAdjustment[], season: number): Promise<void>;
+  loadAdjustments(season: number): Promise<GameAdjustment[]>;
+  loadConfig(): Promise<DBSportRatingsConfig | null>;
+  saveConfig(hca: number, closingSource: ClosingLineSource, season: number, lastProcessedDate?: string): Promise<void>;
+  getStats(season: number): Promise<RatingsStats>;
+}
+
+const PAGE_SIZE = 1000;
+const CHUNK_SIZE = 100;
+
+// ============================================
+// Factory
+// ============================================
+
+export function createRatingsStore(tables: RatingsTables): RatingsStore {
+  const tag = `[Ratings Store ${tables.sport ?? tables.ratings}]`;
+  const sportColumn = tables.sport ? { sport: tables.sport } : {};
+  const ratingsConflict = tables.sport ? 'sport,season,team_name' : 'team_name,season';
+  const adjustmentsConflict = tables.sport ? 'sport,game_id' : 'game_id';
+
+  // Filter for one season of this sport (just the season on single-sport tables)
+  const seasonScope = (season: number) => ({ ...sportColumn, season });
+
+  const ratingRow = (rating: SportTeamRating, season: number) => ({
+    ...sportColumn,
+    team_name: rating.teamName,
+    [tables.seedNameColumn]: rating.seedName,
+    rating: rating.rating,
+    initial_rating: rating.initialRating,
+    games_processed: rating.gamesProcessed,
+    conference: rating.conference ?? null,
+    season,
+    updated_at: new Date().toISOString(),
+  });
+
+  const adjustmentRow = (adjustment: GameAdjustment, season: number) => ({
+    ...sportColumn,
+    game_id: adjustment.gameId,
+    game_date: adjustment.date,
+    home_team: adjustment.homeTeam,
+    away_team: adjustment.awayTeam,
+    is_neutral_site: adjustment.isNeutralSite,
+    projected_spread: adjustment.projectedSpread,
+    closing_spread: adjustment.closingSpread,
+    closing_source: adjustment.closingSource,
+    difference: adjustment.difference,
+    adjustment: adjustment.adjustment,
+    home_rating_before: adjustment.homeRatingBefore,
+    home_rating_after: adjustment.homeRatingAfter,
+    away_rating_before: adjustment.awayRatingBefore,
+    away_rating_after: adjustment.awayRatingAfter,
+    season,
+    processed_at: new Date().toISOString(),
+  });
+
+  async function upsertChunked(table: string, rows: object[], onConflict: string, label: string) {
+    const supabase = getSupabaseClient();
+    for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+      const { error } = await supabase.from(table).upsert(rows.slice(i, i + CHUNK_SIZE), { onConflict });
+      if (error) {
+        console.error(`${tag} Error saving ${label}:`, error);
+        throw error;
+      }
+    }
+  }
+
+  return {
+    async loadRatings(season) {
+      const { data, error } = await getSupabaseClient()
+        .from(tables.ratings)
+        .select('*')
+        .match(seasonScope(season))
+        .order('rating', { ascending: false });
+
+      if (error) {
+        console.error(`${tag} Error loading ratings:`, error);
+        throw error;
+      }
+
+      const ratings = new Map<string, SportTeamRating>();
+      for (const row of data || []) {
+        ratings.set(row.team_name, {
+          teamName: row.team_name,
+          seedName: row[tables.seedNameColumn],
+          rating: row.rating,
+          initialRating: row.initial_rating,
+          gamesProcessed: row.games_processed,
+          conference: row.conference ?? undefined,
+          lastUpdated: row.updated_at,
+        });
+      }
+      return ratings;
+    },
+
+    async saveRating(rating, season) {
+      await upsertChunked(tables.ratings, [ratingRow(rating, season)], ratingsConflict, 'rating');
+    },
+
+    async saveRatings(ratings, season) {
+      const rows = Array.from(ratings.values()).map(r => ratingRow(r, season));
+      await upsertChunked(tables.ratings, rows, ratingsConflict, 'ratings');
+      console.log(`${tag} Saved ${rows.length} ratings`);
+    },
+
+    async seedRatings(teams, season) {
+      const supabase = getSupabaseClient();
+      const now = new Date().toISOString();
+      const rows = teams.map(t => ratingRow({
+        teamName: t.name,
+        seedName: t.name,
+        rating: t.rating,
+        initialRating: t.rating,
+        gamesProcessed: 0,
+        conference: t.conference,
+        lastUpdated: now,
+      }, season));
+
+      // Clear existing ratings for this season first
+      const { error: deleteError } = await supabase.from(tables.ratings).delete().match(seasonScope(season));
+      if (deleteError) {
+        console.error(`${tag} Error clearing ratings:`, deleteError);
+        throw deleteError;
+      }
+
+      for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+        const { error } = await supabase.from(tables.ratings).insert(rows.slice(i, i + CHUNK_SIZE));
+        if (error) {
+          console.error(`${tag} Error seeding ratings:`, error);
+          throw error;
+        }
+      }
+      console.log(`${tag} Seeded ${rows.length} ratings for season ${season}`);
+    },
+
+    async getProcessedGameIds(season) {
+      const supabase = getSupabaseClient();
+      const allIds: string[] = [];
+      let offset = 0;
+      let hasMore = true;
+
+      while (hasMore) {
+        const { data, error } = await supabase
+          .from(tables.adjustments)
+          .select('game_id')
+          .match(seasonScope(season))
+          .order('game_id', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+
+        if (error) {
+          // Never return a partial set: missing games look unprocessed and
+          // would have their adjustments applied a second time.
+          console.error(`${tag} Error loading processed games:`, error);
+          throw new Error(`Failed to load processed game ids (offset ${offset}): ${error.message}`);
+        }
+
+        if (!data || data.length === 0) {
+          hasMore = false;
+        } else {
+          allIds.push(...data.map(row => row.game_id));
+          if (data.length < PAGE_SIZE) hasMore = false;
+          else offset += PAGE_SIZE;
+        }
+      }
+
+      return new Set(allIds);
+    },
+
+    async saveGameAdjustment(adjustment, season) {
+      await upsertChunked(tables.adjustments, [adjustmentRow(adjustment, season)], adjustmentsConflict, 'adjustment');
+    },
+
+    async saveGameAdjustments(adjustments, season) {
+      const rows = adjustments.map(a => adjustmentRow(a, season));
+      await upsertChunked(tables.adjustments, rows, adjustmentsConflict, 'adjustments');
+    },
+
+    async loadAdjustments(season) {
+      const supabase = getSupabaseClient();
+      const allAdjustments: GameAdjustment[] = [];
+      let offset = 0;
+      let hasMore = true;
+
+      while (hasMore) {
+        // game_id tiebreaker keeps page boundaries stable for shared start times
+        const { data, error } = await supabase
+          .from(tables.adjustments)
+          .select('*')
+          .match(seasonScope(season))
+          .order('game_date', { ascending: true })
+          .order('game_id', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+
+        if (error) {
+          // Never return a truncated ledger: recalculation replays it and saves the result
+          console.error(`${tag} Error loading adjustments:`, error);
+          throw new Error(`Failed to load adjustments (offset ${offset}): ${error.message}`);
+        }
+
+        if (!data || data.length === 0) {
+          hasMore = false;
+        } else {
+          allAdjustments.push(...data.map(row => ({
+            gameId: row.game_id,
+            date: row.game_date,
+            homeTeam: row.home_team,
+            awayTeam: row.away_team,
+            isNeutralSite: row.is_neutral_site,
+            projectedSpread: row.projected_spread,
+            closingSpread: row.closing_spread,
+            closingSource: row.closing_source as ClosingLineSource,
+            difference: row.difference,
+            adjustment: row.adjustment,
+            homeRatingBefore: row.home_rating_before,
+            homeRatingAfter: row.home_rating_after,
+            awayRatingBefore: row.away_rating_before,
+            awayRatingAfter: row.away_rating_after,
+          })));
+          offset += PAGE_SIZE;
+          if (data.length < PAGE_SIZE) hasMore = false;
+        }
+      }
+
+      return allAdjustments;
+    },
+
+    async loadConfig() {
+      const { data, error } = await getSupabaseClient()
+        .from(tables.config)
+        .select('*')
+        .match(tables.sport ? { sport: tables.sport } : { id: 1 })
+        .maybeSingle();
+
+      if (error) {
+        console.error(`${tag} Error loading config:`, error);
+        return null;
+      }
+      return data;
+    },
+
+    async saveConfig(hca, closingSource, season, lastProcessedDate) {
+      const { error } = await getSupabaseClient()
+        .from(tables.config)
+        .upsert({
+          ...(tables.sport ? { sport: tables.sport } : { id: 1 }),
+          hca,
+          closing_source: closingSource,
+          season,
+          last_processed_date: lastProcessedDate || null,
+          updated_at: new Date().toISOString(),
+        }, {
+          onConflict: tables.sport ? 'sport' : 'id',
+        });
+
+      if (error) {
+        console.error(`${tag} Error saving config:`, error);
+        throw error;
+      }
+    },
+
+    async getStats(season) {
+      const supabase = getSupabaseClient();
+      const [ratingsResult, latestGameResult, earliestGameResult] = await Promise.all([
+        supabase.from(tables.ratings).select('team_name', { count: 'exact' }).match(seasonScope(season)),
+        supabase.from(tables.adjustments).select('game_id, game_date', { count: 'exact' }).match(seasonScope(season))
+          .order('game_date', { ascending: false })
+          .limit(1),
+        supabase.from(tables.adjustments).select('game_date').match(seasonScope(season))
+          .order('game_date', { ascending: true })
+          .limit(1),
+      ]);
+
+      return {
+        teamsCount: ratingsResult.count || 0,
+        gamesProcessed: latestGameResult.count || 0,
+        lastGameDate: latestGameResult.data?.[0]?.game_date || null,
+        firstGameDate: earliestGameResult.data?.[0]?.game_date || null,
+      };
+    },
+  };
+}
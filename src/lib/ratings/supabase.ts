@@ -11,6 +11,7 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { TeamRating, GameAdjustment, ClosingLineSource } from './types';
+import type { BacktestGame } from './backtest';
 
 // ============================================
 // Types
@@ -23,6 +24,11 @@ export interface DBTeamRating {
   initial_rating: number;
   games_processed: number;
   conference: string | null;
+  adj_oe: number | null;
+  adj_de: number | null;
+  adj_tempo: number | null;
+  initial_adj_oe: number | null;
+  initial_adj_de: number | null;
   season: number;
   updated_at: string;
 }
@@ -42,6 +48,9 @@ export interface DBGameAdjustment {
   home_rating_after: number;
   away_rating_before: number;
   away_rating_after: number;
+  projected_total: number | null;
+  closing_total: number | null;
+  total_adjustment: number | null;
   season: number;
   processed_at: string;
 }
@@ -53,6 +62,7 @@ export interface DBClosingLine {
   home_team: string;
   away_team: string;
   closing_spread: number;
+  closing_total: number | null;
   closing_source: string;
   bookmakers: string[];
   fetched_at: string;
@@ -131,12 +141,28 @@ export async function loadRatings(season: number = 2026): Promise<Map<string, Te
       gamesProcessed: row.games_processed,
       conference: CONFERENCE_OVERRIDES[row.team_name] || row.conference,
       lastUpdated: row.updated_at,
+      offense: row.adj_oe ?? undefined,
+      defense: row.adj_de ?? undefined,
+      tempo: row.adj_tempo ?? undefined,
+      initialOffense: row.initial_adj_oe ?? undefined,
+      initialDefense: row.initial_adj_de ?? undefined,
     });
   }
 
   return ratings;
 }
 
+// Totals model columns (sql/ncaab_totals.sql)
+function totalsColumns(rating: TeamRating) {
+  return {
+    adj_oe: rating.offense ?? null,
+    adj_de: rating.defense ?? null,
+    adj_tempo: rating.tempo ?? null,
+    initial_adj_oe: rating.initialOffense ?? null,
+    initial_adj_de: rating.initialDefense ?? null,
+  };
+}
+
 /**
  * Save a single team rating
  */
@@ -152,6 +178,7 @@ export async function saveRating(rating: TeamRating, season: number = 2026): Pro
       initial_rating: rating.initialRating,
       games_processed: rating.gamesProcessed,
       conference: rating.conference,
+      ...totalsColumns(rating),
       season: season,
       updated_at: new Date().toISOString(),
     }, {
@@ -177,6 +204,7 @@ export async function saveRatings(ratings: Map<string, TeamRating>, season: numb
     initial_rating: rating.initialRating,
     games_processed: rating.gamesProcessed,
     conference: rating.conference,
+    ...totalsColumns(rating),
     season: season,
     updated_at: new Date().toISOString(),
   }));
@@ -203,7 +231,7 @@ export async function saveRatings(ratings: Map<string, TeamRating>, season: numb
  * Initialize ratings from KenPom data (first-time setup)
  */
 export async function initializeRatingsFromKenpom(
-  kenpomRatings: Array<{ TeamName: string; AdjEM: number; ConfShort?: string }>,
+  kenpomRatings: Array<{ TeamName: string; AdjEM: number; AdjOE?: number; AdjDE?: number; AdjTempo?: number; ConfShort?: string }>,
   season: number = 2026
 ): Promise<void> {
   const supabase = getSupabaseClient();
@@ -215,6 +243,11 @@ export async function initializeRatingsFromKenpom(
     initial_rating: kp.AdjEM,
     games_processed: 0,
     conference: kp.ConfShort || null,
+    adj_oe: kp.AdjOE ?? null,
+    adj_de: kp.AdjDE ?? null,
+    adj_tempo: kp.AdjTempo ?? null,
+    initial_adj_oe: kp.AdjOE ?? null,
+    initial_adj_de: kp.AdjDE ?? null,
     season: season,
     updated_at: new Date().toISOString(),
   }));
@@ -379,6 +412,9 @@ export async function saveGameAdjustment(adjustment: GameAdjustment, season: num
       home_rating_after: adjustment.homeRatingAfter,
       away_rating_before: adjustment.awayRatingBefore,
       away_rating_after: adjustment.awayRatingAfter,
+      projected_total: adjustment.projectedTotal ?? null,
+      closing_total: adjustment.closingTotal ?? null,
+      total_adjustment: adjustment.totalAdjustment ?? null,
       season: season,
       processed_at: new Date().toISOString(),
       opening_spread: openingSpread,
@@ -441,6 +477,9 @@ export async function loadAdjustments(season: number = 2026): Promise<GameAdjust
         homeRatingAfter: row.home_rating_after,
         awayRatingBefore: row.away_rating_before,
         awayRatingAfter: row.away_rating_after,
+        projectedTotal: row.projected_total ?? null,
+        closingTotal: row.closing_total ?? null,
+        totalAdjustment: row.total_adjustment ?? null,
       }));
       
       allAdjustments.push(...mapped);
@@ -457,6 +496,55 @@ export async function loadAdjustments(season: number = 2026): Promise<GameAdjust
   return allAdjustments;
 }
 
+/**
+ * Load a season's processed games for the backtest: the stored closing
+ * spread plus the opener and final score where we have them
+ */
+export async function loadBacktestGames(season: number = 2026): Promise<BacktestGame[]> {
+  const supabase = getSupabaseClient();
+  const games: BacktestGame[] = [];
+  const pageSize = 1000;
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('ncaab_game_adjustments')
+      .select('game_id, game_date, home_team, away_team, is_neutral_site, closing_spread, closing_source, opening_spread, home_score, away_score')
+      .eq('season', season)
+      .order('game_date', { ascending: true })
+      .order('game_id', { ascending: true })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error('[Supabase] Error loading backtest games:', error);
+      throw new Error(`Failed to load backtest games (offset ${offset}): ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      hasMore = false;
+      continue;
+    }
+
+    games.push(...data.map(row => ({
+      id: row.game_id,
+      date: row.game_date,
+      homeTeam: row.home_team,
+      awayTeam: row.away_team,
+      isNeutralSite: row.is_neutral_site ?? false,
+      closingSpread: row.closing_spread,
+      closingSource: row.closing_source as ClosingLineSource,
+      openingSpread: row.opening_spread ?? null,
+      homeScore: row.home_score ?? null,
+      awayScore: row.away_score ?? null,
+    })));
+
+    hasMore = data.length === pageSize;
+    offset += pageSize;
+  }
+
+  return games;
+}
+
 // ============================================
 // Closing Lines Cache Operations
 // ============================================
@@ -491,7 +579,8 @@ export async function cacheClosingLine(
   awayTeam: string,
   closingSpread: number,
   closingSource: ClosingLineSource,
-  bookmakers: string[]
+  bookmakers: string[],
+  closingTotal: number | null = null
 ): Promise<void> {
   const supabase = getSupabaseClient();
   
@@ -504,6 +593,7 @@ export async function cacheClosingLine(
       home_team: homeTeam,
       away_team: awayTeam,
       closing_spread: closingSpread,
+      closing_total: closingTotal,
       closing_source: closingSource,
       bookmakers: bookmakers,
       fetched_at: new Date().toISOString(),
@@ -777,6 +867,7 @@ export interface TeamOverride {
   oddsApiName?: string;   // Odds API team name for game matching
   torvikName?: string;    // Barttorvik team name for BT schedule matching
   sbrName?: string;       // SBR team name for opener matching
+  kalshiName?: string;    // Kalshi team name for the board merge
   source: string;
   notes?: string;
   createdAt?: string;
@@ -807,6 +898,7 @@ export async function loadTeamOverrides(): Promise<TeamOverride[]> {
     oddsApiName: row.odds_api_name,
     torvikName: row.torvik_name,
     sbrName: row.sbr_name,
+    kalshiName: row.kalshi_name,
     source: row.source,
     notes: row.notes,
     createdAt: row.created_at,
@@ -829,6 +921,7 @@ export async function addTeamOverride(override: TeamOverride): Promise<TeamOverr
       odds_api_name: override.oddsApiName || null,
       torvik_name: override.torvikName || null,
       sbr_name: override.sbrName || null,
+      kalshi_name: override.kalshiName || null,
       source: override.source || 'manual',
       notes: override.notes,
     }, {
@@ -849,6 +942,7 @@ export async function addTeamOverride(override: TeamOverride): Promise<TeamOverr
     espnName: data.espn_name,
     oddsApiName: data.odds_api_name,
     torvikName: data.torvik_name,
+    kalshiName: data.kalshi_name,
     source: data.source,
     notes: data.notes,
     createdAt: data.created_at,
@@ -870,6 +964,7 @@ export async function updateTeamOverride(id: number, override: Partial<TeamOverr
   if (override.oddsApiName) updates.odds_api_name = override.oddsApiName;
   if (override.torvikName) updates.torvik_name = override.torvikName;
   if (override.sbrName) updates.sbr_name = override.sbrName;
+  if (override.kalshiName) updates.kalshi_name = override.kalshiName;
   if (override.source) updates.source = override.source;
   if (override.notes) updates.notes = override.notes;
   
@@ -9,9 +9,12 @@
  * - ESPN API
  * 
  * All manual/specific mappings are stored in the database (ncaab_team_overrides table)
- * and loaded at runtime. This file contains only the generic matching algorithms.
+ * and loaded at runtime. Matching itself lives in the shared team resolver
+ * (src/lib/teams).
  */
 
+import { resolveTeam } from '../teams';
+
 // ============================================
 // Name Normalization
 // ============================================
@@ -83,69 +86,6 @@ export function normalizeTeamName(name: string): string {
   return normalized.trim();
 }
 
-/**
- * Extract significant words from a team name
- * Removes mascots, normalizes St./State, lowercases
- */
-function getSignificantWords(teamName: string): string[] {
-  let cleaned = teamName.toLowerCase().replace(MASCOT_PATTERN, '').trim();
-  
-  // Normalize State/St.
-  cleaned = cleaned.replace(/\bstate\b/g, 'st');
-  cleaned = cleaned.replace(/\bst\.\b/g, 'st');
-  cleaned = cleaned.replace(/\bsaint\b/g, 'st');
-  
-  // Remove punctuation
-  cleaned = cleaned.replace(/[.']/g, '');
-  
-  // Split into words
-  const words = cleaned.split(/\s+/).filter(w => w.length > 0);
-  
-  return words;
-}
-
-/**
- * Check if two sets of words match
- * All words from BOTH lists must match (bidirectional)
- */
-function wordsMatch(words1: string[], words2: string[]): boolean {
-  if (words1.length === 0 || words2.length === 0) {
-    return false;
-  }
-  
-  // If one has "st" (state) and the other doesn't, they don't match
-  // This prevents "North Dakota" matching "North Dakota St."
-  const has1State = words1.includes('st');
-  const has2State = words2.includes('st');
-  if (has1State !== has2State) {
-    return false;
-  }
-  
-  // Word counts should be the same
-  if (words1.length !== words2.length) {
-    return false;
-  }
-  
-  // All words must match (in any order)
-  for (const word of words1) {
-    const found = words2.some(w => {
-      // Exact match
-      if (w === word) return true;
-      // One starts with the other (for abbreviations like "Fla" -> "Florida")
-      if (w.length >= 3 && word.length >= 3) {
-        if (w.startsWith(word) || word.startsWith(w)) return true;
-      }
-      return false;
-    });
-    
-    if (!found) {
-      return false;
-    }
-  }
-  
-  return true;
-}
-
 // ============================================
 // Team Matching Functions
 // ============================================
@@ -160,51 +100,21 @@ export function fuzzyMatchTeam(name: string): string {
 }
 
 /**
- * Find team rating by name, trying multiple matching strategies
- * This is the main function used for matching ESPN/OddsAPI names to KenPom names
+ * Find team rating by name: an exact key first, then the shared team
+ * resolver against every rated team. Ambiguous names (two teams tie) come
+ * back null so they surface as unmatched rather than picking one.
+ * This is the main function used for matching ESPN/OddsAPI names to KenPom names.
  */
 export function findTeamByName(
   teamName: string,
   ratings: Map<string, number>
 ): { name: string; rating: number } | null {
-  // Strategy 1: Exact match
   if (ratings.has(teamName)) {
     return { name: teamName, rating: ratings.get(teamName)! };
   }
-  
-  // Strategy 2: Case-insensitive exact match
-  const lowerName = teamName.toLowerCase();
-  for (const [name, rating] of ratings) {
-    if (name.toLowerCase() === lowerName) {
-      return { name, rating };
-    }
-  }
-  
-  // Strategy 3: Normalized match (handles State/St., removes mascots)
-  const normalizedInput = normalizeTeamName(teamName);
-  for (const [name, rating] of ratings) {
-    if (normalizeTeamName(name) === normalizedInput) {
-      return { name, rating };
-    }
-  }
-  
-  // Strategy 4: Word-based smart matching
-  const inputWords = getSignificantWords(teamName);
-  
-  if (inputWords.length === 0) {
-    return null;
-  }
-  
-  for (const [name, rating] of ratings) {
-    const ratingWords = getSignificantWords(name);
-    
-    if (wordsMatch(inputWords, ratingWords)) {
-      return { name, rating };
-    }
-  }
-  
-  // No match found
-  return null;
+
+  const { team } = resolveTeam(teamName, [...ratings.keys()]);
+  return team ? { name: team, rating: ratings.get(team)! } : null;
 }
 
 // ============================================
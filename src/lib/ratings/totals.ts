@@ -0,0 +1,189 @@
+// src/lib/ratings/totals.ts
+
+/**
+ * Totals Ratings
+ *
+ * Pace/efficiency companion to the spread engine. Each team carries points
+ * scored and allowed per 100 possessions plus tempo, seeded from KenPom
+ * AdjOE / AdjDE / AdjTempo. A game projects as
+ *
+ *   possessions = homeTempo × awayTempo / avgTempo
+ *   homePoints  = possessions × homeOffense × awayDefense / (avgEfficiency × 100)
+ *
+ * and after it closes the four efficiency terms in play move toward the
+ * closing total the way ratings move toward the closing spread: at fraction
+ * 0.5 the gap closes. Tempo stays at its seed — a closing total can't say
+ * whether the market disagreed on pace or on efficiency.
+ *
+ * Pure functions — no I/O. Tested by scripts/totals.test.ts.
+ */
+
+import { OddsAPIGame, TeamRating } from './types';
+import { DEFAULT_ADJUSTMENT_FRACTION, RATINGS_DECIMAL_PLACES, SPREAD_DECIMAL_PLACES } from './constants';
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// ============================================
+// Types
+// ============================================
+
+/** League averages the matchup formula is scaled by. */
+export interface TotalsBaseline {
+  efficiency: number;  // Points per 100 possessions
+  tempo: number;       // Possessions per 40 minutes
+}
+
+export interface TotalProjection {
+  total: number;
+  possessions: number;
+  homePoints: number;
+  awayPoints: number;
+}
+
+/** The totals half of a GameAdjustment. */
+export interface TotalsAdjustment {
+  projectedTotal: number;
+  closingTotal: number;
+  totalAdjustment: number;
+}
+
+type TotalsRating = TeamRating & { offense: number; defense: number; tempo: number };
+
+// ============================================
+// Seeding
+// ============================================
+
+/** Whether a team has totals ratings (rows seeded before the model lack them). */
+export function hasTotals(rating: TeamRating): rating is TotalsRating {
+  return typeof rating.offense === 'number' && typeof rating.defense === 'number' && typeof rating.tempo === 'number';
+}
+
+/** Seed a team's totals ratings from KenPom. Mutates the rating. */
+export function seedTotals(rating: TeamRating, kenpom: { AdjOE: number; AdjDE: number; AdjTempo: number }): void {
+  rating.offense = kenpom.AdjOE;
+  rating.defense = kenpom.AdjDE;
+  rating.tempo = kenpom.AdjTempo;
+  rating.initialOffense = kenpom.AdjOE;
+  rating.initialDefense = kenpom.AdjDE;
+}
+
+/** Put a team's efficiencies back to their seed, for a replay. */
+export function resetTotals(rating: TeamRating): void {
+  if (rating.initialOffense !== undefined) rating.offense = rating.initialOffense;
+  if (rating.initialDefense !== undefined) rating.defense = rating.initialDefense;
+}
+
+/**
+ * League-average efficiency and tempo from the seeds, or null when no team
+ * has totals ratings. Seeds rather than current values so the baseline
+ * doesn't drift as adjustments accumulate.
+ */
+export function totalsBaseline(ratings: Iterable<TeamRating>): TotalsBaseline | null {
+  let efficiency = 0;
+  let tempo = 0;
+  let count = 0;
+  for (const rating of ratings) {
+    if (!hasTotals(rating)) continue;
+    efficiency += ((rating.initialOffense ?? rating.offense) + (rating.initialDefense ?? rating.defense)) / 2;
+    tempo += rating.tempo;
+    count++;
+  }
+  return count === 0 ? null : { efficiency: efficiency / count, tempo: tempo / count };
+}
+
+// ============================================
+// Projection
+// ============================================
+
+/** Project a game's total, or null when either team lacks totals ratings. */
+export function projectTotal(home: TeamRating, away: TeamRating, baseline: TotalsBaseline): TotalProjection | null {
+  if (!hasTotals(home) || !hasTotals(away)) return null;
+
+  const possessions = (home.tempo * away.tempo) / baseline.tempo;
+  const scale = possessions / (baseline.efficiency * 100);
+  const homePoints = home.offense * away.defense * scale;
+  const awayPoints = away.offense * home.defense * scale;
+
+  return {
+    total: round(homePoints + awayPoints, SPREAD_DECIMAL_PLACES),
+    possessions: round(possessions, SPREAD_DECIMAL_PLACES),
+    homePoints: round(homePoints, SPREAD_DECIMAL_PLACES),
+    awayPoints: round(awayPoints, SPREAD_DECIMAL_PLACES),
+  };
+}
+
+// ============================================
+// Rating Adjustment
+// ============================================
+
+/**
+ * Efficiency move for each of the four terms in a game (both offenses, both
+ * defenses), in points per 100 possessions. The projected total moves by
+ * 2 × fraction × (closing − projected) to first order, matching the spread
+ * engine where each team moves fraction × difference.
+ */
+export function calculateTotalAdjustment(
+  home: TotalsRating,
+  away: TotalsRating,
+  baseline: TotalsBaseline,
+  projectedTotal: number,
+  closingTotal: number,
+  fraction: number = DEFAULT_ADJUSTMENT_FRACTION
+): number {
+  // d(total) / d(each term)
+  const possessions = (home.tempo * away.tempo) / baseline.tempo;
+  const sensitivity = possessions * (home.offense + home.defense + away.offense + away.defense) / (baseline.efficiency * 100);
+  if (sensitivity <= 0) return 0;
+  return round((2 * fraction * (closingTotal - projectedTotal)) / sensitivity, RATINGS_DECIMAL_PLACES);
+}
+
+/**
+ * Project one game's total, move both teams toward the closing total, and
+ * return the totals record. Mutates the two ratings; null (and untouched)
+ * when either team lacks totals ratings.
+ */
+export function applyTotalsGame(
+  home: TeamRating,
+  away: TeamRating,
+  closingTotal: number,
+  baseline: TotalsBaseline,
+  fraction: number = DEFAULT_ADJUSTMENT_FRACTION
+): TotalsAdjustment | null {
+  const projection = projectTotal(home, away, baseline);
+  if (!projection || !hasTotals(home) || !hasTotals(away)) return null;
+
+  const totalAdjustment = calculateTotalAdjustment(home, away, baseline, projection.total, closingTotal, fraction);
+
+  // Positive adjustment: the market expects more points than we did
+  for (const team of [home, away]) {
+    team.offense = round(team.offense + totalAdjustment, RATINGS_DECIMAL_PLACES);
+    team.defense = round(team.defense + totalAdjustment, RATINGS_DECIMAL_PLACES);
+  }
+
+  return { projectedTotal: projection.total, closingTotal, totalAdjustment };
+}
+
+// ============================================
+// Closing Line Extraction
+// ============================================
+
+/** Closing total averaged across the given books' Over lines. */
+export function extractClosingTotal(
+  game: OddsAPIGame,
+  usBookmakerKeys: string[] = ['draftkings', 'fanduel', 'betmgm', 'betrivers']
+): { total: number | null; bookmakers: string[] } {
+  const totals: number[] = [];
+  const bookmakers: string[] = [];
+
+  for (const key of usBookmakerKeys) {
+    const bookmaker = game.bookmakers?.find(b => b.key === key);
+    const over = bookmaker?.markets.find(m => m.key === 'totals')?.outcomes.find(o => o.name === 'Over');
+    if (over?.point === undefined) continue;
+    totals.push(over.point);
+    bookmakers.push(bookmaker?.title || key);
+  }
+
+  if (totals.length === 0) return { total: null, bookmakers: [] };
+  const average = totals.reduce((a, b) => a + b, 0) / totals.length;
+  return { total: round(average, SPREAD_DECIMAL_PLACES), bookmakers };
+}
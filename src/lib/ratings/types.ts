@@ -102,6 +102,12 @@ export interface TeamRating {
   gamesProcessed: number;  // Number of games used in adjustment
   lastUpdated: string;     // ISO timestamp
   conference?: string;
+  // Totals model (see totals.ts); absent on rows seeded before it existed
+  offense?: number;        // Points scored per 100 possessions
+  defense?: number;        // Points allowed per 100 possessions
+  tempo?: number;          // Possessions per 40 minutes
+  initialOffense?: number; // KenPom AdjOE seed
+  initialDefense?: number; // KenPom AdjDE seed
 }
 
 export interface GameAdjustment {
@@ -116,9 +122,12 @@ export interface GameAdjustment {
   closingSpread: number;   // From market
   closingSource: ClosingLineSource;
   difference: number;      // closing - projected
-  adjustment: number;      // difference / 2
+  adjustment: number;      // difference × adjustment fraction
   homeRatingAfter: number;
   awayRatingAfter: number;
+  projectedTotal?: number | null;  // Totals model, before the game
+  closingTotal?: number | null;    // From market
+  totalAdjustment?: number | null; // Efficiency move per team side (pts / 100 poss)
 }
 
 export interface RatingsSnapshot {
@@ -143,6 +152,7 @@ export interface RatingsConfig {
   closingTimeMinutes: number;       // Minutes before game to pull closing line
   season: number;                   // Current season (ending year, e.g., 2026)
   previousSeason: number;           // Previous season for initial ratings
+  adjustmentFraction?: number;      // Share of (closing - projected) each team moves per game (default 0.5)
 }
 
 export interface ClosingLineResult {
@@ -152,6 +162,81 @@ export interface ClosingLineResult {
   timestamp: string;
 }
 
+// ============================================
+// Multi-Sport Market Ratings Types
+// ============================================
+
+export type MarginUnit = 'points' | 'goals' | 'runs';
+
+// Where a season's starting ratings come from:
+// - massey: imported Massey CSV (lacrosse)
+// - power_rating_set: a stored power_rating_sets row (NCAAF)
+// - flat: every team starts at 0 and is added the first time it plays
+export type SeedSource = 'massey' | 'power_rating_set' | 'flat';
+
+// The market the closing margin is read from. Low-scoring sports price a
+// fixed ±1.5 puck/run line, so their margin comes from the moneyline instead.
+export type ClosingMarket = 'spreads' | 'h2h';
+
+export interface SportRatingsConfig {
+  sportKey: string;                 // Odds API sport key, also the ESPN_LEAGUE_MAP key
+  label: string;
+  seed: SeedSource;
+  hca: number;                      // in marginUnit
+  marginUnit: MarginUnit;
+  closingMarket: ClosingMarket;
+  marginSd?: number;                // h2h only: SD of the final margin, to turn a win probability into a margin
+  closingSource: ClosingLineSource;
+  adjustmentFraction: number;
+  defaultSeason: number;
+  seasonDates: { [season: number]: { start: string; end: string } };
+  storage: RatingsTables;
+}
+
+// Tables a sport's ratings live in. Sports sharing the market_* tables set
+// `sport` and every read/write is scoped by the sport column; lacrosse keeps
+// its own tables (no sport column, seed name in massey_name).
+export interface RatingsTables {
+  ratings: string;
+  adjustments: string;
+  config: string;
+  seedNameColumn: string;
+  sport?: string;
+}
+
+export interface SportTeamRating {
+  teamName: string;
+  seedName: string;        // name in the seed source
+  rating: number;
+  initialRating: number;
+  gamesProcessed: number;
+  lastUpdated: string;
+  conference?: string;
+}
+
+export interface SportRatingsSnapshot {
+  asOfDate: string;
+  sport: string;
+  season: number;
+  hca: number;
+  marginUnit: MarginUnit;
+  closingSource: ClosingLineSource;
+  gamesProcessed: number;
+  ratings: SportTeamRating[];
+  adjustments: GameAdjustment[];
+}
+
+// A completed game from ESPN, ready to be priced against the closing line
+export interface CompletedGame {
+  id: string;
+  date: string;
+  homeTeam: string;
+  awayTeam: string;
+  isNeutralSite: boolean;
+  homeScore: number | null;
+  awayScore: number | null;
+}
+
 // ============================================
 // API Response Types
 // ============================================
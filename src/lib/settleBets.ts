@@ -0,0 +1,185 @@
+// src/lib/settleBets.ts
+// Settlement pass over pending bets: pulls each league/date's ESPN finals,
+// grades spread / moneyline / total bets (lib/settlement.ts) and parlay /
+// teaser legs (lib/betLegs.ts), writes status and result, and posts the
+// updated Discord embed. Props, futures, parlays without legs and games with
+// no matching final are flagged review_reason instead.
+// Shared by the cron GET and the admin "Grade now" POST in /api/bets/settle.
+
+import { supabase } from './supabase';
+import { LEAGUES, type ESPNGameScore } from './api';
+import { toBet, type Bet, type BetLeg } from './betService';
+import { postBetToDiscord } from './betShare';
+import { fetchESPNScoreboard, ESPN_LEAGUE_MAP } from './espnScoreboard';
+import { findFinalScore, gradeBet, reviewReasonForType, type Grade } from './settlement';
+import { gradeFromLegs, gradeLeg } from './betLegs';
+
+// Pending bets older than this are left to the review queue
+const LOOKBACK_DAYS = 14;
+
+export interface GradedBet {
+  id: string;
+  bet: string;
+  status: string;
+  result: string;
+}
+
+export interface SettlementResult {
+  checked: number;
+  graded: GradedBet[];
+  inProgress: number;   // matched but not final yet
+  flagged: number;      // newly sent to the review queue
+  errors: string[];
+}
+
+// Bet dates are US calendar dates; ESPN's scoreboard days are Eastern too
+const easternDate = (d: Date) => d.toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+
+const sportKeyFor = (league: string) => LEAGUES.find((l) => l.name === league)?.id;
+
+async function flag(bet: Bet, reason: string): Promise<boolean> {
+  if (bet.reviewReason === reason) return false;
+  const { error } = await supabase.from('bets').update({ review_reason: reason }).eq('id', bet.id);
+  if (error) throw new Error(error.message);
+  return true;
+}
+
+export async function settlePendingBets(now: Date = new Date()): Promise<SettlementResult> {
+  const result: SettlementResult = { checked: 0, graded: [], inProgress: 0, flagged: 0, errors: [] };
+  const today = easternDate(now);
+  const since = easternDate(new Date(now.getTime() - LOOKBACK_DAYS * 86_400_000));
+
+  const { data, error } = await supabase
+    .from('bets')
+    .select('*')
+    .eq('deleted', false)
+    .eq('status', 'pending')
+    .gte('event_date', since)
+    .lte('event_date', today);
+  if (error) throw new Error(`bets: ${error.message}`);
+
+  const webhook = process.env.DISCORD_WEBHOOK_URL;
+  const scoreboards = new Map<string, ESPNGameScore[]>();
+  const scoreboard = async (sportKey: string, date: string) => {
+    const key = `${sportKey}|${date}`;
+    if (!scoreboards.has(key)) scoreboards.set(key, await fetchESPNScoreboard(sportKey, date));
+    return scoreboards.get(key)!;
+  };
+
+  // One leg: its grade, null while it's still to play, or why it can't be graded
+  const settleLeg = async (leg: BetLeg, teaserPoints?: number): Promise<Grade | string | null> => {
+    if (leg.eventDate > today) return null;
+    const sportKey = sportKeyFor(leg.league);
+    if (!sportKey || !ESPN_LEAGUE_MAP[sportKey]) return `No ESPN scoreboard for ${leg.league}`;
+    const final = findFinalScore(leg, await scoreboard(sportKey, leg.eventDate));
+    if (!final) return leg.eventDate < today ? 'No matching game on the scoreboard' : null;
+    if (final.score.state !== 'post') return null;
+    return gradeLeg(leg, final, teaserPoints) ?? "Couldn't tell which side the leg is on";
+  };
+
+  for (const row of data ?? []) {
+    const bet = toBet(row);
+    result.checked++;
+    try {
+      const typeReason = reviewReasonForType(bet);
+      if (typeReason) {
+        // Only once the event date has passed, so today's props don't flood the queue
+        if (bet.eventDate < today && await flag(bet, typeReason)) result.flagged++;
+        continue;
+      }
+
+      if (bet.legs?.length) {
+        const teaserPoints = bet.betType === 'teaser' ? bet.teaserPoints : undefined;
+        const legs = [...bet.legs];
+        const problems: string[] = [];
+        for (let i = 0; i < legs.length; i++) {
+          if (legs[i].status !== 'pending') continue;
+          const outcome = await settleLeg(legs[i], teaserPoints);
+          if (typeof outcome === 'string') problems.push(`Leg ${i + 1}: ${outcome}`);
+          else if (outcome) legs[i] = { ...legs[i], status: outcome.status, result: outcome.result };
+        }
+        const changed = legs.some((l, i) => l !== bet.legs![i]);
+        const grade = gradeFromLegs({ ...bet, legs });
+
+        if (changed || grade) {
+          const { error: updateError } = await supabase
+            .from('bets')
+            .update(grade
+              ? {
+                legs, status: grade.status, result: grade.result, review_reason: null, settled_at: now.toISOString(),
+                // The ticket keeps its price; a push-reduced payout is stored beside it
+                payout_odds: grade.odds !== bet.odds ? grade.odds : null,
+              }
+              : { legs })
+            .eq('id', bet.id);
+          if (updateError) throw new Error(updateError.message);
+        }
+        if (!grade) {
+          const pending = legs.some((l) => l.status === 'pending');
+          const reason = problems[0] ?? (pending ? null : "Reduced price after a push isn't on the card");
+          if (reason && await flag(bet, reason)) result.flagged++;
+          else if (!reason) result.inProgress++;
+          continue;
+        }
+
+        result.graded.push({ id: bet.id, bet: bet.bet, status: grade.status, result: grade.result });
+        if (webhook) {
+          try {
+            await postBetToDiscord({ ...bet, legs, status: grade.status }, webhook);
+          } catch (err) {
+            result.errors.push(`${bet.id} discord: ${err instanceof Error ? err.message : String(err)}`);
+          }
+        }
+        continue;
+      }
+
+      const sportKey = sportKeyFor(bet.league);
+      if (!sportKey || !ESPN_LEAGUE_MAP[sportKey]) {
+        if (await flag(bet, `No ESPN scoreboard for ${bet.league}`)) result.flagged++;
+        continue;
+      }
+
+      const final = findFinalScore(bet, await scoreboard(sportKey, bet.eventDate));
+
+      if (!final) {
+        if (bet.eventDate < today && await flag(bet, 'No matching game on the scoreboard')) result.flagged++;
+        continue;
+      }
+      if (final.score.state !== 'post') {
+        result.inProgress++;
+        continue;
+      }
+
+      const grade = gradeBet(bet, final);
+      if (!grade) {
+        if (await flag(bet, "Couldn't tell which side the bet is on")) result.flagged++;
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from('bets')
+        .update({
+          status: grade.status,
+          result: grade.result,
+          review_reason: null,
+          settled_at: now.toISOString(),
+        })
+        .eq('id', bet.id);
+      if (updateError) throw new Error(updateError.message);
+      result.graded.push({ id: bet.id, bet: bet.bet, ...grade });
+
+      // Discord is best-effort — the grade is already stored
+      if (webhook) {
+        try {
+          await postBetToDiscord({ ...bet, status: grade.status }, webhook);
+        } catch (err) {
+          result.errors.push(`${bet.id} discord: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+    } catch (err) {
+      result.errors.push(`${bet.id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,111 @@
+// src/lib/settlement.ts
+// Grading straight bets from final scores: find the bet's game on an ESPN
+// scoreboard, then settle spread / moneyline / total as won, lost or push.
+// Anything that can't be graded from a final score alone goes to the review
+// queue with a reason instead of being guessed at.
+// Pure functions — no I/O. Tested by scripts/bets.test.ts.
+
+import type { Bet, BetStatus } from './betService';
+import type { ESPNGameScore } from './api';
+import { teamsMatch } from './api';
+import { parseBetSelection } from './clv';
+
+// Leagues where a moneyline is 3-way, so a draw loses a team ML
+const THREE_WAY_LEAGUES = ['MLS', 'EPL'];
+
+export interface FinalScore {
+  homeScore: number;
+  awayScore: number;
+  score: ESPNGameScore;   // raw ESPN row (its home/away may be flipped at neutral sites)
+}
+
+export interface Grade {
+  status: Exclude<BetStatus, 'pending'>;
+  result: string;
+}
+
+/** Why a pending bet can't be auto-graded by type, or null if it can. */
+export function reviewReasonForType(bet: Pick<Bet, 'betType' | 'legs'>): string | null {
+  switch (bet.betType) {
+    case 'spread':
+    case 'moneyline':
+    case 'total':
+      return null;
+    case 'prop':
+      return 'Props are graded by hand';
+    case 'future':
+      return 'Futures are graded by hand';
+    default:
+      // Structured legs grade one by one (lib/betLegs.ts)
+      return bet.legs?.length ? null : 'Parlays and teasers without legs are graded by hand';
+  }
+}
+
+/**
+ * The bet's game on a scoreboard, with the score oriented to the bet's own
+ * home/away. Both teams must match; a swapped match covers neutral-site games
+ * ESPN lists the other way round. Returns null when nothing matches or when
+ * more than one game does.
+ */
+export function findFinalScore(bet: Pick<Bet, 'homeTeam' | 'awayTeam' | 'league'>, scores: ESPNGameScore[]): FinalScore | null {
+  if (!bet.homeTeam || !bet.awayTeam) return null;
+  const matches: FinalScore[] = [];
+  const same = (a: string, b: string) => teamsMatch(a, b, bet.league);
+  for (const score of scores) {
+    const home = parseFloat(score.homeScore);
+    const away = parseFloat(score.awayScore);
+    if (same(bet.homeTeam, score.homeTeam) && same(bet.awayTeam, score.awayTeam)) {
+      matches.push({ homeScore: home, awayScore: away, score });
+    } else if (same(bet.homeTeam, score.awayTeam) && same(bet.awayTeam, score.homeTeam)) {
+      matches.push({ homeScore: away, awayScore: home, score });
+    }
+  }
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Grade a straight bet against a final score. Returns null when the wagered
+ * side can't be pinned to one team — those go to review rather than a guess.
+ */
+export function gradeBet(
+  bet: Pick<Bet, 'betType' | 'bet' | 'team' | 'homeTeam' | 'awayTeam' | 'league'>,
+  final: FinalScore,
+): Grade | null {
+  const selection = parseBetSelection(bet);
+  if (!selection) return null;
+  const { homeScore, awayScore } = final;
+  const home = bet.homeTeam ?? '';
+  const away = bet.awayTeam ?? '';
+  const scoreLine = `Final: ${away} ${awayScore}, ${home} ${homeScore}`;
+
+  const settle = (margin: number): Grade => ({
+    status: margin > 0 ? 'won' : margin < 0 ? 'lost' : 'push',
+    result: scoreLine,
+  });
+
+  if (selection.market === 'totals') {
+    if (selection.point === null) return null;
+    const total = homeScore + awayScore;
+    return settle(selection.side === 'Over' ? total - selection.point : selection.point - total);
+  }
+
+  // Exact names first; fuzzy matching only when it points at one team
+  let isHome: boolean;
+  if (selection.side === home) isHome = true;
+  else if (selection.side === away) isHome = false;
+  else {
+    const h = teamsMatch(selection.side, home, bet.league);
+    const a = teamsMatch(selection.side, away, bet.league);
+    if (h === a) return null;
+    isHome = h;
+  }
+  const margin = isHome ? homeScore - awayScore : awayScore - homeScore;
+
+  if (selection.market === 'spreads') {
+    return settle(margin + (selection.point ?? 0));
+  }
+  if (margin === 0 && THREE_WAY_LEAGUES.includes(bet.league)) {
+    return { status: 'lost', result: scoreLine };
+  }
+  return settle(margin);
+}
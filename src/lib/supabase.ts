@@ -1,6 +1,7 @@
 // src/lib/supabase.ts
 
 import { createClient } from '@supabase/supabase-js';
+import type { BetLeg } from './betService';
 
 // These will come from your .env.local file
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -22,7 +23,7 @@ export interface DatabaseBet {
   away_team?: string;
   home_team?: string;
   team?: string;
-  bet_type: 'spread' | 'moneyline' | 'total' | 'prop' | 'parlay' | 'future';
+  bet_type: 'spread' | 'moneyline' | 'total' | 'prop' | 'parlay' | 'teaser' | 'future';
   bet: string;
   odds: number;
   stake: number;
@@ -31,5 +32,15 @@ export interface DatabaseBet {
   payout?: number;
   book?: string;
   notes?: string;
+  parlay_teams?: string[] | null;
+  legs?: BetLeg[] | null;
+  teaser_points?: number | null;
+  payout_odds?: number | null;
+  closing_line?: number | null;
+  closing_odds?: number | null;
+  closing_source?: string | null;
+  closing_captured_at?: string | null;
+  review_reason?: string | null;
+  settled_at?: string | null;
   deleted: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,183 @@
+// src/lib/teamTrends.ts
+// Betting context for the team pages: each completed game scored against its
+// closing spread and total (ATS / over-under result and cover margin), the
+// season's splits by home/away, favourite/underdog and conference, and the
+// tracked bets that belong to the team's games.
+// Pure functions — no I/O. Tested by scripts/teamTrends.test.ts.
+
+import type { Bet } from './betService';
+import { calculateProfit, paidOdds } from './betProfit';
+import { namesMatch } from './teams';
+
+export type AtsResult = 'W' | 'L' | 'P';
+export type OuResult = 'O' | 'U' | 'P';
+
+export interface GameClose {
+  spread: number | null;          // team-relative closing spread (negative = team favoured)
+  atsRes: AtsResult | null;
+  coverMargin: number | null;     // margin + spread: > 0 covered by that many
+  total: number | null;
+  ouRes: OuResult | null;
+  totalMargin: number | null;     // points − total: > 0 went over by that many
+  source: 'snapshots' | 'espn';   // our stored close, else ESPN's line
+}
+
+/**
+ * Score one final against its close. `margin` is team minus opponent,
+ * `points` both teams' combined score. Null when there is no line at all.
+ */
+export function scoreClose(
+  margin: number,
+  points: number,
+  line: { spread: number | null; total: number | null },
+  source: GameClose['source'],
+): GameClose | null {
+  if (line.spread === null && line.total === null) return null;
+  const coverMargin = line.spread === null ? null : margin + line.spread;
+  const totalMargin = line.total === null ? null : points - line.total;
+  return {
+    spread: line.spread,
+    atsRes: coverMargin === null ? null : coverMargin > 0 ? 'W' : coverMargin < 0 ? 'L' : 'P',
+    coverMargin,
+    total: line.total,
+    ouRes: totalMargin === null ? null : totalMargin > 0 ? 'O' : totalMargin < 0 ? 'U' : 'P',
+    totalMargin,
+    source,
+  };
+}
+
+// ============================================
+// Splits
+// ============================================
+
+export interface TrendGame {
+  home: boolean;
+  neutral: boolean;
+  conference: boolean;
+  closing: GameClose | null;
+}
+
+export type TrendSplit = 'all' | 'home' | 'away' | 'favourite' | 'underdog' | 'conference' | 'nonConference';
+
+export const TREND_SPLITS: { key: TrendSplit; label: string }[] = [
+  { key: 'all', label: 'Overall' },
+  { key: 'home', label: 'Home' },
+  { key: 'away', label: 'Away' },
+  { key: 'favourite', label: 'Favourite' },
+  { key: 'underdog', label: 'Underdog' },
+  { key: 'conference', label: 'Conference' },
+  { key: 'nonConference', label: 'Non-conf' },
+];
+
+export interface TrendRecord {
+  ats: { w: number; l: number; p: number };
+  ou: { o: number; u: number; p: number };
+  avgCover: number | null;        // mean cover margin over games with a spread
+}
+
+// Neutral-site games are neither home nor away; pick'ems neither favourite nor dog
+const SPLIT_FILTERS: Record<TrendSplit, (g: TrendGame) => boolean> = {
+  all: () => true,
+  home: (g) => g.home && !g.neutral,
+  away: (g) => !g.home && !g.neutral,
+  favourite: (g) => (g.closing?.spread ?? 0) < 0,
+  underdog: (g) => (g.closing?.spread ?? 0) > 0,
+  conference: (g) => g.conference,
+  nonConference: (g) => !g.conference,
+};
+
+function trendRecord(games: TrendGame[]): TrendRecord {
+  const record: TrendRecord = { ats: { w: 0, l: 0, p: 0 }, ou: { o: 0, u: 0, p: 0 }, avgCover: null };
+  const covers: number[] = [];
+  for (const { closing } of games) {
+    if (!closing) continue;
+    if (closing.atsRes === 'W') record.ats.w++;
+    else if (closing.atsRes === 'L') record.ats.l++;
+    else if (closing.atsRes === 'P') record.ats.p++;
+    if (closing.ouRes === 'O') record.ou.o++;
+    else if (closing.ouRes === 'U') record.ou.u++;
+    else if (closing.ouRes === 'P') record.ou.p++;
+    if (closing.coverMargin !== null) covers.push(closing.coverMargin);
+  }
+  if (covers.length) record.avgCover = Math.round((covers.reduce((a, b) => a + b, 0) / covers.length) * 10) / 10;
+  return record;
+}
+
+/** ATS / O-U records for every split over the games with a close. */
+export function teamTrends(games: TrendGame[]): Record<TrendSplit, TrendRecord> {
+  const scored = games.filter((g) => g.closing);
+  return Object.fromEntries(
+    TREND_SPLITS.map(({ key }) => [key, trendRecord(scored.filter(SPLIT_FILTERS[key]))])
+  ) as Record<TrendSplit, TrendRecord>;
+}
+
+/** "7-4-1" — the push count only when there is one. */
+export function formatRecord(a: number, b: number, push: number): string {
+  return `${a}-${b}${push ? `-${push}` : ''}`;
+}
+
+// ============================================
+// Tracked bets
+// ============================================
+
+export interface TeamBet {
+  id: string;
+  eventDate: string;
+  betType: Bet['betType'];
+  bet: string;
+  odds: number;
+  stake: number;
+  status: Bet['status'];
+  book: string | null;
+  profit: number | null;          // settled bets only
+  gameId: string | null;          // schedule game the bet was on, when found
+}
+
+export interface BetScheduleGame {
+  id: string;
+  date: string;                   // ISO kickoff
+  opponent: string;
+}
+
+const DAY_MS = 86_400_000;
+
+const betTeams = (bet: Bet) => [bet.homeTeam, bet.awayTeam, bet.team].filter((t): t is string => !!t);
+
+/** True when the bet names the team (either side, or the side it backs). */
+export function betInvolvesTeam(bet: Bet, teamName: string): boolean {
+  return betTeams(bet).some((t) => namesMatch(t, teamName));
+}
+
+/**
+ * The team's bets, newest first, each tied to the schedule game against the
+ * same opponent within a day of the bet's event date (event dates are local
+ * calendar days, kickoffs UTC).
+ */
+export function teamBets(bets: Bet[], teamName: string, schedule: BetScheduleGame[]): TeamBet[] {
+  return bets
+    .filter((bet) => betInvolvesTeam(bet, teamName))
+    .map((bet) => {
+      const eventAt = new Date(`${bet.eventDate}T12:00:00Z`).getTime();
+      const game = schedule.find((g) =>
+        Math.abs(new Date(g.date).getTime() - eventAt) <= DAY_MS &&
+        betTeams(bet).some((t) => namesMatch(t, g.opponent))
+      );
+      const profit = bet.status === 'won' ? calculateProfit(bet.stake, paidOdds(bet))
+        : bet.status === 'lost' ? -bet.stake
+        : bet.status === 'push' ? 0
+        : null;
+      return {
+        id: bet.id,
+        eventDate: bet.eventDate,
+        betType: bet.betType,
+        bet: bet.bet,
+        odds: bet.odds,
+        stake: bet.stake,
+        status: bet.status,
+        book: bet.book ?? null,
+        profit: profit === null ? null : Math.round(profit * 100) / 100,
+        gameId: game?.id ?? null,
+      };
+    })
+    .sort((a, b) => b.eventDate.localeCompare(a.eventDate));
+}
@@ -0,0 +1,8 @@
+// src/lib/teams/index.ts
+// Entry point for team-name reconciliation. Anything comparing team names
+// across sources goes through resolveTeam (one name against a league's
+// registry) or namesMatch (two names head to head) rather than its own
+// mascot/first-word heuristics.
+
+export * from './registry';
+export * from './resolver';
@@ -0,0 +1,151 @@
+// src/lib/teams/registry.ts
+// Canonical teams per league with the names each source uses for them. The
+// canonical name is the league's rating source — KenPom for NCAAB, Massey for
+// lacrosse, the power-rating sheet for NCAAF, the Odds API's full name for
+// the pro leagues. Per-source aliases come from the override tables
+// (ncaab_team_overrides, lacrosse_team_overrides) plus the few fixed ones
+// below that every deployment needs.
+// Pure functions — no I/O. Tested by scripts/teams.test.ts.
+
+export type TeamSource = 'odds_api' | 'kalshi' | 'espn' | 'kenpom' | 'torvik' | 'sbr' | 'cfbd' | 'fei' | 'massey';
+
+export const TEAM_SOURCES: { id: TeamSource; label: string }[] = [
+  { id: 'odds_api', label: 'Odds API' },
+  { id: 'kalshi', label: 'Kalshi' },
+  { id: 'espn', label: 'ESPN' },
+  { id: 'kenpom', label: 'KenPom' },
+  { id: 'torvik', label: 'Torvik' },
+  { id: 'sbr', label: 'SBR' },
+  { id: 'cfbd', label: 'CFBD' },
+  { id: 'fei', label: 'FEI' },
+  { id: 'massey', label: 'Massey' },
+];
+
+export interface TeamAlias {
+  name: string;
+  source?: TeamSource;   // unset: a name seen from an unrecorded source (an override's source_name)
+}
+
+export interface TeamRecord {
+  name: string;          // canonical
+  aliases: TeamAlias[];
+}
+
+// Fixed aliases by league → canonical name. Names here are ones no fuzzy
+// rule should be trusted to find: a different word entirely, or a
+// parenthetical the other source leaves off.
+export const STATIC_ALIASES: Record<string, Record<string, TeamAlias[]>> = {
+  MLB: {
+    'Athletics': [{ name: "A's", source: 'kalshi' }, { name: 'Oakland Athletics', source: 'espn' }],
+  },
+  NBA: {
+    'Los Angeles Clippers': [{ name: 'LA Clippers', source: 'espn' }],
+  },
+  NCAAB: {
+    'Connecticut': [{ name: 'UConn', source: 'espn' }],
+    'Mississippi': [{ name: 'Ole Miss', source: 'espn' }],
+    'Grambling St.': [{ name: 'Grambling', source: 'espn' }],
+    'McNeese St.': [{ name: 'McNeese', source: 'espn' }],
+  },
+  EPL: {
+    'Brighton and Hove Albion': [{ name: 'Brighton & Hove Albion', source: 'espn' }, { name: 'Brighton', source: 'espn' }],
+  },
+  NCAAF: {
+    'Miami (FL)': [{ name: 'Miami Hurricanes', source: 'odds_api' }],
+    'USF': [{ name: 'South Florida Bulls', source: 'odds_api' }, { name: 'South Florida', source: 'cfbd' }],
+    'Florida Atlantic': [{ name: 'FAU Owls', source: 'odds_api' }],
+    'UL-Lafayette': [{ name: "Louisiana Ragin' Cajuns", source: 'odds_api' }, { name: 'Louisiana', source: 'cfbd' }],
+    'Connecticut': [{ name: 'UConn Huskies', source: 'odds_api' }, { name: 'UConn', source: 'cfbd' }],
+    'Massachusetts': [{ name: 'UMass Minutemen', source: 'odds_api' }],
+    'Sam Houston State': [{ name: 'Sam Houston Bearkats', source: 'odds_api' }, { name: 'Sam Houston', source: 'cfbd' }],
+    'FIU': [{ name: 'Florida International Panthers', source: 'odds_api' }],
+    'Southern Miss': [{ name: 'Southern Mississippi Golden Eagles', source: 'odds_api' }],
+  },
+};
+
+// "MLB" or an Odds API sport key ("baseball_mlb", futures'
+// "baseball_mlb_world_series_winner") → STATIC_ALIASES key
+const leagueKey = (league: string) => {
+  const parts = league.toUpperCase().split('_');
+  return parts.find((p) => p in STATIC_ALIASES) ?? parts[parts.length - 1];
+};
+
+/**
+ * Registry for a league (its name or Odds API sport key): every canonical
+ * name, with its fixed aliases and any extra alias rows (from an override
+ * table) attached. Aliases for a canonical name that isn't in `names` still
+ * get a record — an override can name a team before the rating source lists it.
+ */
+export function buildRegistry(
+  league: string,
+  names: string[],
+  extra: { canonical: string; alias: TeamAlias }[] = [],
+): TeamRecord[] {
+  const byName = new Map<string, TeamRecord>(names.map((n) => [n, { name: n, aliases: [] }]));
+  const add = (canonical: string, alias: TeamAlias) => {
+    if (!alias.name || alias.name === canonical) return;
+    let rec = byName.get(canonical);
+    if (!rec) byName.set(canonical, (rec = { name: canonical, aliases: [] }));
+    if (!rec.aliases.some((a) => a.name === alias.name && a.source === alias.source)) rec.aliases.push(alias);
+  };
+  for (const [canonical, aliases] of Object.entries(STATIC_ALIASES[leagueKey(league)] ?? {})) {
+    if (!byName.has(canonical) && names.length) continue;
+    for (const a of aliases) add(canonical, a);
+  }
+  for (const { canonical, alias } of extra) add(canonical, alias);
+  return [...byName.values()];
+}
+
+// Override-row shapes, as the ratings and lacrosse loaders return them
+interface NcaabOverrideRow {
+  sourceName: string;
+  kenpomName: string;
+  espnName?: string;
+  oddsApiName?: string;
+  torvikName?: string;
+  sbrName?: string;
+  kalshiName?: string;
+}
+
+interface LacrosseOverrideRow {
+  sourceName: string;
+  masseyName: string;
+  espnName?: string;
+  oddsApiName?: string;
+}
+
+/** Alias rows from ncaab_team_overrides: one per filled-in source column. */
+export function ncaabOverrideAliases(rows: NcaabOverrideRow[]): { canonical: string; alias: TeamAlias }[] {
+  return rows.flatMap((r) => {
+    const named: [string | undefined, TeamSource | undefined][] = [
+      [r.sourceName, undefined],
+      [r.espnName, 'espn'],
+      [r.oddsApiName, 'odds_api'],
+      [r.torvikName, 'torvik'],
+      [r.sbrName, 'sbr'],
+      [r.kalshiName, 'kalshi'],
+    ];
+    return named
+      .filter((n): n is [string, TeamSource | undefined] => !!n[0])
+      .map(([name, source]) => ({ canonical: r.kenpomName, alias: source ? { name, source } : { name } }));
+  });
+}
+
+/** Alias rows from lacrosse_team_overrides. */
+export function lacrosseOverrideAliases(rows: LacrosseOverrideRow[]): { canonical: string; alias: TeamAlias }[] {
+  return rows.flatMap((r) => {
+    const named: [string | undefined, TeamSource | undefined][] = [
+      [r.sourceName, undefined],
+      [r.espnName, 'espn'],
+      [r.oddsApiName, 'odds_api'],
+    ];
+    return named
+      .filter((n): n is [string, TeamSource | undefined] => !!n[0])
+      .map(([name, source]) => ({ canonical: r.masseyName, alias: source ? { name, source } : { name } }));
+  });
+}
+
+/** Every name a source uses, from a registry's aliases — for spotting names no team claims. */
+export function sourceNames(registry: TeamRecord[], source: TeamSource): Set<string> {
+  return new Set(registry.flatMap((t) => t.aliases.filter((a) => a.source === source).map((a) => a.name)));
+}
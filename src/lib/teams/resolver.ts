@@ -0,0 +1,315 @@
+// src/lib/teams/resolver.ts
+// One team-name resolver for every source. A name is compared against each
+// team's canonical name and its source aliases, and every method carries a
+// confidence: exact and alias hits are certain, school-plus-mascot is close
+// behind, word/abbreviation/prefix matches are weaker, and a mascot alone
+// ("Bulldogs") only counts when nothing else claims the name. When two teams
+// tie for the best score the match is ambiguous and resolves to nothing —
+// that goes to the Overrides tab for a human rather than to a guess.
+// Pure functions — no I/O. Tested by scripts/teams.test.ts.
+
+import { buildRegistry, type TeamRecord, type TeamSource } from './registry';
+
+export type MatchMethod = 'alias' | 'exact' | 'school' | 'words' | 'abbrev' | 'prefix' | 'nickname' | 'none';
+
+export const METHOD_CONFIDENCE: Record<MatchMethod, number> = {
+  alias: 1,
+  exact: 1,
+  school: 0.9,      // "Duke Blue Devils" ↔ "Duke"
+  words: 0.7,       // same words, abbreviated or reordered: "Fla Atlantic" ↔ "Florida Atlantic"
+  abbrev: 0.7,      // Kalshi's trailing initials: "Chicago WS" ↔ "Chicago White Sox"
+  prefix: 0.65,     // school then unknown words: "Ohio State Buckeyes" ↔ "Ohio State" with no mascot on file
+  nickname: 0.6,    // mascot alone: "Lakers" ↔ "Los Angeles Lakers"
+  none: 0,
+};
+
+/** Lowest confidence that counts as a match. */
+export const MIN_CONFIDENCE = 0.6;
+
+/** Runner-up this close to the best makes the resolution ambiguous. */
+export const AMBIGUITY_MARGIN = 0.05;
+
+export interface NameMatch {
+  method: MatchMethod;
+  confidence: number;
+}
+
+export interface TeamCandidate extends NameMatch {
+  team: string;          // canonical name
+}
+
+export interface TeamResolution extends NameMatch {
+  team: string | null;   // null when nothing clears MIN_CONFIDENCE or the top is a tie
+  ambiguous: boolean;
+  candidates: TeamCandidate[];   // best first, up to five
+}
+
+// Mascots that may trail a school name, normalized. Union of the lists the
+// ratings, FEI and odds matchers each used to keep.
+const COLLEGE_MASCOTS = [
+  '49ers', 'aggies', 'anteaters', 'antelopes', 'aztecs', 'badgers', 'beach', 'bearcats', 'bearkats',
+  'bears', 'beavers', 'bengals', 'big green', 'big red', 'billikens', 'bison', 'black bears',
+  'black knights', 'blackbirds', 'blazers', 'blue demons', 'blue devils', 'blue hens', 'blue hose',
+  'blue raiders', 'bluejays', 'bobcats', 'boilermakers', 'bonnies', 'braves', 'broncos', 'broncs',
+  'bruins', 'buccaneers', 'buckeyes', 'buffaloes', 'bulldogs', 'bulls', 'camels', 'cardinal',
+  'cardinals', 'catamounts', 'cavaliers', 'chanticleers', 'chippewas', 'colonels', 'colonials',
+  'commodores', 'cornhuskers', 'cougars', 'cowboys', 'coyotes', 'crimson', 'crimson tide',
+  'crusaders', 'cyclones', 'demon deacons', 'dolphins', 'dons', 'ducks', 'dukes', 'eagles', 'elis',
+  'explorers', 'falcons', 'fighting camels', 'fighting hawks', 'fighting illini', 'fighting irish',
+  'flames', 'flyers', 'friars', 'gaels', 'gamecocks', 'gators', 'gauchos', 'golden bears',
+  'golden eagles', 'golden flashes', 'golden gophers', 'golden griffins', 'golden grizzlies',
+  'golden hurricane', 'golden lions', 'gophers', 'governors', 'great danes', 'green wave', 'griffins',
+  'grizzlies', 'hatters', 'hawkeyes', 'hawks', 'highlanders', 'hilltoppers', 'hokies', 'hoosiers',
+  'horned frogs', 'hornets', 'hoyas', 'hurricanes', 'huskies', 'ichabods', 'illini', 'jackrabbits',
+  'jaguars', 'jaspers', 'jayhawks', 'johnnies', 'keydets', 'knights', 'lakers', 'lancers',
+  'leathernecks', 'leopards', 'lions', 'lobos', 'longhorns', 'lumberjacks', 'mastodons', 'matadors',
+  'mavericks', 'mean green', 'midshipmen', 'miners', 'minutemen', 'mocs', 'monarchs', 'mountain hawks',
+  'mountaineers', 'musketeers', 'mustangs', 'nittany lions', 'orange', 'ospreys', 'owls', 'paladins',
+  'panthers', 'patriots', 'peacocks', 'penguins', 'phoenix', 'pilots', 'pioneers', 'pirates',
+  'purple aces', 'purple eagles', 'quakers', 'racers', 'raging cajuns', 'ragin cajuns',
+  'rainbow warriors', 'ramblers', 'rams', 'rattlers', 'razorbacks', 'rebels', 'red flash', 'red foxes',
+  'red raiders', 'red storm', 'red wolves', 'redbirds', 'redhawks', 'retrievers', 'revolutionaries',
+  'river hawks', 'roadrunners', 'rockets', 'roos', 'royals', 'salukis', 'scarlet knights',
+  'screaming eagles', 'sea wolves', 'seahawks', 'seawolves', 'seminoles', 'shockers', 'skyhawks',
+  'sooners', 'spartans', 'spiders', 'stags', 'sun devils', 'sycamores', 'tar heels', 'terrapins',
+  'terriers', 'texans', 'thunderbirds', 'thundering herd', 'tigers', 'titans', 'toreros', 'tribe',
+  'tritons', 'trojans', 'utes', 'vandals', 'vikings', 'volunteers', 'warhawks', 'warriors', 'waves',
+  'wildcats', 'wolf pack', 'wolfpack', 'wolverines', 'yellow jackets', 'yellowjackets', 'zags', 'zips',
+];
+
+// Pro nicknames, so "Los Angeles" alone is a tie between the Lakers and the
+// Clippers instead of a prefix win for whichever one isn't listed
+const PRO_NICKNAMES = [
+  '76ers', 'aces', 'angels', 'astros', 'athletics', 'avalanche', 'blackhawks', 'blazers', 'blue jackets',
+  'blue jays', 'blues', 'bills', 'browns', 'bucks', 'canadiens', 'canucks', 'capitals', 'celtics',
+  'chargers', 'chiefs', 'clippers', 'colts', 'commanders', 'cubs', 'devils', 'diamondbacks', 'dodgers',
+  'dream', 'fever', 'giants', 'golden knights', 'guardians', 'heat', 'islanders', 'jazz', 'jets',
+  'kings', 'knicks', 'kraken', 'liberty', 'lightning', 'lynx', 'magic', 'mammoth', 'mariners',
+  'marlins', 'maple leafs', 'mercury', 'mets', 'mystics', 'nationals', 'nets', 'nuggets', 'oilers',
+  'orioles', 'packers', 'padres', 'pelicans', 'phillies', 'pistons', 'predators', 'raiders', 'raptors',
+  'ravens', 'rays', 'red sox', 'red wings', 'reds', 'rockies', 'sabres', 'saints', 'senators',
+  'sharks', 'sky', 'sparks', 'spurs', 'stars', 'steelers', 'storm', 'suns', 'sun', 'thunder',
+  'timberwolves', 'trail blazers', 'twins', 'valkyries', 'vikings', 'white sox', 'wild', 'wings',
+  'wizards', 'yankees',
+];
+
+const MASCOTS = new Set([...COLLEGE_MASCOTS, ...PRO_NICKNAMES]);
+
+// If a name continues past a shorter one with one of these words, it's a
+// DIFFERENT school ("Tennessee State" ≠ "Tennessee", "Kansas City" ≠ "Kansas").
+const DIFFERENT_SCHOOL_CONTINUATIONS = new Set([
+  'st', 'a', 'am', 'tech', 'southern', 'central', 'western', 'eastern', 'northern', 'baptist',
+  'christian', 'valley', 'wesleyan', 'atlantic', 'international', 'city', 'martin', 'monroe',
+  'lafayette', 'upstate', 'wilmington', 'greensboro', 'asheville', 'charlotte', 'chattanooga',
+  'pine', 'little', 'corpus', 'commerce', 'kennesaw', 'poly', 'methodist', 'pacific', 'gulf',
+]);
+
+// Initialisms spelled out so both forms compare equal
+const ABBREVIATIONS: [RegExp, string][] = [
+  [/\bcsu\b/g, 'cal st'],
+  [/\buc\b/g, 'california'],
+  [/\busc\b/g, 'southern california'],
+  [/\bsmu\b/g, 'southern methodist'],
+  [/\btcu\b/g, 'texas christian'],
+  [/\buab\b/g, 'alabama birmingham'],
+  [/\bucf\b/g, 'central florida'],
+  [/\bvcu\b/g, 'virginia commonwealth'],
+  [/\butep\b/g, 'texas el paso'],
+  [/\butsa\b/g, 'texas san antonio'],
+  [/\bunlv\b/g, 'nevada las vegas'],
+];
+
+/**
+ * Comparable form of a team name: lowercase, no accents or punctuation,
+ * "State"/"Saint" both "st", "A&M" as "am", parenthetical tags inline
+ * ("Miami (OH)" → "miami oh"), common initialisms spelled out.
+ */
+export function normalizeName(name: string): string {
+  let n = name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/[&'’.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\b(state|saint)\b/g, 'st')
+    .trim();
+  for (const [re, full] of ABBREVIATIONS) n = n.replace(re, full);
+  return n;
+}
+
+/** Parenthetical disambiguator, e.g. "Miami (OH) RedHawks" → "oh". */
+const parenTag = (name: string) => normalizeName(name.match(/\(([^)]*)\)/)?.[1] ?? '');
+
+interface Parsed {
+  words: string[];
+  school: string[];      // words with a trailing mascot removed (same as words when none)
+  tag: string;
+}
+
+const parsedCache = new Map<string, Parsed>();
+
+function parse(name: string): Parsed {
+  const hit = parsedCache.get(name);
+  if (hit) return hit;
+  const words = normalizeName(name).split(' ').filter(Boolean);
+  let school = words;
+  for (let k = Math.min(3, words.length - 1); k >= 1; k--) {
+    if (MASCOTS.has(words.slice(-k).join(' '))) {
+      school = words.slice(0, -k);
+      break;
+    }
+  }
+  const parsed = { words, school, tag: parenTag(name) };
+  if (parsedCache.size > 5000) parsedCache.clear();
+  parsedCache.set(name, parsed);
+  return parsed;
+}
+
+const same = (a: string[], b: string[]) => a.length === b.length && a.every((w, i) => w === b[i]);
+const startsWith = (long: string[], short: string[]) => short.length < long.length && short.every((w, i) => w === long[i]);
+
+// A parenthetical qualifier is the whole point of the name — "Miami (OH)"
+// never matches plain "Miami", but does match "Miami OH"
+function tagsCompatible(a: Parsed, b: Parsed): boolean {
+  if (a.tag && b.tag) return a.tag === b.tag;
+  const [tagged, other] = a.tag ? [a, b] : [b, a];
+  if (!tagged.tag) return true;
+  return tagged.tag.split(' ').every((t) => other.words.some((w) => w === t || (t.length >= 3 && w.startsWith(t))));
+}
+
+// Same words in any order, allowing one to abbreviate the other ("fla" / "florida")
+function wordsMatch(a: string[], b: string[]): boolean {
+  if (a.length !== b.length || a.includes('st') !== b.includes('st')) return false;
+  return a.every((w) => b.some((x) => x === w || (x.length >= 3 && w.length >= 3 && (x.startsWith(w) || w.startsWith(x)))));
+}
+
+// Longer name is the shorter one plus more words: a known mascot, a different
+// school, or something unknown
+function prefixMethod(long: Parsed, short: Parsed): MatchMethod {
+  if (same(long.school, short.words)) return 'school';
+  if (!startsWith(long.words, short.words)) return 'none';
+  const next = long.words[short.words.length];
+  if (DIFFERENT_SCHOOL_CONTINUATIONS.has(next) || next.length <= 2) return 'none';
+  return 'prefix';
+}
+
+// Kalshi's short forms: the city, then an initial or initials for the rest
+// ("Los Angeles D", "Chicago WS"). "St" and "AM" are words, not initials.
+function abbrevMethod(full: Parsed, short: Parsed): MatchMethod {
+  const initials = short.words[short.words.length - 1];
+  if (short.words.length < 2 || initials.length > 3) return 'none';
+  if (initials.length > 1 && DIFFERENT_SCHOOL_CONTINUATIONS.has(initials)) return 'none';
+  const stem = short.words.slice(0, -1);
+  if (!startsWith(full.words, stem)) return 'none';
+  const rest = full.words.slice(stem.length);
+  return rest.map((w) => w[0]).join('') === initials || rest[0].startsWith(initials) ? 'abbrev' : 'none';
+}
+
+// The mascot on its own — only a known one, so "Kentucky" never matches
+// "Eastern Kentucky" from the back
+function nicknameMethod(long: Parsed, short: Parsed): MatchMethod {
+  const mascot = long.words.slice(long.school.length);
+  return mascot.length && same(mascot, short.words) ? 'nickname' : 'none';
+}
+
+/**
+ * How strongly two names refer to the same team. Symmetric. Never matches on
+ * a shared mascot, first word or city alone — "Yale Bulldogs" ≠ "Georgia
+ * Bulldogs", "North Dakota" ≠ "North Carolina".
+ */
+export function compareNames(a: string, b: string): NameMatch {
+  const pa = parse(a);
+  const pb = parse(b);
+  const result = (method: MatchMethod): NameMatch => ({ method, confidence: METHOD_CONFIDENCE[method] });
+  if (!pa.words.length || !pb.words.length || !tagsCompatible(pa, pb)) return result('none');
+  if (same(pa.words, pb.words)) return result('exact');
+
+  // Both carry a mascot and they differ: two teams from one city or school name
+  const mascotA = pa.words.slice(pa.school.length);
+  const mascotB = pb.words.slice(pb.school.length);
+  if (mascotA.length && mascotB.length && !same(mascotA, mascotB)) return result('none');
+
+  const [long, short] = pa.words.length >= pb.words.length ? [pa, pb] : [pb, pa];
+  if (same(pa.school, pb.school) && !mascotA.length !== !mascotB.length) return result('school');
+  const prefix = prefixMethod(long, short);
+  if (prefix !== 'none') return result(prefix);
+  if (wordsMatch(pa.school, pb.school)) return result('words');
+  for (const method of [abbrevMethod(pa, pb), abbrevMethod(pb, pa), nicknameMethod(long, short)]) {
+    if (method !== 'none') return result(method);
+  }
+  return result('none');
+}
+
+/** True when two names are the same team with at least `min` confidence. */
+export function namesMatch(a: string, b: string, min: number = MIN_CONFIDENCE): boolean {
+  return compareNames(a, b).confidence >= min;
+}
+
+export interface ResolveOptions {
+  source?: TeamSource;     // aliases recorded for this source win over other sources' aliases
+  minConfidence?: number;
+}
+
+const asRecords = (teams: TeamRecord[] | string[]): TeamRecord[] =>
+  teams.map((t) => (typeof t === 'string' ? { name: t, aliases: [] } : t));
+
+/**
+ * Resolve a source's team name to one canonical team. Aliases are checked
+ * first (this source's, then anyone's); otherwise every team is scored on
+ * its canonical name and aliases. A tie at the top halves the confidence —
+ * enough to push any fuzzy tie below the threshold, so a name that could be
+ * two teams resolves to neither.
+ */
+export function resolveTeam(
+  name: string,
+  teams: TeamRecord[] | string[],
+  { source, minConfidence = MIN_CONFIDENCE }: ResolveOptions = {},
+): TeamResolution {
+  const records = asRecords(teams);
+  const key = normalizeName(name);
+  const aliasHits = (fromSource: boolean) =>
+    records.filter((t) =>
+      t.aliases.some((a) => (fromSource ? a.source === source : true) && normalizeName(a.name) === key),
+    );
+  const hits = source ? aliasHits(true) : [];
+  const aliased = hits.length ? hits : aliasHits(false);
+
+  const candidates: TeamCandidate[] = aliased.length
+    ? aliased.map((t) => ({ team: t.name, method: 'alias', confidence: METHOD_CONFIDENCE.alias }))
+    : records
+        .map((t) => {
+          const best = [t.name, ...t.aliases.map((a) => a.name)]
+            .map((n) => compareNames(name, n))
+            .reduce((x, y) => (y.confidence > x.confidence ? y : x));
+          return { team: t.name, ...best };
+        })
+        .filter((c) => c.confidence > 0)
+        .sort((x, y) => y.confidence - x.confidence);
+
+  const [best, runnerUp] = candidates;
+  if (!best) return { team: null, method: 'none', confidence: 0, ambiguous: false, candidates: [] };
+  const ambiguous = !!runnerUp && best.confidence - runnerUp.confidence < AMBIGUITY_MARGIN;
+  const confidence = ambiguous ? best.confidence / 2 : best.confidence;
+  return {
+    team: confidence >= minConfidence ? best.team : null,
+    method: best.method,
+    confidence,
+    ambiguous,
+    candidates: candidates.slice(0, 5),
+  };
+}
+
+const staticRegistries = new Map<string, TeamRecord[]>();
+
+/**
+ * Two names from different sources for one league — an Odds API game and its
+ * ESPN scoreboard row, a bet and its final. Each name is first resolved
+ * through the league's fixed aliases ("LA Clippers", "UConn", "Ole Miss") to
+ * its canonical team, then the two are compared head to head.
+ */
+export function sameTeam(a: string, b: string, league: string): boolean {
+  let registry = staticRegistries.get(league);
+  if (!registry) staticRegistries.set(league, (registry = buildRegistry(league, [])));
+  const canonical = (n: string) => resolveTeam(n, registry).team ?? n;
+  return namesMatch(canonical(a), canonical(b)) || namesMatch(a, b);
+}
@@ -0,0 +1,122 @@
+// src/lib/tournamentFutures.ts
+// Tournament futures value: the bracket model's title / round-advance
+// probabilities against market prices for the same outcome. Each book's
+// outright board is devigged on its own — implied probabilities scaled so the
+// field sums to the number of teams that can win (1 champion, 4 Final Four
+// teams) — and a team's market probability is the median across books. EV%
+// and Kelly are taken at the best available price.
+// Pure functions — no I/O. Tested by scripts/tournamentFutures.test.ts.
+
+import { americanToProb, expectedValue, median } from './props/engine';
+import { kellyFraction } from './bankroll';
+
+export type TournamentMarketKey = 'champion' | 'final_four';
+
+export interface TournamentMarket {
+  key: TournamentMarketKey;
+  label: string;
+  winners: number;         // teams that cash a YES — the round whose winners this counts
+}
+
+export const CHAMPION_MARKET: TournamentMarket = { key: 'champion', label: 'Champion', winners: 1 };
+export const FINAL_FOUR_MARKET: TournamentMarket = { key: 'final_four', label: 'Final Four', winners: 4 };
+
+// Markets beyond the champion, by bracket — only ones with a confirmed price
+// source. NCAA gets FINAL_FOUR_MARKET back once a Final Four series is
+// confirmed on Kalshi (KALSHI_TOURNAMENT_SERIES) or the Odds API.
+const EXTRA_MARKETS: Record<string, TournamentMarket[]> = {};
+
+/** Markets a bracket can be priced on. Every bracket has a champion. */
+export function tournamentMarkets(bracket: string): TournamentMarket[] {
+  return [CHAMPION_MARKET, ...(EXTRA_MARKETS[bracket] ?? [])];
+}
+
+/** One book's price on one team, with the team already resolved to its bracket name. */
+export interface FuturesQuote {
+  team: string;
+  book: string;
+  odds: number;            // American
+  link?: string;
+}
+
+export interface FuturesValueRow {
+  team: string;
+  modelProb: number;
+  marketProb: number | null;   // median no-vig probability across books
+  books: number;               // books quoting the team
+  best: FuturesQuote | null;   // highest price
+  ev: number | null;           // per $1 at the best price
+  kelly: number;               // full-Kelly fraction at the best price; 0 without an edge
+}
+
+/**
+ * Template round whose winners a market pays on: the last round with exactly
+ * `winners` games (so NCAA's four First Four games don't count as the Final
+ * Four), or null when the bracket has no such round.
+ */
+export function marketRound(rounds: { round: number; matchups: unknown[] }[], winners: number): number | null {
+  const matching = rounds.filter((r) => r.matchups.length === winners);
+  return matching.length ? matching[matching.length - 1].round : null;
+}
+
+/**
+ * No-vig probability per team, per book. A book's implied probabilities are
+ * scaled down so they sum to `winners`; a partial board already summing under
+ * that (a book listing only the contenders) is left as quoted, which leans
+ * the market probability high — against finding value rather than for it.
+ */
+export function devigOutrights(quotes: FuturesQuote[], winners: number): Map<string, Map<string, number>> {
+  const byBook = new Map<string, FuturesQuote[]>();
+  for (const q of quotes) byBook.set(q.book, [...(byBook.get(q.book) ?? []), q]);
+
+  const result = new Map<string, Map<string, number>>();
+  for (const [book, bookQuotes] of byBook) {
+    const total = bookQuotes.reduce((sum, q) => sum + americanToProb(q.odds), 0);
+    const scale = total > winners ? winners / total : 1;
+    result.set(book, new Map(bookQuotes.map((q) => [q.team, americanToProb(q.odds) * scale])));
+  }
+  return result;
+}
+
+/** Highest price on a team across books, or null when nobody quotes it. */
+export function bestQuote(quotes: FuturesQuote[], team: string): FuturesQuote | null {
+  let best: FuturesQuote | null = null;
+  for (const q of quotes) {
+    if (q.team === team && (!best || q.odds > best.odds)) best = q;
+  }
+  return best;
+}
+
+/**
+ * One row per team the model prices: model vs market probability and the
+ * value at the best price. Rows with an EV come first (best first), then the
+ * unquoted teams by model probability.
+ */
+export function futuresValue(
+  modelProbs: Map<string, number>,
+  quotes: FuturesQuote[],
+  winners: number,
+): FuturesValueRow[] {
+  const fair = [...devigOutrights(quotes, winners).values()];
+
+  const rows: FuturesValueRow[] = [...modelProbs].map(([team, modelProb]) => {
+    const probs = fair.map((book) => book.get(team)).filter((p): p is number => p !== undefined);
+    const best = bestQuote(quotes, team);
+    return {
+      team,
+      modelProb,
+      marketProb: probs.length ? median(probs) : null,
+      books: probs.length,
+      best,
+      ev: best ? expectedValue(modelProb, best.odds) : null,
+      kelly: best ? kellyFraction(modelProb, best.odds) : 0,
+    };
+  });
+
+  return rows.sort((a, b) =>
+    a.ev !== null && b.ev !== null ? b.ev - a.ev
+      : a.ev !== null ? -1
+        : b.ev !== null ? 1
+          : b.modelProb - a.modelProb
+  );
+}
@@ -0,0 +1,412 @@
+// src/lib/tournamentModel.ts
+// Historical NCAA tournament model from the Torvik dataset
+// (data/torvik-tournament-dataset*.csv): a logistic regression on the
+// difference of two teams' standardized season stats, fit on past
+// tournament games and checked by leaving one year out at a time.
+//
+// The dataset stores teams, not games. Games are rebuilt from each region's
+// bracket (seed slots) and tourney_wins — the team that went further won.
+// Regions that don't hold a clean 16-seed bracket are skipped, as are the
+// national semifinals (the dataset doesn't say which regions meet). A season
+// without tourney_wins can take them from its game results instead.
+//
+// With no intercept the model is a rating: each team scores w · z, and a
+// game is σ(scoreA − scoreB). Scores convert to points on the bracket's
+// win-probability curve so projectBracket can use them as ratings.
+// Pure functions — no I/O. Tested by scripts/tournamentModel.test.ts.
+
+import { WIN_PROB_LOGIT_PER_POINT } from './ratings/constants';
+
+// ---------- dataset ----------
+
+export interface TorvikTournamentTeam {
+  year: number;
+  team: string;
+  conf: string;
+  region: string;
+  seed: number | null;
+  wins: number | null;              // main-draw wins; null before results are in
+  stats: Record<string, number>;    // every numeric column, by CSV header
+}
+
+// Split one CSV line, honouring quotes; ="13-3" (the scraper's Excel guard) → 13-3
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { fields.push(field); field = ''; }
+    else field += ch;
+  }
+  fields.push(field);
+  return fields.map((f) => f.replace(/^=/, ''));
+}
+
+const toNumber = (raw: string | undefined): number | null => {
+  if (raw === undefined || raw.trim() === '') return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+};
+
+/** Parse the men's or women's Torvik tournament CSV. */
+export function parseTournamentCsv(text: string): TorvikTournamentTeam[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== '');
+  if (lines.length < 2) return [];
+  const header = splitCsvLine(lines[0]);
+  const fixed = new Set(['year', 'team', 'conf', 'region', 'seed', 'tourney_wins']);
+
+  return lines.slice(1).map((line) => {
+    const fields = splitCsvLine(line);
+    const row = new Map(header.map((h, i) => [h, fields[i] ?? '']));
+    const stats: Record<string, number> = {};
+    header.forEach((h, i) => {
+      if (fixed.has(h)) return;
+      const n = toNumber(fields[i]);
+      if (n !== null) stats[h] = n;
+    });
+    return {
+      year: Number(row.get('year')),
+      team: row.get('team') ?? '',
+      conf: row.get('conf') ?? '',
+      region: row.get('region') ?? '',
+      seed: toNumber(row.get('seed')),
+      wins: toNumber(row.get('tourney_wins')),
+      stats,
+    };
+  });
+}
+
+// ---------- games ----------
+
+export interface TournamentGame {
+  year: number;
+  round: number;                 // 1 = round of 64 … 4 = regional final, 6 = title game
+  a: TorvikTournamentTeam;
+  b: TorvikTournamentTeam;
+  aWon: boolean;
+}
+
+// Seed slots in bracket order within a region
+const REGION_SLOTS = [1, 16, 8, 9, 5, 12, 4, 13, 6, 11, 3, 14, 7, 10, 2, 15];
+
+/**
+ * Rebuild the games of one region from tourney_wins. The side of a round-r
+ * game coming out of a block of slots is the block's one team with r − 1
+ * wins; a First Four pair where neither side won a main-draw game leaves its
+ * round-of-64 game unknown, and a game whose sides don't agree on who
+ * advanced is dropped.
+ */
+function regionGames(teams: TorvikTournamentTeam[]): { games: TournamentGame[]; champion: TorvikTournamentTeam | null } {
+  const slots = REGION_SLOTS.map((seed) => teams.filter((t) => t.seed === seed));
+  const clean = slots.every((s) => s.length === 1 || s.length === 2)
+    && slots.reduce((n, s) => n + s.length, 0) === teams.length;
+  if (!clean || teams.some((t) => t.wins === null)) return { games: [], champion: null };
+
+  const advancer = (block: TorvikTournamentTeam[][], wins: number) => {
+    const alive = block.flat().filter((t) => t.wins! >= wins);
+    if (alive.length === 1) return alive[0];
+    // A First Four pair: the side that won its round-of-64 game played it
+    const through = alive.filter((t) => t.wins! > wins);
+    return wins === 0 && through.length === 1 ? through[0] : null;
+  };
+
+  const games: TournamentGame[] = [];
+  for (let round = 1; round <= 4; round++) {
+    const size = 2 ** (round - 1);
+    for (let i = 0; i < slots.length; i += 2 * size) {
+      const a = advancer(slots.slice(i, i + size), round - 1);
+      const b = advancer(slots.slice(i + size, i + 2 * size), round - 1);
+      if (!a || !b || (a.wins! >= round) === (b.wins! >= round)) continue;
+      games.push({ year: a.year, round, a, b, aWon: a.wins! >= round });
+    }
+  }
+  return { games, champion: advancer(slots, 4) };
+}
+
+/** Every game the dataset can reconstruct, across all years given. */
+export function tournamentGames(teams: TorvikTournamentTeam[]): TournamentGame[] {
+  const games: TournamentGame[] = [];
+  const years = [...new Set(teams.map((t) => t.year))].sort((x, y) => x - y);
+  for (const year of years) {
+    const yearTeams = teams.filter((t) => t.year === year);
+    const regions = [...new Set(yearTeams.map((t) => t.region).filter(Boolean))];
+    const champions: TorvikTournamentTeam[] = [];
+    for (const region of regions) {
+      const { games: rg, champion } = regionGames(yearTeams.filter((t) => t.region === region));
+      games.push(...rg);
+      if (champion) champions.push(champion);
+    }
+    // Title game: the two regional champions that reached it
+    const finalists = champions.filter((t) => t.wins! >= 5);
+    if (champions.length === 4 && finalists.length === 2 && finalists.filter((t) => t.wins === 6).length === 1) {
+      games.push({ year, round: 6, a: finalists[0], b: finalists[1], aWon: finalists[0].wins === 6 });
+    }
+  }
+  return games;
+}
+
+// ---------- results ----------
+
+/** One finished tournament game, by the names a scoreboard uses. */
+export interface TournamentResult {
+  year: number;
+  winner: string;
+  loser: string;
+  firstFour: boolean;            // play-in game — not a main-draw win
+}
+
+export interface AppliedResults {
+  teams: TorvikTournamentTeam[];
+  seasons: number[];             // seasons whose wins came from the results
+  unmatched: string[];           // "2024: McNeese Cowboys" — names not in that year's field
+}
+
+// 64 teams, one champion
+const MAIN_DRAW_GAMES = 63;
+
+/**
+ * Fill in tourney_wins from game results for the seasons that have none.
+ * `resolve` maps a result's name to the dataset's team name for that year.
+ * A season is filled only when every name resolves, all 63 main-draw games
+ * are there and every team in the field played — a missing game would
+ * otherwise read as a loss. Seasons that already have wins are left alone.
+ */
+export function applyTournamentResults(
+  teams: TorvikTournamentTeam[],
+  results: TournamentResult[],
+  resolve: (year: number, name: string) => string | null
+): AppliedResults {
+  const winsByYear = new Map<number, Map<string, number>>();
+  const unmatched: string[] = [];
+
+  for (const year of new Set(results.map((r) => r.year))) {
+    const field = new Set(teams.filter((t) => t.year === year).map((t) => t.team));
+    if (field.size === 0 || teams.some((t) => t.year === year && t.wins !== null)) continue;
+
+    const wins = new Map<string, number>();
+    let mainDraw = 0;
+    let resolved = true;
+    for (const r of results.filter((res) => res.year === year)) {
+      const [winner, loser] = [r.winner, r.loser].map((name) => {
+        const team = resolve(year, name);
+        if (team === null || !field.has(team)) unmatched.push(`${year}: ${name}`);
+        return team !== null && field.has(team) ? team : null;
+      });
+      if (!winner || !loser) {
+        resolved = false;
+        continue;
+      }
+      wins.set(winner, (wins.get(winner) ?? 0) + (r.firstFour ? 0 : 1));
+      wins.set(loser, wins.get(loser) ?? 0);
+      if (!r.firstFour) mainDraw++;
+    }
+    if (resolved && mainDraw === MAIN_DRAW_GAMES && wins.size === field.size) winsByYear.set(year, wins);
+  }
+
+  return {
+    teams: teams.map((t) => {
+      const wins = winsByYear.get(t.year)?.get(t.team);
+      return wins === undefined ? t : { ...t, wins };
+    }),
+    seasons: [...winsByYear.keys()].sort((a, b) => a - b),
+    unmatched,
+  };
+}
+
+// ---------- model ----------
+
+export interface ModelFeature {
+  column: string;     // CSV header, or 'seed'
+  label: string;
+}
+
+export const DEFAULT_FEATURES: ModelFeature[] = [
+  { column: 'reg_AdjOE', label: 'AdjOE' },
+  { column: 'reg_AdjDE', label: 'AdjDE' },
+  { column: 'reg_Adj_T', label: 'Tempo' },
+  { column: 'talent', label: 'Talent' },
+  { column: 'reg_3PR', label: '3PR' },
+];
+
+/** The yardstick: seed line alone. */
+export const SEED_FEATURES: ModelFeature[] = [{ column: 'seed', label: 'Seed' }];
+
+export const DEFAULT_L2 = 1;
+
+export interface TournamentModel {
+  features: ModelFeature[];
+  weights: number[];    // per standardized feature
+  means: number[];
+  sds: number[];
+  games: number;        // games fit on
+}
+
+const featureValue = (team: TorvikTournamentTeam, column: string): number | null =>
+  column === 'seed' ? team.seed : team.stats[column] ?? null;
+
+// Standardized features; a missing value sits at the mean
+function standardize(model: Pick<TournamentModel, 'features' | 'means' | 'sds'>, team: TorvikTournamentTeam): number[] {
+  return model.features.map((f, i) => {
+    const v = featureValue(team, f.column);
+    return v === null || model.sds[i] === 0 ? 0 : (v - model.means[i]) / model.sds[i];
+  });
+}
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+// Solve A x = b by Gaussian elimination with partial pivoting (A is small)
+function solve(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col || M[col][col] === 0) continue;
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+  return M.map((row, i) => (row[i] === 0 ? 0 : row[n] / row[i]));
+}
+
+/**
+ * Fit the matchup model: L2-penalised logistic regression with no intercept
+ * (so P(a beats b) = 1 − P(b beats a)), by Newton's method. Features are
+ * standardized over the teams in the training games.
+ */
+export function fitTournamentModel(
+  games: TournamentGame[],
+  features: ModelFeature[] = DEFAULT_FEATURES,
+  l2: number = DEFAULT_L2,
+): TournamentModel {
+  const teams = [...new Set(games.flatMap((g) => [g.a, g.b]))];
+  const means: number[] = [];
+  const sds: number[] = [];
+  for (const f of features) {
+    const values = teams.map((t) => featureValue(t, f.column)).filter((v): v is number => v !== null);
+    const mean = values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+    const variance = values.length > 1 ? values.reduce((a, v) => a + (v - mean) ** 2, 0) / (values.length - 1) : 0;
+    means.push(mean);
+    sds.push(Math.sqrt(variance));
+  }
+
+  const scaled = { features, means, sds };
+  const rows = games.map((g) => {
+    const za = standardize(scaled, g.a);
+    const zb = standardize(scaled, g.b);
+    return { x: za.map((v, i) => v - zb[i]), y: g.aWon ? 1 : 0 };
+  });
+
+  const k = features.length;
+  let w = new Array(k).fill(0);
+  for (let iter = 0; iter < 50; iter++) {
+    const grad = w.map((wi) => l2 * wi);
+    const hess = w.map((_, i) => w.map((__, j) => (i === j ? l2 : 0)));
+    for (const { x, y } of rows) {
+      const p = sigmoid(x.reduce((s, xi, i) => s + xi * w[i], 0));
+      for (let i = 0; i < k; i++) {
+        grad[i] += (p - y) * x[i];
+        for (let j = 0; j < k; j++) hess[i][j] += p * (1 - p) * x[i] * x[j];
+      }
+    }
+    const step = solve(hess, grad);
+    w = w.map((wi, i) => wi - step[i]);
+    if (Math.max(...step.map(Math.abs)) < 1e-9) break;
+  }
+
+  return { features, weights: w, means, sds, games: games.length };
+}
+
+/** A team's strength in logits. */
+export function teamScore(model: TournamentModel, team: TorvikTournamentTeam): number {
+  return standardize(model, team).reduce((s, z, i) => s + z * model.weights[i], 0);
+}
+
+/** P(a beats b) on a neutral floor. */
+export function matchupProb(model: TournamentModel, a: TorvikTournamentTeam, b: TorvikTournamentTeam): number {
+  return sigmoid(teamScore(model, a) - teamScore(model, b));
+}
+
+/**
+ * Ratings in points for projectBracket: scores over the bracket's logit
+ * slope, centred on the field so they read like efficiency margins.
+ */
+export function modelRatings(model: TournamentModel, teams: TorvikTournamentTeam[]): Map<string, number> {
+  const scores = teams.map((t) => teamScore(model, t));
+  const mean = scores.length ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
+  return new Map(teams.map((t, i) => [t.team, (scores[i] - mean) / WIN_PROB_LOGIT_PER_POINT]));
+}
+
+// ---------- validation ----------
+
+export interface FitScore {
+  games: number;
+  logLoss: number;
+  brier: number;
+  accuracy: number;
+}
+
+export interface YearValidation {
+  year: number;
+  model: FitScore;
+  seed: FitScore;
+}
+
+export interface Validation {
+  years: YearValidation[];
+  model: FitScore;      // pooled over every held-out game
+  seed: FitScore;
+}
+
+/** Log loss, Brier score and hit rate of a model on some games. */
+export function scoreGames(model: TournamentModel, games: TournamentGame[]): FitScore {
+  let logLoss = 0;
+  let brier = 0;
+  let hits = 0;
+  for (const g of games) {
+    const p = Math.min(1 - 1e-12, Math.max(1e-12, matchupProb(model, g.a, g.b)));
+    const y = g.aWon ? 1 : 0;
+    logLoss -= y * Math.log(p) + (1 - y) * Math.log(1 - p);
+    brier += (p - y) ** 2;
+    if ((p >= 0.5) === g.aWon) hits++;
+  }
+  const n = games.length || 1;
+  return { games: games.length, logLoss: logLoss / n, brier: brier / n, accuracy: hits / n };
+}
+
+const pool = (scores: FitScore[]): FitScore => {
+  const games = scores.reduce((a, s) => a + s.games, 0);
+  const avg = (key: 'logLoss' | 'brier' | 'accuracy') =>
+    games ? scores.reduce((a, s) => a + s[key] * s.games, 0) / games : 0;
+  return { games, logLoss: avg('logLoss'), brier: avg('brier'), accuracy: avg('accuracy') };
+};
+
+/**
+ * Leave-one-year-out: for each year with games, fit on every other year and
+ * score the held-out tournament — next to a seed-only model fit the same way.
+ */
+export function leaveOneYearOut(
+  games: TournamentGame[],
+  features: ModelFeature[] = DEFAULT_FEATURES,
+  l2: number = DEFAULT_L2,
+): Validation {
+  const years = [...new Set(games.map((g) => g.year))].sort((x, y) => x - y);
+  const results = years.map((year) => {
+    const train = games.filter((g) => g.year !== year);
+    const test = games.filter((g) => g.year === year);
+    return {
+      year,
+      model: scoreGames(fitTournamentModel(train, features, l2), test),
+      seed: scoreGames(fitTournamentModel(train, SEED_FEATURES, l2), test),
+    };
+  });
+  return { years: results, model: pool(results.map((r) => r.model)), seed: pool(results.map((r) => r.seed)) };
+}